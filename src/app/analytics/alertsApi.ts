@@ -0,0 +1,156 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type { IAdmin } from '@/common/types';
+
+import type {
+  AnalyticsDailyMetricKey,
+  AnalyticsMetricKey,
+} from './metricRegistry';
+
+export type AnalyticsAlertSource = 'daily' | 'technical';
+
+export type AnalyticsAlertDirection = 'up' | 'down' | 'both';
+
+export type AnalyticsAlertCondition =
+  | { type: 'threshold'; operator: 'above' | 'below'; value: number }
+  | {
+      type: 'anomaly';
+      baselinePeriods: number;
+      deviationPercent: number;
+      direction: AnalyticsAlertDirection;
+    };
+
+export type AnalyticsAlertRule = {
+  id: string;
+  name: string;
+  source: AnalyticsAlertSource;
+  metric: AnalyticsDailyMetricKey | AnalyticsMetricKey;
+  condition: AnalyticsAlertCondition;
+  enabled: boolean;
+  createdBy: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AnalyticsAlertRuleDto = {
+  name: string;
+  source: AnalyticsAlertSource;
+  metric: AnalyticsDailyMetricKey | AnalyticsMetricKey;
+  condition: AnalyticsAlertCondition;
+  enabled?: boolean;
+};
+
+export type AnalyticsAlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export type AnalyticsAlert = {
+  id: string;
+  rule: Pick<
+    AnalyticsAlertRule,
+    'id' | 'name' | 'source' | 'metric' | 'condition'
+  >;
+  period: string;
+  value: number;
+  expected: number | null;
+  status: AnalyticsAlertStatus;
+  triggeredAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: Pick<
+    IAdmin,
+    'id' | 'email' | 'firstName' | 'lastName'
+  > | null;
+};
+
+export type AnalyticsAlertsParams = {
+  status?: AnalyticsAlertStatus;
+  source?: AnalyticsAlertSource;
+  metric?: string;
+  from?: string;
+  to?: string;
+  take?: number;
+};
+
+const rulesFallbackError = 'Unable to load alert rules.';
+const createRuleFallbackError = 'Unable to create the alert rule.';
+const updateRuleFallbackError = 'Unable to save the alert rule.';
+const deleteRuleFallbackError = 'Unable to delete the alert rule.';
+const alertsFallbackError = 'Unable to load alerts.';
+const updateAlertFallbackError = 'Unable to update the alert.';
+
+export async function getAnalyticsAlertRules() {
+  const res = await apiFetch('/admin/analytics/alert-rules');
+  if (!res.ok) {
+    throw await buildApiError(res, rulesFallbackError);
+  }
+  return (await res.json()) as AnalyticsAlertRule[];
+}
+
+export async function createAnalyticsAlertRule(payload: AnalyticsAlertRuleDto) {
+  const res = await apiFetch('/admin/analytics/alert-rules', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createRuleFallbackError);
+  }
+  return (await res.json()) as AnalyticsAlertRule;
+}
+
+export async function updateAnalyticsAlertRule(
+  id: string,
+  payload: Partial<AnalyticsAlertRuleDto>,
+) {
+  const res = await apiFetch(`/admin/analytics/alert-rules/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, updateRuleFallbackError);
+  }
+  return (await res.json()) as AnalyticsAlertRule;
+}
+
+export async function deleteAnalyticsAlertRule(id: string) {
+  const res = await apiFetch(`/admin/analytics/alert-rules/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteRuleFallbackError);
+  }
+}
+
+export async function getAnalyticsAlerts(params: AnalyticsAlertsParams) {
+  const query = new URLSearchParams();
+  if (params.status) query.set('status', params.status);
+  if (params.source) query.set('source', params.source);
+  if (params.metric) query.set('metric', params.metric);
+  if (params.from) query.set('from', params.from);
+  if (params.to) query.set('to', params.to);
+  if (typeof params.take === 'number') query.set('take', String(params.take));
+
+  const suffix = query.toString();
+  const res = await apiFetch(
+    `/admin/analytics/alerts${suffix ? `?${suffix}` : ''}`,
+  );
+  if (!res.ok) {
+    throw await buildApiError(res, alertsFallbackError);
+  }
+  return (await res.json()) as AnalyticsAlert[];
+}
+
+export async function updateAnalyticsAlert(
+  id: string,
+  payload: { status: AnalyticsAlertStatus },
+) {
+  const res = await apiFetch(`/admin/analytics/alerts/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, updateAlertFallbackError);
+  }
+  return (await res.json()) as AnalyticsAlert;
+}
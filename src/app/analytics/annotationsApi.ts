@@ -0,0 +1,110 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type { IAdmin } from '@/common/types';
+
+export type AnalyticsAnnotationCategory =
+  | 'release'
+  | 'campaign'
+  | 'incident'
+  | 'broadcast'
+  | 'other';
+
+export type AnalyticsAnnotationEntityType =
+  | 'prompt'
+  | 'post'
+  | 'scenario'
+  | 'broadcast';
+
+export type AnalyticsAnnotationEntity = {
+  type: AnalyticsAnnotationEntityType;
+  id: string;
+  label: string | null;
+};
+
+export type AnalyticsAnnotationOrigin =
+  | 'manual'
+  | 'prompt_version'
+  | 'broadcast';
+
+export type AnalyticsAnnotation = {
+  id: string;
+  date: string;
+  title: string;
+  description: string | null;
+  category: AnalyticsAnnotationCategory;
+  entity: AnalyticsAnnotationEntity | null;
+  origin: AnalyticsAnnotationOrigin;
+  createdBy: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AnalyticsAnnotationDto = {
+  date: string;
+  title: string;
+  description?: string | null;
+  category: AnalyticsAnnotationCategory;
+  entity?: AnalyticsAnnotationEntity | null;
+  origin?: AnalyticsAnnotationOrigin;
+};
+
+export type AnalyticsAnnotationsParams = {
+  from: string;
+  to: string;
+};
+
+const listFallbackError = 'Unable to load chart annotations.';
+const createFallbackError = 'Unable to add the annotation.';
+const updateFallbackError = 'Unable to save the annotation.';
+const deleteFallbackError = 'Unable to delete the annotation.';
+
+export async function getAnalyticsAnnotations(
+  params: AnalyticsAnnotationsParams,
+) {
+  const query = new URLSearchParams({ from: params.from, to: params.to });
+  const res = await apiFetch(
+    `/admin/analytics/annotations?${query.toString()}`,
+  );
+  if (!res.ok) {
+    throw await buildApiError(res, listFallbackError);
+  }
+  return (await res.json()) as AnalyticsAnnotation[];
+}
+
+export async function createAnalyticsAnnotation(
+  payload: AnalyticsAnnotationDto,
+) {
+  const res = await apiFetch('/admin/analytics/annotations', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createFallbackError);
+  }
+  return (await res.json()) as AnalyticsAnnotation;
+}
+
+export async function updateAnalyticsAnnotation(
+  id: string,
+  payload: Partial<AnalyticsAnnotationDto>,
+) {
+  const res = await apiFetch(`/admin/analytics/annotations/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, updateFallbackError);
+  }
+  return (await res.json()) as AnalyticsAnnotation;
+}
+
+export async function deleteAnalyticsAnnotation(id: string) {
+  const res = await apiFetch(`/admin/analytics/annotations/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteFallbackError);
+  }
+}
@@ -0,0 +1,108 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type { IAdmin } from '@/common/types';
+
+import type {
+  AnalyticsDailyMetricKey,
+  AnalyticsMetricKey,
+} from './metricRegistry';
+
+export type AnalyticsDashboardTileType = 'kpi' | 'line' | 'table';
+
+export type AnalyticsDashboardTileSource = 'monthly' | 'daily';
+
+export type AnalyticsDashboardComparison =
+  | 'none'
+  | 'previous_period'
+  | 'previous_year';
+
+export type AnalyticsDashboardTileWidth = 'small' | 'medium' | 'full';
+
+export type AnalyticsDashboardTileRange =
+  | { mode: 'relative'; count: number }
+  | { mode: 'fixed'; start: string; end: string };
+
+export type AnalyticsDashboardTile = {
+  id: string;
+  title: string | null;
+  type: AnalyticsDashboardTileType;
+  source: AnalyticsDashboardTileSource;
+  metrics: Array<AnalyticsMetricKey | AnalyticsDailyMetricKey>;
+  range: AnalyticsDashboardTileRange;
+  comparison: AnalyticsDashboardComparison;
+  width: AnalyticsDashboardTileWidth;
+};
+
+export type AnalyticsDashboard = {
+  id: string;
+  name: string;
+  tiles: AnalyticsDashboardTile[];
+  isDefault: boolean;
+  owner: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AnalyticsDashboardDto = {
+  name: string;
+  tiles: AnalyticsDashboardTile[];
+  isDefault?: boolean;
+};
+
+const listFallbackError = 'Unable to load dashboards.';
+const detailsFallbackError = 'Unable to load the dashboard.';
+const createFallbackError = 'Unable to create the dashboard.';
+const updateFallbackError = 'Unable to save the dashboard.';
+const deleteFallbackError = 'Unable to delete the dashboard.';
+
+export async function getAnalyticsDashboards() {
+  const res = await apiFetch('/admin/analytics/dashboards');
+  if (!res.ok) {
+    throw await buildApiError(res, listFallbackError);
+  }
+  return (await res.json()) as AnalyticsDashboard[];
+}
+
+export async function getAnalyticsDashboard(id: string) {
+  const res = await apiFetch(`/admin/analytics/dashboards/${id}`);
+  if (!res.ok) {
+    throw await buildApiError(res, detailsFallbackError);
+  }
+  return (await res.json()) as AnalyticsDashboard;
+}
+
+export async function createAnalyticsDashboard(payload: AnalyticsDashboardDto) {
+  const res = await apiFetch('/admin/analytics/dashboards', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createFallbackError);
+  }
+  return (await res.json()) as AnalyticsDashboard;
+}
+
+export async function updateAnalyticsDashboard(
+  id: string,
+  payload: Partial<AnalyticsDashboardDto>,
+) {
+  const res = await apiFetch(`/admin/analytics/dashboards/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, updateFallbackError);
+  }
+  return (await res.json()) as AnalyticsDashboard;
+}
+
+export async function deleteAnalyticsDashboard(id: string) {
+  const res = await apiFetch(`/admin/analytics/dashboards/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteFallbackError);
+  }
+}
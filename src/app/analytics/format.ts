@@ -3,11 +3,18 @@ import type { AnalyticsMetricDefinition } from './metricRegistry';
 export type FormatVariant = 'card' | 'table' | 'chart' | 'tooltip' | 'delta';
 type DurationUnit = 's' | 'ms';
 
+export type MetricFormatOptions = Pick<
+  AnalyticsMetricDefinition,
+  'format' | 'precision' | 'currency' | 'durationUnit' | 'polarity'
+>;
+
 type DeltaResult = {
   label: string;
   isPositive: boolean | null;
 };
 
+export type DeltaTone = 'success' | 'danger' | 'muted';
+
 const numberFormatCache = new Map<string, Intl.NumberFormat>();
 const STAR_SUFFIX = ' ⭐️';
 const currencyFormatterCache = new Map<string, Intl.NumberFormat>();
@@ -113,7 +120,7 @@ function formatDuration(
 }
 
 export function formatMetricValue(
-  metric: AnalyticsMetricDefinition,
+  metric: MetricFormatOptions,
   value: number | null | undefined,
   variant: FormatVariant,
 ) {
@@ -136,7 +143,7 @@ export function formatMetricValue(
 }
 
 export function formatMetricDelta(
-  metric: AnalyticsMetricDefinition,
+  metric: MetricFormatOptions,
   current: number | null | undefined,
   previous: number | null | undefined,
 ): DeltaResult | null {
@@ -187,3 +194,27 @@ export function formatMetricDelta(
     isPositive: diff > 0,
   };
 }
+
+export function formatMetricDeltaPercent(
+  current: number | null | undefined,
+  previous: number | null | undefined,
+) {
+  if (current === null || current === undefined) return null;
+  if (previous === null || previous === undefined) return null;
+  if (!Number.isFinite(current) || !Number.isFinite(previous)) return null;
+  if (previous === 0) return null;
+
+  const ratio = (current - previous) / Math.abs(previous);
+  if (ratio === 0) return '0%';
+  const sign = ratio > 0 ? '+' : '−';
+  return `${sign}${formatPercent(Math.abs(ratio), 1)}`;
+}
+
+export function getMetricDeltaTone(
+  metric: MetricFormatOptions,
+  isPositive: boolean | null,
+): DeltaTone {
+  if (isPositive === null) return 'muted';
+  const isGood = metric.polarity === 'negative' ? !isPositive : isPositive;
+  return isGood ? 'success' : 'danger';
+}
@@ -18,6 +18,35 @@ export type {
   PaymentsRevenueBreakdownItem,
   PaymentsRevenueGroupBy,
 } from './analyticsApi';
+export type {
+  AnalyticsAlert,
+  AnalyticsAlertCondition,
+  AnalyticsAlertDirection,
+  AnalyticsAlertRule,
+  AnalyticsAlertRuleDto,
+  AnalyticsAlertsParams,
+  AnalyticsAlertSource,
+  AnalyticsAlertStatus,
+} from './alertsApi';
+export type {
+  AnalyticsAnnotation,
+  AnalyticsAnnotationCategory,
+  AnalyticsAnnotationDto,
+  AnalyticsAnnotationEntity,
+  AnalyticsAnnotationEntityType,
+  AnalyticsAnnotationOrigin,
+  AnalyticsAnnotationsParams,
+} from './annotationsApi';
+export type {
+  AnalyticsDashboard,
+  AnalyticsDashboardComparison,
+  AnalyticsDashboardDto,
+  AnalyticsDashboardTile,
+  AnalyticsDashboardTileRange,
+  AnalyticsDashboardTileSource,
+  AnalyticsDashboardTileType,
+  AnalyticsDashboardTileWidth,
+} from './dashboardsApi';
 export {
   buildAnalyticsCsvFileName,
   createCsvContent,
@@ -26,21 +55,33 @@ export {
   downloadCsvFile,
 } from './exportCsv';
 export {
+  type DeltaTone,
   formatCount,
   formatMetricDelta,
+  formatMetricDeltaPercent,
   formatMetricValue,
   formatStars,
+  getMetricDeltaTone,
+  type MetricFormatOptions,
 } from './format';
 export type {
+  AnalyticsDailyMetricDefinition,
+  AnalyticsDailyMetricKey,
   AnalyticsMetricDefinition,
   AnalyticsMetricKey,
   AnalyticsSection,
+  MetricAggregate,
+  MetricPolarity,
 } from './metricRegistry';
 export {
+  getDailyMetricDefinition,
+  getDailyMetricOptions,
   getMetricDefinition,
   getMetricOptions,
   getSectionConfig,
   getSectionOptions,
+  isAnalyticsMetricKey,
+  isDailyMetricKey,
   isMetricForSection,
   isValidSection,
 } from './metricRegistry';
@@ -59,13 +100,32 @@ export {
 export type { MonthId } from './months';
 export {
   useAnalyticsActiveUsers,
+  useAnalyticsAlertRules,
+  useAnalyticsAlerts,
+  useAnalyticsAnnotations,
   useAnalyticsDailyByCountry,
   useAnalyticsDailyCountryTop,
   useAnalyticsCohortRevenue,
   useAnalyticsDaily,
+  useAnalyticsDailyList,
+  useAnalyticsDashboard,
+  useAnalyticsDashboards,
   useAnalyticsDeeplinks,
   useAnalyticsMainRange,
   useAnalyticsMetrics,
+  useAnalyticsMetricsList,
+  useClearEntityAnnotations,
+  useCreateAnalyticsAlertRule,
+  useCreateAnalyticsAnnotation,
+  useCreateAnalyticsDashboard,
+  useDeleteAnalyticsAlertRule,
+  useDeleteAnalyticsAnnotation,
+  useDeleteAnalyticsDashboard,
   usePaymentsConversionBreakdown,
   usePaymentsRevenueBreakdown,
+  useRecordAnalyticsAnnotation,
+  useUpdateAnalyticsAlert,
+  useUpdateAnalyticsAlertRule,
+  useUpdateAnalyticsAnnotation,
+  useUpdateAnalyticsDashboard,
 } from './queries';
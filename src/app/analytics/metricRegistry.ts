@@ -61,6 +61,31 @@ export type AnalyticsMetricKey =
 
 export type MetricFormat = 'percent' | 'count' | 'duration' | 'currency';
 
+export type AnalyticsDailyMetricKey =
+  | 'visits'
+  | 'opened'
+  | 'deeplinkEvents'
+  | 'total'
+  | 'totalOrganic'
+  | 'totalPaid'
+  | 'totalPaidUnique'
+  | 'activationRate'
+  | 'openedAppRate'
+  | 'seenPaywallRate'
+  | 'unique'
+  | 'uniqueAll'
+  | 'customers'
+  | 'revenue'
+  | 'conversion'
+  | 'arpu'
+  | 'arpuu'
+  | 'arpuuAll'
+  | 'arpc';
+
+export type MetricAggregate = 'sum' | 'average';
+
+export type MetricPolarity = 'positive' | 'negative';
+
 export type AnalyticsMetricDefinition = {
   key: AnalyticsMetricKey;
   label: string;
@@ -71,6 +96,18 @@ export type AnalyticsMetricDefinition = {
   precision?: number;
   currency?: 'stars' | 'usd';
   durationUnit?: 's' | 'ms';
+  polarity?: MetricPolarity;
+};
+
+export type AnalyticsDailyMetricDefinition = {
+  key: AnalyticsDailyMetricKey;
+  label: string;
+  description: string;
+  format: MetricFormat;
+  aggregate: MetricAggregate;
+  precision?: number;
+  currency?: 'stars' | 'usd';
+  polarity?: MetricPolarity;
 };
 
 export type AnalyticsSectionConfig = {
@@ -147,6 +184,7 @@ const MAIN_METRICS: AnalyticsMetricDefinition[] = [
     format: 'percent',
     section: 'main',
     precision: 1,
+    polarity: 'negative',
   },
   {
     key: 'chatRecoveryRate',
@@ -276,6 +314,7 @@ const MAIN_METRICS: AnalyticsMetricDefinition[] = [
     format: 'percent',
     section: 'main',
     precision: 1,
+    polarity: 'negative',
   },
   {
     key: 'stickinessRatio',
@@ -445,6 +484,7 @@ const TECHNICAL_METRICS: AnalyticsMetricDefinition[] = [
     format: 'percent',
     section: 'technical',
     precision: 1,
+    polarity: 'negative',
   },
   {
     key: 'avgResponseTime',
@@ -453,6 +493,7 @@ const TECHNICAL_METRICS: AnalyticsMetricDefinition[] = [
     format: 'duration',
     section: 'technical',
     durationUnit: 'ms',
+    polarity: 'negative',
   },
   {
     key: 'totalLlmCost',
@@ -462,6 +503,7 @@ const TECHNICAL_METRICS: AnalyticsMetricDefinition[] = [
     section: 'technical',
     precision: 2,
     currency: 'usd',
+    polarity: 'negative',
   },
   {
     key: 'imgGenTotalAvg',
@@ -471,6 +513,7 @@ const TECHNICAL_METRICS: AnalyticsMetricDefinition[] = [
     format: 'duration',
     section: 'technical',
     durationUnit: 'ms',
+    polarity: 'negative',
   },
   {
     key: 'imgGenGenerationAvg',
@@ -479,6 +522,7 @@ const TECHNICAL_METRICS: AnalyticsMetricDefinition[] = [
     format: 'duration',
     section: 'technical',
     durationUnit: 'ms',
+    polarity: 'negative',
   },
   {
     key: 'imgGenerationTotal',
@@ -497,6 +541,153 @@ const TECHNICAL_METRICS: AnalyticsMetricDefinition[] = [
   },
 ];
 
+const DAILY_METRICS: AnalyticsDailyMetricDefinition[] = [
+  {
+    key: 'opened',
+    label: 'User visits',
+    description: 'Number of day opens of the bot by all users.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'total',
+    label: 'Total active users',
+    description: 'Active users with at least one chat session in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'unique',
+    label: 'Total unique active users',
+    description:
+      'Distinct active users with at least one chat session in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'uniqueAll',
+    label: 'Unique All',
+    description: 'Users registered in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'totalOrganic',
+    label: 'Organic active users',
+    description: 'Active users who came from unknown source in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'deeplinkEvents',
+    label: 'Total deeplink clicks',
+    description:
+      'Total external link clicks in the day (30m cooldown for same user and link).',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'totalPaid',
+    label: 'Deeplink active users',
+    description: 'Active users who came from paid external links in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'totalPaidUnique',
+    label: 'Deeplink active users (unique)',
+    description:
+      'Unique active users who came from paid external links in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'activationRate',
+    label: 'Activation Rate (%)',
+    description: 'Total divided by link clicks.',
+    format: 'count',
+    aggregate: 'average',
+    precision: 1,
+  },
+  {
+    key: 'openedAppRate',
+    label: 'App Open Rate',
+    description: 'Percent of total unique users who opened the app.',
+    format: 'percent',
+    aggregate: 'average',
+    precision: 1,
+  },
+  {
+    key: 'seenPaywallRate',
+    label: 'Paywall Seen Rate',
+    description:
+      'Percent of total unique users who seen paywall at least 1 time.',
+    format: 'percent',
+    aggregate: 'average',
+    precision: 1,
+  },
+  {
+    key: 'customers',
+    label: 'Customers',
+    description: 'Distinct users with at least one payment in the day.',
+    format: 'count',
+    aggregate: 'sum',
+  },
+  {
+    key: 'revenue',
+    label: 'Revenue',
+    description: 'Sum of payment amount for the day, in USD.',
+    format: 'currency',
+    aggregate: 'sum',
+    precision: 2,
+    currency: 'usd',
+  },
+  {
+    key: 'conversion',
+    label: 'Conversion',
+    description: 'Customers divided by total users.',
+    format: 'percent',
+    aggregate: 'average',
+    precision: 1,
+  },
+  {
+    key: 'arpu',
+    label: 'ARPU',
+    description: 'Revenue divided by total users.',
+    format: 'currency',
+    aggregate: 'average',
+    precision: 2,
+    currency: 'usd',
+  },
+  {
+    key: 'arpuu',
+    label: 'ARPUU',
+    description: 'Revenue divided by unique users.',
+    format: 'currency',
+    aggregate: 'average',
+    precision: 2,
+    currency: 'usd',
+  },
+  {
+    key: 'arpuuAll',
+    label: 'ARPUU All',
+    description: 'Revenue divided by registered users.',
+    format: 'currency',
+    aggregate: 'average',
+    precision: 2,
+    currency: 'usd',
+  },
+  {
+    key: 'arpc',
+    label: 'ARPC',
+    description: 'Revenue divided by customers.',
+    format: 'currency',
+    aggregate: 'average',
+    precision: 2,
+    currency: 'usd',
+  },
+];
+
 const SECTIONS: AnalyticsSectionConfig[] = [
   {
     key: 'overview',
@@ -569,6 +760,12 @@ export function getMetricDefinition(
   return METRIC_MAP.get(key) ?? null;
 }
 
+export function isAnalyticsMetricKey(
+  value: string | null | undefined,
+): value is AnalyticsMetricKey {
+  return Boolean(value) && METRIC_MAP.has(value as AnalyticsMetricKey);
+}
+
 export function isValidSection(
   value: string | null | undefined,
 ): value is AnalyticsSection {
@@ -606,3 +803,29 @@ export function getMetricOptions(section: AnalyticsSection) {
     label: metric.label,
   }));
 }
+
+const DAILY_METRIC_MAP = new Map(
+  DAILY_METRICS.map((metric) => [metric.key, metric]),
+);
+
+export function getDailyMetricDefinition(
+  key: AnalyticsDailyMetricKey | null,
+): AnalyticsDailyMetricDefinition | null {
+  if (!key) return null;
+  return DAILY_METRIC_MAP.get(key) ?? null;
+}
+
+export function isDailyMetricKey(
+  value: string | null | undefined,
+): value is AnalyticsDailyMetricKey {
+  return (
+    Boolean(value) && DAILY_METRIC_MAP.has(value as AnalyticsDailyMetricKey)
+  );
+}
+
+export function getDailyMetricOptions() {
+  return DAILY_METRICS.map((metric) => ({
+    value: metric.key,
+    label: metric.label,
+  }));
+}
@@ -1,4 +1,11 @@
-import { useQuery } from '@tanstack/react-query';
+import {
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+
+import { notifyError, notifySuccess } from '@/app/toast';
 
 import {
   getAnalyticsActiveUsers,
@@ -24,6 +31,34 @@ import {
   type PaymentsRevenueBreakdownItem,
   type PaymentsRevenueGroupBy,
 } from './analyticsApi';
+import {
+  type AnalyticsAlertRuleDto,
+  type AnalyticsAlertsParams,
+  type AnalyticsAlertStatus,
+  createAnalyticsAlertRule,
+  deleteAnalyticsAlertRule,
+  getAnalyticsAlertRules,
+  getAnalyticsAlerts,
+  updateAnalyticsAlert,
+  updateAnalyticsAlertRule,
+} from './alertsApi';
+import {
+  type AnalyticsAnnotationDto,
+  type AnalyticsAnnotationEntity,
+  type AnalyticsAnnotationsParams,
+  createAnalyticsAnnotation,
+  deleteAnalyticsAnnotation,
+  getAnalyticsAnnotations,
+  updateAnalyticsAnnotation,
+} from './annotationsApi';
+import {
+  type AnalyticsDashboardDto,
+  createAnalyticsDashboard,
+  deleteAnalyticsDashboard,
+  getAnalyticsDashboard,
+  getAnalyticsDashboards,
+  updateAnalyticsDashboard,
+} from './dashboardsApi';
 import type { AnalyticsMetricKey, AnalyticsSection } from './metricRegistry';
 
 const analyticsKeys = {
@@ -71,6 +106,13 @@ const analyticsKeys = {
     order?: 'asc' | 'desc';
     limit?: number;
   }) => ['analytics', 'daily', 'by-country', 'top', params] as const,
+  dashboards: () => ['analytics-dashboards'] as const,
+  dashboard: (id: string) => ['analytics-dashboards', id] as const,
+  alertRules: () => ['analytics-alerts', 'rules'] as const,
+  alerts: (params: AnalyticsAlertsParams) =>
+    ['analytics-alerts', 'list', params] as const,
+  annotations: (params: AnalyticsAnnotationsParams) =>
+    ['analytics-annotations', params] as const,
 };
 
 type AnalyticsQueryOptions<T> = {
@@ -116,6 +158,28 @@ export function useAnalyticsMetrics(
   });
 }
 
+export function useAnalyticsMetricsList(
+  paramsList: Array<{
+    section: AnalyticsSection;
+    metrics: AnalyticsMetricKey[];
+    startMonth: string;
+    endMonth: string;
+  }>,
+  options: Pick<
+    AnalyticsQueryOptions<AnalyticsMetricsResponse>,
+    'enabled'
+  > = {},
+) {
+  return useQueries({
+    queries: paramsList.map((params) => ({
+      queryKey: analyticsKeys.metrics(params),
+      queryFn: () => getAnalyticsMetrics(params),
+      staleTime: DEFAULT_STALE_TIME,
+      enabled: options.enabled ?? true,
+    })),
+  });
+}
+
 export function usePaymentsConversionBreakdown(
   params: { groupBy: PaymentsConversionGroupBy; month: string },
   options: AnalyticsQueryOptions<PaymentsConversionBreakdownItem[]> = {},
@@ -175,6 +239,20 @@ export function useAnalyticsDaily(
   });
 }
 
+export function useAnalyticsDailyList(
+  paramsList: Array<{ startDate: string; endDate: string }>,
+  options: Pick<AnalyticsQueryOptions<DailyAnalyticsItem[]>, 'enabled'> = {},
+) {
+  return useQueries({
+    queries: paramsList.map((params) => ({
+      queryKey: analyticsKeys.daily(params),
+      queryFn: () => getAnalyticsDaily(params),
+      staleTime: DEFAULT_STALE_TIME,
+      enabled: options.enabled ?? true,
+    })),
+  });
+}
+
 export function useAnalyticsActiveUsers(
   params: { month: string },
   options: AnalyticsQueryOptions<ActiveUsersResponse> = {},
@@ -232,3 +310,280 @@ export function useAnalyticsDailyCountryTop(
     enabled: options.enabled ?? true,
   });
 }
+
+export function useAnalyticsDashboards() {
+  return useQuery({
+    queryKey: analyticsKeys.dashboards(),
+    queryFn: getAnalyticsDashboards,
+  });
+}
+
+export function useAnalyticsDashboard(id: string | null) {
+  return useQuery({
+    queryKey: analyticsKeys.dashboard(id ?? ''),
+    queryFn: () => getAnalyticsDashboard(id ?? ''),
+    enabled: Boolean(id),
+  });
+}
+
+export function useCreateAnalyticsDashboard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: AnalyticsDashboardDto) =>
+      createAnalyticsDashboard(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-dashboards'] });
+      notifySuccess('Dashboard created.', 'Dashboard created.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to create the dashboard.');
+    },
+  });
+}
+
+export function useUpdateAnalyticsDashboard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      payload,
+    }: {
+      id: string;
+      payload: Partial<AnalyticsDashboardDto>;
+    }) => updateAnalyticsDashboard(id, payload),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-dashboards'] });
+      queryClient.setQueryData(analyticsKeys.dashboard(data.id), data);
+      notifySuccess('Dashboard saved.', 'Dashboard saved.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to save the dashboard.');
+    },
+  });
+}
+
+export function useDeleteAnalyticsDashboard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAnalyticsDashboard(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-dashboards'] });
+      notifySuccess('Dashboard deleted.', 'Dashboard deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the dashboard.');
+    },
+  });
+}
+
+export function useAnalyticsAlertRules() {
+  return useQuery({
+    queryKey: analyticsKeys.alertRules(),
+    queryFn: getAnalyticsAlertRules,
+  });
+}
+
+export function useAnalyticsAlerts(
+  params: AnalyticsAlertsParams,
+  options: { enabled?: boolean } = {},
+) {
+  return useQuery({
+    queryKey: analyticsKeys.alerts(params),
+    queryFn: () => getAnalyticsAlerts(params),
+    placeholderData: (previous) => previous,
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useCreateAnalyticsAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: AnalyticsAlertRuleDto) =>
+      createAnalyticsAlertRule(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-alerts'] });
+      notifySuccess('Alert rule created.', 'Alert rule created.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to create the alert rule.');
+    },
+  });
+}
+
+export function useUpdateAnalyticsAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      payload,
+    }: {
+      id: string;
+      payload: Partial<AnalyticsAlertRuleDto>;
+    }) => updateAnalyticsAlertRule(id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-alerts'] });
+      notifySuccess('Alert rule saved.', 'Alert rule saved.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to save the alert rule.');
+    },
+  });
+}
+
+export function useDeleteAnalyticsAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAnalyticsAlertRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-alerts'] });
+      notifySuccess('Alert rule deleted.', 'Alert rule deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the alert rule.');
+    },
+  });
+}
+
+export function useUpdateAnalyticsAlert() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      status,
+    }: {
+      id: string;
+      status: AnalyticsAlertStatus;
+    }) => updateAnalyticsAlert(id, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-alerts'] });
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to update the alert.');
+    },
+  });
+}
+
+export function useAnalyticsAnnotations(
+  params: AnalyticsAnnotationsParams,
+  options: { enabled?: boolean } = {},
+) {
+  return useQuery({
+    queryKey: analyticsKeys.annotations(params),
+    queryFn: () => getAnalyticsAnnotations(params),
+    placeholderData: (previous) => previous,
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useCreateAnalyticsAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: AnalyticsAnnotationDto) =>
+      createAnalyticsAnnotation(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-annotations'] });
+      notifySuccess('Annotation added.', 'Annotation added.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to add the annotation.');
+    },
+  });
+}
+
+export function useRecordAnalyticsAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: AnalyticsAnnotationDto) =>
+      createAnalyticsAnnotation(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-annotations'] });
+    },
+    onError: (error, payload) => {
+      notifyError(
+        error,
+        `The "${payload.title}" chart annotation was not saved. Add it from the Annotations section.`,
+      );
+    },
+  });
+}
+
+export function useClearEntityAnnotations() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      date,
+      entity,
+    }: {
+      date: string;
+      entity: Pick<AnalyticsAnnotationEntity, 'type' | 'id'>;
+    }) => {
+      const annotations = await getAnalyticsAnnotations({
+        from: date,
+        to: date,
+      });
+      const linked = annotations.filter(
+        (annotation) =>
+          annotation.entity?.type === entity.type &&
+          annotation.entity.id === entity.id,
+      );
+      await Promise.all(
+        linked.map((annotation) => deleteAnalyticsAnnotation(annotation.id)),
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-annotations'] });
+    },
+    onError: (error) => {
+      notifyError(
+        error,
+        'The previous chart annotation was not removed. Delete it from the Annotations section.',
+      );
+    },
+  });
+}
+
+export function useUpdateAnalyticsAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      payload,
+    }: {
+      id: string;
+      payload: Partial<AnalyticsAnnotationDto>;
+    }) => updateAnalyticsAnnotation(id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-annotations'] });
+      notifySuccess('Annotation saved.', 'Annotation saved.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to save the annotation.');
+    },
+  });
+}
+
+export function useDeleteAnalyticsAnnotation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAnalyticsAnnotation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['analytics-annotations'] });
+      notifySuccess('Annotation deleted.', 'Annotation deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the annotation.');
+    },
+  });
+}
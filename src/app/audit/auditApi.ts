@@ -0,0 +1,35 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type { AuditAction, AuditEntityType, IAuditLog } from '@/common/types';
+
+import type { PaginatedResponse } from '../paginated-response.type';
+
+export type AuditLogsParams = {
+  adminId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  order?: string;
+  skip?: number;
+  take?: number;
+};
+
+const fallbackError = 'Unable to load the audit log.';
+
+export async function getAuditLogs(params: AuditLogsParams) {
+  const query = new URLSearchParams();
+  if (params.adminId) query.set('adminId', params.adminId);
+  if (params.entityType) query.set('entityType', params.entityType);
+  if (params.entityId) query.set('entityId', params.entityId);
+  if (params.action) query.set('action', params.action);
+  if (params.order) query.set('order', params.order);
+  if (typeof params.skip === 'number') query.set('skip', String(params.skip));
+  if (typeof params.take === 'number') query.set('take', String(params.take));
+
+  const suffix = query.toString();
+  const res = await apiFetch(`/admin/audit-logs${suffix ? `?${suffix}` : ''}`);
+  if (!res.ok) {
+    throw await buildApiError(res, fallbackError);
+  }
+  return (await res.json()) as PaginatedResponse<IAuditLog>;
+}
@@ -0,0 +1,3 @@
+export type { AuditLogsParams } from './auditApi';
+export { getAuditLogs } from './auditApi';
+export { useAuditLogs } from './queries';
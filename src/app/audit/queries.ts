@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { type AuditLogsParams, getAuditLogs } from './auditApi';
+
+const auditKeys = {
+  list: (params: AuditLogsParams) => ['audit', params] as const,
+};
+
+export function useAuditLogs(params: AuditLogsParams, enabled = true) {
+  return useQuery({
+    queryKey: auditKeys.list(params),
+    queryFn: () => getAuditLogs(params),
+    enabled,
+    placeholderData: (previousData) => previousData,
+  });
+}
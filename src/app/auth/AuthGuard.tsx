@@ -1,14 +1,18 @@
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 
-import { Container, Stack, Typography } from '@/atoms';
+import { Button, Container, Stack, Typography } from '@/atoms';
 
 import { useAuth } from './AuthProvider';
+import { canAccessRoute } from './permissions';
 
 export function AuthGuard() {
-  const { status } = useAuth();
+  const { status, user, userStatus, refetchUser, signOut } = useAuth();
   const location = useLocation();
 
-  if (status === 'loading') {
+  if (
+    status === 'loading' ||
+    (status === 'authenticated' && userStatus === 'loading')
+  ) {
     return (
       <Container size="narrow">
         <Stack gap="12px">
@@ -25,5 +29,28 @@ export function AuthGuard() {
     return <Navigate to="/auth" replace state={{ from: location }} />;
   }
 
+  if (!user) {
+    return (
+      <Container size="narrow">
+        <Stack gap="12px">
+          <Typography variant="h2">Unable to load your account</Typography>
+          <Typography variant="body" tone="muted">
+            Your permissions could not be checked. Retry or sign in again.
+          </Typography>
+          <Stack direction="horizontal" gap="8px">
+            <Button onClick={() => void refetchUser()}>Retry</Button>
+            <Button variant="secondary" onClick={() => void signOut()}>
+              Sign out
+            </Button>
+          </Stack>
+        </Stack>
+      </Container>
+    );
+  }
+
+  if (!canAccessRoute(user.role, location.pathname)) {
+    return <Navigate to="/" replace />;
+  }
+
   return <Outlet />;
 }
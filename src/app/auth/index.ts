@@ -1,2 +1,4 @@
 export { AuthProvider, useAuth } from './AuthProvider';
 export { AuthGuard } from './AuthGuard';
+export { canAccessRoute, hasPermission } from './permissions';
+export { usePermissions } from './usePermissions';
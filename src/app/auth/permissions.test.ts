@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { Permission, UserRole } from '@/common/types';
+
+import { canAccessRoute, hasPermission } from './permissions';
+
+describe('canAccessRoute', () => {
+  it('lets owners and developers open every route', () => {
+    expect(canAccessRoute(UserRole.Owner, '/plans')).toBe(true);
+    expect(canAccessRoute(UserRole.Developer, '/admins/invite')).toBe(true);
+  });
+
+  it('limits target users to their listed routes', () => {
+    expect(canAccessRoute(UserRole.Target, '/')).toBe(true);
+    expect(canAccessRoute(UserRole.Target, '/profile')).toBe(true);
+    expect(canAccessRoute(UserRole.Target, '/profile/security')).toBe(true);
+    expect(canAccessRoute(UserRole.Target, '/plans')).toBe(false);
+  });
+
+  it('matches route prefixes on path segments only', () => {
+    expect(canAccessRoute(UserRole.Target, '/profiles')).toBe(false);
+  });
+
+  it('denies access without a role', () => {
+    expect(canAccessRoute(null, '/')).toBe(false);
+    expect(canAccessRoute(undefined, '/profile')).toBe(false);
+  });
+});
+
+describe('hasPermission', () => {
+  it('grants every action to owners', () => {
+    expect(hasPermission(UserRole.Owner, Permission.PlansEditPrice)).toBe(true);
+  });
+
+  it('grants moderators only their listed actions', () => {
+    expect(hasPermission(UserRole.Moderator, Permission.PlansEdit)).toBe(true);
+    expect(hasPermission(UserRole.Moderator, Permission.PlansEditPrice)).toBe(
+      false,
+    );
+    expect(hasPermission(UserRole.Moderator, Permission.AdminsManage)).toBe(
+      false,
+    );
+  });
+
+  it('denies actions without a role', () => {
+    expect(hasPermission(null, Permission.BroadcastSend)).toBe(false);
+  });
+});
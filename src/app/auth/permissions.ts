@@ -0,0 +1,54 @@
+import { Permission, UserRole } from '@/common/types';
+
+type RolePermissions = {
+  routes: string[] | 'all';
+  actions: Permission[] | 'all';
+};
+
+const rolePermissions: Record<UserRole, RolePermissions> = {
+  [UserRole.Owner]: {
+    routes: 'all',
+    actions: 'all',
+  },
+  [UserRole.Developer]: {
+    routes: 'all',
+    actions: 'all',
+  },
+  [UserRole.Moderator]: {
+    routes: 'all',
+    actions: [
+      Permission.CharacterDelete,
+      Permission.BroadcastSend,
+      Permission.PlansEdit,
+    ],
+  },
+  [UserRole.Target]: {
+    routes: ['/', '/profile'],
+    actions: [],
+  },
+};
+
+function matchesRoute(route: string, pathname: string) {
+  if (route === '/') return pathname === '/';
+  return pathname === route || pathname.startsWith(`${route}/`);
+}
+
+export function canAccessRoute(
+  role: UserRole | null | undefined,
+  pathname: string,
+) {
+  if (!role) return false;
+  const { routes } = rolePermissions[role] ?? { routes: [] };
+  if (routes === 'all') return true;
+  return routes.some((route) => matchesRoute(route, pathname));
+}
+
+export function hasPermission(
+  role: UserRole | null | undefined,
+  permission: Permission,
+) {
+  if (!role) return false;
+  const { actions } = rolePermissions[role] ?? { actions: [] };
+  if (actions === 'all') return true;
+  return actions.includes(permission);
+}
@@ -0,0 +1,22 @@
+import { useCallback } from 'react';
+
+import type { Permission } from '@/common/types';
+
+import { useAuth } from './AuthProvider';
+import { canAccessRoute, hasPermission } from './permissions';
+
+export function usePermissions() {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role],
+  );
+  const canAccess = useCallback(
+    (pathname: string) => canAccessRoute(role, pathname),
+    [role],
+  );
+
+  return { can, canAccess };
+}
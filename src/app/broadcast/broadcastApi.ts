@@ -1,9 +1,30 @@
 import { apiFetch } from '@/app/api';
 import { buildApiError } from '@/app/api/apiErrors';
-import type { BroadcastCountResponse, BroadcastDto } from '@/common/types';
+import type {
+  BroadcastCountResponse,
+  BroadcastDto,
+  BroadcastScheduleDto,
+  BroadcastStatus,
+  IBroadcast,
+  IBroadcastStats,
+} from '@/common/types';
+
+import type { PaginatedResponse } from '../paginated-response.type';
+
+export type BroadcastsListParams = {
+  status?: BroadcastStatus;
+  order?: string;
+  skip?: number;
+  take?: number;
+};
 
 const createFallbackError = 'Unable to send broadcast.';
 const countFallbackError = 'Unable to count broadcast users.';
+const listFallbackError = 'Unable to load broadcasts.';
+const scheduleFallbackError = 'Unable to schedule broadcast.';
+const updateFallbackError = 'Unable to update broadcast.';
+const cancelFallbackError = 'Unable to cancel broadcast.';
+const statsFallbackError = 'Unable to load broadcast results.';
 
 export async function createBroadcast(payload: BroadcastDto) {
   const res = await apiFetch('/admin/broadcast', {
@@ -27,3 +48,63 @@ export async function countBroadcastUsers(payload: BroadcastDto) {
   }
   return (await res.json()) as BroadcastCountResponse;
 }
+
+export async function getBroadcasts(params: BroadcastsListParams) {
+  const query = new URLSearchParams();
+  if (params.status) query.set('status', params.status);
+  if (params.order) query.set('order', params.order);
+  if (typeof params.skip === 'number') query.set('skip', String(params.skip));
+  if (typeof params.take === 'number') query.set('take', String(params.take));
+
+  const suffix = query.toString();
+  const res = await apiFetch(`/admin/broadcast${suffix ? `?${suffix}` : ''}`);
+  if (!res.ok) {
+    throw await buildApiError(res, listFallbackError);
+  }
+  return (await res.json()) as PaginatedResponse<IBroadcast>;
+}
+
+export async function scheduleBroadcast(payload: BroadcastScheduleDto) {
+  const res = await apiFetch('/admin/broadcast/schedule', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, scheduleFallbackError);
+  }
+  return (await res.json()) as IBroadcast;
+}
+
+export async function updateBroadcast(
+  id: string,
+  payload: BroadcastScheduleDto,
+) {
+  const res = await apiFetch(`/admin/broadcast/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, updateFallbackError);
+  }
+  return (await res.json()) as IBroadcast;
+}
+
+export async function cancelBroadcast(id: string) {
+  const res = await apiFetch(`/admin/broadcast/${id}/cancel`, {
+    method: 'POST',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, cancelFallbackError);
+  }
+  return (await res.json()) as IBroadcast;
+}
+
+export async function getBroadcastStats(id: string) {
+  const res = await apiFetch(`/admin/broadcast/${id}/stats`);
+  if (!res.ok) {
+    throw await buildApiError(res, statsFallbackError);
+  }
+  return (await res.json()) as IBroadcastStats;
+}
@@ -1,2 +1,19 @@
-export { countBroadcastUsers, createBroadcast } from './broadcastApi';
-export { useBroadcastCount, useCreateBroadcast } from './queries';
+export type { BroadcastsListParams } from './broadcastApi';
+export {
+  cancelBroadcast,
+  countBroadcastUsers,
+  createBroadcast,
+  getBroadcasts,
+  getBroadcastStats,
+  scheduleBroadcast,
+  updateBroadcast,
+} from './broadcastApi';
+export {
+  useBroadcastCount,
+  useBroadcasts,
+  useBroadcastStats,
+  useCancelBroadcast,
+  useCreateBroadcast,
+  useScheduleBroadcast,
+  useUpdateBroadcast,
+} from './queries';
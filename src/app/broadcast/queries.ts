@@ -1,9 +1,73 @@
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
+import {
+  type AnalyticsAnnotationDto,
+  useClearEntityAnnotations,
+  useRecordAnalyticsAnnotation,
+} from '@/app/analytics';
 import { notifyError, notifySuccess } from '@/app/toast';
-import type { BroadcastDto } from '@/common/types';
+import type {
+  BroadcastDto,
+  BroadcastScheduleDto,
+  IBroadcast,
+} from '@/common/types';
 
-import { countBroadcastUsers, createBroadcast } from './broadcastApi';
+import {
+  type BroadcastsListParams,
+  cancelBroadcast,
+  countBroadcastUsers,
+  createBroadcast,
+  getBroadcasts,
+  getBroadcastStats,
+  scheduleBroadcast,
+  updateBroadcast,
+} from './broadcastApi';
+
+const ANNOTATION_TEXT_LIMIT = 200;
+
+// Scheduled broadcasts are annotated at their next send and linked by id, so
+// rescheduling moves the marker and cancelling removes it.
+function getBroadcastAnnotationDate(broadcast: IBroadcast) {
+  return (broadcast.nextRunAt ?? broadcast.sendAt)?.slice(0, 10) ?? null;
+}
+
+function getBroadcastAnnotation(
+  broadcast: IBroadcast,
+): AnalyticsAnnotationDto | null {
+  const date = getBroadcastAnnotationDate(broadcast);
+  if (!date) return null;
+  return {
+    date,
+    title: broadcast.recurrence
+      ? `Recurring broadcast (${broadcast.recurrence})`
+      : 'Scheduled broadcast',
+    description: broadcast.message.text.slice(0, ANNOTATION_TEXT_LIMIT),
+    category: 'broadcast',
+    entity: { type: 'broadcast', id: broadcast.id, label: null },
+    origin: 'broadcast',
+  };
+}
+
+const broadcastKeys = {
+  list: (params: BroadcastsListParams) => ['broadcasts', params] as const,
+  stats: (id: string) => ['broadcasts', id, 'stats'] as const,
+};
+
+export function useBroadcasts(params: BroadcastsListParams) {
+  return useQuery({
+    queryKey: broadcastKeys.list(params),
+    queryFn: () => getBroadcasts(params),
+    placeholderData: (previousData) => previousData,
+  });
+}
+
+export function useBroadcastStats(id: string | null) {
+  return useQuery({
+    queryKey: broadcastKeys.stats(id ?? ''),
+    queryFn: () => getBroadcastStats(id ?? ''),
+    enabled: Boolean(id),
+  });
+}
 
 export function useBroadcastCount() {
   return useMutation({
@@ -15,9 +79,20 @@ export function useBroadcastCount() {
 }
 
 export function useCreateBroadcast() {
+  const queryClient = useQueryClient();
+  const { mutate: recordAnnotation } = useRecordAnalyticsAnnotation();
+
   return useMutation({
     mutationFn: (payload: BroadcastDto) => createBroadcast(payload),
-    onSuccess: () => {
+    onSuccess: (_, payload) => {
+      queryClient.invalidateQueries({ queryKey: ['broadcasts'] });
+      recordAnnotation({
+        date: new Date().toISOString().slice(0, 10),
+        title: 'Broadcast sent',
+        description: payload.message.text.slice(0, ANNOTATION_TEXT_LIMIT),
+        category: 'broadcast',
+        origin: 'broadcast',
+      });
       notifySuccess('Broadcast sent.', 'Broadcast sent.');
     },
     onError: (error) => {
@@ -25,3 +100,84 @@ export function useCreateBroadcast() {
     },
   });
 }
+
+export function useScheduleBroadcast() {
+  const queryClient = useQueryClient();
+  const { mutate: recordAnnotation } = useRecordAnalyticsAnnotation();
+
+  return useMutation({
+    mutationFn: (payload: BroadcastScheduleDto) => scheduleBroadcast(payload),
+    onSuccess: (broadcast) => {
+      queryClient.invalidateQueries({ queryKey: ['broadcasts'] });
+      const annotation = getBroadcastAnnotation(broadcast);
+      if (annotation) recordAnnotation(annotation);
+      notifySuccess('Broadcast scheduled.', 'Broadcast scheduled.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to schedule broadcast.');
+    },
+  });
+}
+
+export function useUpdateBroadcast() {
+  const queryClient = useQueryClient();
+  const { mutate: recordAnnotation } = useRecordAnalyticsAnnotation();
+  const { mutate: clearAnnotations } = useClearEntityAnnotations();
+
+  return useMutation({
+    mutationFn: ({
+      broadcast,
+      payload,
+    }: {
+      broadcast: IBroadcast;
+      payload: BroadcastScheduleDto;
+    }) => updateBroadcast(broadcast.id, payload),
+    onSuccess: (updated, { broadcast }) => {
+      queryClient.invalidateQueries({ queryKey: ['broadcasts'] });
+      const annotation = getBroadcastAnnotation(updated);
+      const previousDate = getBroadcastAnnotationDate(broadcast);
+      if (previousDate) {
+        clearAnnotations(
+          {
+            date: previousDate,
+            entity: { type: 'broadcast', id: broadcast.id },
+          },
+          {
+            onSettled: () => {
+              if (annotation) recordAnnotation(annotation);
+            },
+          },
+        );
+      } else if (annotation) {
+        recordAnnotation(annotation);
+      }
+      notifySuccess('Broadcast updated.', 'Broadcast updated.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to update broadcast.');
+    },
+  });
+}
+
+export function useCancelBroadcast() {
+  const queryClient = useQueryClient();
+  const { mutate: clearAnnotations } = useClearEntityAnnotations();
+
+  return useMutation({
+    mutationFn: (broadcast: IBroadcast) => cancelBroadcast(broadcast.id),
+    onSuccess: (_, broadcast) => {
+      queryClient.invalidateQueries({ queryKey: ['broadcasts'] });
+      const date = getBroadcastAnnotationDate(broadcast);
+      if (date) {
+        clearAnnotations({
+          date,
+          entity: { type: 'broadcast', id: broadcast.id },
+        });
+      }
+      notifySuccess('Broadcast cancelled.', 'Broadcast cancelled.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to cancel broadcast.');
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type {
+  ChatReviewQueueParams,
+  ChatReviewStatsGroupBy,
+  CreateChatReviewDto,
+  IChat,
+  IChatReview,
+  IChatReviewStatsRow,
+} from '@/common/types';
+
+export type ChatReviewStatsParams = {
+  groupBy: ChatReviewStatsGroupBy;
+  scenarioId?: string;
+};
+
+const fallbackError = 'Unable to load chat reviews.';
+const createFallbackError = 'Unable to save the review.';
+const deleteFallbackError = 'Unable to delete the review.';
+const queueFallbackError = 'Unable to load the review queue.';
+const statsFallbackError = 'Unable to load review stats.';
+
+export async function getChatReviews(chatId: string) {
+  const res = await apiFetch(`/admin/chats/${chatId}/reviews`);
+  if (!res.ok) {
+    throw await buildApiError(res, fallbackError);
+  }
+  return (await res.json()) as IChatReview[];
+}
+
+export async function createChatReview(
+  chatId: string,
+  payload: CreateChatReviewDto,
+) {
+  const res = await apiFetch(`/admin/chats/${chatId}/reviews`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createFallbackError);
+  }
+  return (await res.json()) as IChatReview;
+}
+
+export async function deleteChatReview(chatId: string, reviewId: string) {
+  const res = await apiFetch(`/admin/chats/${chatId}/reviews/${reviewId}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteFallbackError);
+  }
+}
+
+export async function getChatReviewQueue(params: ChatReviewQueueParams) {
+  const query = new URLSearchParams();
+  if (params.scenarioId) query.set('scenarioId', params.scenarioId);
+  if (params.stage) query.set('stage', params.stage);
+  if (typeof params.take === 'number') query.set('take', String(params.take));
+
+  const suffix = query.toString();
+  const res = await apiFetch(
+    `/admin/chat-reviews/queue${suffix ? `?${suffix}` : ''}`,
+  );
+  if (!res.ok) {
+    throw await buildApiError(res, queueFallbackError);
+  }
+  return (await res.json()) as IChat[];
+}
+
+export async function getChatReviewStats(params: ChatReviewStatsParams) {
+  const query = new URLSearchParams({ groupBy: params.groupBy });
+  if (params.scenarioId) query.set('scenarioId', params.scenarioId);
+
+  const res = await apiFetch(`/admin/chat-reviews/stats?${query.toString()}`);
+  if (!res.ok) {
+    throw await buildApiError(res, statsFallbackError);
+  }
+  return (await res.json()) as IChatReviewStatsRow[];
+}
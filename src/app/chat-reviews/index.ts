@@ -0,0 +1,15 @@
+export type { ChatReviewStatsParams } from './chatReviewsApi';
+export {
+  createChatReview,
+  deleteChatReview,
+  getChatReviewQueue,
+  getChatReviews,
+  getChatReviewStats,
+} from './chatReviewsApi';
+export {
+  useChatReviewQueue,
+  useChatReviews,
+  useChatReviewStats,
+  useCreateChatReview,
+  useDeleteChatReview,
+} from './queries';
@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { notifyError, notifySuccess } from '@/app/toast';
+import type {
+  ChatReviewQueueParams,
+  CreateChatReviewDto,
+} from '@/common/types';
+
+import {
+  type ChatReviewStatsParams,
+  createChatReview,
+  deleteChatReview,
+  getChatReviewQueue,
+  getChatReviews,
+  getChatReviewStats,
+} from './chatReviewsApi';
+
+const chatReviewKeys = {
+  chat: (chatId: string) => ['chat-reviews', 'chat', chatId] as const,
+  queue: (params: ChatReviewQueueParams) =>
+    ['chat-reviews', 'queue', params] as const,
+  stats: (params: ChatReviewStatsParams) =>
+    ['chat-reviews', 'stats', params] as const,
+};
+
+export function useChatReviews(chatId: string | null) {
+  return useQuery({
+    queryKey: chatReviewKeys.chat(chatId ?? ''),
+    queryFn: () => getChatReviews(chatId ?? ''),
+    enabled: Boolean(chatId),
+  });
+}
+
+export function useChatReviewQueue(params: ChatReviewQueueParams) {
+  return useQuery({
+    queryKey: chatReviewKeys.queue(params),
+    queryFn: () => getChatReviewQueue(params),
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useChatReviewStats(params: ChatReviewStatsParams) {
+  return useQuery({
+    queryKey: chatReviewKeys.stats(params),
+    queryFn: () => getChatReviewStats(params),
+  });
+}
+
+export function useCreateChatReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      chatId,
+      payload,
+    }: {
+      chatId: string;
+      payload: CreateChatReviewDto;
+    }) => createChatReview(chatId, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-reviews'] });
+      notifySuccess('Review saved.', 'Review saved.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to save the review.');
+    },
+  });
+}
+
+export function useDeleteChatReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ chatId, reviewId }: { chatId: string; reviewId: string }) =>
+      deleteChatReview(chatId, reviewId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-reviews'] });
+      notifySuccess('Review deleted.', 'Review deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the review.');
+    },
+  });
+}
@@ -15,6 +15,14 @@ export type ChatsListParams = ChatSearchParams & {
   take?: number;
 };
 
+export type ChatTranscriptsProgress = {
+  done: number;
+  total: number;
+};
+
+const TRANSCRIPTS_PAGE_SIZE = 100;
+export const MAX_CHAT_TRANSCRIPTS = 200;
+
 const fallbackError = 'Unable to load chats.';
 const detailsFallbackError = 'Unable to load chat.';
 const updateStageFallbackError = 'Unable to update the chat stage.';
@@ -25,6 +33,8 @@ export async function getChats(params: ChatsListParams) {
   if (params.characterId) query.set('characterId', params.characterId);
   if (params.scenarioId) query.set('scenarioId', params.scenarioId);
   if (params.stage) query.set('stage', params.stage);
+  if (params.search) query.set('search', params.search);
+  if (params.searchRole) query.set('searchRole', params.searchRole);
   if (params.order) query.set('order', params.order);
   if (typeof params.skip === 'number') query.set('skip', String(params.skip));
   if (typeof params.take === 'number') query.set('take', String(params.take));
@@ -45,6 +55,33 @@ export async function getChatDetails(id: string) {
   return (await res.json()) as IChatDetails;
 }
 
+export async function getChatTranscripts(
+  params: ChatSearchParams & { order?: string },
+  onProgress?: (progress: ChatTranscriptsProgress) => void,
+) {
+  const chats: IChat[] = [];
+  while (chats.length < MAX_CHAT_TRANSCRIPTS) {
+    const page = await getChats({
+      ...params,
+      skip: chats.length,
+      take: Math.min(
+        TRANSCRIPTS_PAGE_SIZE,
+        MAX_CHAT_TRANSCRIPTS - chats.length,
+      ),
+    });
+    chats.push(...page.data);
+    if (chats.length >= page.total || page.data.length === 0) break;
+  }
+
+  const details: IChatDetails[] = [];
+  onProgress?.({ done: 0, total: chats.length });
+  for (const chat of chats) {
+    details.push(await getChatDetails(chat.id));
+    onProgress?.({ done: details.length, total: chats.length });
+  }
+  return details;
+}
+
 export async function updateChatStage(id: string, payload: UpdateChatStageDto) {
   const res = await apiFetch(`/admin/chats/${id}`, {
     method: 'PATCH',
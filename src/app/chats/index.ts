@@ -1,3 +1,9 @@
-export { getChatDetails, getChats, updateChatStage } from './chatsApi';
-export type { ChatsListParams } from './chatsApi';
+export type { ChatsListParams, ChatTranscriptsProgress } from './chatsApi';
+export {
+  getChatDetails,
+  getChats,
+  getChatTranscripts,
+  MAX_CHAT_TRANSCRIPTS,
+  updateChatStage,
+} from './chatsApi';
 export { useChatDetails, useChats, useUpdateChatStage } from './queries';
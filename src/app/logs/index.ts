@@ -1,12 +1,13 @@
-export {
-  useChatResponseLogs,
-  useErrorLogs,
-  useImageGenLogs,
-  useLlmCalls,
-} from './queries';
 export type {
   ChatResponseLogsParams,
   ErrorLogsParams,
   ImageGenLogsParams,
   LlmCallsParams,
 } from './logsApi';
+export {
+  useChatDiagnostics,
+  useChatResponseLogs,
+  useErrorLogs,
+  useImageGenLogs,
+  useLlmCalls,
+} from './queries';
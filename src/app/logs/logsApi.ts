@@ -3,6 +3,7 @@ import { buildApiError } from '@/app/api/apiErrors';
 import type { PaginatedResponse } from '@/app/paginated-response.type';
 import type {
   ErrorCode,
+  IChatDiagnostics,
   IChatResponseLog,
   IErrorLog,
   IImageGenLog,
@@ -81,6 +82,41 @@ export async function getImageGenLogs(params: ImageGenLogsParams) {
   return (await res.json()) as PaginatedResponse<IImageGenLog>;
 }
 
+const CHAT_DIAGNOSTICS_PAGE_SIZE = 200;
+
+async function getAllChatLogs<T>(
+  chatId: string,
+  getPage: (params: BaseLogsParams & { chatId: string }) => Promise<
+    PaginatedResponse<T>
+  >,
+) {
+  const items: T[] = [];
+  while (true) {
+    const page = await getPage({
+      chatId,
+      orderBy: 'createdAt',
+      order: 'ASC',
+      skip: items.length,
+      take: CHAT_DIAGNOSTICS_PAGE_SIZE,
+    });
+    items.push(...page.data);
+    if (items.length >= page.total || page.data.length === 0) {
+      return items;
+    }
+  }
+}
+
+export async function getChatDiagnostics(
+  chatId: string,
+): Promise<IChatDiagnostics> {
+  const [responses, llmCalls, imageGens] = await Promise.all([
+    getAllChatLogs(chatId, getChatResponseLogs),
+    getAllChatLogs(chatId, getLlmCalls),
+    getAllChatLogs(chatId, getImageGenLogs),
+  ]);
+  return { responses, llmCalls, imageGens };
+}
+
 export async function getErrorLogs(params: ErrorLogsParams) {
   const query = buildQuery(params);
   const res = await apiFetch(
@@ -9,12 +9,13 @@ import type {
 } from '@/common/types';
 
 import {
+  type ChatResponseLogsParams,
+  type ErrorLogsParams,
+  getChatDiagnostics,
   getChatResponseLogs,
   getErrorLogs,
   getImageGenLogs,
   getLlmCalls,
-  type ChatResponseLogsParams,
-  type ErrorLogsParams,
   type ImageGenLogsParams,
   type LlmCallsParams,
 } from './logsApi';
@@ -26,6 +27,8 @@ const logsKeys = {
   imageGen: (params: ImageGenLogsParams) =>
     ['logs', 'img-gen', params] as const,
   errors: (params: ErrorLogsParams) => ['logs', 'errors', params] as const,
+  chatDiagnostics: (chatId: string) =>
+    ['logs', 'chat-diagnostics', chatId] as const,
 };
 
 const DEFAULT_STALE_TIME = 30 * 1000;
@@ -87,3 +90,12 @@ export function useErrorLogs(
     enabled: options.enabled ?? true,
   });
 }
+
+export function useChatDiagnostics(chatId: string | null) {
+  return useQuery({
+    queryKey: logsKeys.chatDiagnostics(chatId ?? ''),
+    queryFn: () => getChatDiagnostics(chatId ?? ''),
+    staleTime: DEFAULT_STALE_TIME,
+    enabled: Boolean(chatId),
+  });
+}
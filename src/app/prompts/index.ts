@@ -1,15 +1,27 @@
+export type { PromptsListParams } from './promptsApi';
 export {
   createPrompt,
   deletePrompt,
   getPromptDetails,
+  getPromptPins,
   getPrompts,
+  getPromptVersions,
+  pinPromptVersion,
+  restorePromptVersion,
+  runPromptPlayground,
+  unpinPromptVersion,
   updatePrompt,
 } from './promptsApi';
-export type { PromptsListParams } from './promptsApi';
 export {
   useCreatePrompt,
   useDeletePrompt,
+  usePinPromptVersion,
   usePromptDetails,
+  usePromptPins,
   usePrompts,
+  usePromptVersions,
+  useRestorePromptVersion,
+  useRunPromptPlayground,
+  useUnpinPromptVersion,
   useUpdatePrompt,
 } from './queries';
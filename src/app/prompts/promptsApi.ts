@@ -4,7 +4,13 @@ import type {
   CreatePromptDto,
   IPrompt,
   IPromptDetails,
+  IPromptPin,
+  IPromptPlaygroundRun,
+  IPromptVersion,
+  ModelProvider,
+  PinPromptVersionDto,
   PromptType,
+  RunPromptPlaygroundDto,
   UpdatePromptDto,
 } from '@/common/types';
 
@@ -24,6 +30,12 @@ const createFallbackError = 'Unable to create the prompt.';
 const updateFallbackError = 'Unable to update the prompt.';
 const detailsFallbackError = 'Unable to load the prompt details.';
 const deleteFallbackError = 'Unable to delete the prompt.';
+const versionsFallbackError = 'Unable to load prompt versions.';
+const restoreFallbackError = 'Unable to restore the prompt version.';
+const pinsFallbackError = 'Unable to load pinned prompt versions.';
+const pinFallbackError = 'Unable to pin the prompt version.';
+const unpinFallbackError = 'Unable to unpin the prompt version.';
+const playgroundFallbackError = 'Unable to run the prompt.';
 
 export async function getPrompts(params: PromptsListParams) {
   const query = new URLSearchParams();
@@ -84,3 +96,67 @@ export async function deletePrompt(id: string) {
     throw await buildApiError(res, deleteFallbackError);
   }
 }
+
+export async function getPromptVersions(id: string) {
+  const res = await apiFetch(`/admin/prompts/${id}/versions`);
+  if (!res.ok) {
+    throw await buildApiError(res, versionsFallbackError);
+  }
+  return (await res.json()) as IPromptVersion[];
+}
+
+export async function restorePromptVersion(id: string, version: number) {
+  const res = await apiFetch(
+    `/admin/prompts/${id}/versions/${version}/restore`,
+    { method: 'POST' },
+  );
+  if (!res.ok) {
+    throw await buildApiError(res, restoreFallbackError);
+  }
+  return (await res.json()) as IPromptDetails;
+}
+
+export async function getPromptPins() {
+  const res = await apiFetch('/admin/prompts/pins');
+  if (!res.ok) {
+    throw await buildApiError(res, pinsFallbackError);
+  }
+  return (await res.json()) as IPromptPin[];
+}
+
+export async function pinPromptVersion(payload: PinPromptVersionDto) {
+  const res = await apiFetch('/admin/prompts/pins', {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, pinFallbackError);
+  }
+  return (await res.json()) as IPromptPin;
+}
+
+export async function unpinPromptVersion(
+  type: PromptType,
+  modelProvider: ModelProvider,
+) {
+  const query = new URLSearchParams({ type, modelProvider });
+  const res = await apiFetch(`/admin/prompts/pins?${query.toString()}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, unpinFallbackError);
+  }
+}
+
+export async function runPromptPlayground(payload: RunPromptPlaygroundDto) {
+  const res = await apiFetch('/admin/prompts/playground', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, playgroundFallbackError);
+  }
+  return (await res.json()) as IPromptPlaygroundRun[];
+}
@@ -1,20 +1,36 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
+import { useRecordAnalyticsAnnotation } from '@/app/analytics';
 import { notifyError, notifySuccess } from '@/app/toast';
-import type { CreatePromptDto, UpdatePromptDto } from '@/common/types';
+import type {
+  CreatePromptDto,
+  ModelProvider,
+  PinPromptVersionDto,
+  PromptType,
+  RunPromptPlaygroundDto,
+  UpdatePromptDto,
+} from '@/common/types';
 
 import {
   createPrompt,
   deletePrompt,
   getPromptDetails,
+  getPromptPins,
   getPrompts,
+  getPromptVersions,
+  pinPromptVersion,
   type PromptsListParams,
+  restorePromptVersion,
+  runPromptPlayground,
+  unpinPromptVersion,
   updatePrompt,
 } from './promptsApi';
 
 const promptKeys = {
   list: (params: PromptsListParams) => ['prompts', params] as const,
   detail: (id: string) => ['prompts', 'detail', id] as const,
+  versions: (id: string) => ['prompts', 'versions', id] as const,
+  pins: () => ['prompts', 'pins'] as const,
 };
 
 export function usePrompts(params: PromptsListParams) {
@@ -33,6 +49,21 @@ export function usePromptDetails(id: string | null, enabled = true) {
   });
 }
 
+export function usePromptVersions(id: string | null) {
+  return useQuery({
+    queryKey: promptKeys.versions(id ?? ''),
+    queryFn: () => getPromptVersions(id ?? ''),
+    enabled: Boolean(id),
+  });
+}
+
+export function usePromptPins() {
+  return useQuery({
+    queryKey: promptKeys.pins(),
+    queryFn: getPromptPins,
+  });
+}
+
 export function useCreatePrompt() {
   const queryClient = useQueryClient();
 
@@ -81,3 +112,89 @@ export function useDeletePrompt() {
     },
   });
 }
+
+export function useRestorePromptVersion() {
+  const queryClient = useQueryClient();
+  const { mutate: recordAnnotation } = useRecordAnalyticsAnnotation();
+
+  return useMutation({
+    mutationFn: ({ id, version }: { id: string; version: number }) =>
+      restorePromptVersion(id, version),
+    onSuccess: (prompt, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['prompts'] });
+      recordAnnotation({
+        date: (prompt.updatedAt || new Date().toISOString()).slice(0, 10),
+        title: `${prompt.name} v${variables.version} restored`,
+        description: `Restored as v${prompt.version}.`,
+        category: 'release',
+        entity: { type: 'prompt', id: prompt.id, label: prompt.name },
+        origin: 'prompt_version',
+      });
+      notifySuccess(
+        `Version ${variables.version} restored as the latest version.`,
+        'Prompt version restored.',
+      );
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to restore the prompt version.');
+    },
+  });
+}
+
+export function usePinPromptVersion() {
+  const queryClient = useQueryClient();
+  const { mutate: recordAnnotation } = useRecordAnalyticsAnnotation();
+
+  return useMutation({
+    mutationFn: (payload: PinPromptVersionDto) => pinPromptVersion(payload),
+    onSuccess: (pin, variables) => {
+      queryClient.invalidateQueries({ queryKey: promptKeys.pins() });
+      recordAnnotation({
+        date: (pin.pinnedAt || new Date().toISOString()).slice(0, 10),
+        title: `${pin.promptName} v${pin.version} activated`,
+        description: `Pinned for ${pin.type} (${pin.modelProvider}).`,
+        category: 'release',
+        entity: { type: 'prompt', id: pin.promptId, label: pin.promptName },
+        origin: 'prompt_version',
+      });
+      notifySuccess(
+        `Version ${variables.version} pinned.`,
+        'Prompt version pinned.',
+      );
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to pin the prompt version.');
+    },
+  });
+}
+
+export function useUnpinPromptVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      type,
+      modelProvider,
+    }: {
+      type: PromptType;
+      modelProvider: ModelProvider;
+    }) => unpinPromptVersion(type, modelProvider),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: promptKeys.pins() });
+      notifySuccess('Prompt version unpinned.', 'Prompt version unpinned.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to unpin the prompt version.');
+    },
+  });
+}
+
+export function useRunPromptPlayground() {
+  return useMutation({
+    mutationFn: (payload: RunPromptPlaygroundDto) =>
+      runPromptPlayground(payload),
+    onError: (error) => {
+      notifyError(error, 'Unable to run the prompt.');
+    },
+  });
+}
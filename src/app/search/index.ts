@@ -0,0 +1,3 @@
+export { useGlobalSearch } from './queries';
+export type { GlobalSearchResults } from './searchApi';
+export { searchEverything } from './searchApi';
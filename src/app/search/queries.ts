@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { searchEverything } from './searchApi';
+
+const searchKeys = {
+  global: (search: string) => ['search', search] as const,
+};
+
+export function useGlobalSearch(search: string, enabled = true) {
+  return useQuery({
+    queryKey: searchKeys.global(search),
+    queryFn: () => searchEverything(search),
+    enabled,
+    placeholderData: (previousData) => previousData,
+  });
+}
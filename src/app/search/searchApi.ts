@@ -0,0 +1,59 @@
+import { getCharacters } from '@/app/characters/charactersApi';
+import { getChatDetails } from '@/app/chats';
+import { getGifts } from '@/app/gifts';
+import { getPlans } from '@/app/plans';
+import { getPrompts } from '@/app/prompts';
+import { getUsers } from '@/app/users';
+import type {
+  ICharacter,
+  IChat,
+  IGift,
+  IPlan,
+  IPrompt,
+  ITgUser,
+} from '@/common/types';
+
+export type GlobalSearchResults = {
+  characters: ICharacter[];
+  users: ITgUser[];
+  chats: IChat[];
+  prompts: IPrompt[];
+  gifts: IGift[];
+  plans: IPlan[];
+};
+
+const RESULTS_PER_GROUP = 5;
+const ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function settle<T>(request: Promise<T[]>) {
+  try {
+    return await request;
+  } catch {
+    return [];
+  }
+}
+
+export async function searchEverything(
+  search: string,
+): Promise<GlobalSearchResults> {
+  const listParams = {
+    search,
+    order: 'DESC',
+    skip: 0,
+    take: RESULTS_PER_GROUP,
+  };
+
+  const [characters, users, chats, prompts, gifts, plans] = await Promise.all([
+    settle(getCharacters(listParams).then((res) => res.data)),
+    settle(getUsers(listParams).then((res) => res.data)),
+    ID_PATTERN.test(search)
+      ? settle(getChatDetails(search).then((chat) => [chat]))
+      : Promise.resolve([]),
+    settle(getPrompts(listParams).then((res) => res.data)),
+    settle(getGifts(listParams).then((res) => res.data)),
+    settle(getPlans(listParams).then((res) => res.data)),
+  ] as const);
+
+  return { characters, users, chats, prompts, gifts, plans };
+}
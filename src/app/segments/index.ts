@@ -0,0 +1,16 @@
+export {
+  useCreateSegment,
+  useDeleteSegment,
+  useSegmentCount,
+  useSegments,
+  useUpdateSegment,
+} from './queries';
+export type { SegmentsListParams } from './segmentsApi';
+export {
+  countSegmentUsers,
+  createSegment,
+  deleteSegment,
+  getSegments,
+  getSegmentUserIds,
+  updateSegment,
+} from './segmentsApi';
@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { notifyError, notifySuccess } from '@/app/toast';
+import type { SegmentConditions, SegmentDto } from '@/common/types';
+
+import {
+  countSegmentUsers,
+  createSegment,
+  deleteSegment,
+  getSegments,
+  type SegmentsListParams,
+  updateSegment,
+} from './segmentsApi';
+
+const segmentKeys = {
+  list: (params: SegmentsListParams) => ['segments', params] as const,
+};
+
+export function useSegments(params: SegmentsListParams, enabled = true) {
+  return useQuery({
+    queryKey: segmentKeys.list(params),
+    queryFn: () => getSegments(params),
+    enabled,
+    placeholderData: (previousData) => previousData,
+  });
+}
+
+export function useSegmentCount() {
+  return useMutation({
+    mutationFn: (conditions: SegmentConditions) =>
+      countSegmentUsers(conditions),
+    onError: (error) => {
+      notifyError(error, 'Unable to count segment users.');
+    },
+  });
+}
+
+export function useCreateSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: SegmentDto) => createSegment(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segments'] });
+      notifySuccess('Segment created.', 'Segment created.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to create the segment.');
+    },
+  });
+}
+
+export function useUpdateSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: SegmentDto }) =>
+      updateSegment(id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segments'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      notifySuccess('Segment updated.', 'Segment updated.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to update the segment.');
+    },
+  });
+}
+
+export function useDeleteSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSegment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['segments'] });
+      notifySuccess('Segment deleted.', 'Segment deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the segment.');
+    },
+  });
+}
@@ -0,0 +1,93 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type {
+  ISegment,
+  SegmentConditions,
+  SegmentCountResponse,
+  SegmentDto,
+  SegmentUserIdsResponse,
+} from '@/common/types';
+
+import type { PaginatedResponse } from '../paginated-response.type';
+
+export type SegmentsListParams = {
+  search?: string;
+  order?: string;
+  skip?: number;
+  take?: number;
+};
+
+const listFallbackError = 'Unable to load segments.';
+const createFallbackError = 'Unable to create the segment.';
+const updateFallbackError = 'Unable to update the segment.';
+const deleteFallbackError = 'Unable to delete the segment.';
+const countFallbackError = 'Unable to count segment users.';
+const userIdsFallbackError = 'Unable to export segment users.';
+
+export async function getSegments(params: SegmentsListParams) {
+  const query = new URLSearchParams();
+  if (params.search) query.set('search', params.search);
+  if (params.order) query.set('order', params.order);
+  if (typeof params.skip === 'number') query.set('skip', String(params.skip));
+  if (typeof params.take === 'number') query.set('take', String(params.take));
+
+  const suffix = query.toString();
+  const res = await apiFetch(`/admin/segments${suffix ? `?${suffix}` : ''}`);
+  if (!res.ok) {
+    throw await buildApiError(res, listFallbackError);
+  }
+  return (await res.json()) as PaginatedResponse<ISegment>;
+}
+
+export async function createSegment(payload: SegmentDto) {
+  const res = await apiFetch('/admin/segments', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createFallbackError);
+  }
+  return (await res.json()) as ISegment;
+}
+
+export async function updateSegment(id: string, payload: SegmentDto) {
+  const res = await apiFetch(`/admin/segments/${id}`, {
+    method: 'PATCH',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, updateFallbackError);
+  }
+  return (await res.json()) as ISegment;
+}
+
+export async function deleteSegment(id: string) {
+  const res = await apiFetch(`/admin/segments/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteFallbackError);
+  }
+}
+
+export async function countSegmentUsers(conditions: SegmentConditions) {
+  const res = await apiFetch('/admin/segments/count', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ conditions }),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, countFallbackError);
+  }
+  return (await res.json()) as SegmentCountResponse;
+}
+
+export async function getSegmentUserIds(id: string) {
+  const res = await apiFetch(`/admin/segments/${id}/user-ids`);
+  if (!res.ok) {
+    throw await buildApiError(res, userIdsFallbackError);
+  }
+  return (await res.json()) as SegmentUserIdsResponse;
+}
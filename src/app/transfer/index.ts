@@ -0,0 +1,51 @@
+export {
+  ensureArray,
+  ensureBoolean,
+  ensureEnumValue,
+  ensureNonEmptyString,
+  ensureNonNegativeInteger,
+  ensureNumber,
+  ensureOptionalString,
+  ensurePositiveInteger,
+  ensurePositiveNumber,
+  ensureRecord,
+  ensureStage,
+  ensureString,
+  ensureUniqueKeys,
+  hasTransferFileShape,
+  isRecord,
+  isSameTransferFile,
+  parseTransferFile,
+  toTransferFile,
+  type TransferFile,
+  type TransferRecord,
+} from './transferGuards';
+export {
+  buildTransferDeleteEntry,
+  buildTransferPreviewEntry,
+  countTransferPreview,
+  diffTransferFields,
+  formatTransferValue,
+  getDefaultTransferSelection,
+  isTransferEntrySelectable,
+  isTransferKeySelected,
+  type TransferFieldChange,
+  type TransferPreviewAction,
+  type TransferPreviewEntry,
+  type TransferPreviewFields,
+} from './transferPreview';
+export {
+  buildTransferEnvelope,
+  copyTransferFile,
+  defineTransferSchema,
+  downloadTransferFile,
+  getTransferSchema,
+  mapTransferItems,
+  migrateTransferPayload,
+  parseTransferFileAs,
+  parseTransferPayload,
+  readTransferFile,
+  sanitizeTransferFileNamePart,
+  type TransferMigration,
+  type TransferSchema,
+} from './transferSchema';
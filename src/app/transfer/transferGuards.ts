@@ -0,0 +1,227 @@
+import {
+  FileDir,
+  FileStatus,
+  type IFile,
+  type RoleplayStage,
+  STAGES_IN_ORDER,
+} from '@/common/types';
+
+export type TransferRecord = Record<string, unknown>;
+
+export type TransferFile = {
+  id: string;
+  name: string;
+  path: string;
+  dir: FileDir;
+  status: FileStatus;
+  mime: string;
+  url?: string | null;
+};
+
+export function isRecord(value: unknown): value is TransferRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function ensureRecord(value: unknown, path: string) {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid import file: "${path}" must be an object.`);
+  }
+  return value;
+}
+
+export function ensureArray(value: unknown, path: string) {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid import file: "${path}" must be an array.`);
+  }
+  return value as unknown[];
+}
+
+export function ensureString(value: unknown, path: string) {
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid import file: "${path}" must be a string.`);
+  }
+  return value;
+}
+
+export function ensureNonEmptyString(value: unknown, path: string) {
+  const parsed = ensureString(value, path).trim();
+  if (!parsed) {
+    throw new Error(`Invalid import file: "${path}" must not be empty.`);
+  }
+  return parsed;
+}
+
+export function ensureOptionalString(value: unknown, path: string) {
+  if (value === undefined || value === null) return undefined;
+  return ensureString(value, path).trim() || undefined;
+}
+
+export function ensureBoolean(value: unknown, path: string) {
+  if (typeof value !== 'boolean') {
+    throw new Error(`Invalid import file: "${path}" must be a boolean.`);
+  }
+  return value;
+}
+
+export function ensureNumber(value: unknown, path: string) {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`Invalid import file: "${path}" must be a number.`);
+  }
+  return value;
+}
+
+export function ensurePositiveNumber(value: unknown, path: string) {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(
+      `Invalid import file: "${path}" must be a positive number.`,
+    );
+  }
+  return value;
+}
+
+export function ensurePositiveInteger(value: unknown, path: string) {
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value <= 0 ||
+    !Number.isInteger(value)
+  ) {
+    throw new Error(
+      `Invalid import file: "${path}" must be a whole number greater than 0.`,
+    );
+  }
+  return value;
+}
+
+export function ensureNonNegativeInteger(value: unknown, path: string) {
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    !Number.isInteger(value) ||
+    value < 0
+  ) {
+    throw new Error(
+      `Invalid import file: "${path}" must be a non-negative integer.`,
+    );
+  }
+  return value;
+}
+
+export function ensureEnumValue<T extends string>(
+  value: unknown,
+  path: string,
+  allowed: readonly T[],
+) {
+  const parsed = ensureString(value, path);
+  if (!allowed.includes(parsed as T)) {
+    throw new Error(`Invalid import file: "${path}" has unsupported value.`);
+  }
+  return parsed as T;
+}
+
+export function ensureStage(value: unknown, path: string): RoleplayStage {
+  const stage = ensureString(value, path);
+  if (!STAGES_IN_ORDER.includes(stage as RoleplayStage)) {
+    throw new Error(
+      `Invalid import file: "${path}" has unknown stage "${stage}".`,
+    );
+  }
+  return stage as RoleplayStage;
+}
+
+export function ensureUniqueKeys<T, K extends string | number>(
+  items: T[],
+  getKey: (item: T) => K,
+  label: string,
+  path: string,
+) {
+  const counts = new Map<K, number>();
+  for (const item of items) {
+    const key = getKey(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const duplicates = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([key]) => String(key));
+  if (duplicates.length > 0) {
+    throw new Error(
+      `Invalid import file: duplicate ${label} in "${path}": ${duplicates.join(', ')}.`,
+    );
+  }
+}
+
+export function hasTransferFileShape(value: unknown): value is TransferFile {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.dir === 'string' &&
+    typeof value.path === 'string' &&
+    typeof value.status === 'string' &&
+    typeof value.mime === 'string'
+  );
+}
+
+export function toTransferFile(
+  file: Pick<IFile, 'id' | 'name' | 'path' | 'dir' | 'status' | 'mime'> & {
+    url?: string | null;
+  },
+): TransferFile {
+  return {
+    id: file.id,
+    name: file.name,
+    path: file.path,
+    dir: file.dir,
+    status: file.status,
+    mime: file.mime,
+    url: file.url ?? undefined,
+  };
+}
+
+export function parseTransferFile(value: unknown, path: string): TransferFile {
+  const obj = ensureRecord(value, path);
+  const dir = ensureString(obj.dir, `${path}.dir`);
+  const status = ensureString(obj.status, `${path}.status`);
+
+  if (!Object.values(FileDir).includes(dir as FileDir)) {
+    throw new Error(
+      `Invalid import file: "${path}.dir" has unsupported value.`,
+    );
+  }
+  if (!Object.values(FileStatus).includes(status as FileStatus)) {
+    throw new Error(
+      `Invalid import file: "${path}.status" has unsupported value.`,
+    );
+  }
+
+  const urlValue = obj.url;
+  if (
+    urlValue !== undefined &&
+    urlValue !== null &&
+    typeof urlValue !== 'string'
+  ) {
+    throw new Error(
+      `Invalid import file: "${path}.url" must be a string, null, or omitted.`,
+    );
+  }
+
+  return {
+    id: ensureNonEmptyString(obj.id, `${path}.id`),
+    name: ensureNonEmptyString(obj.name, `${path}.name`),
+    path: ensureNonEmptyString(obj.path, `${path}.path`),
+    dir: dir as FileDir,
+    status: status as FileStatus,
+    mime: ensureNonEmptyString(obj.mime, `${path}.mime`),
+    url: (urlValue as string | null | undefined) ?? undefined,
+  };
+}
+
+export function isSameTransferFile(a: TransferFile, b: TransferFile) {
+  return (
+    a.path === b.path &&
+    a.name === b.name &&
+    a.mime === b.mime &&
+    a.dir === b.dir &&
+    a.status === b.status
+  );
+}
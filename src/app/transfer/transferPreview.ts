@@ -0,0 +1,146 @@
+export type TransferPreviewAction =
+  | 'create'
+  | 'update'
+  | 'unchanged'
+  | 'delete'
+  | 'conflict';
+
+export type TransferFieldChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+export type TransferPreviewEntry = {
+  key: string;
+  label: string;
+  action: TransferPreviewAction;
+  changes: TransferFieldChange[];
+  note?: string;
+};
+
+export type TransferPreviewFields = Record<string, unknown>;
+
+const EMPTY_VALUE = '—';
+
+export function formatTransferValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return EMPTY_VALUE;
+  }
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+export function diffTransferFields(
+  before: TransferPreviewFields | null,
+  after: TransferPreviewFields,
+): TransferFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+  const changes: TransferFieldChange[] = [];
+
+  for (const field of fields) {
+    const beforeValue = formatTransferValue(before?.[field]);
+    const afterValue = formatTransferValue(after[field]);
+    if (before && beforeValue === afterValue) continue;
+    if (!before && afterValue === EMPTY_VALUE) continue;
+    changes.push({ field, before: beforeValue, after: afterValue });
+  }
+
+  return changes;
+}
+
+type BuildTransferPreviewEntryParams = {
+  key: string;
+  label: string;
+  before: TransferPreviewFields | null;
+  after: TransferPreviewFields;
+  lockedFields?: string[];
+};
+
+export function buildTransferPreviewEntry({
+  key,
+  label,
+  before,
+  after,
+  lockedFields = [],
+}: BuildTransferPreviewEntryParams): TransferPreviewEntry {
+  const changes = diffTransferFields(before, after);
+  if (!before) {
+    return { key, label, action: 'create', changes };
+  }
+  if (changes.length === 0) {
+    return { key, label, action: 'unchanged', changes };
+  }
+
+  const lockedChanges = changes.filter((change) =>
+    lockedFields.includes(change.field),
+  );
+  if (lockedChanges.length > 0) {
+    return {
+      key,
+      label,
+      action: 'conflict',
+      changes,
+      note: `Cannot change ${lockedChanges.map((change) => change.field).join(', ')} of an existing item.`,
+    };
+  }
+
+  return { key, label, action: 'update', changes };
+}
+
+export function buildTransferDeleteEntry(
+  key: string,
+  label: string,
+  before: TransferPreviewFields,
+): TransferPreviewEntry {
+  return {
+    key,
+    label,
+    action: 'delete',
+    changes: Object.entries(before).map(([field, value]) => ({
+      field,
+      before: formatTransferValue(value),
+      after: EMPTY_VALUE,
+    })),
+  };
+}
+
+export function isTransferEntrySelectable(entry: TransferPreviewEntry) {
+  return (
+    entry.action === 'create' ||
+    entry.action === 'update' ||
+    entry.action === 'delete'
+  );
+}
+
+export function getDefaultTransferSelection(entries: TransferPreviewEntry[]) {
+  return new Set(
+    entries
+      .filter((entry) => entry.action === 'create' || entry.action === 'update')
+      .map((entry) => entry.key),
+  );
+}
+
+export function countTransferPreview(entries: TransferPreviewEntry[]) {
+  const counts: Record<TransferPreviewAction, number> = {
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    delete: 0,
+    conflict: 0,
+  };
+  for (const entry of entries) {
+    counts[entry.action] += 1;
+  }
+  return counts;
+}
+
+export function isTransferKeySelected(
+  selectedKeys: Set<string> | undefined,
+  key: string,
+) {
+  return !selectedKeys || selectedKeys.has(key);
+}
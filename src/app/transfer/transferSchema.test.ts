@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import { posesTransferSchema } from '@/pages/poses/poseTransfer';
+
+import {
+  defineTransferSchema,
+  mapTransferItems,
+  migrateTransferPayload,
+  parseTransferPayload,
+} from './transferSchema';
+
+const notesSchema = defineTransferSchema({
+  schema: 'test-notes',
+  version: 3,
+  migrations: {
+    1: (payload) =>
+      mapTransferItems(payload, 'notes', (note) => ({ ...note, tags: [] })),
+    2: (payload) =>
+      mapTransferItems(payload, 'notes', ({ body, ...note }) => ({
+        ...note,
+        text: body,
+      })),
+  },
+  parse: (payload) => payload,
+});
+
+describe('migrateTransferPayload', () => {
+  it('returns current payloads unchanged', () => {
+    const payload = { schema: 'test-notes', version: 3, notes: [] };
+
+    expect(migrateTransferPayload(notesSchema, payload)).toEqual(payload);
+  });
+
+  it('runs every upgrader from the payload version to the current one', () => {
+    const migrated = migrateTransferPayload(notesSchema, {
+      schema: 'test-notes',
+      version: 1,
+      notes: [{ body: 'hello' }],
+    });
+
+    expect(migrated).toEqual({
+      schema: 'test-notes',
+      version: 3,
+      notes: [{ tags: [], text: 'hello' }],
+    });
+  });
+
+  it('rejects versions newer than the schema', () => {
+    expect(() =>
+      migrateTransferPayload(notesSchema, { schema: 'test-notes', version: 4 }),
+    ).toThrow('unsupported version "4"');
+  });
+
+  it('rejects versions without an upgrader', () => {
+    expect(() =>
+      migrateTransferPayload(notesSchema, { schema: 'test-notes', version: 0 }),
+    ).toThrow('unsupported version "0"');
+  });
+
+  it('rejects non-integer versions', () => {
+    expect(() =>
+      migrateTransferPayload(notesSchema, {
+        schema: 'test-notes',
+        version: '3',
+      }),
+    ).toThrow('unsupported version "3"');
+  });
+});
+
+describe('parseTransferPayload', () => {
+  it('reads version 1 pose exports', () => {
+    const parsed = parseTransferPayload(posesTransferSchema, {
+      schema: 'poses',
+      version: 1,
+      exportedAt: '2026-01-01T00:00:00.000Z',
+      poses: [
+        {
+          idx: 0,
+          stage: 'SEX',
+          angle: 'pov',
+          pose: 'doggy',
+          prompt: 'doggy pose',
+        },
+      ],
+    });
+
+    expect(parsed.version).toBe(3);
+    expect(parsed.poses).toEqual([
+      {
+        idx: 0,
+        note: undefined,
+        isAnal: false,
+        stages: ['SEX'],
+        angle: 'pov',
+        pose: 'doggy',
+        prompt: 'doggy pose',
+        videoPrompt: undefined,
+      },
+    ]);
+  });
+
+  it('names the expected schema when another export is imported', () => {
+    expect(() =>
+      parseTransferPayload(notesSchema, { schema: 'poses', version: 3 }),
+    ).toThrow('this is a "poses" export. Expected "test-notes"');
+  });
+});
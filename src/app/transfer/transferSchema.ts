@@ -0,0 +1,179 @@
+import { copyFile } from '@/app/files/filesApi';
+
+import {
+  ensureRecord,
+  ensureString,
+  isRecord,
+  type TransferFile,
+  type TransferRecord,
+} from './transferGuards';
+
+export type TransferMigration = (payload: TransferRecord) => TransferRecord;
+
+export type TransferSchema<TPayload> = {
+  schema: string;
+  version: number;
+  migrations: Record<number, TransferMigration>;
+  parse: (payload: TransferRecord) => TPayload;
+};
+
+type TransferSchemaConfig<TPayload> = {
+  schema: string;
+  version: number;
+  migrations?: Record<number, TransferMigration>;
+  parse: (payload: TransferRecord) => TPayload;
+};
+
+const transferSchemas = new Map<string, TransferSchema<unknown>>();
+
+export function defineTransferSchema<TPayload>(
+  config: TransferSchemaConfig<TPayload>,
+): TransferSchema<TPayload> {
+  const definition: TransferSchema<TPayload> = {
+    schema: config.schema,
+    version: config.version,
+    migrations: config.migrations ?? {},
+    parse: config.parse,
+  };
+  transferSchemas.set(definition.schema, definition);
+  return definition;
+}
+
+export function getTransferSchema(schema: string) {
+  return transferSchemas.get(schema) ?? null;
+}
+
+export function mapTransferItems(
+  payload: TransferRecord,
+  key: string,
+  map: (item: TransferRecord) => TransferRecord,
+): TransferRecord {
+  const items = payload[key];
+  if (!Array.isArray(items)) return payload;
+  return {
+    ...payload,
+    [key]: items.map((item) => (isRecord(item) ? map(item) : item)),
+  };
+}
+
+function getOldestSupportedVersion(definition: TransferSchema<unknown>) {
+  let version = definition.version;
+  while (definition.migrations[version - 1]) {
+    version -= 1;
+  }
+  return version;
+}
+
+export function migrateTransferPayload<TPayload>(
+  definition: TransferSchema<TPayload>,
+  payload: TransferRecord,
+) {
+  const version = payload.version;
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < getOldestSupportedVersion(definition) ||
+    version > definition.version
+  ) {
+    throw new Error(
+      `Invalid import file: unsupported version "${String(version)}" for "${definition.schema}". Expected ${definition.version}.`,
+    );
+  }
+
+  let migrated = payload;
+  for (let current = version; current < definition.version; current += 1) {
+    migrated = {
+      ...definition.migrations[current](migrated),
+      version: current + 1,
+    };
+  }
+  return migrated;
+}
+
+export function parseTransferPayload<TPayload>(
+  definition: TransferSchema<TPayload>,
+  value: unknown,
+  path = 'root',
+) {
+  const payloadObj = ensureRecord(value, path);
+  const schema = ensureString(
+    payloadObj.schema,
+    path === 'root' ? 'schema' : `${path}.schema`,
+  );
+
+  if (schema !== definition.schema) {
+    const known = getTransferSchema(schema);
+    throw new Error(
+      known
+        ? `Invalid import file: this is a "${schema}" export. Expected "${definition.schema}".`
+        : `Invalid import file: unsupported schema "${schema}". Expected "${definition.schema}".`,
+    );
+  }
+
+  return definition.parse(migrateTransferPayload(definition, payloadObj));
+}
+
+export async function readTransferFile(file: File) {
+  const text = await file.text();
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (_error) {
+    throw new Error('Invalid JSON file.');
+  }
+}
+
+export async function parseTransferFileAs<TPayload>(
+  definition: TransferSchema<TPayload>,
+  file: File,
+) {
+  return parseTransferPayload(definition, await readTransferFile(file));
+}
+
+export function buildTransferEnvelope<
+  TSchema extends string,
+  TVersion extends number,
+>(schema: TSchema, version: TVersion) {
+  return {
+    schema,
+    version,
+    exportedAt: new Date().toISOString(),
+  };
+}
+
+export function downloadTransferFile(payload: unknown, fileName: string) {
+  const blob = new Blob([JSON.stringify(payload, null, 2)], {
+    type: 'application/json',
+  });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
+
+export function sanitizeTransferFileNamePart(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+export async function copyTransferFile(file: TransferFile) {
+  await copyFile({
+    id: file.id,
+    name: file.name,
+    path: file.path,
+    dir: file.dir,
+    status: file.status,
+    mime: file.mime,
+    url: file.url ?? undefined,
+  });
+}
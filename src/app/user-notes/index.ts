@@ -0,0 +1,2 @@
+export { useCreateUserNote, useDeleteUserNote, useUserNotes } from './queries';
+export { createUserNote, deleteUserNote, getUserNotes } from './userNotesApi';
@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { notifyError, notifySuccess } from '@/app/toast';
+import type { CreateUserNoteDto } from '@/common/types';
+
+import { createUserNote, deleteUserNote, getUserNotes } from './userNotesApi';
+
+const userNoteKeys = {
+  user: (userId: string) => ['user-notes', userId] as const,
+};
+
+export function useUserNotes(userId: string | null) {
+  return useQuery({
+    queryKey: userNoteKeys.user(userId ?? ''),
+    queryFn: () => getUserNotes(userId ?? ''),
+    enabled: Boolean(userId),
+  });
+}
+
+export function useCreateUserNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      payload,
+    }: {
+      userId: string;
+      payload: CreateUserNoteDto;
+    }) => createUserNote(userId, payload),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: userNoteKeys.user(variables.userId),
+      });
+      notifySuccess('Note added.', 'Note added.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to save the note.');
+    },
+  });
+}
+
+export function useDeleteUserNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, noteId }: { userId: string; noteId: string }) =>
+      deleteUserNote(userId, noteId),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: userNoteKeys.user(variables.userId),
+      });
+      notifySuccess('Note deleted.', 'Note deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the note.');
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type { CreateUserNoteDto, IUserNote } from '@/common/types';
+
+const fallbackError = 'Unable to load notes.';
+const createFallbackError = 'Unable to save the note.';
+const deleteFallbackError = 'Unable to delete the note.';
+
+export async function getUserNotes(userId: string) {
+  const res = await apiFetch(`/admin/users/${userId}/notes`);
+  if (!res.ok) {
+    throw await buildApiError(res, fallbackError);
+  }
+  return (await res.json()) as IUserNote[];
+}
+
+export async function createUserNote(
+  userId: string,
+  payload: CreateUserNoteDto,
+) {
+  const res = await apiFetch(`/admin/users/${userId}/notes`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createFallbackError);
+  }
+  return (await res.json()) as IUserNote;
+}
+
+export async function deleteUserNote(userId: string, noteId: string) {
+  const res = await apiFetch(`/admin/users/${userId}/notes/${noteId}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteFallbackError);
+  }
+}
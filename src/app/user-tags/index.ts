@@ -0,0 +1,12 @@
+export {
+  useCreateUserTag,
+  useDeleteUserTag,
+  useSetUserTags,
+  useUserTags,
+} from './queries';
+export {
+  createUserTag,
+  deleteUserTag,
+  getUserTags,
+  setUserTags,
+} from './userTagsApi';
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { notifyError, notifySuccess } from '@/app/toast';
+import type { CreateUserTagDto } from '@/common/types';
+
+import {
+  createUserTag,
+  deleteUserTag,
+  getUserTags,
+  setUserTags,
+} from './userTagsApi';
+
+const userTagKeys = {
+  list: () => ['user-tags'] as const,
+};
+
+export function useUserTags(enabled = true) {
+  return useQuery({
+    queryKey: userTagKeys.list(),
+    queryFn: getUserTags,
+    enabled,
+  });
+}
+
+export function useCreateUserTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payload: CreateUserTagDto) => createUserTag(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-tags'] });
+      notifySuccess('Tag created.', 'Tag created.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to create the tag.');
+    },
+  });
+}
+
+export function useDeleteUserTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteUserTag(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-tags'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['user'] });
+      notifySuccess('Tag deleted.', 'Tag deleted.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to delete the tag.');
+    },
+  });
+}
+
+export function useSetUserTags() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, tagIds }: { userId: string; tagIds: string[] }) =>
+      setUserTags(userId, tagIds),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['user-tags'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['user', variables.userId] });
+      notifySuccess('Tags updated.', 'Tags updated.');
+    },
+    onError: (error) => {
+      notifyError(error, 'Unable to update user tags.');
+    },
+  });
+}
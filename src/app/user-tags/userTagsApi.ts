@@ -0,0 +1,49 @@
+import { apiFetch } from '@/app/api';
+import { buildApiError } from '@/app/api/apiErrors';
+import type { CreateUserTagDto, IUserTag } from '@/common/types';
+
+const fallbackError = 'Unable to load user tags.';
+const createFallbackError = 'Unable to create the tag.';
+const deleteFallbackError = 'Unable to delete the tag.';
+const assignFallbackError = 'Unable to update user tags.';
+
+export async function getUserTags() {
+  const res = await apiFetch('/admin/user-tags');
+  if (!res.ok) {
+    throw await buildApiError(res, fallbackError);
+  }
+  return (await res.json()) as IUserTag[];
+}
+
+export async function createUserTag(payload: CreateUserTagDto) {
+  const res = await apiFetch('/admin/user-tags', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, createFallbackError);
+  }
+  return (await res.json()) as IUserTag;
+}
+
+export async function deleteUserTag(id: string) {
+  const res = await apiFetch(`/admin/user-tags/${id}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, deleteFallbackError);
+  }
+}
+
+export async function setUserTags(userId: string, tagIds: string[]) {
+  const res = await apiFetch(`/admin/users/${userId}/tags`, {
+    method: 'PUT',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ tagIds }),
+  });
+  if (!res.ok) {
+    throw await buildApiError(res, assignFallbackError);
+  }
+  return (await res.json()) as IUserTag[];
+}
@@ -6,6 +6,8 @@ import type { PaginatedResponse } from '../paginated-response.type';
 
 export type UsersListParams = {
   search?: string;
+  segmentId?: string;
+  tagId?: string;
   order?: string;
   skip?: number;
   take?: number;
@@ -18,6 +20,8 @@ const updateFallbackError = 'Unable to update the user.';
 export async function getUsers(params: UsersListParams) {
   const query = new URLSearchParams();
   if (params.search) query.set('search', params.search);
+  if (params.segmentId) query.set('segmentId', params.segmentId);
+  if (params.tagId) query.set('tagId', params.tagId);
   if (params.order) query.set('order', params.order);
   if (typeof params.skip === 'number') query.set('skip', String(params.skip));
   if (typeof params.take === 'number') query.set('take', String(params.take));
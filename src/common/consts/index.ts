@@ -1 +1,2 @@
+export * from './prompt-placeholder.consts';
 export * from './prompt-type.consts';
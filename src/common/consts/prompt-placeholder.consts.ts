@@ -0,0 +1,115 @@
+import { type IPromptPlaceholder, PromptType } from '@/common/types';
+
+const required = (name: string, description: string): IPromptPlaceholder => ({
+  name,
+  description,
+  required: true,
+});
+
+const optional = (name: string, description: string): IPromptPlaceholder => ({
+  name,
+  description,
+  required: false,
+});
+
+const CHARACTER_PLACEHOLDERS = [
+  required('character_name', 'Character name'),
+  optional('personality', 'Scenario personality'),
+  optional('messaging_style', 'Scenario messaging style'),
+  optional('user_name', 'Telegram user first name'),
+];
+
+const CHAT_IMAGE_PLACEHOLDERS = [
+  required('appearance', 'Scenario appearance'),
+  optional('clothes', 'Clothes chosen by the chat model'),
+  optional('environment', 'Environment chosen by the chat model'),
+  optional('face_expression', 'Face expression chosen by the chat model'),
+  optional('action', 'Action chosen by the chat model'),
+  optional('angle', 'Photo angle of the selected pose'),
+];
+
+const SEX_IMAGE_PLACEHOLDERS = [
+  ...CHAT_IMAGE_PLACEHOLDERS,
+  required('pose', 'Pose prompt of the selected pose'),
+  optional('anal', 'Whether the selected pose is anal'),
+];
+
+const AVATAR_PLACEHOLDERS = [
+  required('appearance', 'Character appearance'),
+  optional('character_name', 'Character name'),
+];
+
+const OPENING_IMAGE_PLACEHOLDERS = [
+  required('appearance', 'Scenario appearance'),
+  optional('situation', 'Scenario situation'),
+  optional('opening_message', 'Scenario opening message'),
+  optional('character_name', 'Character name'),
+];
+
+const PROMO_IMAGE_PLACEHOLDERS = [
+  required('appearance', 'Scenario appearance'),
+  optional('situation', 'Scenario situation'),
+  optional('character_name', 'Character name'),
+];
+
+export const PROMPT_PLACEHOLDER_CONTRACTS: Record<
+  PromptType,
+  IPromptPlaceholder[]
+> = {
+  [PromptType.Chat]: [
+    ...CHARACTER_PLACEHOLDERS,
+    optional('appearance', 'Scenario appearance'),
+    optional('situation', 'Scenario situation'),
+    optional('stage_directives', 'Directives of the current roleplay stage'),
+    optional('stage', 'Current roleplay stage'),
+    optional('scenario_name', 'Scenario name'),
+    optional('language', 'User language'),
+  ],
+  [PromptType.Ping]: [
+    ...CHARACTER_PLACEHOLDERS,
+    optional('hours_since_last_message', 'Hours since the last user message'),
+  ],
+  [PromptType.BlurredPhoto]: [
+    ...CHARACTER_PLACEHOLDERS,
+    optional('stage', 'Current roleplay stage'),
+  ],
+  [PromptType.TurnCold]: [
+    ...CHARACTER_PLACEHOLDERS,
+    optional('stage', 'Current roleplay stage'),
+  ],
+  [PromptType.GiftBought]: [
+    ...CHARACTER_PLACEHOLDERS,
+    optional('gift_name', 'Name of the bought gift'),
+    optional('gift_reason', 'Reason configured for the stage gift'),
+  ],
+  [PromptType.Image]: CHAT_IMAGE_PLACEHOLDERS,
+  [PromptType.ImageSex]: SEX_IMAGE_PLACEHOLDERS,
+  [PromptType.AnimeImage]: CHAT_IMAGE_PLACEHOLDERS,
+  [PromptType.AnimeImageSex]: SEX_IMAGE_PLACEHOLDERS,
+  [PromptType.AvatarRealistic]: AVATAR_PLACEHOLDERS,
+  [PromptType.AvatarAnime]: AVATAR_PLACEHOLDERS,
+  [PromptType.OpeningImageRealisticLegacy]: OPENING_IMAGE_PLACEHOLDERS,
+  [PromptType.OpeningImageAnimeLegacy]: OPENING_IMAGE_PLACEHOLDERS,
+  [PromptType.OpeningImageRealistic]: OPENING_IMAGE_PLACEHOLDERS,
+  [PromptType.OpeningImageAnime]: OPENING_IMAGE_PLACEHOLDERS,
+  [PromptType.PromoImageRealistic]: PROMO_IMAGE_PLACEHOLDERS,
+  [PromptType.PromoImageAnime]: PROMO_IMAGE_PLACEHOLDERS,
+  [PromptType.PostLocalization]: [
+    required('text', 'Original post text'),
+    required('language', 'Target language'),
+  ],
+  [PromptType.ScenarioGen]: [
+    optional('character_name', 'Character name'),
+    required('character_description', 'Character description'),
+    optional('level', 'Level of the generated scenario'),
+    optional('existing_scenarios', 'Scenarios the character already has'),
+  ],
+  [PromptType.ScenarioGifts]: [
+    required('scenario', 'Scenario fields as JSON'),
+    optional('gifts', 'Available gifts as JSON'),
+  ],
+  [PromptType.ScenarioActions]: [
+    required('scenario', 'Scenario fields as JSON'),
+    optional('stage', 'Roleplay stage to generate actions for'),
+  ],
+};
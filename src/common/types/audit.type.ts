@@ -0,0 +1,34 @@
+import type { IAdmin } from './admin.type';
+
+export enum AuditAction {
+  Create = 'create',
+  Update = 'update',
+  Delete = 'delete',
+}
+
+export enum AuditEntityType {
+  Character = 'character',
+  Scenario = 'scenario',
+  User = 'user',
+  Chat = 'chat',
+  Prompt = 'prompt',
+  Plan = 'plan',
+  Gift = 'gift',
+  Pose = 'pose',
+  Post = 'post',
+  Broadcast = 'broadcast',
+  Segment = 'segment',
+  Admin = 'admin',
+}
+
+export interface IAuditLog {
+  id: string;
+  admin: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
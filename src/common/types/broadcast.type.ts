@@ -1,8 +1,12 @@
 export interface BroadcastFilters {
   lastVisitedBefore?: Date;
   lastVisitedAfter?: Date;
+  lastVisitedBeforeDays?: number;
+  lastVisitedAfterDays?: number;
   subscribed?: boolean;
   userIds?: string[];
+  segmentId?: string;
+  tagIds?: string[];
 }
 
 export enum MessageActionType {
@@ -11,7 +15,7 @@ export enum MessageActionType {
   App = 'app',
 }
 
-interface BroadcastMessage {
+export interface BroadcastMessage {
   imgId?: string;
   videoId?: string;
   text: string;
@@ -22,11 +26,73 @@ interface BroadcastMessage {
   };
 }
 
+export interface BroadcastVariantDto {
+  name: string;
+  percentage: number;
+  message: BroadcastMessage;
+}
+
 export interface BroadcastDto {
   message: BroadcastMessage;
   filters: BroadcastFilters;
+  variants?: BroadcastVariantDto[];
 }
 
 export interface BroadcastCountResponse {
   count: number;
 }
+
+export enum BroadcastStatus {
+  Pending = 'pending',
+  Sending = 'sending',
+  Sent = 'sent',
+  Cancelled = 'cancelled',
+  Failed = 'failed',
+}
+
+export enum BroadcastRecurrence {
+  Daily = 'daily',
+  Weekly = 'weekly',
+}
+
+export interface BroadcastScheduleDto extends BroadcastDto {
+  sendAt: string;
+  recurrence: BroadcastRecurrence | null;
+}
+
+export interface IBroadcastVariant extends BroadcastVariantDto {
+  id: string;
+}
+
+export interface IBroadcast {
+  id: string;
+  message: BroadcastMessage;
+  filters: BroadcastFilters;
+  variants: IBroadcastVariant[];
+  status: BroadcastStatus;
+  sendAt: string | null;
+  recurrence: BroadcastRecurrence | null;
+  nextRunAt: string | null;
+  audienceCount: number | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BroadcastDeliveryStats {
+  audienceCount: number;
+  delivered: number;
+  clicked: number;
+  converted: number;
+}
+
+export interface BroadcastVariantStats extends BroadcastDeliveryStats {
+  variantId: string;
+  name: string;
+  percentage: number;
+}
+
+export interface IBroadcastStats extends BroadcastDeliveryStats {
+  broadcastId: string;
+  variants: BroadcastVariantStats[];
+}
@@ -0,0 +1,43 @@
+import type { IAdmin } from './admin.type';
+import type { RoleplayStage } from './scenario.type';
+
+export enum ChatReviewLabel {
+  GoodResponse = 'good_response',
+  BadResponse = 'bad_response',
+  OutOfCharacter = 'out_of_character',
+  BrokenStageLogic = 'broken_stage_logic',
+  UnsafeContent = 'unsafe_content',
+}
+
+export interface IChatReview {
+  id: string;
+  chatId: string;
+  itemIndex: number | null;
+  label: ChatReviewLabel;
+  comment: string | null;
+  promptVersion: number | null;
+  admin: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  createdAt: string;
+}
+
+export type CreateChatReviewDto = {
+  label: ChatReviewLabel;
+  comment?: string;
+  itemIndex?: number;
+};
+
+export type ChatReviewQueueParams = {
+  scenarioId?: string;
+  stage?: RoleplayStage;
+  take?: number;
+};
+
+export type ChatReviewStatsGroupBy = 'scenario' | 'promptVersion';
+
+export interface IChatReviewStatsRow {
+  key: string;
+  label: string;
+  reviewedChats: number;
+  reviews: number;
+  labels: Record<ChatReviewLabel, number>;
+}
@@ -14,6 +14,16 @@ export interface IChat {
   photosSent: number;
   createdAt: string;
   updatedAt: string;
+  matches?: IChatSearchMatch[];
+}
+
+export type ChatSearchRole = 'user' | 'ai';
+
+export interface IChatSearchMatch {
+  itemIndex: number;
+  role: ChatSearchRole;
+  text: string;
+  createdAt?: string;
 }
 
 export interface IChatMessage {
@@ -92,4 +102,6 @@ export interface ChatSearchParams {
   scenarioId?: string;
   stage?: RoleplayStage;
   userId?: string;
+  search?: string;
+  searchRole?: ChatSearchRole;
 }
@@ -1,10 +1,12 @@
 export * from './activations.type';
 export * from './admin.type';
+export * from './audit.type';
 export * from './batch-img.type';
 export * from './broadcast.type';
 export * from './character.type';
 export * from './character-image.type';
 export * from './chat.type';
+export * from './chat-review.type';
 export * from './conversions.type';
 export * from './dataset.type';
 export * from './file.type';
@@ -13,13 +15,16 @@ export * from './img-generation.type';
 export * from './in-app-purchase.entity';
 export * from './logs.type';
 export * from './lora.type';
+export * from './permission.type';
 export * from './plan.type';
 export * from './pose-prompt.type';
 export * from './post.type';
 export * from './prompt.type';
 export * from './scenario.type';
 export * from './scenario-gen.type';
+export * from './segment.type';
 export * from './tg-user.type';
 export * from './user.type';
 export * from './user-progress.type';
+export * from './user-tag.type';
 export * from './video-generation.types';
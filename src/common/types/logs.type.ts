@@ -36,6 +36,12 @@ export type IImageGenLog = {
   createdAt: string;
 };
 
+export type IChatDiagnostics = {
+  responses: IChatResponseLog[];
+  llmCalls: ILlmCallLog[];
+  imageGens: IImageGenLog[];
+};
+
 export type IErrorLog = {
   id: string;
   code: ErrorCode;
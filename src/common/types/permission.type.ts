@@ -0,0 +1,8 @@
+export enum Permission {
+  CharacterDelete = 'character.delete',
+  BroadcastSend = 'broadcast.send',
+  PlansEdit = 'plans.edit',
+  PlansEditPrice = 'plans.editPrice',
+  AdminsInvite = 'admins.invite',
+  AdminsManage = 'admins.manage',
+}
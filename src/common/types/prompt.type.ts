@@ -1,3 +1,5 @@
+import type { IAdmin } from './admin.type';
+
 export enum PromptType {
   // Chat
   Chat = 'chat',
@@ -71,3 +73,52 @@ export interface IPrompt {
 export interface IPromptDetails extends IPrompt {
   text: string;
 }
+
+export interface IPromptVersion {
+  id: string;
+  promptId: string;
+  version: number;
+  name: string;
+  text: string;
+  createdBy: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  createdAt: string;
+}
+
+export interface IPromptPin {
+  type: PromptType;
+  modelProvider: ModelProvider;
+  promptId: string;
+  promptName: string;
+  version: number;
+  pinnedAt: string;
+}
+
+export type PinPromptVersionDto = {
+  type: PromptType;
+  modelProvider: ModelProvider;
+  promptId: string;
+  version: number;
+};
+
+export type RunPromptPlaygroundDto = {
+  type: PromptType;
+  text: string;
+  chatId: string;
+  modelProviders: ModelProvider[];
+  historyLength?: number;
+};
+
+export interface IPromptPlaygroundRun {
+  modelProvider: ModelProvider;
+  content: string | null;
+  error: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+export interface IPromptPlaceholder {
+  name: string;
+  description: string;
+  required: boolean;
+}
@@ -0,0 +1,41 @@
+import type { PlanType } from './plan.type';
+import type { RoleplayStage } from './scenario.type';
+
+export interface SegmentConditions {
+  subscribed?: boolean;
+  planType?: PlanType;
+  hasPurchased?: boolean;
+  airMin?: number;
+  airMax?: number;
+  fuelMin?: number;
+  fuelMax?: number;
+  chatStage?: RoleplayStage;
+  characterId?: string;
+  lastVisitedBeforeDays?: number;
+  lastVisitedAfterDays?: number;
+}
+
+export interface SegmentDto {
+  name: string;
+  description?: string | null;
+  conditions: SegmentConditions;
+}
+
+export interface ISegment {
+  id: string;
+  name: string;
+  description: string | null;
+  conditions: SegmentConditions;
+  character: { id: string; name: string } | null;
+  userCount: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SegmentCountResponse {
+  count: number;
+}
+
+export interface SegmentUserIdsResponse {
+  userIds: string[];
+}
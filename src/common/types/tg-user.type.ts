@@ -1,7 +1,9 @@
 import type { ICharacter } from './character.type';
 import type { IChat } from './chat.type.ts';
 import type { IGift } from './gift.type.ts';
+import type { IPlan } from './plan.type.ts';
 import type { IScenario } from './scenario.type.ts';
+import type { IUserTag } from './user-tag.type';
 
 export type UpdateTgUser = {
   isBlocked?: boolean;
@@ -20,6 +22,7 @@ export interface ITgUser {
   isBlocked: boolean;
   subscribedUntil?: string | null;
   lastActivityAt: string;
+  tags?: IUserTag[];
   createdAt: string;
   updatedAt: string;
 }
@@ -29,6 +32,7 @@ export interface IPayment {
   amount: number;
   scenario?: IScenario | null;
   character?: ICharacter | null;
+  plan?: Pick<IPlan, 'id' | 'code' | 'type'> | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,33 @@
+import type { IAdmin } from './admin.type';
+
+export enum UserTagColor {
+  Blue = 'blue',
+  Green = 'green',
+  Yellow = 'yellow',
+  Red = 'red',
+}
+
+export interface IUserTag {
+  id: string;
+  name: string;
+  color: UserTagColor;
+  userCount?: number | null;
+  createdAt: string;
+}
+
+export type CreateUserTagDto = {
+  name: string;
+  color: UserTagColor;
+};
+
+export interface IUserNote {
+  id: string;
+  userId: string;
+  text: string;
+  admin: Pick<IAdmin, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+  createdAt: string;
+}
+
+export type CreateUserNoteDto = {
+  text: string;
+};
@@ -0,0 +1,81 @@
+import { AuditAction, AuditEntityType, type IAuditLog } from '@/common/types';
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [AuditAction.Create]: 'Created',
+  [AuditAction.Update]: 'Updated',
+  [AuditAction.Delete]: 'Deleted',
+};
+
+const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  [AuditEntityType.Character]: 'Character',
+  [AuditEntityType.Scenario]: 'Scenario',
+  [AuditEntityType.User]: 'User',
+  [AuditEntityType.Chat]: 'Chat',
+  [AuditEntityType.Prompt]: 'Prompt',
+  [AuditEntityType.Plan]: 'Plan',
+  [AuditEntityType.Gift]: 'Gift',
+  [AuditEntityType.Pose]: 'Pose',
+  [AuditEntityType.Post]: 'Post',
+  [AuditEntityType.Broadcast]: 'Broadcast',
+  [AuditEntityType.Segment]: 'Segment',
+  [AuditEntityType.Admin]: 'Admin',
+};
+
+export const auditActionOptions = Object.values(AuditAction).map((value) => ({
+  label: AUDIT_ACTION_LABELS[value],
+  value,
+}));
+
+export const auditEntityTypeOptions = Object.values(AuditEntityType).map(
+  (value) => ({
+    label: AUDIT_ENTITY_LABELS[value],
+    value,
+  }),
+);
+
+export function formatAuditAction(value: AuditAction) {
+  return AUDIT_ACTION_LABELS[value] ?? value;
+}
+
+export function formatAuditEntityType(value: AuditEntityType) {
+  return AUDIT_ENTITY_LABELS[value] ?? value;
+}
+
+export function formatAuditAdmin(admin: IAuditLog['admin']) {
+  if (!admin) return 'System';
+  const fullName = `${admin.firstName ?? ''} ${admin.lastName ?? ''}`.trim();
+  return fullName || admin.email || 'Unknown admin';
+}
+
+export function getAuditEntityPath(
+  entry: Pick<IAuditLog, 'action' | 'entityType' | 'entityId'>,
+) {
+  if (entry.action === AuditAction.Delete) return null;
+
+  switch (entry.entityType) {
+    case AuditEntityType.Character:
+      return `/characters/${entry.entityId}`;
+    case AuditEntityType.User:
+      return `/users/${entry.entityId}`;
+    case AuditEntityType.Chat:
+      return `/chats/${entry.entityId}`;
+    case AuditEntityType.Prompt:
+      return `/prompts/${entry.entityId}`;
+    case AuditEntityType.Gift:
+      return `/gifts/${entry.entityId}`;
+    case AuditEntityType.Pose:
+      return `/poses/${entry.entityId}`;
+    case AuditEntityType.Plan:
+      return '/plans';
+    case AuditEntityType.Post:
+      return '/posts';
+    case AuditEntityType.Broadcast:
+      return '/broadcast/history';
+    case AuditEntityType.Segment:
+      return '/segments';
+    case AuditEntityType.Admin:
+      return '/admins';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,25 @@
+import { isRecord } from '@/app/transfer';
+
+import type { ChatLlmResponse } from '../types';
+
+export type ChatLlmPhoto = NonNullable<ChatLlmResponse['photo']>;
+
+export function parseChatLlmResponse(content: string) {
+  try {
+    const parsed = JSON.parse(content) as unknown;
+    if (!isRecord(parsed) || typeof parsed.text !== 'string') return null;
+    return { ...parsed, text: parsed.text } as ChatLlmResponse;
+  } catch {
+    return null;
+  }
+}
+
+export function parseChatLlmPhoto(content: string) {
+  try {
+    const parsed = JSON.parse(content) as unknown;
+    if (!isRecord(parsed)) return null;
+    return parsed as ChatLlmPhoto;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,34 @@
+import { ChatReviewLabel } from '@/common/types';
+
+type ChatReviewLabelTone = 'accent' | 'success' | 'warning' | 'danger';
+
+const CHAT_REVIEW_LABELS: Record<ChatReviewLabel, string> = {
+  [ChatReviewLabel.GoodResponse]: 'Good response',
+  [ChatReviewLabel.BadResponse]: 'Bad response',
+  [ChatReviewLabel.OutOfCharacter]: 'Out of character',
+  [ChatReviewLabel.BrokenStageLogic]: 'Broken stage logic',
+  [ChatReviewLabel.UnsafeContent]: 'Unsafe content',
+};
+
+const CHAT_REVIEW_LABEL_TONES: Record<ChatReviewLabel, ChatReviewLabelTone> = {
+  [ChatReviewLabel.GoodResponse]: 'success',
+  [ChatReviewLabel.BadResponse]: 'danger',
+  [ChatReviewLabel.OutOfCharacter]: 'warning',
+  [ChatReviewLabel.BrokenStageLogic]: 'warning',
+  [ChatReviewLabel.UnsafeContent]: 'danger',
+};
+
+export const chatReviewLabelOptions = Object.values(ChatReviewLabel).map(
+  (value) => ({
+    label: CHAT_REVIEW_LABELS[value],
+    value,
+  }),
+);
+
+export function formatChatReviewLabel(value: ChatReviewLabel) {
+  return CHAT_REVIEW_LABELS[value] ?? value;
+}
+
+export function getChatReviewLabelTone(value: ChatReviewLabel) {
+  return CHAT_REVIEW_LABEL_TONES[value] ?? 'accent';
+}
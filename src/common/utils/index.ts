@@ -1,16 +1,47 @@
+export {
+  auditActionOptions,
+  auditEntityTypeOptions,
+  formatAuditAction,
+  formatAuditAdmin,
+  formatAuditEntityType,
+  getAuditEntityPath,
+} from './audit';
 export { capitalize } from './capitalize';
 export {
   characterTypeOptions,
   formatCharacterSelectLabel,
   formatCharacterType,
 } from './characterType';
+export {
+  type ChatLlmPhoto,
+  parseChatLlmPhoto,
+  parseChatLlmResponse,
+} from './chatLlmResponse';
+export {
+  chatReviewLabelOptions,
+  formatChatReviewLabel,
+  getChatReviewLabelTone,
+} from './chatReview';
 export { cn } from './classnames';
+export { downloadBlob } from './download';
+export {
+  countLineChanges,
+  diffLines,
+  type LineDiffCell,
+  type LineDiffRow,
+} from './lineDiff';
 export {
   formatPhotoAngle,
   formatPose,
   photoAngleOptions,
   poseOptions,
 } from './posePrompt';
+export {
+  lintPromptText,
+  type PromptLintIssue,
+  type PromptLintResult,
+  type PromptTextSegment,
+} from './promptPlaceholders';
 export {
   buildStageDirectivesPayload,
   createEmptyStageDirectives,
@@ -24,6 +55,21 @@ export {
   normalizeStageDirectives,
   stageActionTypeOptions,
 } from './stage';
+export {
+  checkTelegramMessage,
+  parseTelegramHtml,
+  TELEGRAM_CAPTION_LIMIT,
+  TELEGRAM_MESSAGE_LIMIT,
+  type TelegramEntityTag,
+  type TelegramFormattedText,
+  type TelegramMessageCheck,
+  type TelegramNode,
+} from './telegramMessage';
+export {
+  hasTextMatch,
+  splitTextMatches,
+  type TextSearchSegment,
+} from './textSearch';
 export {
   formatGenerationRequestMode,
   formatUserRequestForDisplay,
@@ -34,3 +80,4 @@ export {
   resolveGenerationRequestMode,
   USER_REQUEST_FIELD_CONFIG,
 } from './userRequest';
+export { getUserTagTone, userTagColorOptions } from './userTag';
@@ -0,0 +1,176 @@
+export type LineDiffCell = {
+  number: number;
+  text: string;
+};
+
+export type LineDiffRow = {
+  type: 'equal' | 'changed' | 'added' | 'removed';
+  before: LineDiffCell | null;
+  after: LineDiffCell | null;
+};
+
+type LineOp = {
+  type: 'equal' | 'added' | 'removed';
+  beforeIndex?: number;
+  afterIndex?: number;
+};
+
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(value: string) {
+  return value.length === 0 ? [] : value.split('\n');
+}
+
+function diffOps(before: string[], after: string[]): LineOp[] {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start += 1;
+  }
+
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    before[beforeEnd - 1] === after[afterEnd - 1]
+  ) {
+    beforeEnd -= 1;
+    afterEnd -= 1;
+  }
+
+  const ops: LineOp[] = [];
+  for (let index = 0; index < start; index += 1) {
+    ops.push({ type: 'equal', beforeIndex: index, afterIndex: index });
+  }
+
+  const rows = beforeEnd - start;
+  const cols = afterEnd - start;
+  if (rows * cols > MAX_LCS_CELLS) {
+    for (let index = start; index < beforeEnd; index += 1) {
+      ops.push({ type: 'removed', beforeIndex: index });
+    }
+    for (let index = start; index < afterEnd; index += 1) {
+      ops.push({ type: 'added', afterIndex: index });
+    }
+  } else {
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i -= 1) {
+      for (let j = cols - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] =
+          before[start + i] === after[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(
+                lengths[(i + 1) * width + j],
+                lengths[i * width + j + 1],
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (before[start + i] === after[start + j]) {
+        ops.push({
+          type: 'equal',
+          beforeIndex: start + i,
+          afterIndex: start + j,
+        });
+        i += 1;
+        j += 1;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        ops.push({ type: 'removed', beforeIndex: start + i });
+        i += 1;
+      } else {
+        ops.push({ type: 'added', afterIndex: start + j });
+        j += 1;
+      }
+    }
+    for (; i < rows; i += 1) {
+      ops.push({ type: 'removed', beforeIndex: start + i });
+    }
+    for (; j < cols; j += 1) {
+      ops.push({ type: 'added', afterIndex: start + j });
+    }
+  }
+
+  for (let offset = 0; offset < before.length - beforeEnd; offset += 1) {
+    ops.push({
+      type: 'equal',
+      beforeIndex: beforeEnd + offset,
+      afterIndex: afterEnd + offset,
+    });
+  }
+
+  return ops;
+}
+
+export function diffLines(before: string, after: string): LineDiffRow[] {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  const toCell = (lines: string[], index: number) => ({
+    number: index + 1,
+    text: lines[index],
+  });
+
+  const rows: LineDiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (
+      let index = 0;
+      index < Math.max(removed.length, added.length);
+      index += 1
+    ) {
+      const beforeIndex = removed[index];
+      const afterIndex = added[index];
+      rows.push({
+        type:
+          index < paired
+            ? 'changed'
+            : beforeIndex !== undefined
+              ? 'removed'
+              : 'added',
+        before:
+          beforeIndex !== undefined ? toCell(beforeLines, beforeIndex) : null,
+        after: afterIndex !== undefined ? toCell(afterLines, afterIndex) : null,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffOps(beforeLines, afterLines)) {
+    if (op.type === 'removed') {
+      removed.push(op.beforeIndex!);
+    } else if (op.type === 'added') {
+      added.push(op.afterIndex!);
+    } else {
+      flush();
+      rows.push({
+        type: 'equal',
+        before: toCell(beforeLines, op.beforeIndex!),
+        after: toCell(afterLines, op.afterIndex!),
+      });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export function countLineChanges(rows: LineDiffRow[]) {
+  return rows.reduce(
+    (counts, row) => ({
+      added: counts.added + (row.type !== 'equal' && row.after ? 1 : 0),
+      removed: counts.removed + (row.type !== 'equal' && row.before ? 1 : 0),
+    }),
+    { added: 0, removed: 0 },
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IPromptPlaceholder } from '../types';
+import { lintPromptText } from './promptPlaceholders';
+
+const contract: IPromptPlaceholder[] = [
+  { name: 'appearance', description: 'Appearance', required: true },
+  { name: 'pose', description: 'Pose', required: false },
+];
+
+describe('lintPromptText', () => {
+  it('accepts text that uses every required placeholder', () => {
+    const result = lintPromptText('Photo of {appearance}, {pose}.', contract);
+
+    expect(result.issues).toEqual([]);
+    expect(result.hasErrors).toBe(false);
+    expect(result.placeholders).toEqual(['appearance', 'pose']);
+  });
+
+  it('reports missing required placeholders as errors', () => {
+    const result = lintPromptText('Photo of {pose}.', contract);
+
+    expect(result.hasErrors).toBe(true);
+    expect(result.issues).toEqual([
+      {
+        severity: 'error',
+        message: 'Missing required placeholder {appearance}.',
+      },
+    ]);
+  });
+
+  it('suggests the closest known name for unknown placeholders', () => {
+    const result = lintPromptText('{appearence} {appearance}', contract);
+
+    expect(result.hasErrors).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        severity: 'warning',
+        message: 'Unknown placeholder {appearence}. Did you mean {appearance}?',
+      },
+    ]);
+  });
+
+  it('reports unbalanced braces with their line', () => {
+    const result = lintPromptText('{appearance}\n{two words}', contract);
+
+    expect(result.issues.map((issue) => issue.message)).toContain(
+      'Braces on line 2 do not wrap a placeholder name. Escape literal braces as {{ and }}.',
+    );
+    expect(lintPromptText('{appearance} }', contract).issues[0].message).toBe(
+      'Unmatched "}" on line 1.',
+    );
+    expect(lintPromptText('{appearance} {', contract).issues[0].message).toBe(
+      'Unclosed "{" on line 1.',
+    );
+  });
+
+  it('treats doubled braces as literal text', () => {
+    const result = lintPromptText('{{"look": "{appearance}"}}', contract);
+
+    expect(result.issues).toEqual([]);
+    expect(result.segments).toEqual([
+      { type: 'text', text: '{{"look": "' },
+      {
+        type: 'placeholder',
+        text: '{appearance}',
+        name: 'appearance',
+        known: true,
+      },
+      { type: 'text', text: '"}}' },
+    ]);
+  });
+
+  it('lists errors before warnings', () => {
+    const result = lintPromptText('{unknown_name}', contract);
+
+    expect(result.issues.map((issue) => issue.severity)).toEqual([
+      'error',
+      'warning',
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import type { IPromptPlaceholder } from '../types';
+
+export type PromptTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'placeholder'; text: string; name: string; known: boolean }
+  | { type: 'invalid'; text: string };
+
+export type PromptLintIssue = {
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+export type PromptLintResult = {
+  segments: PromptTextSegment[];
+  placeholders: string[];
+  issues: PromptLintIssue[];
+  hasErrors: boolean;
+};
+
+const PLACEHOLDER_NAME_PATTERN = /^[a-zA-Z_][\w.]*$/;
+const SUGGESTION_MAX_DISTANCE = 2;
+
+function getEditDistance(a: string, b: string) {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const current = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = current;
+    }
+  }
+  return previous[b.length];
+}
+
+function findSuggestion(name: string, knownNames: string[]) {
+  let best: { name: string; distance: number } | null = null;
+  for (const candidate of knownNames) {
+    const distance = getEditDistance(
+      name.toLowerCase(),
+      candidate.toLowerCase(),
+    );
+    if (
+      distance <= SUGGESTION_MAX_DISTANCE &&
+      (!best || distance < best.distance)
+    ) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best?.name ?? null;
+}
+
+export function lintPromptText(
+  text: string,
+  contract: IPromptPlaceholder[],
+): PromptLintResult {
+  const knownNames = contract.map((placeholder) => placeholder.name);
+  const segments: PromptTextSegment[] = [];
+  const issues = new Map<string, PromptLintIssue['severity']>();
+  const placeholders = new Set<string>();
+  let buffer = '';
+  let line = 1;
+
+  const flush = () => {
+    if (!buffer) return;
+    segments.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  const pushInvalid = (value: string, message: string) => {
+    flush();
+    segments.push({ type: 'invalid', text: value });
+    issues.set(message, 'warning');
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if ((char === '{' && next === '{') || (char === '}' && next === '}')) {
+      buffer += char + next;
+      index += 2;
+      continue;
+    }
+
+    if (char === '}') {
+      pushInvalid(char, `Unmatched "}" on line ${line}.`);
+      index += 1;
+      continue;
+    }
+
+    if (char !== '{') {
+      if (char === '\n') line += 1;
+      buffer += char;
+      index += 1;
+      continue;
+    }
+
+    const closeIndex = text.indexOf('}', index + 1);
+    const nextOpenIndex = text.indexOf('{', index + 1);
+    if (
+      closeIndex === -1 ||
+      (nextOpenIndex !== -1 && nextOpenIndex < closeIndex)
+    ) {
+      pushInvalid(char, `Unclosed "{" on line ${line}.`);
+      index += 1;
+      continue;
+    }
+
+    const raw = text.slice(index, closeIndex + 1);
+    const name = raw.slice(1, -1).trim();
+    if (!PLACEHOLDER_NAME_PATTERN.test(name)) {
+      pushInvalid(
+        raw,
+        `Braces on line ${line} do not wrap a placeholder name. Escape literal braces as {{ and }}.`,
+      );
+    } else {
+      flush();
+      const known = knownNames.includes(name);
+      segments.push({ type: 'placeholder', text: raw, name, known });
+      placeholders.add(name);
+      if (!known) {
+        const suggestion = findSuggestion(name, knownNames);
+        issues.set(
+          suggestion
+            ? `Unknown placeholder {${name}}. Did you mean {${suggestion}}?`
+            : `Unknown placeholder {${name}}.`,
+          'warning',
+        );
+      }
+    }
+    line += raw.split('\n').length - 1;
+    index = closeIndex + 1;
+  }
+  flush();
+
+  for (const placeholder of contract) {
+    if (placeholder.required && !placeholders.has(placeholder.name)) {
+      issues.set(
+        `Missing required placeholder {${placeholder.name}}.`,
+        'error',
+      );
+    }
+  }
+
+  const issueList = [...issues].map(([message, severity]) => ({
+    severity,
+    message,
+  }));
+  issueList.sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1,
+  );
+
+  return {
+    segments,
+    placeholders: [...placeholders],
+    issues: issueList,
+    hasErrors: issueList.some((issue) => issue.severity === 'error'),
+  };
+}
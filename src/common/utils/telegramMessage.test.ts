@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+
+import { MessageActionType } from '../types';
+import { checkTelegramMessage, parseTelegramHtml } from './telegramMessage';
+
+describe('parseTelegramHtml', () => {
+  it('builds nested entities from supported tags', () => {
+    const result = parseTelegramHtml(
+      '<b>Hi <i>there</i></b> <a href="https://t.me">link</a>',
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.nodes).toEqual([
+      {
+        type: 'entity',
+        tag: 'bold',
+        href: undefined,
+        children: [
+          { type: 'text', text: 'Hi ' },
+          {
+            type: 'entity',
+            tag: 'italic',
+            href: undefined,
+            children: [{ type: 'text', text: 'there' }],
+          },
+        ],
+      },
+      { type: 'text', text: ' ' },
+      {
+        type: 'entity',
+        tag: 'link',
+        href: 'https://t.me',
+        children: [{ type: 'text', text: 'link' }],
+      },
+    ]);
+    expect(result.length).toBe(13);
+  });
+
+  it('decodes entities and counts decoded characters', () => {
+    const result = parseTelegramHtml('a &lt; b &amp;&amp; &#x1F600;');
+
+    expect(result.issues).toEqual([]);
+    expect(result.nodes).toEqual([{ type: 'text', text: 'a < b && 😀' }]);
+  });
+
+  it('keeps out-of-range character references as text', () => {
+    const result = parseTelegramHtml('&#x110000; &#55296;');
+
+    expect(result.nodes).toEqual([
+      { type: 'text', text: '&#x110000; &#55296;' },
+    ]);
+    expect(result.issues).toEqual([
+      'Invalid character reference "&#x110000;".',
+      'Invalid character reference "&#55296;".',
+    ]);
+  });
+
+  it('reports unescaped characters and unsupported entities', () => {
+    const result = parseTelegramHtml('1 > 0 & &nbsp;');
+
+    expect(result.issues).toEqual([
+      'Escape ">" as &gt; when it is not part of a tag.',
+      'Escape "&" as &amp; when it is not part of an entity.',
+      'Unsupported entity "&nbsp;". Only &lt; &gt; &amp; &quot; are allowed.',
+    ]);
+  });
+
+  it('renders spoiler spans and keeps other spans as plain text', () => {
+    const result = parseTelegramHtml(
+      '<span class="tg-spoiler">secret</span> <span>plain</span>',
+    );
+
+    expect(result.nodes).toEqual([
+      {
+        type: 'entity',
+        tag: 'spoiler',
+        href: undefined,
+        children: [{ type: 'text', text: 'secret' }],
+      },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'plain' },
+    ]);
+    expect(result.issues).toEqual([
+      'Only <span class="tg-spoiler"> is supported.',
+    ]);
+  });
+
+  it('reports unsupported, unexpected and unclosed tags', () => {
+    expect(parseTelegramHtml('<div>x</div>').issues).toEqual([
+      'Unsupported tag <div>.',
+    ]);
+    expect(parseTelegramHtml('x</b>').issues).toEqual([
+      'Unexpected closing tag </b>.',
+    ]);
+    expect(parseTelegramHtml('<b>x').issues).toEqual(['Unclosed tag <b>.']);
+  });
+});
+
+describe('checkTelegramMessage', () => {
+  it('uses the caption limit when media is attached', () => {
+    const text = 'a'.repeat(1025);
+
+    expect(checkTelegramMessage({ text, hasMedia: false }).isOverLimit).toBe(
+      false,
+    );
+    const check = checkTelegramMessage({ text, hasMedia: true });
+    expect(check.isOverLimit).toBe(true);
+    expect(check.warnings[0]).toBe(
+      'Caption is 1025 characters. Telegram rejects media captions over 1024.',
+    );
+  });
+
+  it('warns about markdown markers', () => {
+    const check = checkTelegramMessage({
+      text: 'Read **this** [here](https://t.me)',
+      hasMedia: false,
+    });
+
+    expect(check.warnings).toHaveLength(1);
+    expect(check.warnings[0]).toMatch(/^Markdown is not applied/);
+  });
+
+  it('checks the inline button', () => {
+    const check = checkTelegramMessage({
+      text: 'Hi',
+      hasMedia: false,
+      action: {
+        text: 'Open',
+        value: 'http://example.com',
+        type: MessageActionType.App,
+      },
+    });
+
+    expect(check.warnings).toEqual([
+      'Web app buttons only open https:// links.',
+    ]);
+  });
+});
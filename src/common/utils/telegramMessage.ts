@@ -0,0 +1,277 @@
+import { MessageActionType } from '@/common/types';
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+export const TELEGRAM_CAPTION_LIMIT = 1024;
+const TELEGRAM_CALLBACK_DATA_LIMIT = 64;
+const TELEGRAM_BUTTON_TEXT_LIMIT = 64;
+
+export type TelegramEntityTag =
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'strikethrough'
+  | 'spoiler'
+  | 'code'
+  | 'pre'
+  | 'link'
+  | 'blockquote';
+
+export type TelegramNode =
+  | { type: 'text'; text: string }
+  | {
+      type: 'entity';
+      tag: TelegramEntityTag;
+      href?: string;
+      children: TelegramNode[];
+    };
+
+export type TelegramFormattedText = {
+  nodes: TelegramNode[];
+  length: number;
+  issues: string[];
+};
+
+export type TelegramMessageCheck = {
+  formatted: TelegramFormattedText;
+  limit: number;
+  isOverLimit: boolean;
+  warnings: string[];
+};
+
+type TelegramActionInput = {
+  text: string;
+  value: string;
+  type: MessageActionType;
+};
+
+type OpenEntity = {
+  name: string;
+  tag: TelegramEntityTag | null;
+  href?: string;
+  children: TelegramNode[];
+};
+
+const TAG_ENTITIES: Record<string, TelegramEntityTag> = {
+  b: 'bold',
+  strong: 'bold',
+  i: 'italic',
+  em: 'italic',
+  u: 'underline',
+  ins: 'underline',
+  s: 'strikethrough',
+  strike: 'strikethrough',
+  del: 'strikethrough',
+  'tg-spoiler': 'spoiler',
+  code: 'code',
+  pre: 'pre',
+  a: 'link',
+  blockquote: 'blockquote',
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+};
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w-]*)([^<>]*)>/g;
+const ENTITY_PATTERN = /&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g;
+const HREF_PATTERN = /href\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+const SPOILER_CLASS_PATTERN = /class\s*=\s*(?:"tg-spoiler"|'tg-spoiler')/i;
+const MARKDOWN_PATTERN =
+  /\*\*[^*\n]+\*\*|__[^_\n]+__|~~[^~\n]+~~|\|\|[^|\n]+\|\||`[^`\n]+`|\[[^\]\n]+\]\([^)\s]+\)/;
+
+const MAX_CODE_POINT = 0x10ffff;
+
+function isValidCodePoint(value: number) {
+  return (
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= MAX_CODE_POINT &&
+    (value < 0xd800 || value > 0xdfff)
+  );
+}
+
+function decodeEntities(value: string, issues: Set<string>) {
+  return value.replace(ENTITY_PATTERN, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint =
+        entity.startsWith('#x') || entity.startsWith('#X')
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number(entity.slice(1));
+      if (!isValidCodePoint(codePoint)) {
+        issues.add(`Invalid character reference "${match}".`);
+        return match;
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    const decoded = NAMED_ENTITIES[entity.toLowerCase()];
+    if (decoded === undefined) {
+      issues.add(
+        `Unsupported entity "${match}". Only &lt; &gt; &amp; &quot; are allowed.`,
+      );
+      return match;
+    }
+    return decoded;
+  });
+}
+
+function collectTextIssues(value: string, issues: Set<string>) {
+  if (value.includes('<')) {
+    issues.add('Escape "<" as &lt; when it is not part of a tag.');
+  }
+  if (value.includes('>')) {
+    issues.add('Escape ">" as &gt; when it is not part of a tag.');
+  }
+  if (/&(?!#x[0-9a-fA-F]+;|#\d+;|[a-zA-Z]+;)/.test(value)) {
+    issues.add('Escape "&" as &amp; when it is not part of an entity.');
+  }
+}
+
+function closeEntity(entity: OpenEntity): TelegramNode[] {
+  if (!entity.tag) return entity.children;
+  return [
+    {
+      type: 'entity',
+      tag: entity.tag,
+      href: entity.href,
+      children: entity.children,
+    },
+  ];
+}
+
+function countLength(nodes: TelegramNode[]): number {
+  return nodes.reduce(
+    (sum, node) =>
+      sum +
+      (node.type === 'text' ? node.text.length : countLength(node.children)),
+    0,
+  );
+}
+
+export function parseTelegramHtml(text: string): TelegramFormattedText {
+  const issues = new Set<string>();
+  const root: TelegramNode[] = [];
+  const stack: OpenEntity[] = [];
+  const currentChildren = () =>
+    stack.length > 0 ? stack[stack.length - 1].children : root;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    collectTextIssues(value, issues);
+    currentChildren().push({
+      type: 'text',
+      text: decodeEntities(value, issues),
+    });
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [raw, closing, rawName, attributes] = match;
+    const index = match.index ?? 0;
+    pushText(text.slice(cursor, index));
+    cursor = index + raw.length;
+
+    const name = rawName.toLowerCase();
+    const tag =
+      name === 'span'
+        ? SPOILER_CLASS_PATTERN.test(attributes)
+          ? 'spoiler'
+          : null
+        : TAG_ENTITIES[name];
+    if (tag === undefined) {
+      issues.add(`Unsupported tag <${name}>.`);
+      currentChildren().push({ type: 'text', text: raw });
+      continue;
+    }
+
+    if (closing) {
+      const top = stack[stack.length - 1];
+      if (!top || top.name !== name) {
+        issues.add(`Unexpected closing tag </${name}>.`);
+        continue;
+      }
+      stack.pop();
+      currentChildren().push(...closeEntity(top));
+      continue;
+    }
+
+    if (!tag) {
+      issues.add('Only <span class="tg-spoiler"> is supported.');
+    }
+
+    let href: string | undefined;
+    if (tag === 'link') {
+      const hrefMatch = HREF_PATTERN.exec(attributes);
+      href = hrefMatch ? (hrefMatch[1] ?? hrefMatch[2]) : undefined;
+      if (!href) {
+        issues.add('Links need an href attribute.');
+      }
+    }
+
+    stack.push({ name, tag, href, children: [] });
+  }
+  pushText(text.slice(cursor));
+
+  while (stack.length > 0) {
+    const entity = stack.pop()!;
+    issues.add(`Unclosed tag <${entity.name}>.`);
+    currentChildren().push(...closeEntity(entity));
+  }
+
+  return { nodes: root, length: countLength(root), issues: [...issues] };
+}
+
+export function checkTelegramMessage({
+  text,
+  hasMedia,
+  action,
+}: {
+  text: string;
+  hasMedia: boolean;
+  action?: TelegramActionInput | null;
+}): TelegramMessageCheck {
+  const formatted = parseTelegramHtml(text);
+  const limit = hasMedia ? TELEGRAM_CAPTION_LIMIT : TELEGRAM_MESSAGE_LIMIT;
+  const isOverLimit = formatted.length > limit;
+  const warnings = [...formatted.issues];
+
+  if (MARKDOWN_PATTERN.test(text)) {
+    warnings.push(
+      'Markdown is not applied: messages are sent as HTML, so markers like ** or [text](url) show up as typed. Use tags such as <b> and <a href="…"> instead.',
+    );
+  }
+
+  if (isOverLimit) {
+    warnings.unshift(
+      hasMedia
+        ? `Caption is ${formatted.length} characters. Telegram rejects media captions over ${limit}.`
+        : `Message is ${formatted.length} characters. Telegram rejects messages over ${limit}.`,
+    );
+  }
+
+  if (action) {
+    const actionValue = action.value.trim();
+    if (action.text.trim().length > TELEGRAM_BUTTON_TEXT_LIMIT) {
+      warnings.push('Button text is too long and will be truncated.');
+    }
+    if (
+      action.type === MessageActionType.Callback &&
+      new TextEncoder().encode(actionValue).length >
+        TELEGRAM_CALLBACK_DATA_LIMIT
+    ) {
+      warnings.push(
+        `Callback data must be at most ${TELEGRAM_CALLBACK_DATA_LIMIT} bytes.`,
+      );
+    }
+    if (
+      action.type === MessageActionType.App &&
+      actionValue.startsWith('http://')
+    ) {
+      warnings.push('Web app buttons only open https:// links.');
+    }
+  }
+
+  return { formatted, limit, isOverLimit, warnings };
+}
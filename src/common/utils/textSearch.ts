@@ -0,0 +1,42 @@
+export type TextSearchSegment = {
+  text: string;
+  match: boolean;
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildSearchPattern(query: string) {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+  return new RegExp(escapeRegExp(trimmed).replace(/\s+/g, '\\s+'), 'gi');
+}
+
+export function hasTextMatch(text: string, query: string) {
+  const pattern = buildSearchPattern(query);
+  return pattern ? pattern.test(text) : false;
+}
+
+export function splitTextMatches(
+  text: string,
+  query: string,
+): TextSearchSegment[] {
+  const pattern = buildSearchPattern(query);
+  if (!pattern) return [{ text, match: false }];
+
+  const segments: TextSearchSegment[] = [];
+  let lastIndex = 0;
+  for (const found of text.matchAll(pattern)) {
+    const start = found.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), match: false });
+    }
+    segments.push({ text: found[0], match: true });
+    lastIndex = start + found[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+  return segments;
+}
@@ -0,0 +1,26 @@
+import { UserTagColor } from '@/common/types';
+
+type UserTagTone = 'accent' | 'success' | 'warning' | 'danger';
+
+const USER_TAG_COLOR_LABELS: Record<UserTagColor, string> = {
+  [UserTagColor.Blue]: 'Blue',
+  [UserTagColor.Green]: 'Green',
+  [UserTagColor.Yellow]: 'Yellow',
+  [UserTagColor.Red]: 'Red',
+};
+
+const USER_TAG_TONES: Record<UserTagColor, UserTagTone> = {
+  [UserTagColor.Blue]: 'accent',
+  [UserTagColor.Green]: 'success',
+  [UserTagColor.Yellow]: 'warning',
+  [UserTagColor.Red]: 'danger',
+};
+
+export const userTagColorOptions = Object.values(UserTagColor).map((value) => ({
+  label: USER_TAG_COLOR_LABELS[value],
+  value,
+}));
+
+export function getUserTagTone(color: UserTagColor) {
+  return USER_TAG_TONES[color] ?? 'accent';
+}
@@ -0,0 +1,42 @@
+import { diffTransferFields } from '@/app/transfer';
+import { Typography } from '@/atoms';
+import type { IAuditLog } from '@/common/types';
+
+import s from './AuditChanges.module.scss';
+
+type AuditChangesProps = Pick<IAuditLog, 'before' | 'after'>;
+
+export function AuditChanges({ before, after }: AuditChangesProps) {
+  const changes = diffTransferFields(before, after ?? {});
+
+  if (changes.length === 0) {
+    return (
+      <Typography variant="caption" tone="muted">
+        No field changes recorded.
+      </Typography>
+    );
+  }
+
+  return (
+    <div className={s.changes}>
+      <div className={s.change}>
+        <span />
+        <Typography variant="meta" tone="muted">
+          Before
+        </Typography>
+        <Typography variant="meta" tone="muted">
+          After
+        </Typography>
+      </div>
+      {changes.map((change) => (
+        <div key={change.field} className={s.change}>
+          <Typography variant="meta" tone="muted">
+            {change.field}
+          </Typography>
+          <pre className={s.before}>{change.before}</pre>
+          <pre className={s.after}>{change.after}</pre>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { Badge, Field, Typography } from '@/atoms';
+import type { ChatLlmResponse } from '@/common/types';
+import { type ChatLlmPhoto, formatPose } from '@/common/utils';
+
+import { HighlightedText } from '../highlighted-text/HighlightedText';
+import s from './ChatLlmResponse.module.scss';
+
+function formatList(values: string[] | undefined) {
+  return values && values.length > 0 ? values.join(', ') : null;
+}
+
+function formatBoolean(value: boolean | undefined) {
+  if (typeof value !== 'boolean') return null;
+  return value ? 'Yes' : 'No';
+}
+
+function ResponseField({
+  label,
+  value,
+}: {
+  label: string;
+  value: string | null | undefined;
+}) {
+  if (!value) return null;
+
+  return (
+    <Field label={label}>
+      <Typography variant="body" className={s.content}>
+        {value}
+      </Typography>
+    </Field>
+  );
+}
+
+export function ChatLlmPhotoDetails({ photo }: { photo: ChatLlmPhoto }) {
+  return (
+    <div className={s.photoDetails}>
+      <Typography variant="caption" tone="muted">
+        Photo details
+      </Typography>
+      <div className={s.responseGrid}>
+        <ResponseField
+          label="Pose"
+          value={photo.pose ? formatPose(photo.pose) : null}
+        />
+        <ResponseField label="Anal" value={formatBoolean(photo.anal)} />
+        <ResponseField label="Clothes" value={formatList(photo.clothes)} />
+        <ResponseField
+          label="Environment"
+          value={formatList(photo.environment)}
+        />
+        <ResponseField label="Face expression" value={photo.face_expression} />
+        <ResponseField label="Action" value={photo.action} />
+      </div>
+    </div>
+  );
+}
+
+export function ChatLlmResponseContent({
+  response,
+  highlight,
+}: {
+  response: ChatLlmResponse;
+  highlight?: string;
+}) {
+  const photo = response.photo;
+
+  return (
+    <div className={s.response}>
+      <Typography variant="body" className={s.content}>
+        {response.text ? (
+          <HighlightedText text={response.text} query={highlight} />
+        ) : (
+          '—'
+        )}
+      </Typography>
+
+      {response.subscription ||
+      response.gift ||
+      response.next_stage ||
+      photo ? (
+        <div className={s.responseBadges}>
+          {response.subscription ? (
+            <Badge tone="accent" outline>
+              Subscription
+            </Badge>
+          ) : null}
+          {response.gift ? (
+            <Badge tone="accent" outline>
+              Gift
+            </Badge>
+          ) : null}
+          {response.next_stage ? (
+            <Badge tone="success" outline>
+              Next stage
+            </Badge>
+          ) : null}
+          {photo ? (
+            <Badge tone="warning" outline>
+              Photo
+            </Badge>
+          ) : null}
+        </div>
+      ) : null}
+
+      {photo ? <ChatLlmPhotoDetails photo={photo} /> : null}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { splitTextMatches } from '@/common/utils';
+
+import s from './HighlightedText.module.scss';
+
+type HighlightedTextProps = {
+  text: string;
+  query?: string;
+};
+
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  if (!query?.trim()) return <>{text}</>;
+
+  return (
+    <>
+      {splitTextMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className={s.mark}>
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+import type { ReactNode } from 'react';
+
+import {
+  countTransferPreview,
+  isTransferEntrySelectable,
+  type TransferPreviewAction,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import { Badge, Button, Checkbox, Modal, Typography } from '@/atoms';
+
+import s from './ImportPreviewModal.module.scss';
+
+type ImportPreviewModalProps = {
+  open: boolean;
+  title: ReactNode;
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+  onSelectedKeysChange: (keys: Set<string>) => void;
+  isApplying?: boolean;
+  onApply: () => void;
+  onClose: () => void;
+};
+
+const actionLabels: Record<TransferPreviewAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  delete: 'Delete',
+  conflict: 'Conflict',
+};
+
+const actionTones: Record<
+  TransferPreviewAction,
+  'accent' | 'success' | 'warning' | 'danger'
+> = {
+  create: 'success',
+  update: 'accent',
+  unchanged: 'accent',
+  delete: 'danger',
+  conflict: 'warning',
+};
+
+export function ImportPreviewModal({
+  open,
+  title,
+  entries,
+  selectedKeys,
+  onSelectedKeysChange,
+  isApplying = false,
+  onApply,
+  onClose,
+}: ImportPreviewModalProps) {
+  const counts = countTransferPreview(entries);
+  const selectableEntries = entries.filter(isTransferEntrySelectable);
+  const isAllSelected =
+    selectableEntries.length > 0 &&
+    selectableEntries.every((entry) => selectedKeys.has(entry.key));
+
+  const toggleEntry = (key: string, checked: boolean) => {
+    const next = new Set(selectedKeys);
+    if (checked) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    onSelectedKeysChange(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    onSelectedKeysChange(
+      checked
+        ? new Set(selectableEntries.map((entry) => entry.key))
+        : new Set(),
+    );
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={title}
+      onClose={onClose}
+      className={s.modal}
+      actions={
+        <div className={s.actions}>
+          <Button
+            variant="secondary"
+            size="md"
+            onClick={onClose}
+            disabled={isApplying}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            size="md"
+            onClick={onApply}
+            loading={isApplying}
+            disabled={isApplying || selectedKeys.size === 0}
+          >
+            Apply {selectedKeys.size} change
+            {selectedKeys.size === 1 ? '' : 's'}
+          </Button>
+        </div>
+      }
+    >
+      <div className={s.summary}>
+        {(Object.keys(actionLabels) as TransferPreviewAction[])
+          .filter((action) => counts[action] > 0)
+          .map((action) => (
+            <Badge key={action} tone={actionTones[action]} outline>
+              {actionLabels[action]}: {counts[action]}
+            </Badge>
+          ))}
+      </div>
+      {selectableEntries.length > 0 ? (
+        <Checkbox
+          label="Select all changes"
+          checked={isAllSelected}
+          onChange={(event) => toggleAll(event.target.checked)}
+          disabled={isApplying}
+        />
+      ) : (
+        <Typography variant="body" tone="muted">
+          Nothing to apply: the import file matches the current data.
+        </Typography>
+      )}
+      <div className={s.list}>
+        {entries.map((entry) => (
+          <div key={entry.key} className={s.entry}>
+            <div className={s.entryHeader}>
+              {isTransferEntrySelectable(entry) ? (
+                <Checkbox
+                  aria-label={`Apply ${entry.label}`}
+                  checked={selectedKeys.has(entry.key)}
+                  onChange={(event) =>
+                    toggleEntry(entry.key, event.target.checked)
+                  }
+                  disabled={isApplying}
+                />
+              ) : null}
+              <Typography variant="body" className={s.entryLabel}>
+                {entry.label}
+              </Typography>
+              <Badge tone={actionTones[entry.action]}>
+                {actionLabels[entry.action]}
+              </Badge>
+            </div>
+            {entry.note ? (
+              <Typography variant="caption" tone="muted">
+                {entry.note}
+              </Typography>
+            ) : null}
+            {entry.action !== 'unchanged' && entry.changes.length > 0 ? (
+              <div className={s.changes}>
+                {entry.changes.map((change) => (
+                  <div key={change.field} className={s.change}>
+                    <Typography variant="meta" tone="muted">
+                      {change.field}
+                    </Typography>
+                    <pre className={s.before}>{change.before}</pre>
+                    <pre className={s.after}>{change.after}</pre>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+}
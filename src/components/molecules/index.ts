@@ -1,7 +1,15 @@
+export { AuditChanges } from './audit-changes/AuditChanges';
+export {
+  ChatLlmPhotoDetails,
+  ChatLlmResponseContent,
+} from './chat-llm-response/ChatLlmResponse';
 export { ConfirmModal } from './confirm-modal/ConfirmModal';
 export { DownloadFileButton } from './download-file-button/DownloadFileButton';
 export { Drawer } from './drawer/Drawer';
 export { FileUpload } from './file-upload/FileUpload';
+export { HighlightedText } from './highlighted-text/HighlightedText';
+export { ImportPreviewModal } from './import-preview-modal/ImportPreviewModal';
 export { LoraSelect } from './lora-select/LoraSelect';
 export type { SearchSelectOption } from './search-select/SearchSelect';
 export { SearchSelect } from './search-select/SearchSelect';
+export { TelegramMessagePreview } from './telegram-message-preview/TelegramMessagePreview';
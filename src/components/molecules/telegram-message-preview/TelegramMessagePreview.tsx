@@ -0,0 +1,191 @@
+import { type ReactNode, useMemo } from 'react';
+
+import { ExternalLinkIcon, LayersIcon } from '@/assets/icons';
+import { Alert, Typography } from '@/atoms';
+import { MessageActionType } from '@/common/types';
+import { checkTelegramMessage, cn, type TelegramNode } from '@/common/utils';
+
+import s from './TelegramMessagePreview.module.scss';
+
+type TelegramMessagePreviewMedia = {
+  type: 'image' | 'video';
+  url: string | null;
+  name?: string;
+};
+
+type TelegramMessagePreviewAction = {
+  text: string;
+  value: string;
+  type: MessageActionType;
+};
+
+type TelegramMessagePreviewProps = {
+  text: string;
+  media?: TelegramMessagePreviewMedia[];
+  action?: TelegramMessagePreviewAction | null;
+  className?: string;
+};
+
+function renderNodes(nodes: TelegramNode[], keyPrefix = ''): ReactNode[] {
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    if (node.type === 'text') return node.text;
+
+    const children = renderNodes(node.children, `${key}-`);
+    switch (node.tag) {
+      case 'bold':
+        return <strong key={key}>{children}</strong>;
+      case 'italic':
+        return <em key={key}>{children}</em>;
+      case 'underline':
+        return <u key={key}>{children}</u>;
+      case 'strikethrough':
+        return <s key={key}>{children}</s>;
+      case 'spoiler':
+        return (
+          <span key={key} className={s.spoiler}>
+            {children}
+          </span>
+        );
+      case 'code':
+        return (
+          <code key={key} className={s.code}>
+            {children}
+          </code>
+        );
+      case 'pre':
+        return (
+          <pre key={key} className={s.pre}>
+            {children}
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={key} className={s.blockquote}>
+            {children}
+          </blockquote>
+        );
+      case 'link':
+        return (
+          <a
+            key={key}
+            className={s.link}
+            href={node.href}
+            target="_blank"
+            rel="noreferrer"
+          >
+            {children}
+          </a>
+        );
+      default:
+        return children;
+    }
+  });
+}
+
+export function TelegramMessagePreview({
+  text,
+  media = [],
+  action,
+  className,
+}: TelegramMessagePreviewProps) {
+  const check = useMemo(
+    () =>
+      checkTelegramMessage({
+        text,
+        hasMedia: media.length > 0,
+        action,
+      }),
+    [text, media.length, action],
+  );
+  const content = useMemo(
+    () => renderNodes(check.formatted.nodes),
+    [check.formatted.nodes],
+  );
+  const hasText = text.trim().length > 0;
+  const actionText = action?.text.trim();
+
+  return (
+    <div className={cn(s.root, [className])}>
+      <div className={s.chat}>
+        <div className={s.bubble}>
+          {media.map((item, index) =>
+            item.url ? (
+              item.type === 'video' ? (
+                <video
+                  key={`${item.type}-${index}`}
+                  className={s.media}
+                  src={item.url}
+                  muted
+                  preload="metadata"
+                />
+              ) : (
+                <img
+                  key={`${item.type}-${index}`}
+                  className={s.media}
+                  src={item.url}
+                  alt={item.name ?? ''}
+                  loading="lazy"
+                />
+              )
+            ) : (
+              <div key={`${item.type}-${index}`} className={s.mediaPlaceholder}>
+                <Typography variant="caption" tone="muted">
+                  {item.type === 'video' ? 'Video' : 'Image'}
+                </Typography>
+              </div>
+            ),
+          )}
+          {hasText ? (
+            <div className={s.text}>{content}</div>
+          ) : (
+            <div className={cn(s.text, [s.placeholder])}>
+              Message text will appear here.
+            </div>
+          )}
+        </div>
+        {action && actionText ? (
+          <div className={s.keyboard}>
+            <span className={s.button}>
+              {actionText}
+              {action.type === MessageActionType.Url ? (
+                <ExternalLinkIcon className={s.buttonIcon} />
+              ) : null}
+              {action.type === MessageActionType.App ? (
+                <LayersIcon className={s.buttonIcon} />
+              ) : null}
+            </span>
+          </div>
+        ) : null}
+      </div>
+
+      <div className={s.meta}>
+        <Typography variant="caption" tone="muted">
+          HTML formatting only
+        </Typography>
+        <Typography
+          variant="caption"
+          tone={check.isOverLimit ? 'danger' : 'muted'}
+        >
+          {`${check.formatted.length.toLocaleString()} / ${check.limit.toLocaleString()} ${
+            media.length > 0 ? 'caption characters' : 'characters'
+          }`}
+        </Typography>
+      </div>
+
+      {check.warnings.length > 0 ? (
+        <Alert
+          tone={check.isOverLimit ? 'danger' : 'warning'}
+          title="Telegram may reject or garble this message"
+          description={
+            <ul className={s.warnings}>
+              {check.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          }
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import { useAuditLogs } from '@/app/audit';
+import {
+  Alert,
+  Badge,
+  Button,
+  Section,
+  Skeleton,
+  Stack,
+  Typography,
+} from '@/atoms';
+import { AuditAction, type AuditEntityType } from '@/common/types';
+import { formatAuditAction, formatAuditAdmin } from '@/common/utils';
+import { AuditChanges } from '@/components/molecules';
+
+import s from './ActivityPanel.module.scss';
+
+type ActivityPanelProps = {
+  entityType: AuditEntityType;
+  entityId: string | null | undefined;
+};
+
+const ACTIVITY_LIMIT = 10;
+
+const actionTones = {
+  [AuditAction.Create]: 'success',
+  [AuditAction.Update]: 'accent',
+  [AuditAction.Delete]: 'danger',
+} as const;
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatDate(value: string) {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+export function ActivityPanel({ entityType, entityId }: ActivityPanelProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const { data, error, isLoading } = useAuditLogs(
+    {
+      entityType,
+      entityId: entityId ?? undefined,
+      order: 'DESC',
+      skip: 0,
+      take: ACTIVITY_LIMIT,
+    },
+    Boolean(entityId),
+  );
+  const entries = data?.data ?? [];
+  const total = data?.total ?? 0;
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Section
+      title="Activity"
+      description="Changes made to this record through the admin panel."
+      actions={
+        entityId && total > 0 ? (
+          <Button
+            as={Link}
+            to={`/audit?entityType=${entityType}&entityId=${entityId}`}
+            variant="ghost"
+            size="sm"
+          >
+            View all ({total.toLocaleString()})
+          </Button>
+        ) : null
+      }
+    >
+      {error ? (
+        <Alert
+          title="Unable to load activity"
+          description={
+            error instanceof Error ? error.message : 'Please try again.'
+          }
+          tone="warning"
+        />
+      ) : null}
+
+      {isLoading && !data ? (
+        <Stack gap="8px">
+          {Array.from({ length: 3 }, (_, index) => (
+            <Skeleton key={`activity-${index}`} width="100%" height={36} />
+          ))}
+        </Stack>
+      ) : null}
+
+      {data && entries.length === 0 ? (
+        <Typography variant="caption" tone="muted">
+          No changes recorded yet.
+        </Typography>
+      ) : null}
+
+      {entries.length > 0 ? (
+        <div className={s.list}>
+          {entries.map((entry) => {
+            const isExpanded = expandedIds.has(entry.id);
+            return (
+              <div key={entry.id} className={s.entry}>
+                <div className={s.entryHeader}>
+                  <Badge tone={actionTones[entry.action]} outline>
+                    {formatAuditAction(entry.action)}
+                  </Badge>
+                  <Typography variant="body">
+                    {formatAuditAdmin(entry.admin)}
+                  </Typography>
+                  <Typography
+                    variant="caption"
+                    tone="muted"
+                    className={s.entryDate}
+                  >
+                    {formatDate(entry.createdAt)}
+                  </Typography>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => toggleExpanded(entry.id)}
+                    aria-expanded={isExpanded}
+                  >
+                    {isExpanded ? 'Hide changes' : 'Show changes'}
+                  </Button>
+                </div>
+                {isExpanded ? (
+                  <AuditChanges before={entry.before} after={entry.after} />
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </Section>
+  );
+}
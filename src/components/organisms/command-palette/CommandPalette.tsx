@@ -0,0 +1,346 @@
+import { MagnifyingGlassIcon } from '@radix-ui/react-icons';
+import type { JSX, KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+
+import { usePermissions } from '@/app/auth';
+import { type GlobalSearchResults, useGlobalSearch } from '@/app/search';
+import {
+  DollarSignIcon,
+  GiftIcon,
+  ImageIcon,
+  LogsIcon,
+  MessageSquareQuoteIcon,
+  PlusIcon,
+  RadioIcon,
+  SendIcon,
+  UserIcon,
+  UsersRoundIcon,
+} from '@/assets/icons';
+import { Button, Input, Modal, Typography } from '@/atoms';
+import type { ITgUser } from '@/common/types';
+import {
+  capitalize,
+  cn,
+  formatCharacterType,
+  formatRoleplayStage,
+} from '@/common/utils';
+
+import { navItems } from '../navigation/navItems';
+import s from './CommandPalette.module.scss';
+
+type PaletteItem = {
+  id: string;
+  group: string;
+  label: string;
+  meta?: string;
+  to: string;
+  icon: JSX.Element;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_SEARCH_LENGTH = 2;
+const MAX_MATCHED_COMMANDS = 6;
+const SHORTCUT_LABEL = /Mac|iPhone|iPad/.test(navigator.userAgent)
+  ? '⌘K'
+  : 'Ctrl+K';
+
+const ENTITY_ROUTES = [
+  '/characters',
+  '/users',
+  '/chats',
+  '/prompts',
+  '/gifts',
+  '/plans',
+];
+
+const ACTION_COMMANDS: Omit<PaletteItem, 'id' | 'group'>[] = [
+  { label: 'New broadcast', to: '/broadcast', icon: <RadioIcon /> },
+  { label: 'Broadcast history', to: '/broadcast/history', icon: <LogsIcon /> },
+  { label: 'New prompt', to: '/prompts/new', icon: <PlusIcon /> },
+  { label: 'New pose', to: '/poses/new', icon: <PlusIcon /> },
+  {
+    label: 'New custom character',
+    to: '/custom-characters/new',
+    icon: <PlusIcon />,
+  },
+  { label: 'Generate image', to: '/generations/new', icon: <ImageIcon /> },
+];
+
+const COMMANDS: PaletteItem[] = [
+  ...navItems.map((item) => ({
+    id: `nav-${item.to}`,
+    group: 'Commands',
+    label: `Go to ${item.label}`,
+    to: item.to,
+    icon: item.icon,
+  })),
+  ...ACTION_COMMANDS.map((command) => ({
+    ...command,
+    id: `action-${command.to}`,
+    group: 'Commands',
+  })),
+];
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+function formatUserName(user: ITgUser) {
+  const fullName = `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim();
+  return fullName || user.username || user.id;
+}
+
+function buildEntityItems(results: GlobalSearchResults): PaletteItem[] {
+  return [
+    ...results.characters.map((character) => ({
+      id: `character-${character.id}`,
+      group: 'Characters',
+      label: character.name,
+      meta: character.isCustom
+        ? 'Custom character'
+        : formatCharacterType(character.type),
+      to: character.isCustom
+        ? `/custom-characters/${character.id}`
+        : `/characters/${character.id}`,
+      icon: <UsersRoundIcon />,
+    })),
+    ...results.users.map((user) => ({
+      id: `user-${user.id}`,
+      group: 'Users',
+      label: formatUserName(user),
+      meta: user.username ? `@${user.username}` : user.id,
+      to: `/users/${user.id}`,
+      icon: <UserIcon />,
+    })),
+    ...results.chats.map((chat) => ({
+      id: `chat-${chat.id}`,
+      group: 'Chats',
+      label: `${chat.character.name} and ${formatUserName(chat.user)}`,
+      meta: formatRoleplayStage(chat.stage),
+      to: `/chats/${chat.id}`,
+      icon: <SendIcon />,
+    })),
+    ...results.users.map((user) => ({
+      id: `user-chats-${user.id}`,
+      group: 'Chats',
+      label: `Chats of ${formatUserName(user)}`,
+      meta: user.username ? `@${user.username}` : undefined,
+      to: `/chats?userId=${user.id}`,
+      icon: <SendIcon />,
+    })),
+    ...results.prompts.map((prompt) => ({
+      id: `prompt-${prompt.id}`,
+      group: 'Prompts',
+      label: prompt.name,
+      meta: `${capitalize(prompt.type)} · v${prompt.version}`,
+      to: `/prompts/${prompt.id}`,
+      icon: <MessageSquareQuoteIcon />,
+    })),
+    ...results.gifts.map((gift) => ({
+      id: `gift-${gift.id}`,
+      group: 'Gifts',
+      label: gift.name,
+      meta: gift.isActive ? 'Active' : 'Inactive',
+      to: `/gifts/${gift.id}`,
+      icon: <GiftIcon />,
+    })),
+    ...results.plans.map((plan) => ({
+      id: `plan-${plan.id}`,
+      group: 'Plans',
+      label: plan.code,
+      meta: capitalize(plan.type),
+      to: `/plans?search=${encodeURIComponent(plan.code)}`,
+      icon: <DollarSignIcon />,
+    })),
+  ];
+}
+
+function getItemElementId(index: number) {
+  return `command-palette-item-${index}`;
+}
+
+function CommandPaletteContent({ onClose }: { onClose: () => void }) {
+  const navigate = useNavigate();
+  const { canAccess } = usePermissions();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const normalizedQuery = query.trim();
+  const debouncedQuery = useDebouncedValue(normalizedQuery, SEARCH_DEBOUNCE_MS);
+  const canSearchEntities = ENTITY_ROUTES.some((route) => canAccess(route));
+  const isSearchEnabled =
+    canSearchEntities && debouncedQuery.length >= MIN_SEARCH_LENGTH;
+  const { data, isFetching } = useGlobalSearch(debouncedQuery, isSearchEnabled);
+
+  const items = useMemo(() => {
+    const lowerQuery = normalizedQuery.toLowerCase();
+    const commands = COMMANDS.filter(
+      (command) =>
+        canAccess(command.to) &&
+        (!lowerQuery || command.label.toLowerCase().includes(lowerQuery)),
+    );
+    const entities =
+      isSearchEnabled && data
+        ? buildEntityItems(data).filter((item) => canAccess(item.to))
+        : [];
+    return [
+      ...(lowerQuery ? commands.slice(0, MAX_MATCHED_COMMANDS) : commands),
+      ...entities,
+    ];
+  }, [canAccess, data, isSearchEnabled, normalizedQuery]);
+
+  const selectedIndex = Math.min(activeIndex, items.length - 1);
+
+  const openItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    navigate(item.to);
+  };
+
+  const moveSelection = (offset: number) => {
+    if (items.length === 0) return;
+    const nextIndex = (selectedIndex + offset + items.length) % items.length;
+    setActiveIndex(nextIndex);
+    document
+      .getElementById(getItemElementId(nextIndex))
+      ?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      moveSelection(1);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      moveSelection(-1);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      openItem(items[selectedIndex]);
+    }
+  };
+
+  const isWaitingForResults =
+    isSearchEnabled && (isFetching || debouncedQuery !== normalizedQuery);
+
+  return (
+    <div className={s.content}>
+      <Input
+        autoFocus
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        iconLeft={<MagnifyingGlassIcon />}
+        placeholder="Search characters, users, chats, prompts, gifts, plans..."
+        aria-label="Search"
+        aria-controls="command-palette-results"
+        aria-activedescendant={
+          selectedIndex >= 0 ? getItemElementId(selectedIndex) : undefined
+        }
+        fullWidth
+      />
+
+      <div
+        id="command-palette-results"
+        className={s.results}
+        role="listbox"
+        aria-label="Results"
+      >
+        {items.map((item, index) => (
+          <div key={item.id} className={s.itemWrap}>
+            {index === 0 || items[index - 1].group !== item.group ? (
+              <Typography
+                variant="caption"
+                tone="muted"
+                className={s.groupLabel}
+              >
+                {item.group}
+              </Typography>
+            ) : null}
+            <button
+              id={getItemElementId(index)}
+              type="button"
+              role="option"
+              aria-selected={index === selectedIndex}
+              className={cn(s.item, [], {
+                [s.itemActive]: index === selectedIndex,
+              })}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => openItem(item)}
+            >
+              <span className={s.itemIcon}>{item.icon}</span>
+              <span className={s.itemLabel}>{item.label}</span>
+              {item.meta ? (
+                <Typography variant="caption" tone="muted">
+                  {item.meta}
+                </Typography>
+              ) : null}
+            </button>
+          </div>
+        ))}
+
+        {items.length === 0 && !isWaitingForResults ? (
+          <Typography variant="body" tone="muted" className={s.empty}>
+            No matches found.
+          </Typography>
+        ) : null}
+      </div>
+
+      <div className={s.footer}>
+        <Typography variant="caption" tone="muted">
+          ↑↓ to navigate · Enter to open · Esc to close
+        </Typography>
+        {isWaitingForResults ? (
+          <Typography variant="caption" tone="muted">
+            Searching...
+          </Typography>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const close = useCallback(() => setOpen(false), []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        fullWidth
+        iconLeft={<MagnifyingGlassIcon />}
+        className={s.trigger}
+        onClick={() => setOpen(true)}
+      >
+        Search
+        <kbd className={s.shortcut}>{SHORTCUT_LABEL}</kbd>
+      </Button>
+
+      <Modal open={open} onClose={close} className={s.palette}>
+        {open ? <CommandPaletteContent onClose={close} /> : null}
+      </Modal>
+    </>
+  );
+}
@@ -1,2 +1,4 @@
+export { ActivityPanel } from './activity-panel/ActivityPanel';
+export { CommandPalette } from './command-palette/CommandPalette';
 export { Navigation } from './navigation/Navigation';
 export { UserCard } from './user-card/UserCard';
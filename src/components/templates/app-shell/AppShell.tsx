@@ -3,7 +3,7 @@ import Logo from '@/assets/logo/logo.png';
 import XLogo from '@/assets/logo/logo-x.png';
 import { Typography } from '@/atoms';
 import { capitalize, cn } from '@/common/utils';
-import { Navigation, UserCard } from '@/organisms';
+import { CommandPalette, Navigation, UserCard } from '@/organisms';
 
 const logo  = import.meta.env.VITE_IS_X === 'true' ? XLogo : Logo;
 
@@ -34,6 +34,7 @@ export function AppShell({ children, className }: AppShellProps) {
           </Typography>
         </div>
 
+        <CommandPalette />
         <Navigation />
         <div className={s.sidebarFooter}>
           <UserCard name={name} role={capitalize(user?.role ?? 'admin')} />
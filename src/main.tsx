@@ -2,7 +2,11 @@ import '@radix-ui/themes/styles.css';
 import './index.scss';
 
 import { Theme } from '@radix-ui/themes';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import {
+  MutationCache,
+  QueryClient,
+  QueryClientProvider,
+} from '@tanstack/react-query';
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
@@ -11,7 +15,13 @@ import { App } from '@/App';
 import { AuthProvider } from '@/app/auth';
 import { Toaster } from '@/app/toast';
 
-const queryClient = new QueryClient();
+const queryClient: QueryClient = new QueryClient({
+  mutationCache: new MutationCache({
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['audit'] });
+    },
+  }),
+});
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -3,6 +3,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 
 import { useAdmins, useInviteAdmin, useUpdateAdminStatus } from '@/app/admins';
+import { usePermissions } from '@/app/auth';
 import { UserCogIcon } from '@/assets/icons';
 import {
   Alert,
@@ -21,7 +22,7 @@ import {
   Table,
   Typography,
 } from '@/atoms';
-import { AdminStatus, type IAdmin, UserRole } from '@/common/types';
+import { AdminStatus, type IAdmin, Permission, UserRole } from '@/common/types';
 import { capitalize } from '@/common/utils';
 import { AppShell } from '@/components/templates';
 
@@ -170,6 +171,9 @@ export function AdminsPage() {
   const { data, error, isLoading, refetch } = useAdmins(queryParams);
   const updateStatusMutation = useUpdateAdminStatus();
   const inviteMutation = useInviteAdmin();
+  const { can } = usePermissions();
+  const canInviteAdmins = can(Permission.AdminsInvite);
+  const canManageAdmins = can(Permission.AdminsManage);
   const [toggleTarget, setToggleTarget] = useState<string | null>(null);
   const [isInviteOpen, setIsInviteOpen] = useState(false);
   const [inviteValues, setInviteValues] = useState({
@@ -327,7 +331,7 @@ export function AdminsPage() {
               {formatDate(admin.updatedAt)}
             </Typography>
           ),
-          actions: (
+          actions: canManageAdmins ? (
             <div className={s.actionsCell}>
               <Button
                 size="sm"
@@ -344,10 +348,10 @@ export function AdminsPage() {
                   : 'Activate'}
               </Button>
             </div>
-          ),
+          ) : null,
         };
       }),
-    [admins, toggleTarget, updateStatusMutation.isPending],
+    [admins, toggleTarget, updateStatusMutation.isPending, canManageAdmins],
   );
 
   const skeletonRows = useMemo(
@@ -391,13 +395,15 @@ export function AdminsPage() {
           <div className={s.titleBlock}>
             <Typography variant="h2">Admins</Typography>
           </div>
-          <Button
-            variant="secondary"
-            iconLeft={<UserCogIcon />}
-            onClick={openInviteModal}
-          >
-            Invite admin
-          </Button>
+          {canInviteAdmins ? (
+            <Button
+              variant="secondary"
+              iconLeft={<UserCogIcon />}
+              onClick={openInviteModal}
+            >
+              Invite admin
+            </Button>
+          ) : null}
         </div>
 
         <div className={s.filters}>
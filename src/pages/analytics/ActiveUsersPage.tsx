@@ -1,3 +1,4 @@
+import type { ReactNode } from 'react';
 import { useCallback, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 
@@ -11,6 +12,7 @@ import {
   isValidMonthId,
   type ActiveUsersScenario,
   type ActiveUserStats,
+  type MetricFormatOptions,
   type MonthId,
   useAnalyticsActiveUsers,
 } from '@/app/analytics';
@@ -34,10 +36,20 @@ import { formatCharacterType } from '@/common/utils';
 import { AppShell } from '@/components/templates';
 
 import s from './ActiveUsersPage.module.scss';
+import { getMonthDateRange } from './components/annotations';
+import { AnnotationsSection } from './components/AnnotationsSection';
+import { ComparisonControl } from './components/ComparisonControl';
+import { MetricDelta } from './components/MetricDelta';
+import {
+  type ComparisonMode,
+  getComparisonPeriod,
+  isComparisonMode,
+} from './components/periodComparison';
 
 const MONTH_OPTION_COUNT = 36;
 const KPI_GRID_COLUMNS = 6;
 const TABLE_MIN_WIDTH = 1040;
+const COUNT_FORMAT: MetricFormatOptions = { format: 'count' };
 
 type MetricKey = keyof ActiveUserStats;
 type RatioBase = 'users' | 'chats';
@@ -59,6 +71,7 @@ type MetricDisplay = {
 type MetricCardProps = {
   label: string;
   display: MetricDisplay;
+  delta?: ReactNode;
 };
 
 const METRIC_DEFINITIONS: MetricDefinition[] = [
@@ -172,7 +185,7 @@ function buildMetricDisplay(
   return { value, meta, searchText: `${value} ${meta}` };
 }
 
-function MetricCard({ label, display }: MetricCardProps) {
+function MetricCard({ label, display, delta }: MetricCardProps) {
   return (
     <Card className={s.kpiCard} padding="md">
       <Typography variant="caption" className={s.metricLabel}>
@@ -186,11 +199,12 @@ function MetricCard({ label, display }: MetricCardProps) {
           {display.meta}
         </Typography>
       ) : null}
+      {delta}
     </Card>
   );
 }
 
-function buildMetricCell(display: MetricDisplay) {
+function buildMetricCell(display: MetricDisplay, delta?: ReactNode) {
   return (
     <div className={s.tableCell}>
       <Typography variant="body">{display.value}</Typography>
@@ -199,6 +213,7 @@ function buildMetricCell(display: MetricDisplay) {
           {display.meta}
         </Typography>
       ) : null}
+      {delta}
     </div>
   );
 }
@@ -223,6 +238,8 @@ function buildScenarioLabel(scenarioId: string, scenario?: ActiveUsersScenario)
 type QueryUpdate = {
   month?: string;
   q?: string;
+  compare?: string;
+  compareStart?: string;
 };
 
 export function ActiveUsersPage() {
@@ -231,9 +248,29 @@ export function ActiveUsersPage() {
   const rawQuery = searchParams.get('q') ?? '';
   const defaultMonth = useMemo(() => getLastFullMonthId(), []);
   const month = isValidMonthId(rawMonth) ? rawMonth : defaultMonth;
+  const annotationRange = useMemo(
+    () => getMonthDateRange(month, month),
+    [month],
+  );
   const searchQuery = rawQuery.trim();
+  const rawCompare = searchParams.get('compare');
+  const rawCompareStart = searchParams.get('compareStart');
+  const comparisonMode: ComparisonMode = isComparisonMode(rawCompare)
+    ? rawCompare
+    : 'none';
+  const comparisonMonth =
+    getComparisonPeriod(
+      'month',
+      comparisonMode,
+      { start: month, end: month },
+      { start: rawCompareStart, end: null },
+    )?.start ?? null;
 
   const { data, error, isLoading } = useAnalyticsActiveUsers({ month });
+  const { data: comparisonData } = useAnalyticsActiveUsers(
+    { month: comparisonMonth ?? month },
+    { enabled: Boolean(comparisonMonth) },
+  );
 
   const updateSearchParams = useCallback(
     (update: QueryUpdate, replace = false) => {
@@ -252,6 +289,22 @@ export function ActiveUsersPage() {
         }
       }
 
+      if (update.compare !== undefined) {
+        if (update.compare && update.compare !== 'none') {
+          next.set('compare', update.compare);
+        } else {
+          next.delete('compare');
+        }
+      }
+
+      if (update.compareStart !== undefined) {
+        if (update.compareStart) {
+          next.set('compareStart', update.compareStart);
+        } else {
+          next.delete('compareStart');
+        }
+      }
+
       setSearchParams(next, { replace });
     },
     [searchParams, setSearchParams],
@@ -262,6 +315,20 @@ export function ActiveUsersPage() {
     updateSearchParams({ month }, true);
   }, [month, rawMonth, updateSearchParams]);
 
+  const handleComparisonChange = useCallback(
+    (update: { mode?: ComparisonMode; start?: string }) => {
+      if (!update.mode) {
+        updateSearchParams({ compareStart: update.start });
+        return;
+      }
+      updateSearchParams({
+        compare: update.mode,
+        compareStart: update.mode === 'custom' ? addMonths(month, -1) : '',
+      });
+    },
+    [month, updateSearchParams],
+  );
+
   const monthOptions = useMemo(
     () => buildMonthOptions(month, defaultMonth),
     [defaultMonth, month],
@@ -273,6 +340,13 @@ export function ActiveUsersPage() {
   );
 
   const totals = useMemo(() => normalizeStats(data?.data.totals), [data]);
+  const comparisonTotals = useMemo(
+    () =>
+      comparisonMonth && comparisonData
+        ? normalizeStats(comparisonData.data.totals)
+        : null,
+    [comparisonData, comparisonMonth],
+  );
 
   const totalCards = useMemo(
     () =>
@@ -281,9 +355,19 @@ export function ActiveUsersPage() {
           key={metric.key}
           label={metric.label}
           display={buildMetricDisplay(totals, metric)}
+          delta={
+            comparisonMonth ? (
+              <MetricDelta
+                metric={COUNT_FORMAT}
+                current={totals[metric.key]}
+                previous={comparisonTotals?.[metric.key]}
+                suffix={`vs ${formatMonthLabel(comparisonMonth, 'short')}`}
+              />
+            ) : null
+          }
         />
       )),
-    [totals],
+    [comparisonMonth, comparisonTotals, totals],
   );
 
   const tableColumns = useMemo(
@@ -303,6 +387,12 @@ export function ActiveUsersPage() {
     return Object.entries(data?.data.byScenario ?? {})
       .map(([scenarioId, rawStats]) => {
         const stats = normalizeStats(rawStats);
+        const rawComparisonStats = comparisonMonth
+          ? comparisonData?.data.byScenario[scenarioId]
+          : undefined;
+        const comparisonStats = rawComparisonStats
+          ? normalizeStats(rawComparisonStats)
+          : null;
         const scenarioLabel = buildScenarioLabel(
           scenarioId,
           scenarioById.get(scenarioId),
@@ -334,7 +424,16 @@ export function ActiveUsersPage() {
           ...Object.fromEntries(
             METRIC_DEFINITIONS.map((metric) => [
               metric.key,
-              buildMetricCell(metricDisplays[metric.key]),
+              buildMetricCell(
+                metricDisplays[metric.key],
+                comparisonMonth ? (
+                  <MetricDelta
+                    metric={COUNT_FORMAT}
+                    current={stats[metric.key]}
+                    previous={comparisonStats?.[metric.key]}
+                  />
+                ) : null,
+              ),
             ]),
           ),
         };
@@ -347,7 +446,13 @@ export function ActiveUsersPage() {
 
         return left.scenarioValue.localeCompare(right.scenarioValue);
       });
-  }, [data?.data.byScenario, scenarioById, searchQuery]);
+  }, [
+    comparisonData?.data.byScenario,
+    comparisonMonth,
+    data?.data.byScenario,
+    scenarioById,
+    searchQuery,
+  ]);
 
   const tableSkeletonRows = useMemo(
     () =>
@@ -416,6 +521,17 @@ export function ActiveUsersPage() {
                   />
                 </Field>
               </FormRow>
+              <FormRow columns={2}>
+                <ComparisonControl
+                  granularity="month"
+                  mode={comparisonMode}
+                  customStart={rawCompareStart ?? ''}
+                  customEnd=""
+                  onChange={handleComparisonChange}
+                  singlePeriod
+                  fieldClassName={s.filterField}
+                />
+              </FormRow>
             </div>
           </Section>
 
@@ -457,6 +573,12 @@ export function ActiveUsersPage() {
               />
             )}
           </Section>
+
+          <AnnotationsSection
+            from={annotationRange.from}
+            to={annotationRange.to}
+            description="Releases, campaigns and incidents during the selected month."
+          />
         </Stack>
       </Container>
     </AppShell>
@@ -0,0 +1,435 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import {
+  type AnalyticsAlert,
+  type AnalyticsAlertRule,
+  type AnalyticsAlertRuleDto,
+  type AnalyticsAlertStatus,
+  formatMetricDeltaPercent,
+  formatMetricValue,
+  useAnalyticsAlertRules,
+  useAnalyticsAlerts,
+  useCreateAnalyticsAlertRule,
+  useDeleteAnalyticsAlertRule,
+  useUpdateAnalyticsAlert,
+  useUpdateAnalyticsAlertRule,
+} from '@/app/analytics';
+import { PlusIcon } from '@/assets/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  EmptyState,
+  Field,
+  Select,
+  Skeleton,
+  Stack,
+  Switch,
+  Table,
+  Tabs,
+  Typography,
+} from '@/atoms';
+import { ConfirmModal } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import s from './AnalyticsAlertsPage.module.scss';
+import { AlertRuleModal } from './components/AlertRuleModal';
+import {
+  ALERT_STATUS_OPTIONS,
+  formatAlertCondition,
+  formatAlertPeriod,
+  getAlertChartLink,
+  getAlertMetric,
+} from './components/alertRules';
+
+type AlertsTab = 'inbox' | 'rules';
+
+type RuleModalState = {
+  open: boolean;
+  rule: AnalyticsAlertRule | null;
+};
+
+const TABS: { value: AlertsTab; label: string }[] = [
+  { value: 'inbox', label: 'Inbox' },
+  { value: 'rules', label: 'Rules' },
+];
+
+const STATUS_FILTER_OPTIONS = [
+  { value: 'all', label: 'All statuses' },
+  ...ALERT_STATUS_OPTIONS,
+];
+
+const STATUS_TONES: Record<
+  AnalyticsAlertStatus,
+  'danger' | 'warning' | 'success'
+> = {
+  open: 'danger',
+  acknowledged: 'warning',
+  resolved: 'success',
+};
+
+const ALERTS_LIMIT = 200;
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatDate(value: string | null) {
+  if (!value) return '—';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '—';
+  return dateTimeFormatter.format(parsed);
+}
+
+function formatStatus(status: AnalyticsAlertStatus) {
+  return (
+    ALERT_STATUS_OPTIONS.find((option) => option.value === status)?.label ??
+    status
+  );
+}
+
+function isAlertStatus(value: string | null): value is AnalyticsAlertStatus {
+  return ALERT_STATUS_OPTIONS.some((option) => option.value === value);
+}
+
+export function AnalyticsAlertsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab: AlertsTab =
+    searchParams.get('tab') === 'rules' ? 'rules' : 'inbox';
+  const statusParam = searchParams.get('status');
+  const status = isAlertStatus(statusParam)
+    ? statusParam
+    : statusParam === 'all'
+      ? null
+      : 'open';
+
+  const alertsQuery = useAnalyticsAlerts(
+    { status: status ?? undefined, take: ALERTS_LIMIT },
+    { enabled: tab === 'inbox' },
+  );
+  const rulesQuery = useAnalyticsAlertRules();
+  const updateAlertMutation = useUpdateAnalyticsAlert();
+  const createRuleMutation = useCreateAnalyticsAlertRule();
+  const updateRuleMutation = useUpdateAnalyticsAlertRule();
+  const deleteRuleMutation = useDeleteAnalyticsAlertRule();
+
+  const [ruleModal, setRuleModal] = useState<RuleModalState>({
+    open: false,
+    rule: null,
+  });
+  const [deleteTarget, setDeleteTarget] = useState<AnalyticsAlertRule | null>(
+    null,
+  );
+
+  const alerts = alertsQuery.data ?? [];
+  const rules = rulesQuery.data ?? [];
+
+  const updateParams = (patch: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        next.delete(key);
+      } else {
+        next.set(key, value);
+      }
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleSubmitRule = async (payload: AnalyticsAlertRuleDto) => {
+    if (ruleModal.rule) {
+      await updateRuleMutation.mutateAsync({ id: ruleModal.rule.id, payload });
+    } else {
+      await createRuleMutation.mutateAsync(payload);
+    }
+    setRuleModal({ open: false, rule: null });
+  };
+
+  const handleDeleteRule = async () => {
+    if (!deleteTarget) return;
+    await deleteRuleMutation.mutateAsync(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const alertColumns = [
+    { key: 'triggered', label: 'Triggered' },
+    { key: 'rule', label: 'Rule' },
+    { key: 'period', label: 'Period' },
+    { key: 'value', label: 'Value' },
+    { key: 'status', label: 'Status' },
+    { key: 'actions', label: '' },
+  ];
+
+  const renderAlertValue = (alert: AnalyticsAlert) => {
+    const metric = getAlertMetric(alert.rule.source, alert.rule.metric);
+    if (!metric) return String(alert.value);
+    const deviation = formatMetricDeltaPercent(alert.value, alert.expected);
+    return (
+      <div className={s.stackCell}>
+        <Typography variant="body">
+          {formatMetricValue(metric, alert.value, 'table')}
+        </Typography>
+        {alert.expected !== null ? (
+          <Typography variant="caption" tone="muted">
+            Expected {formatMetricValue(metric, alert.expected, 'table')}
+            {deviation ? ` (${deviation})` : ''}
+          </Typography>
+        ) : null}
+      </div>
+    );
+  };
+
+  const alertRows = alerts.map((alert) => {
+    const metric = getAlertMetric(alert.rule.source, alert.rule.metric);
+    const isUpdating =
+      updateAlertMutation.isPending &&
+      updateAlertMutation.variables?.id === alert.id;
+
+    return {
+      triggered: (
+        <Typography variant="caption" tone="muted">
+          {formatDate(alert.triggeredAt)}
+        </Typography>
+      ),
+      rule: (
+        <div className={s.stackCell}>
+          <Typography variant="body">{alert.rule.name}</Typography>
+          <Typography variant="caption" tone="muted">
+            {metric?.label ?? alert.rule.metric} ·{' '}
+            {formatAlertCondition(alert.rule)}
+          </Typography>
+        </div>
+      ),
+      period: formatAlertPeriod(alert.rule.source, alert.period),
+      value: renderAlertValue(alert),
+      status: (
+        <div className={s.stackCell}>
+          <Badge tone={STATUS_TONES[alert.status]} outline>
+            {formatStatus(alert.status)}
+          </Badge>
+          {alert.acknowledgedBy ? (
+            <Typography variant="caption" tone="muted">
+              {alert.acknowledgedBy.email}
+            </Typography>
+          ) : null}
+        </div>
+      ),
+      actions: (
+        <div className={s.actionsCell}>
+          <Button
+            as={Link}
+            to={getAlertChartLink(alert)}
+            size="sm"
+            variant="ghost"
+          >
+            View chart
+          </Button>
+          {alert.status === 'open' ? (
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={isUpdating}
+              onClick={() =>
+                updateAlertMutation.mutate({
+                  id: alert.id,
+                  status: 'acknowledged',
+                })
+              }
+            >
+              Acknowledge
+            </Button>
+          ) : null}
+          {alert.status !== 'resolved' ? (
+            <Button
+              size="sm"
+              variant="secondary"
+              disabled={isUpdating}
+              onClick={() =>
+                updateAlertMutation.mutate({ id: alert.id, status: 'resolved' })
+              }
+            >
+              Resolve
+            </Button>
+          ) : null}
+        </div>
+      ),
+    };
+  });
+
+  const ruleColumns = [
+    { key: 'name', label: 'Rule' },
+    { key: 'condition', label: 'Condition' },
+    { key: 'lastTriggered', label: 'Last triggered' },
+    { key: 'enabled', label: 'Enabled' },
+    { key: 'actions', label: '' },
+  ];
+
+  const ruleRows = rules.map((rule) => {
+    const metric = getAlertMetric(rule.source, rule.metric);
+    return {
+      name: (
+        <div className={s.stackCell}>
+          <Typography variant="body">{rule.name}</Typography>
+          <Typography variant="caption" tone="muted">
+            {metric?.label ?? rule.metric} ·{' '}
+            {rule.source === 'daily' ? 'Daily' : 'Monthly'}
+          </Typography>
+        </div>
+      ),
+      condition: formatAlertCondition(rule),
+      lastTriggered: (
+        <Typography variant="caption" tone="muted">
+          {formatDate(rule.lastTriggeredAt)}
+        </Typography>
+      ),
+      enabled: (
+        <Switch
+          checked={rule.enabled}
+          disabled={updateRuleMutation.isPending}
+          onChange={(event) =>
+            updateRuleMutation.mutate({
+              id: rule.id,
+              payload: { enabled: event.target.checked },
+            })
+          }
+          aria-label={`Toggle ${rule.name}`}
+        />
+      ),
+      actions: (
+        <div className={s.actionsCell}>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => setRuleModal({ open: true, rule })}
+          >
+            Edit
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setDeleteTarget(rule)}
+          >
+            Delete
+          </Button>
+        </div>
+      ),
+    };
+  });
+
+  const activeQuery = tab === 'inbox' ? alertsQuery : rulesQuery;
+  const loadError = activeQuery.error;
+
+  return (
+    <AppShell>
+      <Container className={s.page} size="wide">
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Alerts</Typography>
+            <Typography variant="caption" tone="muted">
+              Thresholds and anomaly detection on daily and technical metrics.
+            </Typography>
+          </div>
+          <div className={s.headerActions}>
+            <Button as={Link} to="/" size="sm" variant="ghost">
+              Back to analytics
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              iconLeft={<PlusIcon />}
+              onClick={() => setRuleModal({ open: true, rule: null })}
+            >
+              New rule
+            </Button>
+          </div>
+        </div>
+
+        <div className={s.toolbar}>
+          <Tabs
+            items={TABS}
+            value={tab}
+            onChange={(value) =>
+              updateParams({ tab: value === 'rules' ? 'rules' : null })
+            }
+          />
+          {tab === 'inbox' ? (
+            <Field label="Status" className={s.filterField}>
+              <Select
+                options={STATUS_FILTER_OPTIONS}
+                value={status ?? 'all'}
+                onChange={(value) =>
+                  updateParams({ status: value === 'open' ? null : value })
+                }
+                size="sm"
+                fullWidth
+              />
+            </Field>
+          ) : null}
+        </div>
+
+        {loadError ? (
+          <Alert
+            tone="danger"
+            title={
+              tab === 'inbox' ? 'Unable to load alerts' : 'Unable to load rules'
+            }
+            description={
+              loadError instanceof Error
+                ? loadError.message
+                : 'Please try again.'
+            }
+          />
+        ) : activeQuery.isLoading ? (
+          <Stack gap="8px">
+            {Array.from({ length: 5 }, (_, index) => (
+              <Skeleton key={index} width="100%" height={40} />
+            ))}
+          </Stack>
+        ) : tab === 'inbox' ? (
+          alertRows.length === 0 ? (
+            <EmptyState
+              title={status === 'open' ? 'No open alerts' : 'No alerts'}
+              description={
+                rules.length === 0
+                  ? 'Create a rule to start watching a metric.'
+                  : 'Nothing has fired for the selected status.'
+              }
+            />
+          ) : (
+            <Table columns={alertColumns} rows={alertRows} scrollable />
+          )
+        ) : ruleRows.length === 0 ? (
+          <EmptyState
+            title="No alert rules"
+            description="Watch a metric with a fixed threshold or a rolling baseline."
+          />
+        ) : (
+          <Table columns={ruleColumns} rows={ruleRows} scrollable />
+        )}
+      </Container>
+
+      <AlertRuleModal
+        key={ruleModal.rule?.id ?? 'new'}
+        open={ruleModal.open}
+        rule={ruleModal.rule}
+        isSaving={createRuleMutation.isPending || updateRuleMutation.isPending}
+        onClose={() => setRuleModal({ open: false, rule: null })}
+        onSubmit={(payload) => void handleSubmitRule(payload)}
+      />
+
+      <ConfirmModal
+        open={Boolean(deleteTarget)}
+        title="Delete alert rule"
+        description={`Delete "${deleteTarget?.name ?? ''}"? Alerts it already raised stay in the inbox.`}
+        confirmLabel="Delete"
+        tone="danger"
+        isConfirming={deleteRuleMutation.isPending}
+        onConfirm={() => void handleDeleteRule()}
+        onClose={() => setDeleteTarget(null)}
+      />
+    </AppShell>
+  );
+}
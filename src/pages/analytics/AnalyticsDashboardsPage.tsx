@@ -0,0 +1,503 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+import {
+  type AnalyticsDashboard,
+  type AnalyticsDashboardTile,
+  useAnalyticsDashboard,
+  useAnalyticsDashboards,
+  useCreateAnalyticsDashboard,
+  useDeleteAnalyticsDashboard,
+  useUpdateAnalyticsDashboard,
+} from '@/app/analytics';
+import { useAuth } from '@/app/auth';
+import { notifyError, notifySuccess } from '@/app/toast';
+import { CopyIcon, PlusIcon } from '@/assets/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  Checkbox,
+  Container,
+  EmptyState,
+  Field,
+  Input,
+  Modal,
+  RadioGroup,
+  Select,
+  Skeleton,
+  Stack,
+  Typography,
+} from '@/atoms';
+import { ConfirmModal } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import s from './AnalyticsDashboardsPage.module.scss';
+import {
+  buildDashboardTemplateTiles,
+  type DashboardTemplateKey,
+  getDashboardTemplates,
+} from './components/dashboardTemplates';
+import { DashboardTile } from './components/DashboardTile';
+import { DashboardTileModal } from './components/DashboardTileModal';
+
+type DashboardDraft = {
+  dashboardId: string;
+  name: string;
+  tiles: AnalyticsDashboardTile[];
+  isDefault: boolean;
+};
+
+type TileModalState = {
+  open: boolean;
+  index: number | null;
+};
+
+const DASHBOARDS_PATH = '/analytics/dashboards';
+
+function formatOwner(owner: AnalyticsDashboard['owner']) {
+  if (!owner) return 'Unknown admin';
+  const name = [owner.firstName, owner.lastName].filter(Boolean).join(' ');
+  return name || owner.email;
+}
+
+export function AnalyticsDashboardsPage() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const dashboardsQuery = useAnalyticsDashboards();
+  const dashboardQuery = useAnalyticsDashboard(id ?? null);
+  const createMutation = useCreateAnalyticsDashboard();
+  const updateMutation = useUpdateAnalyticsDashboard();
+  const deleteMutation = useDeleteAnalyticsDashboard();
+
+  const [editDraft, setDraft] = useState<DashboardDraft | null>(null);
+  const [tileModal, setTileModal] = useState<TileModalState>({
+    open: false,
+    index: null,
+  });
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newTemplate, setNewTemplate] =
+    useState<DashboardTemplateKey>('growth');
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const dashboards = dashboardsQuery.data ?? [];
+  const dashboard = dashboardQuery.data ?? null;
+  const isOwner = Boolean(dashboard && dashboard.owner?.id === user?.id);
+  const draft =
+    editDraft && editDraft.dashboardId === dashboard?.id ? editDraft : null;
+  const isEditing = draft !== null;
+  const tiles = draft?.tiles ?? dashboard?.tiles ?? [];
+  const templates = getDashboardTemplates();
+  const dashboardOptions = dashboards.map((item) => ({
+    value: item.id,
+    label: item.isDefault ? `${item.name} (default)` : item.name,
+  }));
+  if (dashboard && !dashboards.some((item) => item.id === dashboard.id)) {
+    dashboardOptions.push({
+      value: dashboard.id,
+      label: `${dashboard.name} (shared)`,
+    });
+  }
+
+  useEffect(() => {
+    if (id || !dashboardsQuery.data?.length) return;
+    const target =
+      dashboardsQuery.data.find((item) => item.isDefault) ??
+      dashboardsQuery.data[0];
+    navigate(`${DASHBOARDS_PATH}/${target.id}`, { replace: true });
+  }, [id, dashboardsQuery.data, navigate]);
+
+  const openCreate = () => {
+    setNewName('');
+    setNewTemplate(dashboards.length > 0 ? 'blank' : 'growth');
+    setIsCreateOpen(true);
+  };
+
+  const handleCreate = async () => {
+    const template = templates.find((item) => item.key === newTemplate);
+    const name = newName.trim() || template?.label || 'New dashboard';
+    const created = await createMutation.mutateAsync({
+      name,
+      tiles: buildDashboardTemplateTiles(newTemplate),
+      isDefault: dashboards.length === 0,
+    });
+    setIsCreateOpen(false);
+    navigate(`${DASHBOARDS_PATH}/${created.id}`);
+  };
+
+  const handleSaveCopy = async () => {
+    if (!dashboard) return;
+    const created = await createMutation.mutateAsync({
+      name: `${dashboard.name} (copy)`,
+      tiles: dashboard.tiles,
+    });
+    navigate(`${DASHBOARDS_PATH}/${created.id}`);
+  };
+
+  const startEditing = () => {
+    if (!dashboard) return;
+    setDraft({
+      dashboardId: dashboard.id,
+      name: dashboard.name,
+      tiles: dashboard.tiles,
+      isDefault: dashboard.isDefault,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!dashboard || !draft) return;
+    await updateMutation.mutateAsync({
+      id: dashboard.id,
+      payload: {
+        name: draft.name.trim() || dashboard.name,
+        tiles: draft.tiles,
+        isDefault: draft.isDefault,
+      },
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = async () => {
+    if (!dashboard) return;
+    await deleteMutation.mutateAsync(dashboard.id);
+    setIsDeleteOpen(false);
+    setDraft(null);
+    navigate(DASHBOARDS_PATH, { replace: true });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      notifySuccess('Link copied.', 'Link copied.');
+    } catch (error) {
+      notifyError(error, 'Unable to copy the link.');
+    }
+  };
+
+  const updateTiles = (
+    updater: (prev: AnalyticsDashboardTile[]) => AnalyticsDashboardTile[],
+  ) => {
+    setDraft((prev) => (prev ? { ...prev, tiles: updater(prev.tiles) } : prev));
+  };
+
+  const moveTile = (index: number, delta: number) => {
+    updateTiles((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleTileSubmit = (tile: AnalyticsDashboardTile) => {
+    const { index } = tileModal;
+    updateTiles((prev) =>
+      index === null
+        ? [...prev, tile]
+        : prev.map((item, itemIndex) => (itemIndex === index ? tile : item)),
+    );
+    setTileModal({ open: false, index: null });
+  };
+
+  const editingTile =
+    tileModal.index !== null ? (tiles[tileModal.index] ?? null) : null;
+  const isLoadingDashboards = dashboardsQuery.isLoading;
+  const isLoadingDashboard = Boolean(id) && dashboardQuery.isLoading;
+  const loadError = dashboardsQuery.error ?? dashboardQuery.error;
+
+  return (
+    <AppShell>
+      <Container className={s.page} size="wide">
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Dashboards</Typography>
+            <Typography variant="caption" tone="muted">
+              Custom views built from monthly and daily analytics metrics.
+            </Typography>
+          </div>
+          <div className={s.headerActions}>
+            {dashboardOptions.length > 0 ? (
+              <Select
+                options={dashboardOptions}
+                value={dashboard?.id ?? id ?? ''}
+                onChange={(value) => navigate(`${DASHBOARDS_PATH}/${value}`)}
+                placeholder="Select dashboard"
+                size="sm"
+                disabled={isEditing}
+              />
+            ) : null}
+            <Button
+              size="sm"
+              variant="secondary"
+              iconLeft={<PlusIcon />}
+              onClick={openCreate}
+              disabled={isEditing}
+            >
+              New dashboard
+            </Button>
+          </div>
+        </div>
+
+        {loadError ? (
+          <Alert
+            tone="danger"
+            title="Unable to load dashboards"
+            description={
+              loadError instanceof Error
+                ? loadError.message
+                : 'Please try again.'
+            }
+          />
+        ) : null}
+
+        {isLoadingDashboards || isLoadingDashboard ? (
+          <Stack gap="16px">
+            <Skeleton height={48} />
+            <Skeleton height={260} />
+          </Stack>
+        ) : !id && dashboards.length === 0 ? (
+          <div className={s.templates}>
+            <EmptyState
+              title="No dashboards yet"
+              description="Start from a template and adjust it to your team."
+            />
+            <div className={s.templateList}>
+              {templates.map((template) => (
+                <button
+                  key={template.key}
+                  type="button"
+                  className={s.templateCard}
+                  onClick={() => {
+                    setNewName('');
+                    setNewTemplate(template.key);
+                    setIsCreateOpen(true);
+                  }}
+                >
+                  <Typography variant="h3" as="span">
+                    {template.label}
+                  </Typography>
+                  <Typography variant="caption" tone="muted" as="span">
+                    {template.description}
+                  </Typography>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : dashboard ? (
+          <Stack gap="16px">
+            <div className={s.toolbar}>
+              {isEditing ? (
+                <div className={s.nameField}>
+                  <Field label="Name" labelFor="dashboard-name">
+                    <Input
+                      id="dashboard-name"
+                      value={draft.name}
+                      onChange={(event) =>
+                        setDraft({ ...draft, name: event.target.value })
+                      }
+                      fullWidth
+                    />
+                  </Field>
+                  <Checkbox
+                    label="Open this dashboard by default"
+                    checked={draft.isDefault}
+                    onChange={(event) =>
+                      setDraft({ ...draft, isDefault: event.target.checked })
+                    }
+                  />
+                </div>
+              ) : (
+                <div className={s.titleBlock}>
+                  <div className={s.nameRow}>
+                    <Typography variant="h3" as="h3">
+                      {dashboard.name}
+                    </Typography>
+                    {dashboard.isDefault && isOwner ? (
+                      <Badge tone="accent" outline>
+                        Default
+                      </Badge>
+                    ) : null}
+                  </div>
+                  {!isOwner ? (
+                    <Typography variant="caption" tone="muted">
+                      {`Shared by ${formatOwner(dashboard.owner)}. Save a copy to change it.`}
+                    </Typography>
+                  ) : null}
+                </div>
+              )}
+              <div className={s.toolbarActions}>
+                {isEditing ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      iconLeft={<PlusIcon />}
+                      onClick={() => setTileModal({ open: true, index: null })}
+                    >
+                      Add tile
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDraft(null)}
+                      disabled={updateMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => void handleSave()}
+                      loading={updateMutation.isPending}
+                    >
+                      Save
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      iconLeft={<CopyIcon />}
+                      onClick={() => void handleCopyLink()}
+                    >
+                      Copy link
+                    </Button>
+                    {isOwner ? (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setIsDeleteOpen(true)}
+                        >
+                          Delete
+                        </Button>
+                        <Button size="sm" onClick={startEditing}>
+                          Edit
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => void handleSaveCopy()}
+                        loading={createMutation.isPending}
+                      >
+                        Save a copy
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+
+            {tiles.length === 0 ? (
+              <EmptyState
+                title="This dashboard is empty"
+                description={
+                  isOwner
+                    ? 'Edit the dashboard and add KPI, chart or table tiles.'
+                    : 'The owner has not added any tiles yet.'
+                }
+              />
+            ) : (
+              <div className={s.grid}>
+                {tiles.map((tile, index) => (
+                  <DashboardTile
+                    key={tile.id}
+                    tile={tile}
+                    editing={isEditing}
+                    canMoveBack={index > 0}
+                    canMoveForward={index < tiles.length - 1}
+                    onEdit={() => setTileModal({ open: true, index })}
+                    onRemove={() =>
+                      updateTiles((prev) =>
+                        prev.filter((_, itemIndex) => itemIndex !== index),
+                      )
+                    }
+                    onMove={(delta) => moveTile(index, delta)}
+                  />
+                ))}
+              </div>
+            )}
+          </Stack>
+        ) : id && !dashboardQuery.error ? (
+          <EmptyState
+            title="Dashboard not found"
+            description="It may have been deleted by its owner."
+          />
+        ) : null}
+      </Container>
+
+      <DashboardTileModal
+        key={editingTile?.id ?? 'new'}
+        open={tileModal.open}
+        tile={editingTile}
+        onClose={() => setTileModal({ open: false, index: null })}
+        onSubmit={handleTileSubmit}
+      />
+
+      <Modal
+        open={isCreateOpen}
+        title="New dashboard"
+        onClose={() => setIsCreateOpen(false)}
+        actions={
+          <div className={s.modalActions}>
+            <Button
+              variant="secondary"
+              onClick={() => setIsCreateOpen(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => void handleCreate()}
+              loading={createMutation.isPending}
+            >
+              Create
+            </Button>
+          </div>
+        }
+      >
+        <Stack gap="16px">
+          <Field label="Name" labelFor="new-dashboard-name">
+            <Input
+              id="new-dashboard-name"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder={
+                templates.find((item) => item.key === newTemplate)?.label
+              }
+              fullWidth
+            />
+          </Field>
+          <Field label="Template">
+            <RadioGroup
+              name="new-dashboard-template"
+              value={newTemplate}
+              options={templates.map((template) => ({
+                value: template.key,
+                label: `${template.label} — ${template.description}`,
+              }))}
+              onChange={(value) =>
+                setNewTemplate(value as DashboardTemplateKey)
+              }
+            />
+          </Field>
+        </Stack>
+      </Modal>
+
+      <ConfirmModal
+        open={isDeleteOpen}
+        title="Delete dashboard"
+        description={`Delete "${dashboard?.name ?? ''}"? Shared links to it will stop working.`}
+        confirmLabel="Delete"
+        tone="danger"
+        isConfirming={deleteMutation.isPending}
+        onConfirm={() => void handleDelete()}
+        onClose={() => setIsDeleteOpen(false)}
+      />
+    </AppShell>
+  );
+}
@@ -2,6 +2,8 @@ import {
   AnimatedAxis,
   AnimatedGrid,
   AnimatedLineSeries,
+  type GlyphProps,
+  GlyphSeries,
   Tooltip as ChartTooltip,
   XYChart,
 } from '@visx/xychart';
@@ -11,14 +13,18 @@ import { Link, useSearchParams } from 'react-router-dom';
 
 import {
   addMonths,
+  type AnalyticsAlert,
+  type AnalyticsDailyMetricKey,
   buildAnalyticsCsvFileName,
   compareMonthIds,
+  type DailyAnalyticsItem,
   type DeeplinkAnalyticsItem,
   downloadCsvFile,
   formatCount,
-  formatMetricDelta,
   formatMetricValue,
   formatMonthLabel,
+  getDailyMetricDefinition,
+  getDailyMetricOptions,
   getLastFullMonthId,
   getMetricDefinition,
   getMetricOptions,
@@ -31,6 +37,8 @@ import {
   normalizeRange,
   type PaymentsConversionGroupBy,
   type PaymentsRevenueGroupBy,
+  useAnalyticsAlerts,
+  useAnalyticsAnnotations,
   useAnalyticsDaily,
   useAnalyticsDailyByCountry,
   useAnalyticsDailyCountryTop,
@@ -46,6 +54,7 @@ import { notifyError, notifySuccess } from '@/app/toast';
 import { DownloadIcon } from '@/assets/icons';
 import {
   Alert,
+  Badge,
   Button,
   ButtonGroup,
   Card,
@@ -70,6 +79,31 @@ import { cn } from '@/common/utils';
 import { AppShell } from '@/components/templates';
 
 import s from './AnalyticsPage.module.scss';
+import {
+  formatAlertCondition,
+  groupAlertsByPeriod,
+} from './components/alertRules';
+import {
+  getMonthDateRange,
+  groupAnnotationsByDay,
+  groupAnnotationsByMonth,
+} from './components/annotations';
+import { AnnotationsSection } from './components/AnnotationsSection';
+import {
+  ChartAnnotationMarkers,
+  ChartAnnotationsTooltip,
+} from './components/ChartAnnotations';
+import { ComparisonControl } from './components/ComparisonControl';
+import { MetricDelta } from './components/MetricDelta';
+import {
+  type ComparisonGranularity,
+  type ComparisonMode,
+  getComparisonLabel,
+  getComparisonOffset,
+  getComparisonPeriod,
+  isComparisonMode,
+  shiftComparisonId,
+} from './components/periodComparison';
 
 type QueryUpdate = {
   section?: string;
@@ -89,6 +123,9 @@ type QueryUpdate = {
   countryMetric?: string;
   countryOrder?: string;
   countryLimit?: string;
+  compare?: string;
+  compareStart?: string;
+  compareEnd?: string;
 };
 
 type ChartDatum = {
@@ -159,6 +196,8 @@ type DeeplinkViewItem = DeeplinkAnalyticsItem & {
 };
 
 const MAX_RANGE_MONTHS = 24;
+const COMPARISON_SERIES_KEY = 'comparison';
+const ALERT_SERIES_KEY = 'alerts';
 const DEFAULT_DEEPLINK_RANGE_DAYS = 30;
 const DEFAULT_DAILY_RANGE_DAYS = 30;
 const DEEPLINK_TEXT_FILTER_DEBOUNCE_MS = 400;
@@ -323,6 +362,23 @@ function formatDayLabel(value: string, variant: 'short' | 'long' = 'short') {
   return new Intl.DateTimeFormat(undefined, options).format(date);
 }
 
+function renderAlertGlyph({ key, x, y }: GlyphProps<object>) {
+  return <circle key={key} cx={x} cy={y} r={5} className={s.alertMarker} />;
+}
+
+function renderAlertTooltip(alerts: AnalyticsAlert[] | undefined) {
+  if (!alerts?.length) return null;
+  return (
+    <div className={s.chartTooltipAlerts}>
+      {alerts.map((alert) => (
+        <Typography key={alert.id} variant="caption" tone="danger" as="div">
+          {alert.rule.name}: {formatAlertCondition(alert.rule)}
+        </Typography>
+      ))}
+    </div>
+  );
+}
+
 function formatCountryLabel(value: string | null | undefined) {
   const normalized = value?.trim();
   if (!normalized || normalized.toLowerCase() === 'unknown') return 'Unknown';
@@ -583,6 +639,9 @@ export function AnalyticsPage() {
   const rawCountryMetric = searchParams.get('countryMetric');
   const rawCountryOrder = searchParams.get('countryOrder');
   const rawCountryLimit = searchParams.get('countryLimit');
+  const rawCompare = searchParams.get('compare');
+  const rawCompareStart = searchParams.get('compareStart');
+  const rawCompareEnd = searchParams.get('compareEnd');
 
   const [conversionGroupBy, setConversionGroupBy] =
     useState<PaymentsConversionGroupBy>('character');
@@ -673,6 +732,9 @@ export function AnalyticsPage() {
   const deeplinkCharacterId = rawCharacterId ?? '';
   const deeplinkScenarioId = rawScenarioId ?? '';
   const deeplinkSort = isValidDeeplinkSort(rawSort) ? rawSort : 'total';
+  const comparisonMode: ComparisonMode = isComparisonMode(rawCompare)
+    ? rawCompare
+    : 'none';
 
   const updateSearchParams = useCallback(
     (update: QueryUpdate, replace = false) => {
@@ -814,6 +876,30 @@ export function AnalyticsPage() {
         }
       }
 
+      if (update.compare !== undefined) {
+        if (update.compare && update.compare !== 'none') {
+          next.set('compare', update.compare);
+        } else {
+          next.delete('compare');
+        }
+      }
+
+      if (update.compareStart !== undefined) {
+        if (update.compareStart) {
+          next.set('compareStart', update.compareStart);
+        } else {
+          next.delete('compareStart');
+        }
+      }
+
+      if (update.compareEnd !== undefined) {
+        if (update.compareEnd) {
+          next.set('compareEnd', update.compareEnd);
+        } else {
+          next.delete('compareEnd');
+        }
+      }
+
       setSearchParams(next, { replace });
     },
     [searchParams, setSearchParams],
@@ -937,6 +1023,80 @@ export function AnalyticsPage() {
     [startMonth, endMonth],
   );
 
+  const monthlyComparison = useMemo(
+    () =>
+      getComparisonPeriod(
+        'month',
+        comparisonMode,
+        { start: startMonth, end: endMonth },
+        { start: rawCompareStart, end: rawCompareEnd },
+      ),
+    [comparisonMode, startMonth, endMonth, rawCompareStart, rawCompareEnd],
+  );
+  const monthlyComparisonOffset = monthlyComparison
+    ? getComparisonOffset(
+        'month',
+        { start: startMonth, end: endMonth },
+        monthlyComparison,
+      )
+    : 0;
+  const dailyComparison = useMemo(
+    () =>
+      getComparisonPeriod(
+        'day',
+        comparisonMode,
+        { start: dailyStart, end: dailyEnd },
+        { start: rawCompareStart, end: rawCompareEnd },
+      ),
+    [comparisonMode, dailyStart, dailyEnd, rawCompareStart, rawCompareEnd],
+  );
+  const dailyComparisonOffset = dailyComparison
+    ? getComparisonOffset(
+        'day',
+        { start: dailyStart, end: dailyEnd },
+        dailyComparison,
+      )
+    : 0;
+
+  const handleComparisonChange = useCallback(
+    (
+      granularity: ComparisonGranularity,
+      update: { mode?: ComparisonMode; start?: string; end?: string },
+    ) => {
+      if (!update.mode) {
+        updateSearchParams({
+          compareStart: update.start,
+          compareEnd: update.end,
+        });
+        return;
+      }
+      if (update.mode !== 'custom') {
+        updateSearchParams({
+          compare: update.mode,
+          compareStart: '',
+          compareEnd: '',
+        });
+        return;
+      }
+      const period =
+        granularity === 'month'
+          ? { start: startMonth, end: endMonth }
+          : { start: dailyStart, end: dailyEnd };
+      const previous = getComparisonPeriod(
+        granularity,
+        'previous_period',
+        period,
+        { start: null, end: null },
+      );
+      updateSearchParams({
+        compare: update.mode,
+        compareStart: previous?.start ?? '',
+        compareEnd: previous?.end ?? '',
+      });
+    },
+    [dailyEnd, dailyStart, endMonth, startMonth, updateSearchParams],
+  );
+
   const isSectionAvailable = sectionConfig.available;
 
   const {
@@ -954,12 +1114,22 @@ export function AnalyticsPage() {
     },
   );
 
-  const kpiRangeStart = addMonths(kpiMonth, -1);
+  const kpiComparisonMonth = !isValidMonthId(kpiMonth)
+    ? kpiMonth
+    : comparisonMode === 'previous_year'
+      ? addMonths(kpiMonth, -12)
+      : comparisonMode === 'custom' && monthlyComparison
+        ? addMonths(kpiMonth, monthlyComparisonOffset)
+        : addMonths(kpiMonth, -1);
+  const isKpiComparisonBefore =
+    compareMonthIds(kpiComparisonMonth, kpiMonth) <= 0;
+  const kpiRangeStart = isKpiComparisonBefore ? kpiComparisonMonth : kpiMonth;
+  const kpiRangeEnd = isKpiComparisonBefore ? kpiMonth : kpiComparisonMonth;
   const isKpiCoveredByMainRange =
     isMonthlySection &&
     isValidMonthId(kpiMonth) &&
     compareMonthIds(startMonth, kpiRangeStart) <= 0 &&
-    compareMonthIds(kpiMonth, endMonth) <= 0;
+    compareMonthIds(kpiRangeEnd, endMonth) <= 0;
   const {
     data: kpiRange,
     isLoading: isKpiRangeLoading,
@@ -968,7 +1138,7 @@ export function AnalyticsPage() {
     {
       section,
       startMonth: kpiRangeStart,
-      endMonth: kpiMonth,
+      endMonth: kpiRangeEnd,
     },
     {
       enabled:
@@ -995,11 +1165,83 @@ export function AnalyticsPage() {
     },
   );
 
+  const { data: comparisonMainRange, isLoading: isComparisonMainLoading } =
+    useAnalyticsMainRange(
+      {
+        section,
+        startMonth: monthlyComparison?.start ?? startMonth,
+        endMonth: monthlyComparison?.end ?? endMonth,
+      },
+      {
+        enabled:
+          isSectionAvailable && isMonthlySection && Boolean(monthlyComparison),
+      },
+    );
+
+  const { data: comparisonMetricsRange } = useAnalyticsMetrics(
+    {
+      section,
+      metrics: metricKey ? [metricKey] : [],
+      startMonth: monthlyComparison?.start ?? startMonth,
+      endMonth: monthlyComparison?.end ?? endMonth,
+    },
+    {
+      enabled:
+        isSectionAvailable &&
+        isMonthlySection &&
+        Boolean(metricKey) &&
+        Boolean(monthlyComparison),
+    },
+  );
+
+  const hasFullAccess = !isTargetUser || isX;
+  const { data: openAlerts } = useAnalyticsAlerts(
+    { status: 'open' },
+    { enabled: hasFullAccess },
+  );
+  const { data: technicalAlerts } = useAnalyticsAlerts(
+    {
+      source: 'technical',
+      metric: metricKey ?? undefined,
+      from: startMonth,
+      to: endMonth,
+    },
+    {
+      enabled:
+        hasFullAccess &&
+        isSectionAvailable &&
+        section === 'technical' &&
+        Boolean(metricKey),
+    },
+  );
+  const technicalAlertsByMonth = useMemo(
+    () => groupAlertsByPeriod(section === 'technical' ? technicalAlerts : []),
+    [section, technicalAlerts],
+  );
+
+  const monthlyAnnotationRange = useMemo(
+    () => getMonthDateRange(startMonth, endMonth),
+    [startMonth, endMonth],
+  );
+  const { data: monthlyAnnotations } = useAnalyticsAnnotations(
+    monthlyAnnotationRange,
+    { enabled: isSectionAvailable && isMonthlySection },
+  );
+  const monthlyAnnotationsByMonth = useMemo(
+    () => groupAnnotationsByMonth(monthlyAnnotations),
+    [monthlyAnnotations],
+  );
+
   const dataByMonth = useMemo(() => {
     const entries = mainRange?.data ?? [];
     return new Map(entries.map((row) => [row.month, row]));
   }, [mainRange]);
 
+  const comparisonDataByMonth = useMemo(() => {
+    const entries = comparisonMainRange?.data ?? [];
+    return new Map(entries.map((row) => [row.month, row]));
+  }, [comparisonMainRange]);
+
   const kpiDataByMonth = useMemo(() => {
     if (isKpiCoveredByMainRange) return dataByMonth;
     const entries = kpiRange?.data ?? [];
@@ -1012,7 +1254,7 @@ export function AnalyticsPage() {
   const kpiError = isKpiCoveredByMainRange ? mainError : kpiRangeError;
 
   const currentRow = kpiDataByMonth.get(kpiMonth);
-  const previousRow = kpiDataByMonth.get(addMonths(kpiMonth, -1));
+  const previousRow = kpiDataByMonth.get(kpiComparisonMonth);
   const deeplinkExcludeParam = useMemo(
     () => normalizeRefList(deeplinkExclude),
     [deeplinkExclude],
@@ -1096,6 +1338,46 @@ export function AnalyticsPage() {
     },
   );
 
+  const { data: comparisonDailyData } = useAnalyticsDaily(
+    {
+      startDate: dailyComparison?.start ?? dailyStart,
+      endDate: dailyComparison?.end ?? dailyEnd,
+    },
+    {
+      enabled: isDailySection && Boolean(dailyComparison),
+    },
+  );
+
+  const { data: dailyAlerts } = useAnalyticsAlerts(
+    {
+      source: 'daily',
+      metric: dailyMetricKey,
+      from: dailyStart,
+      to: dailyEnd,
+    },
+    {
+      enabled: hasFullAccess && isDailySection,
+    },
+  );
+  const dailyAlertsByDay = useMemo(
+    () => groupAlertsByPeriod(dailyAlerts),
+    [dailyAlerts],
+  );
+
+  const { data: dailyAnnotations } = useAnalyticsAnnotations(
+    { from: dailyStart, to: dailyEnd },
+    { enabled: isDailySection },
+  );
+  const dailyAnnotationsByDay = useMemo(
+    () => groupAnnotationsByDay(dailyAnnotations),
+    [dailyAnnotations],
+  );
+
+  const comparisonDailyByDay = useMemo(() => {
+    const entries = comparisonDailyData ?? [];
+    return new Map(entries.map((item) => [item.day, item]));
+  }, [comparisonDailyData]);
+
   const {
     data: countryTopData,
     isLoading: isCountryTopLoading,
@@ -1149,7 +1431,6 @@ export function AnalyticsPage() {
   const kpiCards = sectionConfig.metrics.map((metric) => {
     const value = currentRow?.[metric.key] ?? null;
     const previous = previousRow?.[metric.key] ?? null;
-    const delta = formatMetricDelta(metric, value, previous);
 
     return (
       <Card key={metric.key} className={s.kpiCard} padding="md">
@@ -1163,9 +1444,13 @@ export function AnalyticsPage() {
         <Typography variant="h2">
           {formatMetricValue(metric, value, 'card')}
         </Typography>
-        <Typography variant="caption" tone="muted" className={s.deltaRow}>
-          {delta ? `Δ ${delta.label} vs prev.` : 'Δ —'}
-        </Typography>
+        <MetricDelta
+          metric={metric}
+          current={value}
+          previous={previous}
+          suffix={`vs ${formatMonthLabel(kpiComparisonMonth, 'short')}`}
+          className={s.deltaRow}
+        />
       </Card>
     );
   });
@@ -1208,10 +1493,18 @@ export function AnalyticsPage() {
       .sort((a, b) => compareMonthIds(b, a))
       .map((month) => {
         const row = dataByMonth.get(month);
+        const comparisonMonth = shiftComparisonId(
+          'month',
+          month,
+          monthlyComparisonOffset,
+        );
+        const comparisonRow = monthlyComparison
+          ? comparisonDataByMonth.get(comparisonMonth)
+          : undefined;
         return sectionConfig.metrics.reduce(
           (acc, metric) => {
             const value = row?.[metric.key] ?? null;
-            acc[metric.key] = (
+            const cell = (
               <Typography
                 variant="body"
                 as="span"
@@ -1221,18 +1514,46 @@ export function AnalyticsPage() {
                 {formatMetricValue(metric, value, 'table')}
               </Typography>
             );
+            acc[metric.key] = monthlyComparison ? (
+              <div className={s.deltaCell}>
+                {cell}
+                <MetricDelta
+                  metric={metric}
+                  current={value}
+                  previous={
+                    isComparisonMainLoading
+                      ? null
+                      : (comparisonRow?.[metric.key] ?? null)
+                  }
+                  align="right"
+                />
+              </div>
+            ) : (
+              cell
+            );
             return acc;
           },
           {
             month: (
               <Typography variant="caption" tone="muted" as="span">
                 {formatMonthLabel(month, 'short')}
+                {monthlyComparison
+                  ? ` vs ${formatMonthLabel(comparisonMonth, 'short')}`
+                  : ''}
               </Typography>
             ),
           } as Record<string, ReactNode>,
         );
       });
-  }, [rangeMonths, dataByMonth, sectionConfig.metrics]);
+  }, [
+    rangeMonths,
+    dataByMonth,
+    sectionConfig.metrics,
+    monthlyComparison,
+    monthlyComparisonOffset,
+    comparisonDataByMonth,
+    isComparisonMainLoading,
+  ]);
 
   const chartSeries = useMemo(() => {
     if (!metricKey) return null;
@@ -1255,6 +1576,39 @@ export function AnalyticsPage() {
     );
   }, [chartSeries]);
 
+  const technicalAlertMarkers = useMemo(
+    () => chartData.filter((item) => technicalAlertsByMonth.has(item.month)),
+    [chartData, technicalAlertsByMonth],
+  );
+
+  const comparisonChartData = useMemo(() => {
+    if (!metricKey || !monthlyComparison) return [];
+    const series = comparisonMetricsRange?.metrics.find(
+      (metric) => metric.metric === metricKey,
+    );
+    return (
+      series?.data
+        .filter((point): point is { month: string; value: number } =>
+          Number.isFinite(point.value),
+        )
+        .map((point) => ({
+          month: shiftComparisonId(
+            'month',
+            point.month,
+            -monthlyComparisonOffset,
+          ),
+          value: point.value,
+        }))
+        .filter((point) => compareMonthIds(point.month, endMonth) <= 0) ?? []
+    );
+  }, [
+    comparisonMetricsRange,
+    endMonth,
+    metricKey,
+    monthlyComparison,
+    monthlyComparisonOffset,
+  ]);
+
   const sectionOptions = useMemo(() => {
     const options = getSectionOptions();
     if (!isTargetUser || isX) return options;
@@ -2103,8 +2457,7 @@ export function AnalyticsPage() {
     dailyArpcMetric,
   ]);
 
-  const dailyTotals = useMemo(() => {
-    const entries = dailyData ?? [];
+  const buildDailyTotals = useCallback((entries: DailyAnalyticsItem[]) => {
     if (!entries.length) return null;
     const totals = entries.reduce(
       (acc, item) => {
@@ -2202,7 +2555,31 @@ export function AnalyticsPage() {
       arpuuAll,
       arpc,
     };
-  }, [dailyData]);
+  }, []);
+
+  const dailyTotals = useMemo(
+    () => buildDailyTotals(dailyData ?? []),
+    [buildDailyTotals, dailyData],
+  );
+  const comparisonDailyTotals = useMemo(
+    () => buildDailyTotals(comparisonDailyData ?? []),
+    [buildDailyTotals, comparisonDailyData],
+  );
+
+  const renderDailyTotalDelta = (
+    key: keyof NonNullable<typeof dailyTotals> & AnalyticsDailyMetricKey,
+  ) => {
+    const metric = getDailyMetricDefinition(key);
+    if (!dailyComparison || !dailyTotals || !metric) return null;
+    return (
+      <MetricDelta
+        metric={metric}
+        current={dailyTotals[key]}
+        previous={comparisonDailyTotals?.[key]}
+        suffix={`vs ${getComparisonLabel(comparisonMode)}`}
+      />
+    );
+  };
 
   const dailyColumns = useMemo(
     () => [
@@ -3188,6 +3565,64 @@ export function AnalyticsPage() {
       .filter((item) => Number.isFinite(item.value));
   }, [dailyData, dailyMetricKey]);
 
+  const dailyAlertMarkers = useMemo(
+    () => dailyChartData.filter((item) => dailyAlertsByDay.has(item.day)),
+    [dailyChartData, dailyAlertsByDay],
+  );
+
+  const comparisonDailyChartData = useMemo(() => {
+    if (!dailyComparison) return [];
+    return [...(comparisonDailyData ?? [])]
+      .sort((a, b) => String(a.day).localeCompare(String(b.day)))
+      .map((item) => ({
+        day: shiftComparisonId('day', item.day, -dailyComparisonOffset),
+        value: item[dailyMetricKey],
+      }))
+      .filter((item) => Number.isFinite(item.value) && item.day <= dailyEnd);
+  }, [
+    comparisonDailyData,
+    dailyComparison,
+    dailyComparisonOffset,
+    dailyEnd,
+    dailyMetricKey,
+  ]);
+
+  const dailyTableRows = useMemo(() => {
+    if (!dailyComparison) return dailyRows;
+    const entries = [...(dailyData ?? [])].sort((a, b) =>
+      String(b.day).localeCompare(String(a.day)),
+    );
+    return dailyRows.map((row, index) => {
+      const item = entries[index];
+      const comparisonItem = comparisonDailyByDay.get(
+        shiftComparisonId('day', item.day, dailyComparisonOffset),
+      );
+      const next: Record<string, ReactNode> = { ...row };
+      getDailyMetricOptions().forEach(({ value: key }) => {
+        const metric = getDailyMetricDefinition(key);
+        if (!metric || !(key in row)) return;
+        next[key] = (
+          <div className={s.deltaCell}>
+            {row[key as keyof typeof row]}
+            <MetricDelta
+              metric={metric}
+              current={item[key]}
+              previous={comparisonItem?.[key]}
+              align="right"
+            />
+          </div>
+        );
+      });
+      return next;
+    });
+  }, [
+    comparisonDailyByDay,
+    dailyComparison,
+    dailyComparisonOffset,
+    dailyData,
+    dailyRows,
+  ]);
+
   const formatDailyChartValue = useCallback(
     (value: number, variant: 'chart' | 'tooltip') => {
       if (!Number.isFinite(value)) return '—';
@@ -3506,6 +3941,25 @@ export function AnalyticsPage() {
                   >
                     Active Users
                   </Button>
+                  <Button
+                    as={Link}
+                    to="/analytics/dashboards"
+                    size="sm"
+                    variant="ghost"
+                  >
+                    Dashboards
+                  </Button>
+                  <Button
+                    as={Link}
+                    to="/analytics/alerts"
+                    size="sm"
+                    variant="ghost"
+                  >
+                    Alerts
+                    {openAlerts?.length ? (
+                      <Badge tone="danger">{openAlerts.length}</Badge>
+                    ) : null}
+                  </Button>
                 </>
               ) : null}
             </ButtonGroup>
@@ -3865,6 +4319,16 @@ export function AnalyticsPage() {
                     />
                   </Field>
                 </FormRow>
+                <div className={s.filterRow}>
+                  <ComparisonControl
+                    granularity="day"
+                    mode={comparisonMode}
+                    customStart={rawCompareStart ?? ''}
+                    customEnd={rawCompareEnd ?? ''}
+                    onChange={(update) => handleComparisonChange('day', update)}
+                    fieldClassName={s.filterField}
+                  />
+                </div>
                 <Typography
                   variant="caption"
                   tone="muted"
@@ -3891,6 +4355,7 @@ export function AnalyticsPage() {
                         <Typography variant="h3">
                           {dailyTotals ? formatCount(dailyTotals.opened) : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('opened')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3900,6 +4365,7 @@ export function AnalyticsPage() {
                         <Typography variant="h3">
                           {dailyTotals ? formatCount(dailyTotals.total) : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('total')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3909,6 +4375,7 @@ export function AnalyticsPage() {
                         <Typography variant="h3">
                           {dailyTotals ? formatCount(dailyTotals.unique) : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('unique')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3917,6 +4384,7 @@ export function AnalyticsPage() {
                         <Typography variant="h3">
                           {dailyTotals ? formatCount(dailyTotals.uniqueAll) : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('uniqueAll')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3928,6 +4396,7 @@ export function AnalyticsPage() {
                             ? formatCount(dailyTotals.totalOrganic)
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('totalOrganic')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3939,6 +4408,7 @@ export function AnalyticsPage() {
                             ? formatCount(dailyTotals.deeplinkEvents)
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('deeplinkEvents')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3948,6 +4418,7 @@ export function AnalyticsPage() {
                         <Typography variant="h3">
                           {dailyTotals ? formatCount(dailyTotals.totalPaid) : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('totalPaid')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3959,6 +4430,7 @@ export function AnalyticsPage() {
                             ? formatCount(dailyTotals.totalPaidUnique)
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('totalPaidUnique')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3969,6 +4441,7 @@ export function AnalyticsPage() {
                             ? formatDeeplinkPercent(dailyTotals.activationRate)
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('activationRate')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3984,6 +4457,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('openedAppRate')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -3999,6 +4473,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('seenPaywallRate')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4009,6 +4484,7 @@ export function AnalyticsPage() {
                             ? formatCount(dailyTotals.customers)
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('customers')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4023,6 +4499,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('revenue')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4037,6 +4514,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('conversion')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4051,6 +4529,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('arpu')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4065,6 +4544,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('arpuu')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4079,6 +4559,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('arpuuAll')}
                       </Card>
                       <Card className={s.kpiCard} padding="md">
                         <Typography variant="meta" tone="muted">
@@ -4093,6 +4574,7 @@ export function AnalyticsPage() {
                               )
                             : '—'}
                         </Typography>
+                        {renderDailyTotalDelta('arpc')}
                       </Card>
                     </Grid>
                     <Typography
@@ -4160,6 +4642,28 @@ export function AnalyticsPage() {
                             xAccessor={(datum) => datum.day}
                             yAccessor={(datum) => datum.value}
                           />
+                          {comparisonDailyChartData.length ? (
+                            <AnimatedLineSeries
+                              dataKey={COMPARISON_SERIES_KEY}
+                              data={comparisonDailyChartData}
+                              xAccessor={(datum) => datum.day}
+                              yAccessor={(datum) => datum.value}
+                              strokeDasharray="4 4"
+                              className={s.comparisonSeries}
+                            />
+                          ) : null}
+                          <ChartAnnotationMarkers
+                            annotations={dailyAnnotationsByDay}
+                          />
+                          {dailyAlertMarkers.length ? (
+                            <GlyphSeries
+                              dataKey={ALERT_SERIES_KEY}
+                              data={dailyAlertMarkers}
+                              xAccessor={(datum) => datum.day}
+                              yAccessor={(datum) => datum.value}
+                              renderGlyph={renderAlertGlyph}
+                            />
+                          ) : null}
                           <ChartTooltip
                             showVerticalCrosshair
                             showSeriesGlyphs
@@ -4167,17 +4671,70 @@ export function AnalyticsPage() {
                               const nearest = tooltipData?.nearestDatum;
                               if (!nearest) return null;
                               const datum = nearest.datum as DailyChartDatum;
+                              const current = (
+                                tooltipData?.datumByKey[
+                                  dailyMetricMeta?.label ?? 'Daily'
+                                ]?.datum as DailyChartDatum | undefined
+                              )?.value;
+                              const comparison = (
+                                tooltipData?.datumByKey[COMPARISON_SERIES_KEY]
+                                  ?.datum as DailyChartDatum | undefined
+                              )?.value;
+                              const metric =
+                                getDailyMetricDefinition(dailyMetricKey);
                               return (
                                 <div className={s.chartTooltip}>
                                   <Typography variant="meta" as="div">
                                     {formatDayLabel(datum.day, 'long')}
                                   </Typography>
                                   <Typography variant="body" as="div">
-                                    {formatDailyChartValue(
-                                      datum.value,
-                                      'tooltip',
-                                    )}
+                                    {current === undefined
+                                      ? '—'
+                                      : formatDailyChartValue(
+                                          current,
+                                          'tooltip',
+                                        )}
                                   </Typography>
+                                  {renderAlertTooltip(
+                                    dailyAlertsByDay.get(datum.day),
+                                  )}
+                                  <ChartAnnotationsTooltip
+                                    annotations={dailyAnnotationsByDay.get(
+                                      datum.day,
+                                    )}
+                                  />
+                                  {dailyComparison ? (
+                                    <>
+                                      <Typography
+                                        variant="caption"
+                                        tone="muted"
+                                        as="div"
+                                      >
+                                        {formatDayLabel(
+                                          shiftComparisonId(
+                                            'day',
+                                            datum.day,
+                                            dailyComparisonOffset,
+                                          ),
+                                          'long',
+                                        )}
+                                        :{' '}
+                                        {comparison === undefined
+                                          ? '—'
+                                          : formatDailyChartValue(
+                                              comparison,
+                                              'tooltip',
+                                            )}
+                                      </Typography>
+                                      {metric ? (
+                                        <MetricDelta
+                                          metric={metric}
+                                          current={current}
+                                          previous={comparison}
+                                        />
+                                      ) : null}
+                                    </>
+                                  ) : null}
                                 </div>
                               );
                             }}
@@ -4202,7 +4759,11 @@ export function AnalyticsPage() {
                     <Skeleton height={240} />
                   ) : dailyRows.length ? (
                     <div className={s.tableWrap}>
-                      <Table columns={dailyColumns} rows={dailyRows} scrollable />
+                      <Table
+                        columns={dailyColumns}
+                        rows={dailyTableRows}
+                        scrollable
+                      />
                     </div>
                   ) : (
                     <EmptyState
@@ -4212,6 +4773,10 @@ export function AnalyticsPage() {
                   )}
                 </Card>
               </Section>
+
+              {hasFullAccess ? (
+                <AnnotationsSection from={dailyStart} to={dailyEnd} />
+              ) : null}
             </>
           ) : isCountriesSection ? (
             <>
@@ -4680,6 +5245,16 @@ export function AnalyticsPage() {
                       disabled={metricOptions.length === 0}
                     />
                   </Field>
+                  <ComparisonControl
+                    granularity="month"
+                    mode={comparisonMode}
+                    customStart={rawCompareStart ?? ''}
+                    customEnd={rawCompareEnd ?? ''}
+                    onChange={(update) =>
+                      handleComparisonChange('month', update)
+                    }
+                    fieldClassName={s.filterField}
+                  />
                 </div>
                 <Typography
                   variant="caption"
@@ -4754,6 +5329,28 @@ export function AnalyticsPage() {
                             xAccessor={(datum) => datum.month}
                             yAccessor={(datum) => datum.value}
                           />
+                          {comparisonChartData.length ? (
+                            <AnimatedLineSeries
+                              dataKey={COMPARISON_SERIES_KEY}
+                              data={comparisonChartData}
+                              xAccessor={(datum) => datum.month}
+                              yAccessor={(datum) => datum.value}
+                              strokeDasharray="4 4"
+                              className={s.comparisonSeries}
+                            />
+                          ) : null}
+                          <ChartAnnotationMarkers
+                            annotations={monthlyAnnotationsByMonth}
+                          />
+                          {technicalAlertMarkers.length ? (
+                            <GlyphSeries
+                              dataKey={ALERT_SERIES_KEY}
+                              data={technicalAlertMarkers}
+                              xAccessor={(datum) => datum.month}
+                              yAccessor={(datum) => datum.value}
+                              renderGlyph={renderAlertGlyph}
+                            />
+                          ) : null}
                           <ChartTooltip
                             showVerticalCrosshair
                             showSeriesGlyphs
@@ -4761,6 +5358,14 @@ export function AnalyticsPage() {
                               const nearest = tooltipData?.nearestDatum;
                               if (!nearest || !selectedMetric) return null;
                               const datum = nearest.datum as ChartDatum;
+                              const current = (
+                                tooltipData?.datumByKey[selectedMetric.label]
+                                  ?.datum as ChartDatum | undefined
+                              )?.value;
+                              const comparison = (
+                                tooltipData?.datumByKey[COMPARISON_SERIES_KEY]
+                                  ?.datum as ChartDatum | undefined
+                              )?.value;
                               return (
                                 <div className={s.chartTooltip}>
                                   <Typography variant="meta" as="div">
@@ -4769,10 +5374,47 @@ export function AnalyticsPage() {
                                   <Typography variant="body" as="div">
                                     {formatMetricValue(
                                       selectedMetric,
-                                      datum.value,
+                                      current,
                                       'tooltip',
                                     )}
                                   </Typography>
+                                  {renderAlertTooltip(
+                                    technicalAlertsByMonth.get(datum.month),
+                                  )}
+                                  <ChartAnnotationsTooltip
+                                    annotations={monthlyAnnotationsByMonth.get(
+                                      datum.month,
+                                    )}
+                                  />
+                                  {monthlyComparison ? (
+                                    <>
+                                      <Typography
+                                        variant="caption"
+                                        tone="muted"
+                                        as="div"
+                                      >
+                                        {formatMonthLabel(
+                                          shiftComparisonId(
+                                            'month',
+                                            datum.month,
+                                            monthlyComparisonOffset,
+                                          ),
+                                          'long',
+                                        )}
+                                        :{' '}
+                                        {formatMetricValue(
+                                          selectedMetric,
+                                          comparison,
+                                          'tooltip',
+                                        )}
+                                      </Typography>
+                                      <MetricDelta
+                                        metric={selectedMetric}
+                                        current={current}
+                                        previous={comparison}
+                                      />
+                                    </>
+                                  ) : null}
                                 </div>
                               );
                             }}
@@ -4802,6 +5444,13 @@ export function AnalyticsPage() {
                   )}
                 </Card>
               </Section>
+
+              {hasFullAccess ? (
+                <AnnotationsSection
+                  from={monthlyAnnotationRange.from}
+                  to={monthlyAnnotationRange.to}
+                />
+              ) : null}
             </>
           )}
         </Stack>
@@ -15,6 +15,7 @@ import {
   getLastFullMonthId,
   getMonthRange,
   isValidMonthId,
+  type MetricFormatOptions,
   type MonthId,
   useAnalyticsCohortRevenue,
 } from '@/app/analytics';
@@ -35,10 +36,23 @@ import {
 import { AppShell } from '@/components/templates';
 
 import s from './CohortRevenuePage.module.scss';
+import { ComparisonControl } from './components/ComparisonControl';
+import { MetricDelta } from './components/MetricDelta';
+import {
+  type ComparisonMode,
+  getComparisonPeriod,
+  isComparisonMode,
+} from './components/periodComparison';
 
 const MONTH_OPTION_COUNT = 36;
 const CHART_HEIGHT = 280;
 const TABLE_MIN_WIDTH = 520;
+const COMPARISON_SERIES_KEY = 'comparison';
+const REVENUE_FORMAT: MetricFormatOptions = {
+  format: 'currency',
+  currency: 'usd',
+  precision: 2,
+};
 
 type CohortRevenueDatum = {
   label: string;
@@ -161,10 +175,26 @@ export function CohortRevenuePage() {
   const cohortMonth = isValidMonthId(rawCohortMonth)
     ? rawCohortMonth
     : defaultCohortMonth;
+  const rawCompare = searchParams.get('compare');
+  const rawCompareStart = searchParams.get('compareStart');
+  const comparisonMode: ComparisonMode = isComparisonMode(rawCompare)
+    ? rawCompare
+    : 'none';
+  const comparisonCohortMonth =
+    getComparisonPeriod(
+      'month',
+      comparisonMode,
+      { start: cohortMonth, end: cohortMonth },
+      { start: rawCompareStart, end: null },
+    )?.start ?? null;
 
   const { data, error, isLoading } = useAnalyticsCohortRevenue({
     cohortMonth,
   });
+  const { data: comparisonData } = useAnalyticsCohortRevenue(
+    { cohortMonth: comparisonCohortMonth ?? cohortMonth },
+    { enabled: Boolean(comparisonCohortMonth) },
+  );
   const { ref: chartRef, width: chartWidth } =
     useElementWidth<HTMLDivElement>();
 
@@ -177,6 +207,33 @@ export function CohortRevenuePage() {
     [searchParams, setSearchParams],
   );
 
+  const updateComparison = useCallback(
+    (update: { mode?: ComparisonMode; start?: string }) => {
+      const next = new URLSearchParams(searchParams);
+      if (update.mode !== undefined) {
+        if (update.mode === 'none') {
+          next.delete('compare');
+        } else {
+          next.set('compare', update.mode);
+        }
+        if (update.mode === 'custom') {
+          next.set('compareStart', addMonths(cohortMonth, -1));
+        } else {
+          next.delete('compareStart');
+        }
+      }
+      if (update.start !== undefined) {
+        if (update.start) {
+          next.set('compareStart', update.start);
+        } else {
+          next.delete('compareStart');
+        }
+      }
+      setSearchParams(next);
+    },
+    [cohortMonth, searchParams, setSearchParams],
+  );
+
   useEffect(() => {
     if (rawCohortMonth === cohortMonth) return;
     updateCohortMonth(cohortMonth, true);
@@ -195,11 +252,28 @@ export function CohortRevenuePage() {
     [data?.revenueByMonth, effectiveCohortMonth],
   );
 
+  const comparisonChartData = useMemo(() => {
+    if (!comparisonCohortMonth || !comparisonData) return [];
+    const comparisonMonth =
+      normalizeMonthKey(comparisonData.cohortDate) ?? comparisonCohortMonth;
+    return buildChartData(comparisonMonth, comparisonData.revenueByMonth)
+      .slice(0, chartData.length)
+      .map((item, index) => ({
+        ...item,
+        label: chartData[index].label,
+      }));
+  }, [chartData, comparisonCohortMonth, comparisonData]);
+
   const totalRevenue = useMemo(
     () => chartData.reduce((total, item) => total + item.value, 0),
     [chartData],
   );
 
+  const comparisonTotalRevenue = useMemo(
+    () => comparisonChartData.reduce((total, item) => total + item.value, 0),
+    [comparisonChartData],
+  );
+
   const tableColumns = useMemo(
     () => [
       { key: 'total', label: 'Total' },
@@ -211,17 +285,50 @@ export function CohortRevenuePage() {
     [chartData],
   );
 
-  const tableRows = useMemo(
-    () => [
+  const tableRows = useMemo(() => {
+    if (!comparisonCohortMonth) {
+      return [
+        {
+          total: formatUsd(totalRevenue),
+          ...Object.fromEntries(
+            chartData.map((item) => [item.month, formatUsd(item.value)]),
+          ),
+        },
+      ];
+    }
+
+    const buildCell = (current: number, previous: number | null) => (
+      <div className={s.tableCell}>
+        {formatUsd(current)}
+        <MetricDelta
+          metric={REVENUE_FORMAT}
+          current={current}
+          previous={previous}
+        />
+      </div>
+    );
+
+    return [
       {
-        total: formatUsd(totalRevenue),
+        total: buildCell(
+          totalRevenue,
+          comparisonChartData.length ? comparisonTotalRevenue : null,
+        ),
         ...Object.fromEntries(
-          chartData.map((item) => [item.month, formatUsd(item.value)]),
+          chartData.map((item, index) => [
+            item.month,
+            buildCell(item.value, comparisonChartData[index]?.value ?? null),
+          ]),
         ),
       },
-    ],
-    [chartData, totalRevenue],
-  );
+    ];
+  }, [
+    chartData,
+    comparisonChartData,
+    comparisonCohortMonth,
+    comparisonTotalRevenue,
+    totalRevenue,
+  ]);
 
   const showSkeleton = isLoading && !data;
   const showEmpty = !showSkeleton && !error && chartData.length === 0;
@@ -237,7 +344,7 @@ export function CohortRevenuePage() {
         <Stack gap="24px">
           <Section title="Filters">
             <div className={s.filters}>
-              <FormRow columns={1}>
+              <FormRow columns={3}>
                 <Field
                   label="Cohort month"
                   labelFor="cohort-revenue-month"
@@ -254,6 +361,15 @@ export function CohortRevenuePage() {
                     fullWidth
                   />
                 </Field>
+                <ComparisonControl
+                  granularity="month"
+                  mode={comparisonMode}
+                  customStart={rawCompareStart ?? ''}
+                  customEnd=""
+                  onChange={updateComparison}
+                  singlePeriod
+                  fieldClassName={s.filterField}
+                />
               </FormRow>
             </div>
           </Section>
@@ -305,21 +421,54 @@ export function CohortRevenuePage() {
                         xAccessor={(datum) => datum.label}
                         yAccessor={(datum) => datum.value}
                       />
+                      {comparisonChartData.length ? (
+                        <AnimatedLineSeries
+                          dataKey={COMPARISON_SERIES_KEY}
+                          data={comparisonChartData}
+                          xAccessor={(datum) => datum.label}
+                          yAccessor={(datum) => datum.value}
+                          strokeDasharray="4 4"
+                          className={s.comparisonSeries}
+                        />
+                      ) : null}
                       <ChartTooltip
                         showVerticalCrosshair
                         showSeriesGlyphs
                         renderTooltip={({ tooltipData }) => {
                           const nearest = tooltipData?.nearestDatum;
                           if (!nearest) return null;
-                          const datum = nearest.datum as CohortRevenueDatum;
+                          const current = tooltipData?.datumByKey.Revenue
+                            ?.datum as CohortRevenueDatum | undefined;
+                          const comparison = tooltipData?.datumByKey[
+                            COMPARISON_SERIES_KEY
+                          ]?.datum as CohortRevenueDatum | undefined;
+                          const datum =
+                            current ?? (nearest.datum as CohortRevenueDatum);
                           return (
                             <div className={s.chartTooltip}>
                               <Typography variant="meta" as="div">
                                 {datum.monthLabel}
                               </Typography>
                               <Typography variant="body" as="div">
-                                {formatUsd(datum.value)}
+                                {current ? formatUsd(current.value) : '—'}
                               </Typography>
+                              {comparison ? (
+                                <>
+                                  <Typography
+                                    variant="caption"
+                                    tone="muted"
+                                    as="div"
+                                  >
+                                    {comparison.monthLabel}:{' '}
+                                    {formatUsd(comparison.value)}
+                                  </Typography>
+                                  <MetricDelta
+                                    metric={REVENUE_FORMAT}
+                                    current={current?.value}
+                                    previous={comparison.value}
+                                  />
+                                </>
+                              ) : null}
                             </div>
                           );
                         }}
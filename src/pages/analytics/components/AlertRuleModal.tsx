@@ -0,0 +1,324 @@
+import { useState } from 'react';
+
+import type {
+  AnalyticsAlertCondition,
+  AnalyticsAlertDirection,
+  AnalyticsAlertRule,
+  AnalyticsAlertRuleDto,
+  AnalyticsAlertSource,
+} from '@/app/analytics';
+import {
+  Button,
+  Checkbox,
+  Field,
+  Input,
+  Modal,
+  RadioGroup,
+  Select,
+  Stack,
+} from '@/atoms';
+
+import s from './AlertRuleModal.module.scss';
+import {
+  ALERT_CONDITION_OPTIONS,
+  ALERT_DIRECTION_OPTIONS,
+  ALERT_OPERATOR_OPTIONS,
+  ALERT_SOURCE_OPTIONS,
+  DEFAULT_BASELINE_PERIODS,
+  formatAlertCondition,
+  getAlertMetric,
+  getAlertMetricOptions,
+  getBaselineUnit,
+  getThresholdScale,
+} from './alertRules';
+
+type AlertRuleModalProps = {
+  open: boolean;
+  rule: AnalyticsAlertRule | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSubmit: (payload: AnalyticsAlertRuleDto) => void;
+};
+
+type RuleDraft = {
+  name: string;
+  source: AnalyticsAlertSource;
+  metric: string;
+  conditionType: AnalyticsAlertCondition['type'];
+  operator: 'above' | 'below';
+  threshold: string;
+  deviationPercent: string;
+  baselinePeriods: string;
+  direction: AnalyticsAlertDirection;
+  enabled: boolean;
+};
+
+const MAX_BASELINE_PERIODS: Record<AnalyticsAlertSource, number> = {
+  daily: 90,
+  technical: 12,
+};
+
+function toDraft(rule: AnalyticsAlertRule | null): RuleDraft {
+  const source = rule?.source ?? 'daily';
+  const metric = rule?.metric ?? 'revenue';
+  const scale = getThresholdScale(getAlertMetric(source, metric));
+  const condition = rule?.condition;
+
+  return {
+    name: rule?.name ?? '',
+    source,
+    metric,
+    conditionType: condition?.type ?? 'anomaly',
+    operator: condition?.type === 'threshold' ? condition.operator : 'below',
+    threshold:
+      condition?.type === 'threshold' ? String(condition.value * scale) : '',
+    deviationPercent:
+      condition?.type === 'anomaly' ? String(condition.deviationPercent) : '30',
+    baselinePeriods: String(
+      condition?.type === 'anomaly'
+        ? condition.baselinePeriods
+        : DEFAULT_BASELINE_PERIODS[source],
+    ),
+    direction: condition?.type === 'anomaly' ? condition.direction : 'down',
+    enabled: rule?.enabled ?? true,
+  };
+}
+
+function buildCondition(draft: RuleDraft): AnalyticsAlertCondition | null {
+  if (draft.conditionType === 'threshold') {
+    const value = Number(draft.threshold);
+    if (!draft.threshold.trim() || !Number.isFinite(value)) return null;
+    const scale = getThresholdScale(getAlertMetric(draft.source, draft.metric));
+    return {
+      type: 'threshold',
+      operator: draft.operator,
+      value: value / scale,
+    };
+  }
+
+  const deviationPercent = Number(draft.deviationPercent);
+  const baselinePeriods = Number(draft.baselinePeriods);
+  if (!Number.isFinite(deviationPercent) || deviationPercent <= 0) return null;
+  if (
+    !Number.isInteger(baselinePeriods) ||
+    baselinePeriods < 2 ||
+    baselinePeriods > MAX_BASELINE_PERIODS[draft.source]
+  ) {
+    return null;
+  }
+  return {
+    type: 'anomaly',
+    baselinePeriods,
+    deviationPercent,
+    direction: draft.direction,
+  };
+}
+
+export function AlertRuleModal({
+  open,
+  rule,
+  isSaving,
+  onClose,
+  onSubmit,
+}: AlertRuleModalProps) {
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const current = draft ?? toDraft(rule);
+  const metric = getAlertMetric(current.source, current.metric);
+  const metricOptions = getAlertMetricOptions(current.source);
+  const condition = buildCondition(current);
+  const canSubmit = Boolean(metric && condition);
+  const maxBaseline = MAX_BASELINE_PERIODS[current.source];
+
+  const update = (patch: Partial<RuleDraft>) => {
+    setDraft({ ...current, ...patch });
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const handleSourceChange = (value: string) => {
+    const source = value as AnalyticsAlertSource;
+    if (source === current.source) return;
+    update({
+      source,
+      metric: getAlertMetricOptions(source)[0]?.value ?? '',
+      threshold: '',
+      baselinePeriods: String(DEFAULT_BASELINE_PERIODS[source]),
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!metric || !condition) return;
+    const name =
+      current.name.trim() ||
+      `${metric.label}: ${formatAlertCondition({
+        source: current.source,
+        metric: current.metric as AnalyticsAlertRuleDto['metric'],
+        condition,
+      })}`;
+    onSubmit({
+      name,
+      source: current.source,
+      metric: current.metric as AnalyticsAlertRuleDto['metric'],
+      condition,
+      enabled: current.enabled,
+    });
+    setDraft(null);
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={rule ? 'Edit alert rule' : 'New alert rule'}
+      onClose={handleClose}
+      actions={
+        <div className={s.actions}>
+          <Button variant="secondary" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            loading={isSaving}
+          >
+            {rule ? 'Save rule' : 'Create rule'}
+          </Button>
+        </div>
+      }
+    >
+      <Stack gap="16px">
+        <Field
+          label="Name"
+          labelFor="alert-rule-name"
+          hint="Optional. Defaults to the metric and condition."
+        >
+          <Input
+            id="alert-rule-name"
+            value={current.name}
+            onChange={(event) => update({ name: event.target.value })}
+            fullWidth
+          />
+        </Field>
+        <div className={s.row}>
+          <Field label="Data">
+            <RadioGroup
+              name="alert-rule-source"
+              value={current.source}
+              options={ALERT_SOURCE_OPTIONS}
+              onChange={handleSourceChange}
+            />
+          </Field>
+          <Field label="Metric" hint={metric?.description}>
+            <Select
+              options={metricOptions}
+              value={current.metric}
+              onChange={(value) => update({ metric: value, threshold: '' })}
+              fullWidth
+            />
+          </Field>
+        </div>
+        <Field label="Condition">
+          <RadioGroup
+            name="alert-rule-condition"
+            value={current.conditionType}
+            options={ALERT_CONDITION_OPTIONS}
+            onChange={(value) =>
+              update({
+                conditionType: value as AnalyticsAlertCondition['type'],
+              })
+            }
+          />
+        </Field>
+        {current.conditionType === 'threshold' ? (
+          <div className={s.row}>
+            <Field label="Fires when value is">
+              <Select
+                options={ALERT_OPERATOR_OPTIONS}
+                value={current.operator}
+                onChange={(value) =>
+                  update({ operator: value as RuleDraft['operator'] })
+                }
+                fullWidth
+              />
+            </Field>
+            <Field
+              label={
+                metric?.format === 'percent' ? 'Threshold (%)' : 'Threshold'
+              }
+              labelFor="alert-rule-threshold"
+              error={
+                current.threshold && !condition ? 'Enter a number.' : undefined
+              }
+            >
+              <Input
+                id="alert-rule-threshold"
+                type="number"
+                step="any"
+                value={current.threshold}
+                onChange={(event) => update({ threshold: event.target.value })}
+                invalid={Boolean(current.threshold) && !condition}
+                fullWidth
+              />
+            </Field>
+          </div>
+        ) : (
+          <div className={s.row}>
+            <Field label="Fires when value">
+              <Select
+                options={ALERT_DIRECTION_OPTIONS}
+                value={current.direction}
+                onChange={(value) =>
+                  update({ direction: value as AnalyticsAlertDirection })
+                }
+                fullWidth
+              />
+            </Field>
+            <Field
+              label="Deviation (%)"
+              labelFor="alert-rule-deviation"
+              hint="Compared with the rolling average."
+            >
+              <Input
+                id="alert-rule-deviation"
+                type="number"
+                min={1}
+                step="any"
+                value={current.deviationPercent}
+                onChange={(event) =>
+                  update({ deviationPercent: event.target.value })
+                }
+                fullWidth
+              />
+            </Field>
+            <Field
+              label={`Baseline (${getBaselineUnit(current.source, 2)})`}
+              labelFor="alert-rule-baseline"
+              hint={`Between 2 and ${maxBaseline}.`}
+            >
+              <Input
+                id="alert-rule-baseline"
+                type="number"
+                min={2}
+                max={maxBaseline}
+                step={1}
+                value={current.baselinePeriods}
+                onChange={(event) =>
+                  update({ baselinePeriods: event.target.value })
+                }
+                fullWidth
+              />
+            </Field>
+          </div>
+        )}
+        <Checkbox
+          label="Enabled"
+          checked={current.enabled}
+          onChange={(event) => update({ enabled: event.target.checked })}
+        />
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+
+import type {
+  AnalyticsAnnotation,
+  AnalyticsAnnotationCategory,
+  AnalyticsAnnotationDto,
+  AnalyticsAnnotationEntityType,
+} from '@/app/analytics';
+import { Button, Field, Input, Modal, Select, Stack, Textarea } from '@/atoms';
+
+import s from './AnnotationModal.module.scss';
+import {
+  ANNOTATION_CATEGORY_OPTIONS,
+  ANNOTATION_ENTITY_OPTIONS,
+} from './annotations';
+
+type AnnotationModalProps = {
+  open: boolean;
+  annotation: AnalyticsAnnotation | null;
+  defaultDate: string;
+  isSaving: boolean;
+  onClose: () => void;
+  onSubmit: (payload: AnalyticsAnnotationDto) => void;
+};
+
+type AnnotationDraft = {
+  date: string;
+  title: string;
+  description: string;
+  category: AnalyticsAnnotationCategory;
+  entityType: AnalyticsAnnotationEntityType | 'none';
+  entityId: string;
+  entityLabel: string;
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDraft(
+  annotation: AnalyticsAnnotation | null,
+  defaultDate: string,
+): AnnotationDraft {
+  return {
+    date: annotation?.date ?? defaultDate,
+    title: annotation?.title ?? '',
+    description: annotation?.description ?? '',
+    category: annotation?.category ?? 'release',
+    entityType: annotation?.entity?.type ?? 'none',
+    entityId: annotation?.entity?.id ?? '',
+    entityLabel: annotation?.entity?.label ?? '',
+  };
+}
+
+export function AnnotationModal({
+  open,
+  annotation,
+  defaultDate,
+  isSaving,
+  onClose,
+  onSubmit,
+}: AnnotationModalProps) {
+  const [draft, setDraft] = useState<AnnotationDraft | null>(null);
+
+  const current = draft ?? toDraft(annotation, defaultDate);
+  const hasEntity = current.entityType !== 'none';
+  const isDateValid = ISO_DATE_PATTERN.test(current.date);
+  const canSubmit =
+    isDateValid &&
+    current.title.trim().length > 0 &&
+    (!hasEntity || current.entityId.trim().length > 0);
+
+  const update = (patch: Partial<AnnotationDraft>) => {
+    setDraft({ ...current, ...patch });
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      date: current.date,
+      title: current.title.trim(),
+      description: current.description.trim() || null,
+      category: current.category,
+      entity:
+        current.entityType === 'none'
+          ? null
+          : {
+              type: current.entityType,
+              id: current.entityId.trim(),
+              label: current.entityLabel.trim() || null,
+            },
+    });
+    setDraft(null);
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={annotation ? 'Edit annotation' : 'Add annotation'}
+      onClose={handleClose}
+      actions={
+        <div className={s.actions}>
+          <Button variant="secondary" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            loading={isSaving}
+          >
+            {annotation ? 'Save annotation' : 'Add annotation'}
+          </Button>
+        </div>
+      }
+    >
+      <Stack gap="16px">
+        <Field label="Title" labelFor="annotation-title">
+          <Input
+            id="annotation-title"
+            value={current.title}
+            onChange={(event) => update({ title: event.target.value })}
+            placeholder="TikTok campaign launched"
+            fullWidth
+          />
+        </Field>
+        <div className={s.row}>
+          <Field label="Date" labelFor="annotation-date">
+            <Input
+              id="annotation-date"
+              type="date"
+              value={current.date}
+              onChange={(event) => update({ date: event.target.value })}
+              invalid={!isDateValid}
+              fullWidth
+            />
+          </Field>
+          <Field label="Category">
+            <Select
+              options={ANNOTATION_CATEGORY_OPTIONS}
+              value={current.category}
+              onChange={(value) =>
+                update({ category: value as AnalyticsAnnotationCategory })
+              }
+              fullWidth
+            />
+          </Field>
+        </div>
+        <Field label="Description" labelFor="annotation-description">
+          <Textarea
+            id="annotation-description"
+            value={current.description}
+            onChange={(event) => update({ description: event.target.value })}
+            rows={3}
+          />
+        </Field>
+        <div className={s.row}>
+          <Field label="Related entity">
+            <Select
+              options={ANNOTATION_ENTITY_OPTIONS}
+              value={current.entityType}
+              onChange={(value) =>
+                update({
+                  entityType: value as AnnotationDraft['entityType'],
+                })
+              }
+              fullWidth
+            />
+          </Field>
+          {hasEntity ? (
+            <Field label="Entity ID" labelFor="annotation-entity-id">
+              <Input
+                id="annotation-entity-id"
+                value={current.entityId}
+                onChange={(event) => update({ entityId: event.target.value })}
+                fullWidth
+              />
+            </Field>
+          ) : null}
+        </div>
+        {hasEntity ? (
+          <Field
+            label="Entity name"
+            labelFor="annotation-entity-label"
+            hint="Optional. Shown instead of the ID."
+          >
+            <Input
+              id="annotation-entity-label"
+              value={current.entityLabel}
+              onChange={(event) => update({ entityLabel: event.target.value })}
+              fullWidth
+            />
+          </Field>
+        ) : null}
+      </Stack>
+    </Modal>
+  );
+}
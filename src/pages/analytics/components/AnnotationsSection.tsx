@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import {
+  type AnalyticsAnnotation,
+  type AnalyticsAnnotationCategory,
+  type AnalyticsAnnotationDto,
+  useAnalyticsAnnotations,
+  useCreateAnalyticsAnnotation,
+  useDeleteAnalyticsAnnotation,
+  useUpdateAnalyticsAnnotation,
+} from '@/app/analytics';
+import { PlusIcon } from '@/assets/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  EmptyState,
+  Section,
+  Skeleton,
+  Table,
+  Typography,
+} from '@/atoms';
+import { ConfirmModal } from '@/components/molecules';
+
+import { AnnotationModal } from './AnnotationModal';
+import {
+  formatAnnotationCategory,
+  formatAnnotationEntity,
+  getAnnotationEntityLink,
+} from './annotations';
+import s from './AnnotationsSection.module.scss';
+
+type AnnotationsSectionProps = {
+  from: string;
+  to: string;
+  description?: string;
+};
+
+type AnnotationModalState = {
+  open: boolean;
+  annotation: AnalyticsAnnotation | null;
+};
+
+const CATEGORY_TONES: Record<
+  AnalyticsAnnotationCategory,
+  'accent' | 'success' | 'warning' | 'danger'
+> = {
+  release: 'accent',
+  campaign: 'success',
+  incident: 'danger',
+  broadcast: 'warning',
+  other: 'accent',
+};
+
+const COLUMNS = [
+  { key: 'date', label: 'Date' },
+  { key: 'category', label: 'Category' },
+  { key: 'title', label: 'Annotation' },
+  { key: 'entity', label: 'Related' },
+  { key: 'actions', label: '' },
+];
+
+function formatDay(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return value;
+  return new Intl.DateTimeFormat(undefined, {
+    month: 'short',
+    day: '2-digit',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(Date.UTC(year, month - 1, day)));
+}
+
+function formatAuthor(annotation: AnalyticsAnnotation) {
+  if (annotation.origin === 'prompt_version') return 'Added on prompt pin';
+  if (annotation.origin === 'broadcast') return 'Added on broadcast send';
+  return annotation.createdBy?.email ?? null;
+}
+
+export function AnnotationsSection({
+  from,
+  to,
+  description = 'Releases, campaigns and incidents shown as markers on the charts.',
+}: AnnotationsSectionProps) {
+  const { data, isLoading, error } = useAnalyticsAnnotations({ from, to });
+  const createMutation = useCreateAnalyticsAnnotation();
+  const updateMutation = useUpdateAnalyticsAnnotation();
+  const deleteMutation = useDeleteAnalyticsAnnotation();
+
+  const [modal, setModal] = useState<AnnotationModalState>({
+    open: false,
+    annotation: null,
+  });
+  const [deleteTarget, setDeleteTarget] = useState<AnalyticsAnnotation | null>(
+    null,
+  );
+
+  const annotations = [...(data ?? [])].sort((a, b) =>
+    b.date.localeCompare(a.date),
+  );
+
+  const handleSubmit = async (payload: AnalyticsAnnotationDto) => {
+    if (modal.annotation) {
+      await updateMutation.mutateAsync({ id: modal.annotation.id, payload });
+    } else {
+      await createMutation.mutateAsync(payload);
+    }
+    setModal({ open: false, annotation: null });
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteMutation.mutateAsync(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const rows = annotations.map((annotation) => {
+    const link = annotation.entity
+      ? getAnnotationEntityLink(annotation.entity)
+      : null;
+    const author = formatAuthor(annotation);
+
+    return {
+      date: formatDay(annotation.date),
+      category: (
+        <Badge tone={CATEGORY_TONES[annotation.category]} outline>
+          {formatAnnotationCategory(annotation.category)}
+        </Badge>
+      ),
+      title: (
+        <div className={s.stackCell}>
+          <Typography variant="body">{annotation.title}</Typography>
+          {annotation.description ? (
+            <Typography variant="caption" tone="muted">
+              {annotation.description}
+            </Typography>
+          ) : null}
+          {author ? (
+            <Typography variant="caption" tone="muted">
+              {author}
+            </Typography>
+          ) : null}
+        </div>
+      ),
+      entity: annotation.entity ? (
+        link ? (
+          <Link to={link} className={s.link}>
+            {formatAnnotationEntity(annotation.entity)}
+          </Link>
+        ) : (
+          formatAnnotationEntity(annotation.entity)
+        )
+      ) : (
+        '—'
+      ),
+      actions: (
+        <div className={s.actionsCell}>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => setModal({ open: true, annotation })}
+          >
+            Edit
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setDeleteTarget(annotation)}
+          >
+            Delete
+          </Button>
+        </div>
+      ),
+    };
+  });
+
+  return (
+    <Section
+      title="Annotations"
+      description={description}
+      actions={
+        <Button
+          size="sm"
+          variant="secondary"
+          iconLeft={<PlusIcon />}
+          onClick={() => setModal({ open: true, annotation: null })}
+        >
+          Add annotation
+        </Button>
+      }
+    >
+      {error ? (
+        <Alert
+          tone="warning"
+          title="Unable to load annotations"
+          description={
+            error instanceof Error ? error.message : 'Please try again.'
+          }
+        />
+      ) : isLoading ? (
+        <Skeleton height={120} />
+      ) : rows.length === 0 ? (
+        <EmptyState
+          title="No annotations in this period"
+          description="Add one to explain a spike or a drop."
+        />
+      ) : (
+        <Table columns={COLUMNS} rows={rows} scrollable />
+      )}
+
+      <AnnotationModal
+        key={modal.annotation?.id ?? 'new'}
+        open={modal.open}
+        annotation={modal.annotation}
+        defaultDate={to}
+        isSaving={createMutation.isPending || updateMutation.isPending}
+        onClose={() => setModal({ open: false, annotation: null })}
+        onSubmit={(payload) => void handleSubmit(payload)}
+      />
+
+      <ConfirmModal
+        open={Boolean(deleteTarget)}
+        title="Delete annotation"
+        description={`Delete "${deleteTarget?.title ?? ''}"? It will disappear from every chart.`}
+        confirmLabel="Delete"
+        tone="danger"
+        isConfirming={deleteMutation.isPending}
+        onConfirm={() => void handleDelete()}
+        onClose={() => setDeleteTarget(null)}
+      />
+    </Section>
+  );
+}
@@ -0,0 +1,72 @@
+import { DataContext } from '@visx/xychart';
+import { useContext } from 'react';
+
+import type { AnalyticsAnnotation } from '@/app/analytics';
+import { Typography } from '@/atoms';
+import { cn } from '@/common/utils';
+
+import {
+  type AnnotationsByPeriod,
+  formatAnnotationCategory,
+} from './annotations';
+import s from './ChartAnnotations.module.scss';
+
+type ChartAnnotationMarkersProps = {
+  annotations: AnnotationsByPeriod;
+};
+
+type ChartAnnotationsTooltipProps = {
+  annotations: AnalyticsAnnotation[] | undefined;
+};
+
+export function ChartAnnotationMarkers({
+  annotations,
+}: ChartAnnotationMarkersProps) {
+  const { xScale, margin, innerHeight } = useContext(DataContext);
+  if (!xScale || !margin || !innerHeight || annotations.size === 0) {
+    return null;
+  }
+
+  const top = margin.top;
+  const bottom = margin.top + innerHeight;
+
+  return (
+    <g className={s.markers}>
+      {[...annotations.entries()].map(([period, items]) => {
+        const x = Number(xScale(period as never));
+        if (!Number.isFinite(x)) return null;
+        const category = items.length === 1 ? items[0].category : 'other';
+        return (
+          <g key={period} className={cn(s.marker, [s[category]])}>
+            <title>
+              {items
+                .map(
+                  (item) =>
+                    `${formatAnnotationCategory(item.category)}: ${item.title}`,
+                )
+                .join('\n')}
+            </title>
+            <line x1={x} x2={x} y1={top} y2={bottom} className={s.line} />
+            <circle cx={x} cy={top} r={4} className={s.flag} />
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+export function ChartAnnotationsTooltip({
+  annotations,
+}: ChartAnnotationsTooltipProps) {
+  if (!annotations?.length) return null;
+  return (
+    <div className={s.tooltip}>
+      {annotations.map((annotation) => (
+        <Typography key={annotation.id} variant="caption" as="div">
+          <span className={cn(s.dot, [s[annotation.category]])} />
+          {annotation.title}
+        </Typography>
+      ))}
+    </div>
+  );
+}
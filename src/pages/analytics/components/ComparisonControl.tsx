@@ -0,0 +1,83 @@
+import { Field, Input, Select } from '@/atoms';
+
+import {
+  COMPARISON_MODE_OPTIONS,
+  type ComparisonGranularity,
+  type ComparisonMode,
+} from './periodComparison';
+
+type ComparisonUpdate = {
+  mode?: ComparisonMode;
+  start?: string;
+  end?: string;
+};
+
+type ComparisonControlProps = {
+  granularity: ComparisonGranularity;
+  mode: ComparisonMode;
+  customStart: string;
+  customEnd: string;
+  onChange: (update: ComparisonUpdate) => void;
+  singlePeriod?: boolean;
+  fieldClassName?: string;
+};
+
+export function ComparisonControl({
+  granularity,
+  mode,
+  customStart,
+  customEnd,
+  onChange,
+  singlePeriod = false,
+  fieldClassName,
+}: ComparisonControlProps) {
+  const inputType = granularity === 'month' ? 'month' : 'date';
+  const isRangeInvalid =
+    !singlePeriod &&
+    Boolean(customStart) &&
+    Boolean(customEnd) &&
+    customStart > customEnd;
+
+  return (
+    <>
+      <Field label="Compare to" className={fieldClassName}>
+        <Select
+          options={COMPARISON_MODE_OPTIONS}
+          value={mode}
+          onChange={(value) => onChange({ mode: value as ComparisonMode })}
+          size="sm"
+          fullWidth
+        />
+      </Field>
+      {mode === 'custom' ? (
+        <>
+          <Field
+            label={singlePeriod ? 'Compare with' : 'Compare from'}
+            className={fieldClassName}
+          >
+            <Input
+              type={inputType}
+              size="sm"
+              value={customStart}
+              onChange={(event) => onChange({ start: event.target.value })}
+              invalid={isRangeInvalid}
+              fullWidth
+            />
+          </Field>
+          {singlePeriod ? null : (
+            <Field label="Compare until" className={fieldClassName}>
+              <Input
+                type={inputType}
+                size="sm"
+                value={customEnd}
+                onChange={(event) => onChange({ end: event.target.value })}
+                invalid={isRangeInvalid}
+                fullWidth
+              />
+            </Field>
+          )}
+        </>
+      ) : null}
+    </>
+  );
+}
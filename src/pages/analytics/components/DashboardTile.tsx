@@ -0,0 +1,514 @@
+import {
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  Pencil1Icon,
+  TrashIcon,
+} from '@radix-ui/react-icons';
+import {
+  AnimatedAxis,
+  AnimatedGrid,
+  AnimatedLineSeries,
+  Tooltip as ChartTooltip,
+  XYChart,
+} from '@visx/xychart';
+import type { ReactNode } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+
+import {
+  type AnalyticsDashboardTile,
+  formatMetricValue,
+  useAnalyticsDailyList,
+  useAnalyticsMetricsList,
+} from '@/app/analytics';
+import {
+  Alert,
+  Card,
+  EmptyState,
+  IconButton,
+  Skeleton,
+  Table,
+  Tooltip,
+  Typography,
+} from '@/atoms';
+import { cn } from '@/common/utils';
+
+import s from './DashboardTile.module.scss';
+import {
+  aggregateSeries,
+  buildDashboardSeries,
+  collectDailyValues,
+  collectMonthlyValues,
+  COMPARISON_OPTIONS,
+  type DashboardSeries,
+  type DashboardSeriesPoint,
+  formatPeriodLabel,
+  formatPeriodRange,
+  getComparisonPeriod,
+  getTileMetrics,
+  getTileTitle,
+  groupMetricsBySection,
+  resolveTilePeriod,
+} from './dashboardTiles';
+import { MetricDelta } from './MetricDelta';
+
+type DashboardTileProps = {
+  tile: AnalyticsDashboardTile;
+  editing: boolean;
+  canMoveBack: boolean;
+  canMoveForward: boolean;
+  onEdit: () => void;
+  onRemove: () => void;
+  onMove: (delta: number) => void;
+};
+
+const CHART_HEIGHT = 240;
+const SERIES_CLASS_NAMES = [s.series0, s.series1, s.series2, s.series3];
+
+function useElementWidth<T extends HTMLElement>() {
+  const [node, setNode] = useState<T | null>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    if (!node) return;
+
+    const measure = () => {
+      const nextWidth = node.getBoundingClientRect().width ?? 0;
+      setWidth(nextWidth);
+    };
+
+    measure();
+
+    if (typeof ResizeObserver !== 'undefined') {
+      const observer = new ResizeObserver((entries) => {
+        const entry = entries[0];
+        if (entry) setWidth(entry.contentRect.width);
+      });
+      observer.observe(node);
+      return () => observer.disconnect();
+    }
+
+    let frame = 0;
+    const handleResize = () => {
+      if (frame) window.cancelAnimationFrame(frame);
+      frame = window.requestAnimationFrame(measure);
+    };
+
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [node]);
+
+  return { ref: setNode, width };
+}
+
+function useDashboardTileData(tile: AnalyticsDashboardTile) {
+  const metrics = useMemo(() => getTileMetrics(tile), [tile]);
+  const period = useMemo(() => resolveTilePeriod(tile), [tile]);
+  const comparisonPeriod = useMemo(
+    () => getComparisonPeriod(tile, period),
+    [tile, period],
+  );
+  const periods = comparisonPeriod ? [period, comparisonPeriod] : [period];
+  const isMonthly = tile.source === 'monthly';
+
+  const monthlyQueries = useAnalyticsMetricsList(
+    isMonthly
+      ? periods.flatMap((item) =>
+          groupMetricsBySection(metrics).map(({ section, keys }) => ({
+            section,
+            metrics: keys,
+            startMonth: item.start,
+            endMonth: item.end,
+          })),
+        )
+      : [],
+  );
+  const dailyQueries = useAnalyticsDailyList(
+    isMonthly
+      ? []
+      : periods.map((item) => ({ startDate: item.start, endDate: item.end })),
+  );
+  const queries = isMonthly ? monthlyQueries : dailyQueries;
+  const isLoading = queries.some((query) => query.isLoading);
+  const error = queries.find((query) => query.error)?.error ?? null;
+
+  const series = useMemo(() => {
+    let values = new Map<string, number | null>();
+    let comparisonValues = new Map<string, number | null>();
+
+    if (isMonthly) {
+      const perPeriod = monthlyQueries.length / periods.length;
+      const toResponses = (items: typeof monthlyQueries) =>
+        items.flatMap((query) => (query.data ? [query.data] : []));
+      values = collectMonthlyValues(
+        toResponses(monthlyQueries.slice(0, perPeriod)),
+      );
+      comparisonValues = collectMonthlyValues(
+        toResponses(monthlyQueries.slice(perPeriod)),
+      );
+    } else {
+      values = collectDailyValues(dailyQueries[0]?.data ?? [], metrics);
+      comparisonValues = collectDailyValues(
+        dailyQueries[1]?.data ?? [],
+        metrics,
+      );
+    }
+
+    return buildDashboardSeries({
+      source: tile.source,
+      metrics,
+      period,
+      comparisonPeriod,
+      values,
+      comparisonValues,
+    });
+  }, [
+    isMonthly,
+    monthlyQueries,
+    dailyQueries,
+    periods.length,
+    metrics,
+    tile.source,
+    period,
+    comparisonPeriod,
+  ]);
+
+  return { series, period, comparisonPeriod, isLoading, error };
+}
+
+function getComparisonLabel(tile: AnalyticsDashboardTile) {
+  return tile.comparison === 'previous_year' ? 'last year' : 'prev. period';
+}
+
+function KpiTileBody({
+  tile,
+  series,
+}: {
+  tile: AnalyticsDashboardTile;
+  series: DashboardSeries[];
+}) {
+  return (
+    <div className={s.kpiList}>
+      {series.map(({ metric, points }) => {
+        const value = aggregateSeries(
+          metric,
+          points.map((point) => point.value),
+        );
+        const comparison = aggregateSeries(
+          metric,
+          points.map((point) => point.comparisonValue),
+        );
+        const latest = points[points.length - 1];
+
+        return (
+          <div key={metric.key} className={s.kpi}>
+            <Tooltip content={metric.description}>
+              <Typography variant="meta" as="span" className={s.kpiLabel}>
+                {metric.label}
+              </Typography>
+            </Tooltip>
+            <Typography variant="h2">
+              {formatMetricValue(metric, value, 'card')}
+            </Typography>
+            <Typography variant="caption" tone="muted">
+              {metric.aggregate === 'latest' && latest
+                ? latest.label
+                : metric.aggregate === 'average'
+                  ? 'Daily average'
+                  : 'Total'}
+            </Typography>
+            {tile.comparison === 'none' ? null : (
+              <MetricDelta
+                metric={metric}
+                current={value}
+                previous={comparison}
+                suffix={`vs ${getComparisonLabel(tile)}`}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function LineTileBody({
+  tile,
+  series,
+}: {
+  tile: AnalyticsDashboardTile;
+  series: DashboardSeries[];
+}) {
+  const { ref: chartRef, width: chartWidth } =
+    useElementWidth<HTMLDivElement>();
+  const primary = series[0]?.metric ?? null;
+  const pointCount = series[0]?.points.length ?? 0;
+  const hasComparison = tile.comparison !== 'none';
+
+  return (
+    <div ref={chartRef} className={s.chart}>
+      {chartWidth > 0 && primary ? (
+        <XYChart
+          width={chartWidth}
+          height={CHART_HEIGHT}
+          xScale={{ type: 'point' }}
+          yScale={{ type: 'linear', nice: true }}
+        >
+          <AnimatedGrid columns={false} numTicks={4} />
+          <AnimatedAxis
+            orientation="bottom"
+            tickFormat={(value) =>
+              formatPeriodLabel(tile.source, String(value), 'short')
+            }
+            numTicks={Math.min(6, pointCount)}
+          />
+          <AnimatedAxis
+            orientation="left"
+            numTicks={4}
+            tickFormat={(value) =>
+              formatMetricValue(primary, Number(value), 'chart')
+            }
+          />
+          {series.map(({ metric, points }, index) => (
+            <AnimatedLineSeries
+              key={metric.key}
+              dataKey={metric.key}
+              data={points}
+              xAccessor={(datum: DashboardSeriesPoint) => datum.x}
+              yAccessor={(datum: DashboardSeriesPoint) => datum.value}
+              className={SERIES_CLASS_NAMES[index % SERIES_CLASS_NAMES.length]}
+            />
+          ))}
+          {hasComparison
+            ? series.map(({ metric, points }, index) => (
+                <AnimatedLineSeries
+                  key={`${metric.key}-comparison`}
+                  dataKey={`${metric.key}-comparison`}
+                  data={points}
+                  xAccessor={(datum: DashboardSeriesPoint) => datum.x}
+                  yAccessor={(datum: DashboardSeriesPoint) =>
+                    datum.comparisonValue
+                  }
+                  strokeDasharray="4 4"
+                  className={cn(
+                    SERIES_CLASS_NAMES[index % SERIES_CLASS_NAMES.length],
+                    [s.comparisonSeries],
+                  )}
+                />
+              ))
+            : null}
+          <ChartTooltip
+            showVerticalCrosshair
+            showSeriesGlyphs
+            renderTooltip={({ tooltipData }) => {
+              const nearest = tooltipData?.nearestDatum;
+              if (!nearest) return null;
+              const datum = nearest.datum as DashboardSeriesPoint;
+              const index = series[0]?.points.findIndex(
+                (point) => point.x === datum.x,
+              );
+              if (index === undefined || index < 0) return null;
+              return (
+                <div className={s.chartTooltip}>
+                  <Typography variant="meta" as="div">
+                    {datum.label}
+                  </Typography>
+                  {series.map(({ metric, points }) => {
+                    const point = points[index];
+                    return (
+                      <Typography key={metric.key} variant="body" as="div">
+                        {`${metric.label}: ${formatMetricValue(metric, point?.value, 'tooltip')}`}
+                        {hasComparison && point?.comparisonLabel
+                          ? ` (${point.comparisonLabel}: ${formatMetricValue(metric, point.comparisonValue, 'tooltip')})`
+                          : ''}
+                      </Typography>
+                    );
+                  })}
+                </div>
+              );
+            }}
+          />
+        </XYChart>
+      ) : (
+        <Skeleton height={CHART_HEIGHT} />
+      )}
+    </div>
+  );
+}
+
+function TableTileBody({
+  tile,
+  series,
+}: {
+  tile: AnalyticsDashboardTile;
+  series: DashboardSeries[];
+}) {
+  const hasComparison = tile.comparison !== 'none';
+  const columns = [
+    {
+      key: 'period',
+      label: (
+        <Typography variant="meta" tone="muted" as="div">
+          {tile.source === 'monthly' ? 'Month' : 'Day'}
+        </Typography>
+      ),
+    },
+    ...series.map(({ metric }) => ({
+      key: metric.key,
+      label: (
+        <Tooltip content={metric.description}>
+          <Typography
+            variant="meta"
+            tone="muted"
+            as="span"
+            className={s.alignRight}
+          >
+            {metric.label}
+          </Typography>
+        </Tooltip>
+      ),
+    })),
+  ];
+  const periodCount = series[0]?.points.length ?? 0;
+  const rows = Array.from({ length: periodCount }, (_, offset) => {
+    const index = periodCount - 1 - offset;
+    const row: Record<string, ReactNode> = {
+      period: (
+        <Typography variant="body" as="div">
+          {series[0]?.points[index]?.label}
+        </Typography>
+      ),
+    };
+    for (const { metric, points } of series) {
+      const point = points[index];
+      row[metric.key] = (
+        <div className={s.alignRight}>
+          <Typography variant="body" as="div">
+            {formatMetricValue(metric, point?.value, 'table')}
+          </Typography>
+          {hasComparison ? (
+            <MetricDelta
+              metric={metric}
+              current={point?.value}
+              previous={point?.comparisonValue}
+              align="right"
+            />
+          ) : null}
+        </div>
+      );
+    }
+    return row;
+  });
+
+  return (
+    <div className={s.tableWrap}>
+      <Table columns={columns} rows={rows} scrollable />
+    </div>
+  );
+}
+
+export function DashboardTile({
+  tile,
+  editing,
+  canMoveBack,
+  canMoveForward,
+  onEdit,
+  onRemove,
+  onMove,
+}: DashboardTileProps) {
+  const { series, period, comparisonPeriod, isLoading, error } =
+    useDashboardTileData(tile);
+  const title = getTileTitle(tile);
+  const comparisonOption = COMPARISON_OPTIONS.find(
+    (option) => option.value === tile.comparison,
+  );
+  const hasData = series.some(({ points }) =>
+    points.some((point) => point.value !== null),
+  );
+
+  return (
+    <Card className={cn(s.tile, [s[tile.width]])} padding="md">
+      <div className={s.header}>
+        <div className={s.titleBlock}>
+          <Typography variant="h3" as="h3" className={s.title}>
+            {title}
+          </Typography>
+          <Typography variant="caption" tone="muted">
+            {formatPeriodRange(tile.source, period)}
+            {comparisonPeriod && comparisonOption
+              ? ` · vs ${comparisonOption.label.toLowerCase()}`
+              : ''}
+          </Typography>
+        </div>
+        {editing ? (
+          <div className={s.actions}>
+            <IconButton
+              size="sm"
+              variant="ghost"
+              icon={<ArrowLeftIcon />}
+              aria-label={`Move ${title} back`}
+              tooltip="Move back"
+              onClick={() => onMove(-1)}
+              disabled={!canMoveBack}
+            />
+            <IconButton
+              size="sm"
+              variant="ghost"
+              icon={<ArrowRightIcon />}
+              aria-label={`Move ${title} forward`}
+              tooltip="Move forward"
+              onClick={() => onMove(1)}
+              disabled={!canMoveForward}
+            />
+            <IconButton
+              size="sm"
+              variant="ghost"
+              icon={<Pencil1Icon />}
+              aria-label={`Edit ${title}`}
+              tooltip="Edit tile"
+              onClick={onEdit}
+            />
+            <IconButton
+              size="sm"
+              variant="ghost"
+              icon={<TrashIcon />}
+              aria-label={`Remove ${title}`}
+              tooltip="Remove tile"
+              onClick={onRemove}
+            />
+          </div>
+        ) : null}
+      </div>
+
+      {error ? (
+        <Alert
+          tone="danger"
+          title="Unable to load tile"
+          description={
+            error instanceof Error ? error.message : 'Please try again.'
+          }
+        />
+      ) : isLoading ? (
+        <Skeleton height={tile.type === 'kpi' ? 80 : CHART_HEIGHT} />
+      ) : series.length === 0 ? (
+        <EmptyState
+          title="No metrics"
+          description="Edit the tile to pick metrics."
+        />
+      ) : !hasData ? (
+        <EmptyState
+          title="No data for this period"
+          description="Try adjusting the date range."
+        />
+      ) : tile.type === 'kpi' ? (
+        <KpiTileBody tile={tile} series={series} />
+      ) : tile.type === 'line' ? (
+        <LineTileBody tile={tile} series={series} />
+      ) : (
+        <TableTileBody tile={tile} series={series} />
+      )}
+    </Card>
+  );
+}
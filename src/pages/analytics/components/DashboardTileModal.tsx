@@ -0,0 +1,294 @@
+import { useState } from 'react';
+
+import {
+  type AnalyticsDashboardComparison,
+  type AnalyticsDashboardTile,
+  type AnalyticsDashboardTileSource,
+  type AnalyticsDashboardTileType,
+  type AnalyticsDashboardTileWidth,
+  type AnalyticsSection,
+  getDailyMetricOptions,
+  getLastFullMonthId,
+  getMetricOptions,
+  getSectionConfig,
+  isValidMonthId,
+} from '@/app/analytics';
+import {
+  Button,
+  Checkbox,
+  Field,
+  Input,
+  Modal,
+  RadioGroup,
+  Select,
+  Stack,
+  Typography,
+} from '@/atoms';
+
+import s from './DashboardTileModal.module.scss';
+import {
+  COMPARISON_OPTIONS,
+  createDashboardTileId,
+  DAILY_RANGE_OPTIONS,
+  getYesterdayDateId,
+  isValidDateId,
+  MAX_TILE_METRICS,
+  MONTHLY_RANGE_OPTIONS,
+  TILE_SOURCE_OPTIONS,
+  TILE_TYPE_OPTIONS,
+  TILE_WIDTH_OPTIONS,
+} from './dashboardTiles';
+
+type DashboardTileModalProps = {
+  open: boolean;
+  tile: AnalyticsDashboardTile | null;
+  onClose: () => void;
+  onSubmit: (tile: AnalyticsDashboardTile) => void;
+};
+
+const MONTHLY_SECTIONS: AnalyticsSection[] = ['main', 'payments', 'technical'];
+const CUSTOM_RANGE = 'custom';
+
+const DEFAULT_TILE: AnalyticsDashboardTile = {
+  id: '',
+  title: null,
+  type: 'kpi',
+  source: 'monthly',
+  metrics: [],
+  range: { mode: 'relative', count: 12 },
+  comparison: 'previous_period',
+  width: 'small',
+};
+
+function getDefaultRange(source: AnalyticsDashboardTileSource) {
+  return source === 'monthly'
+    ? { mode: 'relative' as const, count: 12 }
+    : { mode: 'relative' as const, count: 30 };
+}
+
+export function DashboardTileModal({
+  open,
+  tile,
+  onClose,
+  onSubmit,
+}: DashboardTileModalProps) {
+  const [draft, setDraft] = useState<AnalyticsDashboardTile | null>(null);
+
+  const current = draft ?? tile ?? DEFAULT_TILE;
+  const isMonthly = current.source === 'monthly';
+  const rangeOptions = [
+    ...(isMonthly ? MONTHLY_RANGE_OPTIONS : DAILY_RANGE_OPTIONS),
+    { value: CUSTOM_RANGE, label: 'Custom range', dividerBefore: true },
+  ];
+  const rangeValue =
+    current.range.mode === 'fixed' ? CUSTOM_RANGE : String(current.range.count);
+  const isValidPeriod = isMonthly ? isValidMonthId : isValidDateId;
+  const isRangeValid =
+    current.range.mode === 'relative' ||
+    (isValidPeriod(current.range.start) &&
+      isValidPeriod(current.range.end) &&
+      current.range.start <= current.range.end);
+  const isAtMetricLimit = current.metrics.length >= MAX_TILE_METRICS;
+  const canSubmit = current.metrics.length > 0 && isRangeValid;
+
+  const update = (patch: Partial<AnalyticsDashboardTile>) => {
+    setDraft({ ...current, ...patch });
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const handleSourceChange = (value: string) => {
+    const source = value as AnalyticsDashboardTileSource;
+    if (source === current.source) return;
+    update({ source, metrics: [], range: getDefaultRange(source) });
+  };
+
+  const handleRangeChange = (value: string) => {
+    if (value !== CUSTOM_RANGE) {
+      update({ range: { mode: 'relative', count: Number(value) } });
+      return;
+    }
+    const end = isMonthly ? getLastFullMonthId() : getYesterdayDateId();
+    update({ range: { mode: 'fixed', start: end, end } });
+  };
+
+  const toggleMetric = (key: string, checked: boolean) => {
+    const metrics = checked
+      ? [...current.metrics, key]
+      : current.metrics.filter((metric) => metric !== key);
+    update({ metrics: metrics as AnalyticsDashboardTile['metrics'] });
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      ...current,
+      id: current.id || createDashboardTileId(),
+      title: current.title?.trim() || null,
+    });
+    setDraft(null);
+  };
+
+  const renderMetricOption = (option: { value: string; label: string }) => {
+    const checked = current.metrics.includes(
+      option.value as AnalyticsDashboardTile['metrics'][number],
+    );
+    return (
+      <Checkbox
+        key={option.value}
+        label={option.label}
+        checked={checked}
+        disabled={!checked && isAtMetricLimit}
+        onChange={(event) => toggleMetric(option.value, event.target.checked)}
+      />
+    );
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={tile ? 'Edit tile' : 'Add tile'}
+      onClose={handleClose}
+      actions={
+        <div className={s.actions}>
+          <Button variant="secondary" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {tile ? 'Save tile' : 'Add tile'}
+          </Button>
+        </div>
+      }
+    >
+      <Stack gap="16px">
+        <Field label="Title" labelFor="dashboard-tile-title" hint="Optional.">
+          <Input
+            id="dashboard-tile-title"
+            value={current.title ?? ''}
+            onChange={(event) => update({ title: event.target.value })}
+            placeholder="Defaults to the metric names"
+            fullWidth
+          />
+        </Field>
+        <div className={s.row}>
+          <Field label="View">
+            <RadioGroup
+              name="dashboard-tile-type"
+              value={current.type}
+              options={TILE_TYPE_OPTIONS}
+              onChange={(value) =>
+                update({ type: value as AnalyticsDashboardTileType })
+              }
+            />
+          </Field>
+          <Field label="Data">
+            <RadioGroup
+              name="dashboard-tile-source"
+              value={current.source}
+              options={TILE_SOURCE_OPTIONS}
+              onChange={handleSourceChange}
+            />
+          </Field>
+        </div>
+
+        <Field
+          label="Metrics"
+          hint={`Up to ${MAX_TILE_METRICS} metrics per tile.`}
+        >
+          {isMonthly ? (
+            <div className={s.metricGroups}>
+              {MONTHLY_SECTIONS.map((section) => (
+                <div key={section} className={s.metricGroup}>
+                  <Typography variant="meta" tone="muted">
+                    {getSectionConfig(section).label}
+                  </Typography>
+                  <div className={s.metricList}>
+                    {getMetricOptions(section).map(renderMetricOption)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className={s.metricList}>
+              {getDailyMetricOptions().map(renderMetricOption)}
+            </div>
+          )}
+        </Field>
+
+        <div className={s.row}>
+          <Field label="Date range">
+            <Select
+              options={rangeOptions}
+              value={rangeValue}
+              onChange={handleRangeChange}
+              fullWidth
+            />
+          </Field>
+          <Field label="Compare with">
+            <Select
+              options={COMPARISON_OPTIONS}
+              value={current.comparison}
+              onChange={(value) =>
+                update({ comparison: value as AnalyticsDashboardComparison })
+              }
+              fullWidth
+            />
+          </Field>
+        </div>
+
+        {current.range.mode === 'fixed' ? (
+          <div className={s.row}>
+            <Field label="From" labelFor="dashboard-tile-start">
+              <Input
+                id="dashboard-tile-start"
+                type={isMonthly ? 'month' : 'date'}
+                value={current.range.start}
+                onChange={(event) =>
+                  current.range.mode === 'fixed' &&
+                  update({
+                    range: { ...current.range, start: event.target.value },
+                  })
+                }
+                invalid={!isRangeValid}
+                fullWidth
+              />
+            </Field>
+            <Field
+              label="To"
+              labelFor="dashboard-tile-end"
+              error={isRangeValid ? undefined : 'Pick a valid range.'}
+            >
+              <Input
+                id="dashboard-tile-end"
+                type={isMonthly ? 'month' : 'date'}
+                value={current.range.end}
+                onChange={(event) =>
+                  current.range.mode === 'fixed' &&
+                  update({
+                    range: { ...current.range, end: event.target.value },
+                  })
+                }
+                invalid={!isRangeValid}
+                fullWidth
+              />
+            </Field>
+          </div>
+        ) : null}
+
+        <Field label="Width">
+          <RadioGroup
+            name="dashboard-tile-width"
+            value={current.width}
+            options={TILE_WIDTH_OPTIONS}
+            onChange={(value) =>
+              update({ width: value as AnalyticsDashboardTileWidth })
+            }
+          />
+        </Field>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,47 @@
+import {
+  formatMetricDelta,
+  formatMetricDeltaPercent,
+  getMetricDeltaTone,
+  type MetricFormatOptions,
+} from '@/app/analytics';
+import { Typography } from '@/atoms';
+import { cn } from '@/common/utils';
+
+import s from './MetricDelta.module.scss';
+
+type MetricDeltaProps = {
+  metric: MetricFormatOptions;
+  current: number | null | undefined;
+  previous: number | null | undefined;
+  suffix?: string;
+  align?: 'left' | 'right';
+  className?: string;
+};
+
+export function MetricDelta({
+  metric,
+  current,
+  previous,
+  suffix,
+  align = 'left',
+  className,
+}: MetricDeltaProps) {
+  const delta = formatMetricDelta(metric, current, previous);
+  const percent = formatMetricDeltaPercent(current, previous);
+  const tone = delta ? getMetricDeltaTone(metric, delta.isPositive) : 'muted';
+
+  return (
+    <Typography
+      variant="caption"
+      tone={tone}
+      as="span"
+      className={cn(s.delta, [className], {
+        [s.alignRight]: align === 'right',
+      })}
+    >
+      {delta ? `Δ ${delta.label}` : 'Δ —'}
+      {delta && percent && delta.isPositive !== null ? ` (${percent})` : ''}
+      {suffix ? ` ${suffix}` : ''}
+    </Typography>
+  );
+}
@@ -0,0 +1,202 @@
+import {
+  addMonths,
+  type AnalyticsAlert,
+  type AnalyticsAlertCondition,
+  type AnalyticsAlertDirection,
+  type AnalyticsAlertRule,
+  type AnalyticsAlertSource,
+  type AnalyticsAlertStatus,
+  formatMetricValue,
+  formatMonthLabel,
+  getDailyMetricDefinition,
+  getDailyMetricOptions,
+  getMetricDefinition,
+  getMetricOptions,
+  isAnalyticsMetricKey,
+  isDailyMetricKey,
+  type MetricFormatOptions,
+} from '@/app/analytics';
+
+export type AlertMetric = MetricFormatOptions & {
+  key: string;
+  label: string;
+  description: string;
+};
+
+type AlertRuleLike = Pick<
+  AnalyticsAlertRule,
+  'source' | 'metric' | 'condition'
+>;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_BASELINE_PERIODS: Record<AnalyticsAlertSource, number> = {
+  daily: 14,
+  technical: 3,
+};
+
+export const ALERT_SOURCE_OPTIONS: Array<{
+  value: AnalyticsAlertSource;
+  label: string;
+}> = [
+  { value: 'daily', label: 'Daily metrics' },
+  { value: 'technical', label: 'Technical metrics (monthly)' },
+];
+
+export const ALERT_CONDITION_OPTIONS: Array<{
+  value: AnalyticsAlertCondition['type'];
+  label: string;
+}> = [
+  { value: 'anomaly', label: 'Deviation from baseline' },
+  { value: 'threshold', label: 'Fixed threshold' },
+];
+
+export const ALERT_OPERATOR_OPTIONS = [
+  { value: 'above', label: 'Above' },
+  { value: 'below', label: 'Below' },
+];
+
+export const ALERT_DIRECTION_OPTIONS: Array<{
+  value: AnalyticsAlertDirection;
+  label: string;
+}> = [
+  { value: 'both', label: 'Either way' },
+  { value: 'down', label: 'Drops' },
+  { value: 'up', label: 'Rises' },
+];
+
+export const ALERT_STATUS_OPTIONS: Array<{
+  value: AnalyticsAlertStatus;
+  label: string;
+}> = [
+  { value: 'open', label: 'Open' },
+  { value: 'acknowledged', label: 'Acknowledged' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+function toUtcDateId(date: Date) {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function parseUtcDateId(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDaysToDateId(value: string, delta: number) {
+  const date = parseUtcDateId(value);
+  date.setUTCDate(date.getUTCDate() + delta);
+  return toUtcDateId(date);
+}
+
+export function getAlertMetricOptions(source: AnalyticsAlertSource) {
+  return source === 'daily'
+    ? getDailyMetricOptions()
+    : getMetricOptions('technical');
+}
+
+export function getAlertMetric(
+  source: AnalyticsAlertSource,
+  key: string,
+): AlertMetric | null {
+  const definition =
+    source === 'daily'
+      ? isDailyMetricKey(key)
+        ? getDailyMetricDefinition(key)
+        : null
+      : isAnalyticsMetricKey(key)
+        ? getMetricDefinition(key)
+        : null;
+  if (!definition) return null;
+  return {
+    key: definition.key,
+    label: definition.label,
+    description: definition.description,
+    format: definition.format,
+    precision: definition.precision,
+    currency: definition.currency,
+    durationUnit:
+      'durationUnit' in definition ? definition.durationUnit : undefined,
+    polarity: definition.polarity,
+  };
+}
+
+export function getThresholdScale(metric: MetricFormatOptions | null) {
+  return metric?.format === 'percent' ? 100 : 1;
+}
+
+export function getBaselineUnit(source: AnalyticsAlertSource, count: number) {
+  const unit = source === 'daily' ? 'day' : 'month';
+  return count === 1 ? unit : `${unit}s`;
+}
+
+export function formatAlertCondition(rule: AlertRuleLike) {
+  const { condition } = rule;
+  if (condition.type === 'threshold') {
+    const metric = getAlertMetric(rule.source, rule.metric);
+    const value = metric
+      ? formatMetricValue(metric, condition.value, 'card')
+      : String(condition.value);
+    return `${condition.operator === 'above' ? 'Above' : 'Below'} ${value}`;
+  }
+
+  const baseline = `${condition.baselinePeriods}-${getBaselineUnit(rule.source, 1)} baseline`;
+  switch (condition.direction) {
+    case 'up':
+      return `Rises ${condition.deviationPercent}% above ${baseline}`;
+    case 'down':
+      return `Drops ${condition.deviationPercent}% below ${baseline}`;
+    default:
+      return `Moves ${condition.deviationPercent}% from ${baseline}`;
+  }
+}
+
+export function formatAlertPeriod(
+  source: AnalyticsAlertSource,
+  period: string,
+  variant: 'short' | 'long' = 'long',
+) {
+  if (source === 'technical') return formatMonthLabel(period, variant);
+  if (!ISO_DATE_PATTERN.test(period)) return period;
+  const options: Intl.DateTimeFormatOptions =
+    variant === 'short'
+      ? { month: 'short', day: '2-digit', timeZone: 'UTC' }
+      : { month: 'long', day: '2-digit', year: 'numeric', timeZone: 'UTC' };
+  return new Intl.DateTimeFormat(undefined, options).format(
+    parseUtcDateId(period),
+  );
+}
+
+export function getAlertChartLink(alert: AnalyticsAlert) {
+  const { rule, period } = alert;
+  if (rule.source === 'technical') {
+    const query = new URLSearchParams({
+      section: 'technical',
+      metric: rule.metric,
+      start: addMonths(period, -5),
+      end: period,
+    });
+    return `/?${query.toString()}`;
+  }
+
+  const query = new URLSearchParams({
+    section: 'daily',
+    dailyMetric: rule.metric,
+    startDate: addDaysToDateId(period, -20),
+    endDate: addDaysToDateId(period, 7),
+  });
+  return `/?${query.toString()}`;
+}
+
+export function groupAlertsByPeriod(alerts: AnalyticsAlert[] | undefined) {
+  const groups = new Map<string, AnalyticsAlert[]>();
+  for (const alert of alerts ?? []) {
+    const current = groups.get(alert.period) ?? [];
+    current.push(alert);
+    groups.set(alert.period, current);
+  }
+  return groups;
+}
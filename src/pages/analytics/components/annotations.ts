@@ -0,0 +1,99 @@
+import type {
+  AnalyticsAnnotation,
+  AnalyticsAnnotationCategory,
+  AnalyticsAnnotationEntity,
+  AnalyticsAnnotationEntityType,
+} from '@/app/analytics';
+
+export type AnnotationsByPeriod = Map<string, AnalyticsAnnotation[]>;
+
+export const ANNOTATION_CATEGORY_OPTIONS: Array<{
+  value: AnalyticsAnnotationCategory;
+  label: string;
+}> = [
+  { value: 'release', label: 'Release' },
+  { value: 'campaign', label: 'Campaign' },
+  { value: 'incident', label: 'Incident' },
+  { value: 'broadcast', label: 'Broadcast' },
+  { value: 'other', label: 'Other' },
+];
+
+export const ANNOTATION_ENTITY_OPTIONS: Array<{
+  value: AnalyticsAnnotationEntityType | 'none';
+  label: string;
+}> = [
+  { value: 'none', label: 'No link' },
+  { value: 'prompt', label: 'Prompt' },
+  { value: 'post', label: 'Post' },
+  { value: 'scenario', label: 'Scenario' },
+  { value: 'broadcast', label: 'Broadcast' },
+];
+
+export function formatAnnotationCategory(
+  category: AnalyticsAnnotationCategory,
+) {
+  return (
+    ANNOTATION_CATEGORY_OPTIONS.find((option) => option.value === category)
+      ?.label ?? category
+  );
+}
+
+export function getAnnotationEntityLink(entity: AnalyticsAnnotationEntity) {
+  const id = encodeURIComponent(entity.id);
+  switch (entity.type) {
+    case 'prompt':
+      return `/prompts/${id}`;
+    case 'post':
+      return `/posts?search=${id}`;
+    case 'scenario':
+      return `/chats?scenarioId=${id}`;
+    case 'broadcast':
+      return '/broadcast/history';
+    default:
+      return null;
+  }
+}
+
+export function formatAnnotationEntity(entity: AnalyticsAnnotationEntity) {
+  const type =
+    ANNOTATION_ENTITY_OPTIONS.find((option) => option.value === entity.type)
+      ?.label ?? entity.type;
+  return `${type}: ${entity.label || entity.id}`;
+}
+
+export function getMonthDateRange(startMonth: string, endMonth: string) {
+  const [year, month] = endMonth.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    from: `${startMonth}-01`,
+    to: `${endMonth}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+export function groupAnnotationsByDay(
+  annotations: AnalyticsAnnotation[] | undefined,
+): AnnotationsByPeriod {
+  return groupAnnotations(annotations, (annotation) => annotation.date);
+}
+
+export function groupAnnotationsByMonth(
+  annotations: AnalyticsAnnotation[] | undefined,
+): AnnotationsByPeriod {
+  return groupAnnotations(annotations, (annotation) =>
+    annotation.date.slice(0, 7),
+  );
+}
+
+function groupAnnotations(
+  annotations: AnalyticsAnnotation[] | undefined,
+  getPeriod: (annotation: AnalyticsAnnotation) => string,
+) {
+  const groups: AnnotationsByPeriod = new Map();
+  for (const annotation of annotations ?? []) {
+    const period = getPeriod(annotation);
+    const current = groups.get(period) ?? [];
+    current.push(annotation);
+    groups.set(period, current);
+  }
+  return groups;
+}
@@ -0,0 +1,164 @@
+import type { AnalyticsDashboardTile } from '@/app/analytics';
+
+import { createDashboardTileId } from './dashboardTiles';
+
+export type DashboardTemplateKey = 'blank' | 'growth' | 'finance';
+
+type DashboardTemplate = {
+  key: DashboardTemplateKey;
+  label: string;
+  description: string;
+  tiles: Array<Omit<AnalyticsDashboardTile, 'id'>>;
+};
+
+const DASHBOARD_TEMPLATES: DashboardTemplate[] = [
+  {
+    key: 'blank',
+    label: 'Blank',
+    description: 'Start from an empty dashboard.',
+    tiles: [],
+  },
+  {
+    key: 'growth',
+    label: 'Growth',
+    description: 'Acquisition, activation and retention.',
+    tiles: [
+      {
+        title: null,
+        type: 'kpi',
+        source: 'daily',
+        metrics: ['uniqueAll'],
+        range: { mode: 'relative', count: 30 },
+        comparison: 'previous_period',
+        width: 'small',
+      },
+      {
+        title: null,
+        type: 'kpi',
+        source: 'daily',
+        metrics: ['unique'],
+        range: { mode: 'relative', count: 30 },
+        comparison: 'previous_period',
+        width: 'small',
+      },
+      {
+        title: null,
+        type: 'kpi',
+        source: 'daily',
+        metrics: ['activationRate'],
+        range: { mode: 'relative', count: 30 },
+        comparison: 'previous_period',
+        width: 'small',
+      },
+      {
+        title: 'New and active users',
+        type: 'line',
+        source: 'daily',
+        metrics: ['uniqueAll', 'unique'],
+        range: { mode: 'relative', count: 30 },
+        comparison: 'none',
+        width: 'full',
+      },
+      {
+        title: 'Retention',
+        type: 'line',
+        source: 'monthly',
+        metrics: ['retentionD1', 'retentionD7', 'retentionD30'],
+        range: { mode: 'relative', count: 12 },
+        comparison: 'none',
+        width: 'medium',
+      },
+      {
+        title: 'Traffic',
+        type: 'table',
+        source: 'monthly',
+        metrics: ['visits', 'totalOrganic', 'totalPaid', 'bounceRate'],
+        range: { mode: 'relative', count: 6 },
+        comparison: 'previous_year',
+        width: 'medium',
+      },
+    ],
+  },
+  {
+    key: 'finance',
+    label: 'Finance',
+    description: 'Revenue, paying users and unit economics.',
+    tiles: [
+      {
+        title: null,
+        type: 'kpi',
+        source: 'monthly',
+        metrics: ['revenue'],
+        range: { mode: 'relative', count: 12 },
+        comparison: 'previous_year',
+        width: 'small',
+      },
+      {
+        title: null,
+        type: 'kpi',
+        source: 'monthly',
+        metrics: ['customers'],
+        range: { mode: 'relative', count: 12 },
+        comparison: 'previous_year',
+        width: 'small',
+      },
+      {
+        title: null,
+        type: 'kpi',
+        source: 'monthly',
+        metrics: ['totalLlmCost'],
+        range: { mode: 'relative', count: 12 },
+        comparison: 'previous_year',
+        width: 'small',
+      },
+      {
+        title: 'Revenue',
+        type: 'line',
+        source: 'monthly',
+        metrics: ['revenue'],
+        range: { mode: 'relative', count: 12 },
+        comparison: 'previous_year',
+        width: 'full',
+      },
+      {
+        title: 'Daily revenue',
+        type: 'line',
+        source: 'daily',
+        metrics: ['revenue'],
+        range: { mode: 'relative', count: 30 },
+        comparison: 'previous_period',
+        width: 'medium',
+      },
+      {
+        title: 'Unit economics',
+        type: 'table',
+        source: 'monthly',
+        metrics: [
+          'conversionRate',
+          'averageRevenuePerUser',
+          'averageRevenuePerCustomer',
+          'ltv',
+        ],
+        range: { mode: 'relative', count: 6 },
+        comparison: 'none',
+        width: 'medium',
+      },
+    ],
+  },
+];
+
+export function getDashboardTemplates() {
+  return DASHBOARD_TEMPLATES;
+}
+
+export function buildDashboardTemplateTiles(
+  key: DashboardTemplateKey,
+): AnalyticsDashboardTile[] {
+  const template =
+    DASHBOARD_TEMPLATES.find((item) => item.key === key) ??
+    DASHBOARD_TEMPLATES[0];
+  return template.tiles.map((tile) => ({
+    ...tile,
+    id: createDashboardTileId(),
+  }));
+}
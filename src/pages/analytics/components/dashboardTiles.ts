@@ -0,0 +1,410 @@
+import {
+  addMonths,
+  type AnalyticsDailyMetricKey,
+  type AnalyticsDashboardComparison,
+  type AnalyticsDashboardTile,
+  type AnalyticsDashboardTileSource,
+  type AnalyticsMetricKey,
+  type AnalyticsMetricsResponse,
+  type AnalyticsSection,
+  compareMonthIds,
+  type DailyAnalyticsItem,
+  diffInMonths,
+  formatMonthLabel,
+  getDailyMetricDefinition,
+  getLastFullMonthId,
+  getMetricDefinition,
+  getMonthRange,
+  isAnalyticsMetricKey,
+  isDailyMetricKey,
+  isValidMonthId,
+  type MetricAggregate,
+  type MetricFormatOptions,
+} from '@/app/analytics';
+
+export type DashboardTileMetric = MetricFormatOptions & {
+  key: AnalyticsMetricKey | AnalyticsDailyMetricKey;
+  label: string;
+  description: string;
+  aggregate: MetricAggregate | 'latest';
+  section: AnalyticsSection | null;
+};
+
+export type DashboardTilePeriod = {
+  start: string;
+  end: string;
+};
+
+export type DashboardSeriesPoint = {
+  x: string;
+  label: string;
+  value: number | null;
+  comparisonLabel: string | null;
+  comparisonValue: number | null;
+};
+
+export type DashboardSeries = {
+  metric: DashboardTileMetric;
+  points: DashboardSeriesPoint[];
+};
+
+export const MAX_TILE_MONTHS = 24;
+export const MAX_TILE_DAYS = 180;
+export const MAX_TILE_METRICS = 4;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const MONTHLY_RANGE_OPTIONS = [
+  { value: '3', label: 'Last 3 months' },
+  { value: '6', label: 'Last 6 months' },
+  { value: '12', label: 'Last 12 months' },
+  { value: '24', label: 'Last 24 months' },
+];
+
+export const DAILY_RANGE_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '14', label: 'Last 14 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+export const COMPARISON_OPTIONS: Array<{
+  value: AnalyticsDashboardComparison;
+  label: string;
+}> = [
+  { value: 'none', label: 'No comparison' },
+  { value: 'previous_period', label: 'Previous period' },
+  { value: 'previous_year', label: 'Same period last year' },
+];
+
+export const TILE_TYPE_OPTIONS = [
+  { value: 'kpi', label: 'KPI' },
+  { value: 'line', label: 'Line chart' },
+  { value: 'table', label: 'Table' },
+];
+
+export const TILE_SOURCE_OPTIONS = [
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'daily', label: 'Daily' },
+];
+
+export const TILE_WIDTH_OPTIONS = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Half' },
+  { value: 'full', label: 'Full' },
+];
+
+function toUtcDateId(date: Date) {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function parseUtcDateId(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function isValidDateId(
+  value: string | null | undefined,
+): value is string {
+  if (!value || !ISO_DATE_PATTERN.test(value)) return false;
+  return toUtcDateId(parseUtcDateId(value)) === value;
+}
+
+function addDaysToDateId(value: string, delta: number) {
+  const date = parseUtcDateId(value);
+  date.setUTCDate(date.getUTCDate() + delta);
+  return toUtcDateId(date);
+}
+
+function addYearsToDateId(value: string, delta: number) {
+  const date = parseUtcDateId(value);
+  date.setUTCFullYear(date.getUTCFullYear() + delta);
+  return toUtcDateId(date);
+}
+
+function diffInDays(start: string, end: string) {
+  const dayMs = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (parseUtcDateId(end).getTime() - parseUtcDateId(start).getTime()) / dayMs,
+  );
+}
+
+function getDayRange(start: string, end: string) {
+  const days: string[] = [];
+  let current = start;
+  while (current <= end) {
+    days.push(current);
+    current = addDaysToDateId(current, 1);
+  }
+  return days;
+}
+
+export function getYesterdayDateId() {
+  return addDaysToDateId(toUtcDateId(new Date()), -1);
+}
+
+export function formatDayLabel(
+  value: string,
+  variant: 'short' | 'long' = 'short',
+) {
+  if (!ISO_DATE_PATTERN.test(value)) return value;
+  const options: Intl.DateTimeFormatOptions =
+    variant === 'short'
+      ? { month: 'short', day: '2-digit', timeZone: 'UTC' }
+      : { month: 'long', day: '2-digit', year: 'numeric', timeZone: 'UTC' };
+  return new Intl.DateTimeFormat(undefined, options).format(
+    parseUtcDateId(value),
+  );
+}
+
+export function formatPeriodLabel(
+  source: AnalyticsDashboardTileSource,
+  value: string,
+  variant: 'short' | 'long' = 'short',
+) {
+  return source === 'monthly'
+    ? formatMonthLabel(value, variant)
+    : formatDayLabel(value, variant);
+}
+
+export function formatPeriodRange(
+  source: AnalyticsDashboardTileSource,
+  period: DashboardTilePeriod,
+) {
+  const start = formatPeriodLabel(source, period.start, 'long');
+  if (period.start === period.end) return start;
+  return `${start} – ${formatPeriodLabel(source, period.end, 'long')}`;
+}
+
+export function getTileMetric(
+  source: AnalyticsDashboardTileSource,
+  key: string,
+): DashboardTileMetric | null {
+  if (source === 'monthly') {
+    if (!isAnalyticsMetricKey(key)) return null;
+    const definition = getMetricDefinition(key);
+    if (!definition) return null;
+    return {
+      key: definition.key,
+      label: definition.label,
+      description: definition.description,
+      format: definition.format,
+      precision: definition.precision,
+      currency: definition.currency,
+      durationUnit: definition.durationUnit,
+      polarity: definition.polarity,
+      aggregate: 'latest',
+      section: definition.section,
+    };
+  }
+
+  if (!isDailyMetricKey(key)) return null;
+  const definition = getDailyMetricDefinition(key);
+  if (!definition) return null;
+  return {
+    key: definition.key,
+    label: definition.label,
+    description: definition.description,
+    format: definition.format,
+    precision: definition.precision,
+    currency: definition.currency,
+    polarity: definition.polarity,
+    aggregate: definition.aggregate,
+    section: null,
+  };
+}
+
+export function getTileMetrics(tile: AnalyticsDashboardTile) {
+  return tile.metrics.flatMap((key) => {
+    const metric = getTileMetric(tile.source, key);
+    return metric ? [metric] : [];
+  });
+}
+
+export function getTileTitle(tile: AnalyticsDashboardTile) {
+  if (tile.title?.trim()) return tile.title.trim();
+  const labels = getTileMetrics(tile).map((metric) => metric.label);
+  return labels.length > 0 ? labels.join(', ') : 'Untitled tile';
+}
+
+export function resolveTilePeriod(
+  tile: AnalyticsDashboardTile,
+): DashboardTilePeriod {
+  if (tile.source === 'monthly') {
+    const lastMonth = getLastFullMonthId();
+    if (tile.range.mode === 'relative') {
+      const count = Math.min(Math.max(tile.range.count, 1), MAX_TILE_MONTHS);
+      return { start: addMonths(lastMonth, -(count - 1)), end: lastMonth };
+    }
+    let start = isValidMonthId(tile.range.start) ? tile.range.start : lastMonth;
+    let end = isValidMonthId(tile.range.end) ? tile.range.end : lastMonth;
+    if (compareMonthIds(start, end) > 0) [start, end] = [end, start];
+    if (diffInMonths(start, end) >= MAX_TILE_MONTHS) {
+      start = addMonths(end, -(MAX_TILE_MONTHS - 1));
+    }
+    return { start, end };
+  }
+
+  const yesterday = getYesterdayDateId();
+  if (tile.range.mode === 'relative') {
+    const count = Math.min(Math.max(tile.range.count, 1), MAX_TILE_DAYS);
+    return { start: addDaysToDateId(yesterday, -(count - 1)), end: yesterday };
+  }
+  let start = isValidDateId(tile.range.start) ? tile.range.start : yesterday;
+  let end = isValidDateId(tile.range.end) ? tile.range.end : yesterday;
+  if (start > end) [start, end] = [end, start];
+  if (diffInDays(start, end) >= MAX_TILE_DAYS) {
+    start = addDaysToDateId(end, -(MAX_TILE_DAYS - 1));
+  }
+  return { start, end };
+}
+
+export function getComparisonPeriod(
+  tile: AnalyticsDashboardTile,
+  period: DashboardTilePeriod,
+): DashboardTilePeriod | null {
+  if (tile.comparison === 'none') return null;
+
+  if (tile.source === 'monthly') {
+    const shift =
+      tile.comparison === 'previous_year'
+        ? -12
+        : -(diffInMonths(period.start, period.end) + 1);
+    return {
+      start: addMonths(period.start, shift),
+      end: addMonths(period.end, shift),
+    };
+  }
+
+  if (tile.comparison === 'previous_year') {
+    return {
+      start: addYearsToDateId(period.start, -1),
+      end: addYearsToDateId(period.end, -1),
+    };
+  }
+  const shift = -(diffInDays(period.start, period.end) + 1);
+  return {
+    start: addDaysToDateId(period.start, shift),
+    end: addDaysToDateId(period.end, shift),
+  };
+}
+
+export function getPeriodKeys(
+  source: AnalyticsDashboardTileSource,
+  period: DashboardTilePeriod,
+) {
+  return source === 'monthly'
+    ? getMonthRange(period.start, period.end)
+    : getDayRange(period.start, period.end);
+}
+
+export function groupMetricsBySection(metrics: DashboardTileMetric[]) {
+  const groups = new Map<AnalyticsSection, AnalyticsMetricKey[]>();
+  for (const metric of metrics) {
+    if (!metric.section || !isAnalyticsMetricKey(metric.key)) continue;
+    const keys = groups.get(metric.section) ?? [];
+    keys.push(metric.key);
+    groups.set(metric.section, keys);
+  }
+  return [...groups.entries()].map(([section, keys]) => ({ section, keys }));
+}
+
+function toNumber(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export function collectMonthlyValues(responses: AnalyticsMetricsResponse[]) {
+  const values = new Map<string, number | null>();
+  for (const response of responses) {
+    for (const series of response.metrics) {
+      for (const point of series.data) {
+        values.set(
+          `${series.metric}:${point.month.slice(0, 7)}`,
+          toNumber(point.value),
+        );
+      }
+    }
+  }
+  return values;
+}
+
+export function collectDailyValues(
+  items: DailyAnalyticsItem[],
+  metrics: DashboardTileMetric[],
+) {
+  const values = new Map<string, number | null>();
+  for (const item of items) {
+    const day = item.day.slice(0, 10);
+    for (const metric of metrics) {
+      values.set(
+        `${metric.key}:${day}`,
+        toNumber(item[metric.key as keyof DailyAnalyticsItem]),
+      );
+    }
+  }
+  return values;
+}
+
+export function buildDashboardSeries({
+  source,
+  metrics,
+  period,
+  comparisonPeriod,
+  values,
+  comparisonValues,
+}: {
+  source: AnalyticsDashboardTileSource;
+  metrics: DashboardTileMetric[];
+  period: DashboardTilePeriod;
+  comparisonPeriod: DashboardTilePeriod | null;
+  values: Map<string, number | null>;
+  comparisonValues: Map<string, number | null>;
+}): DashboardSeries[] {
+  const keys = getPeriodKeys(source, period);
+  const comparisonKeys = comparisonPeriod
+    ? getPeriodKeys(source, comparisonPeriod)
+    : [];
+
+  return metrics.map((metric) => ({
+    metric,
+    points: keys.map((x, index) => {
+      const comparisonX = comparisonKeys[index] ?? null;
+      return {
+        x,
+        label: formatPeriodLabel(source, x, 'long'),
+        value: values.get(`${metric.key}:${x}`) ?? null,
+        comparisonLabel: comparisonX
+          ? formatPeriodLabel(source, comparisonX, 'long')
+          : null,
+        comparisonValue: comparisonX
+          ? (comparisonValues.get(`${metric.key}:${comparisonX}`) ?? null)
+          : null,
+      };
+    }),
+  }));
+}
+
+export function aggregateSeries(
+  metric: DashboardTileMetric,
+  values: Array<number | null>,
+) {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  if (metric.aggregate === 'latest') return values[values.length - 1] ?? null;
+  const total = present.reduce((sum, value) => sum + value, 0);
+  return metric.aggregate === 'sum' ? total : total / present.length;
+}
+
+export function createDashboardTileId() {
+  if (
+    typeof window !== 'undefined' &&
+    window.crypto &&
+    typeof window.crypto.randomUUID === 'function'
+  ) {
+    return window.crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
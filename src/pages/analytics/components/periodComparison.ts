@@ -0,0 +1,155 @@
+import { addMonths, diffInMonths, isValidMonthId } from '@/app/analytics';
+
+export type ComparisonMode =
+  | 'none'
+  | 'previous_period'
+  | 'previous_year'
+  | 'custom';
+
+export type ComparisonGranularity = 'month' | 'day';
+
+export type ComparisonPeriod = {
+  start: string;
+  end: string;
+};
+
+type CustomComparison = {
+  start: string | null | undefined;
+  end: string | null | undefined;
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const COMPARISON_MODE_OPTIONS: Array<{
+  value: ComparisonMode;
+  label: string;
+}> = [
+  { value: 'none', label: 'No comparison' },
+  { value: 'previous_period', label: 'Previous period' },
+  { value: 'previous_year', label: 'Same period last year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+export function isComparisonMode(
+  value: string | null | undefined,
+): value is ComparisonMode {
+  return (
+    value === 'none' ||
+    value === 'previous_period' ||
+    value === 'previous_year' ||
+    value === 'custom'
+  );
+}
+
+function toUtcDateId(date: Date) {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function parseUtcDateId(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function isValidDateId(value: string | null | undefined): value is string {
+  if (!value || !ISO_DATE_PATTERN.test(value)) return false;
+  return toUtcDateId(parseUtcDateId(value)) === value;
+}
+
+function addDaysToDateId(value: string, delta: number) {
+  const date = parseUtcDateId(value);
+  date.setUTCDate(date.getUTCDate() + delta);
+  return toUtcDateId(date);
+}
+
+function addYearsToDateId(value: string, delta: number) {
+  const date = parseUtcDateId(value);
+  date.setUTCFullYear(date.getUTCFullYear() + delta);
+  return toUtcDateId(date);
+}
+
+function diffInDays(start: string, end: string) {
+  const dayMs = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (parseUtcDateId(end).getTime() - parseUtcDateId(start).getTime()) / dayMs,
+  );
+}
+
+export function isValidComparisonId(
+  granularity: ComparisonGranularity,
+  value: string | null | undefined,
+): value is string {
+  return granularity === 'month' ? isValidMonthId(value) : isValidDateId(value);
+}
+
+export function shiftComparisonId(
+  granularity: ComparisonGranularity,
+  value: string,
+  delta: number,
+) {
+  return granularity === 'month'
+    ? addMonths(value, delta)
+    : addDaysToDateId(value, delta);
+}
+
+export function getComparisonOffset(
+  granularity: ComparisonGranularity,
+  period: ComparisonPeriod,
+  comparison: ComparisonPeriod,
+) {
+  return granularity === 'month'
+    ? diffInMonths(period.start, comparison.start)
+    : diffInDays(period.start, comparison.start);
+}
+
+export function getComparisonPeriod(
+  granularity: ComparisonGranularity,
+  mode: ComparisonMode,
+  period: ComparisonPeriod,
+  custom: CustomComparison,
+): ComparisonPeriod | null {
+  const length =
+    granularity === 'month'
+      ? diffInMonths(period.start, period.end)
+      : diffInDays(period.start, period.end);
+
+  switch (mode) {
+    case 'previous_period': {
+      const start = shiftComparisonId(granularity, period.start, -(length + 1));
+      return { start, end: shiftComparisonId(granularity, start, length) };
+    }
+    case 'previous_year': {
+      const start =
+        granularity === 'month'
+          ? addMonths(period.start, -12)
+          : addYearsToDateId(period.start, -1);
+      return { start, end: shiftComparisonId(granularity, start, length) };
+    }
+    case 'custom': {
+      if (!isValidComparisonId(granularity, custom.start)) return null;
+      const maxEnd = shiftComparisonId(granularity, custom.start, length);
+      const end =
+        isValidComparisonId(granularity, custom.end) &&
+        custom.end >= custom.start &&
+        custom.end < maxEnd
+          ? custom.end
+          : maxEnd;
+      return { start: custom.start, end };
+    }
+    default:
+      return null;
+  }
+}
+
+export function getComparisonLabel(mode: ComparisonMode) {
+  switch (mode) {
+    case 'previous_year':
+      return 'last year';
+    case 'custom':
+      return 'custom range';
+    default:
+      return 'prev.';
+  }
+}
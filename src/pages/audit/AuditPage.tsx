@@ -0,0 +1,541 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import { useAdmins } from '@/app/admins';
+import { useAuditLogs } from '@/app/audit';
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  EmptyState,
+  Field,
+  Input,
+  Modal,
+  Pagination,
+  Select,
+  Skeleton,
+  Stack,
+  Table,
+  Typography,
+} from '@/atoms';
+import { AuditAction, AuditEntityType, type IAuditLog } from '@/common/types';
+import {
+  auditActionOptions,
+  auditEntityTypeOptions,
+  formatAuditAction,
+  formatAuditAdmin,
+  formatAuditEntityType,
+  getAuditEntityPath,
+} from '@/common/utils';
+import { AuditChanges } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import s from './AuditPage.module.scss';
+
+type QueryUpdate = {
+  adminId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  order?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+const ORDER_OPTIONS = [
+  { label: 'Newest first', value: 'DESC' },
+  { label: 'Oldest first', value: 'ASC' },
+];
+
+const ORDER_VALUES = new Set(ORDER_OPTIONS.map((option) => option.value));
+const ENTITY_TYPE_VALUES = new Set<string>(Object.values(AuditEntityType));
+const ACTION_VALUES = new Set<string>(Object.values(AuditAction));
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const DEFAULT_ORDER = 'DESC';
+const DEFAULT_PAGE_SIZE = 50;
+const ENTITY_ID_DEBOUNCE_MS = 400;
+
+const actionTones = {
+  [AuditAction.Create]: 'success',
+  [AuditAction.Update]: 'accent',
+  [AuditAction.Delete]: 'danger',
+} as const;
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'medium',
+});
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return '-';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+function parsePositiveNumber(value: string | null, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.floor(parsed);
+}
+
+function parsePageSize(value: string | null) {
+  const parsed = parsePositiveNumber(value, DEFAULT_PAGE_SIZE);
+  return PAGE_SIZE_OPTIONS.includes(parsed) ? parsed : DEFAULT_PAGE_SIZE;
+}
+
+export function AuditPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const adminId = searchParams.get('adminId') ?? '';
+  const rawEntityType = searchParams.get('entityType') ?? '';
+  const rawEntityId = searchParams.get('entityId') ?? '';
+  const rawAction = searchParams.get('action') ?? '';
+  const rawOrder = searchParams.get('order');
+  const rawPage = searchParams.get('page');
+  const rawPageSize = searchParams.get('pageSize');
+
+  const entityType = ENTITY_TYPE_VALUES.has(rawEntityType)
+    ? (rawEntityType as AuditEntityType)
+    : '';
+  const action = ACTION_VALUES.has(rawAction) ? (rawAction as AuditAction) : '';
+  const order = ORDER_VALUES.has(rawOrder ?? '') ? rawOrder! : DEFAULT_ORDER;
+  const page = parsePositiveNumber(rawPage, 1);
+  const pageSize = parsePageSize(rawPageSize);
+
+  const [entityIdInput, setEntityIdInput] = useState(rawEntityId);
+  const debouncedEntityId = useDebouncedValue(
+    entityIdInput.trim(),
+    ENTITY_ID_DEBOUNCE_MS,
+  );
+  const [selectedEntry, setSelectedEntry] = useState<IAuditLog | null>(null);
+
+  const updateSearchParams = useCallback(
+    (update: QueryUpdate, replace = false) => {
+      const next = new URLSearchParams(searchParams);
+
+      const setOrDelete = (key: string, value: string | undefined) => {
+        if (value === undefined) return;
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      };
+
+      setOrDelete('adminId', update.adminId);
+      setOrDelete('entityType', update.entityType);
+      setOrDelete('entityId', update.entityId?.trim());
+      setOrDelete('action', update.action);
+
+      if (update.order !== undefined) {
+        if (update.order && update.order !== DEFAULT_ORDER) {
+          next.set('order', update.order);
+        } else {
+          next.delete('order');
+        }
+      }
+
+      if (update.page !== undefined) {
+        if (update.page > 1) {
+          next.set('page', String(update.page));
+        } else {
+          next.delete('page');
+        }
+      }
+
+      if (update.pageSize !== undefined) {
+        if (update.pageSize !== DEFAULT_PAGE_SIZE) {
+          next.set('pageSize', String(update.pageSize));
+        } else {
+          next.delete('pageSize');
+        }
+      }
+
+      setSearchParams(next, { replace });
+    },
+    [searchParams, setSearchParams],
+  );
+
+  useEffect(() => {
+    setEntityIdInput(rawEntityId);
+  }, [rawEntityId]);
+
+  useEffect(() => {
+    if (debouncedEntityId === rawEntityId) return;
+    updateSearchParams({ entityId: debouncedEntityId, page: 1 }, true);
+  }, [debouncedEntityId, rawEntityId, updateSearchParams]);
+
+  const queryParams = useMemo(
+    () => ({
+      adminId: adminId || undefined,
+      entityType: entityType || undefined,
+      entityId: rawEntityId || undefined,
+      action: action || undefined,
+      order,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    [action, adminId, entityType, order, page, pageSize, rawEntityId],
+  );
+
+  const { data, error, isLoading, refetch } = useAuditLogs(queryParams);
+  const { data: adminsData } = useAdmins({ order: 'ASC', skip: 0, take: 100 });
+
+  const adminOptions = useMemo(
+    () => [
+      { label: 'All admins', value: '' },
+      ...(adminsData?.data ?? []).map((admin) => ({
+        label: formatAuditAdmin(admin),
+        value: admin.id,
+      })),
+    ],
+    [adminsData?.data],
+  );
+
+  const entries = useMemo(() => data?.data ?? [], [data?.data]);
+  const total = data?.total ?? 0;
+  const effectiveTake = data?.take ?? pageSize;
+  const effectiveSkip = data?.skip ?? (page - 1) * pageSize;
+  const totalPages = total > 0 ? Math.ceil(total / effectiveTake) : 1;
+
+  useEffect(() => {
+    if (!data || total === 0) return;
+    if (page > totalPages) {
+      updateSearchParams({ page: totalPages }, true);
+    }
+  }, [data, page, total, totalPages, updateSearchParams]);
+
+  const hasFilters = Boolean(adminId || entityType || rawEntityId || action);
+
+  const columns = useMemo(
+    () => [
+      { key: 'time', label: 'Time' },
+      { key: 'admin', label: 'Admin' },
+      { key: 'action', label: 'Action' },
+      { key: 'target', label: 'Target' },
+      { key: 'actions', label: '' },
+    ],
+    [],
+  );
+
+  const rows = useMemo(
+    () =>
+      entries.map((entry) => {
+        const entityPath = getAuditEntityPath(entry);
+        const targetLabel = entry.entityLabel || entry.entityId;
+        return {
+          time: (
+            <Typography variant="caption" tone="muted">
+              {formatDate(entry.createdAt)}
+            </Typography>
+          ),
+          admin: (
+            <div className={s.stackCell}>
+              <Typography variant="body">
+                {formatAuditAdmin(entry.admin)}
+              </Typography>
+              {entry.admin?.email ? (
+                <Typography variant="caption" tone="muted">
+                  {entry.admin.email}
+                </Typography>
+              ) : null}
+            </div>
+          ),
+          action: (
+            <Badge tone={actionTones[entry.action]} outline>
+              {formatAuditAction(entry.action)}
+            </Badge>
+          ),
+          target: (
+            <div className={s.stackCell}>
+              {entityPath ? (
+                <Link to={entityPath} className={s.targetLink}>
+                  {targetLabel}
+                </Link>
+              ) : (
+                <Typography variant="body">{targetLabel}</Typography>
+              )}
+              <Typography variant="caption" tone="muted">
+                {formatAuditEntityType(entry.entityType)}
+                {entry.entityLabel ? ` · ${entry.entityId}` : ''}
+              </Typography>
+            </div>
+          ),
+          actions: (
+            <div className={s.actionsCell}>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  updateSearchParams({
+                    entityType: entry.entityType,
+                    entityId: entry.entityId,
+                    page: 1,
+                  })
+                }
+              >
+                History
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setSelectedEntry(entry)}
+              >
+                Changes
+              </Button>
+            </div>
+          ),
+        };
+      }),
+    [entries, updateSearchParams],
+  );
+
+  const skeletonRows = useMemo(
+    () =>
+      Array.from({ length: 8 }, (_, index) => ({
+        time: <Skeleton key={`audit-skel-${index}`} width={140} height={12} />,
+        admin: (
+          <div className={s.stackCell}>
+            <Skeleton width={120} height={12} />
+            <Skeleton width={160} height={10} />
+          </div>
+        ),
+        action: <Skeleton width={70} height={20} />,
+        target: (
+          <div className={s.stackCell}>
+            <Skeleton width={160} height={12} />
+            <Skeleton width={80} height={10} />
+          </div>
+        ),
+        actions: (
+          <div className={s.actionsCell}>
+            <Skeleton width={150} height={28} />
+          </div>
+        ),
+      })),
+    [],
+  );
+
+  const showSkeleton = isLoading && !data;
+  const showEmpty = !showSkeleton && !error && entries.length === 0;
+  const showTable = !showEmpty && !error;
+  const showFooter = showTable && !showSkeleton;
+
+  const rangeStart = total === 0 ? 0 : effectiveSkip + 1;
+  const rangeEnd =
+    total === 0 ? 0 : Math.min(effectiveSkip + effectiveTake, total);
+
+  return (
+    <AppShell>
+      <Container size="wide" className={s.page}>
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Audit log</Typography>
+            <Typography variant="body" tone="muted">
+              Every change made through the admin panel.
+            </Typography>
+          </div>
+          {hasFilters ? (
+            <Button
+              variant="ghost"
+              onClick={() =>
+                updateSearchParams({
+                  adminId: '',
+                  entityType: '',
+                  entityId: '',
+                  action: '',
+                  page: 1,
+                })
+              }
+            >
+              Clear filters
+            </Button>
+          ) : null}
+        </div>
+
+        <div className={s.filterRow}>
+          <Field label="Admin" labelFor="audit-admin">
+            <Select
+              id="audit-admin"
+              options={adminOptions}
+              value={adminId}
+              size="sm"
+              onChange={(value) =>
+                updateSearchParams({ adminId: value, page: 1 })
+              }
+              fullWidth
+            />
+          </Field>
+          <Field label="Entity type" labelFor="audit-entity-type">
+            <Select
+              id="audit-entity-type"
+              options={[
+                { label: 'All entities', value: '' },
+                ...auditEntityTypeOptions,
+              ]}
+              value={entityType}
+              size="sm"
+              onChange={(value) =>
+                updateSearchParams({ entityType: value, page: 1 })
+              }
+              fullWidth
+            />
+          </Field>
+          <Field label="Action" labelFor="audit-action">
+            <Select
+              id="audit-action"
+              options={[
+                { label: 'All actions', value: '' },
+                ...auditActionOptions,
+              ]}
+              value={action}
+              size="sm"
+              onChange={(value) =>
+                updateSearchParams({ action: value, page: 1 })
+              }
+              fullWidth
+            />
+          </Field>
+          <Field
+            className={s.filterField}
+            label="Entity ID"
+            labelFor="audit-entity-id"
+          >
+            <Input
+              id="audit-entity-id"
+              size="sm"
+              placeholder="Paste an ID"
+              value={entityIdInput}
+              onChange={(event) => setEntityIdInput(event.target.value)}
+              fullWidth
+            />
+          </Field>
+          <Field label="Order" labelFor="audit-order">
+            <Select
+              id="audit-order"
+              options={ORDER_OPTIONS}
+              value={order}
+              size="sm"
+              variant="ghost"
+              onChange={(value) =>
+                updateSearchParams({ order: value, page: 1 })
+              }
+            />
+          </Field>
+        </div>
+
+        {error ? (
+          <Stack className={s.state} gap="12px">
+            <Alert
+              title="Unable to load the audit log"
+              description={
+                error instanceof Error ? error.message : 'Please try again.'
+              }
+              tone="warning"
+            />
+            <Button variant="secondary" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </Stack>
+        ) : null}
+
+        {showEmpty ? (
+          <EmptyState
+            title="No changes found"
+            description={
+              hasFilters
+                ? 'Try adjusting your filters.'
+                : 'Changes will appear here once admins edit data.'
+            }
+          />
+        ) : null}
+
+        {showTable ? (
+          <div className={s.tableWrap}>
+            <Table
+              columns={columns}
+              rows={showSkeleton ? skeletonRows : rows}
+            />
+
+            {showFooter ? (
+              <div className={s.footer}>
+                <Typography variant="meta" tone="muted">
+                  {total === 0
+                    ? 'No results'
+                    : `Showing ${rangeStart}-${rangeEnd} of ${total.toLocaleString()}`}
+                </Typography>
+                <div className={s.paginationRow}>
+                  <Select
+                    options={PAGE_SIZE_OPTIONS.map((size) => ({
+                      label: `${size} / page`,
+                      value: String(size),
+                    }))}
+                    size="sm"
+                    variant="ghost"
+                    value={String(pageSize)}
+                    onChange={(value) =>
+                      updateSearchParams({
+                        pageSize: Number(value),
+                        page: 1,
+                      })
+                    }
+                    fitContent
+                  />
+                  {totalPages > 1 ? (
+                    <Pagination
+                      page={page}
+                      totalPages={totalPages}
+                      onChange={(nextPage) =>
+                        updateSearchParams({ page: nextPage })
+                      }
+                    />
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </Container>
+
+      <Modal
+        open={Boolean(selectedEntry)}
+        title={
+          selectedEntry
+            ? `${formatAuditAction(selectedEntry.action)} ${formatAuditEntityType(
+                selectedEntry.entityType,
+              ).toLowerCase()}`
+            : 'Changes'
+        }
+        onClose={() => setSelectedEntry(null)}
+        className={s.changesModal}
+      >
+        {selectedEntry ? (
+          <Stack gap="12px">
+            <Typography variant="caption" tone="muted">
+              {`${formatAuditAdmin(selectedEntry.admin)} · ${formatDate(
+                selectedEntry.createdAt,
+              )} · ${selectedEntry.entityLabel || selectedEntry.entityId}`}
+            </Typography>
+            <AuditChanges
+              before={selectedEntry.before}
+              after={selectedEntry.after}
+            />
+          </Stack>
+        ) : null}
+      </Modal>
+    </AppShell>
+  );
+}
@@ -0,0 +1,831 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import { usePermissions } from '@/app/auth';
+import {
+  useBroadcasts,
+  useBroadcastStats,
+  useCancelBroadcast,
+  useUpdateBroadcast,
+} from '@/app/broadcast';
+import { SendIcon } from '@/assets/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  EmptyState,
+  Field,
+  FormRow,
+  Input,
+  Modal,
+  Pagination,
+  Select,
+  Skeleton,
+  Stack,
+  Table,
+  Textarea,
+  Typography,
+} from '@/atoms';
+import {
+  type BroadcastDeliveryStats,
+  BroadcastRecurrence,
+  BroadcastStatus,
+  type IBroadcast,
+  Permission,
+} from '@/common/types';
+import { ConfirmModal } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import s from './BroadcastHistoryPage.module.scss';
+
+type QueryUpdate = {
+  status?: string;
+  order?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+type RecurrenceValue = 'none' | BroadcastRecurrence;
+
+type EditValues = {
+  text: string;
+  sendAt: string;
+  recurrence: RecurrenceValue;
+};
+
+const STATUS_OPTIONS = [
+  { label: 'All statuses', value: '' },
+  { label: 'Pending', value: BroadcastStatus.Pending },
+  { label: 'Sending', value: BroadcastStatus.Sending },
+  { label: 'Sent', value: BroadcastStatus.Sent },
+  { label: 'Cancelled', value: BroadcastStatus.Cancelled },
+  { label: 'Failed', value: BroadcastStatus.Failed },
+];
+
+const ORDER_OPTIONS = [
+  { label: 'Ascending', value: 'ASC' },
+  { label: 'Descending', value: 'DESC' },
+];
+
+const RECURRENCE_OPTIONS = [
+  { label: 'Does not repeat', value: 'none' },
+  { label: 'Daily', value: BroadcastRecurrence.Daily },
+  { label: 'Weekly', value: BroadcastRecurrence.Weekly },
+];
+
+const STATUS_VALUES = new Set<string>(Object.values(BroadcastStatus));
+const ORDER_VALUES = new Set(ORDER_OPTIONS.map((option) => option.value));
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const DEFAULT_ORDER = 'DESC';
+const DEFAULT_PAGE_SIZE = 20;
+const MESSAGE_PREVIEW_LENGTH = 120;
+
+const statusTones: Record<
+  BroadcastStatus,
+  'accent' | 'success' | 'warning' | 'danger'
+> = {
+  [BroadcastStatus.Pending]: 'accent',
+  [BroadcastStatus.Sending]: 'accent',
+  [BroadcastStatus.Sent]: 'success',
+  [BroadcastStatus.Cancelled]: 'warning',
+  [BroadcastStatus.Failed]: 'danger',
+};
+
+const statusLabels: Record<BroadcastStatus, string> = {
+  [BroadcastStatus.Pending]: 'Pending',
+  [BroadcastStatus.Sending]: 'Sending',
+  [BroadcastStatus.Sent]: 'Sent',
+  [BroadcastStatus.Cancelled]: 'Cancelled',
+  [BroadcastStatus.Failed]: 'Failed',
+};
+
+const recurrenceLabels: Record<BroadcastRecurrence, string> = {
+  [BroadcastRecurrence.Daily]: 'Daily',
+  [BroadcastRecurrence.Weekly]: 'Weekly',
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return '-';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+function toDateTimeInputValue(value: string | null | undefined) {
+  if (!value) return '';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '';
+  const offset = parsed.getTimezoneOffset() * 60_000;
+  return new Date(parsed.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function parsePositiveNumber(value: string | null, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.floor(parsed);
+}
+
+function parsePageSize(value: string | null) {
+  const parsed = parsePositiveNumber(value, DEFAULT_PAGE_SIZE);
+  return PAGE_SIZE_OPTIONS.includes(parsed) ? parsed : DEFAULT_PAGE_SIZE;
+}
+
+function formatMessagePreview(text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) return 'No text';
+  if (trimmed.length <= MESSAGE_PREVIEW_LENGTH) return trimmed;
+  return `${trimmed.slice(0, MESSAGE_PREVIEW_LENGTH).trimEnd()}...`;
+}
+
+function formatRate(value: number, total: number) {
+  if (total <= 0) return '-';
+  return `${((value / total) * 100).toFixed(1)}%`;
+}
+
+function hasVariants(broadcast: IBroadcast) {
+  return broadcast.variants.length > 1;
+}
+
+function hasResults(broadcast: IBroadcast) {
+  return (
+    broadcast.status === BroadcastStatus.Sending ||
+    broadcast.status === BroadcastStatus.Sent ||
+    Boolean(broadcast.recurrence && broadcast.sentAt)
+  );
+}
+
+function hasAbsoluteDateFilters(broadcast: IBroadcast) {
+  return Boolean(
+    broadcast.filters.lastVisitedAfter || broadcast.filters.lastVisitedBefore,
+  );
+}
+
+export function BroadcastHistoryPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rawStatus = searchParams.get('status');
+  const rawOrder = searchParams.get('order');
+  const rawPage = searchParams.get('page');
+  const rawPageSize = searchParams.get('pageSize');
+
+  const status = STATUS_VALUES.has(rawStatus ?? '')
+    ? (rawStatus as BroadcastStatus)
+    : undefined;
+  const order = ORDER_VALUES.has(rawOrder ?? '') ? rawOrder! : DEFAULT_ORDER;
+  const page = parsePositiveNumber(rawPage, 1);
+  const pageSize = parsePageSize(rawPageSize);
+
+  const updateSearchParams = useCallback(
+    (update: QueryUpdate, replace = false) => {
+      const next = new URLSearchParams(searchParams);
+
+      if (update.status !== undefined) {
+        if (update.status) {
+          next.set('status', update.status);
+        } else {
+          next.delete('status');
+        }
+      }
+
+      if (update.order !== undefined) {
+        if (update.order && update.order !== DEFAULT_ORDER) {
+          next.set('order', update.order);
+        } else {
+          next.delete('order');
+        }
+      }
+
+      if (update.page !== undefined) {
+        if (update.page > 1) {
+          next.set('page', String(update.page));
+        } else {
+          next.delete('page');
+        }
+      }
+
+      if (update.pageSize !== undefined) {
+        if (update.pageSize !== DEFAULT_PAGE_SIZE) {
+          next.set('pageSize', String(update.pageSize));
+        } else {
+          next.delete('pageSize');
+        }
+      }
+
+      setSearchParams(next, { replace });
+    },
+    [searchParams, setSearchParams],
+  );
+
+  const queryParams = useMemo(
+    () => ({
+      status,
+      order,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    [status, order, page, pageSize],
+  );
+
+  const { data, error, isLoading, refetch } = useBroadcasts(queryParams);
+  const updateMutation = useUpdateBroadcast();
+  const cancelMutation = useCancelBroadcast();
+  const { can } = usePermissions();
+  const canSendBroadcast = can(Permission.BroadcastSend);
+
+  const [editTarget, setEditTarget] = useState<IBroadcast | null>(null);
+  const [editValues, setEditValues] = useState<EditValues>({
+    text: '',
+    sendAt: '',
+    recurrence: 'none',
+  });
+  const [editShowErrors, setEditShowErrors] = useState(false);
+  const [isSendAtInPast, setIsSendAtInPast] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<IBroadcast | null>(null);
+  const [resultsTarget, setResultsTarget] = useState<IBroadcast | null>(null);
+  const {
+    data: stats,
+    error: statsError,
+    isLoading: isStatsLoading,
+  } = useBroadcastStats(resultsTarget?.id ?? null);
+
+  const broadcasts = useMemo(() => data?.data ?? [], [data]);
+  const total = data?.total ?? 0;
+  const effectiveTake = data?.take ?? pageSize;
+  const effectiveSkip = data?.skip ?? (page - 1) * pageSize;
+  const totalPages = total > 0 ? Math.ceil(total / effectiveTake) : 1;
+
+  useEffect(() => {
+    if (!data || total === 0) return;
+    if (page > totalPages) {
+      updateSearchParams({ page: totalPages }, true);
+    }
+  }, [data, page, total, totalPages, updateSearchParams]);
+
+  const editErrors = useMemo(() => {
+    if (!editShowErrors || !editTarget) return {};
+    const errors: { text?: string; sendAt?: string; recurrence?: string } = {};
+    if (!hasVariants(editTarget) && !editValues.text.trim()) {
+      errors.text = 'Enter a message.';
+    }
+    const parsedSendAt = editValues.sendAt ? new Date(editValues.sendAt) : null;
+    if (!parsedSendAt || Number.isNaN(parsedSendAt.getTime())) {
+      errors.sendAt = 'Choose when to send the broadcast.';
+    } else if (isSendAtInPast) {
+      errors.sendAt = 'Send time must be in the future.';
+    }
+    if (
+      editValues.recurrence !== 'none' &&
+      hasAbsoluteDateFilters(editTarget)
+    ) {
+      errors.recurrence =
+        'Recurring broadcasts need relative filters (days) instead of fixed dates.';
+    }
+    return errors;
+  }, [editShowErrors, editTarget, editValues, isSendAtInPast]);
+
+  const openEditModal = (broadcast: IBroadcast) => {
+    setEditValues({
+      text: broadcast.message.text,
+      sendAt: toDateTimeInputValue(broadcast.nextRunAt ?? broadcast.sendAt),
+      recurrence: broadcast.recurrence ?? 'none',
+    });
+    setEditShowErrors(false);
+    setIsSendAtInPast(false);
+    setEditTarget(broadcast);
+  };
+
+  const closeEditModal = () => {
+    if (updateMutation.isPending) return;
+    setEditTarget(null);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editTarget) return;
+    const parsedSendAt = new Date(editValues.sendAt);
+    const isPast = parsedSendAt.getTime() <= Date.now();
+    setIsSendAtInPast(isPast);
+    const isInvalid =
+      (!hasVariants(editTarget) && !editValues.text.trim()) ||
+      Number.isNaN(parsedSendAt.getTime()) ||
+      isPast ||
+      (editValues.recurrence !== 'none' && hasAbsoluteDateFilters(editTarget));
+    if (isInvalid) {
+      setEditShowErrors(true);
+      return;
+    }
+    await updateMutation.mutateAsync({
+      broadcast: editTarget,
+      payload: {
+        message: hasVariants(editTarget)
+          ? editTarget.message
+          : { ...editTarget.message, text: editValues.text.trim() },
+        filters: editTarget.filters,
+        variants: hasVariants(editTarget)
+          ? editTarget.variants.map(({ name, percentage, message }) => ({
+              name,
+              percentage,
+              message,
+            }))
+          : undefined,
+        sendAt: parsedSendAt.toISOString(),
+        recurrence:
+          editValues.recurrence === 'none' ? null : editValues.recurrence,
+      },
+    });
+    setEditTarget(null);
+  };
+
+  const handleConfirmCancel = async () => {
+    if (!cancelTarget) return;
+    await cancelMutation.mutateAsync(cancelTarget);
+    setCancelTarget(null);
+  };
+
+  const columns = useMemo(
+    () => [
+      { key: 'sendAt', label: 'Send at' },
+      { key: 'message', label: 'Message' },
+      { key: 'recurrence', label: 'Repeat' },
+      { key: 'audience', label: 'Audience' },
+      { key: 'status', label: 'Status' },
+      { key: 'actions', label: '' },
+    ],
+    [],
+  );
+
+  const rows = useMemo(
+    () =>
+      broadcasts.map((broadcast) => {
+        const isPending = broadcast.status === BroadcastStatus.Pending;
+        return {
+          sendAt: (
+            <div className={s.stackCell}>
+              <Typography variant="body">
+                {formatDate(
+                  broadcast.sentAt ?? broadcast.nextRunAt ?? broadcast.sendAt,
+                )}
+              </Typography>
+              <Typography variant="caption" tone="muted">
+                Created {formatDate(broadcast.createdAt)}
+              </Typography>
+            </div>
+          ),
+          message: (
+            <div className={s.messageCell}>
+              <Typography variant="body">
+                {formatMessagePreview(broadcast.message.text)}
+              </Typography>
+              {hasVariants(broadcast) ||
+              broadcast.message.imgId ||
+              broadcast.message.videoId ||
+              broadcast.message.action ? (
+                <div className={s.messageTags}>
+                  {hasVariants(broadcast) ? (
+                    <Badge tone="accent">
+                      {`A/B · ${broadcast.variants.length} variants`}
+                    </Badge>
+                  ) : null}
+                  {broadcast.message.imgId ? (
+                    <Badge outline>Image</Badge>
+                  ) : null}
+                  {broadcast.message.videoId ? (
+                    <Badge outline>Video</Badge>
+                  ) : null}
+                  {broadcast.message.action ? (
+                    <Badge outline>Button</Badge>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          ),
+          recurrence: (
+            <Typography variant="body" tone="muted">
+              {broadcast.recurrence
+                ? recurrenceLabels[broadcast.recurrence]
+                : 'Once'}
+            </Typography>
+          ),
+          audience: (
+            <Typography variant="body" tone="muted">
+              {broadcast.audienceCount === null
+                ? '-'
+                : broadcast.audienceCount.toLocaleString()}
+            </Typography>
+          ),
+          status: (
+            <Badge tone={statusTones[broadcast.status]}>
+              {statusLabels[broadcast.status]}
+            </Badge>
+          ),
+          actions: (
+            <div className={s.actionsCell}>
+              {hasResults(broadcast) ? (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setResultsTarget(broadcast)}
+                >
+                  Results
+                </Button>
+              ) : null}
+              {canSendBroadcast && isPending ? (
+                <>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => openEditModal(broadcast)}
+                    disabled={cancelMutation.isPending}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    tone="danger"
+                    onClick={() => setCancelTarget(broadcast)}
+                    disabled={cancelMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                </>
+              ) : null}
+            </div>
+          ),
+        };
+      }),
+    [broadcasts, canSendBroadcast, cancelMutation.isPending],
+  );
+
+  const skeletonRows = useMemo(
+    () =>
+      Array.from({ length: 6 }, (_, index) => ({
+        sendAt: (
+          <div className={s.stackCell} key={`broadcast-skel-${index}`}>
+            <Skeleton width={140} height={12} />
+            <Skeleton width={110} height={10} />
+          </div>
+        ),
+        message: <Skeleton width={260} height={12} />,
+        recurrence: <Skeleton width={60} height={12} />,
+        audience: <Skeleton width={60} height={12} />,
+        status: <Skeleton width={80} height={20} />,
+        actions: (
+          <div className={s.actionsCell}>
+            <Skeleton width={120} height={28} />
+          </div>
+        ),
+      })),
+    [],
+  );
+
+  const resultsColumns = useMemo(
+    () => [
+      { key: 'variant', label: 'Variant' },
+      { key: 'audience', label: 'Audience' },
+      { key: 'delivered', label: 'Delivered' },
+      { key: 'clicked', label: 'Clicked' },
+      { key: 'converted', label: 'Converted' },
+    ],
+    [],
+  );
+
+  const resultsRows = useMemo(() => {
+    if (!stats) return [];
+    const toRow = (
+      key: string,
+      label: string,
+      share: string | null,
+      row: BroadcastDeliveryStats,
+    ) => ({
+      variant: (
+        <div className={s.stackCell} key={key}>
+          <Typography variant="body">{label}</Typography>
+          {share ? (
+            <Typography variant="caption" tone="muted">
+              {share}
+            </Typography>
+          ) : null}
+        </div>
+      ),
+      audience: (
+        <Typography variant="body">
+          {row.audienceCount.toLocaleString()}
+        </Typography>
+      ),
+      delivered: (
+        <div className={s.stackCell}>
+          <Typography variant="body">
+            {row.delivered.toLocaleString()}
+          </Typography>
+          <Typography variant="caption" tone="muted">
+            {formatRate(row.delivered, row.audienceCount)}
+          </Typography>
+        </div>
+      ),
+      clicked: (
+        <div className={s.stackCell}>
+          <Typography variant="body">{row.clicked.toLocaleString()}</Typography>
+          <Typography variant="caption" tone="muted">
+            {formatRate(row.clicked, row.delivered)}
+          </Typography>
+        </div>
+      ),
+      converted: (
+        <div className={s.stackCell}>
+          <Typography variant="body">
+            {row.converted.toLocaleString()}
+          </Typography>
+          <Typography variant="caption" tone="muted">
+            {formatRate(row.converted, row.delivered)}
+          </Typography>
+        </div>
+      ),
+    });
+
+    return [
+      ...stats.variants.map((variant) =>
+        toRow(
+          variant.variantId,
+          `Variant ${variant.name}`,
+          `${variant.percentage}% of audience`,
+          variant,
+        ),
+      ),
+      toRow('total', 'Total', null, stats),
+    ];
+  }, [stats]);
+
+  const showSkeleton = isLoading && !data;
+  const showEmpty = !showSkeleton && !error && broadcasts.length === 0;
+  const showTable = !showEmpty && !error;
+  const showFooter = showTable && !showSkeleton;
+
+  const rangeStart = total === 0 ? 0 : effectiveSkip + 1;
+  const rangeEnd =
+    total === 0 ? 0 : Math.min(effectiveSkip + effectiveTake, total);
+
+  return (
+    <AppShell>
+      <Container size="wide" className={s.page}>
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Broadcast history</Typography>
+            <Typography variant="meta" tone="muted">
+              Sent, scheduled and recurring broadcasts.
+            </Typography>
+          </div>
+          <Button as={Link} to="/broadcast" iconLeft={<SendIcon />}>
+            New broadcast
+          </Button>
+        </div>
+
+        <div className={s.filters}>
+          <div className={s.filterRow}>
+            <Field label="Status" labelFor="broadcasts-status">
+              <Select
+                id="broadcasts-status"
+                options={STATUS_OPTIONS}
+                value={status ?? ''}
+                size="sm"
+                variant="ghost"
+                onChange={(value) =>
+                  updateSearchParams({ status: value, page: 1 })
+                }
+              />
+            </Field>
+            <Field label="Order" labelFor="broadcasts-order">
+              <Select
+                id="broadcasts-order"
+                options={ORDER_OPTIONS}
+                value={order}
+                size="sm"
+                variant="ghost"
+                onChange={(value) =>
+                  updateSearchParams({ order: value, page: 1 })
+                }
+              />
+            </Field>
+          </div>
+        </div>
+
+        {error ? (
+          <Stack className={s.state} gap="12px">
+            <Alert
+              title="Unable to load broadcasts"
+              description={
+                error instanceof Error ? error.message : 'Please try again.'
+              }
+              tone="warning"
+            />
+            <Button variant="secondary" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </Stack>
+        ) : null}
+
+        {showEmpty ? (
+          <EmptyState
+            title="No broadcasts found"
+            description={
+              status
+                ? 'Try another status filter.'
+                : 'Broadcasts you send or schedule will appear here.'
+            }
+          />
+        ) : null}
+
+        {showTable ? (
+          <div className={s.tableWrap}>
+            <Table
+              columns={columns}
+              rows={showSkeleton ? skeletonRows : rows}
+            />
+
+            {showFooter ? (
+              <div className={s.footer}>
+                <Typography variant="meta" tone="muted">
+                  {total === 0
+                    ? 'No results'
+                    : `Showing ${rangeStart}-${rangeEnd} of ${total.toLocaleString()}`}
+                </Typography>
+                <div className={s.paginationRow}>
+                  <Select
+                    options={PAGE_SIZE_OPTIONS.map((size) => ({
+                      label: `${size} / page`,
+                      value: String(size),
+                    }))}
+                    size="sm"
+                    variant="ghost"
+                    value={String(pageSize)}
+                    onChange={(value) =>
+                      updateSearchParams({
+                        pageSize: Number(value),
+                        page: 1,
+                      })
+                    }
+                    fitContent
+                  />
+                  {totalPages > 1 ? (
+                    <Pagination
+                      page={page}
+                      totalPages={totalPages}
+                      onChange={(nextPage) =>
+                        updateSearchParams({ page: nextPage })
+                      }
+                    />
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </Container>
+
+      <Modal
+        open={Boolean(editTarget)}
+        title="Edit scheduled broadcast"
+        onClose={closeEditModal}
+        actions={
+          <div className={s.modalActions}>
+            <Button
+              variant="secondary"
+              onClick={closeEditModal}
+              disabled={updateMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveEdit}
+              loading={updateMutation.isPending}
+              disabled={updateMutation.isPending}
+            >
+              Save
+            </Button>
+          </div>
+        }
+      >
+        <Stack gap="16px">
+          {editTarget && hasVariants(editTarget) ? (
+            <Typography variant="caption" tone="muted">
+              A/B variant messages are kept as they are. Only the schedule can
+              be changed.
+            </Typography>
+          ) : (
+            <Field
+              label="Message"
+              labelFor="broadcast-edit-text"
+              error={editErrors.text}
+            >
+              <Textarea
+                id="broadcast-edit-text"
+                size="sm"
+                rows={6}
+                value={editValues.text}
+                onChange={(event) =>
+                  setEditValues((prev) => ({
+                    ...prev,
+                    text: event.target.value,
+                  }))
+                }
+                invalid={Boolean(editErrors.text)}
+                fullWidth
+              />
+            </Field>
+          )}
+          <FormRow columns={2}>
+            <Field
+              label="Send at"
+              labelFor="broadcast-edit-send-at"
+              error={editErrors.sendAt}
+            >
+              <Input
+                id="broadcast-edit-send-at"
+                type="datetime-local"
+                size="sm"
+                value={editValues.sendAt}
+                onChange={(event) => {
+                  const nextSendAt = event.target.value;
+                  setEditValues((prev) => ({ ...prev, sendAt: nextSendAt }));
+                  setIsSendAtInPast(false);
+                }}
+                invalid={Boolean(editErrors.sendAt)}
+                fullWidth
+              />
+            </Field>
+            <Field
+              label="Repeat"
+              labelFor="broadcast-edit-recurrence"
+              error={editErrors.recurrence}
+            >
+              <Select
+                id="broadcast-edit-recurrence"
+                size="sm"
+                options={RECURRENCE_OPTIONS}
+                value={editValues.recurrence}
+                onChange={(value) =>
+                  setEditValues((prev) => ({
+                    ...prev,
+                    recurrence: value as RecurrenceValue,
+                  }))
+                }
+                fullWidth
+              />
+            </Field>
+          </FormRow>
+        </Stack>
+      </Modal>
+
+      <Modal
+        open={Boolean(resultsTarget)}
+        title="Broadcast results"
+        onClose={() => setResultsTarget(null)}
+        className={s.resultsModal}
+      >
+        <Stack gap="12px">
+          <Typography variant="caption" tone="muted">
+            Click rate and conversion rate are measured against delivered
+            messages.
+          </Typography>
+          {statsError ? (
+            <Alert
+              title="Unable to load results"
+              description={
+                statsError instanceof Error
+                  ? statsError.message
+                  : 'Please try again.'
+              }
+              tone="warning"
+            />
+          ) : null}
+          {isStatsLoading ? <Skeleton width="100%" height={120} /> : null}
+          {stats ? <Table columns={resultsColumns} rows={resultsRows} /> : null}
+        </Stack>
+      </Modal>
+
+      <ConfirmModal
+        open={Boolean(cancelTarget)}
+        title="Cancel broadcast?"
+        description={
+          cancelTarget?.recurrence
+            ? 'All future runs of this recurring broadcast will be cancelled.'
+            : 'This broadcast will not be sent.'
+        }
+        confirmLabel="Cancel broadcast"
+        cancelLabel="Keep"
+        tone="danger"
+        isConfirming={cancelMutation.isPending}
+        onConfirm={handleConfirmCancel}
+        onClose={() => {
+          if (cancelMutation.isPending) return;
+          setCancelTarget(null);
+        }}
+      />
+    </AppShell>
+  );
+}
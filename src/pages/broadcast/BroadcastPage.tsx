@@ -1,12 +1,20 @@
 import { MagnifyingGlassIcon } from '@radix-ui/react-icons';
 import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 
-import { useBroadcastCount, useCreateBroadcast } from '@/app/broadcast';
-import { notifyError } from '@/app/toast';
+import { usePermissions } from '@/app/auth';
+import {
+  useBroadcastCount,
+  useCreateBroadcast,
+  useScheduleBroadcast,
+} from '@/app/broadcast';
+import { useSegments } from '@/app/segments';
+import { useUserTags } from '@/app/user-tags';
 import { useUsers } from '@/app/users';
-import { SendIcon } from '@/assets/icons';
+import { LogsIcon, SendIcon } from '@/assets/icons';
 import {
   Alert,
+  Badge,
   Button,
   Checkbox,
   Container,
@@ -22,35 +30,50 @@ import {
   Textarea,
   Typography,
 } from '@/atoms';
-import type {
-  BroadcastDto,
-  BroadcastFilters,
-  IFile,
-  ITgUser,
-} from '@/common/types';
-import { FileDir, MessageActionType } from '@/common/types';
-import { FileUpload } from '@/components/molecules';
+import type { BroadcastDto, BroadcastFilters, ITgUser } from '@/common/types';
+import { BroadcastRecurrence, Permission } from '@/common/types';
 import { AppShell } from '@/components/templates';
 
 import s from './BroadcastPage.module.scss';
-
-type AudienceMode = 'all' | 'filters' | 'users';
+import {
+  type BroadcastMessageDraft,
+  type BroadcastMessageErrors,
+  createBroadcastMessageDraft,
+  toBroadcastMessage,
+  validateBroadcastMessageDraft,
+} from './components/broadcastMessageDraft';
+import { BroadcastMessageFields } from './components/BroadcastMessageFields';
+
+type AudienceMode = 'all' | 'filters' | 'segment' | 'users';
 type SubscriptionFilter = 'any' | 'subscribed' | 'unsubscribed';
+type DeliveryMode = 'now' | 'schedule';
+type RecurrenceValue = 'none' | BroadcastRecurrence;
+
+type BroadcastVariantDraft = {
+  id: string;
+  percentage: string;
+  message: BroadcastMessageDraft;
+};
 
 type ValidationErrors = {
   audience?: string;
-  messageText?: string;
+  variants?: Record<string, BroadcastMessageErrors>;
+  variantSplit?: string;
   lastVisitedAfter?: string;
   lastVisitedBefore?: string;
-  actionText?: string;
-  actionValue?: string;
+  lastVisitedAfterDays?: string;
+  lastVisitedBeforeDays?: string;
+  sendAt?: string;
 };
 
 const USER_SEARCH_DEBOUNCE_MS = 300;
+const VARIANT_NAMES = ['A', 'B', 'C', 'D'];
+const MAX_VARIANTS = VARIANT_NAMES.length;
 
 const audienceOptions = [
   { label: 'All users', value: 'all' },
   { label: 'Users by filters', value: 'filters' },
+  { label: 'Saved segment', value: 'segment' },
   { label: 'Specific users', value: 'users' },
 ];
 
@@ -60,13 +83,26 @@ const subscriptionOptions = [
   { label: 'Not subscribed', value: 'unsubscribed' },
 ];
 
-const actionTypeOptions = [
-  { label: 'Callback', value: MessageActionType.Callback },
-  { label: 'URL', value: MessageActionType.Url },
-  { label: 'Open app', value: MessageActionType.App },
+const deliveryOptions = [
+  { label: 'Send now', value: 'now' },
+  { label: 'Schedule', value: 'schedule' },
 ];
-const VIDEO_UPLOAD_ACCEPT =
-  'video/mp4,video/webm,video/quicktime,.mp4,.webm,.mov,.m4v';
+
+const recurrenceOptions = [
+  { label: 'Does not repeat', value: 'none' },
+  { label: 'Daily', value: BroadcastRecurrence.Daily },
+  { label: 'Weekly', value: BroadcastRecurrence.Weekly },
+];
+
+const recurrenceLabels: Record<BroadcastRecurrence, string> = {
+  [BroadcastRecurrence.Daily]: 'every day',
+  [BroadcastRecurrence.Weekly]: 'every week',
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
 
 function useDebouncedValue<T>(value: T, delay: number) {
   const [debounced, setDebounced] = useState(value);
@@ -103,6 +139,14 @@ function parseDateValue(value: string) {
   return parsed;
 }
 
+function parseDaysValue(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  if (!Number.isInteger(parsed) || parsed <= 0) return null;
+  return parsed;
+}
+
 function parseUserIds(value: string) {
   const ids = value
     .split(/[\s,]+/)
@@ -111,24 +155,68 @@ function parseUserIds(value: string) {
   return Array.from(new Set(ids));
 }
 
-function isHttpUrl(value: string) {
-  try {
-    const parsed = new URL(value);
-    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
-  } catch {
-    return false;
+function createVariantId() {
+  if (
+    typeof window !== 'undefined' &&
+    window.crypto &&
+    typeof window.crypto.randomUUID === 'function'
+  ) {
+    return window.crypto.randomUUID();
   }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+function createVariantDraft(
+  message = createBroadcastMessageDraft(),
+): BroadcastVariantDraft {
+  return { id: createVariantId(), percentage: '', message };
+}
+
+function splitPercentages(count: number) {
+  const base = Math.floor(100 / count);
+  return Array.from({ length: count }, (_, index) =>
+    String(index === 0 ? 100 - base * (count - 1) : base),
+  );
+}
+
+function withEvenSplit(variants: BroadcastVariantDraft[]) {
+  const percentages = splitPercentages(variants.length);
+  return variants.map((variant, index) => ({
+    ...variant,
+    percentage: percentages[index],
+  }));
+}
+
+function parsePercentage(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  if (!Number.isInteger(parsed) || parsed <= 0 || parsed >= 100) return null;
+  return parsed;
 }
 
 export function BroadcastPage() {
   const createMutation = useCreateBroadcast();
+  const scheduleMutation = useScheduleBroadcast();
   const countMutation = useBroadcastCount();
+  const isSubmitting = createMutation.isPending || scheduleMutation.isPending;
+  const { can } = usePermissions();
+  const canSendBroadcast = can(Permission.BroadcastSend);
 
   const [audienceMode, setAudienceMode] = useState<AudienceMode>('all');
   const [subscriptionFilter, setSubscriptionFilter] =
     useState<SubscriptionFilter>('any');
   const [lastVisitedAfter, setLastVisitedAfter] = useState('');
   const [lastVisitedBefore, setLastVisitedBefore] = useState('');
+  const [lastVisitedAfterDays, setLastVisitedAfterDays] = useState('');
+  const [lastVisitedBeforeDays, setLastVisitedBeforeDays] = useState('');
+  const [segmentId, setSegmentId] = useState('');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode>('now');
+  const [sendAt, setSendAt] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>('none');
+  const [isSendAtInPast, setIsSendAtInPast] = useState(false);
 
   const [userSearch, setUserSearch] = useState('');
   const [isUserPickerOpen, setIsUserPickerOpen] = useState(false);
@@ -138,16 +226,14 @@ export function BroadcastPage() {
   >({});
   const [bulkUserIds, setBulkUserIds] = useState('');
 
-  const [messageText, setMessageText] = useState('');
-  const [imageFile, setImageFile] = useState<IFile | null>(null);
-  const [videoFile, setVideoFile] = useState<IFile | null>(null);
-
-  const [isActionEnabled, setIsActionEnabled] = useState(false);
-  const [actionText, setActionText] = useState('');
-  const [actionType, setActionType] = useState<MessageActionType>(
-    MessageActionType.Callback,
+  const [isAbTestEnabled, setIsAbTestEnabled] = useState(false);
+  const [variants, setVariants] = useState<BroadcastVariantDraft[]>(() => [
+    createVariantDraft(),
+  ]);
+  const activeVariants = useMemo(
+    () => (isAbTestEnabled ? variants : variants.slice(0, 1)),
+    [isAbTestEnabled, variants],
   );
-  const [actionValue, setActionValue] = useState('');
 
   const [showErrors, setShowErrors] = useState(false);
   const [isConfirmOpen, setIsConfirmOpen] = useState(false);
@@ -172,6 +258,27 @@ export function BroadcastPage() {
   );
   const userOptions = useMemo(() => usersData?.data ?? [], [usersData?.data]);
 
+  const { data: segmentsData, isLoading: isSegmentsLoading } = useSegments(
+    { order: 'ASC', skip: 0, take: 100 },
+    audienceMode === 'segment',
+  );
+  const segmentOptions = useMemo(
+    () =>
+      (segmentsData?.data ?? []).map((segment) => ({
+        label:
+          segment.userCount === null
+            ? segment.name
+            : `${segment.name} (${segment.userCount.toLocaleString()} users)`,
+        value: segment.id,
+      })),
+    [segmentsData?.data],
+  );
+
+  const { data: tagsData, isLoading: isTagsLoading } = useUserTags(
+    audienceMode === 'filters',
+  );
+  const tagOptions = useMemo(() => tagsData ?? [], [tagsData]);
+
   const selectedUserIdSet = useMemo(
     () => new Set(selectedUserIds),
     [selectedUserIds],
@@ -205,18 +312,46 @@ export function BroadcastPage() {
   const validationErrors = useMemo<ValidationErrors>(() => {
     const errors: ValidationErrors = {};
 
-    if (!messageText.trim()) {
-      errors.messageText = 'Enter message text.';
+    const variantErrors: Record<string, BroadcastMessageErrors> = {};
+    for (const variant of activeVariants) {
+      const messageErrors = validateBroadcastMessageDraft(variant.message);
+      if (Object.keys(messageErrors).length > 0) {
+        variantErrors[variant.id] = messageErrors;
+      }
+    }
+    if (Object.keys(variantErrors).length > 0) {
+      errors.variants = variantErrors;
+    }
+
+    if (isAbTestEnabled) {
+      const percentages = activeVariants.map((variant) =>
+        parsePercentage(variant.percentage),
+      );
+      if (percentages.some((value) => value === null)) {
+        errors.variantSplit = 'Each variant needs a share between 1 and 99%.';
+      } else if (
+        percentages.reduce<number>((sum, value) => sum + (value ?? 0), 0) !==
+        100
+      ) {
+        errors.variantSplit = 'Variant shares must add up to 100%.';
+      }
     }
 
     if (audienceMode === 'users' && selectedUserIds.length === 0) {
       errors.audience = 'Select at least one user.';
     }
 
+    if (audienceMode === 'segment' && !segmentId) {
+      errors.audience = 'Select a segment.';
+    }
+
     if (audienceMode === 'filters') {
       const hasSubscriptionFilter = subscriptionFilter !== 'any';
+      const hasTagFilter = tagIds.length > 0;
       const hasAfterInput = Boolean(lastVisitedAfter.trim());
       const hasBeforeInput = Boolean(lastVisitedBefore.trim());
+      const hasAfterDaysInput = Boolean(lastVisitedAfterDays.trim());
+      const hasBeforeDaysInput = Boolean(lastVisitedBeforeDays.trim());
 
       const parsedAfter = parseDateValue(lastVisitedAfter);
       const parsedBefore = parseDateValue(lastVisitedBefore);
@@ -235,47 +370,62 @@ export function BroadcastPage() {
         errors.lastVisitedBefore =
           '"Last visited before" must be after "Last visited after".';
       }
-      if (!hasSubscriptionFilter && !hasAfterInput && !hasBeforeInput) {
+      if (hasAfterDaysInput && !parseDaysValue(lastVisitedAfterDays)) {
+        errors.lastVisitedAfterDays = 'Use a whole number of days.';
+      }
+      if (hasBeforeDaysInput && !parseDaysValue(lastVisitedBeforeDays)) {
+        errors.lastVisitedBeforeDays = 'Use a whole number of days.';
+      }
+      if (
+        deliveryMode === 'schedule' &&
+        recurrence !== 'none' &&
+        (hasAfterInput || hasBeforeInput)
+      ) {
+        errors.audience =
+          'Recurring broadcasts need relative filters (days) instead of fixed dates.';
+      }
+      if (
+        !hasSubscriptionFilter &&
+        !hasTagFilter &&
+        !hasAfterInput &&
+        !hasBeforeInput &&
+        !hasAfterDaysInput &&
+        !hasBeforeDaysInput
+      ) {
         errors.audience = 'Set at least one filter or choose all users.';
       }
     }
 
-    if (isActionEnabled) {
-      const nextActionText = actionText.trim();
-      const nextActionValue = actionValue.trim();
-
-      if (!nextActionText) {
-        errors.actionText = 'Enter action text.';
-      }
-      if (!nextActionValue) {
-        errors.actionValue = 'Enter action value.';
-      } else if (
-        actionType === MessageActionType.Url &&
-        !isHttpUrl(nextActionValue)
-      ) {
-        errors.actionValue = 'Enter a valid http/https URL.';
+    if (deliveryMode === 'schedule') {
+      const parsedSendAt = parseDateValue(sendAt);
+      if (!parsedSendAt) {
+        errors.sendAt = 'Choose when to send the broadcast.';
       }
     }
 
     return errors;
   }, [
-    actionText,
-    actionType,
-    actionValue,
+    activeVariants,
     audienceMode,
-    isActionEnabled,
+    deliveryMode,
+    isAbTestEnabled,
     lastVisitedAfter,
+    lastVisitedAfterDays,
     lastVisitedBefore,
-    messageText,
+    lastVisitedBeforeDays,
+    recurrence,
+    segmentId,
+    sendAt,
     selectedUserIds.length,
     subscriptionFilter,
+    tagIds.length,
   ]);
 
   const errors = showErrors ? validationErrors : {};
   const isValid = Object.keys(validationErrors).length === 0;
 
   const closeConfirmModal = () => {
-    if (createMutation.isPending) return;
+    if (isSubmitting) return;
     setIsConfirmOpen(false);
   };
 
@@ -284,18 +434,21 @@ export function BroadcastPage() {
     setSubscriptionFilter('any');
     setLastVisitedAfter('');
     setLastVisitedBefore('');
+    setLastVisitedAfterDays('');
+    setLastVisitedBeforeDays('');
+    setSegmentId('');
+    setTagIds([]);
+    setDeliveryMode('now');
+    setSendAt('');
+    setRecurrence('none');
+    setIsSendAtInPast(false);
     setUserSearch('');
     setIsUserPickerOpen(false);
     setSelectedUserIds([]);
     setSelectedUsersMeta({});
     setBulkUserIds('');
-    setMessageText('');
-    setImageFile(null);
-    setVideoFile(null);
-    setIsActionEnabled(false);
-    setActionText('');
-    setActionType(MessageActionType.Callback);
-    setActionValue('');
+    setIsAbTestEnabled(false);
+    setVariants([createVariantDraft()]);
     setShowErrors(false);
     setIsConfirmOpen(false);
     setAllUsersConfirmed(false);
@@ -347,6 +500,10 @@ export function BroadcastPage() {
       return { userIds: selectedUserIds };
     }
 
+    if (audienceMode === 'segment') {
+      return { segmentId };
+    }
+
     const filters: BroadcastFilters = {};
     if (subscriptionFilter === 'subscribed') {
       filters.subscribed = true;
@@ -354,6 +511,10 @@ export function BroadcastPage() {
       filters.subscribed = false;
     }
 
+    if (tagIds.length > 0) {
+      filters.tagIds = tagIds;
+    }
+
     const parsedAfter = parseDateValue(lastVisitedAfter);
     if (parsedAfter) {
       filters.lastVisitedAfter = parsedAfter;
@@ -364,28 +525,81 @@ export function BroadcastPage() {
       filters.lastVisitedBefore = parsedBefore;
     }
 
+    const parsedAfterDays = parseDaysValue(lastVisitedAfterDays);
+    if (parsedAfterDays) {
+      filters.lastVisitedAfterDays = parsedAfterDays;
+    }
+
+    const parsedBeforeDays = parseDaysValue(lastVisitedBeforeDays);
+    if (parsedBeforeDays) {
+      filters.lastVisitedBeforeDays = parsedBeforeDays;
+    }
+
     return filters;
   };
 
+  const updateVariant = (id: string, patch: Partial<BroadcastVariantDraft>) => {
+    setVariants((prev) =>
+      prev.map((variant) =>
+        variant.id === id ? { ...variant, ...patch } : variant,
+      ),
+    );
+  };
+
+  const toggleAbTest = (enabled: boolean) => {
+    setIsAbTestEnabled(enabled);
+    if (!enabled) return;
+    setVariants((prev) =>
+      withEvenSplit(
+        prev.length > 1
+          ? prev
+          : [...prev, createVariantDraft({ ...prev[0].message })],
+      ),
+    );
+  };
+
+  const addVariant = () => {
+    setVariants((prev) =>
+      prev.length >= MAX_VARIANTS
+        ? prev
+        : withEvenSplit([
+            ...prev,
+            createVariantDraft({ ...prev[prev.length - 1].message }),
+          ]),
+    );
+  };
+
+  const removeVariant = (id: string) => {
+    setVariants((prev) =>
+      prev.length <= 2
+        ? prev
+        : withEvenSplit(prev.filter((variant) => variant.id !== id)),
+    );
+  };
+
   const buildPayload = (): BroadcastDto => ({
-    message: {
-      text: messageText.trim(),
-      imgId: imageFile?.id || undefined,
-      videoId: videoFile?.id || undefined,
-      action: isActionEnabled
-        ? {
-            text: actionText.trim(),
-            value: actionValue.trim(),
-            type: actionType,
-          }
-        : undefined,
-    },
+    message: toBroadcastMessage(activeVariants[0].message),
     filters: buildFilters(),
+    variants: isAbTestEnabled
+      ? activeVariants.map((variant, index) => ({
+          name: VARIANT_NAMES[index],
+          percentage: Number(variant.percentage),
+          message: toBroadcastMessage(variant.message),
+        }))
+      : undefined,
   });
 
   const openConfirmModal = () => {
+    if (!canSendBroadcast) return;
     setShowErrors(true);
     if (!isValid) return;
+    if (
+      deliveryMode === 'schedule' &&
+      parseDateValue(sendAt)!.getTime() <= Date.now()
+    ) {
+      setIsSendAtInPast(true);
+      return;
+    }
 
     setAllUsersConfirmed(false);
     countMutation.reset();
@@ -396,6 +610,7 @@ export function BroadcastPage() {
   };
 
   const sendBroadcast = async () => {
+    if (!canSendBroadcast) return;
     if (audienceMode === 'all' && !allUsersConfirmed) return;
     if (
       countMutation.isPending ||
@@ -406,7 +621,15 @@ export function BroadcastPage() {
     }
 
     try {
-      await createMutation.mutateAsync(buildPayload());
+      if (deliveryMode === 'schedule') {
+        await scheduleMutation.mutateAsync({
+          ...buildPayload(),
+          sendAt: parseDateValue(sendAt)!.toISOString(),
+          recurrence: recurrence === 'none' ? null : recurrence,
+        });
+      } else {
+        await createMutation.mutateAsync(buildPayload());
+      }
       resetForm();
     } catch {
       // Errors are handled in mutation callbacks.
@@ -417,8 +640,21 @@ export function BroadcastPage() {
     countMutation.error instanceof Error
       ? countMutation.error.message
       : 'Unable to count broadcast users.';
+  const sendAtError =
+    errors.sendAt ??
+    (isSendAtInPast ? 'Send time must be in the future.' : undefined);
+  const parsedSendAt = parseDateValue(sendAt);
+  const scheduleSummary =
+    deliveryMode === 'schedule' && parsedSendAt
+      ? `This broadcast will be sent on ${dateTimeFormatter.format(parsedSendAt)}${
+          recurrence === 'none'
+            ? ''
+            : ` and repeat ${recurrenceLabels[recurrence]}`
+        }. You can cancel or edit it from the history until it is sent.`
+      : null;
   const isSendDisabled =
-    createMutation.isPending ||
+    !canSendBroadcast ||
+    isSubmitting ||
     countMutation.isPending ||
     countMutation.isError ||
     !countMutation.data ||
@@ -439,15 +675,25 @@ export function BroadcastPage() {
             <Button
               iconLeft={<SendIcon />}
               onClick={openConfirmModal}
-              loading={createMutation.isPending}
-              disabled={createMutation.isPending}
+              loading={isSubmitting}
+              disabled={!canSendBroadcast || isSubmitting}
             >
-              Review and send
+              {deliveryMode === 'schedule'
+                ? 'Review and schedule'
+                : 'Review and send'}
+            </Button>
+            <Button
+              as={Link}
+              to="/broadcast/history"
+              variant="ghost"
+              iconLeft={<LogsIcon />}
+            >
+              History
             </Button>
             <Button
               variant="secondary"
               onClick={resetForm}
-              disabled={createMutation.isPending}
+              disabled={isSubmitting}
             >
               Reset
             </Button>
@@ -470,11 +716,37 @@ export function BroadcastPage() {
                   value={audienceMode}
                   options={audienceOptions}
                   onChange={(value) => setAudienceMode(value as AudienceMode)}
-                  disabled={createMutation.isPending}
+                  disabled={isSubmitting}
                   fullWidth
                 />
               </Field>
 
+              {audienceMode === 'segment' ? (
+                <Field
+                  label="Segment"
+                  hint={
+                    <>
+                      Manage saved audiences on the{' '}
+                      <Link to="/segments">Segments</Link> page.
+                    </>
+                  }
+                >
+                  <Select
+                    size="sm"
+                    value={segmentId}
+                    options={segmentOptions}
+                    onChange={setSegmentId}
+                    placeholder={
+                      isSegmentsLoading
+                        ? 'Loading segments...'
+                        : 'Choose a segment'
+                    }
+                    disabled={isSubmitting || isSegmentsLoading}
+                    fullWidth
+                  />
+                </Field>
+              ) : null}
+
               {audienceMode === 'filters' ? (
                 <FormRow columns={3}>
                   <Field label="Subscription status">
@@ -484,7 +756,7 @@ export function BroadcastPage() {
                       onChange={(value) =>
                         setSubscriptionFilter(value as SubscriptionFilter)
                       }
-                      disabled={createMutation.isPending}
+                      disabled={isSubmitting}
                       fullWidth
                     />
                   </Field>
@@ -499,7 +771,7 @@ export function BroadcastPage() {
                       onChange={(event) =>
                         setLastVisitedAfter(event.target.value)
                       }
-                      disabled={createMutation.isPending}
+                      disabled={isSubmitting}
                       invalid={Boolean(errors.lastVisitedAfter)}
                       fullWidth
                     />
@@ -515,7 +787,7 @@ export function BroadcastPage() {
                       onChange={(event) =>
                         setLastVisitedBefore(event.target.value)
                       }
-                      disabled={createMutation.isPending}
+                      disabled={isSubmitting}
                       invalid={Boolean(errors.lastVisitedBefore)}
                       fullWidth
                     />
@@ -523,6 +795,78 @@ export function BroadcastPage() {
                 </FormRow>
               ) : null}
 
+              {audienceMode === 'filters' ? (
+                <FormRow columns={2}>
+                  <Field
+                    label="Inactive for at least (days)"
+                    hint="Relative to the send time. Use this for recurring broadcasts."
+                    error={errors.lastVisitedBeforeDays}
+                  >
+                    <Input
+                      size="sm"
+                      inputMode="numeric"
+                      placeholder="3"
+                      value={lastVisitedBeforeDays}
+                      onChange={(event) =>
+                        setLastVisitedBeforeDays(event.target.value)
+                      }
+                      disabled={isSubmitting}
+                      invalid={Boolean(errors.lastVisitedBeforeDays)}
+                      fullWidth
+                    />
+                  </Field>
+                  <Field
+                    label="Active within the last (days)"
+                    error={errors.lastVisitedAfterDays}
+                  >
+                    <Input
+                      size="sm"
+                      inputMode="numeric"
+                      placeholder="30"
+                      value={lastVisitedAfterDays}
+                      onChange={(event) =>
+                        setLastVisitedAfterDays(event.target.value)
+                      }
+                      disabled={isSubmitting}
+                      invalid={Boolean(errors.lastVisitedAfterDays)}
+                      fullWidth
+                    />
+                  </Field>
+                </FormRow>
+              ) : null}
+
+              {audienceMode === 'filters' ? (
+                <Field label="Tags" hint="Users with any of the selected tags.">
+                  {isTagsLoading ? (
+                    <Typography variant="caption" tone="muted">
+                      Loading tags...
+                    </Typography>
+                  ) : tagOptions.length === 0 ? (
+                    <Typography variant="caption" tone="muted">
+                      No user tags yet. Add them on a user's details page.
+                    </Typography>
+                  ) : (
+                    <div className={s.tagFilters}>
+                      {tagOptions.map((tag) => (
+                        <Checkbox
+                          key={tag.id}
+                          label={tag.name}
+                          checked={tagIds.includes(tag.id)}
+                          onChange={(event) =>
+                            setTagIds((prev) =>
+                              event.target.checked
+                                ? [...prev, tag.id]
+                                : prev.filter((id) => id !== tag.id),
+                            )
+                          }
+                          disabled={isSubmitting}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </Field>
+              ) : null}
+
               {audienceMode === 'users' ? (
                 <Stack gap="12px">
                   <Field
@@ -545,7 +889,7 @@ export function BroadcastPage() {
                             }}
                             iconLeft={<MagnifyingGlassIcon />}
                             placeholder="Start typing a user..."
-                            disabled={createMutation.isPending}
+                            disabled={isSubmitting}
                             fullWidth
                           />
                         </div>
@@ -607,7 +951,7 @@ export function BroadcastPage() {
                         value={bulkUserIds}
                         onChange={(event) => setBulkUserIds(event.target.value)}
                         placeholder="123456789&#10;987654321"
-                        disabled={createMutation.isPending}
+                        disabled={isSubmitting}
                         fullWidth
                       />
                       <div className={s.inlineActions}>
@@ -616,8 +960,7 @@ export function BroadcastPage() {
                           size="sm"
                           onClick={addBulkUsers}
                           disabled={
-                            createMutation.isPending ||
-                            parsedBulkUserIds.length === 0
+                            isSubmitting || parsedBulkUserIds.length === 0
                           }
                         >
                           Add IDs
@@ -656,135 +999,193 @@ export function BroadcastPage() {
               </Typography>
             </div>
 
-            <Stack gap="12px">
-              <Field
-                label="Text"
-                error={errors.messageText}
-                labelFor="broadcast-message-text"
-              >
-                <Textarea
-                  id="broadcast-message-text"
-                  size="sm"
-                  rows={3}
-                  value={messageText}
-                  onChange={(event) => setMessageText(event.target.value)}
-                  invalid={Boolean(errors.messageText)}
-                  disabled={createMutation.isPending}
-                  fullWidth
-                />
-              </Field>
-
-              <FileUpload
-                label="Image file (optional)"
-                folder={FileDir.Public}
-                value={imageFile}
-                disabled={createMutation.isPending}
-                onChange={(file) => setImageFile(file)}
-                onError={(message) =>
-                  notifyError(new Error(message), 'Unable to upload image.')
-                }
+            <Field
+              label="A/B test"
+              hint="Split the audience between message variants and compare results in the history."
+            >
+              <Switch
+                checked={isAbTestEnabled}
+                onChange={(event) => toggleAbTest(event.target.checked)}
+                label={isAbTestEnabled ? 'Enabled' : 'Disabled'}
+                disabled={isSubmitting}
               />
-
-              <FileUpload
-                label="Video file (optional)"
-                folder={FileDir.Public}
-                accept={VIDEO_UPLOAD_ACCEPT}
-                value={videoFile}
-                disabled={createMutation.isPending}
-                onChange={(file) => setVideoFile(file)}
-                onError={(message) =>
-                  notifyError(new Error(message), 'Unable to upload video.')
+            </Field>
+
+            {isAbTestEnabled ? (
+              <Stack gap="16px">
+                {activeVariants.map((variant, index) => (
+                  <div key={variant.id} className={s.variant}>
+                    <div className={s.variantHeader}>
+                      <Badge tone="accent">{`Variant ${VARIANT_NAMES[index]}`}</Badge>
+                      <div className={s.variantShare}>
+                        <Input
+                          size="sm"
+                          inputMode="numeric"
+                          aria-label={`Variant ${VARIANT_NAMES[index]} share`}
+                          value={variant.percentage}
+                          onChange={(event) =>
+                            updateVariant(variant.id, {
+                              percentage: event.target.value,
+                            })
+                          }
+                          invalid={Boolean(errors.variantSplit)}
+                          disabled={isSubmitting}
+                        />
+                        <Typography variant="meta" tone="muted">
+                          % of audience
+                        </Typography>
+                      </div>
+                      {activeVariants.length > 2 ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          tone="danger"
+                          onClick={() => removeVariant(variant.id)}
+                          disabled={isSubmitting}
+                        >
+                          Remove
+                        </Button>
+                      ) : null}
+                    </div>
+                    <BroadcastMessageFields
+                      idPrefix={`broadcast-variant-${index}`}
+                      value={variant.message}
+                      errors={errors.variants?.[variant.id]}
+                      disabled={isSubmitting}
+                      onChange={(message) =>
+                        updateVariant(variant.id, { message })
+                      }
+                    />
+                  </div>
+                ))}
+                {errors.variantSplit ? (
+                  <Typography variant="caption" tone="danger">
+                    {errors.variantSplit}
+                  </Typography>
+                ) : null}
+                {activeVariants.length < MAX_VARIANTS ? (
+                  <div>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={addVariant}
+                      disabled={isSubmitting}
+                    >
+                      Add variant
+                    </Button>
+                  </div>
+                ) : null}
+              </Stack>
+            ) : (
+              <BroadcastMessageFields
+                idPrefix="broadcast-message"
+                value={activeVariants[0].message}
+                errors={errors.variants?.[activeVariants[0].id]}
+                disabled={isSubmitting}
+                onChange={(message) =>
+                  updateVariant(activeVariants[0].id, { message })
                 }
               />
+            )}
+          </div>
+
+          <div className={s.panel}>
+            <div className={s.panelHeader}>
+              <Typography variant="h3">Delivery</Typography>
+              <Typography variant="caption" tone="muted">
+                Send right away or schedule a one-off or recurring broadcast.
+              </Typography>
+            </div>
 
-              <Field label="Action button">
-                <Switch
-                  checked={isActionEnabled}
-                  onChange={(event) => setIsActionEnabled(event.target.checked)}
-                  label={isActionEnabled ? 'Enabled' : 'Disabled'}
-                  disabled={createMutation.isPending}
+            <FormRow columns={3}>
+              <Field label="When">
+                <Select
+                  value={deliveryMode}
+                  options={deliveryOptions}
+                  onChange={(value) => setDeliveryMode(value as DeliveryMode)}
+                  disabled={isSubmitting}
+                  fullWidth
                 />
               </Field>
-
-              {isActionEnabled ? (
-                <FormRow columns={3}>
-                  <Field
-                    label="Action text"
-                    error={errors.actionText}
-                    labelFor="broadcast-action-text"
-                  >
+              {deliveryMode === 'schedule' ? (
+                <>
+                  <Field label="Send at" error={sendAtError}>
                     <Input
-                      id="broadcast-action-text"
+                      type="datetime-local"
                       size="sm"
-                      value={actionText}
-                      onChange={(event) => setActionText(event.target.value)}
-                      invalid={Boolean(errors.actionText)}
-                      disabled={createMutation.isPending}
+                      value={sendAt}
+                      onChange={(event) => {
+                        setSendAt(event.target.value);
+                        setIsSendAtInPast(false);
+                      }}
+                      disabled={isSubmitting}
+                      invalid={Boolean(sendAtError)}
                       fullWidth
                     />
                   </Field>
-                  <Field label="Action type" labelFor="broadcast-action-type">
+                  <Field label="Repeat">
                     <Select
-                      id="broadcast-action-type"
-                      value={actionType}
-                      options={actionTypeOptions}
+                      value={recurrence}
+                      options={recurrenceOptions}
                       onChange={(value) =>
-                        setActionType(value as MessageActionType)
+                        setRecurrence(value as RecurrenceValue)
                       }
-                      disabled={createMutation.isPending}
-                      fullWidth
-                    />
-                  </Field>
-                  <Field
-                    label="Action value"
-                    error={errors.actionValue}
-                    labelFor="broadcast-action-value"
-                  >
-                    <Input
-                      id="broadcast-action-value"
-                      size="sm"
-                      value={actionValue}
-                      onChange={(event) => setActionValue(event.target.value)}
-                      invalid={Boolean(errors.actionValue)}
-                      disabled={createMutation.isPending}
+                      disabled={isSubmitting}
                       fullWidth
                     />
                   </Field>
-                </FormRow>
+                </>
               ) : null}
-            </Stack>
+            </FormRow>
           </div>
         </Stack>
       </Container>
 
       <Modal
         open={isConfirmOpen}
-        title="Confirm broadcast"
+        title={
+          deliveryMode === 'schedule'
+            ? 'Confirm scheduled broadcast'
+            : 'Confirm broadcast'
+        }
         onClose={closeConfirmModal}
         actions={
           <div className={s.modalActions}>
             <Button
               variant="secondary"
               onClick={closeConfirmModal}
-              disabled={createMutation.isPending}
+              disabled={isSubmitting}
             >
               Cancel
             </Button>
             <Button
               iconLeft={<SendIcon />}
               onClick={sendBroadcast}
-              loading={createMutation.isPending}
+              loading={isSubmitting}
               disabled={isSendDisabled}
             >
-              Send broadcast
+              {deliveryMode === 'schedule'
+                ? 'Schedule broadcast'
+                : 'Send broadcast'}
             </Button>
           </div>
         }
       >
         <Stack gap="12px">
           <Typography variant="body">
-            This action sends the broadcast immediately and cannot be undone.
+            {scheduleSummary ??
+              'This action sends the broadcast immediately and cannot be undone.'}
           </Typography>
+          {isAbTestEnabled ? (
+            <Typography variant="body" tone="muted">
+              {`A/B split: ${activeVariants
+                .map(
+                  (variant, index) =>
+                    `${VARIANT_NAMES[index]} ${variant.percentage.trim()}%`,
+                )
+                .join(' / ')}`}
+            </Typography>
+          ) : null}
           {countMutation.isPending ? (
             <Typography variant="body" tone="muted">
               Counting users...
@@ -792,7 +1193,9 @@ export function BroadcastPage() {
           ) : null}
           {countMutation.data ? (
             <Typography variant="body">
-              Will be sent to{' '}
+              {deliveryMode === 'schedule'
+                ? 'Currently matches'
+                : 'Will be sent to'}{' '}
               {new Intl.NumberFormat('en-US').format(
                 countMutation.data.count,
               )}{' '}
@@ -811,7 +1214,7 @@ export function BroadcastPage() {
               checked={allUsersConfirmed}
               onChange={(event) => setAllUsersConfirmed(event.target.checked)}
               label="I understand this message will be sent to all users."
-              disabled={createMutation.isPending}
+              disabled={isSubmitting}
             />
           ) : null}
         </Stack>
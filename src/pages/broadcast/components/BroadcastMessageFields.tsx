@@ -0,0 +1,189 @@
+import { notifyError } from '@/app/toast';
+import {
+  Field,
+  FormRow,
+  Input,
+  Select,
+  Stack,
+  Switch,
+  Textarea,
+} from '@/atoms';
+import { FileDir, MessageActionType } from '@/common/types';
+import { FileUpload, TelegramMessagePreview } from '@/components/molecules';
+
+import type {
+  BroadcastMessageDraft,
+  BroadcastMessageErrors,
+} from './broadcastMessageDraft';
+import s from './BroadcastMessageFields.module.scss';
+
+type BroadcastMessageFieldsProps = {
+  idPrefix: string;
+  value: BroadcastMessageDraft;
+  errors?: BroadcastMessageErrors;
+  disabled?: boolean;
+  onChange: (value: BroadcastMessageDraft) => void;
+};
+
+const actionTypeOptions = [
+  { label: 'Callback', value: MessageActionType.Callback },
+  { label: 'URL', value: MessageActionType.Url },
+  { label: 'Open app', value: MessageActionType.App },
+];
+const VIDEO_UPLOAD_ACCEPT =
+  'video/mp4,video/webm,video/quicktime,.mp4,.webm,.mov,.m4v';
+
+export function BroadcastMessageFields({
+  idPrefix,
+  value,
+  errors = {},
+  disabled = false,
+  onChange,
+}: BroadcastMessageFieldsProps) {
+  const update = (patch: Partial<BroadcastMessageDraft>) =>
+    onChange({ ...value, ...patch });
+
+  const previewMedia = [
+    ...(value.imageFile
+      ? [
+          {
+            type: 'image' as const,
+            url: value.imageFile.url,
+            name: value.imageFile.name,
+          },
+        ]
+      : []),
+    ...(value.videoFile
+      ? [
+          {
+            type: 'video' as const,
+            url: value.videoFile.url,
+            name: value.videoFile.name,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className={s.layout}>
+      <Stack gap="12px">
+        <Field
+          label="Text"
+          error={errors.text}
+          labelFor={`${idPrefix}-text`}
+          hint="Telegram HTML formatting is supported: <b>, <i>, <u>, <s>, <a href>, <code>, <pre>, <blockquote>, <tg-spoiler>."
+        >
+          <Textarea
+            id={`${idPrefix}-text`}
+            size="sm"
+            rows={3}
+            value={value.text}
+            onChange={(event) => update({ text: event.target.value })}
+            invalid={Boolean(errors.text)}
+            disabled={disabled}
+            fullWidth
+          />
+        </Field>
+
+        <FileUpload
+          label="Image file (optional)"
+          folder={FileDir.Public}
+          value={value.imageFile}
+          disabled={disabled}
+          onChange={(file) => update({ imageFile: file })}
+          onError={(message) =>
+            notifyError(new Error(message), 'Unable to upload image.')
+          }
+        />
+
+        <FileUpload
+          label="Video file (optional)"
+          folder={FileDir.Public}
+          accept={VIDEO_UPLOAD_ACCEPT}
+          value={value.videoFile}
+          disabled={disabled}
+          onChange={(file) => update({ videoFile: file })}
+          onError={(message) =>
+            notifyError(new Error(message), 'Unable to upload video.')
+          }
+        />
+
+        <Field label="Action button">
+          <Switch
+            checked={value.isActionEnabled}
+            onChange={(event) =>
+              update({ isActionEnabled: event.target.checked })
+            }
+            label={value.isActionEnabled ? 'Enabled' : 'Disabled'}
+            disabled={disabled}
+          />
+        </Field>
+
+        {value.isActionEnabled ? (
+          <FormRow columns={3}>
+            <Field
+              label="Action text"
+              error={errors.actionText}
+              labelFor={`${idPrefix}-action-text`}
+            >
+              <Input
+                id={`${idPrefix}-action-text`}
+                size="sm"
+                value={value.actionText}
+                onChange={(event) => update({ actionText: event.target.value })}
+                invalid={Boolean(errors.actionText)}
+                disabled={disabled}
+                fullWidth
+              />
+            </Field>
+            <Field label="Action type" labelFor={`${idPrefix}-action-type`}>
+              <Select
+                id={`${idPrefix}-action-type`}
+                value={value.actionType}
+                options={actionTypeOptions}
+                onChange={(nextValue) =>
+                  update({ actionType: nextValue as MessageActionType })
+                }
+                disabled={disabled}
+                fullWidth
+              />
+            </Field>
+            <Field
+              label="Action value"
+              error={errors.actionValue}
+              labelFor={`${idPrefix}-action-value`}
+            >
+              <Input
+                id={`${idPrefix}-action-value`}
+                size="sm"
+                value={value.actionValue}
+                onChange={(event) =>
+                  update({ actionValue: event.target.value })
+                }
+                invalid={Boolean(errors.actionValue)}
+                disabled={disabled}
+                fullWidth
+              />
+            </Field>
+          </FormRow>
+        ) : null}
+      </Stack>
+
+      <Field label="Preview">
+        <TelegramMessagePreview
+          text={value.text}
+          media={previewMedia}
+          action={
+            value.isActionEnabled
+              ? {
+                  text: value.actionText,
+                  value: value.actionValue,
+                  type: value.actionType,
+                }
+              : null
+          }
+        />
+      </Field>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import {
+  type BroadcastMessage,
+  type IFile,
+  MessageActionType,
+} from '@/common/types';
+
+export type BroadcastMessageDraft = {
+  text: string;
+  imageFile: IFile | null;
+  videoFile: IFile | null;
+  isActionEnabled: boolean;
+  actionText: string;
+  actionType: MessageActionType;
+  actionValue: string;
+};
+
+export type BroadcastMessageErrors = {
+  text?: string;
+  actionText?: string;
+  actionValue?: string;
+};
+
+function isHttpUrl(value: string) {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function createBroadcastMessageDraft(): BroadcastMessageDraft {
+  return {
+    text: '',
+    imageFile: null,
+    videoFile: null,
+    isActionEnabled: false,
+    actionText: '',
+    actionType: MessageActionType.Callback,
+    actionValue: '',
+  };
+}
+
+export function validateBroadcastMessageDraft(draft: BroadcastMessageDraft) {
+  const errors: BroadcastMessageErrors = {};
+
+  if (!draft.text.trim()) {
+    errors.text = 'Enter message text.';
+  }
+
+  if (draft.isActionEnabled) {
+    const nextActionText = draft.actionText.trim();
+    const nextActionValue = draft.actionValue.trim();
+
+    if (!nextActionText) {
+      errors.actionText = 'Enter action text.';
+    }
+    if (!nextActionValue) {
+      errors.actionValue = 'Enter action value.';
+    } else if (
+      draft.actionType === MessageActionType.Url &&
+      !isHttpUrl(nextActionValue)
+    ) {
+      errors.actionValue = 'Enter a valid http/https URL.';
+    }
+  }
+
+  return errors;
+}
+
+export function toBroadcastMessage(
+  draft: BroadcastMessageDraft,
+): BroadcastMessage {
+  return {
+    text: draft.text.trim(),
+    imgId: draft.imageFile?.id || undefined,
+    videoId: draft.videoFile?.id || undefined,
+    action: draft.isActionEnabled
+      ? {
+          text: draft.actionText.trim(),
+          value: draft.actionValue.trim(),
+          type: draft.actionType,
+        }
+      : undefined,
+  };
+}
@@ -14,19 +14,18 @@ import { Link, useSearchParams } from 'react-router-dom';
 import { isApiRequestError } from '@/app/api/apiErrors';
 import {
   createCharacterImage as createCharacterImageApi,
-  getCharacterImageDetails,
-  getCharacterImages,
   useCharacterImages,
   useDeleteCharacterImage,
 } from '@/app/character-images';
 import { useCharacterDetails, useCharacters } from '@/app/characters';
-import {
-  getCharacterDetails,
-  getCharacters,
-} from '@/app/characters/charactersApi';
-import { copyFile, markFileUploaded, signUpload } from '@/app/files/filesApi';
+import { markFileUploaded, signUpload } from '@/app/files/filesApi';
 import { usePosePromptDetails, usePosePrompts } from '@/app/pose-prompts';
 import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  downloadTransferFile,
+  getDefaultTransferSelection,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
 import { DownloadIcon, PlusIcon, UploadIcon } from '@/assets/icons';
 import {
   Badge,
@@ -46,27 +45,36 @@ import {
 import {
   FileDir,
   FileStatus,
-  type ICharacterDetails,
   type IFile,
   Pose,
   RoleplayStage,
   STAGES_IN_ORDER,
 } from '@/common/types';
 import { formatCharacterSelectLabel, poseOptions } from '@/common/utils';
-import { Drawer } from '@/components/molecules';
+import { Drawer, ImportPreviewModal } from '@/components/molecules';
 import { AppShell } from '@/components/templates';
 import { SearchSelect } from '@/pages/generations/components/SearchSelect';
 
 import { CharacterImagesGallery } from './CharacterImagesGallery';
+import {
+  buildCharacterImagesImportPreview,
+  fetchAllImageDetails,
+  importCharacterImageTransferItems,
+} from './characterImagesImport';
 import s from './CharacterImagesPage.module.scss';
 import {
   buildCharacterImagesTransferFileName,
   buildCharacterImagesTransferPayload,
-  type CharacterImageTransferFile,
-  downloadCharacterImagesTransferFile,
+  type CharacterImageTransferItem,
   parseCharacterImagesTransferFile,
 } from './characterImagesTransfer';
 
+type CharacterImagesImportPreview = {
+  images: CharacterImageTransferItem[];
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+};
+
 type QueryUpdate = {
   search?: string;
   order?: string;
@@ -189,10 +197,6 @@ function formatStage(value: RoleplayStage | null | undefined) {
   return STAGE_LABELS[value] ?? value;
 }
 
-function normalizeEntityName(value: string) {
-  return value.trim();
-}
-
 function getFileExtension(name: string) {
   const parts = name.split('.');
   if (parts.length < 2) return '';
@@ -289,6 +293,9 @@ export function CharacterImagesPage() {
   const normalizedSearch = debouncedSearch.trim();
   const [isImporting, setIsImporting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [importPreview, setImportPreview] =
+    useState<CharacterImagesImportPreview | null>(null);
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
   const deleteImageMutation = useDeleteCharacterImage();
 
   const order = ORDER_VALUES.has(rawOrder ?? '') ? rawOrder! : DEFAULT_ORDER;
@@ -942,61 +949,12 @@ export function CharacterImagesPage() {
     }
   };
 
-  const fetchAllImageSummaries = useCallback(async () => {
-    const allImages: Awaited<ReturnType<typeof getCharacterImages>>['data'] =
-      [];
-    let skip = 0;
-    const take = 200;
-
-    while (true) {
-      const pageData = await getCharacterImages({
-        order: 'ASC',
-        skip,
-        take,
-      });
-      allImages.push(...pageData.data);
-      skip += pageData.data.length;
-      if (skip >= pageData.total || pageData.data.length === 0) {
-        break;
-      }
-    }
-
-    return allImages;
-  }, []);
-
-  const fetchAllCharacters = useCallback(async () => {
-    const allCharacters: Awaited<ReturnType<typeof getCharacters>>['data'] = [];
-    let skip = 0;
-    const take = 200;
-
-    while (true) {
-      const pageData = await getCharacters({
-        order: 'ASC',
-        skip,
-        take,
-      });
-      allCharacters.push(...pageData.data);
-      skip += pageData.data.length;
-      if (skip >= pageData.total || pageData.data.length === 0) {
-        break;
-      }
-    }
-
-    return allCharacters;
-  }, []);
-
   const handleExport = async () => {
     try {
       setIsExporting(true);
-      const imagesList = await fetchAllImageSummaries();
-      const details = await Promise.all(
-        imagesList.map((image) => getCharacterImageDetails(image.id)),
-      );
+      const details = await fetchAllImageDetails();
       const payload = buildCharacterImagesTransferPayload(details);
-      downloadCharacterImagesTransferFile(
-        payload,
-        buildCharacterImagesTransferFileName(),
-      );
+      downloadTransferFile(payload, buildCharacterImagesTransferFileName());
       notifySuccess('Images exported.', 'Images exported.');
     } catch (error) {
       notifyError(error, 'Unable to export images.');
@@ -1020,197 +978,40 @@ export function CharacterImagesPage() {
     setIsImporting(true);
     try {
       const imported = await parseCharacterImagesTransferFile(file);
+      const entries = await buildCharacterImagesImportPreview(imported.images);
+      setImportPreview({
+        images: imported.images,
+        entries,
+        selectedKeys: getDefaultTransferSelection(entries),
+      });
+    } catch (error) {
+      notifyError(error, 'Unable to import images.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      const allCharacters = await fetchAllCharacters();
-      const requiredCharacterNames = new Set(
-        imported.images.map((item) => normalizeEntityName(item.characterName)),
-      );
-
-      const characterNameToIds = new Map<string, string[]>();
-      for (const name of requiredCharacterNames) {
-        characterNameToIds.set(name, []);
-      }
-      for (const character of allCharacters) {
-        const name = normalizeEntityName(character.name);
-        if (!name || !characterNameToIds.has(name)) continue;
-        characterNameToIds.get(name)?.push(character.id);
-      }
-
-      const missingCharacters: string[] = [];
-      const ambiguousCharacters: string[] = [];
-      const resolvedCharacterIdsByName = new Map<string, string>();
-
-      for (const name of requiredCharacterNames) {
-        const ids = characterNameToIds.get(name) ?? [];
-        if (ids.length === 0) {
-          missingCharacters.push(name);
-          continue;
-        }
-        if (ids.length > 1) {
-          ambiguousCharacters.push(name);
-          continue;
-        }
-        resolvedCharacterIdsByName.set(name, ids[0]);
-      }
-
-      if (missingCharacters.length > 0) {
-        throw new Error(
-          `Missing characters in target environment: ${missingCharacters.join(', ')}.`,
-        );
-      }
-      if (ambiguousCharacters.length > 0) {
-        throw new Error(
-          `Character names are not unique in target environment: ${ambiguousCharacters.join(', ')}.`,
-        );
-      }
-
-      const requiredScenarioNamesByCharacterId = new Map<string, Set<string>>();
-      for (const item of imported.images) {
-        const characterName = normalizeEntityName(item.characterName);
-        const scenarioName = normalizeEntityName(item.scenarioName);
-        const characterId = resolvedCharacterIdsByName.get(characterName);
-        if (!characterId) {
-          throw new Error(`Character "${characterName}" was not resolved.`);
-        }
-        const currentSet =
-          requiredScenarioNamesByCharacterId.get(characterId) ??
-          new Set<string>();
-        currentSet.add(scenarioName);
-        requiredScenarioNamesByCharacterId.set(characterId, currentSet);
-      }
+  const handleApplyImport = async () => {
+    if (!importPreview) return;
 
-      const characterDetailsEntries = await Promise.all(
-        Array.from(requiredScenarioNamesByCharacterId.keys()).map(
-          async (id) => [id, await getCharacterDetails(id)] as const,
-        ),
-      );
-      const characterDetailsById = new Map<string, ICharacterDetails>(
-        characterDetailsEntries,
+    setIsApplyingImport(true);
+    try {
+      const result = await importCharacterImageTransferItems(
+        importPreview.images,
+        { selectedKeys: importPreview.selectedKeys },
       );
-
-      const resolvedScenarioIds = new Map<string, string>();
-      for (const [
-        characterId,
-        requiredScenarioNames,
-      ] of requiredScenarioNamesByCharacterId.entries()) {
-        const details = characterDetailsById.get(characterId);
-        if (!details) {
-          throw new Error(
-            `Character "${characterId}" details were not loaded.`,
-          );
-        }
-
-        const scenarioNameToIds = new Map<string, string[]>();
-        for (const name of requiredScenarioNames) {
-          scenarioNameToIds.set(name, []);
-        }
-
-        for (const scenario of details.scenarios) {
-          const scenarioName = normalizeEntityName(scenario.name);
-          if (!scenarioNameToIds.has(scenarioName)) continue;
-          scenarioNameToIds.get(scenarioName)?.push(scenario.id);
-        }
-
-        const missingScenarios: string[] = [];
-        const ambiguousScenarios: string[] = [];
-        for (const scenarioName of requiredScenarioNames) {
-          const ids = scenarioNameToIds.get(scenarioName) ?? [];
-          if (ids.length === 0) {
-            missingScenarios.push(scenarioName);
-            continue;
-          }
-          if (ids.length > 1) {
-            ambiguousScenarios.push(scenarioName);
-            continue;
-          }
-          resolvedScenarioIds.set(`${characterId}::${scenarioName}`, ids[0]);
-        }
-
-        if (missingScenarios.length > 0) {
-          throw new Error(
-            `Missing scenarios for character "${details.name}": ${missingScenarios.join(', ')}.`,
-          );
-        }
-        if (ambiguousScenarios.length > 0) {
-          throw new Error(
-            `Scenario names are not unique for character "${details.name}": ${ambiguousScenarios.join(', ')}.`,
-          );
-        }
-      }
-
-      const filesById = new Map<string, CharacterImageTransferFile>();
-      const registerFile = (transferFile: CharacterImageTransferFile) => {
-        const existingFile = filesById.get(transferFile.id);
-        if (
-          existingFile &&
-          (existingFile.path !== transferFile.path ||
-            existingFile.name !== transferFile.name ||
-            existingFile.mime !== transferFile.mime ||
-            existingFile.dir !== transferFile.dir ||
-            existingFile.status !== transferFile.status)
-        ) {
-          throw new Error(
-            `Conflicting file metadata for image id "${transferFile.id}" in import file.`,
-          );
-        }
-        filesById.set(transferFile.id, transferFile);
-      };
-
-      for (const item of imported.images) {
-        registerFile(item.file);
-        if (item.blurredFile) {
-          registerFile(item.blurredFile);
-        }
-      }
-
-      for (const transferFile of filesById.values()) {
-        await copyFile({
-          id: transferFile.id,
-          name: transferFile.name,
-          path: transferFile.path,
-          dir: transferFile.dir,
-          status: transferFile.status,
-          mime: transferFile.mime,
-          url: transferFile.url ?? undefined,
-        });
-      }
-
-      for (const item of imported.images) {
-        const characterName = normalizeEntityName(item.characterName);
-        const scenarioName = normalizeEntityName(item.scenarioName);
-        const characterId = resolvedCharacterIdsByName.get(characterName);
-        if (!characterId) {
-          throw new Error(`Character "${characterName}" was not resolved.`);
-        }
-        const scenarioId = resolvedScenarioIds.get(
-          `${characterId}::${scenarioName}`,
-        );
-        if (!scenarioId) {
-          throw new Error(
-            `Scenario "${scenarioName}" for character "${characterName}" was not resolved.`,
-          );
-        }
-
-        await createCharacterImageApi({
-          characterId,
-          scenarioId,
-          stage: item.stage,
-          description: item.description.trim(),
-          isPregenerated: item.isPregenerated,
-          isPromotional: item.isPromotional,
-          fileId: item.file.id,
-          blurredFileId: item.blurredFile?.id || undefined,
-        });
-      }
-
       await queryClient.invalidateQueries({
         queryKey: ['character-images'],
       });
-      notifySuccess('Images imported.', 'Images imported.');
+      setImportPreview(null);
+      notifySuccess(
+        `Images imported. Created: ${result.created}, updated: ${result.updated}, skipped: ${result.skipped}.`,
+        'Images imported.',
+      );
     } catch (error) {
       notifyError(error, 'Unable to import images.');
     } finally {
-      setIsImporting(false);
+      setIsApplyingImport(false);
     }
   };
 
@@ -1688,6 +1489,23 @@ export function CharacterImagesPage() {
           </div>
         </Stack>
       </Drawer>
+
+      <ImportPreviewModal
+        open={Boolean(importPreview)}
+        title="Review images import"
+        entries={importPreview?.entries ?? []}
+        selectedKeys={importPreview?.selectedKeys ?? new Set()}
+        onSelectedKeysChange={(selectedKeys) =>
+          setImportPreview((current) =>
+            current ? { ...current, selectedKeys } : current,
+          )
+        }
+        isApplying={isApplyingImport}
+        onApply={() => void handleApplyImport()}
+        onClose={() => {
+          if (!isApplyingImport) setImportPreview(null);
+        }}
+      />
     </AppShell>
   );
 }
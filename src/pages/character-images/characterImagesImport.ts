@@ -0,0 +1,417 @@
+import {
+  createCharacterImage,
+  getCharacterImageDetails,
+  getCharacterImages,
+  updateCharacterImage,
+} from '@/app/character-images';
+import {
+  getCharacterDetails,
+  getCharacters,
+} from '@/app/characters/charactersApi';
+import {
+  buildTransferPreviewEntry,
+  copyTransferFile,
+  isSameTransferFile,
+  isTransferKeySelected,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import type { ICharacterDetails, ICharacterImage } from '@/common/types';
+import { formatRoleplayStage } from '@/common/utils';
+
+import type {
+  CharacterImageTransferFile,
+  CharacterImageTransferItem,
+} from './characterImagesTransfer';
+
+type ImportCharacterImagesOptions = {
+  characterId?: string;
+  selectedKeys?: Set<string>;
+};
+
+type CharacterImagesFilter = {
+  characterId?: string;
+};
+
+export function normalizeEntityName(value: string) {
+  return value.trim();
+}
+
+export async function fetchAllImageSummaries(
+  filter: CharacterImagesFilter = {},
+) {
+  const allImages: Awaited<ReturnType<typeof getCharacterImages>>['data'] = [];
+  let skip = 0;
+  const take = 200;
+
+  while (true) {
+    const pageData = await getCharacterImages({
+      order: 'ASC',
+      skip,
+      take,
+      characterId: filter.characterId,
+    });
+    allImages.push(...pageData.data);
+    skip += pageData.data.length;
+    if (skip >= pageData.total || pageData.data.length === 0) {
+      break;
+    }
+  }
+
+  return allImages;
+}
+
+export async function fetchAllImageDetails(filter: CharacterImagesFilter = {}) {
+  const imagesList = await fetchAllImageSummaries(filter);
+  return Promise.all(
+    imagesList.map((image) => getCharacterImageDetails(image.id)),
+  );
+}
+
+async function fetchAllCharacters() {
+  const allCharacters: Awaited<ReturnType<typeof getCharacters>>['data'] = [];
+  let skip = 0;
+  const take = 200;
+
+  while (true) {
+    const pageData = await getCharacters({
+      order: 'ASC',
+      skip,
+      take,
+    });
+    allCharacters.push(...pageData.data);
+    skip += pageData.data.length;
+    if (skip >= pageData.total || pageData.data.length === 0) {
+      break;
+    }
+  }
+
+  return allCharacters;
+}
+
+async function resolveCharacterIdsByName(images: CharacterImageTransferItem[]) {
+  const allCharacters = await fetchAllCharacters();
+  const requiredCharacterNames = new Set(
+    images.map((item) => normalizeEntityName(item.characterName)),
+  );
+
+  const characterNameToIds = new Map<string, string[]>();
+  for (const name of requiredCharacterNames) {
+    characterNameToIds.set(name, []);
+  }
+  for (const character of allCharacters) {
+    const name = normalizeEntityName(character.name);
+    if (!name || !characterNameToIds.has(name)) continue;
+    characterNameToIds.get(name)?.push(character.id);
+  }
+
+  const missingCharacters: string[] = [];
+  const ambiguousCharacters: string[] = [];
+  const resolvedCharacterIdsByName = new Map<string, string>();
+
+  for (const name of requiredCharacterNames) {
+    const ids = characterNameToIds.get(name) ?? [];
+    if (ids.length === 0) {
+      missingCharacters.push(name);
+      continue;
+    }
+    if (ids.length > 1) {
+      ambiguousCharacters.push(name);
+      continue;
+    }
+    resolvedCharacterIdsByName.set(name, ids[0]);
+  }
+
+  if (missingCharacters.length > 0) {
+    throw new Error(
+      `Missing characters in target environment: ${missingCharacters.join(', ')}.`,
+    );
+  }
+  if (ambiguousCharacters.length > 0) {
+    throw new Error(
+      `Character names are not unique in target environment: ${ambiguousCharacters.join(', ')}.`,
+    );
+  }
+
+  return resolvedCharacterIdsByName;
+}
+
+async function createCharacterIdResolver(
+  images: CharacterImageTransferItem[],
+  targetCharacterId: string | undefined,
+) {
+  const resolvedCharacterIdsByName = targetCharacterId
+    ? null
+    : await resolveCharacterIdsByName(images);
+
+  return (item: CharacterImageTransferItem) => {
+    if (targetCharacterId) return targetCharacterId;
+    const characterName = normalizeEntityName(item.characterName);
+    const characterId = resolvedCharacterIdsByName?.get(characterName);
+    if (!characterId) {
+      throw new Error(`Character "${characterName}" was not resolved.`);
+    }
+    return characterId;
+  };
+}
+
+function getImageContentKey(
+  characterId: string,
+  scenarioName: string,
+  stage: string,
+  description: string,
+) {
+  return [
+    characterId,
+    normalizeEntityName(scenarioName),
+    stage,
+    description.trim(),
+  ].join('::');
+}
+
+async function indexExistingImages(characterIds: Iterable<string>) {
+  const byFile = new Map<string, ICharacterImage>();
+  const byContent = new Map<string, ICharacterImage>();
+
+  for (const characterId of new Set(characterIds)) {
+    const images = await fetchAllImageSummaries({ characterId });
+    for (const image of images) {
+      byFile.set(`${characterId}::${image.file.id}`, image);
+      byContent.set(
+        getImageContentKey(
+          characterId,
+          image.scenario.name,
+          image.stage,
+          image.description,
+        ),
+        image,
+      );
+    }
+  }
+
+  return {
+    find: (characterId: string, item: CharacterImageTransferItem) =>
+      byFile.get(`${characterId}::${item.file.id}`) ??
+      byContent.get(
+        getImageContentKey(
+          characterId,
+          item.scenarioName,
+          item.stage,
+          item.description,
+        ),
+      ),
+  };
+}
+
+function toImagePreviewFields(
+  image: ICharacterImage | CharacterImageTransferItem,
+) {
+  return {
+    scenario: normalizeEntityName(
+      'scenario' in image ? image.scenario.name : image.scenarioName,
+    ),
+    stage: image.stage,
+    description: image.description.trim(),
+    file: image.file.id,
+    isPregenerated: image.isPregenerated,
+    isPromotional: image.isPromotional,
+  };
+}
+
+const IMAGE_LOCKED_FIELDS = ['scenario', 'stage', 'description', 'file'];
+
+export function getCharacterImageImportKey(item: CharacterImageTransferItem) {
+  return `${normalizeEntityName(item.characterName)}::${item.file.id}`;
+}
+
+function buildCharacterImagePreviewEntry(
+  item: CharacterImageTransferItem,
+  existing: ICharacterImage | undefined,
+) {
+  return buildTransferPreviewEntry({
+    key: getCharacterImageImportKey(item),
+    label: `${normalizeEntityName(item.characterName)} / ${normalizeEntityName(item.scenarioName)} / ${formatRoleplayStage(item.stage)}: ${item.description.trim()}`,
+    before: existing ? toImagePreviewFields(existing) : null,
+    after: toImagePreviewFields(item),
+    lockedFields: IMAGE_LOCKED_FIELDS,
+  });
+}
+
+export async function buildCharacterImagesImportPreview(
+  images: CharacterImageTransferItem[],
+  { characterId: targetCharacterId }: ImportCharacterImagesOptions = {},
+): Promise<TransferPreviewEntry[]> {
+  const resolveCharacterId = await createCharacterIdResolver(
+    images,
+    targetCharacterId,
+  );
+  const existing = await indexExistingImages(images.map(resolveCharacterId));
+
+  return images.map((item) =>
+    buildCharacterImagePreviewEntry(
+      item,
+      existing.find(resolveCharacterId(item), item),
+    ),
+  );
+}
+
+export async function importCharacterImageTransferItems(
+  images: CharacterImageTransferItem[],
+  {
+    characterId: targetCharacterId,
+    selectedKeys,
+  }: ImportCharacterImagesOptions = {},
+) {
+  const resolveCharacterId = await createCharacterIdResolver(
+    images,
+    targetCharacterId,
+  );
+  const existing = await indexExistingImages(images.map(resolveCharacterId));
+
+  const toCreate: CharacterImageTransferItem[] = [];
+  const toUpdate: Array<{ id: string; item: CharacterImageTransferItem }> = [];
+  let skipped = 0;
+
+  for (const item of images) {
+    if (
+      !isTransferKeySelected(selectedKeys, getCharacterImageImportKey(item))
+    ) {
+      skipped += 1;
+      continue;
+    }
+    const current = existing.find(resolveCharacterId(item), item);
+    const entry = buildCharacterImagePreviewEntry(item, current);
+    if (!current) {
+      toCreate.push(item);
+    } else if (entry.action === 'update') {
+      toUpdate.push({ id: current.id, item });
+    } else {
+      skipped += 1;
+    }
+  }
+
+  const requiredScenarioNamesByCharacterId = new Map<string, Set<string>>();
+  for (const item of toCreate) {
+    const characterId = resolveCharacterId(item);
+    const scenarioName = normalizeEntityName(item.scenarioName);
+    const currentSet =
+      requiredScenarioNamesByCharacterId.get(characterId) ?? new Set<string>();
+    currentSet.add(scenarioName);
+    requiredScenarioNamesByCharacterId.set(characterId, currentSet);
+  }
+
+  const characterDetailsEntries = await Promise.all(
+    Array.from(requiredScenarioNamesByCharacterId.keys()).map(
+      async (id) => [id, await getCharacterDetails(id)] as const,
+    ),
+  );
+  const characterDetailsById = new Map<string, ICharacterDetails>(
+    characterDetailsEntries,
+  );
+
+  const resolvedScenarioIds = new Map<string, string>();
+  for (const [
+    characterId,
+    requiredScenarioNames,
+  ] of requiredScenarioNamesByCharacterId.entries()) {
+    const details = characterDetailsById.get(characterId);
+    if (!details) {
+      throw new Error(`Character "${characterId}" details were not loaded.`);
+    }
+
+    const scenarioNameToIds = new Map<string, string[]>();
+    for (const name of requiredScenarioNames) {
+      scenarioNameToIds.set(name, []);
+    }
+
+    for (const scenario of details.scenarios) {
+      const scenarioName = normalizeEntityName(scenario.name);
+      if (!scenarioNameToIds.has(scenarioName)) continue;
+      scenarioNameToIds.get(scenarioName)?.push(scenario.id);
+    }
+
+    const missingScenarios: string[] = [];
+    const ambiguousScenarios: string[] = [];
+    for (const scenarioName of requiredScenarioNames) {
+      const ids = scenarioNameToIds.get(scenarioName) ?? [];
+      if (ids.length === 0) {
+        missingScenarios.push(scenarioName);
+        continue;
+      }
+      if (ids.length > 1) {
+        ambiguousScenarios.push(scenarioName);
+        continue;
+      }
+      resolvedScenarioIds.set(`${characterId}::${scenarioName}`, ids[0]);
+    }
+
+    if (missingScenarios.length > 0) {
+      throw new Error(
+        `Missing scenarios for character "${details.name}": ${missingScenarios.join(', ')}.`,
+      );
+    }
+    if (ambiguousScenarios.length > 0) {
+      throw new Error(
+        `Scenario names are not unique for character "${details.name}": ${ambiguousScenarios.join(', ')}.`,
+      );
+    }
+  }
+
+  const filesById = new Map<string, CharacterImageTransferFile>();
+  const registerFile = (transferFile: CharacterImageTransferFile) => {
+    const existingFile = filesById.get(transferFile.id);
+    if (existingFile && !isSameTransferFile(existingFile, transferFile)) {
+      throw new Error(
+        `Conflicting file metadata for image id "${transferFile.id}" in import file.`,
+      );
+    }
+    filesById.set(transferFile.id, transferFile);
+  };
+
+  for (const item of toCreate) {
+    registerFile(item.file);
+    if (item.blurredFile) {
+      registerFile(item.blurredFile);
+    }
+  }
+
+  for (const transferFile of filesById.values()) {
+    await copyTransferFile(transferFile);
+  }
+
+  for (const item of toCreate) {
+    const characterId = resolveCharacterId(item);
+    const scenarioName = normalizeEntityName(item.scenarioName);
+    const scenarioId = resolvedScenarioIds.get(
+      `${characterId}::${scenarioName}`,
+    );
+    if (!scenarioId) {
+      throw new Error(
+        `Scenario "${scenarioName}" for character "${item.characterName}" was not resolved.`,
+      );
+    }
+
+    await createCharacterImage({
+      characterId,
+      scenarioId,
+      stage: item.stage,
+      description: item.description.trim(),
+      isPregenerated: item.isPregenerated,
+      isPromotional: item.isPromotional,
+      fileId: item.file.id,
+      blurredFileId: item.blurredFile?.id || undefined,
+    });
+  }
+
+  for (const { id, item } of toUpdate) {
+    await updateCharacterImage(id, {
+      isPregenerated: item.isPregenerated,
+      isPromotional: item.isPromotional,
+    });
+  }
+
+  return {
+    created: toCreate.length,
+    updated: toUpdate.length,
+    skipped,
+  };
+}
@@ -1,23 +1,27 @@
 import {
-  FileDir,
-  FileStatus,
+  buildTransferEnvelope,
+  defineTransferSchema,
+  ensureArray,
+  ensureBoolean,
+  ensureNonEmptyString,
+  ensureRecord,
+  ensureStage,
+  ensureString,
+  parseTransferFile,
+  parseTransferFileAs,
+  toTransferFile,
+  type TransferFile,
+} from '@/app/transfer';
+import {
   type ICharacterImageDetails,
-  RoleplayStage,
+  type RoleplayStage,
   STAGES_IN_ORDER,
 } from '@/common/types';
 
 const CHARACTER_IMAGES_TRANSFER_SCHEMA = 'character-images';
 const CHARACTER_IMAGES_TRANSFER_VERSION = 1;
 
-export type CharacterImageTransferFile = {
-  id: string;
-  name: string;
-  path: string;
-  dir: FileDir;
-  status: FileStatus;
-  mime: string;
-  url?: string | null;
-};
+export type CharacterImageTransferFile = TransferFile;
 
 export type CharacterImageTransferItem = {
   description: string;
@@ -37,91 +41,7 @@ export type CharacterImagesTransferPayload = {
   images: CharacterImageTransferItem[];
 };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
-function ensureRecord(value: unknown, path: string) {
-  if (!isRecord(value)) {
-    throw new Error(`Invalid import file: "${path}" must be an object.`);
-  }
-  return value;
-}
-
-function ensureString(value: unknown, path: string) {
-  if (typeof value !== 'string') {
-    throw new Error(`Invalid import file: "${path}" must be a string.`);
-  }
-  return value;
-}
-
-function ensureNonEmptyString(value: unknown, path: string) {
-  const parsed = ensureString(value, path).trim();
-  if (!parsed) {
-    throw new Error(`Invalid import file: "${path}" must not be empty.`);
-  }
-  return parsed;
-}
-
-function ensureBoolean(value: unknown, path: string) {
-  if (typeof value !== 'boolean') {
-    throw new Error(`Invalid import file: "${path}" must be a boolean.`);
-  }
-  return value;
-}
-
-function ensureStage(value: unknown, path: string): RoleplayStage {
-  const stage = ensureString(value, path);
-  if (!STAGES_IN_ORDER.includes(stage as RoleplayStage)) {
-    throw new Error(
-      `Invalid import file: "${path}" has unknown stage "${stage}".`,
-    );
-  }
-  return stage as RoleplayStage;
-}
-
-function parseTransferFile(
-  value: unknown,
-  path: string,
-): CharacterImageTransferFile {
-  const obj = ensureRecord(value, path);
-  const dir = ensureString(obj.dir, `${path}.dir`);
-  const status = ensureString(obj.status, `${path}.status`);
-
-  if (!Object.values(FileDir).includes(dir as FileDir)) {
-    throw new Error(
-      `Invalid import file: "${path}.dir" has unsupported value.`,
-    );
-  }
-  if (!Object.values(FileStatus).includes(status as FileStatus)) {
-    throw new Error(
-      `Invalid import file: "${path}.status" has unsupported value.`,
-    );
-  }
-
-  const urlValue = obj.url;
-  if (
-    urlValue !== undefined &&
-    urlValue !== null &&
-    typeof urlValue !== 'string'
-  ) {
-    throw new Error(
-      `Invalid import file: "${path}.url" must be a string, null, or omitted.`,
-    );
-  }
-
-  return {
-    id: ensureNonEmptyString(obj.id, `${path}.id`),
-    name: ensureNonEmptyString(obj.name, `${path}.name`),
-    path: ensureNonEmptyString(obj.path, `${path}.path`),
-    dir: dir as FileDir,
-    status: status as FileStatus,
-    mime: ensureNonEmptyString(obj.mime, `${path}.mime`),
-    url: (urlValue as string | null | undefined) ?? undefined,
-  };
-}
-
-function parseTransferItem(
+export function parseCharacterImageTransferItem(
   value: unknown,
   path: string,
 ): CharacterImageTransferItem {
@@ -152,130 +72,85 @@ function parseTransferItem(
   };
 }
 
-function toTransferFile(file: ICharacterImageDetails['file']) {
+function toImageTransferFile(file: ICharacterImageDetails['file']) {
   if (!file?.id || !file?.name || !file?.path || !file?.mime) {
     throw new Error('Unable to export images: file metadata is incomplete.');
   }
-  return {
-    id: file.id,
-    name: file.name,
-    path: file.path,
-    dir: file.dir,
-    status: file.status,
-    mime: file.mime,
-    url: file.url ?? undefined,
-  } satisfies CharacterImageTransferFile;
+  return toTransferFile(file);
 }
 
-export function buildCharacterImagesTransferPayload(
-  images: ICharacterImageDetails[],
-) {
-  const mapped = images.map((image, index) => {
-    const characterName = image.character?.name?.trim();
-    const scenarioName = image.scenario?.name?.trim();
-    const description = image.description?.trim();
-
-    if (!characterName) {
-      throw new Error(
-        `Unable to export images: image #${index + 1} has empty character name.`,
-      );
-    }
-    if (!scenarioName) {
-      throw new Error(
-        `Unable to export images: image #${index + 1} has empty scenario name.`,
-      );
-    }
-    if (!description) {
-      throw new Error(
-        `Unable to export images: image #${index + 1} has empty description.`,
-      );
-    }
-    if (!STAGES_IN_ORDER.includes(image.stage)) {
-      throw new Error(
-        `Unable to export images: image #${index + 1} has unsupported stage.`,
-      );
-    }
-
-    return {
-      description,
-      stage: image.stage,
-      isPregenerated: Boolean(image.isPregenerated),
-      isPromotional: Boolean(image.isPromotional),
-      characterName,
-      scenarioName,
-      file: toTransferFile(image.file),
-      blurredFile: image.blurredFile ? toTransferFile(image.blurredFile) : null,
-    } satisfies CharacterImageTransferItem;
-  });
-
-  return {
-    schema: CHARACTER_IMAGES_TRANSFER_SCHEMA,
-    version: CHARACTER_IMAGES_TRANSFER_VERSION,
-    exportedAt: new Date().toISOString(),
-    images: mapped,
-  } satisfies CharacterImagesTransferPayload;
-}
-
-export function buildCharacterImagesTransferFileName() {
-  return 'character-images.json';
-}
-
-export function downloadCharacterImagesTransferFile(
-  payload: CharacterImagesTransferPayload,
-  fileName: string,
-) {
-  const blob = new Blob([JSON.stringify(payload, null, 2)], {
-    type: 'application/json',
-  });
-  const url = window.URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = fileName;
-  link.rel = 'noopener';
-  document.body.appendChild(link);
-  link.click();
-  link.remove();
-  window.URL.revokeObjectURL(url);
-}
-
-export async function parseCharacterImagesTransferFile(file: File) {
-  const text = await file.text();
-  let rawPayload: unknown;
+export function toCharacterImageTransferItem(
+  image: ICharacterImageDetails,
+  index: number,
+): CharacterImageTransferItem {
+  const characterName = image.character?.name?.trim();
+  const scenarioName = image.scenario?.name?.trim();
+  const description = image.description?.trim();
 
-  try {
-    rawPayload = JSON.parse(text) as unknown;
-  } catch (_error) {
-    throw new Error('Invalid JSON file.');
+  if (!characterName) {
+    throw new Error(
+      `Unable to export images: image #${index + 1} has empty character name.`,
+    );
   }
-
-  const payloadObj = ensureRecord(rawPayload, 'root');
-  const schema = ensureString(payloadObj.schema, 'schema');
-  const version = payloadObj.version;
-
-  if (schema !== CHARACTER_IMAGES_TRANSFER_SCHEMA) {
+  if (!scenarioName) {
     throw new Error(
-      `Invalid import file: unsupported schema "${schema}". Expected "${CHARACTER_IMAGES_TRANSFER_SCHEMA}".`,
+      `Unable to export images: image #${index + 1} has empty scenario name.`,
     );
   }
-  if (version !== CHARACTER_IMAGES_TRANSFER_VERSION) {
+  if (!description) {
     throw new Error(
-      `Invalid import file: unsupported version "${String(version)}".`,
+      `Unable to export images: image #${index + 1} has empty description.`,
     );
   }
-
-  const imagesValue = payloadObj.images;
-  if (!Array.isArray(imagesValue)) {
-    throw new Error('Invalid import file: "images" must be an array.');
+  if (!STAGES_IN_ORDER.includes(image.stage)) {
+    throw new Error(
+      `Unable to export images: image #${index + 1} has unsupported stage.`,
+    );
   }
 
-  const images = imagesValue.map((item, index) =>
-    parseTransferItem(item, `images[${index}]`),
-  );
+  return {
+    description,
+    stage: image.stage,
+    isPregenerated: Boolean(image.isPregenerated),
+    isPromotional: Boolean(image.isPromotional),
+    characterName,
+    scenarioName,
+    file: toImageTransferFile(image.file),
+    blurredFile: image.blurredFile
+      ? toImageTransferFile(image.blurredFile)
+      : null,
+  };
+}
 
+export function buildCharacterImagesTransferPayload(
+  images: ICharacterImageDetails[],
+) {
   return {
+    ...buildTransferEnvelope(
+      CHARACTER_IMAGES_TRANSFER_SCHEMA,
+      CHARACTER_IMAGES_TRANSFER_VERSION,
+    ),
+    images: images.map(toCharacterImageTransferItem),
+  } satisfies CharacterImagesTransferPayload;
+}
+
+export function buildCharacterImagesTransferFileName() {
+  return 'character-images.json';
+}
+
+export const characterImagesTransferSchema = defineTransferSchema({
+  schema: CHARACTER_IMAGES_TRANSFER_SCHEMA,
+  version: CHARACTER_IMAGES_TRANSFER_VERSION,
+  parse: (payloadObj): CharacterImagesTransferPayload => ({
     schema: CHARACTER_IMAGES_TRANSFER_SCHEMA,
     version: CHARACTER_IMAGES_TRANSFER_VERSION,
     exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
-    images,
-  } satisfies CharacterImagesTransferPayload;
+    images: ensureArray(payloadObj.images, 'images').map((item, index) =>
+      parseCharacterImageTransferItem(item, `images[${index}]`),
+    ),
+  }),
+});
+
+export async function parseCharacterImagesTransferFile(file: File) {
+  return parseTransferFileAs(characterImagesTransferSchema, file);
 }
@@ -1,16 +1,35 @@
-import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { type ChangeEvent, useMemo, useRef, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 
+import { usePermissions } from '@/app/auth';
 import {
   useCharacterDetails,
   useCloneCharacterAsAnime,
   useDeleteCharacter,
 } from '@/app/characters';
+import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  downloadTransferFile,
+  getDefaultTransferSelection,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
 import { Alert, Button, Container, EmptyState, Stack } from '@/atoms';
-import { CharacterType } from '@/common/types';
-import { ConfirmModal } from '@/components/molecules';
+import { AuditEntityType, CharacterType, Permission } from '@/common/types';
+import { ConfirmModal, ImportPreviewModal } from '@/components/molecules';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
+import {
+  buildCharacterBundle,
+  buildCharacterBundleImportPreview,
+  importCharacterBundle,
+} from './characterBundleImport';
+import {
+  buildCharacterBundleTransferFileName,
+  type CharacterBundleTransferPayload,
+  parseCharacterBundleTransferFile,
+} from './characterBundleTransfer';
 import s from './CharacterDetailsPage.module.scss';
 import { CharacterEditDrawer } from './components/CharacterEditDrawer';
 import { CharacterHeader } from './components/CharacterHeader';
@@ -18,6 +37,12 @@ import { CharacterOverview } from './components/CharacterOverview';
 import { ScenarioSection } from './components/ScenarioSection';
 import { StoriesSection } from './components/StoriesSection';
 
+type CharacterBundleImportPreview = {
+  bundle: CharacterBundleTransferPayload;
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+};
+
 const isStoriesEnabled = import.meta.env.VITE_STORIES_ON === 'true';
 
 const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
@@ -42,9 +67,11 @@ function formatValue(value: string | null | undefined) {
 export function CharacterDetailsPage() {
   const { id } = useParams();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { data, error, isLoading, refetch } = useCharacterDetails(id ?? null);
   const cloneAnimeMutation = useCloneCharacterAsAnime();
   const deleteMutation = useDeleteCharacter();
+  const { can } = usePermissions();
 
   const scenarios = useMemo(() => data?.scenarios ?? [], [data?.scenarios]);
   const stories = useMemo(() => data?.stories ?? [], [data?.stories]);
@@ -64,6 +91,12 @@ export function CharacterDetailsPage() {
 
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  const [isImportingBundle, setIsImportingBundle] = useState(false);
+  const [bundlePreview, setBundlePreview] =
+    useState<CharacterBundleImportPreview | null>(null);
+  const [isApplyingBundle, setIsApplyingBundle] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement | null>(null);
 
   const handleDelete = async () => {
     if (!data) return;
@@ -90,6 +123,81 @@ export function CharacterDetailsPage() {
     }
   };
 
+  const handleExportBundle = async () => {
+    if (!data) return;
+
+    setIsExportingBundle(true);
+    try {
+      const payload = await buildCharacterBundle(data);
+      downloadTransferFile(
+        payload,
+        buildCharacterBundleTransferFileName(data.name),
+      );
+      notifySuccess('Character bundle exported.', 'Bundle exported.');
+    } catch (error) {
+      notifyError(error, 'Unable to export character bundle.');
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
+  const handleImportBundleClick = () => {
+    if (!data || isImportingBundle) return;
+    bundleInputRef.current?.click();
+  };
+
+  const handleImportBundleFileChange = async (
+    event: ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0] ?? null;
+    event.target.value = '';
+    if (!file || !data) return;
+
+    setIsImportingBundle(true);
+    try {
+      const bundle = await parseCharacterBundleTransferFile(file);
+      const entries = await buildCharacterBundleImportPreview(data, bundle);
+      setBundlePreview({
+        bundle,
+        entries,
+        selectedKeys: getDefaultTransferSelection(entries),
+      });
+    } catch (error) {
+      notifyError(error, 'Unable to import character bundle.');
+    } finally {
+      setIsImportingBundle(false);
+    }
+  };
+
+  const handleApplyBundleImport = async () => {
+    if (!bundlePreview || !data) return;
+
+    setIsApplyingBundle(true);
+    try {
+      const result = await importCharacterBundle(
+        data,
+        bundlePreview.bundle,
+        bundlePreview.selectedKeys,
+      );
+
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['character', data.id] }),
+        queryClient.invalidateQueries({ queryKey: ['gifts'] }),
+        queryClient.invalidateQueries({ queryKey: ['pose-prompts'] }),
+        queryClient.invalidateQueries({ queryKey: ['character-images'] }),
+      ]);
+      notifySuccess(
+        `Character bundle imported. Scenarios: ${result.scenarios}, gifts: ${result.gifts.created + result.gifts.updated}, poses: ${result.poses.created + result.poses.updated}, images created: ${result.images.created}, updated: ${result.images.updated}, skipped: ${result.images.skipped}.`,
+        'Bundle imported.',
+      );
+      setBundlePreview(null);
+    } catch (error) {
+      notifyError(error, 'Unable to import character bundle.');
+    } finally {
+      setIsApplyingBundle(false);
+    }
+  };
+
   return (
     <AppShell>
       <Container size="wide" className={s.page}>
@@ -100,8 +208,19 @@ export function CharacterDetailsPage() {
           canAddAnime={Boolean(data && data.type === CharacterType.Realistic)}
           isAddingAnime={cloneAnimeMutation.isPending}
           onDelete={() => setIsDeleteOpen(true)}
-          canDelete={Boolean(data)}
+          canDelete={Boolean(data) && can(Permission.CharacterDelete)}
           isDeleting={deleteMutation.isPending}
+          onExportBundle={() => void handleExportBundle()}
+          isExportingBundle={isExportingBundle}
+          onImportBundle={handleImportBundleClick}
+          isImportingBundle={isImportingBundle}
+        />
+        <input
+          ref={bundleInputRef}
+          className={s.hiddenInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportBundleFileChange}
         />
 
         {error ? (
@@ -166,12 +285,35 @@ export function CharacterDetailsPage() {
           onClose={() => setIsDeleteOpen(false)}
         />
 
+        <ImportPreviewModal
+          open={Boolean(bundlePreview)}
+          title="Review character bundle import"
+          entries={bundlePreview?.entries ?? []}
+          selectedKeys={bundlePreview?.selectedKeys ?? new Set()}
+          onSelectedKeysChange={(selectedKeys) =>
+            setBundlePreview((current) =>
+              current ? { ...current, selectedKeys } : current,
+            )
+          }
+          isApplying={isApplyingBundle}
+          onApply={() => void handleApplyBundleImport()}
+          onClose={() => {
+            if (!isApplyingBundle) setBundlePreview(null);
+          }}
+        />
+
         {!data && !isLoading && !error ? (
           <EmptyState
             title="Character not found"
             description="We could not find this character."
           />
         ) : null}
+        {data ? (
+          <ActivityPanel
+            entityType={AuditEntityType.Character}
+            entityId={data.id}
+          />
+        ) : null}
       </Container>
     </AppShell>
   );
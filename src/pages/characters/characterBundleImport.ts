@@ -0,0 +1,200 @@
+import { getGiftDetails } from '@/app/gifts';
+import {
+  isTransferKeySelected,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import type { ICharacterDetails } from '@/common/types';
+import {
+  buildCharacterImagesImportPreview,
+  fetchAllImageDetails,
+  importCharacterImageTransferItems,
+} from '@/pages/character-images/characterImagesImport';
+import {
+  buildGiftsImportPreview,
+  fetchAllGiftSummaries,
+  importGiftTransferItems,
+  normalizeGiftName,
+} from '@/pages/gifts/giftImport';
+import {
+  buildPosesImportPreview,
+  fetchAllPosePromptDetails,
+  importPoseTransferItems,
+} from '@/pages/poses/poseImport';
+
+import {
+  buildCharacterBundleTransferPayload,
+  type CharacterBundleTransferPayload,
+} from './characterBundleTransfer';
+import {
+  buildScenarioImportPreview,
+  findScenarioBySlug,
+  getScenarioImportKey,
+  importScenarioTransferScenario,
+  resolveGiftIdsByName,
+  validateScenarioTransferScenario,
+} from './components/scenarioImport';
+
+type BundlePart = 'gift' | 'pose' | 'scenario' | 'image';
+
+const BUNDLE_PART_LABELS: Record<BundlePart, string> = {
+  gift: 'Gift',
+  pose: 'Pose',
+  scenario: 'Scenario',
+  image: 'Image',
+};
+
+function toBundleEntries(
+  part: BundlePart,
+  entries: TransferPreviewEntry[],
+): TransferPreviewEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    key: `${part}:${entry.key}`,
+    label: `${BUNDLE_PART_LABELS[part]}: ${entry.label}`,
+  }));
+}
+
+function getBundlePartKeys(
+  part: BundlePart,
+  selectedKeys: Set<string> | undefined,
+) {
+  if (!selectedKeys) return undefined;
+  const prefix = `${part}:`;
+  return new Set(
+    [...selectedKeys]
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length)),
+  );
+}
+
+function getSortedBundleScenarios(bundle: CharacterBundleTransferPayload) {
+  const scenarios = bundle.scenarios
+    .map((payload) => payload.scenario)
+    .sort((a, b) => a.level - b.level);
+  scenarios.forEach((scenario, index) =>
+    validateScenarioTransferScenario(scenario, `scenarios[${index}].scenario`),
+  );
+  return scenarios;
+}
+
+export async function buildCharacterBundle(character: ICharacterDetails) {
+  const giftNames = new Set(
+    character.scenarios.flatMap((scenario) =>
+      scenario.gifts
+        .map((gift) => normalizeGiftName(gift.gift?.name ?? ''))
+        .filter(Boolean),
+    ),
+  );
+
+  const giftSummaries = await fetchAllGiftSummaries();
+  const [gifts, poses, images] = await Promise.all([
+    Promise.all(
+      giftSummaries
+        .filter((gift) => giftNames.has(normalizeGiftName(gift.name)))
+        .map((gift) => getGiftDetails(gift.id)),
+    ),
+    fetchAllPosePromptDetails(),
+    fetchAllImageDetails({ characterId: character.id }),
+  ]);
+
+  return buildCharacterBundleTransferPayload({
+    character,
+    gifts,
+    poses,
+    images,
+  });
+}
+
+export async function buildCharacterBundleImportPreview(
+  character: ICharacterDetails,
+  bundle: CharacterBundleTransferPayload,
+) {
+  const scenarios = getSortedBundleScenarios(bundle);
+  const [gifts, poses, images] = await Promise.all([
+    buildGiftsImportPreview(bundle.gifts.gifts, { deleteMissing: false }),
+    buildPosesImportPreview(bundle.poses.poses),
+    buildCharacterImagesImportPreview(bundle.images.images, {
+      characterId: character.id,
+    }),
+  ]);
+
+  return [
+    ...toBundleEntries('gift', gifts),
+    ...toBundleEntries('pose', poses),
+    ...toBundleEntries(
+      'scenario',
+      scenarios.flatMap((scenario) =>
+        buildScenarioImportPreview(scenario, character.scenarios),
+      ),
+    ),
+    ...toBundleEntries('image', images),
+  ];
+}
+
+export async function importCharacterBundle(
+  character: ICharacterDetails,
+  bundle: CharacterBundleTransferPayload,
+  selectedKeys?: Set<string>,
+) {
+  const scenarios = getSortedBundleScenarios(bundle);
+  const selectedScenarioKeys = getBundlePartKeys('scenario', selectedKeys);
+
+  const gifts = await importGiftTransferItems(bundle.gifts.gifts, {
+    deleteMissing: false,
+    selectedKeys: getBundlePartKeys('gift', selectedKeys),
+  });
+  const poses = await importPoseTransferItems(
+    bundle.poses.poses,
+    getBundlePartKeys('pose', selectedKeys),
+  );
+
+  const giftIdsByName = await resolveGiftIdsByName(
+    scenarios.flatMap((scenario) =>
+      scenario.gifts.map((gift) => gift.giftName),
+    ),
+  );
+  const importedScenarioIds = new Map<string, string>();
+  let importedScenarios = 0;
+  for (const scenario of scenarios) {
+    const existingScenario = findScenarioBySlug(
+      character.scenarios,
+      scenario.slug,
+    );
+    if (
+      !isTransferKeySelected(
+        selectedScenarioKeys,
+        getScenarioImportKey(scenario),
+      )
+    ) {
+      if (existingScenario) {
+        importedScenarioIds.set(scenario.id, existingScenario.id);
+      }
+      continue;
+    }
+    const imported = await importScenarioTransferScenario({
+      characterId: character.id,
+      scenario,
+      giftIdsByName,
+      existingScenario,
+      resolveOpensAfterId: (sourceId) =>
+        importedScenarioIds.get(sourceId) ??
+        (character.scenarios.some((item) => item.id === sourceId)
+          ? sourceId
+          : null),
+    });
+    importedScenarioIds.set(scenario.id, imported.id);
+    importedScenarios += 1;
+  }
+
+  const images = await importCharacterImageTransferItems(bundle.images.images, {
+    characterId: character.id,
+    selectedKeys: getBundlePartKeys('image', selectedKeys),
+  });
+
+  return {
+    gifts,
+    poses,
+    scenarios: importedScenarios,
+    images,
+  };
+}
@@ -0,0 +1,141 @@
+import {
+  buildTransferEnvelope,
+  defineTransferSchema,
+  ensureArray,
+  ensureNonEmptyString,
+  ensureRecord,
+  ensureString,
+  parseTransferFileAs,
+  parseTransferPayload,
+  sanitizeTransferFileNamePart,
+} from '@/app/transfer';
+import type {
+  ICharacterDetails,
+  ICharacterImageDetails,
+  IGiftDetails,
+  IPosePromptDetails,
+} from '@/common/types';
+import {
+  buildCharacterImagesTransferPayload,
+  type CharacterImagesTransferPayload,
+  characterImagesTransferSchema,
+} from '@/pages/character-images/characterImagesTransfer';
+import {
+  buildGiftsTransferPayload,
+  type GiftsTransferPayload,
+  giftsTransferSchema,
+} from '@/pages/gifts/giftTransfer';
+import {
+  buildPosesTransferPayload,
+  type PosesTransferPayload,
+  posesTransferSchema,
+} from '@/pages/poses/poseTransfer';
+
+import {
+  buildScenarioTransferPayload,
+  type ScenarioTransferPayload,
+  scenarioTransferSchema,
+} from './components/scenarioTransfer';
+
+const CHARACTER_BUNDLE_TRANSFER_SCHEMA = 'character-bundle';
+const CHARACTER_BUNDLE_TRANSFER_VERSION = 1;
+
+export type CharacterBundleTransferPayload = {
+  schema: typeof CHARACTER_BUNDLE_TRANSFER_SCHEMA;
+  version: typeof CHARACTER_BUNDLE_TRANSFER_VERSION;
+  exportedAt: string;
+  character: {
+    id: string;
+    name: string;
+  };
+  gifts: GiftsTransferPayload;
+  poses: PosesTransferPayload;
+  scenarios: ScenarioTransferPayload[];
+  images: CharacterImagesTransferPayload;
+};
+
+type BuildCharacterBundleParams = {
+  character: ICharacterDetails;
+  gifts: IGiftDetails[];
+  poses: IPosePromptDetails[];
+  images: ICharacterImageDetails[];
+};
+
+export function buildCharacterBundleTransferPayload({
+  character,
+  gifts,
+  poses,
+  images,
+}: BuildCharacterBundleParams) {
+  return {
+    ...buildTransferEnvelope(
+      CHARACTER_BUNDLE_TRANSFER_SCHEMA,
+      CHARACTER_BUNDLE_TRANSFER_VERSION,
+    ),
+    character: {
+      id: character.id,
+      name: character.name || 'Character',
+    },
+    gifts: buildGiftsTransferPayload(gifts),
+    poses: buildPosesTransferPayload(poses),
+    scenarios: character.scenarios.map((scenario) =>
+      buildScenarioTransferPayload({
+        characterId: character.id,
+        characterName: character.name,
+        scenario,
+      }),
+    ),
+    images: buildCharacterImagesTransferPayload(images),
+  } satisfies CharacterBundleTransferPayload;
+}
+
+export function buildCharacterBundleTransferFileName(characterName: string) {
+  const characterPart =
+    sanitizeTransferFileNamePart(characterName) || 'character-name';
+  return `${characterPart}-bundle.json`;
+}
+
+export const characterBundleTransferSchema = defineTransferSchema({
+  schema: CHARACTER_BUNDLE_TRANSFER_SCHEMA,
+  version: CHARACTER_BUNDLE_TRANSFER_VERSION,
+  parse: (payloadObj): CharacterBundleTransferPayload => {
+    const characterObj = ensureRecord(payloadObj.character, 'character');
+
+    return {
+      schema: CHARACTER_BUNDLE_TRANSFER_SCHEMA,
+      version: CHARACTER_BUNDLE_TRANSFER_VERSION,
+      exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
+      character: {
+        id: ensureNonEmptyString(characterObj.id, 'character.id'),
+        name: ensureString(characterObj.name, 'character.name'),
+      },
+      gifts: parseTransferPayload(
+        giftsTransferSchema,
+        payloadObj.gifts,
+        'gifts',
+      ),
+      poses: parseTransferPayload(
+        posesTransferSchema,
+        payloadObj.poses,
+        'poses',
+      ),
+      scenarios: ensureArray(payloadObj.scenarios, 'scenarios').map(
+        (scenario, index) =>
+          parseTransferPayload(
+            scenarioTransferSchema,
+            scenario,
+            `scenarios[${index}]`,
+          ),
+      ),
+      images: parseTransferPayload(
+        characterImagesTransferSchema,
+        payloadObj.images,
+        'images',
+      ),
+    };
+  },
+});
+
+export async function parseCharacterBundleTransferFile(file: File) {
+  return parseTransferFileAs(characterBundleTransferSchema, file);
+}
@@ -1,4 +1,4 @@
-import { TrashIcon } from '@/assets/icons';
+import { DownloadIcon, TrashIcon, UploadIcon } from '@/assets/icons';
 import { Badge, Button, IconButton, Skeleton, Typography } from '@/atoms';
 import { CharacterType, type ICharacterDetails } from '@/common/types';
 import { capitalize } from '@/common/utils';
@@ -14,6 +14,10 @@ type CharacterHeaderProps = {
   onDelete: () => void;
   canDelete: boolean;
   isDeleting: boolean;
+  onExportBundle: () => void;
+  isExportingBundle: boolean;
+  onImportBundle: () => void;
+  isImportingBundle: boolean;
 };
 
 export function CharacterHeader({
@@ -25,6 +29,10 @@ export function CharacterHeader({
   onDelete,
   canDelete,
   isDeleting,
+  onExportBundle,
+  isExportingBundle,
+  onImportBundle,
+  isImportingBundle,
 }: CharacterHeaderProps) {
   return (
     <div className={s.header}>
@@ -69,6 +77,26 @@ export function CharacterHeader({
             Add Anime
           </Button>
         ) : null}
+        <IconButton
+          aria-label="Export character bundle"
+          tooltip="Export character bundle"
+          icon={<DownloadIcon />}
+          variant="ghost"
+          size="sm"
+          onClick={onExportBundle}
+          loading={isExportingBundle}
+          disabled={!data || isImportingBundle || isDeleting}
+        />
+        <IconButton
+          aria-label="Import character bundle"
+          tooltip="Import character bundle"
+          icon={<UploadIcon />}
+          variant="ghost"
+          size="sm"
+          onClick={onImportBundle}
+          loading={isImportingBundle}
+          disabled={!data || isExportingBundle || isDeleting}
+        />
         <IconButton
           aria-label="Delete character"
           icon={<TrashIcon />}
@@ -76,7 +104,9 @@ export function CharacterHeader({
           variant="ghost"
           size="sm"
           onClick={onDelete}
-          disabled={!canDelete || isDeleting || isAddingAnime}
+          disabled={
+            !canDelete || isDeleting || isAddingAnime || isImportingBundle
+          }
         />
       </div>
     </div>
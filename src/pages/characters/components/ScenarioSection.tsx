@@ -9,14 +9,12 @@ import {
   useDeleteScenario,
   useUpdateScenario,
 } from '@/app/characters';
-import {
-  addScenarioStageGift,
-  createScenario as createScenarioApi,
-  updateScenarioStage as updateScenarioStageApi,
-} from '@/app/characters/charactersApi';
-import { copyFile } from '@/app/files/filesApi';
-import { getGifts } from '@/app/gifts';
 import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  downloadTransferFile,
+  getDefaultTransferSelection,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
 import { DownloadIcon, PlusIcon, UploadIcon } from '@/assets/icons';
 import {
   Button,
@@ -40,22 +38,37 @@ import {
   FileDir,
   type ICharacterDetails,
   type IFile,
-  STAGES_IN_ORDER,
 } from '@/common/types';
-import { formatCharacterSelectLabel, isStageDirectivesEmpty } from '@/common/utils';
-import { ConfirmModal, Drawer, FileUpload } from '@/components/molecules';
+import { formatCharacterSelectLabel } from '@/common/utils';
+import {
+  ConfirmModal,
+  Drawer,
+  FileUpload,
+  ImportPreviewModal,
+} from '@/components/molecules';
 import { SearchSelect } from '@/components/molecules/search-select/SearchSelect';
 
 import s from '../CharacterDetailsPage.module.scss';
 import { ScenarioDetails } from './ScenarioDetails';
+import {
+  buildScenarioImportPreview,
+  findScenarioBySlug,
+  importScenarioTransferScenario,
+  validateScenarioTransferScenario,
+} from './scenarioImport';
 import {
   buildScenarioTransferFileName,
   buildScenarioTransferPayload,
-  downloadScenarioTransferFile,
   parseScenarioTransferFile,
-  type ScenarioTransferFile,
+  type ScenarioTransferScenario,
 } from './scenarioTransfer';
 
+type ScenarioImportPreview = {
+  scenario: ScenarioTransferScenario;
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+};
+
 type ScenarioSectionProps = {
   characterId: string | null;
   characterName: string;
@@ -80,18 +93,6 @@ const DEFAULT_CUSTOM_SCENARIO_FORM_VALUES: CreateCustomScenarioDto = {
   description: '',
 };
 
-async function copyScenarioTransferFile(file: ScenarioTransferFile) {
-  await copyFile({
-    id: file.id,
-    name: file.name,
-    dir: file.dir,
-    path: file.path,
-    status: file.status,
-    mime: file.mime,
-    url: file.url ?? undefined,
-  });
-}
-
 const BASE_SCENARIO_LEVEL = 1;
 
 export function ScenarioSection({
@@ -138,6 +139,9 @@ export function ScenarioSection({
   const [copyCharacterSearch, setCopyCharacterSearch] = useState('');
   const [copyShowErrors, setCopyShowErrors] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importPreview, setImportPreview] =
+    useState<ScenarioImportPreview | null>(null);
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [showErrors, setShowErrors] = useState(false);
   const [customShowErrors, setCustomShowErrors] = useState(false);
@@ -612,73 +616,6 @@ export function ScenarioSection({
     setCopyTarget(null);
   };
 
-  const resolveGiftIdsByName = async (giftNames: string[]) => {
-    const requiredNames = Array.from(
-      new Set(giftNames.map((name) => name.trim()).filter(Boolean)),
-    );
-    if (requiredNames.length === 0) {
-      return new Map<string, string>();
-    }
-
-    const giftsByName = new Map<string, string[]>();
-    for (const name of requiredNames) {
-      giftsByName.set(name, []);
-    }
-
-    let skip = 0;
-    const take = 200;
-    while (true) {
-      const page = await getGifts({
-        order: 'ASC',
-        skip,
-        take,
-      });
-
-      for (const gift of page.data) {
-        const trimmedName = gift.name.trim();
-        if (!trimmedName || !giftsByName.has(trimmedName)) {
-          continue;
-        }
-        giftsByName.get(trimmedName)?.push(gift.id);
-      }
-
-      skip += page.data.length;
-      if (skip >= page.total || page.data.length === 0) {
-        break;
-      }
-    }
-
-    const missing: string[] = [];
-    const ambiguous: string[] = [];
-    const resolved = new Map<string, string>();
-
-    for (const name of requiredNames) {
-      const ids = giftsByName.get(name) ?? [];
-      if (ids.length === 0) {
-        missing.push(name);
-        continue;
-      }
-      if (ids.length > 1) {
-        ambiguous.push(name);
-        continue;
-      }
-      resolved.set(name, ids[0]);
-    }
-
-    if (missing.length > 0) {
-      throw new Error(
-        `Missing gifts in target environment: ${missing.join(', ')}.`,
-      );
-    }
-    if (ambiguous.length > 0) {
-      throw new Error(
-        `Gift names are not unique in target environment: ${ambiguous.join(', ')}.`,
-      );
-    }
-
-    return resolved;
-  };
-
   const handleExportScenario = async () => {
     if (!characterId || !selectedScenario) return;
 
@@ -693,7 +630,7 @@ export function ScenarioSection({
         characterName,
         selectedScenario.name,
       );
-      downloadScenarioTransferFile(payload, fileName);
+      downloadTransferFile(payload, fileName);
       notifySuccess('Scenario exported.', 'Scenario exported.');
     } catch (error) {
       notifyError(error, 'Unable to export scenario.');
@@ -717,115 +654,49 @@ export function ScenarioSection({
     setIsImporting(true);
     try {
       const imported = await parseScenarioTransferFile(file);
-      const scenarioPayload = imported.scenario;
-      const requiredFields: Array<[string, string]> = [
-        ['name', scenarioPayload.name],
-        ['emoji', scenarioPayload.emoji],
-        ['description', scenarioPayload.description],
-        ['personality', scenarioPayload.personality],
-        ['messagingStyle', scenarioPayload.messagingStyle],
-        ['appearance', scenarioPayload.appearance],
-        ['situation', scenarioPayload.situation],
-        ['openingMessage', scenarioPayload.openingMessage],
-      ];
-      for (const [field, value] of requiredFields) {
-        if (!value.trim()) {
-          throw new Error(
-            `Invalid import file: "scenario.${field}" must not be empty.`,
-          );
-        }
-      }
+      validateScenarioTransferScenario(imported.scenario);
 
-      const giftIdsByName = await resolveGiftIdsByName(
-        scenarioPayload.gifts.map((gift) => gift.giftName),
-      );
+      const entries = buildScenarioImportPreview(imported.scenario, scenarios);
+      setImportPreview({
+        scenario: imported.scenario,
+        entries,
+        selectedKeys: getDefaultTransferSelection(entries),
+      });
+    } catch (error) {
+      notifyError(error, 'Unable to import scenario.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      await copyScenarioTransferFile(scenarioPayload.openingImage);
-      if (scenarioPayload.startImg) {
-        await copyScenarioTransferFile(scenarioPayload.startImg);
-      }
-      if (scenarioPayload.promoImg) {
-        await copyScenarioTransferFile(scenarioPayload.promoImg);
-      }
-      if (scenarioPayload.promoImgHorizontal) {
-        await copyScenarioTransferFile(scenarioPayload.promoImgHorizontal);
-      }
-      for (const gift of scenarioPayload.gifts) {
-        if (gift.boughtImg) {
-          await copyScenarioTransferFile(gift.boughtImg);
-        }
-      }
+  const handleApplyImport = async () => {
+    if (!characterId || !importPreview) return;
 
-      const createdScenario = await createScenarioApi(characterId, {
-        name: scenarioPayload.name.trim(),
-        emoji: scenarioPayload.emoji.trim(),
-        slug: scenarioPayload.slug?.trim() || undefined,
-        level: scenarioPayload.level,
-        description: scenarioPayload.description.trim(),
-        isActive: scenarioPayload.isActive,
-        shortDescription: scenarioPayload.shortDescription.trim() || undefined,
-        isNew: scenarioPayload.isNew,
-        promoImgId: scenarioPayload.promoImg?.id,
-        promoImgHorizontalId: scenarioPayload.promoImgHorizontal?.id,
-        personality: scenarioPayload.personality.trim(),
-        messagingStyle: scenarioPayload.messagingStyle.trim(),
-        appearance: scenarioPayload.appearance.trim(),
-        situation: scenarioPayload.situation.trim(),
-        openingMessage: scenarioPayload.openingMessage.trim(),
-        startMessage: scenarioPayload.startMessage.trim() || undefined,
-        openingImageId: scenarioPayload.openingImage.id,
-        startImgId: scenarioPayload.startImg?.id,
-        transitionMessage:
-          scenarioPayload.level > BASE_SCENARIO_LEVEL
-            ? scenarioPayload.transitionMessage.trim() || null
-            : null,
-        opensAfterId:
-          scenarioPayload.level > BASE_SCENARIO_LEVEL &&
-          scenarios.some((scenario) => scenario.id === scenarioPayload.opensAfterId)
-            ? scenarioPayload.opensAfterId
+    setIsApplyingImport(true);
+    try {
+      const importedScenario = await importScenarioTransferScenario({
+        characterId,
+        scenario: importPreview.scenario,
+        existingScenario: findScenarioBySlug(
+          scenarios,
+          importPreview.scenario.slug,
+        ),
+        resolveOpensAfterId: (sourceId) =>
+          scenarios.some((scenario) => scenario.id === sourceId)
+            ? sourceId
             : null,
       });
 
-      for (const stage of STAGES_IN_ORDER) {
-        const stagePayload = scenarioPayload.stages[stage];
-        if (isStageDirectivesEmpty(stagePayload)) {
-          continue;
-        }
-        await updateScenarioStageApi(
-          characterId,
-          createdScenario.id,
-          stage,
-          stagePayload,
-        );
-      }
-
-      for (const gift of scenarioPayload.gifts) {
-        const resolvedGiftId = giftIdsByName.get(gift.giftName.trim());
-        if (!resolvedGiftId) {
-          throw new Error(`Gift "${gift.giftName}" was not resolved.`);
-        }
-        await addScenarioStageGift(
-          characterId,
-          createdScenario.id,
-          gift.stage,
-          {
-            giftId: resolvedGiftId,
-            reason: gift.reason.trim(),
-            buyText: gift.buyText,
-            boughtImgId: gift.boughtImg?.id,
-          },
-        );
-      }
-
       await queryClient.invalidateQueries({
         queryKey: ['character', characterId],
       });
-      onSelectScenario(createdScenario.id);
+      setImportPreview(null);
+      onSelectScenario(importedScenario.id);
       notifySuccess('Scenario imported.', 'Scenario imported.');
     } catch (error) {
       notifyError(error, 'Unable to import scenario.');
     } finally {
-      setIsImporting(false);
+      setIsApplyingImport(false);
     }
   };
 
@@ -1989,6 +1860,23 @@ export function ScenarioSection({
           setDeleteTarget(null);
         }}
       />
+
+      <ImportPreviewModal
+        open={Boolean(importPreview)}
+        title="Review scenario import"
+        entries={importPreview?.entries ?? []}
+        selectedKeys={importPreview?.selectedKeys ?? new Set()}
+        onSelectedKeysChange={(selectedKeys) =>
+          setImportPreview((current) =>
+            current ? { ...current, selectedKeys } : current,
+          )
+        }
+        isApplying={isApplyingImport}
+        onApply={() => void handleApplyImport()}
+        onClose={() => {
+          if (!isApplyingImport) setImportPreview(null);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,336 @@
+import {
+  addScenarioStageGift,
+  createScenario,
+  deleteScenarioStageGift,
+  type ScenarioCreateDto,
+  updateScenario,
+  updateScenarioStage,
+  updateScenarioStageGift,
+} from '@/app/characters/charactersApi';
+import { getGifts } from '@/app/gifts';
+import {
+  buildTransferPreviewEntry,
+  copyTransferFile,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import { type ICharacterDetails, STAGES_IN_ORDER } from '@/common/types';
+import { isStageDirectivesEmpty } from '@/common/utils';
+
+import {
+  type ScenarioTransferScenario,
+  toScenarioTransferScenario,
+} from './scenarioTransfer';
+
+const BASE_SCENARIO_LEVEL = 1;
+
+type CharacterScenario = ICharacterDetails['scenarios'][number];
+
+type ImportScenarioParams = {
+  characterId: string;
+  scenario: ScenarioTransferScenario;
+  resolveOpensAfterId: (sourceId: string) => string | null;
+  giftIdsByName?: Map<string, string>;
+  existingScenario?: CharacterScenario;
+};
+
+export function findScenarioBySlug(
+  scenarios: CharacterScenario[],
+  slug: string | undefined,
+) {
+  const normalizedSlug = slug?.trim();
+  if (!normalizedSlug) return undefined;
+  return scenarios.find((scenario) => scenario.slug?.trim() === normalizedSlug);
+}
+
+function toScenarioPreviewFields(scenario: ScenarioTransferScenario) {
+  return {
+    name: scenario.name.trim(),
+    emoji: scenario.emoji.trim(),
+    level: scenario.level,
+    description: scenario.description.trim(),
+    isActive: scenario.isActive,
+    shortDescription: scenario.shortDescription.trim(),
+    isNew: scenario.isNew,
+    personality: scenario.personality.trim(),
+    messagingStyle: scenario.messagingStyle.trim(),
+    appearance: scenario.appearance.trim(),
+    situation: scenario.situation.trim(),
+    openingMessage: scenario.openingMessage.trim(),
+    startMessage: scenario.startMessage.trim(),
+    transitionMessage: scenario.transitionMessage.trim(),
+    openingImage: scenario.openingImage.name,
+    startImg: scenario.startImg?.name,
+    promoImg: scenario.promoImg?.name,
+    promoImgHorizontal: scenario.promoImgHorizontal?.name,
+    ...Object.fromEntries(
+      STAGES_IN_ORDER.map((stage) => [
+        `stages.${stage}`,
+        isStageDirectivesEmpty(scenario.stages[stage])
+          ? undefined
+          : scenario.stages[stage],
+      ]),
+    ),
+    gifts: scenario.gifts
+      .map((gift) => `${gift.stage}: ${gift.giftName.trim()}`)
+      .join('\n'),
+  };
+}
+
+export function getScenarioImportKey(scenario: ScenarioTransferScenario) {
+  return scenario.slug?.trim() || scenario.id;
+}
+
+export function buildScenarioImportPreview(
+  scenario: ScenarioTransferScenario,
+  existingScenarios: CharacterScenario[],
+): TransferPreviewEntry[] {
+  const existingScenario = findScenarioBySlug(existingScenarios, scenario.slug);
+  return [
+    buildTransferPreviewEntry({
+      key: getScenarioImportKey(scenario),
+      label: scenario.slug?.trim()
+        ? `${scenario.name.trim()} (${scenario.slug.trim()})`
+        : scenario.name.trim(),
+      before: existingScenario
+        ? toScenarioPreviewFields(toScenarioTransferScenario(existingScenario))
+        : null,
+      after: toScenarioPreviewFields(scenario),
+    }),
+  ];
+}
+
+export async function resolveGiftIdsByName(giftNames: string[]) {
+  const requiredNames = Array.from(
+    new Set(giftNames.map((name) => name.trim()).filter(Boolean)),
+  );
+  if (requiredNames.length === 0) {
+    return new Map<string, string>();
+  }
+
+  const giftsByName = new Map<string, string[]>();
+  for (const name of requiredNames) {
+    giftsByName.set(name, []);
+  }
+
+  let skip = 0;
+  const take = 200;
+  while (true) {
+    const page = await getGifts({
+      order: 'ASC',
+      skip,
+      take,
+    });
+
+    for (const gift of page.data) {
+      const trimmedName = gift.name.trim();
+      if (!trimmedName || !giftsByName.has(trimmedName)) {
+        continue;
+      }
+      giftsByName.get(trimmedName)?.push(gift.id);
+    }
+
+    skip += page.data.length;
+    if (skip >= page.total || page.data.length === 0) {
+      break;
+    }
+  }
+
+  const missing: string[] = [];
+  const ambiguous: string[] = [];
+  const resolved = new Map<string, string>();
+
+  for (const name of requiredNames) {
+    const ids = giftsByName.get(name) ?? [];
+    if (ids.length === 0) {
+      missing.push(name);
+      continue;
+    }
+    if (ids.length > 1) {
+      ambiguous.push(name);
+      continue;
+    }
+    resolved.set(name, ids[0]);
+  }
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing gifts in target environment: ${missing.join(', ')}.`,
+    );
+  }
+  if (ambiguous.length > 0) {
+    throw new Error(
+      `Gift names are not unique in target environment: ${ambiguous.join(', ')}.`,
+    );
+  }
+
+  return resolved;
+}
+
+export function validateScenarioTransferScenario(
+  scenario: ScenarioTransferScenario,
+  path = 'scenario',
+) {
+  const requiredFields: Array<[string, string]> = [
+    ['name', scenario.name],
+    ['emoji', scenario.emoji],
+    ['description', scenario.description],
+    ['personality', scenario.personality],
+    ['messagingStyle', scenario.messagingStyle],
+    ['appearance', scenario.appearance],
+    ['situation', scenario.situation],
+    ['openingMessage', scenario.openingMessage],
+  ];
+  for (const [field, value] of requiredFields) {
+    if (!value.trim()) {
+      throw new Error(
+        `Invalid import file: "${path}.${field}" must not be empty.`,
+      );
+    }
+  }
+}
+
+async function copyScenarioTransferFiles(scenario: ScenarioTransferScenario) {
+  await copyTransferFile(scenario.openingImage);
+  if (scenario.startImg) {
+    await copyTransferFile(scenario.startImg);
+  }
+  if (scenario.promoImg) {
+    await copyTransferFile(scenario.promoImg);
+  }
+  if (scenario.promoImgHorizontal) {
+    await copyTransferFile(scenario.promoImgHorizontal);
+  }
+  for (const gift of scenario.gifts) {
+    if (gift.boughtImg) {
+      await copyTransferFile(gift.boughtImg);
+    }
+  }
+}
+
+function buildScenarioPayload(
+  scenario: ScenarioTransferScenario,
+  resolveOpensAfterId: (sourceId: string) => string | null,
+): ScenarioCreateDto {
+  return {
+    name: scenario.name.trim(),
+    emoji: scenario.emoji.trim(),
+    slug: scenario.slug?.trim() || undefined,
+    level: scenario.level,
+    description: scenario.description.trim(),
+    isActive: scenario.isActive,
+    shortDescription: scenario.shortDescription.trim() || undefined,
+    isNew: scenario.isNew,
+    promoImgId: scenario.promoImg?.id,
+    promoImgHorizontalId: scenario.promoImgHorizontal?.id,
+    personality: scenario.personality.trim(),
+    messagingStyle: scenario.messagingStyle.trim(),
+    appearance: scenario.appearance.trim(),
+    situation: scenario.situation.trim(),
+    openingMessage: scenario.openingMessage.trim(),
+    startMessage: scenario.startMessage.trim() || undefined,
+    openingImageId: scenario.openingImage.id,
+    startImgId: scenario.startImg?.id,
+    transitionMessage:
+      scenario.level > BASE_SCENARIO_LEVEL
+        ? scenario.transitionMessage.trim() || null
+        : null,
+    opensAfterId:
+      scenario.level > BASE_SCENARIO_LEVEL && scenario.opensAfterId
+        ? resolveOpensAfterId(scenario.opensAfterId)
+        : null,
+  };
+}
+
+export async function importScenarioTransferScenario({
+  characterId,
+  scenario,
+  resolveOpensAfterId,
+  giftIdsByName,
+  existingScenario,
+}: ImportScenarioParams) {
+  const resolvedGiftIds =
+    giftIdsByName ??
+    (await resolveGiftIdsByName(scenario.gifts.map((gift) => gift.giftName)));
+
+  await copyScenarioTransferFiles(scenario);
+
+  const payload = buildScenarioPayload(scenario, resolveOpensAfterId);
+  const targetScenario = existingScenario
+    ? await updateScenario(characterId, existingScenario.id, payload)
+    : await createScenario(characterId, payload);
+  const currentStages = existingScenario
+    ? toScenarioTransferScenario(existingScenario).stages
+    : null;
+
+  for (const stage of STAGES_IN_ORDER) {
+    const stagePayload = scenario.stages[stage];
+    if (currentStages) {
+      if (
+        JSON.stringify(currentStages[stage]) === JSON.stringify(stagePayload)
+      ) {
+        continue;
+      }
+    } else if (isStageDirectivesEmpty(stagePayload)) {
+      continue;
+    }
+    await updateScenarioStage(
+      characterId,
+      targetScenario.id,
+      stage,
+      stagePayload,
+    );
+  }
+
+  const currentGifts = existingScenario?.gifts ?? [];
+  for (const gift of scenario.gifts) {
+    const resolvedGiftId = resolvedGiftIds.get(gift.giftName.trim());
+    if (!resolvedGiftId) {
+      throw new Error(`Gift "${gift.giftName}" was not resolved.`);
+    }
+
+    const currentGift = currentGifts.find((item) => item.stage === gift.stage);
+    const currentGiftId = currentGift?.giftId ?? currentGift?.gift?.id;
+    if (currentGift && currentGiftId === resolvedGiftId) {
+      await updateScenarioStageGift(
+        characterId,
+        targetScenario.id,
+        gift.stage,
+        currentGift.id,
+        {
+          reason: gift.reason.trim(),
+          buyText: gift.buyText,
+          boughtImgId: gift.boughtImg?.id,
+        },
+      );
+      continue;
+    }
+    if (currentGift) {
+      await deleteScenarioStageGift(
+        characterId,
+        targetScenario.id,
+        gift.stage,
+        currentGift.id,
+      );
+    }
+    await addScenarioStageGift(characterId, targetScenario.id, gift.stage, {
+      giftId: resolvedGiftId,
+      reason: gift.reason.trim(),
+      buyText: gift.buyText,
+      boughtImgId: gift.boughtImg?.id,
+    });
+  }
+
+  for (const currentGift of currentGifts) {
+    if (scenario.gifts.some((gift) => gift.stage === currentGift.stage)) {
+      continue;
+    }
+    await deleteScenarioStageGift(
+      characterId,
+      targetScenario.id,
+      currentGift.stage,
+      currentGift.id,
+    );
+  }
+
+  return targetScenario;
+}
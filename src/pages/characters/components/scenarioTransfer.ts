@@ -1,6 +1,21 @@
 import {
-  FileDir,
-  FileStatus,
+  buildTransferEnvelope,
+  defineTransferSchema,
+  ensureArray,
+  ensureBoolean,
+  ensureNonEmptyString,
+  ensureNumber,
+  ensureRecord,
+  ensureStage,
+  ensureString,
+  hasTransferFileShape,
+  parseTransferFile,
+  parseTransferFileAs,
+  sanitizeTransferFileNamePart,
+  toTransferFile,
+  type TransferFile,
+} from '@/app/transfer';
+import {
   type ICharacterDetails,
   type RoleplayStage,
   type StageAction,
@@ -18,15 +33,7 @@ type ScenarioTransferCharacter = {
   name: string;
 };
 
-export type ScenarioTransferFile = {
-  id: string;
-  name: string;
-  dir: FileDir;
-  path: string;
-  status: FileStatus;
-  mime: string;
-  url?: string | null;
-};
+export type ScenarioTransferFile = TransferFile;
 
 export type ScenarioTransferGift = {
   stage: RoleplayStage;
@@ -36,7 +43,7 @@ export type ScenarioTransferGift = {
   boughtImg?: ScenarioTransferFile;
 };
 
-type ScenarioTransferScenario = {
+export type ScenarioTransferScenario = {
   id: string;
   name: string;
   emoji: string;
@@ -76,56 +83,6 @@ type BuildScenarioTransferPayloadParams = {
   scenario: ICharacterDetails['scenarios'][number];
 };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
-function ensureRecord(value: unknown, path: string) {
-  if (!isRecord(value)) {
-    throw new Error(`Invalid import file: "${path}" must be an object.`);
-  }
-  return value;
-}
-
-function ensureString(value: unknown, path: string) {
-  if (typeof value !== 'string') {
-    throw new Error(`Invalid import file: "${path}" must be a string.`);
-  }
-  return value;
-}
-
-function ensureNonEmptyString(value: unknown, path: string) {
-  const parsed = ensureString(value, path).trim();
-  if (!parsed) {
-    throw new Error(`Invalid import file: "${path}" must not be empty.`);
-  }
-  return parsed;
-}
-
-function ensureBoolean(value: unknown, path: string) {
-  if (typeof value !== 'boolean') {
-    throw new Error(`Invalid import file: "${path}" must be a boolean.`);
-  }
-  return value;
-}
-
-function ensureNumber(value: unknown, path: string) {
-  if (typeof value !== 'number' || Number.isNaN(value)) {
-    throw new Error(`Invalid import file: "${path}" must be a number.`);
-  }
-  return value;
-}
-
-function ensureStage(value: unknown, path: string): RoleplayStage {
-  const stage = ensureString(value, path);
-  if (!STAGES_IN_ORDER.includes(stage as RoleplayStage)) {
-    throw new Error(
-      `Invalid import file: "${path}" has unknown stage "${stage}".`,
-    );
-  }
-  return stage as RoleplayStage;
-}
-
 function sanitizeString(value: unknown) {
   return typeof value === 'string' ? value : '';
 }
@@ -161,18 +118,6 @@ function parseStageAction(value: unknown, path: string): StageAction {
   };
 }
 
-function hasTransferFileShape(value: unknown): value is ScenarioTransferFile {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.name === 'string' &&
-    typeof value.dir === 'string' &&
-    typeof value.path === 'string' &&
-    typeof value.status === 'string' &&
-    typeof value.mime === 'string'
-  );
-}
-
 function parseStageDirectives(value: unknown, path: string): StageDirectives {
   const obj = ensureRecord(value, path);
   const actionsValue = obj.actions;
@@ -199,44 +144,6 @@ function parseStageDirectives(value: unknown, path: string): StageDirectives {
   });
 }
 
-function parseTransferFile(value: unknown, path: string): ScenarioTransferFile {
-  const obj = ensureRecord(value, path);
-  const dir = ensureString(obj.dir, `${path}.dir`);
-  const status = ensureString(obj.status, `${path}.status`);
-
-  if (!Object.values(FileDir).includes(dir as FileDir)) {
-    throw new Error(
-      `Invalid import file: "${path}.dir" has unsupported value.`,
-    );
-  }
-  if (!Object.values(FileStatus).includes(status as FileStatus)) {
-    throw new Error(
-      `Invalid import file: "${path}.status" has unsupported value.`,
-    );
-  }
-
-  const urlValue = obj.url;
-  if (
-    urlValue !== undefined &&
-    urlValue !== null &&
-    typeof urlValue !== 'string'
-  ) {
-    throw new Error(
-      `Invalid import file: "${path}.url" must be a string, null, or omitted.`,
-    );
-  }
-
-  return {
-    id: ensureNonEmptyString(obj.id, `${path}.id`),
-    name: ensureNonEmptyString(obj.name, `${path}.name`),
-    dir: dir as FileDir,
-    path: ensureNonEmptyString(obj.path, `${path}.path`),
-    status: status as FileStatus,
-    mime: ensureNonEmptyString(obj.mime, `${path}.mime`),
-    url: (urlValue as string | null | undefined) ?? undefined,
-  };
-}
-
 function parseTransferGift(value: unknown, path: string): ScenarioTransferGift {
   const obj = ensureRecord(value, path);
   const reason = ensureString(obj.reason, `${path}.reason`);
@@ -255,15 +162,17 @@ function parseTransferGift(value: unknown, path: string): ScenarioTransferGift {
   };
 }
 
-export function buildScenarioTransferPayload({
-  characterId,
-  characterName,
-  scenario,
-}: BuildScenarioTransferPayloadParams): ScenarioTransferPayload {
+function toOptionalTransferFile(value: unknown) {
+  return hasTransferFileShape(value) ? toTransferFile(value) : undefined;
+}
+
+export function toScenarioTransferScenario(
+  scenario: ICharacterDetails['scenarios'][number],
+): ScenarioTransferScenario {
   const openingImage = scenario.openingImage;
   if (!openingImage?.id || !openingImage?.name || !openingImage?.mime) {
     throw new Error(
-      'Unable to export scenario: opening image metadata is missing.',
+      `Unable to export scenario "${scenario.name}": opening image metadata is missing.`,
     );
   }
 
@@ -279,17 +188,7 @@ export function buildScenarioTransferPayload({
       giftName,
       reason: gift.reason ?? '',
       buyText: gift.buyText ?? '',
-      boughtImg: hasTransferFileShape(gift.boughtImg)
-        ? {
-            id: gift.boughtImg.id,
-            name: gift.boughtImg.name,
-            dir: gift.boughtImg.dir,
-            path: gift.boughtImg.path,
-            status: gift.boughtImg.status,
-            mime: gift.boughtImg.mime,
-            url: gift.boughtImg.url ?? undefined,
-          }
-        : undefined,
+      boughtImg: toOptionalTransferFile(gift.boughtImg),
     };
   });
 
@@ -312,166 +211,84 @@ export function buildScenarioTransferPayload({
   );
 
   return {
-    schema: SCENARIO_TRANSFER_SCHEMA,
-    version: SCENARIO_TRANSFER_VERSION,
-    exportedAt: new Date().toISOString(),
+    id: scenario.id,
+    name: sanitizeString(scenario.name),
+    emoji: sanitizeString(scenario.emoji),
+    slug: sanitizeString(scenario.slug),
+    level: scenario.level,
+    description: sanitizeString(scenario.description),
+    isActive: Boolean(scenario.isActive),
+    shortDescription: sanitizeString(scenario.shortDescription),
+    isNew: Boolean(scenario.isNew),
+    promoImg: toOptionalTransferFile(scenario.promoImg),
+    promoImgHorizontal: toOptionalTransferFile(scenario.promoImgHorizontal),
+    personality: sanitizeString(scenario.personality),
+    messagingStyle: sanitizeString(scenario.messagingStyle),
+    appearance: sanitizeString(scenario.appearance),
+    situation: sanitizeString(scenario.situation),
+    openingMessage: sanitizeString(scenario.openingMessage),
+    startMessage: sanitizeString(scenario.startMessage),
+    transitionMessage:
+      scenario.level > 1 ? sanitizeString(scenario.transitionMessage) : '',
+    opensAfterId:
+      scenario.level > 1 ? sanitizeString(scenario.opensAfterId) : '',
+    openingImage: toTransferFile(openingImage),
+    startImg: toOptionalTransferFile(scenario.startImg),
+    stages,
+    gifts,
+  };
+}
+
+export function buildScenarioTransferPayload({
+  characterId,
+  characterName,
+  scenario,
+}: BuildScenarioTransferPayloadParams): ScenarioTransferPayload {
+  return {
+    ...buildTransferEnvelope(
+      SCENARIO_TRANSFER_SCHEMA,
+      SCENARIO_TRANSFER_VERSION,
+    ),
     character: {
       id: characterId,
       name: characterName || 'Character',
     },
-    scenario: {
-      id: scenario.id,
-      name: sanitizeString(scenario.name),
-      emoji: sanitizeString(scenario.emoji),
-      slug: sanitizeString(scenario.slug),
-      level: scenario.level,
-      description: sanitizeString(scenario.description),
-      isActive: Boolean(scenario.isActive),
-      shortDescription: sanitizeString(scenario.shortDescription),
-      isNew: Boolean(scenario.isNew),
-      promoImg: hasTransferFileShape(scenario.promoImg)
-        ? {
-            id: scenario.promoImg.id,
-            name: scenario.promoImg.name,
-            dir: scenario.promoImg.dir,
-            path: scenario.promoImg.path,
-            status: scenario.promoImg.status,
-            mime: scenario.promoImg.mime,
-            url: scenario.promoImg.url ?? undefined,
-          }
-        : undefined,
-      promoImgHorizontal: hasTransferFileShape(scenario.promoImgHorizontal)
-        ? {
-            id: scenario.promoImgHorizontal.id,
-            name: scenario.promoImgHorizontal.name,
-            dir: scenario.promoImgHorizontal.dir,
-            path: scenario.promoImgHorizontal.path,
-            status: scenario.promoImgHorizontal.status,
-            mime: scenario.promoImgHorizontal.mime,
-            url: scenario.promoImgHorizontal.url ?? undefined,
-          }
-        : undefined,
-      personality: sanitizeString(scenario.personality),
-      messagingStyle: sanitizeString(scenario.messagingStyle),
-      appearance: sanitizeString(scenario.appearance),
-      situation: sanitizeString(scenario.situation),
-      openingMessage: sanitizeString(scenario.openingMessage),
-      startMessage: sanitizeString(scenario.startMessage),
-      transitionMessage:
-        scenario.level > 1 ? sanitizeString(scenario.transitionMessage) : '',
-      opensAfterId:
-        scenario.level > 1 ? sanitizeString(scenario.opensAfterId) : '',
-      openingImage: {
-        id: openingImage.id,
-        name: openingImage.name,
-        dir: openingImage.dir,
-        path: openingImage.path,
-        status: openingImage.status,
-        mime: openingImage.mime,
-        url: openingImage.url ?? undefined,
-      },
-      startImg: hasTransferFileShape(scenario.startImg)
-        ? {
-            id: scenario.startImg.id,
-            name: scenario.startImg.name,
-            dir: scenario.startImg.dir,
-            path: scenario.startImg.path,
-            status: scenario.startImg.status,
-            mime: scenario.startImg.mime,
-            url: scenario.startImg.url ?? undefined,
-          }
-        : undefined,
-      stages,
-      gifts,
-    },
+    scenario: toScenarioTransferScenario(scenario),
   };
 }
 
-function sanitizeFilePart(value: string) {
-  return value
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, '-')
-    .replace(/[\\/:*?"<>|]+/g, '')
-    .replace(/-+/g, '-')
-    .replace(/^-|-$/g, '');
-}
-
 export function buildScenarioTransferFileName(
   characterName: string,
   scenarioName: string,
 ) {
-  const characterPart = sanitizeFilePart(characterName) || 'character-name';
-  const scenarioPart = sanitizeFilePart(scenarioName) || 'scenario-name';
+  const characterPart =
+    sanitizeTransferFileNamePart(characterName) || 'character-name';
+  const scenarioPart =
+    sanitizeTransferFileNamePart(scenarioName) || 'scenario-name';
 
   return `${characterPart}-${scenarioPart}.json`;
 }
 
-export function downloadScenarioTransferFile(
-  payload: ScenarioTransferPayload,
-  fileName: string,
-) {
-  const blob = new Blob([JSON.stringify(payload, null, 2)], {
-    type: 'application/json',
-  });
-  const url = window.URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = fileName;
-  link.rel = 'noopener';
-  document.body.appendChild(link);
-  link.click();
-  link.remove();
-  window.URL.revokeObjectURL(url);
-}
-
-export async function parseScenarioTransferFile(file: File) {
-  const text = await file.text();
-  let rawPayload: unknown;
-
-  try {
-    rawPayload = JSON.parse(text) as unknown;
-  } catch (_error) {
-    throw new Error('Invalid JSON file.');
-  }
-
-  const payloadObj = ensureRecord(rawPayload, 'root');
-  const schema = ensureString(payloadObj.schema, 'schema');
-  const version = payloadObj.version;
-
-  if (schema !== SCENARIO_TRANSFER_SCHEMA) {
-    throw new Error(
-      `Invalid import file: unsupported schema "${schema}". Expected "${SCENARIO_TRANSFER_SCHEMA}".`,
-    );
-  }
-  if (version !== SCENARIO_TRANSFER_VERSION) {
-    throw new Error(
-      `Invalid import file: unsupported version "${String(version)}".`,
-    );
-  }
-
-  const characterObj = ensureRecord(payloadObj.character, 'character');
-  const scenarioObj = ensureRecord(payloadObj.scenario, 'scenario');
-  const stagesObj = ensureRecord(scenarioObj.stages, 'scenario.stages');
+export function parseScenarioTransferScenario(
+  value: unknown,
+  path: string,
+): ScenarioTransferScenario {
+  const scenarioObj = ensureRecord(value, path);
+  const stagesObj = ensureRecord(scenarioObj.stages, `${path}.stages`);
 
   const stages = STAGES_IN_ORDER.reduce(
     (acc, stage) => {
       acc[stage] = parseStageDirectives(
         stagesObj[stage],
-        `scenario.stages.${stage}`,
+        `${path}.stages.${stage}`,
       );
       return acc;
     },
     {} as Record<RoleplayStage, StageDirectives>,
   );
 
-  const giftsValue = scenarioObj.gifts;
-  if (!Array.isArray(giftsValue)) {
-    throw new Error('Invalid import file: "scenario.gifts" must be an array.');
-  }
-
-  const gifts = giftsValue.map((gift, index) =>
-    parseTransferGift(gift, `scenario.gifts[${index}]`),
+  const gifts = ensureArray(scenarioObj.gifts, `${path}.gifts`).map(
+    (gift, index) => parseTransferGift(gift, `${path}.gifts[${index}]`),
   );
   const stageGiftSet = new Set<RoleplayStage>();
   for (const gift of gifts) {
@@ -484,82 +301,90 @@ export async function parseScenarioTransferFile(file: File) {
   }
 
   return {
-    schema: SCENARIO_TRANSFER_SCHEMA,
-    version: SCENARIO_TRANSFER_VERSION,
-    exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
-    character: {
-      id: ensureNonEmptyString(characterObj.id, 'character.id'),
-      name: ensureString(characterObj.name, 'character.name'),
-    },
-    scenario: {
-      id: ensureNonEmptyString(scenarioObj.id, 'scenario.id'),
-      name: ensureString(scenarioObj.name, 'scenario.name'),
-      emoji: ensureString(scenarioObj.emoji, 'scenario.emoji'),
-      slug: ensureString(scenarioObj.slug ?? '', 'scenario.slug'),
-      level:
-        scenarioObj.level === undefined
-          ? 1
-          : ensureNumber(scenarioObj.level, 'scenario.level'),
-      description: ensureString(
-        scenarioObj.description,
-        'scenario.description',
-      ),
-      isActive:
-        scenarioObj.isActive === undefined
-          ? true
-          : ensureBoolean(scenarioObj.isActive, 'scenario.isActive'),
-      shortDescription: ensureString(
-        scenarioObj.shortDescription ?? '',
-        'scenario.shortDescription',
-      ),
-      isNew:
-        scenarioObj.isNew === undefined
-          ? false
-          : ensureBoolean(scenarioObj.isNew, 'scenario.isNew'),
-      promoImg: scenarioObj.promoImg
-        ? parseTransferFile(scenarioObj.promoImg, 'scenario.promoImg')
-        : undefined,
-      promoImgHorizontal: scenarioObj.promoImgHorizontal
-        ? parseTransferFile(
-            scenarioObj.promoImgHorizontal,
-            'scenario.promoImgHorizontal',
-          )
-        : undefined,
-      personality: ensureString(
-        scenarioObj.personality,
-        'scenario.personality',
-      ),
-      messagingStyle: ensureString(
-        scenarioObj.messagingStyle,
-        'scenario.messagingStyle',
-      ),
-      appearance: ensureString(scenarioObj.appearance, 'scenario.appearance'),
-      situation: ensureString(scenarioObj.situation, 'scenario.situation'),
-      openingMessage: ensureString(
-        scenarioObj.openingMessage,
-        'scenario.openingMessage',
-      ),
-      startMessage: ensureString(
-        scenarioObj.startMessage ?? '',
-        'scenario.startMessage',
-      ),
-      transitionMessage: ensureString(
-        scenarioObj.transitionMessage ?? '',
-        'scenario.transitionMessage',
-      ),
-      opensAfterId: ensureString(
-        scenarioObj.opensAfterId ?? '',
-        'scenario.opensAfterId',
-      ),
-      openingImage: parseTransferFile(
-        scenarioObj.openingImage,
-        'scenario.openingImage',
-      ),
-      startImg: scenarioObj.startImg
-        ? parseTransferFile(scenarioObj.startImg, 'scenario.startImg')
-        : undefined,
-      stages,
-      gifts,
-    },
-  } satisfies ScenarioTransferPayload;
+    id: ensureNonEmptyString(scenarioObj.id, `${path}.id`),
+    name: ensureString(scenarioObj.name, `${path}.name`),
+    emoji: ensureString(scenarioObj.emoji, `${path}.emoji`),
+    slug: ensureString(scenarioObj.slug ?? '', `${path}.slug`),
+    level:
+      scenarioObj.level === undefined
+        ? 1
+        : ensureNumber(scenarioObj.level, `${path}.level`),
+    description: ensureString(scenarioObj.description, `${path}.description`),
+    isActive:
+      scenarioObj.isActive === undefined
+        ? true
+        : ensureBoolean(scenarioObj.isActive, `${path}.isActive`),
+    shortDescription: ensureString(
+      scenarioObj.shortDescription ?? '',
+      `${path}.shortDescription`,
+    ),
+    isNew:
+      scenarioObj.isNew === undefined
+        ? false
+        : ensureBoolean(scenarioObj.isNew, `${path}.isNew`),
+    promoImg: scenarioObj.promoImg
+      ? parseTransferFile(scenarioObj.promoImg, `${path}.promoImg`)
+      : undefined,
+    promoImgHorizontal: scenarioObj.promoImgHorizontal
+      ? parseTransferFile(
+          scenarioObj.promoImgHorizontal,
+          `${path}.promoImgHorizontal`,
+        )
+      : undefined,
+    personality: ensureString(scenarioObj.personality, `${path}.personality`),
+    messagingStyle: ensureString(
+      scenarioObj.messagingStyle,
+      `${path}.messagingStyle`,
+    ),
+    appearance: ensureString(scenarioObj.appearance, `${path}.appearance`),
+    situation: ensureString(scenarioObj.situation, `${path}.situation`),
+    openingMessage: ensureString(
+      scenarioObj.openingMessage,
+      `${path}.openingMessage`,
+    ),
+    startMessage: ensureString(
+      scenarioObj.startMessage ?? '',
+      `${path}.startMessage`,
+    ),
+    transitionMessage: ensureString(
+      scenarioObj.transitionMessage ?? '',
+      `${path}.transitionMessage`,
+    ),
+    opensAfterId: ensureString(
+      scenarioObj.opensAfterId ?? '',
+      `${path}.opensAfterId`,
+    ),
+    openingImage: parseTransferFile(
+      scenarioObj.openingImage,
+      `${path}.openingImage`,
+    ),
+    startImg: scenarioObj.startImg
+      ? parseTransferFile(scenarioObj.startImg, `${path}.startImg`)
+      : undefined,
+    stages,
+    gifts,
+  };
+}
+
+export const scenarioTransferSchema = defineTransferSchema({
+  schema: SCENARIO_TRANSFER_SCHEMA,
+  version: SCENARIO_TRANSFER_VERSION,
+  parse: (payloadObj): ScenarioTransferPayload => {
+    const characterObj = ensureRecord(payloadObj.character, 'character');
+
+    return {
+      schema: SCENARIO_TRANSFER_SCHEMA,
+      version: SCENARIO_TRANSFER_VERSION,
+      exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
+      character: {
+        id: ensureNonEmptyString(characterObj.id, 'character.id'),
+        name: ensureString(characterObj.name, 'character.name'),
+      },
+      scenario: parseScenarioTransferScenario(payloadObj.scenario, 'scenario'),
+    };
+  },
+});
+
+export async function parseScenarioTransferFile(file: File) {
+  return parseTransferFileAs(scenarioTransferSchema, file);
 }
@@ -1,6 +1,7 @@
-import { useMemo, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 
+import { useChatReviews } from '@/app/chat-reviews';
 import { useChatDetails, useUpdateChatStage } from '@/app/chats';
 import {
   Alert,
@@ -16,23 +17,55 @@ import {
   Skeleton,
   Stack,
   Table,
+  Tabs,
   Typography,
 } from '@/atoms';
 import {
-  type ChatLlmResponse,
+  AuditEntityType,
+  type ChatSearchRole,
   type HistoryItem,
   HistoryItemEventType,
   HistoryItemType,
   type IChatMessage,
+  type IChatReview,
   type ITgUser,
   type RoleplayStage,
   STAGES_IN_ORDER,
 } from '@/common/types';
+import {
+  cn,
+  formatChatReviewLabel,
+  getChatReviewLabelTone,
+  parseChatLlmPhoto,
+  parseChatLlmResponse,
+} from '@/common/utils';
+import {
+  ChatLlmPhotoDetails,
+  ChatLlmResponseContent,
+  HighlightedText,
+} from '@/components/molecules';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
 import s from './ChatDetailsPage.module.scss';
+import { ChatDiagnosticsPanel } from './components/ChatDiagnosticsPanel';
+import {
+  findHistoryItemMatches,
+  findMessageMatches,
+} from './components/chatHistorySearch';
+import { ChatReviewModal } from './components/ChatReviewModal';
+import { ChatReviewPanel } from './components/ChatReviewPanel';
+import { ChatStageTimelinePanel } from './components/ChatStageTimelinePanel';
+import { ChatTranscriptExportModal } from './components/ChatTranscriptExportModal';
 
-type ChatLlmPhoto = NonNullable<ChatLlmResponse['photo']>;
+type ChatTab = 'history' | 'diagnostics';
+
+const TAB_ITEMS: { value: ChatTab; label: string }[] = [
+  { value: 'history', label: 'History' },
+  { value: 'diagnostics', label: 'Diagnostics' },
+];
+
+const TAB_VALUES = new Set<string>(TAB_ITEMS.map((item) => item.value));
 
 const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
   dateStyle: 'medium',
@@ -58,6 +91,10 @@ function formatStage(stage: RoleplayStage) {
   return formatEnumLabel(stage);
 }
 
+function getHistoryItemElementId(index: number) {
+  return `chat-history-item-${index}`;
+}
+
 function formatUserName(user: ITgUser) {
   const fullName = `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim();
   if (fullName) return fullName;
@@ -95,128 +132,22 @@ function getHistoryItemTone(type: HistoryItem['type']) {
   return 'accent' as const;
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
-function parseChatLlmResponse(content: string) {
-  try {
-    const parsed = JSON.parse(content) as unknown;
-    if (!isRecord(parsed) || typeof parsed.text !== 'string') return null;
-    return { ...parsed, text: parsed.text } as ChatLlmResponse;
-  } catch {
-    return null;
-  }
-}
-
-function parseChatLlmPhoto(content: string) {
-  try {
-    const parsed = JSON.parse(content) as unknown;
-    if (!isRecord(parsed)) return null;
-    return parsed as ChatLlmPhoto;
-  } catch {
-    return null;
-  }
-}
-
-function formatList(values: string[] | undefined) {
-  return values && values.length > 0 ? values.join(', ') : null;
-}
-
-function formatBoolean(value: boolean | undefined) {
-  if (typeof value !== 'boolean') return null;
-  return value ? 'Yes' : 'No';
-}
-
-function ResponseField({
-  label,
-  value,
+function HistoryItemContent({
+  item,
+  highlight,
 }: {
-  label: string;
-  value: string | null | undefined;
+  item: HistoryItem;
+  highlight?: string;
 }) {
-  if (!value) return null;
-
-  return (
-    <Field label={label}>
-      <Typography variant="body" className={s.messageContent}>
-        {value}
-      </Typography>
-    </Field>
-  );
-}
-
-function ChatLlmPhotoDetails({ photo }: { photo: ChatLlmPhoto }) {
-  return (
-    <div className={s.photoDetails}>
-      <Typography variant="caption" tone="muted">
-        Photo details
-      </Typography>
-      <div className={s.responseGrid}>
-        <ResponseField
-          label="Pose"
-          value={photo.pose ? formatEnumLabel(photo.pose) : null}
-        />
-        <ResponseField label="Anal" value={formatBoolean(photo.anal)} />
-        <ResponseField label="Clothes" value={formatList(photo.clothes)} />
-        <ResponseField
-          label="Environment"
-          value={formatList(photo.environment)}
-        />
-        <ResponseField label="Face expression" value={photo.face_expression} />
-        <ResponseField label="Action" value={photo.action} />
-      </div>
-    </div>
-  );
-}
-
-function ChatLlmResponseContent({ response }: { response: ChatLlmResponse }) {
-  const photo = response.photo;
-
-  return (
-    <div className={s.aiResponse}>
-      <Typography variant="body" className={s.messageContent}>
-        {response.text || '—'}
-      </Typography>
-
-      {response.subscription || response.gift || response.next_stage || photo ? (
-        <div className={s.responseBadges}>
-          {response.subscription ? (
-            <Badge tone="accent" outline>
-              Subscription
-            </Badge>
-          ) : null}
-          {response.gift ? (
-            <Badge tone="accent" outline>
-              Gift
-            </Badge>
-          ) : null}
-          {response.next_stage ? (
-            <Badge tone="success" outline>
-              Next stage
-            </Badge>
-          ) : null}
-          {photo ? (
-            <Badge tone="warning" outline>
-              Photo
-            </Badge>
-          ) : null}
-        </div>
-      ) : null}
-
-      {photo ? <ChatLlmPhotoDetails photo={photo} /> : null}
-    </div>
-  );
-}
-
-function HistoryItemContent({ item }: { item: HistoryItem }) {
   if (!item.content) return null;
 
   if (item.type === HistoryItemType.Ai) {
     const response = parseChatLlmResponse(item.content);
 
     if (response) {
-      return <ChatLlmResponseContent response={response} />;
+      return (
+        <ChatLlmResponseContent response={response} highlight={highlight} />
+      );
     }
   }
 
@@ -233,7 +164,11 @@ function HistoryItemContent({ item }: { item: HistoryItem }) {
 
   return (
     <Typography variant="body" className={s.messageContent}>
-      {item.content}
+      {item.type === HistoryItemType.Event ? (
+        item.content
+      ) : (
+        <HighlightedText text={item.content} query={highlight} />
+      )}
     </Typography>
   );
 }
@@ -241,13 +176,37 @@ function HistoryItemContent({ item }: { item: HistoryItem }) {
 export function ChatDetailsPage() {
   const { id } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rawTab = searchParams.get('tab') ?? '';
+  const tab: ChatTab = TAB_VALUES.has(rawTab) ? (rawTab as ChatTab) : 'history';
+  const search = searchParams.get('q')?.trim() ?? '';
+  const rawSearchRole = searchParams.get('searchIn');
+  const searchRole: ChatSearchRole | undefined =
+    rawSearchRole === 'user' || rawSearchRole === 'ai'
+      ? rawSearchRole
+      : undefined;
+  const rawMatch = Number(searchParams.get('match') ?? '');
+  const initialMatch =
+    search && Number.isInteger(rawMatch) && rawMatch >= 0 ? rawMatch : null;
   const chatId = id ?? '';
   const { data, error, isLoading, refetch } = useChatDetails(chatId || null);
   const updateStageMutation = useUpdateChatStage();
+  const {
+    data: reviewsData,
+    error: reviewsError,
+    isLoading: isReviewsLoading,
+  } = useChatReviews(data?.id ?? null);
+  const [reviewTarget, setReviewTarget] = useState<{
+    itemIndex: number | null;
+  } | null>(null);
   const [stageDraft, setStageDraft] = useState<{
     chatId: string;
     value: RoleplayStage | '';
   } | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<number | null>(null);
+  const highlightedItem = selectedItem ?? initialMatch;
+  const scrolledMatchRef = useRef<string | null>(null);
 
   const history = useMemo(
     () => data?.history?.filter((message) => message.content) ?? [],
@@ -257,8 +216,25 @@ export function ChatDetailsPage() {
     () => data?.historyItems ?? [],
     [data?.historyItems],
   );
+  const reviews = useMemo(() => reviewsData ?? [], [reviewsData]);
+  const reviewsByItem = useMemo(() => {
+    const map = new Map<number, IChatReview[]>();
+    for (const review of reviews) {
+      if (review.itemIndex === null) continue;
+      map.set(review.itemIndex, [...(map.get(review.itemIndex) ?? []), review]);
+    }
+    return map;
+  }, [reviews]);
   const isNewHistoryMode = historyItems.length > 1;
   const historyCount = isNewHistoryMode ? historyItems.length : history.length;
+  const searchMatches = useMemo(() => {
+    if (!search) return [];
+    return isNewHistoryMode
+      ? findHistoryItemMatches(historyItems, search, searchRole)
+      : findMessageMatches(history, search, searchRole);
+  }, [search, searchRole, isNewHistoryMode, historyItems, history]);
+  const activeMatchPosition =
+    highlightedItem === null ? -1 : searchMatches.indexOf(highlightedItem);
   const selectedStage =
     stageDraft && stageDraft.chatId === data?.id
       ? stageDraft.value
@@ -284,11 +260,15 @@ export function ChatDetailsPage() {
         ),
         content: (
           <Typography variant="body" className={s.messageContent}>
-            {message.content || '—'}
+            {message.content ? (
+              <HighlightedText text={message.content} query={search} />
+            ) : (
+              '—'
+            )}
           </Typography>
         ),
       })),
-    [history],
+    [history, search],
   );
 
   const historySkeletonRows = useMemo(
@@ -309,10 +289,14 @@ export function ChatDetailsPage() {
     () =>
       historyItems.map((item, index) => {
         const isEvent = item.type === HistoryItemType.Event;
+        const itemReviews = reviewsByItem.get(index) ?? [];
 
         return (
           <div
-            className={s.timelineItem}
+            id={getHistoryItemElementId(index)}
+            className={cn(s.timelineItem, [
+              highlightedItem === index && s.timelineItemHighlighted,
+            ])}
             key={`${item.createdAt?.toString() ?? 'history'}-${index}`}
           >
             <div className={s.timelineMeta}>
@@ -327,9 +311,27 @@ export function ChatDetailsPage() {
               <Typography variant="caption" tone="muted">
                 {formatDate(item.createdAt)}
               </Typography>
+              {itemReviews.map((review) => (
+                <Badge
+                  key={review.id}
+                  tone={getChatReviewLabelTone(review.label)}
+                >
+                  {formatChatReviewLabel(review.label)}
+                </Badge>
+              ))}
+              {item.type === HistoryItemType.Ai ? (
+                <Button
+                  size="sm"
+                  variant="text"
+                  className={s.timelineAction}
+                  onClick={() => setReviewTarget({ itemIndex: index })}
+                >
+                  Label
+                </Button>
+              ) : null}
             </div>
 
-            <HistoryItemContent item={item} />
+            <HistoryItemContent item={item} highlight={search} />
 
             {isEvent && item.instruction ? (
               <div className={s.timelineInstruction}>
@@ -350,9 +352,47 @@ export function ChatDetailsPage() {
           </div>
         );
       }),
-    [historyItems],
+    [historyItems, highlightedItem, search, reviewsByItem],
   );
 
+  useEffect(() => {
+    if (!data || initialMatch === null || tab !== 'history') return;
+    const key = `${data.id}-${initialMatch}`;
+    if (scrolledMatchRef.current === key) return;
+    scrolledMatchRef.current = key;
+    document
+      .getElementById(getHistoryItemElementId(initialMatch))
+      ?.scrollIntoView({ block: 'center' });
+  }, [data, initialMatch, tab]);
+
+  const handleSelectHistoryItem = (index: number) => {
+    setSelectedItem(index);
+    document
+      .getElementById(getHistoryItemElementId(index))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleStepMatch = (step: number) => {
+    if (searchMatches.length === 0) return;
+    const nextPosition =
+      activeMatchPosition === -1
+        ? step > 0
+          ? 0
+          : searchMatches.length - 1
+        : (activeMatchPosition + step + searchMatches.length) %
+          searchMatches.length;
+    handleSelectHistoryItem(searchMatches[nextPosition]);
+  };
+
+  const handleClearSearch = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('q');
+    next.delete('searchIn');
+    next.delete('match');
+    setSelectedItem(null);
+    setSearchParams(next, { replace: true });
+  };
+
   const showSkeleton = isLoading && !data;
   const showEmpty = !showSkeleton && !error && !data;
   const stageOptions = useMemo(
@@ -407,6 +447,11 @@ export function ChatDetailsPage() {
                 Open character
               </Button>
             ) : null}
+            {data ? (
+              <Button variant="secondary" onClick={() => setIsExportOpen(true)}>
+                Export
+              </Button>
+            ) : null}
           </div>
         </div>
 
@@ -529,29 +574,129 @@ export function ChatDetailsPage() {
           ) : null}
         </Section>
 
-        <Section
-          title="History"
-          description={
-            data && historyCount > 0
-              ? isNewHistoryMode
-                ? `Showing ${historyCount} history items`
-                : `Showing ${historyCount} messages`
-              : undefined
-          }
-        >
-          {showSkeleton ? (
-            <Table columns={historyColumns} rows={historySkeletonRows} />
-          ) : isNewHistoryMode ? (
-            <div className={s.timeline}>{historyItemRows}</div>
-          ) : history.length === 0 ? (
-            <EmptyState
-              title="No messages"
-              description="This chat has no history yet."
-            />
-          ) : (
-            <Table columns={historyColumns} rows={historyRows} />
-          )}
-        </Section>
+        <Tabs
+          items={TAB_ITEMS}
+          value={tab}
+          onChange={(value) => {
+            const next = new URLSearchParams(searchParams);
+            if (value === 'history') {
+              next.delete('tab');
+            } else {
+              next.set('tab', value);
+            }
+            setSearchParams(next, { replace: true });
+          }}
+        />
+
+        {tab === 'diagnostics' && data ? (
+          <ChatDiagnosticsPanel chatId={data.id} />
+        ) : null}
+
+        {tab === 'history' && data && isNewHistoryMode ? (
+          <ChatStageTimelinePanel
+            items={historyItems}
+            stage={data.stage}
+            onSelectItem={handleSelectHistoryItem}
+          />
+        ) : null}
+
+        {tab === 'history' && data ? (
+          <ChatReviewPanel
+            chatId={data.id}
+            reviews={reviews}
+            isLoading={isReviewsLoading}
+            error={reviewsError}
+            onAddReview={() => setReviewTarget({ itemIndex: null })}
+            onSelectItem={handleSelectHistoryItem}
+          />
+        ) : null}
+
+        {tab === 'history' ? (
+          <Section
+            title="History"
+            description={
+              data && historyCount > 0
+                ? isNewHistoryMode
+                  ? `Showing ${historyCount} history items`
+                  : `Showing ${historyCount} messages`
+                : undefined
+            }
+            actions={
+              search ? (
+                <div className={s.searchActions}>
+                  <Typography variant="caption" tone="muted">
+                    {searchMatches.length === 0
+                      ? `No matches for "${search}"`
+                      : activeMatchPosition === -1
+                        ? `${searchMatches.length} matches for "${search}"`
+                        : `${activeMatchPosition + 1} of ${searchMatches.length} matches for "${search}"`}
+                  </Typography>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleStepMatch(-1)}
+                    disabled={searchMatches.length === 0}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleStepMatch(1)}
+                    disabled={searchMatches.length === 0}
+                  >
+                    Next
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={handleClearSearch}>
+                    Clear
+                  </Button>
+                </div>
+              ) : undefined
+            }
+          >
+            {showSkeleton ? (
+              <Table columns={historyColumns} rows={historySkeletonRows} />
+            ) : isNewHistoryMode ? (
+              <div className={s.timeline}>{historyItemRows}</div>
+            ) : history.length === 0 ? (
+              <EmptyState
+                title="No messages"
+                description="This chat has no history yet."
+              />
+            ) : (
+              <Table
+                columns={historyColumns}
+                rows={historyRows}
+                getRowProps={(_, index) => ({
+                  id: getHistoryItemElementId(index),
+                  className:
+                    highlightedItem === index
+                      ? s.historyRowHighlighted
+                      : undefined,
+                })}
+              />
+            )}
+          </Section>
+        ) : null}
+        {data ? (
+          <ActivityPanel entityType={AuditEntityType.Chat} entityId={data.id} />
+        ) : null}
+        {data ? (
+          <ChatTranscriptExportModal
+            open={isExportOpen}
+            description="Download this chat's full history as a readable transcript."
+            onClose={() => setIsExportOpen(false)}
+            loadChats={async () => [data]}
+          />
+        ) : null}
+        {data ? (
+          <ChatReviewModal
+            open={Boolean(reviewTarget)}
+            chatId={data.id}
+            itemIndex={reviewTarget?.itemIndex ?? null}
+            onClose={() => setReviewTarget(null)}
+          />
+        ) : null}
       </Container>
     </AppShell>
   );
@@ -0,0 +1,456 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import { useCharacterDetails, useCharacters } from '@/app/characters';
+import { useChatReviewQueue, useChatReviewStats } from '@/app/chat-reviews';
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  EmptyState,
+  Field,
+  Section,
+  Select,
+  Skeleton,
+  Stack,
+  Table,
+  Tabs,
+  Typography,
+} from '@/atoms';
+import {
+  ChatReviewLabel,
+  type ChatReviewStatsGroupBy,
+  type IChatReviewStatsRow,
+  type RoleplayStage,
+  STAGES_IN_ORDER,
+} from '@/common/types';
+import {
+  formatCharacterSelectLabel,
+  formatChatReviewLabel,
+  formatRoleplayStage,
+} from '@/common/utils';
+import { AppShell } from '@/components/templates';
+import { SearchSelect } from '@/molecules';
+
+import s from './ChatReviewQueuePage.module.scss';
+
+const SAMPLE_SIZE_OPTIONS = [10, 20, 50];
+const DEFAULT_SAMPLE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+
+const STATS_TABS: { value: ChatReviewStatsGroupBy; label: string }[] = [
+  { value: 'scenario', label: 'By scenario' },
+  { value: 'promptVersion', label: 'By prompt version' },
+];
+
+const stageValues = new Set<string>(STAGES_IN_ORDER);
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+function formatDate(value: string) {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+function formatRate(count: number, total: number) {
+  if (total === 0) return '—';
+  return `${Math.round((count / total) * 100)}%`;
+}
+
+function buildStatsRows(rows: IChatReviewStatsRow[]) {
+  return rows.map((row) => ({
+    group: <Typography variant="body">{row.label}</Typography>,
+    reviewedChats: (
+      <Typography variant="body" tone="muted">
+        {row.reviewedChats.toLocaleString()}
+      </Typography>
+    ),
+    reviews: (
+      <Typography variant="body" tone="muted">
+        {row.reviews.toLocaleString()}
+      </Typography>
+    ),
+    ...Object.fromEntries(
+      Object.values(ChatReviewLabel).map((label) => [
+        label,
+        <div key={label} className={s.rateCell}>
+          <Typography variant="body">
+            {formatRate(row.labels[label] ?? 0, row.reviews)}
+          </Typography>
+          <Typography variant="meta" tone="muted">
+            {(row.labels[label] ?? 0).toLocaleString()}
+          </Typography>
+        </div>,
+      ]),
+    ),
+  }));
+}
+
+export function ChatReviewQueuePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const characterId = searchParams.get('characterId') ?? '';
+  const scenarioId = searchParams.get('scenarioId') ?? '';
+  const rawStage = searchParams.get('stage') ?? '';
+  const stage = stageValues.has(rawStage)
+    ? (rawStage as RoleplayStage)
+    : undefined;
+  const rawSampleSize = Number(searchParams.get('take'));
+  const sampleSize = SAMPLE_SIZE_OPTIONS.includes(rawSampleSize)
+    ? rawSampleSize
+    : DEFAULT_SAMPLE_SIZE;
+  const [statsGroupBy, setStatsGroupBy] =
+    useState<ChatReviewStatsGroupBy>('scenario');
+
+  const [characterSearch, setCharacterSearch] = useState('');
+  const debouncedCharacterSearch = useDebouncedValue(
+    characterSearch,
+    SEARCH_DEBOUNCE_MS,
+  );
+
+  const updateSearchParams = (update: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(update)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const characterQueryParams = useMemo(
+    () => ({
+      search: debouncedCharacterSearch || undefined,
+      order: 'ASC',
+      skip: 0,
+      take: 20,
+    }),
+    [debouncedCharacterSearch],
+  );
+  const { data: charactersData, isLoading: isCharactersLoading } =
+    useCharacters(characterQueryParams);
+  const { data: characterDetails, isLoading: isScenariosLoading } =
+    useCharacterDetails(characterId || null);
+
+  const characterOptions = useMemo(
+    () =>
+      (charactersData?.data ?? []).map((character) => ({
+        id: character.id,
+        label: formatCharacterSelectLabel(character.name, character.type),
+        meta: character.id,
+      })),
+    [charactersData?.data],
+  );
+  const selectedCharacterLabel =
+    characterOptions.find((option) => option.id === characterId)?.label ??
+    characterDetails?.name ??
+    '';
+
+  const scenarioOptions = useMemo(() => {
+    if (!characterId) {
+      return [{ label: 'Select character first', value: '', disabled: true }];
+    }
+    if (isScenariosLoading) {
+      return [{ label: 'Loading scenarios...', value: '', disabled: true }];
+    }
+    return [
+      { label: 'Any', value: '' },
+      ...(characterDetails?.scenarios ?? []).map((scenario) => ({
+        label: scenario.name || scenario.id,
+        value: scenario.id,
+      })),
+    ];
+  }, [characterId, isScenariosLoading, characterDetails?.scenarios]);
+
+  const queueParams = useMemo(
+    () => ({
+      scenarioId: scenarioId || undefined,
+      stage,
+      take: sampleSize,
+    }),
+    [scenarioId, stage, sampleSize],
+  );
+  const {
+    data: queueData,
+    error: queueError,
+    isLoading: isQueueLoading,
+    isFetching: isQueueFetching,
+    refetch: refetchQueue,
+  } = useChatReviewQueue(queueParams);
+  const queue = useMemo(() => queueData ?? [], [queueData]);
+
+  const statsParams = useMemo(
+    () => ({
+      groupBy: statsGroupBy,
+      scenarioId: scenarioId || undefined,
+    }),
+    [statsGroupBy, scenarioId],
+  );
+  const {
+    data: statsData,
+    error: statsError,
+    isLoading: isStatsLoading,
+  } = useChatReviewStats(statsParams);
+
+  const queueColumns = [
+    { key: 'chat', label: 'Chat' },
+    { key: 'context', label: 'Character / Scenario' },
+    { key: 'stage', label: 'Stage' },
+    { key: 'history', label: 'History' },
+    { key: 'updated', label: 'Updated' },
+    { key: 'actions', label: '' },
+  ];
+
+  const queueRows = queue.map((chat) => ({
+    chat: (
+      <div className={s.stackCell}>
+        <Typography variant="body">{chat.id}</Typography>
+        <Typography variant="caption" tone="muted">
+          {formatDate(chat.createdAt)}
+        </Typography>
+      </div>
+    ),
+    context: (
+      <div className={s.stackCell}>
+        <Typography variant="body">{chat.character?.name ?? '-'}</Typography>
+        <Typography variant="caption" tone="muted">
+          {chat.scenario?.name ?? chat.scenario?.id ?? '-'}
+        </Typography>
+      </div>
+    ),
+    stage: (
+      <Badge tone="accent" outline>
+        {formatRoleplayStage(chat.stage)}
+      </Badge>
+    ),
+    history: (
+      <Typography variant="body" tone="muted">
+        {Number.isFinite(chat.historyLength) ? chat.historyLength : '-'}
+      </Typography>
+    ),
+    updated: (
+      <Typography variant="caption" tone="muted">
+        {formatDate(chat.updatedAt)}
+      </Typography>
+    ),
+    actions: (
+      <div className={s.actionsCell}>
+        <Button as={Link} to={`/chats/${chat.id}`} size="sm">
+          Review
+        </Button>
+      </div>
+    ),
+  }));
+
+  const statsColumns = [
+    {
+      key: 'group',
+      label: statsGroupBy === 'scenario' ? 'Scenario' : 'Prompt version',
+    },
+    { key: 'reviewedChats', label: 'Reviewed chats' },
+    { key: 'reviews', label: 'Labels' },
+    ...Object.values(ChatReviewLabel).map((label) => ({
+      key: label,
+      label: formatChatReviewLabel(label),
+    })),
+  ];
+  const statsRows = buildStatsRows(statsData ?? []);
+
+  return (
+    <AppShell>
+      <Container size="wide" className={s.page}>
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Review queue</Typography>
+            <Typography variant="body" tone="muted">
+              A random sample of chats nobody has labeled yet.
+            </Typography>
+          </div>
+          <div className={s.headerActions}>
+            <Button as={Link} to="/chats" variant="secondary">
+              Back to chats
+            </Button>
+            <Button
+              onClick={() => refetchQueue()}
+              loading={isQueueFetching && !isQueueLoading}
+            >
+              Resample
+            </Button>
+          </div>
+        </div>
+
+        <div className={s.filters}>
+          <Field
+            className={s.filterField}
+            label="Character"
+            labelFor="review-character"
+          >
+            <SearchSelect
+              id="review-character"
+              value={characterId}
+              valueLabel={selectedCharacterLabel}
+              options={characterOptions}
+              search={characterSearch}
+              onSearchChange={setCharacterSearch}
+              onSelect={(value) =>
+                updateSearchParams({ characterId: value, scenarioId: '' })
+              }
+              placeholder={
+                isCharactersLoading
+                  ? 'Loading characters...'
+                  : 'Select character'
+              }
+              loading={isCharactersLoading}
+              disabled={isCharactersLoading}
+              emptyLabel="No characters found."
+            />
+          </Field>
+          <Field
+            className={s.filterField}
+            label="Scenario"
+            labelFor="review-scenario"
+          >
+            <Select
+              id="review-scenario"
+              options={scenarioOptions}
+              value={characterId ? scenarioId : ''}
+              size="sm"
+              variant="ghost"
+              onChange={(value) => updateSearchParams({ scenarioId: value })}
+              disabled={!characterId || isScenariosLoading}
+            />
+          </Field>
+          <Field
+            className={s.filterFieldSm}
+            label="Stage"
+            labelFor="review-stage"
+          >
+            <Select
+              id="review-stage"
+              options={[
+                { label: 'Any', value: '' },
+                ...STAGES_IN_ORDER.map((item) => ({
+                  label: formatRoleplayStage(item),
+                  value: item,
+                })),
+              ]}
+              value={stage ?? ''}
+              size="sm"
+              variant="ghost"
+              onChange={(value) => updateSearchParams({ stage: value })}
+            />
+          </Field>
+          <Field
+            className={s.filterFieldSm}
+            label="Sample size"
+            labelFor="review-take"
+          >
+            <Select
+              id="review-take"
+              options={SAMPLE_SIZE_OPTIONS.map((size) => ({
+                label: `${size} chats`,
+                value: String(size),
+              }))}
+              value={String(sampleSize)}
+              size="sm"
+              variant="ghost"
+              onChange={(value) =>
+                updateSearchParams({
+                  take: Number(value) === DEFAULT_SAMPLE_SIZE ? '' : value,
+                })
+              }
+            />
+          </Field>
+        </div>
+
+        <Section title="Unreviewed chats">
+          {queueError ? (
+            <Stack className={s.state} gap="12px">
+              <Alert
+                title="Unable to load the review queue"
+                description={
+                  queueError instanceof Error
+                    ? queueError.message
+                    : 'Please try again.'
+                }
+                tone="warning"
+              />
+              <Button variant="secondary" onClick={() => refetchQueue()}>
+                Retry
+              </Button>
+            </Stack>
+          ) : isQueueLoading ? (
+            <Stack gap="8px">
+              {Array.from({ length: 5 }, (_, index) => (
+                <Skeleton key={index} width="100%" height={40} />
+              ))}
+            </Stack>
+          ) : queue.length === 0 ? (
+            <EmptyState
+              title="Nothing to review"
+              description="Every chat matching these filters already has a label."
+            />
+          ) : (
+            <Table columns={queueColumns} rows={queueRows} />
+          )}
+        </Section>
+
+        <Section
+          title="Label rates"
+          description={
+            scenarioId
+              ? 'Share of labels per group for the selected scenario.'
+              : 'Share of labels per group across all reviewed chats.'
+          }
+        >
+          <Stack gap="16px">
+            <Tabs
+              items={STATS_TABS}
+              value={statsGroupBy}
+              onChange={(value) =>
+                setStatsGroupBy(value as ChatReviewStatsGroupBy)
+              }
+            />
+            {statsError ? (
+              <Alert
+                title="Unable to load label rates"
+                description={
+                  statsError instanceof Error
+                    ? statsError.message
+                    : 'Please try again.'
+                }
+                tone="warning"
+              />
+            ) : isStatsLoading ? (
+              <Skeleton width="100%" height={160} />
+            ) : statsRows.length === 0 ? (
+              <EmptyState
+                title="No labels yet"
+                description="Rates appear once reviewers start labeling chats."
+              />
+            ) : (
+              <Table columns={statsColumns} rows={statsRows} scrollable />
+            )}
+          </Stack>
+        </Section>
+      </Container>
+    </AppShell>
+  );
+}
@@ -1,8 +1,12 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 
 import { useCharacterDetails, useCharacters } from '@/app/characters';
-import { useChats } from '@/app/chats';
+import {
+  getChatTranscripts,
+  MAX_CHAT_TRANSCRIPTS,
+  useChats,
+} from '@/app/chats';
 import { useUsers } from '@/app/users';
 import {
   Alert,
@@ -11,6 +15,7 @@ import {
   Container,
   EmptyState,
   Field,
+  Input,
   Pagination,
   Select,
   Skeleton,
@@ -18,19 +23,27 @@ import {
   Table,
   Typography,
 } from '@/atoms';
-import type { ITgUser, RoleplayStage } from '@/common/types';
+import type {
+  ChatSearchRole,
+  IChatSearchMatch,
+  ITgUser,
+  RoleplayStage,
+} from '@/common/types';
 import { STAGES_IN_ORDER } from '@/common/types';
 import { formatCharacterSelectLabel } from '@/common/utils';
 import { AppShell } from '@/components/templates';
-import { SearchSelect } from '@/molecules';
+import { HighlightedText, SearchSelect } from '@/molecules';
 
 import s from './ChatsPage.module.scss';
+import { ChatTranscriptExportModal } from './components/ChatTranscriptExportModal';
 
 type QueryUpdate = {
   userId?: string;
   characterId?: string;
   scenarioId?: string;
   stage?: RoleplayStage | '';
+  search?: string;
+  searchRole?: ChatSearchRole | '';
   order?: string;
   page?: number;
   pageSize?: number;
@@ -41,11 +54,21 @@ const ORDER_OPTIONS = [
   { label: 'Descending', value: 'DESC' },
 ];
 
+const SEARCH_ROLE_OPTIONS = [
+  { label: 'All messages', value: '' },
+  { label: 'User messages', value: 'user' },
+  { label: 'AI messages', value: 'ai' },
+];
+
 const ORDER_VALUES = new Set(ORDER_OPTIONS.map((option) => option.value));
 const PAGE_SIZE_OPTIONS = [20, 50, 100];
 const DEFAULT_ORDER = 'DESC';
 const DEFAULT_PAGE_SIZE = 20;
 const SEARCH_DEBOUNCE_MS = 400;
+const MIN_SEARCH_LENGTH = 2;
+const VISIBLE_MATCHES = 3;
+
+const searchRoleValues = new Set<string>(['user', 'ai']);
 
 const stageValues = new Set(STAGES_IN_ORDER);
 
@@ -108,6 +131,10 @@ function formatUserMeta(user: ITgUser) {
   return user.id;
 }
 
+function formatMatchRole(role: IChatSearchMatch['role']) {
+  return role === 'ai' ? 'AI' : 'User';
+}
+
 export function ChatsPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -116,6 +143,8 @@ export function ChatsPage() {
   const rawCharacterId = searchParams.get('characterId') ?? '';
   const rawScenarioId = searchParams.get('scenarioId') ?? '';
   const rawStage = searchParams.get('stage');
+  const rawSearch = searchParams.get('q') ?? '';
+  const rawSearchRole = searchParams.get('searchIn') ?? '';
   const rawOrder = searchParams.get('order');
   const rawPage = searchParams.get('page');
   const rawPageSize = searchParams.get('pageSize');
@@ -127,12 +156,21 @@ export function ChatsPage() {
     ? (rawStage as RoleplayStage)
     : undefined;
 
+  const search = rawSearch.trim();
+  const searchRole = searchRoleValues.has(rawSearchRole)
+    ? (rawSearchRole as ChatSearchRole)
+    : undefined;
+  const isSearchActive = search.length >= MIN_SEARCH_LENGTH;
+
   const order = ORDER_VALUES.has(rawOrder ?? '') ? rawOrder! : DEFAULT_ORDER;
   const page = parsePositiveNumber(rawPage, 1);
   const pageSize = parsePageSize(rawPageSize);
 
   const [userSearch, setUserSearch] = useState('');
   const [characterSearch, setCharacterSearch] = useState('');
+  const [textSearch, setTextSearch] = useState(rawSearch);
+  const debouncedTextSearch = useDebouncedValue(textSearch, SEARCH_DEBOUNCE_MS);
+  const syncedTextSearchRef = useRef(rawSearch);
   const debouncedUserSearch = useDebouncedValue(userSearch, SEARCH_DEBOUNCE_MS);
   const debouncedCharacterSearch = useDebouncedValue(
     characterSearch,
@@ -178,6 +216,23 @@ export function ChatsPage() {
         }
       }
 
+      if (update.search !== undefined) {
+        const nextSearch = update.search.trim();
+        if (nextSearch) {
+          next.set('q', nextSearch);
+        } else {
+          next.delete('q');
+        }
+      }
+
+      if (update.searchRole !== undefined) {
+        if (update.searchRole) {
+          next.set('searchIn', update.searchRole);
+        } else {
+          next.delete('searchIn');
+        }
+      }
+
       if (update.order !== undefined) {
         if (update.order && update.order !== DEFAULT_ORDER) {
           next.set('order', update.order);
@@ -207,6 +262,12 @@ export function ChatsPage() {
     [searchParams, setSearchParams],
   );
 
+  useEffect(() => {
+    if (debouncedTextSearch === syncedTextSearchRef.current) return;
+    syncedTextSearchRef.current = debouncedTextSearch;
+    updateSearchParams({ search: debouncedTextSearch, page: 1 }, true);
+  }, [debouncedTextSearch, updateSearchParams]);
+
   const userQueryParams = useMemo(
     () => ({
       search: debouncedUserSearch || undefined,
@@ -294,14 +355,28 @@ export function ChatsPage() {
       characterId: characterId || undefined,
       scenarioId: scenarioId || undefined,
       stage: stage || undefined,
+      search: isSearchActive ? search : undefined,
+      searchRole: isSearchActive ? searchRole : undefined,
       order,
       skip: (page - 1) * pageSize,
       take: pageSize,
     }),
-    [userId, characterId, scenarioId, stage, order, page, pageSize],
+    [
+      userId,
+      characterId,
+      scenarioId,
+      stage,
+      isSearchActive,
+      search,
+      searchRole,
+      order,
+      page,
+      pageSize,
+    ],
   );
 
   const { data, error, isLoading, refetch } = useChats(queryParams);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const chats = useMemo(() => data?.data ?? [], [data?.data]);
   const total = data?.total ?? 0;
@@ -316,17 +391,30 @@ export function ChatsPage() {
     }
   }, [data, page, total, totalPages, updateSearchParams]);
 
+  const getChatPath = useCallback(
+    (chatId: string, itemIndex?: number) => {
+      if (!isSearchActive) return `/chats/${chatId}`;
+      const next = new URLSearchParams({ q: search });
+      if (searchRole) next.set('searchIn', searchRole);
+      if (itemIndex !== undefined) next.set('match', String(itemIndex));
+      return `/chats/${chatId}?${next.toString()}`;
+    },
+    [isSearchActive, search, searchRole],
+  );
+
   const columns = useMemo(
     () => [
       { key: 'chat', label: 'Chat' },
       { key: 'user', label: 'User' },
       { key: 'context', label: 'Character / Scenario' },
+      ...(isSearchActive ? [{ key: 'matches', label: 'Matches' }] : []),
       { key: 'stage', label: 'Stage' },
       { key: 'history', label: 'History' },
       { key: 'photos', label: 'Photos' },
       { key: 'updated', label: <span className={s.alignRight}>Updated</span> },
+      { key: 'actions', label: '' },
     ],
-    [],
+    [isSearchActive],
   );
 
   const rows = useMemo(
@@ -356,6 +444,34 @@ export function ChatsPage() {
             </Typography>
           </div>
         ),
+        matches: (
+          <div className={s.matchesCell}>
+            {(chat.matches ?? []).slice(0, VISIBLE_MATCHES).map((match) => (
+              <Link
+                key={match.itemIndex}
+                to={getChatPath(chat.id, match.itemIndex)}
+                className={s.match}
+                onClick={(event) => event.stopPropagation()}
+                onKeyDown={(event) => event.stopPropagation()}
+              >
+                <Badge
+                  tone={match.role === 'ai' ? 'success' : 'accent'}
+                  outline
+                >
+                  {formatMatchRole(match.role)}
+                </Badge>
+                <Typography variant="caption" className={s.matchText}>
+                  <HighlightedText text={match.text} query={search} />
+                </Typography>
+              </Link>
+            ))}
+            {(chat.matches?.length ?? 0) > VISIBLE_MATCHES ? (
+              <Typography variant="meta" tone="muted">
+                {`+${(chat.matches?.length ?? 0) - VISIBLE_MATCHES} more`}
+              </Typography>
+            ) : null}
+          </div>
+        ),
         stage: (
           <Badge tone="accent" outline>
             {formatStage(chat.stage)}
@@ -376,8 +492,22 @@ export function ChatsPage() {
             {formatDate(chat.updatedAt)}
           </Typography>
         ),
+        actions: (
+          <div className={s.actionsCell}>
+            <Button
+              as={Link}
+              to={`/prompts/playground?chatId=${chat.id}`}
+              size="sm"
+              variant="text"
+              onClick={(event) => event.stopPropagation()}
+              onKeyDown={(event) => event.stopPropagation()}
+            >
+              Playground
+            </Button>
+          </div>
+        ),
       })),
-    [chats],
+    [chats, getChatPath, search],
   );
 
   const skeletonRows = useMemo(
@@ -401,6 +531,7 @@ export function ChatsPage() {
             <Skeleton width={120} height={10} />
           </div>
         ),
+        matches: <Skeleton width={220} height={12} />,
         stage: <Skeleton width={90} height={20} />,
         history: <Skeleton width={40} height={12} />,
         photos: <Skeleton width={40} height={12} />,
@@ -409,6 +540,7 @@ export function ChatsPage() {
             <Skeleton width={120} height={12} />
           </div>
         ),
+        actions: <Skeleton width={80} height={12} />,
       })),
     [],
   );
@@ -439,9 +571,55 @@ export function ChatsPage() {
           <div className={s.titleBlock}>
             <Typography variant="h2">Chats</Typography>
           </div>
+          <div className={s.headerActions}>
+            <Button as={Link} to="/chats/review-queue" variant="secondary">
+              Review queue
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => setIsExportOpen(true)}
+              disabled={total === 0}
+            >
+              Export transcripts
+            </Button>
+          </div>
         </div>
 
         <div className={s.filters}>
+          <div className={s.filterRow}>
+            <Field
+              className={s.filterFieldWide}
+              label="Search in messages"
+              labelFor="chat-search"
+            >
+              <Input
+                id="chat-search"
+                size="sm"
+                value={textSearch}
+                onChange={(event) => setTextSearch(event.target.value)}
+                placeholder={`Type at least ${MIN_SEARCH_LENGTH} characters`}
+              />
+            </Field>
+            <Field
+              className={s.filterFieldSm}
+              label="Search in"
+              labelFor="chat-search-role"
+            >
+              <Select
+                id="chat-search-role"
+                options={SEARCH_ROLE_OPTIONS}
+                value={searchRole ?? ''}
+                size="sm"
+                variant="ghost"
+                onChange={(value) =>
+                  updateSearchParams({
+                    searchRole: value as ChatSearchRole | '',
+                    page: 1,
+                  })
+                }
+              />
+            </Field>
+          </div>
           <div className={s.filterRow}>
             <Field className={s.filterField} label="User" labelFor="chat-user">
               <SearchSelect
@@ -560,7 +738,11 @@ export function ChatsPage() {
         {showEmpty ? (
           <EmptyState
             title="No chats found"
-            description="Try adjusting your filters."
+            description={
+              isSearchActive
+                ? `No chats contain "${search}". Try another phrase or adjust your filters.`
+                : 'Try adjusting your filters.'
+            }
           />
         ) : null}
 
@@ -579,11 +761,11 @@ export function ChatsPage() {
                         className: s.clickableRow,
                         role: 'link',
                         tabIndex: 0,
-                        onClick: () => navigate(`/chats/${chat.id}`),
+                        onClick: () => navigate(getChatPath(chat.id)),
                         onKeyDown: (event) => {
                           if (event.key === 'Enter' || event.key === ' ') {
                             event.preventDefault();
-                            navigate(`/chats/${chat.id}`);
+                            navigate(getChatPath(chat.id));
                           }
                         },
                       };
@@ -629,6 +811,29 @@ export function ChatsPage() {
             ) : null}
           </div>
         ) : null}
+        <ChatTranscriptExportModal
+          open={isExportOpen}
+          description={
+            total > MAX_CHAT_TRANSCRIPTS
+              ? `Download the first ${MAX_CHAT_TRANSCRIPTS} of ${total} chats matching the current filters.`
+              : `Download all ${total} chats matching the current filters.`
+          }
+          onClose={() => setIsExportOpen(false)}
+          loadChats={(onProgress) =>
+            getChatTranscripts(
+              {
+                userId: queryParams.userId,
+                characterId: queryParams.characterId,
+                scenarioId: queryParams.scenarioId,
+                stage: queryParams.stage,
+                search: queryParams.search,
+                searchRole: queryParams.searchRole,
+                order: queryParams.order,
+              },
+              onProgress,
+            )
+          }
+        />
       </Container>
     </AppShell>
   );
@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import { useChatDiagnostics } from '@/app/logs';
+import {
+  Alert,
+  Badge,
+  Button,
+  EmptyState,
+  Field,
+  Grid,
+  Section,
+  Skeleton,
+  Stack,
+  Table,
+  Typography,
+} from '@/atoms';
+import type { ILlmCallLog } from '@/common/types';
+import { cn } from '@/common/utils';
+
+import {
+  buildChatDiagnostics,
+  type ChatDiagnosticsSpanKind,
+  type ChatDiagnosticsTurn,
+} from './chatDiagnostics';
+import s from './ChatDiagnosticsPanel.module.scss';
+
+type ChatDiagnosticsPanelProps = {
+  chatId: string;
+};
+
+const TURNS_PAGE_SIZE = 20;
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'medium',
+});
+
+const centsFormatter = new Intl.NumberFormat(undefined, {
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 6,
+});
+
+const spanClassMap: Record<ChatDiagnosticsSpanKind, string> = {
+  router: s.spanRouter,
+  text: s.spanText,
+  'image-prompt': s.spanImage,
+  'image-generation': s.spanImage,
+  'image-upload': s.spanUpload,
+};
+
+const llmCallColumns = [
+  { key: 'type', label: 'Type' },
+  { key: 'model', label: 'Model' },
+  { key: 'tokens', label: 'Tokens in / out' },
+  { key: 'price', label: 'Price' },
+  { key: 'latency', label: <span className={s.alignRight}>Latency</span> },
+];
+
+function formatDate(value: string) {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '—';
+  return dateTimeFormatter.format(parsed);
+}
+
+function formatLatency(value: number | null | undefined) {
+  if (!Number.isFinite(value)) return '—';
+  return `${Math.round(value!)} ms`;
+}
+
+function formatNumber(value: number) {
+  return Math.round(value).toLocaleString();
+}
+
+function formatPrice(value: number) {
+  return `¢${centsFormatter.format(value * 100)}`;
+}
+
+function buildLlmCallRows(calls: ILlmCallLog[]) {
+  return calls.map((call) => ({
+    type: (
+      <Badge tone="accent" outline>
+        {call.type}
+      </Badge>
+    ),
+    model: <Typography variant="body">{call.model}</Typography>,
+    tokens: (
+      <Typography variant="body" tone="muted">
+        {`${formatNumber(call.inputTokens)} / ${formatNumber(call.outputTokens)}`}
+      </Typography>
+    ),
+    price: (
+      <Typography variant="body" tone="muted">
+        {formatPrice(call.price)}
+      </Typography>
+    ),
+    latency: (
+      <Typography variant="body" tone="muted" className={s.alignRight}>
+        {formatLatency(call.latency)}
+      </Typography>
+    ),
+  }));
+}
+
+function ChatDiagnosticsTurnCard({ turn }: { turn: ChatDiagnosticsTurn }) {
+  const scale = turn.duration > 0 ? turn.duration : 1;
+
+  return (
+    <div className={s.turn}>
+      <div className={s.turnHeader}>
+        <div className={s.turnTitle}>
+          <Typography variant="body">Turn {turn.index}</Typography>
+          <Typography variant="caption" tone="muted">
+            {formatDate(turn.response.createdAt)}
+          </Typography>
+          {turn.response.toolsUsed.map((tool) => (
+            <Badge key={tool} tone="accent" outline>
+              {tool}
+            </Badge>
+          ))}
+        </div>
+        <div className={s.turnMeta}>
+          <Typography variant="caption" tone="muted">
+            {`Total ${formatLatency(turn.response.totalLatency)}`}
+          </Typography>
+          <Typography variant="caption" tone="muted">
+            {`Cost ${formatPrice(turn.cost)}`}
+          </Typography>
+          <Typography variant="caption">
+            {`Running ${formatPrice(turn.cumulativeCost)}`}
+          </Typography>
+        </div>
+      </div>
+
+      <div className={s.waterfall}>
+        {turn.spans.map((span) => (
+          <div key={span.key} className={s.spanRow}>
+            <Typography variant="caption" tone="muted" className={s.spanLabel}>
+              {span.label}
+            </Typography>
+            <div className={s.track}>
+              <div
+                className={cn(s.span, [spanClassMap[span.kind]])}
+                style={{
+                  left: `${(span.start / scale) * 100}%`,
+                  width: `${Math.max((span.duration / scale) * 100, 0.5)}%`,
+                }}
+              />
+            </div>
+            <Typography
+              variant="caption"
+              tone="muted"
+              className={s.spanDuration}
+            >
+              {formatLatency(span.duration)}
+            </Typography>
+          </div>
+        ))}
+      </div>
+
+      {turn.llmCalls.length > 0 ? (
+        <Table
+          columns={llmCallColumns}
+          rows={buildLlmCallRows(turn.llmCalls)}
+        />
+      ) : (
+        <Typography variant="caption" tone="muted">
+          No LLM calls matched this turn.
+        </Typography>
+      )}
+    </div>
+  );
+}
+
+export function ChatDiagnosticsPanel({ chatId }: ChatDiagnosticsPanelProps) {
+  const { data, error, isLoading, refetch } = useChatDiagnostics(chatId);
+  const [visibleCount, setVisibleCount] = useState(TURNS_PAGE_SIZE);
+
+  const summary = useMemo(
+    () => (data ? buildChatDiagnostics(data) : null),
+    [data],
+  );
+  const turns = summary?.turns ?? [];
+  const visibleTurns = turns.slice(Math.max(turns.length - visibleCount, 0));
+  const hiddenCount = turns.length - visibleTurns.length;
+
+  return (
+    <Section
+      title="Diagnostics"
+      description="Latency and cost of every assistant turn, matched from chat response, LLM call and image generation logs."
+      actions={
+        <Button
+          as={Link}
+          to={`/logs?tab=chat-response&chatId=${chatId}`}
+          size="sm"
+          variant="ghost"
+        >
+          Open in logs
+        </Button>
+      }
+    >
+      {error ? (
+        <Stack gap="12px">
+          <Alert
+            title="Unable to load diagnostics"
+            description={
+              error instanceof Error ? error.message : 'Please try again.'
+            }
+            tone="warning"
+          />
+          <Button variant="secondary" onClick={() => refetch()}>
+            Retry
+          </Button>
+        </Stack>
+      ) : null}
+
+      {isLoading ? (
+        <Stack gap="12px">
+          <Skeleton width="100%" height={56} />
+          <Skeleton width="100%" height={160} />
+          <Skeleton width="100%" height={160} />
+        </Stack>
+      ) : null}
+
+      {summary ? (
+        <Stack gap="16px">
+          <Grid columns={4} className={s.summary}>
+            <Field label="Total cost">
+              <Typography variant="h3">
+                {formatPrice(summary.totalCost)}
+              </Typography>
+            </Field>
+            <Field label="Tokens in / out">
+              <Typography variant="body">
+                {`${formatNumber(summary.inputTokens)} / ${formatNumber(summary.outputTokens)}`}
+              </Typography>
+            </Field>
+            <Field label="Average response latency">
+              <Typography variant="body">
+                {formatLatency(summary.averageLatency)}
+              </Typography>
+            </Field>
+            <Field label="Slowest turn">
+              <Typography variant="body">
+                {summary.slowestTurn
+                  ? `Turn ${summary.slowestTurn.index} · ${formatLatency(summary.slowestTurn.duration)}`
+                  : '—'}
+              </Typography>
+            </Field>
+          </Grid>
+
+          {turns.length === 0 ? (
+            <EmptyState
+              title="No response logs"
+              description="This chat has no logged assistant turns yet."
+            />
+          ) : null}
+
+          {hiddenCount > 0 ? (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setVisibleCount((prev) => prev + TURNS_PAGE_SIZE)}
+            >
+              {`Show earlier turns (${hiddenCount})`}
+            </Button>
+          ) : null}
+
+          {visibleTurns.map((turn) => (
+            <ChatDiagnosticsTurnCard key={turn.response.id} turn={turn} />
+          ))}
+
+          {summary.unmatchedLlmCalls.length > 0 ? (
+            <Stack gap="8px">
+              <Typography variant="caption" tone="muted">
+                LLM calls without a logged assistant turn
+              </Typography>
+              <Table
+                columns={llmCallColumns}
+                rows={buildLlmCallRows(summary.unmatchedLlmCalls)}
+              />
+            </Stack>
+          ) : null}
+        </Stack>
+      ) : null}
+    </Section>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+
+import { useCreateChatReview } from '@/app/chat-reviews';
+import {
+  Button,
+  Field,
+  Modal,
+  RadioGroup,
+  Stack,
+  Textarea,
+  Typography,
+} from '@/atoms';
+import { ChatReviewLabel } from '@/common/types';
+import { chatReviewLabelOptions } from '@/common/utils';
+
+import s from './ChatReviewModal.module.scss';
+
+type ChatReviewModalProps = {
+  open: boolean;
+  chatId: string;
+  itemIndex: number | null;
+  onClose: () => void;
+};
+
+export function ChatReviewModal({
+  open,
+  chatId,
+  itemIndex,
+  onClose,
+}: ChatReviewModalProps) {
+  const createMutation = useCreateChatReview();
+  const [label, setLabel] = useState<ChatReviewLabel>(
+    ChatReviewLabel.GoodResponse,
+  );
+  const [comment, setComment] = useState('');
+  const isSaving = createMutation.isPending;
+
+  const handleClose = () => {
+    if (isSaving) return;
+    setLabel(ChatReviewLabel.GoodResponse);
+    setComment('');
+    onClose();
+  };
+
+  const handleSave = async () => {
+    const trimmed = comment.trim();
+    await createMutation.mutateAsync({
+      chatId,
+      payload: {
+        label,
+        comment: trimmed || undefined,
+        itemIndex: itemIndex ?? undefined,
+      },
+    });
+    setLabel(ChatReviewLabel.GoodResponse);
+    setComment('');
+    onClose();
+  };
+
+  return (
+    <Modal
+      open={open}
+      title={itemIndex === null ? 'Label chat' : 'Label AI message'}
+      onClose={handleClose}
+      actions={
+        <div className={s.actions}>
+          <Button variant="secondary" onClick={handleClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleSave()} loading={isSaving}>
+            Save label
+          </Button>
+        </div>
+      }
+    >
+      <Stack gap="16px">
+        <Typography variant="body" tone="muted">
+          {itemIndex === null
+            ? 'The label applies to the chat as a whole.'
+            : `The label applies to history item #${itemIndex + 1}.`}
+        </Typography>
+        <Field label="Label">
+          <RadioGroup
+            name="chat-review-label"
+            value={label}
+            options={chatReviewLabelOptions}
+            onChange={(value) => setLabel(value as ChatReviewLabel)}
+            disabled={isSaving}
+          />
+        </Field>
+        <Field label="Comment" labelFor="chat-review-comment">
+          <Textarea
+            id="chat-review-comment"
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="What was good or wrong about it?"
+            rows={4}
+            disabled={isSaving}
+            fullWidth
+          />
+        </Field>
+      </Stack>
+    </Modal>
+  );
+}
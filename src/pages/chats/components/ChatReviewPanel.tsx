@@ -0,0 +1,160 @@
+import { useState } from 'react';
+
+import { useDeleteChatReview } from '@/app/chat-reviews';
+import {
+  Alert,
+  Badge,
+  Button,
+  EmptyState,
+  Section,
+  Skeleton,
+  Stack,
+  Typography,
+} from '@/atoms';
+import type { IChatReview } from '@/common/types';
+import {
+  formatAuditAdmin,
+  formatChatReviewLabel,
+  getChatReviewLabelTone,
+} from '@/common/utils';
+import { ConfirmModal } from '@/components/molecules';
+
+import s from './ChatReviewPanel.module.scss';
+
+type ChatReviewPanelProps = {
+  chatId: string;
+  reviews: IChatReview[];
+  isLoading: boolean;
+  error: unknown;
+  onAddReview: () => void;
+  onSelectItem: (itemIndex: number) => void;
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatDate(value: string) {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+export function ChatReviewPanel({
+  chatId,
+  reviews,
+  isLoading,
+  error,
+  onAddReview,
+  onSelectItem,
+}: ChatReviewPanelProps) {
+  const deleteMutation = useDeleteChatReview();
+  const [deleteTarget, setDeleteTarget] = useState<IChatReview | null>(null);
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteMutation.mutateAsync({ chatId, reviewId: deleteTarget.id });
+    setDeleteTarget(null);
+  };
+
+  return (
+    <Section
+      title="Review"
+      description="Quality labels for this chat and its AI messages."
+      actions={
+        <Button size="sm" onClick={onAddReview}>
+          Label chat
+        </Button>
+      }
+    >
+      {error ? (
+        <Alert
+          title="Unable to load reviews"
+          description={
+            error instanceof Error ? error.message : 'Please try again.'
+          }
+          tone="warning"
+        />
+      ) : null}
+
+      {isLoading ? (
+        <Stack gap="8px">
+          <Skeleton width="100%" height={48} />
+          <Skeleton width="100%" height={48} />
+        </Stack>
+      ) : null}
+
+      {!isLoading && !error && reviews.length === 0 ? (
+        <EmptyState
+          title="Not reviewed yet"
+          description="Label the chat or individual AI messages in the history."
+        />
+      ) : null}
+
+      {reviews.length > 0 ? (
+        <div className={s.list}>
+          {reviews.map((review) => (
+            <div key={review.id} className={s.item}>
+              <div className={s.itemHeader}>
+                <Badge tone={getChatReviewLabelTone(review.label)}>
+                  {formatChatReviewLabel(review.label)}
+                </Badge>
+                {review.itemIndex === null ? (
+                  <Badge tone="accent" outline>
+                    Whole chat
+                  </Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="text"
+                    onClick={() => onSelectItem(review.itemIndex!)}
+                  >
+                    {`Message #${review.itemIndex + 1}`}
+                  </Button>
+                )}
+                {review.promptVersion !== null ? (
+                  <Typography variant="caption" tone="muted">
+                    {`Prompt v${review.promptVersion}`}
+                  </Typography>
+                ) : null}
+                <Typography variant="caption" tone="muted">
+                  {`${formatAuditAdmin(review.admin)} · ${formatDate(review.createdAt)}`}
+                </Typography>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  tone="danger"
+                  className={s.deleteButton}
+                  onClick={() => setDeleteTarget(review)}
+                >
+                  Delete
+                </Button>
+              </div>
+              {review.comment ? (
+                <Typography variant="body" className={s.comment}>
+                  {review.comment}
+                </Typography>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <ConfirmModal
+        open={Boolean(deleteTarget)}
+        title="Delete label"
+        description={
+          deleteTarget
+            ? `Delete the "${formatChatReviewLabel(deleteTarget.label)}" label?`
+            : undefined
+        }
+        confirmLabel="Delete"
+        tone="danger"
+        isConfirming={deleteMutation.isPending}
+        onConfirm={() => void handleConfirmDelete()}
+        onClose={() => setDeleteTarget(null)}
+      />
+    </Section>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+
+import { Badge, Section, Tooltip, Typography } from '@/atoms';
+import {
+  type HistoryItem,
+  HistoryItemEventType,
+  type RoleplayStage,
+} from '@/common/types';
+import { cn, formatRoleplayStage } from '@/common/utils';
+
+import {
+  buildChatStageTimeline,
+  type ChatStageTimelineEventType,
+} from './chatStageTimeline';
+import s from './ChatStageTimelinePanel.module.scss';
+
+type ChatStageTimelinePanelProps = {
+  items: HistoryItem[];
+  stage: RoleplayStage;
+  onSelectItem: (itemIndex: number) => void;
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+const EVENT_LABELS: Record<ChatStageTimelineEventType, string> = {
+  [HistoryItemEventType.StageChanged]: 'Stage changed',
+  [HistoryItemEventType.TurnedCold]: 'Turned cold',
+  [HistoryItemEventType.SubscriptionRequested]: 'Subscription requested',
+  [HistoryItemEventType.GiftBought]: 'Gift bought',
+  [HistoryItemEventType.ShowedPhoto]: 'Showed photo',
+};
+
+const eventClassMap: Record<ChatStageTimelineEventType, string> = {
+  [HistoryItemEventType.StageChanged]: s.markerStage,
+  [HistoryItemEventType.TurnedCold]: s.markerCold,
+  [HistoryItemEventType.SubscriptionRequested]: s.markerSubscription,
+  [HistoryItemEventType.GiftBought]: s.markerGift,
+  [HistoryItemEventType.ShowedPhoto]: s.markerPhoto,
+};
+
+function formatDate(value: Date | string | null | undefined) {
+  if (!value) return '-';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+export function ChatStageTimelinePanel({
+  items,
+  stage,
+  onSelectItem,
+}: ChatStageTimelinePanelProps) {
+  const timeline = useMemo(
+    () => buildChatStageTimeline(items, stage),
+    [items, stage],
+  );
+  const { dropOff } = timeline;
+
+  return (
+    <Section
+      title="Stage timeline"
+      description={`${timeline.totalMessages} messages across ${
+        timeline.segments.filter((segment) => segment.reached).length
+      } stages. Click a point to jump to it in the history.`}
+    >
+      <div className={s.track}>
+        {timeline.segments.map((segment) => {
+          const isDropOff = dropOff?.stage === segment.stage;
+
+          return (
+            <div
+              key={segment.stage}
+              className={cn(s.segment, [
+                segment.reached ? s.segmentReached : s.segmentPending,
+                isDropOff && s.segmentDropOff,
+              ])}
+            >
+              <button
+                type="button"
+                className={s.segmentHeader}
+                onClick={() =>
+                  segment.firstItemIndex !== null &&
+                  onSelectItem(segment.firstItemIndex)
+                }
+                disabled={segment.firstItemIndex === null}
+              >
+                <Typography variant="caption">
+                  {formatRoleplayStage(segment.stage)}
+                </Typography>
+                <Typography variant="meta" tone="muted">
+                  {segment.reached
+                    ? `${segment.messages} messages`
+                    : 'Not reached'}
+                </Typography>
+              </button>
+
+              <div className={s.bar}>
+                {segment.markers.map((marker) => (
+                  <Tooltip
+                    key={marker.itemIndex}
+                    content={`${EVENT_LABELS[marker.event]} · ${formatDate(marker.createdAt)}`}
+                  >
+                    <button
+                      type="button"
+                      aria-label={EVENT_LABELS[marker.event]}
+                      className={cn(s.marker, [eventClassMap[marker.event]])}
+                      style={{ left: `${marker.position * 100}%` }}
+                      onClick={() => onSelectItem(marker.itemIndex)}
+                    />
+                  </Tooltip>
+                ))}
+                {isDropOff && dropOff ? (
+                  <Tooltip content="Last message in the chat">
+                    <button
+                      type="button"
+                      aria-label="Drop-off point"
+                      className={cn(s.marker, [s.markerDropOff])}
+                      style={{ left: '100%' }}
+                      onClick={() => onSelectItem(dropOff.itemIndex)}
+                    />
+                  </Tooltip>
+                ) : null}
+              </div>
+
+              <div className={s.segmentFooter}>
+                {segment.isCurrent ? (
+                  <Badge tone="accent" outline>
+                    Current
+                  </Badge>
+                ) : null}
+                {isDropOff && dropOff ? (
+                  <Badge tone={dropOff.turnedCold ? 'danger' : 'warning'}>
+                    {dropOff.turnedCold ? 'Turned cold' : 'Dropped off'}
+                  </Badge>
+                ) : null}
+                {segment.enteredAt ? (
+                  <Typography variant="meta" tone="muted">
+                    {formatDate(segment.enteredAt)}
+                  </Typography>
+                ) : null}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={s.legend}>
+        {Object.entries(EVENT_LABELS).map(([event, label]) => (
+          <div key={event} className={s.legendItem}>
+            <span
+              className={cn(s.legendDot, [
+                eventClassMap[event as ChatStageTimelineEventType],
+              ])}
+            />
+            <Typography variant="caption" tone="muted">
+              {label}
+            </Typography>
+          </div>
+        ))}
+        <div className={s.legendItem}>
+          <span className={cn(s.legendDot, [s.markerDropOff])} />
+          <Typography variant="caption" tone="muted">
+            Drop-off
+          </Typography>
+        </div>
+      </div>
+    </Section>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+
+import type { ChatTranscriptsProgress } from '@/app/chats';
+import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  Button,
+  Field,
+  Modal,
+  Progress,
+  RadioGroup,
+  Stack,
+  Switch,
+  Typography,
+} from '@/atoms';
+import type { IChatDetails } from '@/common/types';
+import { downloadBlob } from '@/common/utils';
+
+import {
+  buildChatTranscript,
+  type ChatTranscriptFormat,
+} from './chatTranscript';
+import s from './ChatTranscriptExportModal.module.scss';
+
+type ChatTranscriptExportModalProps = {
+  open: boolean;
+  description: string;
+  onClose: () => void;
+  loadChats: (
+    onProgress: (progress: ChatTranscriptsProgress) => void,
+  ) => Promise<IChatDetails[]>;
+};
+
+const FORMAT_OPTIONS: { label: string; value: ChatTranscriptFormat }[] = [
+  { label: 'Markdown', value: 'markdown' },
+  { label: 'JSON', value: 'json' },
+  { label: 'HTML', value: 'html' },
+];
+
+export function ChatTranscriptExportModal({
+  open,
+  description,
+  onClose,
+  loadChats,
+}: ChatTranscriptExportModalProps) {
+  const [format, setFormat] = useState<ChatTranscriptFormat>('markdown');
+  const [includeAnnotations, setIncludeAnnotations] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<ChatTranscriptsProgress | null>(
+    null,
+  );
+
+  const handleClose = () => {
+    if (isExporting) return;
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setProgress(null);
+    try {
+      const chats = await loadChats(setProgress);
+      if (chats.length === 0) {
+        notifyError(null, 'No chats to export.');
+        return;
+      }
+      const { blob, fileName } = buildChatTranscript(chats, {
+        format,
+        includeAnnotations,
+      });
+      downloadBlob(blob, fileName);
+      notifySuccess(
+        chats.length === 1
+          ? 'Transcript exported.'
+          : `${chats.length} transcripts exported.`,
+        'Transcript exported.',
+      );
+      onClose();
+    } catch (error) {
+      notifyError(error, 'Unable to export the transcript.');
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      title="Export transcript"
+      onClose={handleClose}
+      actions={
+        <div className={s.actions}>
+          <Button
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isExporting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={() => void handleExport()} loading={isExporting}>
+            Export
+          </Button>
+        </div>
+      }
+    >
+      <Stack gap="16px">
+        <Typography variant="body" tone="muted">
+          {description}
+        </Typography>
+        <Field label="Format">
+          <RadioGroup
+            name="chat-transcript-format"
+            value={format}
+            options={FORMAT_OPTIONS}
+            onChange={(value) => setFormat(value as ChatTranscriptFormat)}
+            disabled={isExporting}
+          />
+        </Field>
+        <Switch
+          checked={includeAnnotations}
+          onChange={(event) => setIncludeAnnotations(event.target.checked)}
+          label="Include response metadata (subscription, gift, next stage, photo details)"
+          disabled={isExporting}
+        />
+        {progress && progress.total > 1 ? (
+          <Stack gap="4px">
+            <Progress value={(progress.done / progress.total) * 100} />
+            <Typography variant="caption" tone="muted">
+              {`Loaded ${progress.done} of ${progress.total} chats`}
+            </Typography>
+          </Stack>
+        ) : null}
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,217 @@
+import type {
+  IChatDiagnostics,
+  IChatResponseLog,
+  IImageGenLog,
+  ILlmCallLog,
+} from '@/common/types';
+
+export type ChatDiagnosticsSpanKind =
+  | 'router'
+  | 'text'
+  | 'image-prompt'
+  | 'image-generation'
+  | 'image-upload';
+
+export type ChatDiagnosticsSpan = {
+  key: string;
+  kind: ChatDiagnosticsSpanKind;
+  label: string;
+  start: number;
+  duration: number;
+};
+
+export type ChatDiagnosticsTurn = {
+  index: number;
+  response: IChatResponseLog;
+  llmCalls: ILlmCallLog[];
+  imageGens: IImageGenLog[];
+  spans: ChatDiagnosticsSpan[];
+  duration: number;
+  cost: number;
+  cumulativeCost: number;
+};
+
+export type ChatDiagnosticsSummary = {
+  turns: ChatDiagnosticsTurn[];
+  unmatchedLlmCalls: ILlmCallLog[];
+  totalCost: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatency: number | null;
+  slowestTurn: ChatDiagnosticsTurn | null;
+};
+
+function toTime(value: string) {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function toDuration(value: number) {
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function getStartTime(createdAt: string, latency: number) {
+  return toTime(createdAt) - toDuration(latency);
+}
+
+function findTurnIndex(turnStarts: number[], time: number) {
+  let result = -1;
+  for (let index = 0; index < turnStarts.length; index += 1) {
+    if (turnStarts[index] > time) break;
+    result = index;
+  }
+  return Math.max(result, 0);
+}
+
+function buildImageSpans(
+  image: IImageGenLog,
+  imageIndex: number,
+  turnStart: number,
+): ChatDiagnosticsSpan[] {
+  const label = `Image ${imageIndex + 1}`;
+  const start = Math.max(
+    getStartTime(image.createdAt, image.totalLatency) - turnStart,
+    0,
+  );
+  const prompt = toDuration(image.promptLatency);
+  const generation = toDuration(image.generationLatency);
+  const upload = toDuration(image.uploadLatency);
+
+  return [
+    {
+      key: `${image.id}-prompt`,
+      kind: 'image-prompt' as const,
+      label: `${label} prompt`,
+      start,
+      duration: prompt,
+    },
+    {
+      key: `${image.id}-generation`,
+      kind: 'image-generation' as const,
+      label: `${label} generation`,
+      start: start + prompt,
+      duration: generation,
+    },
+    {
+      key: `${image.id}-upload`,
+      kind: 'image-upload' as const,
+      label: `${label} upload`,
+      start: start + prompt + generation,
+      duration: upload,
+    },
+  ].filter((span) => span.duration > 0);
+}
+
+export function buildChatDiagnostics({
+  responses,
+  llmCalls,
+  imageGens,
+}: IChatDiagnostics): ChatDiagnosticsSummary {
+  const sortedResponses = [...responses].sort(
+    (a, b) =>
+      getStartTime(a.createdAt, a.totalLatency) -
+      getStartTime(b.createdAt, b.totalLatency),
+  );
+  const turnStarts = sortedResponses.map((response) =>
+    getStartTime(response.createdAt, response.totalLatency),
+  );
+  const llmCallsByTurn = sortedResponses.map(() => [] as ILlmCallLog[]);
+  const imageGensByTurn = sortedResponses.map(() => [] as IImageGenLog[]);
+  const unmatchedLlmCalls: ILlmCallLog[] = [];
+
+  for (const call of llmCalls) {
+    if (sortedResponses.length === 0) {
+      unmatchedLlmCalls.push(call);
+      continue;
+    }
+    llmCallsByTurn[findTurnIndex(turnStarts, toTime(call.createdAt))].push(
+      call,
+    );
+  }
+  for (const image of imageGens) {
+    if (sortedResponses.length === 0) continue;
+    imageGensByTurn[
+      findTurnIndex(
+        turnStarts,
+        getStartTime(image.createdAt, image.totalLatency),
+      )
+    ].push(image);
+  }
+
+  let cumulativeCost = 0;
+  const turns = sortedResponses.map((response, index) => {
+    const turnStart = turnStarts[index];
+    const router = toDuration(response.toolRouterLatency);
+    const text = toDuration(response.textGenerationLatency);
+    const spans: ChatDiagnosticsSpan[] = [
+      {
+        key: `${response.id}-router`,
+        kind: 'router' as const,
+        label: 'Tool router',
+        start: 0,
+        duration: router,
+      },
+      {
+        key: `${response.id}-text`,
+        kind: 'text' as const,
+        label: 'Text generation',
+        start: router,
+        duration: text,
+      },
+      ...imageGensByTurn[index].flatMap((image, imageIndex) =>
+        buildImageSpans(image, imageIndex, turnStart),
+      ),
+    ];
+    const cost = llmCallsByTurn[index].reduce(
+      (sum, call) => sum + (Number.isFinite(call.price) ? call.price : 0),
+      0,
+    );
+    cumulativeCost += cost;
+
+    return {
+      index: index + 1,
+      response,
+      llmCalls: llmCallsByTurn[index],
+      imageGens: imageGensByTurn[index],
+      spans,
+      duration: Math.max(
+        toDuration(response.totalLatency),
+        ...spans.map((span) => span.start + span.duration),
+      ),
+      cost,
+      cumulativeCost,
+    };
+  });
+
+  const unmatchedCost = unmatchedLlmCalls.reduce(
+    (sum, call) => sum + (Number.isFinite(call.price) ? call.price : 0),
+    0,
+  );
+  const latencies = sortedResponses
+    .map((response) => toDuration(response.totalLatency))
+    .filter((latency) => latency > 0);
+
+  return {
+    turns,
+    unmatchedLlmCalls,
+    totalCost: cumulativeCost + unmatchedCost,
+    inputTokens: llmCalls.reduce(
+      (sum, call) => sum + toDuration(call.inputTokens),
+      0,
+    ),
+    outputTokens: llmCalls.reduce(
+      (sum, call) => sum + toDuration(call.outputTokens),
+      0,
+    ),
+    averageLatency:
+      latencies.length > 0
+        ? latencies.reduce((sum, latency) => sum + latency, 0) /
+          latencies.length
+        : null,
+    slowestTurn: turns.reduce<ChatDiagnosticsTurn | null>(
+      (slowest, turn) =>
+        !slowest || turn.duration > slowest.duration ? turn : slowest,
+      null,
+    ),
+  };
+}
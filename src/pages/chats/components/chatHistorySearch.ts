@@ -0,0 +1,51 @@
+import {
+  type ChatSearchRole,
+  type HistoryItem,
+  HistoryItemType,
+  type IChatMessage,
+} from '@/common/types';
+import { hasTextMatch, parseChatLlmResponse } from '@/common/utils';
+
+function getHistoryItemRole(item: HistoryItem): ChatSearchRole | null {
+  if (item.type === HistoryItemType.Human) return 'user';
+  if (item.type === HistoryItemType.Ai) return 'ai';
+  return null;
+}
+
+function getMessageRole(message: IChatMessage): ChatSearchRole | null {
+  if (message.role === 'user') return 'user';
+  if (message.role === 'assistant') return 'ai';
+  return null;
+}
+
+function getHistoryItemText(item: HistoryItem) {
+  if (!item.content) return '';
+  if (item.type === HistoryItemType.Ai) {
+    return parseChatLlmResponse(item.content)?.text ?? item.content;
+  }
+  return item.content;
+}
+
+export function findHistoryItemMatches(
+  items: HistoryItem[],
+  query: string,
+  role?: ChatSearchRole,
+) {
+  return items.flatMap((item, index) => {
+    const itemRole = getHistoryItemRole(item);
+    if (!itemRole || (role && itemRole !== role)) return [];
+    return hasTextMatch(getHistoryItemText(item), query) ? [index] : [];
+  });
+}
+
+export function findMessageMatches(
+  messages: IChatMessage[],
+  query: string,
+  role?: ChatSearchRole,
+) {
+  return messages.flatMap((message, index) => {
+    const messageRole = getMessageRole(message);
+    if (!messageRole || (role && messageRole !== role)) return [];
+    return hasTextMatch(message.content, query) ? [index] : [];
+  });
+}
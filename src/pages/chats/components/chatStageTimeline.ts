@@ -0,0 +1,165 @@
+import {
+  type HistoryItem,
+  HistoryItemEventType,
+  HistoryItemType,
+  RoleplayStage,
+  STAGES_IN_ORDER,
+} from '@/common/types';
+
+export const STAGE_TIMELINE_EVENTS = [
+  HistoryItemEventType.StageChanged,
+  HistoryItemEventType.TurnedCold,
+  HistoryItemEventType.SubscriptionRequested,
+  HistoryItemEventType.GiftBought,
+  HistoryItemEventType.ShowedPhoto,
+] as const;
+
+export type ChatStageTimelineEventType = (typeof STAGE_TIMELINE_EVENTS)[number];
+
+export type ChatStageTimelineMarker = {
+  itemIndex: number;
+  event: ChatStageTimelineEventType;
+  stage: RoleplayStage;
+  createdAt: Date | string;
+  position: number;
+};
+
+export type ChatStageTimelineSegment = {
+  stage: RoleplayStage;
+  reached: boolean;
+  isCurrent: boolean;
+  messages: number;
+  enteredAt: Date | string | null;
+  firstItemIndex: number | null;
+  markers: ChatStageTimelineMarker[];
+};
+
+export type ChatStageTimeline = {
+  segments: ChatStageTimelineSegment[];
+  dropOff: {
+    stage: RoleplayStage;
+    itemIndex: number;
+    turnedCold: boolean;
+  } | null;
+  totalMessages: number;
+};
+
+const timelineEvents = new Set<HistoryItemEventType>(STAGE_TIMELINE_EVENTS);
+
+function findStageInText(value: string | undefined) {
+  if (!value) return null;
+  const upper = value.toUpperCase();
+  let match: { stage: RoleplayStage; position: number } | null = null;
+  for (const stage of STAGES_IN_ORDER) {
+    const position = upper.lastIndexOf(stage);
+    if (position >= 0 && (!match || position > match.position)) {
+      match = { stage, position };
+    }
+  }
+  return match?.stage ?? null;
+}
+
+function isMessage(item: HistoryItem) {
+  return (
+    item.type === HistoryItemType.Human || item.type === HistoryItemType.Ai
+  );
+}
+
+export function buildChatStageTimeline(
+  items: HistoryItem[],
+  currentStage: RoleplayStage,
+): ChatStageTimeline {
+  const stageChanges = items.filter(
+    (item) =>
+      item.type === HistoryItemType.Event &&
+      item.event === HistoryItemEventType.StageChanged,
+  ).length;
+  const currentIndex = Math.max(STAGES_IN_ORDER.indexOf(currentStage), 0);
+  let stageIndex = Math.max(currentIndex - stageChanges, 0);
+
+  const segments: ChatStageTimelineSegment[] = STAGES_IN_ORDER.map((stage) => ({
+    stage,
+    reached: false,
+    isCurrent: stage === currentStage,
+    messages: 0,
+    enteredAt: null,
+    firstItemIndex: null,
+    markers: [],
+  }));
+  const itemStages: number[] = [];
+  const itemOffsets: number[] = [];
+  const stageItemCounts = STAGES_IN_ORDER.map(() => 0);
+
+  const enterStage = (index: number, itemIndex: number, at: Date | string) => {
+    const segment = segments[index];
+    if (segment.reached) return;
+    segment.reached = true;
+    segment.enteredAt = at;
+    segment.firstItemIndex = itemIndex;
+  };
+
+  items.forEach((item, itemIndex) => {
+    if (itemIndex === 0) enterStage(stageIndex, itemIndex, item.createdAt);
+
+    if (
+      item.type === HistoryItemType.Event &&
+      item.event === HistoryItemEventType.StageChanged
+    ) {
+      const parsed =
+        findStageInText(item.content) ?? findStageInText(item.instruction);
+      stageIndex = parsed
+        ? STAGES_IN_ORDER.indexOf(parsed)
+        : Math.min(stageIndex + 1, STAGES_IN_ORDER.length - 1);
+      enterStage(stageIndex, itemIndex, item.createdAt);
+    }
+
+    if (isMessage(item)) {
+      segments[stageIndex].messages += 1;
+    }
+    itemStages.push(stageIndex);
+    itemOffsets.push(stageItemCounts[stageIndex]);
+    stageItemCounts[stageIndex] += 1;
+  });
+
+  if (items.length > 0) {
+    segments[currentIndex].reached = true;
+  }
+
+  items.forEach((item, itemIndex) => {
+    if (item.type !== HistoryItemType.Event) return;
+    if (!timelineEvents.has(item.event)) return;
+    const markerStage = itemStages[itemIndex];
+    const segment = segments[markerStage];
+    const stageItemCount = stageItemCounts[markerStage];
+    segment.markers.push({
+      itemIndex,
+      event: item.event as ChatStageTimelineEventType,
+      stage: segment.stage,
+      createdAt: item.createdAt,
+      position:
+        stageItemCount > 1 ? itemOffsets[itemIndex] / (stageItemCount - 1) : 0,
+    });
+  });
+
+  const lastIndex = items.length - 1;
+  const lastStage = itemStages[lastIndex] ?? currentIndex;
+  const isFinished = lastStage === STAGES_IN_ORDER.length - 1;
+  const turnedCold = items.some(
+    (item) =>
+      item.type === HistoryItemType.Event &&
+      item.event === HistoryItemEventType.TurnedCold,
+  );
+
+  return {
+    segments,
+    dropOff:
+      lastIndex >= 0 && !isFinished
+        ? {
+            stage: STAGES_IN_ORDER[lastStage],
+            itemIndex: lastIndex,
+            turnedCold,
+          }
+        : null,
+    totalMessages: segments.reduce((sum, segment) => sum + segment.messages, 0),
+  };
+}
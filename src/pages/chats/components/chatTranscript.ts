@@ -0,0 +1,388 @@
+import {
+  type ChatLlmResponse,
+  type HistoryItem,
+  HistoryItemEventType,
+  HistoryItemType,
+  type IChatDetails,
+  type IChatMessage,
+  type RoleplayStage,
+} from '@/common/types';
+import {
+  type ChatLlmPhoto,
+  formatPose,
+  formatRoleplayStage,
+  parseChatLlmPhoto,
+  parseChatLlmResponse,
+} from '@/common/utils';
+
+export type ChatTranscriptFormat = 'markdown' | 'json' | 'html';
+
+export type ChatTranscriptOptions = {
+  format: ChatTranscriptFormat;
+  includeAnnotations: boolean;
+};
+
+type TranscriptSpeaker = 'user' | 'assistant' | 'system' | 'tool' | 'event';
+
+type TranscriptAnnotations = {
+  subscription?: boolean;
+  gift?: boolean;
+  nextStage?: boolean;
+  photo?: ChatLlmPhoto;
+};
+
+type TranscriptEntry = {
+  speaker: TranscriptSpeaker;
+  event?: HistoryItemEventType;
+  createdAt: string | null;
+  text: string;
+  instruction?: string;
+  annotations?: TranscriptAnnotations;
+};
+
+type TranscriptChat = {
+  id: string;
+  user: {
+    id: string;
+    name: string;
+    username: string | null;
+  };
+  character: { id: string; name: string } | null;
+  scenario: { id: string; name: string } | null;
+  stage: RoleplayStage;
+  createdAt: string;
+  updatedAt: string;
+  entries: TranscriptEntry[];
+};
+
+const FORMAT_CONFIG: Record<
+  ChatTranscriptFormat,
+  { extension: string; mimeType: string }
+> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+};
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  user: 'User',
+  assistant: 'AI',
+  system: 'System',
+  tool: 'Tool',
+  event: 'Event',
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat('en-GB', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function toIsoString(value: Date | string | null | undefined) {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function formatDate(value: string | null) {
+  return value ? dateTimeFormatter.format(new Date(value)) : '';
+}
+
+function formatEventLabel(event: HistoryItemEventType) {
+  return event
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+function toAnnotations(response: ChatLlmResponse): TranscriptAnnotations {
+  return {
+    subscription: response.subscription || undefined,
+    gift: response.gift || undefined,
+    nextStage: response.next_stage || undefined,
+    photo: response.photo,
+  };
+}
+
+function hasAnnotations(annotations: TranscriptAnnotations | undefined) {
+  return Boolean(
+    annotations &&
+    (annotations.subscription ||
+      annotations.gift ||
+      annotations.nextStage ||
+      annotations.photo),
+  );
+}
+
+function toAssistantEntry(
+  content: string,
+  createdAt: string | null,
+  includeAnnotations: boolean,
+): TranscriptEntry {
+  const response = parseChatLlmResponse(content);
+  if (!response) {
+    return { speaker: 'assistant', createdAt, text: content };
+  }
+  return {
+    speaker: 'assistant',
+    createdAt,
+    text: response.text,
+    annotations: includeAnnotations ? toAnnotations(response) : undefined,
+  };
+}
+
+function toHistoryItemEntry(
+  item: HistoryItem,
+  includeAnnotations: boolean,
+): TranscriptEntry {
+  const createdAt = toIsoString(item.createdAt);
+
+  if (item.type === HistoryItemType.Human) {
+    return { speaker: 'user', createdAt, text: item.content };
+  }
+  if (item.type === HistoryItemType.Ai) {
+    return toAssistantEntry(item.content, createdAt, includeAnnotations);
+  }
+
+  const photo =
+    item.event === HistoryItemEventType.ShowedPhoto && item.content
+      ? parseChatLlmPhoto(item.content)
+      : null;
+  return {
+    speaker: 'event',
+    event: item.event,
+    createdAt,
+    text: photo ? '' : (item.content ?? ''),
+    instruction: item.instruction,
+    annotations: photo && includeAnnotations ? { photo } : undefined,
+  };
+}
+
+function toMessageEntry(
+  message: IChatMessage,
+  includeAnnotations: boolean,
+): TranscriptEntry {
+  if (message.role === 'assistant') {
+    return toAssistantEntry(message.content, null, includeAnnotations);
+  }
+  return { speaker: message.role, createdAt: null, text: message.content };
+}
+
+function toTranscriptChat(
+  chat: IChatDetails,
+  includeAnnotations: boolean,
+): TranscriptChat {
+  const historyItems = chat.historyItems ?? [];
+  const entries =
+    historyItems.length > 1
+      ? historyItems.map((item) => toHistoryItemEntry(item, includeAnnotations))
+      : (chat.history ?? []).map((message) =>
+          toMessageEntry(message, includeAnnotations),
+        );
+  const fullName =
+    `${chat.user.firstName ?? ''} ${chat.user.lastName ?? ''}`.trim();
+
+  return {
+    id: chat.id,
+    user: {
+      id: chat.user.id,
+      name: fullName || chat.user.username || chat.user.id,
+      username: chat.user.username ?? null,
+    },
+    character: chat.character
+      ? { id: chat.character.id, name: chat.character.name }
+      : null,
+    scenario: chat.scenario
+      ? { id: chat.scenario.id, name: chat.scenario.name }
+      : null,
+    stage: chat.stage,
+    createdAt: chat.createdAt,
+    updatedAt: chat.updatedAt,
+    entries,
+  };
+}
+
+function describePhoto(photo: ChatLlmPhoto) {
+  return [
+    photo.pose ? `pose: ${formatPose(photo.pose)}` : null,
+    photo.anal ? 'anal' : null,
+    photo.clothes?.length ? `clothes: ${photo.clothes.join(', ')}` : null,
+    photo.environment?.length
+      ? `environment: ${photo.environment.join(', ')}`
+      : null,
+    photo.face_expression ? `face: ${photo.face_expression}` : null,
+    photo.action ? `action: ${photo.action}` : null,
+  ]
+    .filter(Boolean)
+    .join('; ');
+}
+
+function describeAnnotations(annotations: TranscriptAnnotations) {
+  return [
+    annotations.subscription ? 'subscription offer' : null,
+    annotations.gift ? 'gift request' : null,
+    annotations.nextStage ? 'next stage' : null,
+    annotations.photo ? `photo (${describePhoto(annotations.photo)})` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function getEntryTitle(entry: TranscriptEntry) {
+  return entry.speaker === 'event' && entry.event
+    ? `Event: ${formatEventLabel(entry.event)}`
+    : SPEAKER_LABELS[entry.speaker];
+}
+
+function getChatTitle(chat: TranscriptChat) {
+  return `${chat.character?.name ?? 'Chat'} × ${chat.user.name}`;
+}
+
+function getChatFacts(chat: TranscriptChat): Array<[string, string]> {
+  return [
+    ['Chat ID', chat.id],
+    [
+      'User',
+      chat.user.username
+        ? `${chat.user.name} (@${chat.user.username}, ${chat.user.id})`
+        : `${chat.user.name} (${chat.user.id})`,
+    ],
+    ['Character', chat.character?.name ?? '-'],
+    ['Scenario', chat.scenario?.name ?? '-'],
+    ['Stage', formatRoleplayStage(chat.stage)],
+    ['Started', formatDate(toIsoString(chat.createdAt))],
+    ['Last activity', formatDate(toIsoString(chat.updatedAt))],
+  ];
+}
+
+function buildMarkdown(chats: TranscriptChat[]) {
+  return chats
+    .map((chat) => {
+      const lines = [`# ${getChatTitle(chat)}`, ''];
+      for (const [label, value] of getChatFacts(chat)) {
+        lines.push(`- **${label}:** ${value}`);
+      }
+      lines.push('', '## Transcript', '');
+
+      for (const entry of chat.entries) {
+        const date = formatDate(entry.createdAt);
+        lines.push(`**${getEntryTitle(entry)}**${date ? ` · ${date}` : ''}`);
+        if (entry.text) {
+          lines.push('', entry.text);
+        }
+        if (entry.instruction) {
+          lines.push('', `> ${entry.instruction.split('\n').join('\n> ')}`);
+        }
+        if (entry.annotations && hasAnnotations(entry.annotations)) {
+          lines.push('', `_${describeAnnotations(entry.annotations)}_`);
+        }
+        lines.push('');
+      }
+      return lines.join('\n');
+    })
+    .join('\n---\n\n');
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+body { margin: 0; padding: 32px 16px; background: #f6f6f8; color: #1d1d24; font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+article { max-width: 760px; margin: 0 auto 48px; }
+h1 { font-size: 22px; margin: 0 0 12px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0 0 24px; font-size: 13px; }
+dt { color: #6b6b7b; }
+dd { margin: 0; }
+.entry { margin: 0 0 12px; padding: 10px 14px; border-radius: 12px; background: #fff; border: 1px solid #e4e4ea; }
+.entry.user { margin-left: 15%; background: #e8f0ff; border-color: #d2e0ff; }
+.entry.assistant { margin-right: 15%; }
+.entry.event, .entry.system, .entry.tool { background: #fff8e6; border-color: #f3e2b3; font-size: 13px; }
+.meta { display: flex; gap: 8px; margin-bottom: 4px; font-size: 12px; color: #6b6b7b; }
+.meta strong { color: #1d1d24; }
+.text { white-space: pre-wrap; word-break: break-word; }
+.instruction { margin-top: 6px; padding-left: 10px; border-left: 3px solid #f3e2b3; white-space: pre-wrap; color: #6b6b7b; }
+.annotations { margin-top: 6px; font-size: 12px; color: #5b5bd6; }
+`;
+
+function buildHtml(chats: TranscriptChat[]) {
+  const articles = chats.map((chat) => {
+    const facts = getChatFacts(chat)
+      .map(
+        ([label, value]) =>
+          `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`,
+      )
+      .join('');
+    const entries = chat.entries
+      .map((entry) => {
+        const date = formatDate(entry.createdAt);
+        const parts = [
+          `<div class="meta"><strong>${escapeHtml(getEntryTitle(entry))}</strong>${date ? `<span>${escapeHtml(date)}</span>` : ''}</div>`,
+        ];
+        if (entry.text) {
+          parts.push(`<div class="text">${escapeHtml(entry.text)}</div>`);
+        }
+        if (entry.instruction) {
+          parts.push(
+            `<div class="instruction">${escapeHtml(entry.instruction)}</div>`,
+          );
+        }
+        if (entry.annotations && hasAnnotations(entry.annotations)) {
+          parts.push(
+            `<div class="annotations">${escapeHtml(describeAnnotations(entry.annotations))}</div>`,
+          );
+        }
+        return `<div class="entry ${entry.speaker}">${parts.join('')}</div>`;
+      })
+      .join('\n');
+    return `<article><h1>${escapeHtml(getChatTitle(chat))}</h1><dl>${facts}</dl>\n${entries}\n</article>`;
+  });
+
+  const title =
+    chats.length === 1 ? getChatTitle(chats[0]) : `${chats.length} chats`;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${articles.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function buildChatTranscript(
+  chats: IChatDetails[],
+  { format, includeAnnotations }: ChatTranscriptOptions,
+) {
+  const transcriptChats = chats.map((chat) =>
+    toTranscriptChat(chat, includeAnnotations),
+  );
+  const { extension, mimeType } = FORMAT_CONFIG[format];
+  const content =
+    format === 'json'
+      ? JSON.stringify(
+          { exportedAt: new Date().toISOString(), chats: transcriptChats },
+          null,
+          2,
+        )
+      : format === 'html'
+        ? buildHtml(transcriptChats)
+        : buildMarkdown(transcriptChats);
+  const fileName =
+    chats.length === 1
+      ? `chat-${chats[0].id}.${extension}`
+      : `chats-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  return {
+    blob: new Blob([content], { type: mimeType }),
+    fileName,
+  };
+}
@@ -0,0 +1,451 @@
+import { type ReactNode, useCallback, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+import { formatCount } from '@/app/analytics';
+import { useConversions } from '@/app/conversions';
+import {
+  Alert,
+  Button,
+  Container,
+  EmptyState,
+  Grid,
+  Section,
+  Select,
+  Skeleton,
+  Table,
+  Typography,
+} from '@/atoms';
+import {
+  CharacterType,
+  type ConversionScenarioMetadata,
+  type IConversions,
+} from '@/common/types';
+import { cn, formatCharacterType } from '@/common/utils';
+import { AppShell } from '@/components/templates';
+
+import { FunnelPanel } from './components/FunnelPanel';
+import {
+  aggregateConversions,
+  aggregateConversionsByScenario,
+  buildFunnel,
+  DEFAULT_FUNNEL_STEPS,
+  findLargestDropOff,
+  formatFunnelPercent,
+  type FunnelConfig,
+  isFunnelPaywall,
+  parseFunnelSteps,
+  serializeFunnelSteps,
+} from './conversionFunnel';
+import s from './ConversionFunnelsPage.module.scss';
+
+const MIN_START_DATE = '2026-06-17';
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COMPARE_PARAM = 'compare';
+const SCENARIO_TABLE_MIN_WIDTH = 960;
+
+type FunnelKey = 'a' | 'b';
+
+const FUNNEL_TITLES: Record<FunnelKey, string> = {
+  a: 'Funnel A',
+  b: 'Funnel B',
+};
+
+const FUNNEL_OPTIONS = [
+  { value: 'a', label: FUNNEL_TITLES.a },
+  { value: 'b', label: FUNNEL_TITLES.b },
+];
+
+function toUtcDateId(date: Date) {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function parseUtcDateId(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function isValidDateId(value: string | null | undefined): value is string {
+  if (!value || !ISO_DATE_PATTERN.test(value)) return false;
+  const parsed = parseUtcDateId(value);
+  return toUtcDateId(parsed) === value;
+}
+
+function addDaysToDateId(value: string, delta: number) {
+  const date = parseUtcDateId(value);
+  date.setUTCDate(date.getUTCDate() + delta);
+  return toUtcDateId(date);
+}
+
+function clampDateId(value: string, min: string, max: string) {
+  if (value < min) return min;
+  if (value > max) return max;
+  return value;
+}
+
+function normalizeDateRange(
+  rawStart: string | null,
+  rawEnd: string | null,
+  maxDate: string,
+) {
+  let start = isValidDateId(rawStart) ? rawStart : MIN_START_DATE;
+  let end = isValidDateId(rawEnd) ? rawEnd : maxDate;
+
+  start = clampDateId(start, MIN_START_DATE, maxDate);
+  end = clampDateId(end, MIN_START_DATE, maxDate);
+
+  if (start > end) {
+    const temp = start;
+    start = end;
+    end = temp;
+  }
+
+  return { start, end };
+}
+
+function isCharacterType(value: string | null): value is CharacterType {
+  return Object.values(CharacterType).includes(value as CharacterType);
+}
+
+function readFunnelConfig(
+  params: URLSearchParams,
+  key: FunnelKey,
+  maxDate: string,
+): FunnelConfig {
+  const get = (name: string) => params.get(`${key}.${name}`);
+
+  const paywall = get('paywall');
+  const characterType = get('type');
+  const { start, end } = normalizeDateRange(get('start'), get('end'), maxDate);
+
+  return {
+    steps: parseFunnelSteps(get('steps')) ?? DEFAULT_FUNNEL_STEPS,
+    paywall: isFunnelPaywall(paywall) ? paywall : 'subscription',
+    scenarioId: get('scenario') || null,
+    characterType: isCharacterType(characterType) ? characterType : null,
+    start,
+    end,
+  };
+}
+
+function writeFunnelConfig(
+  params: URLSearchParams,
+  key: FunnelKey,
+  patch: Partial<FunnelConfig>,
+) {
+  const set = (name: string, value: string | null | undefined) => {
+    if (value === undefined) return;
+    if (value) {
+      params.set(`${key}.${name}`, value);
+    } else {
+      params.delete(`${key}.${name}`);
+    }
+  };
+
+  set('steps', patch.steps ? serializeFunnelSteps(patch.steps) : undefined);
+  set('paywall', patch.paywall);
+  set('scenario', patch.scenarioId);
+  set('type', patch.characterType);
+  set('start', patch.start?.trim());
+  set('end', patch.end?.trim());
+}
+
+function buildScenarioLabel(
+  scenarioId: string,
+  metadata?: ConversionScenarioMetadata,
+) {
+  if (!metadata) return scenarioId;
+
+  const characterName = metadata.character.name.trim();
+  const scenarioName = metadata.name.trim();
+
+  if (!characterName || !scenarioName) {
+    return scenarioId;
+  }
+
+  return `${characterName} - ${scenarioName} (${formatCharacterType(metadata.character.type)})`;
+}
+
+function buildScenarioOptions(
+  data: IConversions | undefined,
+  characterType: CharacterType | null,
+) {
+  return (data?.scenarios ?? [])
+    .filter(
+      (scenario) => !characterType || scenario.character.type === characterType,
+    )
+    .map((scenario) => ({
+      value: scenario.id,
+      label: buildScenarioLabel(scenario.id, scenario),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function useFunnel(config: FunnelConfig, enabled: boolean) {
+  const query = useMemo(
+    () => ({ start: config.start, end: config.end }),
+    [config.end, config.start],
+  );
+  const { data, error, isLoading } = useConversions(query, enabled);
+
+  const results = useMemo(
+    () =>
+      buildFunnel(
+        aggregateConversions(data, config),
+        config.steps,
+        config.paywall,
+      ),
+    [config, data],
+  );
+  const scenarioOptions = useMemo(
+    () => buildScenarioOptions(data, config.characterType),
+    [config.characterType, data],
+  );
+
+  return { data, error, isLoading, results, scenarioOptions };
+}
+
+export function ConversionFunnelsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [breakdownKey, setBreakdownKey] = useState<FunnelKey>('a');
+
+  const maxSelectableDate = useMemo(() => {
+    const yesterday = addDaysToDateId(toUtcDateId(new Date()), -1);
+    return yesterday < MIN_START_DATE ? MIN_START_DATE : yesterday;
+  }, []);
+
+  const isComparing = searchParams.get(COMPARE_PARAM) === '1';
+  const configA = useMemo(
+    () => readFunnelConfig(searchParams, 'a', maxSelectableDate),
+    [maxSelectableDate, searchParams],
+  );
+  const configB = useMemo(
+    () => readFunnelConfig(searchParams, 'b', maxSelectableDate),
+    [maxSelectableDate, searchParams],
+  );
+
+  const funnelA = useFunnel(configA, true);
+  const funnelB = useFunnel(configB, isComparing);
+
+  const updateFunnel = useCallback(
+    (key: FunnelKey, patch: Partial<FunnelConfig>) => {
+      const next = new URLSearchParams(searchParams);
+      writeFunnelConfig(next, key, patch);
+      setSearchParams(next);
+    },
+    [searchParams, setSearchParams],
+  );
+
+  const startComparing = () => {
+    const next = new URLSearchParams(searchParams);
+    next.set(COMPARE_PARAM, '1');
+    writeFunnelConfig(next, 'b', configA);
+    setSearchParams(next);
+  };
+
+  const stopComparing = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete(COMPARE_PARAM);
+    [...next.keys()]
+      .filter((name) => name.startsWith('b.'))
+      .forEach((name) => next.delete(name));
+    setSearchParams(next);
+    setBreakdownKey('a');
+  };
+
+  const activeBreakdownKey = isComparing ? breakdownKey : 'a';
+  const breakdownConfig = activeBreakdownKey === 'a' ? configA : configB;
+  const breakdownFunnel = activeBreakdownKey === 'a' ? funnelA : funnelB;
+
+  const scenarioFunnels = useMemo(() => {
+    const metadataById = new Map(
+      (breakdownFunnel.data?.scenarios ?? []).map((scenario) => [
+        scenario.id,
+        scenario,
+      ]),
+    );
+    const byScenario = aggregateConversionsByScenario(breakdownFunnel.data, {
+      scenarioId: null,
+      characterType: breakdownConfig.characterType,
+    });
+
+    return [...byScenario.entries()]
+      .map(([id, stats]) => {
+        const results = buildFunnel(
+          stats,
+          breakdownConfig.steps,
+          breakdownConfig.paywall,
+        );
+        return {
+          id,
+          label: buildScenarioLabel(id, metadataById.get(id)),
+          results,
+          worst: findLargestDropOff(results),
+        };
+      })
+      .filter((item) => (item.results[0]?.count ?? 0) > 0)
+      .sort((a, b) => b.results[0].count - a.results[0].count);
+  }, [breakdownConfig, breakdownFunnel.data]);
+
+  const breakdownSteps = breakdownFunnel.results;
+
+  const scenarioColumns = useMemo(
+    () => [
+      { key: 'scenario', label: 'Scenario' },
+      ...breakdownSteps.map((step) => ({ key: step.id, label: step.label })),
+      { key: 'overall', label: 'Overall' },
+      { key: 'worst', label: 'Biggest drop' },
+    ],
+    [breakdownSteps],
+  );
+
+  const scenarioRows = scenarioFunnels.map((item) => {
+    const row: Record<string, ReactNode> = {
+      scenario: (
+        <div className={s.tableCell}>
+          <Typography variant="body">{item.label}</Typography>
+          {breakdownConfig.scenarioId === item.id ? (
+            <Typography variant="caption" tone="accent">
+              Selected in {FUNNEL_TITLES[activeBreakdownKey]}
+            </Typography>
+          ) : null}
+        </div>
+      ),
+      overall: formatFunnelPercent(
+        item.results[item.results.length - 1]?.fromFirst ?? null,
+      ),
+      worst: item.worst ? (
+        <div className={s.tableCell}>
+          <Typography variant="body" tone="danger">
+            {item.worst.label}
+          </Typography>
+          <Typography variant="caption" tone="muted">
+            {formatFunnelPercent(item.worst.dropOffRate)} lost
+          </Typography>
+        </div>
+      ) : (
+        '—'
+      ),
+    };
+
+    item.results.forEach((step, index) => {
+      row[step.id] = (
+        <div
+          className={cn(s.tableCell, [], {
+            [s.worstCell]: step === item.worst,
+          })}
+        >
+          <Typography variant="body">
+            {index === 0
+              ? formatCount(step.count)
+              : formatFunnelPercent(step.fromPrevious)}
+          </Typography>
+          {index > 0 ? (
+            <Typography variant="caption" tone="muted">
+              {formatCount(step.count)} · −{formatCount(step.dropOff)}
+            </Typography>
+          ) : null}
+        </div>
+      );
+    });
+
+    return row;
+  });
+
+  return (
+    <AppShell>
+      <Container className={s.page} size="wide">
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Conversion funnels</Typography>
+            <Typography variant="body" tone="muted">
+              Pick steps and a segment to see where chats drop off. UTC dates,
+              not earlier than June 17, 2026.
+            </Typography>
+          </div>
+          <div className={s.headerActions}>
+            <Button as={Link} to="/conversions" variant="ghost" size="sm">
+              Back to conversions
+            </Button>
+            {isComparing ? null : (
+              <Button variant="secondary" size="sm" onClick={startComparing}>
+                Compare with another funnel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Grid columns={isComparing ? 2 : 1} gap={4} className={s.funnels}>
+          <FunnelPanel
+            title={FUNNEL_TITLES.a}
+            config={configA}
+            minDate={MIN_START_DATE}
+            maxDate={maxSelectableDate}
+            scenarioOptions={funnelA.scenarioOptions}
+            results={funnelA.results}
+            isLoading={funnelA.isLoading && !funnelA.data}
+            error={funnelA.error}
+            onChange={(patch) => updateFunnel('a', patch)}
+          />
+          {isComparing ? (
+            <FunnelPanel
+              title={FUNNEL_TITLES.b}
+              config={configB}
+              minDate={MIN_START_DATE}
+              maxDate={maxSelectableDate}
+              scenarioOptions={funnelB.scenarioOptions}
+              results={funnelB.results}
+              isLoading={funnelB.isLoading && !funnelB.data}
+              error={funnelB.error}
+              actions={
+                <Button variant="ghost" size="sm" onClick={stopComparing}>
+                  Remove
+                </Button>
+              }
+              onChange={(patch) => updateFunnel('b', patch)}
+            />
+          ) : null}
+        </Grid>
+
+        <Section
+          title="Drop-off by scenario"
+          description="Step conversion from the previous step for every scenario in the segment. The step losing the largest share of chats is highlighted."
+          actions={
+            isComparing ? (
+              <Select
+                size="sm"
+                options={FUNNEL_OPTIONS}
+                value={activeBreakdownKey}
+                onChange={(value) => setBreakdownKey(value as FunnelKey)}
+              />
+            ) : null
+          }
+        >
+          {breakdownFunnel.error ? (
+            <Alert
+              tone="warning"
+              title="Unable to load scenarios"
+              description="Fix the funnel filters above and try again."
+            />
+          ) : breakdownFunnel.isLoading && !breakdownFunnel.data ? (
+            <Skeleton height={240} />
+          ) : scenarioRows.length === 0 ? (
+            <EmptyState
+              title="No scenarios in this segment"
+              description="Widen the date range or clear the character type."
+            />
+          ) : (
+            <Table
+              columns={scenarioColumns}
+              rows={scenarioRows}
+              scrollable
+              minWidth={SCENARIO_TABLE_MIN_WIDTH}
+            />
+          )}
+        </Section>
+      </Container>
+    </AppShell>
+  );
+}
@@ -6,9 +6,9 @@ import {
   XYChart,
 } from '@visx/xychart';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 
-import { formatCount } from '@/app/analytics';
+import { formatCount, useAnalyticsAnnotations } from '@/app/analytics';
 import { useConversions } from '@/app/conversions';
 import {
   Alert,
@@ -38,6 +38,12 @@ import {
 } from '@/common/types';
 import { formatCharacterType, formatRoleplayStage } from '@/common/utils';
 import { AppShell } from '@/components/templates';
+import { groupAnnotationsByDay } from '@/pages/analytics/components/annotations';
+import { AnnotationsSection } from '@/pages/analytics/components/AnnotationsSection';
+import {
+  ChartAnnotationMarkers,
+  ChartAnnotationsTooltip,
+} from '@/pages/analytics/components/ChartAnnotations';
 
 import s from './ConversionsPage.module.scss';
 
@@ -768,6 +774,14 @@ export function ConversionsPage() {
   const isRangeValid = isValidDateId(start) && isValidDateId(end);
 
   const { data, error, isLoading } = useConversions(query, isRangeValid);
+  const { data: annotations } = useAnalyticsAnnotations(
+    { from: start, to: end },
+    { enabled: isRangeValid },
+  );
+  const annotationsByDay = useMemo(
+    () => groupAnnotationsByDay(annotations),
+    [annotations],
+  );
   const errorDescription =
     error instanceof Error && error.message
       ? error.message
@@ -1202,6 +1216,14 @@ export function ConversionsPage() {
       <Container className={s.page} size="wide">
         <div className={s.header}>
           <Typography variant="h2">Conversions</Typography>
+          <Button
+            as={Link}
+            to="/conversions/funnels"
+            variant="secondary"
+            size="sm"
+          >
+            Funnel builder
+          </Button>
         </div>
 
         <Stack gap="24px">
@@ -1369,6 +1391,7 @@ export function ConversionsPage() {
                         xAccessor={(datum) => datum.day}
                         yAccessor={(datum) => datum.presentation.value}
                       />
+                      <ChartAnnotationMarkers annotations={annotationsByDay} />
                       <ChartTooltip
                         showVerticalCrosshair
                         showSeriesGlyphs
@@ -1395,6 +1418,9 @@ export function ConversionsPage() {
                                   {datum.presentation.meta}
                                 </Typography>
                               ) : null}
+                              <ChartAnnotationsTooltip
+                                annotations={annotationsByDay.get(datum.day)}
+                              />
                             </div>
                           );
                         }}
@@ -1550,6 +1576,8 @@ export function ConversionsPage() {
               />
             )}
           </Section>
+
+          {isRangeValid ? <AnnotationsSection from={start} to={end} /> : null}
         </Stack>
       </Container>
     </AppShell>
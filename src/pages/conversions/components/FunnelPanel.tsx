@@ -0,0 +1,250 @@
+import type { ReactNode } from 'react';
+
+import { formatCount } from '@/app/analytics';
+import {
+  Alert,
+  Card,
+  Checkbox,
+  Field,
+  FormRow,
+  Input,
+  Select,
+  Skeleton,
+  Typography,
+} from '@/atoms';
+import { CharacterType } from '@/common/types';
+import { cn, formatCharacterType } from '@/common/utils';
+
+import {
+  findLargestDropOff,
+  formatFunnelPercent,
+  formatFunnelStep,
+  FUNNEL_PAYWALL_OPTIONS,
+  FUNNEL_STEP_ORDER,
+  type FunnelConfig,
+  type FunnelStepId,
+  type FunnelStepResult,
+  sortFunnelSteps,
+} from '../conversionFunnel';
+import s from './FunnelPanel.module.scss';
+
+type FunnelPanelProps = {
+  title: string;
+  config: FunnelConfig;
+  minDate: string;
+  maxDate: string;
+  scenarioOptions: { value: string; label: string }[];
+  results: FunnelStepResult[];
+  isLoading: boolean;
+  error: unknown;
+  actions?: ReactNode;
+  onChange: (patch: Partial<FunnelConfig>) => void;
+};
+
+const ALL_VALUE = 'all';
+
+const CHARACTER_TYPE_OPTIONS = [
+  { value: ALL_VALUE, label: 'All types' },
+  ...Object.values(CharacterType).map((value) => ({
+    value,
+    label: formatCharacterType(value),
+  })),
+];
+
+export function FunnelPanel({
+  title,
+  config,
+  minDate,
+  maxDate,
+  scenarioOptions,
+  results,
+  isLoading,
+  error,
+  actions,
+  onChange,
+}: FunnelPanelProps) {
+  const selectedSteps = new Set(config.steps);
+  const worst = findLargestDropOff(results);
+  const first = results[0]?.count ?? 0;
+  const last = results[results.length - 1];
+
+  const toggleStep = (step: FunnelStepId, checked: boolean) => {
+    const next = new Set(config.steps);
+    if (checked) {
+      next.add(step);
+    } else {
+      next.delete(step);
+    }
+    if (next.size < 2) return;
+    onChange({ steps: sortFunnelSteps(next) });
+  };
+
+  return (
+    <Card padding="lg" className={s.panel}>
+      <div className={s.header}>
+        <Typography variant="h3">{title}</Typography>
+        {actions}
+      </div>
+
+      <FormRow columns={2}>
+        <Field label="Start date">
+          <Input
+            type="date"
+            size="sm"
+            value={config.start}
+            min={minDate}
+            max={maxDate}
+            onChange={(event) => onChange({ start: event.target.value })}
+            fullWidth
+          />
+        </Field>
+        <Field label="End date">
+          <Input
+            type="date"
+            size="sm"
+            value={config.end}
+            min={minDate}
+            max={maxDate}
+            onChange={(event) => onChange({ end: event.target.value })}
+            fullWidth
+          />
+        </Field>
+      </FormRow>
+
+      <FormRow columns={3}>
+        <Field label="Character type">
+          <Select
+            size="sm"
+            options={CHARACTER_TYPE_OPTIONS}
+            value={config.characterType ?? ALL_VALUE}
+            onChange={(value) =>
+              onChange({
+                characterType:
+                  value === ALL_VALUE ? null : (value as CharacterType),
+                scenarioId: null,
+              })
+            }
+            fullWidth
+          />
+        </Field>
+        <Field label="Scenario">
+          <Select
+            size="sm"
+            options={[
+              { value: ALL_VALUE, label: 'All scenarios' },
+              ...scenarioOptions,
+            ]}
+            value={config.scenarioId ?? ALL_VALUE}
+            onChange={(value) =>
+              onChange({ scenarioId: value === ALL_VALUE ? null : value })
+            }
+            fullWidth
+          />
+        </Field>
+        <Field label="Paywall">
+          <Select
+            size="sm"
+            options={FUNNEL_PAYWALL_OPTIONS}
+            value={config.paywall}
+            onChange={(value) =>
+              onChange({ paywall: value as FunnelConfig['paywall'] })
+            }
+            fullWidth
+          />
+        </Field>
+      </FormRow>
+
+      <Field
+        label="Steps"
+        hint="At least two steps. Steps always follow the chat flow order."
+      >
+        <div className={s.steps}>
+          {FUNNEL_STEP_ORDER.map((step) => {
+            const checked = selectedSteps.has(step);
+            return (
+              <Checkbox
+                key={step}
+                label={formatFunnelStep(step, config.paywall)}
+                checked={checked}
+                disabled={checked && selectedSteps.size <= 2}
+                onChange={(event) => toggleStep(step, event.target.checked)}
+              />
+            );
+          })}
+        </div>
+      </Field>
+
+      {error ? (
+        <Alert
+          tone="danger"
+          title="Unable to load conversions"
+          description={
+            error instanceof Error && error.message
+              ? error.message
+              : 'Please retry or adjust the filters.'
+          }
+        />
+      ) : isLoading ? (
+        <Skeleton height={240} />
+      ) : first === 0 ? (
+        <Typography variant="body" tone="muted">
+          No chats match this segment.
+        </Typography>
+      ) : (
+        <div className={s.funnel}>
+          <div className={s.summary}>
+            <Typography variant="caption" tone="muted">
+              Overall conversion
+            </Typography>
+            <Typography variant="h2">
+              {formatFunnelPercent(last?.fromFirst ?? null)}
+            </Typography>
+            {worst ? (
+              <Typography variant="caption" tone="muted">
+                Biggest drop before {worst.label}:{' '}
+                {formatFunnelPercent(worst.dropOffRate)}
+              </Typography>
+            ) : null}
+          </div>
+
+          {results.map((result, index) => (
+            <div
+              key={result.id}
+              className={cn(s.step, [], { [s.worstStep]: result === worst })}
+            >
+              {index > 0 ? (
+                <Typography
+                  variant="caption"
+                  tone="danger"
+                  className={s.dropOff}
+                >
+                  −{formatCount(result.dropOff)} (
+                  {formatFunnelPercent(result.dropOffRate)} drop-off)
+                </Typography>
+              ) : null}
+              <div className={s.stepHeader}>
+                <Typography variant="body">{result.label}</Typography>
+                <Typography variant="body" className={s.stepCount}>
+                  {formatCount(result.count)}
+                </Typography>
+              </div>
+              <div className={s.track}>
+                <div
+                  className={s.bar}
+                  style={{
+                    width: `${Math.min((result.fromFirst ?? 0) * 100, 100)}%`,
+                  }}
+                />
+              </div>
+              <Typography variant="caption" tone="muted">
+                {index === 0
+                  ? 'Entry step'
+                  : `${formatFunnelPercent(result.fromPrevious)} of previous · ${formatFunnelPercent(result.fromFirst)} of first`}
+              </Typography>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
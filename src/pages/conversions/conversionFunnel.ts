@@ -0,0 +1,298 @@
+import { formatCount } from '@/app/analytics';
+import {
+  type CharacterType,
+  type ChatStageStats,
+  type ChatStats,
+  type IConversions,
+  type PaywallData,
+  RoleplayStage,
+  STAGES_IN_ORDER,
+} from '@/common/types';
+import { formatRoleplayStage } from '@/common/utils';
+
+export type FunnelPaywall = 'subscription' | 'air';
+
+export type FunnelPaywallEvent = 'seen' | 'opened' | 'bought';
+
+export type FunnelStepId =
+  | 'chat'
+  | RoleplayStage
+  | `paywall_${FunnelPaywallEvent}`;
+
+export type FunnelSegment = {
+  scenarioId: string | null;
+  characterType: CharacterType | null;
+};
+
+export type FunnelConfig = FunnelSegment & {
+  steps: FunnelStepId[];
+  paywall: FunnelPaywall;
+  start: string;
+  end: string;
+};
+
+export type FunnelStepResult = {
+  id: FunnelStepId;
+  label: string;
+  count: number;
+  fromPrevious: number | null;
+  fromFirst: number | null;
+  dropOff: number;
+  dropOffRate: number | null;
+};
+
+const PAYWALL_EVENTS: FunnelPaywallEvent[] = ['seen', 'opened', 'bought'];
+
+const PAYWALL_EVENT_LABELS: Record<FunnelPaywallEvent, string> = {
+  seen: 'Paywall seen',
+  opened: 'Paywall opened',
+  bought: 'Bought',
+};
+
+export const FUNNEL_STEP_ORDER: FunnelStepId[] = [
+  'chat',
+  ...STAGES_IN_ORDER,
+  ...PAYWALL_EVENTS.map((event) => `paywall_${event}` as const),
+];
+
+export const DEFAULT_FUNNEL_STEPS: FunnelStepId[] = [
+  'chat',
+  RoleplayStage.Flirting,
+  RoleplayStage.Seduction,
+  'paywall_seen',
+  'paywall_bought',
+];
+
+export const FUNNEL_PAYWALL_OPTIONS: { value: FunnelPaywall; label: string }[] =
+  [
+    { value: 'subscription', label: 'Subscription' },
+    { value: 'air', label: 'Air' },
+  ];
+
+const stageValues = new Set<string>(STAGES_IN_ORDER);
+
+function isFunnelStepId(value: string): value is FunnelStepId {
+  return FUNNEL_STEP_ORDER.includes(value as FunnelStepId);
+}
+
+function getPaywallEvent(step: FunnelStepId): FunnelPaywallEvent | null {
+  if (!step.startsWith('paywall_')) return null;
+  return step.slice('paywall_'.length) as FunnelPaywallEvent;
+}
+
+export function isFunnelPaywall(
+  value: string | null | undefined,
+): value is FunnelPaywall {
+  return value === 'subscription' || value === 'air';
+}
+
+export function formatFunnelStep(step: FunnelStepId, paywall: FunnelPaywall) {
+  if (step === 'chat') return 'Chat started';
+  const event = getPaywallEvent(step);
+  if (event) {
+    const prefix = paywall === 'subscription' ? 'Subscription' : 'Air';
+    return `${prefix}: ${PAYWALL_EVENT_LABELS[event].toLowerCase()}`;
+  }
+  return formatRoleplayStage(step as RoleplayStage);
+}
+
+export function sortFunnelSteps(steps: Iterable<FunnelStepId>) {
+  const selected = new Set(steps);
+  return FUNNEL_STEP_ORDER.filter((step) => selected.has(step));
+}
+
+export function parseFunnelSteps(value: string | null | undefined) {
+  if (!value) return null;
+  const steps = sortFunnelSteps(
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(isFunnelStepId),
+  );
+  return steps.length >= 2 ? steps : null;
+}
+
+export function serializeFunnelSteps(steps: FunnelStepId[]) {
+  return sortFunnelSteps(steps).join(',');
+}
+
+function createEmptyPaywallData(): PaywallData {
+  return {
+    seen: 0,
+    opened: 0,
+    bought: 0,
+    seenTimesBeforeBought: 0,
+    seenTimesBeforeLeft: 0,
+    leftAfterSeen: 0,
+    leftOnceSeen: 0,
+  };
+}
+
+function createEmptyChatStageStats(): ChatStageStats {
+  return {
+    total: 0,
+    left: 0,
+    messages: 0,
+    subscription: createEmptyPaywallData(),
+    air: createEmptyPaywallData(),
+  };
+}
+
+function createEmptyChatStats(): ChatStats {
+  return {
+    totals: createEmptyChatStageStats(),
+    byStage: STAGES_IN_ORDER.reduce(
+      (acc, stage) => {
+        acc[stage] = createEmptyChatStageStats();
+        return acc;
+      },
+      {} as Record<RoleplayStage, ChatStageStats>,
+    ),
+  };
+}
+
+function addPaywallData(target: PaywallData, source?: PaywallData) {
+  if (!source) return;
+  target.seen += source.seen ?? 0;
+  target.opened = (target.opened ?? 0) + (source.opened ?? 0);
+  target.bought += source.bought ?? 0;
+}
+
+function addChatStageStats(target: ChatStageStats, source?: ChatStageStats) {
+  if (!source) return;
+  target.total += source.total ?? 0;
+  target.left += source.left ?? 0;
+  target.messages += source.messages ?? 0;
+  addPaywallData(target.subscription, source.subscription);
+  addPaywallData(target.air, source.air);
+}
+
+function addChatStats(target: ChatStats, source?: ChatStats) {
+  if (!source) return;
+  addChatStageStats(target.totals, source.totals);
+  STAGES_IN_ORDER.forEach((stage) => {
+    addChatStageStats(target.byStage[stage], source.byStage?.[stage]);
+  });
+}
+
+export function getSegmentScenarioIds(
+  data: IConversions | undefined,
+  segment: FunnelSegment,
+) {
+  if (segment.scenarioId) return [segment.scenarioId];
+  if (!segment.characterType) return null;
+  return (data?.scenarios ?? [])
+    .filter((scenario) => scenario.character.type === segment.characterType)
+    .map((scenario) => scenario.id);
+}
+
+export function aggregateConversions(
+  data: IConversions | undefined,
+  segment: FunnelSegment,
+) {
+  const stats = createEmptyChatStats();
+  const scenarioIds = getSegmentScenarioIds(data, segment);
+
+  for (const day of data?.daysData ?? []) {
+    if (!scenarioIds) {
+      addChatStats(stats, day.data.all);
+      continue;
+    }
+    scenarioIds.forEach((id) => addChatStats(stats, day.data.byScenario[id]));
+  }
+
+  return stats;
+}
+
+export function aggregateConversionsByScenario(
+  data: IConversions | undefined,
+  segment: FunnelSegment,
+) {
+  const allowed = getSegmentScenarioIds(data, segment);
+  const allowedIds = allowed ? new Set(allowed) : null;
+  const byScenario = new Map<string, ChatStats>();
+
+  for (const day of data?.daysData ?? []) {
+    for (const [id, source] of Object.entries(day.data.byScenario ?? {})) {
+      if (allowedIds && !allowedIds.has(id)) continue;
+      const target = byScenario.get(id) ?? createEmptyChatStats();
+      addChatStats(target, source);
+      byScenario.set(id, target);
+    }
+  }
+
+  return byScenario;
+}
+
+function sumStages(
+  stats: ChatStats,
+  fromIndex: number,
+  getValue: (stage: ChatStageStats) => number,
+) {
+  return STAGES_IN_ORDER.slice(fromIndex).reduce(
+    (sum, stage) => sum + getValue(stats.byStage[stage]),
+    0,
+  );
+}
+
+// Chats are bucketed by the last stage they reached, so reaching a stage
+// means ending up in it or in any later one. Paywall events are counted
+// within the chats that reached the deepest stage selected before them.
+export function buildFunnel(
+  stats: ChatStats,
+  steps: FunnelStepId[],
+  paywall: FunnelPaywall,
+): FunnelStepResult[] {
+  const results: FunnelStepResult[] = [];
+  let stageIndex = -1;
+
+  for (const step of sortFunnelSteps(steps)) {
+    let count: number;
+    const event = getPaywallEvent(step);
+
+    if (step === 'chat') {
+      count = stats.totals.total;
+    } else if (event) {
+      count =
+        stageIndex < 0
+          ? (stats.totals[paywall][event] ?? 0)
+          : sumStages(stats, stageIndex, (stage) => stage[paywall][event] ?? 0);
+    } else if (stageValues.has(step)) {
+      stageIndex = STAGES_IN_ORDER.indexOf(step as RoleplayStage);
+      count = sumStages(stats, stageIndex, (stage) => stage.total);
+    } else {
+      continue;
+    }
+
+    const first = results[0]?.count;
+    const previous = results[results.length - 1]?.count;
+    const dropOff = previous === undefined ? 0 : Math.max(previous - count, 0);
+
+    results.push({
+      id: step,
+      label: formatFunnelStep(step, paywall),
+      count,
+      fromPrevious: previous ? count / previous : null,
+      fromFirst: first ? count / first : null,
+      dropOff,
+      dropOffRate: previous ? dropOff / previous : null,
+    });
+  }
+
+  return results;
+}
+
+export function findLargestDropOff(results: FunnelStepResult[]) {
+  let worst: FunnelStepResult | null = null;
+  for (const result of results.slice(1)) {
+    if (result.dropOffRate === null) continue;
+    if (!worst || result.dropOffRate > (worst.dropOffRate ?? 0)) {
+      worst = result;
+    }
+  }
+  return worst && (worst.dropOffRate ?? 0) > 0 ? worst : null;
+}
+
+export function formatFunnelPercent(value: number | null) {
+  return value === null ? '—' : `${formatCount(value * 100, 1)}%`;
+}
@@ -1,6 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 
+import { usePermissions } from '@/app/auth';
 import { useCharacterDetails, useDeleteCharacter } from '@/app/characters';
 import { TrashIcon } from '@/assets/icons';
 import {
@@ -16,9 +17,14 @@ import {
   Stack,
   Typography,
 } from '@/atoms';
-import type { ICharacterDetails } from '@/common/types';
+import {
+  AuditEntityType,
+  type ICharacterDetails,
+  Permission,
+} from '@/common/types';
 import { formatCharacterType } from '@/common/utils';
 import { ConfirmModal, Drawer } from '@/components/molecules';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
 import {
@@ -58,6 +64,7 @@ export function CustomCharacterDetailsPage() {
   const navigate = useNavigate();
   const { data, error, isLoading, refetch } = useCharacterDetails(id ?? null);
   const deleteMutation = useDeleteCharacter();
+  const { can } = usePermissions();
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [isAvatarOpen, setIsAvatarOpen] = useState(false);
   const [selectedScenarioId, setSelectedScenarioId] = useState<string | null>(
@@ -140,7 +147,11 @@ export function CustomCharacterDetailsPage() {
               variant="ghost"
               size="sm"
               onClick={() => setIsDeleteOpen(true)}
-              disabled={!character || deleteMutation.isPending}
+              disabled={
+                !character ||
+                !can(Permission.CharacterDelete) ||
+                deleteMutation.isPending
+              }
             />
           </div>
         </div>
@@ -325,6 +336,12 @@ export function CustomCharacterDetailsPage() {
             description="We could not find this custom character."
           />
         ) : null}
+        {data ? (
+          <ActivityPanel
+            entityType={AuditEntityType.Character}
+            entityId={data.id}
+          />
+        ) : null}
       </Container>
     </AppShell>
   );
@@ -21,6 +21,7 @@ import {
   Typography,
 } from '@/atoms';
 import {
+  AuditEntityType,
   FileDir,
   type IFile,
   RoleplayStage,
@@ -32,6 +33,7 @@ import {
   normalizeRoleplayStages,
 } from '@/common/utils';
 import { ConfirmModal, FileUpload } from '@/components/molecules';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
 import s from './GiftDetailsPage.module.scss';
@@ -305,6 +307,9 @@ export function GiftDetailsPage() {
             </div>
           </div>
         ) : null}
+        {data ? (
+          <ActivityPanel entityType={AuditEntityType.Gift} entityId={data.id} />
+        ) : null}
       </Container>
 
       <Modal
@@ -10,17 +10,13 @@ import {
 } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 
-import { copyFile } from '@/app/files/filesApi';
-import {
-  createGift as createGiftApi,
-  deleteGift as deleteGiftApi,
-  getGiftDetails,
-  getGifts,
-  updateGift as updateGiftApi,
-  useCreateGift,
-  useGifts,
-} from '@/app/gifts';
+import { useCreateGift, useGifts } from '@/app/gifts';
 import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  downloadTransferFile,
+  getDefaultTransferSelection,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
 import { DownloadIcon, PlusIcon, UploadIcon } from '@/assets/icons';
 import {
   Alert,
@@ -50,18 +46,28 @@ import {
   formatRoleplayStages,
   normalizeRoleplayStages,
 } from '@/common/utils';
-import { FileUpload } from '@/components/molecules';
+import { FileUpload, ImportPreviewModal } from '@/components/molecules';
 import { AppShell } from '@/components/templates';
 
+import {
+  buildGiftsImportPreview,
+  fetchAllGiftDetails,
+  importGiftTransferItems,
+} from './giftImport';
 import s from './GiftsPage.module.scss';
 import {
   buildGiftsTransferFileName,
   buildGiftsTransferPayload,
-  downloadGiftsTransferFile,
   type GiftTransferItem,
   parseGiftsTransferFile,
 } from './giftTransfer';
 
+type GiftsImportPreview = {
+  gifts: GiftTransferItem[];
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+};
+
 type QueryUpdate = {
   search?: string;
   order?: string;
@@ -115,10 +121,6 @@ function parsePageSize(value: string | null) {
   return PAGE_SIZE_OPTIONS.includes(parsed) ? parsed : DEFAULT_PAGE_SIZE;
 }
 
-function normalizeGiftName(value: string) {
-  return value.trim();
-}
-
 export function GiftsPage() {
   const queryClient = useQueryClient();
   const navigate = useNavigate();
@@ -137,6 +139,10 @@ export function GiftsPage() {
   const [createFile, setCreateFile] = useState<IFile | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<GiftsImportPreview | null>(
+    null,
+  );
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
   const importInputRef = useRef<HTMLInputElement | null>(null);
   const [createValues, setCreateValues] = useState({
     name: '',
@@ -422,36 +428,12 @@ export function GiftsPage() {
     }
   };
 
-  const fetchAllGiftSummaries = useCallback(async () => {
-    const all: IGift[] = [];
-    let skip = 0;
-    const take = 200;
-
-    while (true) {
-      const pageData = await getGifts({
-        order: 'ASC',
-        skip,
-        take,
-      });
-      all.push(...pageData.data);
-      skip += pageData.data.length;
-      if (skip >= pageData.total || pageData.data.length === 0) {
-        break;
-      }
-    }
-
-    return all;
-  }, []);
-
   const handleExport = async () => {
     try {
       setIsExporting(true);
-      const allGifts = await fetchAllGiftSummaries();
-      const details = await Promise.all(
-        allGifts.map((gift) => getGiftDetails(gift.id)),
-      );
+      const details = await fetchAllGiftDetails();
       const payload = buildGiftsTransferPayload(details);
-      downloadGiftsTransferFile(payload, buildGiftsTransferFileName());
+      downloadTransferFile(payload, buildGiftsTransferFileName());
       notifySuccess('Gifts exported.', 'Gifts exported.');
     } catch (error) {
       notifyError(error, 'Unable to export gifts.');
@@ -473,113 +455,40 @@ export function GiftsPage() {
     setIsImporting(true);
     try {
       const imported = await parseGiftsTransferFile(file);
+      const entries = await buildGiftsImportPreview(imported.gifts, {
+        deleteMissing: true,
+      });
+      setImportPreview({
+        gifts: imported.gifts,
+        entries,
+        selectedKeys: getDefaultTransferSelection(entries),
+      });
+    } catch (error) {
+      notifyError(error, 'Unable to import gifts.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      const importedByName = new Map<string, GiftTransferItem>();
-      for (const gift of imported.gifts) {
-        const name = normalizeGiftName(gift.name);
-        importedByName.set(name, gift);
-      }
-
-      const existing = await fetchAllGiftSummaries();
-      const existingByName = new Map<string, string[]>();
-      for (const gift of existing) {
-        const name = normalizeGiftName(gift.name);
-        if (!name) continue;
-        const ids = existingByName.get(name) ?? [];
-        ids.push(gift.id);
-        existingByName.set(name, ids);
-      }
-
-      const ambiguousNames: string[] = [];
-      for (const name of importedByName.keys()) {
-        const ids = existingByName.get(name) ?? [];
-        if (ids.length > 1) {
-          ambiguousNames.push(name);
-        }
-      }
-      if (ambiguousNames.length > 0) {
-        throw new Error(
-          `Gift names are not unique in target environment: ${ambiguousNames.join(', ')}.`,
-        );
-      }
-
-      const toUpdate: Array<{ id: string; gift: GiftTransferItem }> = [];
-      const toCreate: GiftTransferItem[] = [];
-      for (const [name, gift] of importedByName.entries()) {
-        const ids = existingByName.get(name) ?? [];
-        if (ids.length === 1) {
-          toUpdate.push({ id: ids[0], gift });
-        } else {
-          toCreate.push(gift);
-        }
-      }
-
-      const importedNames = new Set(importedByName.keys());
-      const toDelete = existing
-        .filter((gift) => !importedNames.has(normalizeGiftName(gift.name)))
-        .map((gift) => gift.id);
-
-      const fileById = new Map<string, GiftTransferItem['img']>();
-      for (const gift of imported.gifts) {
-        const existingFile = fileById.get(gift.img.id);
-        if (
-          existingFile &&
-          (existingFile.path !== gift.img.path ||
-            existingFile.name !== gift.img.name ||
-            existingFile.mime !== gift.img.mime ||
-            existingFile.dir !== gift.img.dir)
-        ) {
-          throw new Error(
-            `Conflicting file metadata for image id "${gift.img.id}" in import file.`,
-          );
-        }
-        fileById.set(gift.img.id, gift.img);
-      }
-
-      for (const img of fileById.values()) {
-        await copyFile({
-          id: img.id,
-          name: img.name,
-          path: img.path,
-          dir: img.dir,
-          status: img.status,
-          mime: img.mime,
-          url: img.url ?? undefined,
-        });
-      }
-
-      for (const item of toUpdate) {
-        await updateGiftApi(item.id, {
-          name: item.gift.name,
-          description: item.gift.description,
-          price: item.gift.price,
-          isActive: item.gift.isActive,
-          imgId: item.gift.img.id,
-          stages: item.gift.stages,
-        });
-      }
-
-      for (const gift of toCreate) {
-        await createGiftApi({
-          name: gift.name,
-          description: gift.description,
-          price: gift.price,
-          isActive: gift.isActive,
-          imgId: gift.img.id,
-          stages: gift.stages,
-        });
-      }
-
-      for (const id of toDelete) {
-        await deleteGiftApi(id);
-      }
+  const handleApplyImport = async () => {
+    if (!importPreview) return;
 
+    setIsApplyingImport(true);
+    try {
+      const result = await importGiftTransferItems(importPreview.gifts, {
+        deleteMissing: true,
+        selectedKeys: importPreview.selectedKeys,
+      });
       await queryClient.invalidateQueries({ queryKey: ['gifts'] });
-      notifySuccess('Gifts imported.', 'Gifts imported.');
+      setImportPreview(null);
+      notifySuccess(
+        `Gifts imported. Created: ${result.created}, updated: ${result.updated}, deleted: ${result.deleted}.`,
+        'Gifts imported.',
+      );
     } catch (error) {
       notifyError(error, 'Unable to import gifts.');
     } finally {
-      setIsImporting(false);
+      setIsApplyingImport(false);
     }
   };
 
@@ -906,6 +815,23 @@ export function GiftsPage() {
           </div>
         </Stack>
       </Modal>
+
+      <ImportPreviewModal
+        open={Boolean(importPreview)}
+        title="Review gifts import"
+        entries={importPreview?.entries ?? []}
+        selectedKeys={importPreview?.selectedKeys ?? new Set()}
+        onSelectedKeysChange={(selectedKeys) =>
+          setImportPreview((current) =>
+            current ? { ...current, selectedKeys } : current,
+          )
+        }
+        isApplying={isApplyingImport}
+        onApply={() => void handleApplyImport()}
+        onClose={() => {
+          if (!isApplyingImport) setImportPreview(null);
+        }}
+      />
     </AppShell>
   );
 }
@@ -0,0 +1,219 @@
+import {
+  createGift,
+  deleteGift,
+  getGiftDetails,
+  getGifts,
+  updateGift,
+} from '@/app/gifts';
+import {
+  buildTransferDeleteEntry,
+  buildTransferPreviewEntry,
+  copyTransferFile,
+  isSameTransferFile,
+  isTransferKeySelected,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import type { IGift, IGiftDetails } from '@/common/types';
+import { normalizeRoleplayStages } from '@/common/utils';
+
+import type { GiftTransferItem } from './giftTransfer';
+
+type ImportGiftsOptions = {
+  deleteMissing: boolean;
+  selectedKeys?: Set<string>;
+};
+
+export function normalizeGiftName(value: string) {
+  return value.trim();
+}
+
+export async function fetchAllGiftSummaries() {
+  const all: IGift[] = [];
+  let skip = 0;
+  const take = 200;
+
+  while (true) {
+    const pageData = await getGifts({
+      order: 'ASC',
+      skip,
+      take,
+    });
+    all.push(...pageData.data);
+    skip += pageData.data.length;
+    if (skip >= pageData.total || pageData.data.length === 0) {
+      break;
+    }
+  }
+
+  return all;
+}
+
+export async function fetchAllGiftDetails() {
+  const summaries = await fetchAllGiftSummaries();
+  return Promise.all(summaries.map((gift) => getGiftDetails(gift.id)));
+}
+
+function getGiftDeleteKey(id: string) {
+  return `delete:${id}`;
+}
+
+function toGiftPreviewFields(gift: IGiftDetails | GiftTransferItem) {
+  return {
+    description: gift.description?.trim(),
+    price: gift.price,
+    isActive: Boolean(gift.isActive),
+    stages: normalizeRoleplayStages(gift.stages ?? []).join(', '),
+    img: gift.img?.name,
+  };
+}
+
+function groupGiftsByName<T extends Pick<IGift, 'id' | 'name'>>(gifts: T[]) {
+  const giftsByName = new Map<string, T[]>();
+  for (const gift of gifts) {
+    const name = normalizeGiftName(gift.name);
+    if (!name) continue;
+    const group = giftsByName.get(name) ?? [];
+    group.push(gift);
+    giftsByName.set(name, group);
+  }
+  return giftsByName;
+}
+
+function ensureUniqueTargetGiftNames<T>(
+  importedNames: Iterable<string>,
+  existingByName: Map<string, T[]>,
+) {
+  const ambiguousNames: string[] = [];
+  for (const name of importedNames) {
+    const group = existingByName.get(name) ?? [];
+    if (group.length > 1) {
+      ambiguousNames.push(name);
+    }
+  }
+  if (ambiguousNames.length > 0) {
+    throw new Error(
+      `Gift names are not unique in target environment: ${ambiguousNames.join(', ')}.`,
+    );
+  }
+}
+
+export async function buildGiftsImportPreview(
+  gifts: GiftTransferItem[],
+  { deleteMissing }: Pick<ImportGiftsOptions, 'deleteMissing'>,
+): Promise<TransferPreviewEntry[]> {
+  const importedNames = new Set(
+    gifts.map((gift) => normalizeGiftName(gift.name)),
+  );
+  const existing = await fetchAllGiftDetails();
+  const existingByName = groupGiftsByName(existing);
+  ensureUniqueTargetGiftNames(importedNames, existingByName);
+
+  const entries = gifts.map((gift) => {
+    const name = normalizeGiftName(gift.name);
+    const current = existingByName.get(name)?.[0];
+    return buildTransferPreviewEntry({
+      key: name,
+      label: name,
+      before: current ? toGiftPreviewFields(current) : null,
+      after: toGiftPreviewFields(gift),
+    });
+  });
+
+  if (deleteMissing) {
+    for (const gift of existing) {
+      if (importedNames.has(normalizeGiftName(gift.name))) continue;
+      entries.push(
+        buildTransferDeleteEntry(
+          getGiftDeleteKey(gift.id),
+          gift.name,
+          toGiftPreviewFields(gift),
+        ),
+      );
+    }
+  }
+
+  return entries;
+}
+
+export async function importGiftTransferItems(
+  gifts: GiftTransferItem[],
+  { deleteMissing, selectedKeys }: ImportGiftsOptions,
+) {
+  const importedByName = new Map<string, GiftTransferItem>();
+  for (const gift of gifts) {
+    importedByName.set(normalizeGiftName(gift.name), gift);
+  }
+
+  const existing = await fetchAllGiftSummaries();
+  const existingByName = groupGiftsByName(existing);
+  ensureUniqueTargetGiftNames(importedByName.keys(), existingByName);
+
+  const toUpdate: Array<{ id: string; gift: GiftTransferItem }> = [];
+  const toCreate: GiftTransferItem[] = [];
+  for (const [name, gift] of importedByName.entries()) {
+    if (!isTransferKeySelected(selectedKeys, name)) continue;
+    const group = existingByName.get(name) ?? [];
+    if (group.length === 1) {
+      toUpdate.push({ id: group[0].id, gift });
+    } else {
+      toCreate.push(gift);
+    }
+  }
+
+  const toDelete = deleteMissing
+    ? existing
+        .filter((gift) => !importedByName.has(normalizeGiftName(gift.name)))
+        .filter((gift) =>
+          isTransferKeySelected(selectedKeys, getGiftDeleteKey(gift.id)),
+        )
+        .map((gift) => gift.id)
+    : [];
+
+  const selectedGifts = [...toUpdate.map((item) => item.gift), ...toCreate];
+  const fileById = new Map<string, GiftTransferItem['img']>();
+  for (const gift of selectedGifts) {
+    const existingFile = fileById.get(gift.img.id);
+    if (existingFile && !isSameTransferFile(existingFile, gift.img)) {
+      throw new Error(
+        `Conflicting file metadata for image id "${gift.img.id}" in import file.`,
+      );
+    }
+    fileById.set(gift.img.id, gift.img);
+  }
+
+  for (const img of fileById.values()) {
+    await copyTransferFile(img);
+  }
+
+  for (const item of toUpdate) {
+    await updateGift(item.id, {
+      name: item.gift.name,
+      description: item.gift.description,
+      price: item.gift.price,
+      isActive: item.gift.isActive,
+      imgId: item.gift.img.id,
+      stages: item.gift.stages,
+    });
+  }
+
+  for (const gift of toCreate) {
+    await createGift({
+      name: gift.name,
+      description: gift.description,
+      price: gift.price,
+      isActive: gift.isActive,
+      imgId: gift.img.id,
+      stages: gift.stages,
+    });
+  }
+
+  for (const id of toDelete) {
+    await deleteGift(id);
+  }
+
+  return {
+    created: toCreate.length,
+    updated: toUpdate.length,
+    deleted: toDelete.length,
+  };
+}
@@ -1,23 +1,30 @@
 import {
-  FileDir,
-  FileStatus,
+  buildTransferEnvelope,
+  defineTransferSchema,
+  ensureArray,
+  ensureBoolean,
+  ensureNonEmptyString,
+  ensurePositiveNumber,
+  ensureRecord,
+  ensureString,
+  ensureUniqueKeys,
+  mapTransferItems,
+  parseTransferFile,
+  parseTransferFileAs,
+  toTransferFile,
+  type TransferFile,
+} from '@/app/transfer';
+import {
   type IGiftDetails,
   type RoleplayStage,
+  STAGES_IN_ORDER,
 } from '@/common/types';
 import { isRoleplayStage, normalizeRoleplayStages } from '@/common/utils';
 
 const GIFTS_TRANSFER_SCHEMA = 'gifts';
 const GIFTS_TRANSFER_VERSION = 2;
 
-export type GiftTransferFile = {
-  id: string;
-  name: string;
-  path: string;
-  dir: FileDir;
-  status: FileStatus;
-  mime: string;
-  url?: string | null;
-};
+export type GiftTransferFile = TransferFile;
 
 export type GiftTransferItem = {
   name: string;
@@ -35,54 +42,8 @@ export type GiftsTransferPayload = {
   gifts: GiftTransferItem[];
 };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
-function ensureRecord(value: unknown, path: string) {
-  if (!isRecord(value)) {
-    throw new Error(`Invalid import file: "${path}" must be an object.`);
-  }
-  return value;
-}
-
-function ensureString(value: unknown, path: string) {
-  if (typeof value !== 'string') {
-    throw new Error(`Invalid import file: "${path}" must be a string.`);
-  }
-  return value;
-}
-
-function ensureNonEmptyString(value: unknown, path: string) {
-  const parsed = ensureString(value, path).trim();
-  if (!parsed) {
-    throw new Error(`Invalid import file: "${path}" must not be empty.`);
-  }
-  return parsed;
-}
-
-function ensurePositiveNumber(value: unknown, path: string) {
-  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
-    throw new Error(
-      `Invalid import file: "${path}" must be a positive number.`,
-    );
-  }
-  return value;
-}
-
-function ensureBoolean(value: unknown, path: string) {
-  if (typeof value !== 'boolean') {
-    throw new Error(`Invalid import file: "${path}" must be a boolean.`);
-  }
-  return value;
-}
-
 function parseStages(value: unknown, path: string) {
-  if (!Array.isArray(value)) {
-    throw new Error(`Invalid import file: "${path}" must be an array.`);
-  }
-
-  const stages = value.map((stage, index) => {
+  const stages = ensureArray(value, path).map((stage, index) => {
     if (!isRoleplayStage(stage)) {
       throw new Error(
         `Invalid import file: "${path}[${index}]" has unsupported value.`,
@@ -99,45 +60,10 @@ function parseStages(value: unknown, path: string) {
   return normalizedStages;
 }
 
-function parseTransferFile(value: unknown, path: string): GiftTransferFile {
-  const obj = ensureRecord(value, path);
-  const dir = ensureString(obj.dir, `${path}.dir`);
-  const status = ensureString(obj.status, `${path}.status`);
-
-  if (!Object.values(FileDir).includes(dir as FileDir)) {
-    throw new Error(
-      `Invalid import file: "${path}.dir" has unsupported value.`,
-    );
-  }
-  if (!Object.values(FileStatus).includes(status as FileStatus)) {
-    throw new Error(
-      `Invalid import file: "${path}.status" has unsupported value.`,
-    );
-  }
-
-  const urlValue = obj.url;
-  if (
-    urlValue !== undefined &&
-    urlValue !== null &&
-    typeof urlValue !== 'string'
-  ) {
-    throw new Error(
-      `Invalid import file: "${path}.url" must be a string, null, or omitted.`,
-    );
-  }
-
-  return {
-    id: ensureNonEmptyString(obj.id, `${path}.id`),
-    name: ensureNonEmptyString(obj.name, `${path}.name`),
-    path: ensureNonEmptyString(obj.path, `${path}.path`),
-    dir: dir as FileDir,
-    status: status as FileStatus,
-    mime: ensureNonEmptyString(obj.mime, `${path}.mime`),
-    url: (urlValue as string | null | undefined) ?? undefined,
-  };
-}
-
-function parseTransferGift(value: unknown, path: string): GiftTransferItem {
+export function parseGiftTransferItem(
+  value: unknown,
+  path: string,
+): GiftTransferItem {
   const obj = ensureRecord(value, path);
   return {
     name: ensureNonEmptyString(obj.name, `${path}.name`),
@@ -150,80 +76,57 @@ function parseTransferGift(value: unknown, path: string): GiftTransferItem {
 }
 
 function ensureUniqueGiftNames(gifts: GiftTransferItem[], path: string) {
-  const counts = new Map<string, number>();
-  for (const gift of gifts) {
-    counts.set(gift.name, (counts.get(gift.name) ?? 0) + 1);
+  ensureUniqueKeys(gifts, (gift) => gift.name, 'gift names', path);
+}
+
+export function toGiftTransferItem(
+  gift: IGiftDetails,
+  index: number,
+): GiftTransferItem {
+  const name = gift.name?.trim();
+  const description = gift.description?.trim();
+  if (!name) {
+    throw new Error(
+      `Unable to export gifts: gift #${index + 1} has empty name.`,
+    );
   }
-  const duplicates = Array.from(counts.entries())
-    .filter(([, count]) => count > 1)
-    .map(([name]) => name);
-  if (duplicates.length > 0) {
+  if (!description) {
     throw new Error(
-      `Invalid import file: duplicate gift names in "${path}": ${duplicates.join(', ')}.`,
+      `Unable to export gifts: gift "${name}" has empty description.`,
     );
   }
+  if (!Number.isFinite(gift.price) || gift.price <= 0) {
+    throw new Error(
+      `Unable to export gifts: gift "${name}" has invalid price.`,
+    );
+  }
+  const stages = normalizeRoleplayStages(gift.stages ?? []);
+  if (stages.length === 0) {
+    throw new Error(`Unable to export gifts: gift "${name}" has no stages.`);
+  }
+  if (!gift.img?.id || !gift.img?.name || !gift.img?.path || !gift.img?.mime) {
+    throw new Error(
+      `Unable to export gifts: gift "${name}" has incomplete image metadata.`,
+    );
+  }
+
+  return {
+    name,
+    description,
+    price: gift.price,
+    isActive: Boolean(gift.isActive),
+    stages,
+    img: toTransferFile(gift.img),
+  };
 }
 
 export function buildGiftsTransferPayload(gifts: IGiftDetails[]) {
-  const mapped = gifts.map((gift, index) => {
-    const name = gift.name?.trim();
-    const description = gift.description?.trim();
-    if (!name) {
-      throw new Error(
-        `Unable to export gifts: gift #${index + 1} has empty name.`,
-      );
-    }
-    if (!description) {
-      throw new Error(
-        `Unable to export gifts: gift "${name}" has empty description.`,
-      );
-    }
-    if (!Number.isFinite(gift.price) || gift.price <= 0) {
-      throw new Error(
-        `Unable to export gifts: gift "${name}" has invalid price.`,
-      );
-    }
-    const stages = normalizeRoleplayStages(gift.stages ?? []);
-    if (stages.length === 0) {
-      throw new Error(
-        `Unable to export gifts: gift "${name}" has no stages.`,
-      );
-    }
-    if (
-      !gift.img?.id ||
-      !gift.img?.name ||
-      !gift.img?.path ||
-      !gift.img?.mime
-    ) {
-      throw new Error(
-        `Unable to export gifts: gift "${name}" has incomplete image metadata.`,
-      );
-    }
-
-    return {
-      name,
-      description,
-      price: gift.price,
-      isActive: Boolean(gift.isActive),
-      stages,
-      img: {
-        id: gift.img.id,
-        name: gift.img.name,
-        path: gift.img.path,
-        dir: gift.img.dir,
-        status: gift.img.status,
-        mime: gift.img.mime,
-        url: gift.img.url ?? undefined,
-      },
-    } satisfies GiftTransferItem;
-  });
+  const mapped = gifts.map(toGiftTransferItem);
 
   ensureUniqueGiftNames(mapped, 'gifts');
 
   return {
-    schema: GIFTS_TRANSFER_SCHEMA,
-    version: GIFTS_TRANSFER_VERSION,
-    exportedAt: new Date().toISOString(),
+    ...buildTransferEnvelope(GIFTS_TRANSFER_SCHEMA, GIFTS_TRANSFER_VERSION),
     gifts: mapped,
   } satisfies GiftsTransferPayload;
 }
@@ -232,62 +135,32 @@ export function buildGiftsTransferFileName() {
   return 'gifts.json';
 }
 
-export function downloadGiftsTransferFile(
-  payload: GiftsTransferPayload,
-  fileName: string,
-) {
-  const blob = new Blob([JSON.stringify(payload, null, 2)], {
-    type: 'application/json',
-  });
-  const url = window.URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = fileName;
-  link.rel = 'noopener';
-  document.body.appendChild(link);
-  link.click();
-  link.remove();
-  window.URL.revokeObjectURL(url);
-}
-
-export async function parseGiftsTransferFile(file: File) {
-  const text = await file.text();
-  let rawPayload: unknown;
-
-  try {
-    rawPayload = JSON.parse(text) as unknown;
-  } catch (_error) {
-    throw new Error('Invalid JSON file.');
-  }
-
-  const payloadObj = ensureRecord(rawPayload, 'root');
-  const schema = ensureString(payloadObj.schema, 'schema');
-  const version = payloadObj.version;
-  if (schema !== GIFTS_TRANSFER_SCHEMA) {
-    throw new Error(
-      `Invalid import file: unsupported schema "${schema}". Expected "${GIFTS_TRANSFER_SCHEMA}".`,
-    );
-  }
-  if (version !== GIFTS_TRANSFER_VERSION) {
-    throw new Error(
-      `Invalid import file: unsupported version "${String(version)}". Expected "${GIFTS_TRANSFER_VERSION}" with gift stages.`,
+export const giftsTransferSchema = defineTransferSchema({
+  schema: GIFTS_TRANSFER_SCHEMA,
+  version: GIFTS_TRANSFER_VERSION,
+  migrations: {
+    1: (payload) =>
+      mapTransferItems(payload, 'gifts', (gift) =>
+        gift.stages === undefined
+          ? { ...gift, stages: [...STAGES_IN_ORDER] }
+          : gift,
+      ),
+  },
+  parse: (payloadObj): GiftsTransferPayload => {
+    const gifts = ensureArray(payloadObj.gifts, 'gifts').map((gift, index) =>
+      parseGiftTransferItem(gift, `gifts[${index}]`),
     );
-  }
+    ensureUniqueGiftNames(gifts, 'gifts');
 
-  const giftsValue = payloadObj.gifts;
-  if (!Array.isArray(giftsValue)) {
-    throw new Error('Invalid import file: "gifts" must be an array.');
-  }
-
-  const gifts = giftsValue.map((gift, index) =>
-    parseTransferGift(gift, `gifts[${index}]`),
-  );
-  ensureUniqueGiftNames(gifts, 'gifts');
+    return {
+      schema: GIFTS_TRANSFER_SCHEMA,
+      version: GIFTS_TRANSFER_VERSION,
+      exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
+      gifts,
+    };
+  },
+});
 
-  return {
-    schema: GIFTS_TRANSFER_SCHEMA,
-    version: GIFTS_TRANSFER_VERSION,
-    exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
-    gifts,
-  } satisfies GiftsTransferPayload;
+export async function parseGiftsTransferFile(file: File) {
+  return parseTransferFileAs(giftsTransferSchema, file);
 }
@@ -2,8 +2,11 @@ export { ActivationsPage } from './activations/ActivationsPage';
 export { AdminsPage } from './admins/AdminsPage';
 export { AirPurchasesPage } from './air-purchases/AirPurchasesPage';
 export { ActiveUsersPage } from './analytics/ActiveUsersPage';
+export { AnalyticsAlertsPage } from './analytics/AnalyticsAlertsPage';
+export { AnalyticsDashboardsPage } from './analytics/AnalyticsDashboardsPage';
 export { AnalyticsPage } from './analytics/AnalyticsPage';
 export { CohortRevenuePage } from './analytics/CohortRevenuePage';
+export { AuditPage } from './audit/AuditPage';
 export { AuthCallbackPage } from './auth/AuthCallbackPage';
 export { AuthNewPage } from './auth/AuthNewPage';
 export { AuthPage } from './auth/AuthPage';
@@ -12,6 +15,7 @@ export { ForgotPasswordPage } from './auth/ForgotPasswordPage';
 export { ResetPasswordPage } from './auth/ResetPasswordPage';
 export { BatchImageDetailsPage } from './batch-images/BatchImageDetailsPage';
 export { BatchImagesPage } from './batch-images/BatchImagesPage';
+export { BroadcastHistoryPage } from './broadcast/BroadcastHistoryPage';
 export { BroadcastPage } from './broadcast/BroadcastPage';
 export { CampaignsPage } from './campaigns/CampaignsPage';
 export { CharacterImagesPage } from './character-images/CharacterImagesPage';
@@ -19,7 +23,9 @@ export { CharacterImagesVectorSearchPage } from './character-images/CharacterIma
 export { CharacterDetailsPage } from './characters/CharacterDetailsPage';
 export { CharactersPage } from './characters/CharactersPage';
 export { ChatDetailsPage } from './chats/ChatDetailsPage';
+export { ChatReviewQueuePage } from './chats/ChatReviewQueuePage';
 export { ChatsPage } from './chats/ChatsPage';
+export { ConversionFunnelsPage } from './conversions/ConversionFunnelsPage';
 export { ConversionsPage } from './conversions/ConversionsPage';
 export { CustomCharacterCreatePage } from './custom-characters/CustomCharacterCreatePage';
 export { CustomCharacterDetailsPage } from './custom-characters/CustomCharacterDetailsPage';
@@ -41,13 +47,16 @@ export { PostAnalyticsPage } from './posts/PostAnalyticsPage';
 export { PostsPage } from './posts/PostsPage';
 export { ProfilePage } from './profile/ProfilePage';
 export { PromptCreatePage } from './prompts/PromptCreatePage';
+export { PromptPlaygroundPage } from './prompts/PromptPlaygroundPage';
 export { PromptsPage } from './prompts/PromptsPage';
 export { PromptUpdatePage } from './prompts/PromptUpdatePage';
 export { ScenarioGenCreatePage } from './scenario-gen/ScenarioGenCreatePage';
 export { ScenarioGenDetailsPage } from './scenario-gen/ScenarioGenDetailsPage';
 export { ScenarioGenPage } from './scenario-gen/ScenarioGenPage';
+export { SegmentsPage } from './segments/SegmentsPage';
 export { UiKitPage } from './ui/UiKitPage';
 export { UserProgressPage } from './user-progress/UserProgressPage';
+export { UserBulkOperationsPage } from './users/UserBulkOperationsPage';
 export { UserDetailsPage } from './users/UserDetailsPage';
 export { UsersPage } from './users/UsersPage';
 export { VideoDetailsPage } from './videos/VideoDetailsPage';
@@ -3,15 +3,19 @@ import { useQueryClient } from '@tanstack/react-query';
 import { type ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 
+import { usePermissions } from '@/app/auth';
 import {
-  createPlan as createPlanApi,
-  getPlans,
   useCreatePlan,
   useDeletePlan,
   usePlans,
   useUpdatePlanStatus,
 } from '@/app/plans';
 import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  downloadTransferFile,
+  getDefaultTransferSelection,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
 import { DownloadIcon, PlusIcon, UploadIcon } from '@/assets/icons';
 import {
   Alert,
@@ -33,17 +37,28 @@ import {
   Table,
   Typography,
 } from '@/atoms';
-import { type IPlan, type PlanItem, PlanPeriod, PlanType } from '@/common/types';
+import {
+  type IPlan,
+  Permission,
+  type PlanItem,
+  PlanPeriod,
+  PlanType,
+} from '@/common/types';
 import { capitalize } from '@/common/utils';
-import { ConfirmModal } from '@/components/molecules/confirm-modal/ConfirmModal';
+import { ConfirmModal, ImportPreviewModal } from '@/components/molecules';
 import { AppShell } from '@/components/templates';
 
+import {
+  buildPlansImportPreview,
+  fetchAllPlans,
+  importPlanTransferItems,
+} from './planImport';
 import s from './PlansPage.module.scss';
 import {
   buildPlansTransferFileName,
   buildPlansTransferPayload,
-  downloadPlansTransferFile,
   parsePlansTransferFile,
+  type PlanTransferItem,
 } from './plansTransfer';
 
 type QueryUpdate = {
@@ -194,9 +209,11 @@ function formatPlanItemsCount(items: IPlan['items']) {
   return `${count} ${count === 1 ? 'item' : 'items'}`;
 }
 
-function normalizePlanCode(value: string) {
-  return value.trim();
-}
+type PlansImportPreview = {
+  plans: PlanTransferItem[];
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+};
 
 export function PlansPage() {
   const queryClient = useQueryClient();
@@ -212,6 +229,10 @@ export function PlansPage() {
   const normalizedSearch = debouncedSearch.trim();
   const [isImporting, setIsImporting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<PlansImportPreview | null>(
+    null,
+  );
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
 
   const order = ORDER_VALUES.has(rawOrder ?? '') ? rawOrder! : DEFAULT_ORDER;
   const page = parsePositiveNumber(rawPage, 1);
@@ -282,6 +303,10 @@ export function PlansPage() {
   const updateStatusMutation = useUpdatePlanStatus();
   const createMutation = useCreatePlan();
   const deleteMutation = useDeletePlan();
+  const { can } = usePermissions();
+  const canEditPlans = can(Permission.PlansEdit);
+  const canEditPlanPrices = can(Permission.PlansEditPrice);
+  const canCreatePlans = canEditPlans && canEditPlanPrices;
 
   const plans = data?.data ?? [];
   const total = data?.total ?? 0;
@@ -517,6 +542,7 @@ export function PlansPage() {
   };
 
   const handleCreate = async () => {
+    if (!canCreatePlans) return;
     const code = createValues.code.trim();
     const periodCount = parsePositiveInteger(createValues.periodCount);
     const price = parsePositiveInteger(createValues.price);
@@ -564,7 +590,9 @@ export function PlansPage() {
 
   const handleUpdatePlan = async () => {
     if (!editTarget) return;
-    const price = parsePositiveInteger(editValues.price);
+    const price = canEditPlanPrices
+      ? parsePositiveInteger(editValues.price)
+      : editTarget.price;
     const { completeItems, hasIncomplete } = isEditAirPlan
       ? { completeItems: [] as PlanItem[], hasIncomplete: false }
       : normalizePlanItems(editValues.items);
@@ -596,33 +624,12 @@ export function PlansPage() {
     );
   };
 
-  const fetchAllPlans = useCallback(async () => {
-    const allPlans: IPlan[] = [];
-    let skip = 0;
-    const take = 200;
-
-    while (true) {
-      const pageData = await getPlans({
-        order: 'ASC',
-        skip,
-        take,
-      });
-      allPlans.push(...pageData.data);
-      skip += pageData.data.length;
-      if (skip >= pageData.total || pageData.data.length === 0) {
-        break;
-      }
-    }
-
-    return allPlans;
-  }, []);
-
   const handleExport = async () => {
     try {
       setIsExporting(true);
       const allPlans = await fetchAllPlans();
       const payload = buildPlansTransferPayload(allPlans);
-      downloadPlansTransferFile(payload, buildPlansTransferFileName());
+      downloadTransferFile(payload, buildPlansTransferFileName());
       notifySuccess('Plans exported.', 'Plans exported.');
     } catch (error) {
       notifyError(error, 'Unable to export plans.');
@@ -644,49 +651,40 @@ export function PlansPage() {
     setIsImporting(true);
     try {
       const imported = await parsePlansTransferFile(file);
-      const existingPlans = await fetchAllPlans();
-
-      const existingCodes = new Set(
-        existingPlans.map((plan) => normalizePlanCode(plan.code)),
-      );
-      const conflictingCodes = imported.plans
-        .map((plan) => normalizePlanCode(plan.code))
-        .filter((code) => existingCodes.has(code));
-
-      if (conflictingCodes.length > 0) {
-        throw new Error(
-          `Plan codes already exist in target environment: ${Array.from(new Set(conflictingCodes)).join(', ')}.`,
-        );
-      }
+      const entries = await buildPlansImportPreview(imported.plans, {
+        canEditPrices: canEditPlanPrices,
+      });
+      setImportPreview({
+        plans: imported.plans,
+        entries,
+        selectedKeys: getDefaultTransferSelection(entries),
+      });
+    } catch (error) {
+      notifyError(error, 'Unable to import plans.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      for (const plan of imported.plans) {
-        await createPlanApi({
-          code: normalizePlanCode(plan.code),
-          type: plan.type,
-          ...(plan.type === PlanType.Air
-            ? {}
-            : {
-                period: plan.period!,
-                periodCount: plan.periodCount!,
-              }),
-          price: plan.price,
-          air: plan.air,
-          isActive: plan.isActive,
-          isRecommended: plan.isRecommended,
-          ...(plan.type === PlanType.Air
-            ? {}
-            : plan.items && plan.items.length > 0
-              ? { items: plan.items }
-              : {}),
-        });
-      }
+  const handleApplyImport = async () => {
+    if (!importPreview) return;
 
+    setIsApplyingImport(true);
+    try {
+      const result = await importPlanTransferItems(importPreview.plans, {
+        selectedKeys: importPreview.selectedKeys,
+        canEditPrices: canEditPlanPrices,
+      });
       await queryClient.invalidateQueries({ queryKey: ['plans'] });
-      notifySuccess('Plans imported.', 'Plans imported.');
+      setImportPreview(null);
+      notifySuccess(
+        `Plans imported. Created: ${result.created}, updated: ${result.updated}, skipped: ${result.skipped}.`,
+        'Plans imported.',
+      );
     } catch (error) {
       notifyError(error, 'Unable to import plans.');
     } finally {
-      setIsImporting(false);
+      setIsApplyingImport(false);
     }
   };
 
@@ -766,7 +764,7 @@ export function PlansPage() {
               {formatDate(plan.updatedAt)}
             </Typography>
           ),
-          actions: (
+          actions: canEditPlans ? (
             <div className={s.actionsCell}>
               <IconButton
                 size="sm"
@@ -789,7 +787,7 @@ export function PlansPage() {
                 disabled={isActionPending}
               />
             </div>
-          ),
+          ) : null,
         };
       }),
     [
@@ -799,6 +797,7 @@ export function PlansPage() {
       deleteMutation.isPending,
       updateStatusMutation.isPending,
       openEditModal,
+      canEditPlans,
     ],
   );
 
@@ -859,22 +858,31 @@ export function PlansPage() {
               loading={isExporting}
               disabled={isImporting || createMutation.isPending}
             />
-            <IconButton
-              aria-label="Import plans"
-              tooltip="Import plans"
-              icon={<UploadIcon />}
-              variant="ghost"
-              onClick={handleImportButtonClick}
-              loading={isImporting}
-              disabled={isExporting || createMutation.isPending}
-            />
-            <Button
-              iconLeft={<PlusIcon />}
-              onClick={openCreateModal}
-              disabled={isImporting}
-            >
-              Create plan
-            </Button>
+            {canEditPlans ? (
+              <>
+                <IconButton
+                  aria-label="Import plans"
+                  tooltip="Import plans"
+                  icon={<UploadIcon />}
+                  variant="ghost"
+                  onClick={handleImportButtonClick}
+                  loading={isImporting}
+                  disabled={isExporting || createMutation.isPending}
+                />
+                <Button
+                  iconLeft={<PlusIcon />}
+                  onClick={openCreateModal}
+                  disabled={isImporting || !canCreatePlans}
+                  title={
+                    canCreatePlans
+                      ? undefined
+                      : 'Creating plans requires permission to edit prices.'
+                  }
+                >
+                  Create plan
+                </Button>
+              </>
+            ) : null}
           </ButtonGroup>
           <input
             ref={importInputRef}
@@ -935,7 +943,11 @@ export function PlansPage() {
           <EmptyState
             title="No plans found"
             description="Create a plan to get started."
-            action={<Button onClick={openCreateModal}>Create plan</Button>}
+            action={
+              canCreatePlans ? (
+                <Button onClick={openCreateModal}>Create plan</Button>
+              ) : undefined
+            }
           />
         ) : null}
 
@@ -1126,6 +1138,7 @@ export function PlansPage() {
                     price: event.target.value,
                   }))
                 }
+                disabled={!canEditPlanPrices}
                 fullWidth
               />
             </Field>
@@ -1321,6 +1334,7 @@ export function PlansPage() {
                     price: event.target.value,
                   }))
                 }
+                disabled={!canEditPlanPrices}
                 fullWidth
               />
             </Field>
@@ -1454,6 +1468,23 @@ export function PlansPage() {
         onConfirm={handleDeletePlan}
         onClose={() => setDeleteTarget(null)}
       />
+
+      <ImportPreviewModal
+        open={Boolean(importPreview)}
+        title="Review plans import"
+        entries={importPreview?.entries ?? []}
+        selectedKeys={importPreview?.selectedKeys ?? new Set()}
+        onSelectedKeysChange={(selectedKeys) =>
+          setImportPreview((current) =>
+            current ? { ...current, selectedKeys } : current,
+          )
+        }
+        isApplying={isApplyingImport}
+        onApply={() => void handleApplyImport()}
+        onClose={() => {
+          if (!isApplyingImport) setImportPreview(null);
+        }}
+      />
     </AppShell>
   );
 }
@@ -0,0 +1,164 @@
+import { createPlan, getPlans, updatePlan } from '@/app/plans';
+import {
+  buildTransferPreviewEntry,
+  isTransferKeySelected,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import { type IPlan, type PlanItem, PlanType } from '@/common/types';
+
+import type { PlanTransferItem } from './plansTransfer';
+
+const PLAN_LOCKED_FIELDS = ['type', 'period', 'periodCount', 'air'];
+
+export function normalizePlanCode(value: string) {
+  return value.trim();
+}
+
+export async function fetchAllPlans() {
+  const allPlans: IPlan[] = [];
+  let skip = 0;
+  const take = 200;
+
+  while (true) {
+    const pageData = await getPlans({
+      order: 'ASC',
+      skip,
+      take,
+    });
+    allPlans.push(...pageData.data);
+    skip += pageData.data.length;
+    if (skip >= pageData.total || pageData.data.length === 0) {
+      break;
+    }
+  }
+
+  return allPlans;
+}
+
+function normalizePlanItems(items: PlanItem[] | undefined) {
+  if (!items || items.length === 0) return undefined;
+  return items.map((item) => ({ emoji: item.emoji, value: item.value }));
+}
+
+function toPlanPreviewFields(plan: IPlan | PlanTransferItem) {
+  return {
+    type: plan.type,
+    period: plan.period,
+    periodCount: plan.periodCount,
+    price: plan.price,
+    air: plan.air,
+    isActive: plan.isActive,
+    isRecommended: plan.isRecommended,
+    items: normalizePlanItems(plan.items),
+  };
+}
+
+function indexPlansByCode(plans: IPlan[]) {
+  const plansByCode = new Map<string, IPlan>();
+  for (const plan of plans) {
+    plansByCode.set(normalizePlanCode(plan.code), plan);
+  }
+  return plansByCode;
+}
+
+type PlansImportPreviewOptions = {
+  canEditPrices: boolean;
+};
+
+type ImportPlansOptions = PlansImportPreviewOptions & {
+  selectedKeys?: Set<string>;
+};
+
+const PLAN_CREATE_PRICE_NOTE =
+  'Creating a plan sets its price, which requires permission to edit prices.';
+
+function buildPlanPreviewEntry(
+  plan: PlanTransferItem,
+  existing: IPlan | undefined,
+  { canEditPrices }: PlansImportPreviewOptions,
+): TransferPreviewEntry {
+  const code = normalizePlanCode(plan.code);
+  const entry = buildTransferPreviewEntry({
+    key: code,
+    label: code,
+    before: existing ? toPlanPreviewFields(existing) : null,
+    after: toPlanPreviewFields(plan),
+    lockedFields: canEditPrices
+      ? PLAN_LOCKED_FIELDS
+      : [...PLAN_LOCKED_FIELDS, 'price'],
+  });
+  if (!existing && !canEditPrices) {
+    return { ...entry, action: 'conflict', note: PLAN_CREATE_PRICE_NOTE };
+  }
+  return entry;
+}
+
+export async function buildPlansImportPreview(
+  plans: PlanTransferItem[],
+  options: PlansImportPreviewOptions,
+): Promise<TransferPreviewEntry[]> {
+  const existingByCode = indexPlansByCode(await fetchAllPlans());
+
+  return plans.map((plan) =>
+    buildPlanPreviewEntry(
+      plan,
+      existingByCode.get(normalizePlanCode(plan.code)),
+      options,
+    ),
+  );
+}
+
+export async function importPlanTransferItems(
+  plans: PlanTransferItem[],
+  { selectedKeys, canEditPrices }: ImportPlansOptions,
+) {
+  const existingByCode = indexPlansByCode(await fetchAllPlans());
+  let created = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  for (const plan of plans) {
+    const code = normalizePlanCode(plan.code);
+    if (!isTransferKeySelected(selectedKeys, code)) continue;
+
+    const existing = existingByCode.get(code);
+    const entry = buildPlanPreviewEntry(plan, existing, { canEditPrices });
+    if (entry.action === 'conflict' || entry.action === 'unchanged') {
+      skipped += 1;
+      continue;
+    }
+    if (existing) {
+      await updatePlan(existing.id, {
+        price: canEditPrices ? plan.price : existing.price,
+        isActive: plan.isActive,
+        isRecommended: plan.isRecommended,
+        ...(plan.type === PlanType.Air ? {} : { items: plan.items ?? [] }),
+      });
+      updated += 1;
+      continue;
+    }
+
+    await createPlan({
+      code,
+      type: plan.type,
+      ...(plan.type === PlanType.Air
+        ? {}
+        : {
+            period: plan.period!,
+            periodCount: plan.periodCount!,
+          }),
+      price: plan.price,
+      air: plan.air,
+      isActive: plan.isActive,
+      isRecommended: plan.isRecommended,
+      ...(plan.type === PlanType.Air
+        ? {}
+        : plan.items && plan.items.length > 0
+          ? { items: plan.items }
+          : {}),
+    });
+    created += 1;
+  }
+
+  return { created, updated, skipped };
+}
@@ -1,3 +1,15 @@
+import {
+  buildTransferEnvelope,
+  defineTransferSchema,
+  ensureArray,
+  ensureBoolean,
+  ensureNonEmptyString,
+  ensurePositiveInteger,
+  ensureRecord,
+  ensureString,
+  ensureUniqueKeys,
+  parseTransferFileAs,
+} from '@/app/transfer';
 import {
   type IPlan,
   type PlanItem,
@@ -29,53 +41,6 @@ export type PlansTransferPayload = {
   plans: PlanTransferItem[];
 };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
-function ensureRecord(value: unknown, path: string) {
-  if (!isRecord(value)) {
-    throw new Error(`Invalid import file: "${path}" must be an object.`);
-  }
-  return value;
-}
-
-function ensureString(value: unknown, path: string) {
-  if (typeof value !== 'string') {
-    throw new Error(`Invalid import file: "${path}" must be a string.`);
-  }
-  return value;
-}
-
-function ensureNonEmptyString(value: unknown, path: string) {
-  const parsed = ensureString(value, path).trim();
-  if (!parsed) {
-    throw new Error(`Invalid import file: "${path}" must not be empty.`);
-  }
-  return parsed;
-}
-
-function ensureBoolean(value: unknown, path: string) {
-  if (typeof value !== 'boolean') {
-    throw new Error(`Invalid import file: "${path}" must be a boolean.`);
-  }
-  return value;
-}
-
-function ensurePositiveInteger(value: unknown, path: string) {
-  if (
-    typeof value !== 'number' ||
-    !Number.isFinite(value) ||
-    value <= 0 ||
-    !Number.isInteger(value)
-  ) {
-    throw new Error(
-      `Invalid import file: "${path}" must be a whole number greater than 0.`,
-    );
-  }
-  return value;
-}
-
 function ensurePlanType(value: unknown, path: string) {
   const planType = ensureString(value, path);
   if (!Object.values(PlanType).includes(planType as PlanType)) {
@@ -96,10 +61,7 @@ function ensurePlanPeriod(value: unknown, path: string) {
 
 function parsePlanItems(value: unknown, path: string): PlanItem[] | undefined {
   if (value === undefined) return undefined;
-  if (!Array.isArray(value)) {
-    throw new Error(`Invalid import file: "${path}" must be an array.`);
-  }
-  return value.map((item, index) => {
+  return ensureArray(value, path).map((item, index) => {
     const itemObj = ensureRecord(item, `${path}[${index}]`);
     return {
       emoji: ensureNonEmptyString(itemObj.emoji, `${path}[${index}].emoji`),
@@ -172,18 +134,7 @@ function sanitizeItems(items: IPlan['items']) {
 }
 
 function ensureUniquePlanCodes(plans: PlanTransferItem[], path: string) {
-  const counts = new Map<string, number>();
-  for (const plan of plans) {
-    counts.set(plan.code, (counts.get(plan.code) ?? 0) + 1);
-  }
-  const duplicates = Array.from(counts.entries())
-    .filter(([, count]) => count > 1)
-    .map(([code]) => code);
-  if (duplicates.length > 0) {
-    throw new Error(
-      `Invalid import file: duplicate plan codes in "${path}": ${duplicates.join(', ')}.`,
-    );
-  }
+  ensureUniqueKeys(plans, (plan) => plan.code, 'plan codes', path);
 }
 
 export function buildPlansTransferPayload(plans: IPlan[]) {
@@ -213,9 +164,7 @@ export function buildPlansTransferPayload(plans: IPlan[]) {
   ensureUniquePlanCodes(mapped, 'plans');
 
   return {
-    schema: PLANS_TRANSFER_SCHEMA,
-    version: PLANS_TRANSFER_VERSION,
-    exportedAt: new Date().toISOString(),
+    ...buildTransferEnvelope(PLANS_TRANSFER_SCHEMA, PLANS_TRANSFER_VERSION),
     plans: mapped,
   } satisfies PlansTransferPayload;
 }
@@ -224,63 +173,24 @@ export function buildPlansTransferFileName() {
   return 'plans.json';
 }
 
-export function downloadPlansTransferFile(
-  payload: PlansTransferPayload,
-  fileName: string,
-) {
-  const blob = new Blob([JSON.stringify(payload, null, 2)], {
-    type: 'application/json',
-  });
-  const url = window.URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = fileName;
-  link.rel = 'noopener';
-  document.body.appendChild(link);
-  link.click();
-  link.remove();
-  window.URL.revokeObjectURL(url);
-}
-
-export async function parsePlansTransferFile(file: File) {
-  const text = await file.text();
-  let rawPayload: unknown;
-
-  try {
-    rawPayload = JSON.parse(text) as unknown;
-  } catch (_error) {
-    throw new Error('Invalid JSON file.');
-  }
-
-  const payloadObj = ensureRecord(rawPayload, 'root');
-  const schema = ensureString(payloadObj.schema, 'schema');
-  const version = payloadObj.version;
-
-  if (schema !== PLANS_TRANSFER_SCHEMA) {
-    throw new Error(
-      `Invalid import file: unsupported schema "${schema}". Expected "${PLANS_TRANSFER_SCHEMA}".`,
+export const plansTransferSchema = defineTransferSchema({
+  schema: PLANS_TRANSFER_SCHEMA,
+  version: PLANS_TRANSFER_VERSION,
+  parse: (payloadObj): PlansTransferPayload => {
+    const plans = ensureArray(payloadObj.plans, 'plans').map((plan, index) =>
+      parseTransferPlan(plan, `plans[${index}]`),
     );
-  }
-  if (version !== PLANS_TRANSFER_VERSION) {
-    throw new Error(
-      `Invalid import file: unsupported version "${String(version)}".`,
-    );
-  }
-
-  const plansValue = payloadObj.plans;
-  if (!Array.isArray(plansValue)) {
-    throw new Error('Invalid import file: "plans" must be an array.');
-  }
+    ensureUniquePlanCodes(plans, 'plans');
 
-  const plans = plansValue.map((plan, index) =>
-    parseTransferPlan(plan, `plans[${index}]`),
-  );
-  ensureUniquePlanCodes(plans, 'plans');
+    return {
+      schema: PLANS_TRANSFER_SCHEMA,
+      version: PLANS_TRANSFER_VERSION,
+      exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
+      plans,
+    };
+  },
+});
 
-  return {
-    schema: PLANS_TRANSFER_SCHEMA,
-    version: PLANS_TRANSFER_VERSION,
-    exportedAt: ensureString(payloadObj.exportedAt, 'exportedAt'),
-    plans,
-  } satisfies PlansTransferPayload;
+export async function parsePlansTransferFile(file: File) {
+  return parseTransferFileAs(plansTransferSchema, file);
 }
@@ -20,6 +20,7 @@ import {
   Typography,
 } from '@/atoms';
 import {
+  AuditEntityType,
   FileDir,
   type IFile,
   RoleplayStage,
@@ -27,6 +28,7 @@ import {
 } from '@/common/types';
 import { ConfirmModal } from '@/components/molecules/confirm-modal/ConfirmModal';
 import { FileUpload } from '@/components/molecules/file-upload/FileUpload';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
 import s from './PoseFormPage.module.scss';
@@ -358,6 +360,9 @@ export function PoseUpdatePage() {
             </div>
           </Stack>
         ) : null}
+        {data ? (
+          <ActivityPanel entityType={AuditEntityType.Pose} entityId={data.id} />
+        ) : null}
       </Container>
 
       <ConfirmModal
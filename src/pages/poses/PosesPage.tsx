@@ -10,14 +10,13 @@ import {
 } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 
-import {
-  createPosePrompt,
-  getPosePromptDetails,
-  getPosePrompts,
-  updatePosePrompt,
-  usePosePrompts,
-} from '@/app/pose-prompts';
+import { usePosePrompts } from '@/app/pose-prompts';
 import { notifyError, notifySuccess } from '@/app/toast';
+import {
+  downloadTransferFile,
+  getDefaultTransferSelection,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
 import { DownloadIcon, PlusIcon, UploadIcon } from '@/assets/icons';
 import {
   Alert,
@@ -36,23 +35,30 @@ import {
   Table,
   Typography,
 } from '@/atoms';
-import {
-  type CreatePosePromptDto,
-  type IPosePrompt,
-  type IPosePromptDetails,
-  Pose,
-} from '@/common/types';
+import { type IPosePrompt, Pose } from '@/common/types';
 import { poseOptions } from '@/common/utils';
+import { ImportPreviewModal } from '@/components/molecules';
 import { AppShell } from '@/components/templates';
 
+import {
+  buildPosesImportPreview,
+  fetchAllPosePromptDetails,
+  importPoseTransferItems,
+} from './poseImport';
 import s from './PosesPage.module.scss';
 import {
   buildPosesTransferFileName,
   buildPosesTransferPayload,
-  downloadPosesTransferFile,
   parsePosesTransferFile,
+  type PoseTransferItem,
 } from './poseTransfer';
 
+type PosesImportPreview = {
+  poses: PoseTransferItem[];
+  entries: TransferPreviewEntry[];
+  selectedKeys: Set<string>;
+};
+
 type QueryUpdate = {
   search?: string;
   pose?: string;
@@ -117,6 +123,10 @@ export function PosesPage() {
   const normalizedSearch = debouncedSearch.trim();
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<PosesImportPreview | null>(
+    null,
+  );
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
   const importInputRef = useRef<HTMLInputElement | null>(null);
 
   const page = parsePositiveNumber(rawPage, 1);
@@ -258,37 +268,12 @@ export function PosesPage() {
     navigate(`/poses/${pose.id}`);
   };
 
-  const fetchAllPosePromptSummaries = useCallback(async () => {
-    const all: IPosePrompt[] = [];
-    let skip = 0;
-    const take = 200;
-
-    while (true) {
-      const pageData = await getPosePrompts({
-        skip,
-        take,
-      });
-      all.push(...pageData.data);
-      skip += pageData.data.length;
-      if (skip >= pageData.total || pageData.data.length === 0) {
-        break;
-      }
-    }
-
-    return all;
-  }, []);
-
-  const fetchAllPosePromptDetails = useCallback(async () => {
-    const summaries = await fetchAllPosePromptSummaries();
-    return Promise.all(summaries.map((pose) => getPosePromptDetails(pose.id)));
-  }, [fetchAllPosePromptSummaries]);
-
   const handleExport = async () => {
     try {
       setIsExporting(true);
       const details = await fetchAllPosePromptDetails();
       const payload = buildPosesTransferPayload(details);
-      downloadPosesTransferFile(payload, buildPosesTransferFileName());
+      downloadTransferFile(payload, buildPosesTransferFileName());
       notifySuccess('Poses exported.', 'Poses exported.');
     } catch (error) {
       notifyError(error, 'Unable to export poses.');
@@ -311,63 +296,39 @@ export function PosesPage() {
 
     try {
       const imported = await parsePosesTransferFile(file);
-      const existing = await fetchAllPosePromptDetails();
-      const existingByIdx = new Map<number, IPosePromptDetails>();
-      const duplicateIdx: number[] = [];
-
-      for (const pose of existing) {
-        const alreadyExists = existingByIdx.get(pose.idx);
-        if (alreadyExists) {
-          duplicateIdx.push(pose.idx);
-          continue;
-        }
-        existingByIdx.set(pose.idx, pose);
-      }
-
-      if (duplicateIdx.length > 0) {
-        const uniqueDuplicateIdx = Array.from(new Set(duplicateIdx)).sort(
-          (a, b) => a - b,
-        );
-        throw new Error(
-          `Existing poses contain duplicate idx values: ${uniqueDuplicateIdx.join(', ')}.`,
-        );
-      }
+      const entries = await buildPosesImportPreview(imported.poses);
+      setImportPreview({
+        poses: imported.poses,
+        entries,
+        selectedKeys: getDefaultTransferSelection(entries),
+      });
+    } catch (error) {
+      notifyError(error, 'Unable to import poses.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      let created = 0;
-      let updated = 0;
-
-      for (const pose of imported.poses) {
-        const payload: CreatePosePromptDto = {
-          idx: pose.idx,
-          note: pose.note,
-          isAnal: pose.isAnal,
-          stages: pose.stages,
-          pose: pose.pose,
-          angle: pose.angle,
-          prompt: pose.prompt,
-          videoPrompt: pose.videoPrompt,
-        };
-
-        const existingPose = existingByIdx.get(pose.idx);
-        if (existingPose) {
-          await updatePosePrompt(existingPose.id, payload);
-          updated += 1;
-          continue;
-        }
+  const handleApplyImport = async () => {
+    if (!importPreview) return;
 
-        await createPosePrompt(payload);
-        created += 1;
-      }
+    setIsApplyingImport(true);
+    try {
+      const { created, updated } = await importPoseTransferItems(
+        importPreview.poses,
+        importPreview.selectedKeys,
+      );
 
       await queryClient.invalidateQueries({ queryKey: ['pose-prompts'] });
+      setImportPreview(null);
       notifySuccess(
+        `Poses imported: ${updated} updated, ${created} created.`,
         'Poses imported.',
-        `Imported ${imported.poses.length} poses: ${updated} updated, ${created} created.`,
       );
     } catch (error) {
       notifyError(error, 'Unable to import poses.');
     } finally {
-      setIsImporting(false);
+      setIsApplyingImport(false);
     }
   };
 
@@ -532,6 +493,23 @@ export function PosesPage() {
           </div>
         ) : null}
       </Container>
+
+      <ImportPreviewModal
+        open={Boolean(importPreview)}
+        title="Review poses import"
+        entries={importPreview?.entries ?? []}
+        selectedKeys={importPreview?.selectedKeys ?? new Set()}
+        onSelectedKeysChange={(selectedKeys) =>
+          setImportPreview((current) =>
+            current ? { ...current, selectedKeys } : current,
+          )
+        }
+        isApplying={isApplyingImport}
+        onApply={() => void handleApplyImport()}
+        onClose={() => {
+          if (!isApplyingImport) setImportPreview(null);
+        }}
+      />
     </AppShell>
   );
 }
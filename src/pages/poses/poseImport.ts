@@ -0,0 +1,133 @@
+import {
+  createPosePrompt,
+  getPosePromptDetails,
+  getPosePrompts,
+  updatePosePrompt,
+} from '@/app/pose-prompts';
+import {
+  buildTransferPreviewEntry,
+  isTransferKeySelected,
+  type TransferPreviewEntry,
+} from '@/app/transfer';
+import type {
+  CreatePosePromptDto,
+  IPosePrompt,
+  IPosePromptDetails,
+} from '@/common/types';
+import { normalizeRoleplayStages } from '@/common/utils';
+
+import type { PoseTransferItem } from './poseTransfer';
+
+export async function fetchAllPosePromptSummaries() {
+  const all: IPosePrompt[] = [];
+  let skip = 0;
+  const take = 200;
+
+  while (true) {
+    const pageData = await getPosePrompts({
+      skip,
+      take,
+    });
+    all.push(...pageData.data);
+    skip += pageData.data.length;
+    if (skip >= pageData.total || pageData.data.length === 0) {
+      break;
+    }
+  }
+
+  return all;
+}
+
+export async function fetchAllPosePromptDetails() {
+  const summaries = await fetchAllPosePromptSummaries();
+  return Promise.all(summaries.map((pose) => getPosePromptDetails(pose.id)));
+}
+
+function indexPosesByIdx(existing: IPosePromptDetails[]) {
+  const existingByIdx = new Map<number, IPosePromptDetails>();
+  const duplicateIdx: number[] = [];
+
+  for (const pose of existing) {
+    const alreadyExists = existingByIdx.get(pose.idx);
+    if (alreadyExists) {
+      duplicateIdx.push(pose.idx);
+      continue;
+    }
+    existingByIdx.set(pose.idx, pose);
+  }
+
+  if (duplicateIdx.length > 0) {
+    const uniqueDuplicateIdx = Array.from(new Set(duplicateIdx)).sort(
+      (a, b) => a - b,
+    );
+    throw new Error(
+      `Existing poses contain duplicate idx values: ${uniqueDuplicateIdx.join(', ')}.`,
+    );
+  }
+
+  return existingByIdx;
+}
+
+function toPosePreviewFields(pose: IPosePromptDetails | PoseTransferItem) {
+  return {
+    note: pose.note?.trim(),
+    isAnal: Boolean(pose.isAnal),
+    stages: normalizeRoleplayStages(pose.stages).join(', '),
+    pose: pose.pose,
+    angle: pose.angle,
+    prompt: pose.prompt,
+    videoPrompt: pose.videoPrompt?.trim(),
+  };
+}
+
+export async function buildPosesImportPreview(
+  poses: PoseTransferItem[],
+): Promise<TransferPreviewEntry[]> {
+  const existingByIdx = indexPosesByIdx(await fetchAllPosePromptDetails());
+
+  return poses.map((pose) => {
+    const existingPose = existingByIdx.get(pose.idx);
+    return buildTransferPreviewEntry({
+      key: String(pose.idx),
+      label: `#${pose.idx} ${pose.pose}`,
+      before: existingPose ? toPosePreviewFields(existingPose) : null,
+      after: toPosePreviewFields(pose),
+    });
+  });
+}
+
+export async function importPoseTransferItems(
+  poses: PoseTransferItem[],
+  selectedKeys?: Set<string>,
+) {
+  const existingByIdx = indexPosesByIdx(await fetchAllPosePromptDetails());
+  let created = 0;
+  let updated = 0;
+
+  for (const pose of poses) {
+    if (!isTransferKeySelected(selectedKeys, String(pose.idx))) continue;
+
+    const payload: CreatePosePromptDto = {
+      idx: pose.idx,
+      note: pose.note,
+      isAnal: pose.isAnal,
+      stages: pose.stages,
+      pose: pose.pose,
+      angle: pose.angle,
+      prompt: pose.prompt,
+      videoPrompt: pose.videoPrompt,
+    };
+
+    const existingPose = existingByIdx.get(pose.idx);
+    if (existingPose) {
+      await updatePosePrompt(existingPose.id, payload);
+      updated += 1;
+      continue;
+    }
+
+    await createPosePrompt(payload);
+    created += 1;
+  }
+
+  return { created, updated };
+}
@@ -29,6 +29,7 @@ import {
 } from '@/common/types';
 import { formatCharacterSelectLabel } from '@/common/utils';
 import { AppShell } from '@/components/templates';
+import { AnnotationsSection } from '@/pages/analytics/components/AnnotationsSection';
 
 import { PostUpsertDrawer } from './components/PostUpsertDrawer';
 import s from './PostAnalyticsPage.module.scss';
@@ -626,6 +627,12 @@ export function PostAnalyticsPage() {
             />
           </Section>
         ) : null}
+
+        <AnnotationsSection
+          from={start}
+          to={end}
+          description="Releases, campaigns and incidents in the selected period."
+        />
       </Container>
 
       <PostUpsertDrawer
@@ -41,6 +41,7 @@ import {
   Drawer,
   SearchSelect,
   type SearchSelectOption,
+  TelegramMessagePreview,
 } from '@/components/molecules';
 
 import { getLanguageLabel } from '../postLocalization';
@@ -794,6 +795,23 @@ export function PostUpsertDrawer({
           />
         </Field>
 
+        <Field label="Preview">
+          <TelegramMessagePreview
+            text={values.text}
+            media={
+              resolvedMedia
+                ? [
+                    {
+                      type: values.type === PostType.Video ? 'video' : 'image',
+                      url: resolvedMedia.url,
+                      name: resolvedMedia.name,
+                    },
+                  ]
+                : []
+            }
+          />
+        </Field>
+
         {post ? (
           <Field label="Localizations">
             {localizationEntries.length > 0 ? (
@@ -12,13 +12,18 @@ import {
   Select,
   Stack,
   Switch,
-  Textarea,
   Typography,
 } from '@/atoms';
-import { MODEL_PROVIDER_OPTIONS, PROMPT_TYPE_OPTIONS } from '@/common/consts';
+import {
+  MODEL_PROVIDER_OPTIONS,
+  PROMPT_PLACEHOLDER_CONTRACTS,
+  PROMPT_TYPE_OPTIONS,
+} from '@/common/consts';
 import { ModelProvider, PromptType } from '@/common/types';
+import { lintPromptText } from '@/common/utils';
 import { AppShell } from '@/components/templates';
 
+import { PromptTextEditor } from './components/PromptTextEditor';
 import s from './PromptFormPage.module.scss';
 
 export function PromptCreatePage() {
@@ -54,6 +59,12 @@ export function PromptCreatePage() {
     setShowErrors(false);
   }, [initialValues]);
 
+  const placeholderContract = PROMPT_PLACEHOLDER_CONTRACTS[values.type];
+  const lint = useMemo(
+    () => lintPromptText(values.text, placeholderContract),
+    [placeholderContract, values.text],
+  );
+
   const errors = useMemo(() => {
     if (!showErrors) return {};
     const next: { name?: string; text?: string } = {};
@@ -62,13 +73,15 @@ export function PromptCreatePage() {
     }
     if (!values.text.trim()) {
       next.text = 'Enter prompt text.';
+    } else if (lint.hasErrors) {
+      next.text = 'Add the missing required placeholders.';
     }
     return next;
-  }, [showErrors, values.name, values.text]);
+  }, [lint.hasErrors, showErrors, values.name, values.text]);
 
   const isValid = useMemo(
-    () => Boolean(values.name.trim() && values.text.trim()),
-    [values.name, values.text],
+    () => Boolean(values.name.trim() && values.text.trim() && !lint.hasErrors),
+    [lint.hasErrors, values.name, values.text],
   );
 
   const handleCreate = async () => {
@@ -78,7 +91,7 @@ export function PromptCreatePage() {
       name: name ? undefined : 'Enter a name.',
       text: text ? undefined : 'Enter prompt text.',
     };
-    if (nextErrors.name || nextErrors.text) {
+    if (nextErrors.name || nextErrors.text || lint.hasErrors) {
       setShowErrors(true);
       return;
     }
@@ -92,6 +105,18 @@ export function PromptCreatePage() {
     navigate('/prompts');
   };
 
+  const handleOpenPlayground = () => {
+    navigate('/prompts/playground', {
+      state: {
+        draft: {
+          text: values.text,
+          type: values.type,
+          modelProvider: values.modelProvider,
+        },
+      },
+    });
+  };
+
   return (
     <AppShell>
       <Container size="wide" className={s.page}>
@@ -173,32 +198,30 @@ export function PromptCreatePage() {
             </Field>
           </FormRow>
 
-          <Field label="Text" labelFor="prompt-create-text" error={errors.text}>
-            <Textarea
+          <Field
+            label="Text"
+            labelFor="prompt-create-text"
+            error={errors.text}
+          >
+            <PromptTextEditor
               id="prompt-create-text"
-              size="sm"
-              autoComplete="off"
-              // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-              // @ts-expect-error
-              dataGramm="false"
-              dataGramm_editor="false"
-              spellcheck="false"
-              autocomplete="off"
-              autocorrect="off"
-              autocapitalize="off"
               value={values.text}
-              onChange={(event) =>
-                setValues((prev) => ({
-                  ...prev,
-                  text: event.target.value,
-                }))
-              }
+              onChange={(text) => setValues((prev) => ({ ...prev, text }))}
+              contract={placeholderContract}
+              lint={lint}
               rows={20}
-              fullWidth
+              invalid={Boolean(errors.text)}
             />
           </Field>
 
           <div className={s.actions}>
+            <Button
+              variant="text"
+              onClick={handleOpenPlayground}
+              disabled={!values.text.trim() || createMutation.isPending}
+            >
+              Test in playground
+            </Button>
             <Button
               variant="secondary"
               onClick={() => navigate('/prompts')}
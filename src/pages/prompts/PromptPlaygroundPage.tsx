@@ -0,0 +1,472 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Link,
+  useLocation,
+  useNavigate,
+  useSearchParams,
+} from 'react-router-dom';
+
+import { useChatDetails } from '@/app/chats';
+import {
+  getPromptDetails,
+  usePrompts,
+  useRunPromptPlayground,
+} from '@/app/prompts';
+import { notifyError } from '@/app/toast';
+import {
+  Alert,
+  Badge,
+  Button,
+  Card,
+  Checkbox,
+  Container,
+  EmptyState,
+  Field,
+  FormRow,
+  Input,
+  Section,
+  Select,
+  Skeleton,
+  Stack,
+  Textarea,
+  Typography,
+} from '@/atoms';
+import { MODEL_PROVIDER_OPTIONS, PROMPT_TYPE_OPTIONS } from '@/common/consts';
+import {
+  type IChatMessage,
+  type IPromptPlaygroundRun,
+  ModelProvider,
+  PromptType,
+} from '@/common/types';
+import { formatRoleplayStage, parseChatLlmResponse } from '@/common/utils';
+import { ChatLlmResponseContent } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import s from './PromptPlaygroundPage.module.scss';
+
+type PlaygroundDraft = {
+  text: string;
+  type: PromptType;
+  modelProvider?: ModelProvider;
+};
+
+const PLAYGROUND_PROMPT_TYPES = new Set<PromptType>([
+  PromptType.Chat,
+  PromptType.Ping,
+  PromptType.BlurredPhoto,
+  PromptType.TurnCold,
+  PromptType.GiftBought,
+]);
+
+const PLAYGROUND_TYPE_OPTIONS = PROMPT_TYPE_OPTIONS.filter((option) =>
+  PLAYGROUND_PROMPT_TYPES.has(option.value),
+);
+
+const CHAT_ID_DEBOUNCE_MS = 400;
+
+const numberFormatter = new Intl.NumberFormat('en-US');
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+function formatModelProvider(value: ModelProvider) {
+  return (
+    MODEL_PROVIDER_OPTIONS.find((option) => option.value === value)?.label ??
+    value
+  );
+}
+
+function formatLatency(value: number) {
+  if (value < 1000) return `${Math.round(value)} ms`;
+  return `${(value / 1000).toFixed(2)} s`;
+}
+
+function formatRoleLabel(role: IChatMessage['role']) {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function parseHistoryLength(value: string, max: number) {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) return null;
+  return parsed;
+}
+
+function PlaygroundOutput({ content }: { content: string }) {
+  const response = parseChatLlmResponse(content);
+
+  if (!response) {
+    return (
+      <Stack gap="8px">
+        <Alert
+          tone="warning"
+          title="Not a valid chat response"
+          description="The output could not be parsed as ChatLlmResponse JSON."
+        />
+        <Typography variant="body" className={s.raw}>
+          {content}
+        </Typography>
+      </Stack>
+    );
+  }
+
+  return <ChatLlmResponseContent response={response} />;
+}
+
+function PlaygroundRunCard({ run }: { run: IPromptPlaygroundRun }) {
+  return (
+    <Card className={s.result} padding="md">
+      <div className={s.resultHeader}>
+        <Typography variant="h3">
+          {formatModelProvider(run.modelProvider)}
+        </Typography>
+        <div className={s.resultMeta}>
+          <Badge tone="accent" outline>
+            {formatLatency(run.latencyMs)}
+          </Badge>
+          <Badge tone="accent" outline>
+            {`${numberFormatter.format(run.promptTokens)} in / ${numberFormatter.format(run.completionTokens)} out`}
+          </Badge>
+        </div>
+      </div>
+      {run.error ? (
+        <Alert tone="danger" title="Run failed" description={run.error} />
+      ) : run.content ? (
+        <PlaygroundOutput content={run.content} />
+      ) : (
+        <Typography variant="body" tone="muted">
+          Empty response.
+        </Typography>
+      )}
+    </Card>
+  );
+}
+
+export function PromptPlaygroundPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const draft = (location.state as { draft?: PlaygroundDraft } | null)?.draft;
+  const runMutation = useRunPromptPlayground();
+
+  const [type, setType] = useState<PromptType>(
+    draft && PLAYGROUND_PROMPT_TYPES.has(draft.type)
+      ? draft.type
+      : PromptType.Chat,
+  );
+  const [text, setText] = useState(draft?.text ?? '');
+  const [modelProviders, setModelProviders] = useState<ModelProvider[]>(
+    draft?.modelProvider
+      ? [draft.modelProvider]
+      : MODEL_PROVIDER_OPTIONS.map((option) => option.value),
+  );
+  const [chatIdInput, setChatIdInput] = useState(
+    searchParams.get('chatId') ?? '',
+  );
+  const [historyLengthInput, setHistoryLengthInput] = useState('');
+  const [loadingPromptId, setLoadingPromptId] = useState<string | null>(null);
+
+  const chatId = useDebouncedValue(chatIdInput.trim(), CHAT_ID_DEBOUNCE_MS);
+  const {
+    data: chat,
+    error: chatError,
+    isLoading: isChatLoading,
+  } = useChatDetails(chatId || null);
+  const { data: promptsData, isLoading: isPromptsLoading } = usePrompts({
+    type,
+    order: 'DESC',
+    take: 100,
+  });
+
+  const promptOptions = useMemo(
+    () => [
+      { label: 'Select saved prompt', value: '' },
+      ...(promptsData?.data ?? []).map((prompt) => ({
+        label: `${prompt.name} · ${formatModelProvider(prompt.modelProvider)} · v${prompt.version}`,
+        value: prompt.id,
+      })),
+    ],
+    [promptsData?.data],
+  );
+
+  const history = useMemo(() => chat?.history ?? [], [chat?.history]);
+  const historyLength = parseHistoryLength(historyLengthInput, history.length);
+  const contextLength = historyLength ?? history.length;
+  const lastContextMessage = history[contextLength - 1];
+  const runVariables = runMutation.variables;
+  const runContextLength = runVariables?.historyLength ?? history.length;
+  const productionReply =
+    runVariables?.chatId === chat?.id && runContextLength < history.length
+      ? history
+          .slice(runContextLength)
+          .find((message) => message.role === 'assistant')
+      : undefined;
+
+  const canRun =
+    Boolean(text.trim()) &&
+    Boolean(chat) &&
+    chat?.id === chatIdInput.trim() &&
+    modelProviders.length > 0 &&
+    historyLength !== null &&
+    !runMutation.isPending;
+
+  const handleToggleProvider = (provider: ModelProvider, checked: boolean) => {
+    setModelProviders((prev) =>
+      checked
+        ? MODEL_PROVIDER_OPTIONS.map((option) => option.value).filter(
+            (value) => value === provider || prev.includes(value),
+          )
+        : prev.filter((value) => value !== provider),
+    );
+  };
+
+  const handleLoadPrompt = async (id: string) => {
+    if (!id) return;
+    setLoadingPromptId(id);
+    try {
+      const prompt = await getPromptDetails(id);
+      setText(prompt.text);
+      setModelProviders([prompt.modelProvider]);
+    } catch (error) {
+      notifyError(error, 'Unable to load the prompt details.');
+    } finally {
+      setLoadingPromptId(null);
+    }
+  };
+
+  const handleRun = () => {
+    if (!chat || !canRun) return;
+    runMutation.mutate({
+      type,
+      text: text.trim(),
+      chatId: chat.id,
+      modelProviders,
+      historyLength: historyLength ?? undefined,
+    });
+  };
+
+  return (
+    <AppShell>
+      <Container size="wide" className={s.page}>
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Prompt playground</Typography>
+            <Typography variant="meta" tone="muted">
+              Run a draft prompt against a real chat history without shipping it
+              to users.
+            </Typography>
+          </div>
+          <Button variant="secondary" onClick={() => navigate('/prompts')}>
+            Back to prompts
+          </Button>
+        </div>
+
+        <div className={s.layout}>
+          <Section title="Prompt">
+            <Stack gap="16px">
+              <FormRow columns={2}>
+                <Field label="Type" labelFor="playground-type">
+                  <Select
+                    id="playground-type"
+                    size="sm"
+                    options={PLAYGROUND_TYPE_OPTIONS}
+                    value={type}
+                    onChange={(value) => setType(value as PromptType)}
+                    fullWidth
+                  />
+                </Field>
+                <Field label="Load saved prompt" labelFor="playground-prompt">
+                  <Select
+                    id="playground-prompt"
+                    size="sm"
+                    options={promptOptions}
+                    value=""
+                    onChange={(value) => void handleLoadPrompt(value)}
+                    disabled={isPromptsLoading || Boolean(loadingPromptId)}
+                    fullWidth
+                  />
+                </Field>
+              </FormRow>
+              <Field label="Text" labelFor="playground-text">
+                <Textarea
+                  id="playground-text"
+                  size="sm"
+                  value={text}
+                  onChange={(event) => setText(event.target.value)}
+                  rows={16}
+                  disabled={Boolean(loadingPromptId)}
+                  fullWidth
+                />
+              </Field>
+              <Field label="Model providers">
+                <div className={s.providers}>
+                  {MODEL_PROVIDER_OPTIONS.map((option) => (
+                    <Checkbox
+                      key={option.value}
+                      label={option.label}
+                      checked={modelProviders.includes(option.value)}
+                      onChange={(event) =>
+                        handleToggleProvider(option.value, event.target.checked)
+                      }
+                    />
+                  ))}
+                </div>
+              </Field>
+            </Stack>
+          </Section>
+
+          <Section
+            title="Sample chat"
+            description={
+              <>
+                Paste a chat ID or pick one with “Playground” on the{' '}
+                <Link to="/chats">Chats</Link> page.
+              </>
+            }
+          >
+            <Stack gap="16px">
+              <FormRow columns={2}>
+                <Field label="Chat ID" labelFor="playground-chat">
+                  <Input
+                    id="playground-chat"
+                    size="sm"
+                    value={chatIdInput}
+                    onChange={(event) => setChatIdInput(event.target.value)}
+                    placeholder="Chat ID"
+                    fullWidth
+                  />
+                </Field>
+                <Field
+                  label="Messages in context"
+                  labelFor="playground-history-length"
+                  error={
+                    historyLength === null
+                      ? `Enter a number from 1 to ${history.length}.`
+                      : undefined
+                  }
+                >
+                  <Input
+                    id="playground-history-length"
+                    size="sm"
+                    type="number"
+                    min={1}
+                    max={history.length || undefined}
+                    value={historyLengthInput}
+                    onChange={(event) =>
+                      setHistoryLengthInput(event.target.value)
+                    }
+                    placeholder={
+                      chat ? `All ${history.length}` : 'Whole history'
+                    }
+                    disabled={!chat}
+                    fullWidth
+                  />
+                </Field>
+              </FormRow>
+
+              {chatError ? (
+                <Alert
+                  tone="warning"
+                  title="Unable to load chat"
+                  description={
+                    chatError instanceof Error
+                      ? chatError.message
+                      : 'Please try again.'
+                  }
+                />
+              ) : null}
+
+              {isChatLoading ? <Skeleton width="100%" height={96} /> : null}
+
+              {chat ? (
+                <div className={s.chatSummary}>
+                  <div className={s.chatMeta}>
+                    <Typography variant="body">
+                      {chat.character?.name ?? '-'} /{' '}
+                      {chat.scenario?.name ?? '-'}
+                    </Typography>
+                    <Badge tone="accent" outline>
+                      {formatRoleplayStage(chat.stage)}
+                    </Badge>
+                    <Button
+                      as={Link}
+                      to={`/chats/${chat.id}`}
+                      size="sm"
+                      variant="text"
+                    >
+                      Open chat
+                    </Button>
+                  </div>
+                  {lastContextMessage ? (
+                    <Stack gap="4px">
+                      <Typography variant="caption" tone="muted">
+                        {`Last message in context (${formatRoleLabel(
+                          lastContextMessage.role,
+                        )}, #${contextLength})`}
+                      </Typography>
+                      <Typography variant="body" className={s.lastMessage}>
+                        {lastContextMessage.content}
+                      </Typography>
+                    </Stack>
+                  ) : (
+                    <Typography variant="caption" tone="muted">
+                      This chat has no history yet.
+                    </Typography>
+                  )}
+                </div>
+              ) : null}
+            </Stack>
+          </Section>
+        </div>
+
+        <div className={s.actions}>
+          <Button
+            onClick={handleRun}
+            loading={runMutation.isPending}
+            disabled={!canRun}
+          >
+            Run prompt
+          </Button>
+        </div>
+
+        {runMutation.data ? (
+          <div className={s.results}>
+            {runMutation.data.map((run) => (
+              <PlaygroundRunCard key={run.modelProvider} run={run} />
+            ))}
+            {productionReply ? (
+              <Card className={s.result} padding="md" variant="muted">
+                <div className={s.resultHeader}>
+                  <Typography variant="h3">Production</Typography>
+                  <Badge tone="success" outline>
+                    Actual reply
+                  </Badge>
+                </div>
+                <PlaygroundOutput content={productionReply.content} />
+              </Card>
+            ) : null}
+          </div>
+        ) : runMutation.isPending ? (
+          <div className={s.results}>
+            {modelProviders.map((provider) => (
+              <Skeleton key={provider} width="100%" height={220} />
+            ))}
+          </div>
+        ) : (
+          <EmptyState
+            title="No runs yet"
+            description="Pick a chat and model providers, then run the prompt to compare outputs."
+          />
+        )}
+      </Container>
+    </AppShell>
+  );
+}
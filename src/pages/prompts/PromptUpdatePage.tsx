@@ -17,14 +17,21 @@ import {
   Skeleton,
   Stack,
   Switch,
-  Textarea,
   Typography,
 } from '@/atoms';
-import { MODEL_PROVIDER_OPTIONS, PROMPT_TYPE_OPTIONS } from '@/common/consts';
-import { PromptType } from '@/common/types';
+import {
+  MODEL_PROVIDER_OPTIONS,
+  PROMPT_PLACEHOLDER_CONTRACTS,
+  PROMPT_TYPE_OPTIONS,
+} from '@/common/consts';
+import { AuditEntityType, PromptType } from '@/common/types';
+import { lintPromptText } from '@/common/utils';
 import { ConfirmModal } from '@/components/molecules/confirm-modal/ConfirmModal';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
+import { PromptTextEditor } from './components/PromptTextEditor';
+import { PromptVersionsPanel } from './components/PromptVersionsPanel';
 import s from './PromptFormPage.module.scss';
 
 
@@ -59,6 +66,15 @@ export function PromptUpdatePage() {
     setShowErrors(false);
   }, [data]);
 
+  const placeholderContract = useMemo(
+    () => (data ? PROMPT_PLACEHOLDER_CONTRACTS[data.type] : []),
+    [data],
+  );
+  const lint = useMemo(
+    () => lintPromptText(values.text, placeholderContract),
+    [placeholderContract, values.text],
+  );
+
   const errors = useMemo(() => {
     if (!showErrors) return {};
     const next: { name?: string; text?: string } = {};
@@ -67,13 +83,15 @@ export function PromptUpdatePage() {
     }
     if (!values.text.trim()) {
       next.text = 'Enter prompt text.';
+    } else if (lint.hasErrors) {
+      next.text = 'Add the missing required placeholders.';
     }
     return next;
-  }, [showErrors, values.name, values.text]);
+  }, [lint.hasErrors, showErrors, values.name, values.text]);
 
   const isValid = useMemo(
-    () => Boolean(values.name.trim() && values.text.trim()),
-    [values.name, values.text],
+    () => Boolean(values.name.trim() && values.text.trim() && !lint.hasErrors),
+    [lint.hasErrors, values.name, values.text],
   );
 
   const handleUpdate = async () => {
@@ -84,7 +102,7 @@ export function PromptUpdatePage() {
       name: name ? undefined : 'Enter a name.',
       text: text ? undefined : 'Enter prompt text.',
     };
-    if (nextErrors.name || nextErrors.text) {
+    if (nextErrors.name || nextErrors.text || lint.hasErrors) {
       setShowErrors(true);
       return;
     }
@@ -120,6 +138,19 @@ export function PromptUpdatePage() {
     });
   };
 
+  const handleOpenPlayground = () => {
+    if (!data) return;
+    navigate('/prompts/playground', {
+      state: {
+        draft: {
+          text: values.text,
+          type: data.type,
+          modelProvider: data.modelProvider,
+        },
+      },
+    });
+  };
+
   const isReady = Boolean(data);
 
   return (
@@ -223,19 +254,14 @@ export function PromptUpdatePage() {
             </FormRow>
 
             <Field label="Text" labelFor="prompt-edit-text" error={errors.text}>
-              <Textarea
+              <PromptTextEditor
                 id="prompt-edit-text"
-                size="sm"
                 value={values.text}
-                onChange={(event) =>
-                  setValues((prev) => ({
-                    ...prev,
-                    text: event.target.value,
-                  }))
-                }
-                rows={19}
+                onChange={(text) => setValues((prev) => ({ ...prev, text }))}
+                contract={placeholderContract}
+                lint={lint}
                 disabled={!isReady || updateMutation.isPending}
-                fullWidth
+                invalid={Boolean(errors.text)}
               />
             </Field>
 
@@ -247,6 +273,13 @@ export function PromptUpdatePage() {
               >
                 Use as template
               </Button>
+              <Button
+                variant="text"
+                onClick={handleOpenPlayground}
+                disabled={!isReady || !values.text.trim()}
+              >
+                Test in playground
+              </Button>
               <Button
                 variant="ghost"
                 tone="danger"
@@ -280,6 +313,13 @@ export function PromptUpdatePage() {
             </div>
           </Stack>
         )}
+        {data ? <PromptVersionsPanel prompt={data} /> : null}
+        {data ? (
+          <ActivityPanel
+            entityType={AuditEntityType.Prompt}
+            entityId={data.id}
+          />
+        ) : null}
       </Container>
       <ConfirmModal
         open={isDeleteOpen}
@@ -2,7 +2,7 @@ import { MagnifyingGlassIcon } from '@radix-ui/react-icons';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 
-import { usePrompts } from '@/app/prompts';
+import { usePromptPins, usePrompts } from '@/app/prompts';
 import { PlusIcon } from '@/assets/icons';
 import {
   Alert,
@@ -213,6 +213,7 @@ export function PromptsPage() {
   }, [activeFilter, normalizedSearch, order, page, pageSize, typeFilter]);
 
   const { data, error, isLoading, refetch } = usePrompts(queryParams);
+  const { data: pins } = usePromptPins();
 
   const prompts = data?.data ?? [];
   const total = data?.total ?? 0;
@@ -227,6 +228,11 @@ export function PromptsPage() {
     }
   }, [data, page, total, totalPages, updateSearchParams]);
 
+  const pinnedVersions = useMemo(
+    () => new Map((pins ?? []).map((pin) => [pin.promptId, pin.version])),
+    [pins],
+  );
+
   const columns = useMemo(
     () => [
       { key: 'prompt', label: 'Prompt' },
@@ -261,9 +267,16 @@ export function PromptsPage() {
           </Typography>
         ),
         version: (
-          <Typography variant="body" tone="muted">
-            {prompt.version}
-          </Typography>
+          <div className={s.versionCell}>
+            <Typography variant="body" tone="muted">
+              {prompt.version}
+            </Typography>
+            {pinnedVersions.has(prompt.id) ? (
+              <Badge tone="accent" outline>
+                Pinned v{pinnedVersions.get(prompt.id)}
+              </Badge>
+            ) : null}
+          </div>
         ),
         status: prompt.isActive ? (
           <Badge tone="success">Active</Badge>
@@ -278,7 +291,7 @@ export function PromptsPage() {
           </Typography>
         ),
       })),
-    [prompts],
+    [pinnedVersions, prompts],
   );
 
   const skeletonRows = useMemo(
@@ -323,12 +336,20 @@ export function PromptsPage() {
           <div className={s.titleBlock}>
             <Typography variant="h2">Prompts</Typography>
           </div>
-          <Button
-            iconLeft={<PlusIcon />}
-            onClick={() => navigate('/prompts/new')}
-          >
-            Create prompt
-          </Button>
+          <div className={s.headerActions}>
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/prompts/playground')}
+            >
+              Playground
+            </Button>
+            <Button
+              iconLeft={<PlusIcon />}
+              onClick={() => navigate('/prompts/new')}
+            >
+              Create prompt
+            </Button>
+          </div>
         </div>
 
         <div className={s.filters}>
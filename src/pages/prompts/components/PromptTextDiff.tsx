@@ -0,0 +1,129 @@
+import { useMemo, useState } from 'react';
+
+import { Switch, Typography } from '@/atoms';
+import {
+  cn,
+  countLineChanges,
+  diffLines,
+  type LineDiffRow,
+} from '@/common/utils';
+
+import s from './PromptTextDiff.module.scss';
+
+type PromptTextDiffProps = {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+};
+
+type DiffItem =
+  | { kind: 'row'; row: LineDiffRow; key: string }
+  | { kind: 'gap'; count: number; key: string };
+
+const CONTEXT_LINES = 3;
+
+const rowClassMap: Record<LineDiffRow['type'], string | undefined> = {
+  equal: undefined,
+  changed: s.changed,
+  added: s.added,
+  removed: s.removed,
+};
+
+function collapseUnchanged(rows: LineDiffRow[]): DiffItem[] {
+  const keep = rows.map(() => false);
+  rows.forEach((row, index) => {
+    if (row.type === 'equal') return;
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(rows.length - 1, index + CONTEXT_LINES);
+    for (let cursor = from; cursor <= to; cursor += 1) {
+      keep[cursor] = true;
+    }
+  });
+
+  const items: DiffItem[] = [];
+  let hidden = 0;
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      if (hidden > 0) {
+        items.push({ kind: 'gap', count: hidden, key: `gap-${index}` });
+        hidden = 0;
+      }
+      items.push({ kind: 'row', row, key: `row-${index}` });
+    } else {
+      hidden += 1;
+    }
+  });
+  if (hidden > 0) {
+    items.push({ kind: 'gap', count: hidden, key: 'gap-end' });
+  }
+  return items;
+}
+
+export function PromptTextDiff({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: PromptTextDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const counts = useMemo(() => countLineChanges(rows), [rows]);
+  const items = useMemo<DiffItem[]>(
+    () =>
+      showUnchanged
+        ? rows.map((row, index) => ({ kind: 'row', row, key: `row-${index}` }))
+        : collapseUnchanged(rows),
+    [rows, showUnchanged],
+  );
+  const hasChanges = counts.added > 0 || counts.removed > 0;
+
+  return (
+    <div className={s.diff}>
+      <div className={s.toolbar}>
+        <Typography variant="caption" tone="muted">
+          {hasChanges
+            ? `+${counts.added} / -${counts.removed} lines`
+            : 'Texts are identical.'}
+        </Typography>
+        <Switch
+          checked={showUnchanged}
+          onChange={(event) => setShowUnchanged(event.target.checked)}
+          label="Show unchanged lines"
+        />
+      </div>
+
+      <div className={s.grid}>
+        <div className={s.headerRow}>
+          <Typography variant="meta" tone="muted" className={s.headerCell}>
+            {beforeLabel}
+          </Typography>
+          <Typography variant="meta" tone="muted" className={s.headerCell}>
+            {afterLabel}
+          </Typography>
+        </div>
+        {items.map((item) =>
+          item.kind === 'gap' ? (
+            <div key={item.key} className={s.gap}>
+              {`${item.count} unchanged line${item.count === 1 ? '' : 's'}`}
+            </div>
+          ) : (
+            <div
+              key={item.key}
+              className={cn(s.row, [rowClassMap[item.row.type]])}
+            >
+              <span className={s.lineNumber}>{item.row.before?.number}</span>
+              <pre className={cn(s.text, [], { [s.empty]: !item.row.before })}>
+                {item.row.before?.text}
+              </pre>
+              <span className={s.lineNumber}>{item.row.after?.number}</span>
+              <pre className={cn(s.text, [], { [s.empty]: !item.row.after })}>
+                {item.row.after?.text}
+              </pre>
+            </div>
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
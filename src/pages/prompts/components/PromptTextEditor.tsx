@@ -0,0 +1,142 @@
+import { useRef } from 'react';
+
+import { Typography } from '@/atoms';
+import type { IPromptPlaceholder } from '@/common/types';
+import { cn, type PromptLintResult } from '@/common/utils';
+
+import s from './PromptTextEditor.module.scss';
+
+type PromptTextEditorProps = {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  contract: IPromptPlaceholder[];
+  lint: PromptLintResult;
+  rows?: number;
+  disabled?: boolean;
+  invalid?: boolean;
+};
+
+export function PromptTextEditor({
+  id,
+  value,
+  onChange,
+  contract,
+  lint,
+  rows = 19,
+  disabled = false,
+  invalid = false,
+}: PromptTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const handleScroll = () => {
+    if (!textareaRef.current || !backdropRef.current) return;
+    backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    backdropRef.current.scrollLeft = textareaRef.current.scrollLeft;
+  };
+
+  const handleInsert = (name: string) => {
+    const textarea = textareaRef.current;
+    const token = `{${name}}`;
+    if (!textarea) {
+      onChange(`${value}${token}`);
+      return;
+    }
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    onChange(`${value.slice(0, start)}${token}${value.slice(end)}`);
+    window.requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className={s.root}>
+      <div
+        className={cn(s.editor, [invalid && s.invalid, disabled && s.disabled])}
+      >
+        <div ref={backdropRef} className={s.backdrop} aria-hidden="true">
+          {lint.segments.map((segment, index) => {
+            if (segment.type === 'text') return segment.text;
+            return (
+              <mark
+                key={index}
+                className={cn(s.mark, [
+                  segment.type === 'invalid'
+                    ? s.markInvalid
+                    : segment.known
+                      ? s.markKnown
+                      : s.markUnknown,
+                ])}
+              >
+                {segment.text}
+              </mark>
+            );
+          })}
+          {value.endsWith('\n') ? ' ' : null}
+        </div>
+        <textarea
+          ref={textareaRef}
+          id={id}
+          className={s.input}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onScroll={handleScroll}
+          rows={rows}
+          disabled={disabled}
+          spellCheck={false}
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          data-gramm="false"
+          data-gramm_editor="false"
+          aria-invalid={invalid || undefined}
+        />
+      </div>
+
+      {contract.length > 0 ? (
+        <div className={s.contract}>
+          <Typography variant="caption" tone="muted">
+            Placeholders
+          </Typography>
+          {contract.map((placeholder) => {
+            const isUsed = lint.placeholders.includes(placeholder.name);
+            return (
+              <button
+                key={placeholder.name}
+                type="button"
+                className={cn(s.chip, [
+                  isUsed && s.chipUsed,
+                  !isUsed && placeholder.required && s.chipMissing,
+                ])}
+                title={`${placeholder.description}${placeholder.required ? ' (required)' : ''}. Click to insert.`}
+                onClick={() => handleInsert(placeholder.name)}
+                disabled={disabled}
+              >
+                {`{${placeholder.name}}`}
+                {placeholder.required ? '*' : null}
+              </button>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {lint.issues.length > 0 ? (
+        <ul className={s.issues}>
+          {lint.issues.map((issue) => (
+            <li key={issue.message}>
+              <Typography
+                variant="caption"
+                tone={issue.severity === 'error' ? 'danger' : 'warning'}
+              >
+                {issue.message}
+              </Typography>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import {
+  usePinPromptVersion,
+  usePromptPins,
+  usePromptVersions,
+  useRestorePromptVersion,
+  useUnpinPromptVersion,
+} from '@/app/prompts';
+import {
+  Alert,
+  Badge,
+  Button,
+  Field,
+  FormRow,
+  Section,
+  Select,
+  Skeleton,
+  Stack,
+  Typography,
+} from '@/atoms';
+import type { IPromptDetails, IPromptVersion } from '@/common/types';
+import { ConfirmModal } from '@/components/molecules';
+
+import { PromptTextDiff } from './PromptTextDiff';
+import s from './PromptVersionsPanel.module.scss';
+
+type PromptVersionsPanelProps = {
+  prompt: IPromptDetails;
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatDate(value: string) {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+function formatAuthor(author: IPromptVersion['createdBy']) {
+  if (!author) return 'System';
+  const fullName = `${author.firstName ?? ''} ${author.lastName ?? ''}`.trim();
+  return fullName || author.email || 'Unknown admin';
+}
+
+export function PromptVersionsPanel({ prompt }: PromptVersionsPanelProps) {
+  const { data, error, isLoading, refetch } = usePromptVersions(prompt.id);
+  const { data: pins } = usePromptPins();
+  const restoreMutation = useRestorePromptVersion();
+  const pinMutation = usePinPromptVersion();
+  const unpinMutation = useUnpinPromptVersion();
+
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [targetVersion, setTargetVersion] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<IPromptVersion | null>(
+    null,
+  );
+
+  const versions = useMemo(
+    () => [...(data ?? [])].sort((a, b) => b.version - a.version),
+    [data],
+  );
+  const latestVersion = versions[0]?.version ?? prompt.version;
+  const pin = pins?.find(
+    (item) =>
+      item.type === prompt.type && item.modelProvider === prompt.modelProvider,
+  );
+  const pinnedVersion = pin?.promptId === prompt.id ? pin.version : null;
+
+  const versionOptions = useMemo(
+    () =>
+      versions.map((version) => ({
+        label: `v${version.version} · ${formatDate(version.createdAt)}`,
+        value: String(version.version),
+      })),
+    [versions],
+  );
+
+  const effectiveTarget =
+    versions.find((version) => version.version === targetVersion) ??
+    versions[0];
+  const effectiveBase =
+    versions.find((version) => version.version === baseVersion) ??
+    versions.find(
+      (version) => version.version < (effectiveTarget?.version ?? 0),
+    ) ??
+    effectiveTarget;
+
+  const isMutating =
+    restoreMutation.isPending ||
+    pinMutation.isPending ||
+    unpinMutation.isPending;
+
+  const handlePin = (version: IPromptVersion) => {
+    pinMutation.mutate({
+      type: prompt.type,
+      modelProvider: prompt.modelProvider,
+      promptId: prompt.id,
+      version: version.version,
+    });
+  };
+
+  const handleUnpin = () => {
+    unpinMutation.mutate({
+      type: prompt.type,
+      modelProvider: prompt.modelProvider,
+    });
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!restoreTarget) return;
+    await restoreMutation.mutateAsync({
+      id: prompt.id,
+      version: restoreTarget.version,
+    });
+    setRestoreTarget(null);
+    setBaseVersion(restoreTarget.version);
+    setTargetVersion(null);
+  };
+
+  return (
+    <Section
+      title="Versions"
+      description="Every save creates a new version. Compare, restore or pin the version the bot should use."
+    >
+      <Stack gap="16px">
+        {pin && pin.promptId !== prompt.id ? (
+          <Alert
+            tone="warning"
+            title="Another prompt is pinned for this type and provider"
+            description={
+              <>
+                <Link to={`/prompts/${pin.promptId}`}>
+                  {pin.promptName} v{pin.version}
+                </Link>{' '}
+                is used for {prompt.type} on {prompt.modelProvider}. Pinning a
+                version here replaces it.
+              </>
+            }
+          />
+        ) : null}
+        {pinnedVersion !== null && pinnedVersion !== latestVersion ? (
+          <Alert
+            tone="warning"
+            title={`Pinned to v${pinnedVersion}`}
+            description={`Edits saved as v${latestVersion} are not live until you pin them.`}
+          />
+        ) : null}
+
+        {error ? (
+          <Stack gap="12px">
+            <Alert
+              title="Unable to load versions"
+              description={
+                error instanceof Error ? error.message : 'Please try again.'
+              }
+              tone="warning"
+            />
+            <Button variant="secondary" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </Stack>
+        ) : null}
+
+        {isLoading ? <Skeleton width="100%" height={160} /> : null}
+
+        {versions.length > 0 ? (
+          <div className={s.timeline}>
+            {versions.map((version) => {
+              const isLatest = version.version === latestVersion;
+              const isPinned = version.version === pinnedVersion;
+              return (
+                <div key={version.id} className={s.version}>
+                  <div className={s.versionInfo}>
+                    <div className={s.versionTitle}>
+                      <Typography variant="body">v{version.version}</Typography>
+                      {isLatest ? <Badge tone="accent">Latest</Badge> : null}
+                      {isPinned ? <Badge tone="success">Pinned</Badge> : null}
+                    </div>
+                    <Typography variant="caption" tone="muted">
+                      {`${formatAuthor(version.createdBy)} · ${formatDate(
+                        version.createdAt,
+                      )}`}
+                    </Typography>
+                  </div>
+                  <div className={s.versionActions}>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setBaseVersion(version.version);
+                        setTargetVersion(latestVersion);
+                      }}
+                      disabled={isLatest}
+                    >
+                      Compare with latest
+                    </Button>
+                    {isPinned ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleUnpin}
+                        loading={unpinMutation.isPending}
+                        disabled={isMutating}
+                      >
+                        Unpin
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePin(version)}
+                        loading={
+                          pinMutation.isPending &&
+                          pinMutation.variables?.version === version.version
+                        }
+                        disabled={isMutating}
+                      >
+                        Pin
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setRestoreTarget(version)}
+                      disabled={isLatest || isMutating}
+                    >
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
+
+        {effectiveBase && effectiveTarget && versions.length > 1 ? (
+          <Stack gap="12px">
+            <FormRow columns={2}>
+              <Field label="Base version" labelFor="prompt-diff-base">
+                <Select
+                  id="prompt-diff-base"
+                  size="sm"
+                  options={versionOptions}
+                  value={String(effectiveBase.version)}
+                  onChange={(value) => setBaseVersion(Number(value))}
+                  fullWidth
+                />
+              </Field>
+              <Field label="Compare with" labelFor="prompt-diff-target">
+                <Select
+                  id="prompt-diff-target"
+                  size="sm"
+                  options={versionOptions}
+                  value={String(effectiveTarget.version)}
+                  onChange={(value) => setTargetVersion(Number(value))}
+                  fullWidth
+                />
+              </Field>
+            </FormRow>
+            <PromptTextDiff
+              before={effectiveBase.text}
+              after={effectiveTarget.text}
+              beforeLabel={`v${effectiveBase.version}`}
+              afterLabel={`v${effectiveTarget.version}`}
+            />
+          </Stack>
+        ) : null}
+      </Stack>
+
+      <ConfirmModal
+        open={Boolean(restoreTarget)}
+        title={`Restore v${restoreTarget?.version ?? ''}?`}
+        description={`The text of v${restoreTarget?.version ?? ''} is saved as a new latest version. Unsaved edits in the form are discarded.`}
+        confirmLabel="Restore"
+        isConfirming={restoreMutation.isPending}
+        onConfirm={handleConfirmRestore}
+        onClose={() => {
+          if (restoreMutation.isPending) return;
+          setRestoreTarget(null);
+        }}
+      />
+    </Section>
+  );
+}
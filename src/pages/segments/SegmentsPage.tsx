@@ -0,0 +1,494 @@
+import { MagnifyingGlassIcon } from '@radix-ui/react-icons';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+import { useDeleteSegment, useSegments } from '@/app/segments';
+import { notifyError, notifySuccess } from '@/app/toast';
+import { DownloadIcon, PlusIcon } from '@/assets/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  EmptyState,
+  Field,
+  Input,
+  Pagination,
+  Select,
+  Skeleton,
+  Stack,
+  Table,
+  Typography,
+} from '@/atoms';
+import type { ISegment } from '@/common/types';
+import { ConfirmModal } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import { SegmentFormDrawer } from './components/SegmentFormDrawer';
+import {
+  downloadSegmentUserIds,
+  formatSegmentConditions,
+} from './segmentFormat';
+import s from './SegmentsPage.module.scss';
+
+type QueryUpdate = {
+  search?: string;
+  order?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+const ORDER_OPTIONS = [
+  { label: 'Newest first', value: 'DESC' },
+  { label: 'Oldest first', value: 'ASC' },
+];
+
+const ORDER_VALUES = new Set(ORDER_OPTIONS.map((option) => option.value));
+const PAGE_SIZE_OPTIONS = [20, 50, 100];
+const DEFAULT_ORDER = 'DESC';
+const DEFAULT_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return '-';
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return '-';
+  return dateTimeFormatter.format(parsed);
+}
+
+function parsePositiveNumber(value: string | null, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.floor(parsed);
+}
+
+function parsePageSize(value: string | null) {
+  const parsed = parsePositiveNumber(value, DEFAULT_PAGE_SIZE);
+  return PAGE_SIZE_OPTIONS.includes(parsed) ? parsed : DEFAULT_PAGE_SIZE;
+}
+
+export function SegmentsPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rawSearch = searchParams.get('search') ?? '';
+  const rawOrder = searchParams.get('order');
+  const rawPage = searchParams.get('page');
+  const rawPageSize = searchParams.get('pageSize');
+
+  const [searchInput, setSearchInput] = useState(rawSearch);
+  const debouncedSearch = useDebouncedValue(searchInput, SEARCH_DEBOUNCE_MS);
+  const normalizedSearch = debouncedSearch.trim();
+
+  const order = ORDER_VALUES.has(rawOrder ?? '') ? rawOrder! : DEFAULT_ORDER;
+  const page = parsePositiveNumber(rawPage, 1);
+  const pageSize = parsePageSize(rawPageSize);
+
+  const updateSearchParams = useCallback(
+    (update: QueryUpdate, replace = false) => {
+      const next = new URLSearchParams(searchParams);
+
+      if (update.search !== undefined) {
+        const nextSearch = update.search.trim();
+        if (nextSearch) {
+          next.set('search', nextSearch);
+        } else {
+          next.delete('search');
+        }
+      }
+
+      if (update.order !== undefined) {
+        if (update.order && update.order !== DEFAULT_ORDER) {
+          next.set('order', update.order);
+        } else {
+          next.delete('order');
+        }
+      }
+
+      if (update.page !== undefined) {
+        if (update.page > 1) {
+          next.set('page', String(update.page));
+        } else {
+          next.delete('page');
+        }
+      }
+
+      if (update.pageSize !== undefined) {
+        if (update.pageSize !== DEFAULT_PAGE_SIZE) {
+          next.set('pageSize', String(update.pageSize));
+        } else {
+          next.delete('pageSize');
+        }
+      }
+
+      setSearchParams(next, { replace });
+    },
+    [searchParams, setSearchParams],
+  );
+
+  useEffect(() => {
+    setSearchInput(rawSearch);
+  }, [rawSearch]);
+
+  useEffect(() => {
+    if (normalizedSearch === rawSearch) return;
+    updateSearchParams({ search: normalizedSearch, page: 1 }, true);
+  }, [normalizedSearch, rawSearch, updateSearchParams]);
+
+  const queryParams = useMemo(
+    () => ({
+      search: normalizedSearch || undefined,
+      order,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    [normalizedSearch, order, page, pageSize],
+  );
+
+  const { data, error, isLoading, refetch } = useSegments(queryParams);
+  const deleteMutation = useDeleteSegment();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formKey, setFormKey] = useState(0);
+  const [editingSegment, setEditingSegment] = useState<ISegment | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ISegment | null>(null);
+  const [exportTarget, setExportTarget] = useState<string | null>(null);
+
+  const segments = useMemo(() => data?.data ?? [], [data?.data]);
+  const total = data?.total ?? 0;
+  const effectiveTake = data?.take ?? pageSize;
+  const effectiveSkip = data?.skip ?? (page - 1) * pageSize;
+  const totalPages = total > 0 ? Math.ceil(total / effectiveTake) : 1;
+
+  useEffect(() => {
+    if (!data || total === 0) return;
+    if (page > totalPages) {
+      updateSearchParams({ page: totalPages }, true);
+    }
+  }, [data, page, total, totalPages, updateSearchParams]);
+
+  const openForm = (segment: ISegment | null) => {
+    setEditingSegment(segment);
+    setFormKey((prev) => prev + 1);
+    setIsFormOpen(true);
+  };
+
+  const handleExport = useCallback(async (segment: ISegment) => {
+    setExportTarget(segment.id);
+    try {
+      const count = await downloadSegmentUserIds(segment);
+      notifySuccess(
+        `Exported ${count.toLocaleString()} user IDs.`,
+        'User IDs exported.',
+      );
+    } catch (exportError) {
+      notifyError(exportError, 'Unable to export segment users.');
+    } finally {
+      setExportTarget(null);
+    }
+  }, []);
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteMutation.mutateAsync(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  const columns = useMemo(
+    () => [
+      { key: 'segment', label: 'Segment' },
+      { key: 'conditions', label: 'Conditions' },
+      { key: 'users', label: <span className={s.alignRight}>Users</span> },
+      { key: 'updated', label: <span className={s.alignRight}>Updated</span> },
+      { key: 'actions', label: '' },
+    ],
+    [],
+  );
+
+  const rows = useMemo(
+    () =>
+      segments.map((segment) => {
+        const conditions = formatSegmentConditions(segment);
+        return {
+          segment: (
+            <div className={s.segmentCell}>
+              <Typography variant="body">{segment.name}</Typography>
+              {segment.description ? (
+                <Typography variant="caption" tone="muted">
+                  {segment.description}
+                </Typography>
+              ) : null}
+            </div>
+          ),
+          conditions: (
+            <div className={s.conditionsCell}>
+              {conditions.length > 0 ? (
+                conditions.map((condition) => (
+                  <Badge key={condition} tone="accent" outline>
+                    {condition}
+                  </Badge>
+                ))
+              ) : (
+                <Typography variant="caption" tone="muted">
+                  All users
+                </Typography>
+              )}
+            </div>
+          ),
+          users: (
+            <Typography variant="body" className={s.alignRight}>
+              {segment.userCount === null
+                ? '-'
+                : segment.userCount.toLocaleString()}
+            </Typography>
+          ),
+          updated: (
+            <Typography variant="caption" tone="muted" className={s.alignRight}>
+              {formatDate(segment.updatedAt)}
+            </Typography>
+          ),
+          actions: (
+            <div className={s.actionsCell}>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => navigate(`/users?segment=${segment.id}`)}
+              >
+                Users
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                iconLeft={<DownloadIcon />}
+                onClick={() => handleExport(segment)}
+                loading={exportTarget === segment.id}
+                disabled={Boolean(exportTarget)}
+              >
+                Export IDs
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => openForm(segment)}
+              >
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                tone="danger"
+                onClick={() => setDeleteTarget(segment)}
+              >
+                Delete
+              </Button>
+            </div>
+          ),
+        };
+      }),
+    [segments, exportTarget, handleExport, navigate],
+  );
+
+  const skeletonRows = useMemo(
+    () =>
+      Array.from({ length: 6 }, (_, index) => ({
+        segment: (
+          <div className={s.segmentCell} key={`segment-skel-${index}`}>
+            <Skeleton width={160} height={12} />
+            <Skeleton width={200} height={10} />
+          </div>
+        ),
+        conditions: (
+          <div className={s.conditionsCell}>
+            <Skeleton width={90} height={20} />
+            <Skeleton width={110} height={20} />
+          </div>
+        ),
+        users: (
+          <div className={s.alignRight}>
+            <Skeleton width={60} height={12} />
+          </div>
+        ),
+        updated: (
+          <div className={s.alignRight}>
+            <Skeleton width={120} height={12} />
+          </div>
+        ),
+        actions: (
+          <div className={s.actionsCell}>
+            <Skeleton width={220} height={28} />
+          </div>
+        ),
+      })),
+    [],
+  );
+
+  const showSkeleton = isLoading && !data;
+  const showEmpty = !showSkeleton && !error && segments.length === 0;
+  const showTable = !showEmpty && !error;
+  const showFooter = showTable && !showSkeleton;
+
+  const rangeStart = total === 0 ? 0 : effectiveSkip + 1;
+  const rangeEnd =
+    total === 0 ? 0 : Math.min(effectiveSkip + effectiveTake, total);
+
+  return (
+    <AppShell>
+      <Container size="wide" className={s.page}>
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Segments</Typography>
+            <Typography variant="body" tone="muted">
+              Saved audiences for broadcasts and user lists.
+            </Typography>
+          </div>
+          <Button iconLeft={<PlusIcon />} onClick={() => openForm(null)}>
+            New segment
+          </Button>
+        </div>
+
+        <div className={s.filters}>
+          <div className={s.filterRow}>
+            <Field
+              className={s.filterField}
+              label="Search"
+              labelFor="segments-search"
+            >
+              <Input
+                id="segments-search"
+                placeholder="Search by name"
+                value={searchInput}
+                onChange={(event) => setSearchInput(event.target.value)}
+                iconLeft={<MagnifyingGlassIcon />}
+                fullWidth
+              />
+            </Field>
+            <Field label="Order" labelFor="segments-order">
+              <Select
+                id="segments-order"
+                options={ORDER_OPTIONS}
+                value={order}
+                size="sm"
+                variant="ghost"
+                onChange={(value) =>
+                  updateSearchParams({ order: value, page: 1 })
+                }
+              />
+            </Field>
+          </div>
+        </div>
+
+        {error ? (
+          <Stack className={s.state} gap="12px">
+            <Alert
+              title="Unable to load segments"
+              description={
+                error instanceof Error ? error.message : 'Please try again.'
+              }
+              tone="warning"
+            />
+            <Button variant="secondary" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </Stack>
+        ) : null}
+
+        {showEmpty ? (
+          <EmptyState
+            title="No segments yet"
+            description={
+              normalizedSearch
+                ? 'Try adjusting your search.'
+                : 'Create a segment to reuse an audience across broadcasts.'
+            }
+          />
+        ) : null}
+
+        {showTable ? (
+          <div className={s.tableWrap}>
+            <Table
+              columns={columns}
+              rows={showSkeleton ? skeletonRows : rows}
+            />
+
+            {showFooter ? (
+              <div className={s.footer}>
+                <Typography variant="meta" tone="muted">
+                  {total === 0
+                    ? 'No results'
+                    : `Showing ${rangeStart}-${rangeEnd} of ${total.toLocaleString()}`}
+                </Typography>
+                <div className={s.paginationRow}>
+                  <Select
+                    options={PAGE_SIZE_OPTIONS.map((size) => ({
+                      label: `${size} / page`,
+                      value: String(size),
+                    }))}
+                    size="sm"
+                    variant="ghost"
+                    value={String(pageSize)}
+                    onChange={(value) =>
+                      updateSearchParams({
+                        pageSize: Number(value),
+                        page: 1,
+                      })
+                    }
+                    fitContent
+                  />
+                  {totalPages > 1 ? (
+                    <Pagination
+                      page={page}
+                      totalPages={totalPages}
+                      onChange={(nextPage) =>
+                        updateSearchParams({ page: nextPage })
+                      }
+                    />
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </Container>
+
+      <SegmentFormDrawer
+        key={formKey}
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        segment={editingSegment}
+      />
+
+      <ConfirmModal
+        open={Boolean(deleteTarget)}
+        title="Delete segment?"
+        description={
+          deleteTarget
+            ? `"${deleteTarget.name}" will be removed. Scheduled broadcasts keep the audience they were created with.`
+            : undefined
+        }
+        confirmLabel="Delete"
+        tone="danger"
+        isConfirming={deleteMutation.isPending}
+        onConfirm={handleConfirmDelete}
+        onClose={() => {
+          if (deleteMutation.isPending) return;
+          setDeleteTarget(null);
+        }}
+      />
+    </AppShell>
+  );
+}
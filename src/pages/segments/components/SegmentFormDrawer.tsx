@@ -0,0 +1,485 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { useCharacters } from '@/app/characters';
+import {
+  useCreateSegment,
+  useSegmentCount,
+  useUpdateSegment,
+} from '@/app/segments';
+import {
+  Button,
+  Field,
+  FormRow,
+  Input,
+  Select,
+  Stack,
+  Textarea,
+  Typography,
+} from '@/atoms';
+import {
+  type ISegment,
+  PlanType,
+  RoleplayStage,
+  type SegmentConditions,
+  STAGES_IN_ORDER,
+} from '@/common/types';
+import {
+  formatCharacterSelectLabel,
+  formatRoleplayStage,
+} from '@/common/utils';
+import {
+  Drawer,
+  SearchSelect,
+  type SearchSelectOption,
+} from '@/components/molecules';
+
+import s from './SegmentFormDrawer.module.scss';
+
+type SegmentFormDrawerProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segment?: ISegment | null;
+};
+
+type Values = {
+  name: string;
+  description: string;
+  subscription: 'any' | 'subscribed' | 'unsubscribed';
+  planType: '' | PlanType;
+  purchase: 'any' | 'purchased' | 'notPurchased';
+  airMin: string;
+  airMax: string;
+  fuelMin: string;
+  fuelMax: string;
+  chatStage: '' | RoleplayStage;
+  characterId: string;
+  lastVisitedBeforeDays: string;
+  lastVisitedAfterDays: string;
+};
+
+type Errors = Partial<Record<keyof Values, string>>;
+
+const CHARACTER_LIST_LIMIT = 100;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const subscriptionOptions = [
+  { label: 'Any', value: 'any' },
+  { label: 'Subscribed only', value: 'subscribed' },
+  { label: 'Not subscribed', value: 'unsubscribed' },
+];
+
+const planTypeOptions = [
+  { label: 'Any', value: '' },
+  { label: 'Subscription plan', value: PlanType.Subscription },
+  { label: 'Air pack', value: PlanType.Air },
+];
+
+const purchaseOptions = [
+  { label: 'Any', value: 'any' },
+  { label: 'Has purchased', value: 'purchased' },
+  { label: 'Never purchased', value: 'notPurchased' },
+];
+
+const stageOptions = [
+  { label: 'Any', value: '' },
+  ...STAGES_IN_ORDER.map((stage) => ({
+    label: formatRoleplayStage(stage),
+    value: stage,
+  })),
+];
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+function toOptionalString(value: number | undefined) {
+  return value === undefined ? '' : String(value);
+}
+
+function toValues(segment: ISegment | null | undefined): Values {
+  const conditions = segment?.conditions ?? {};
+  return {
+    name: segment?.name ?? '',
+    description: segment?.description ?? '',
+    subscription:
+      conditions.subscribed === undefined
+        ? 'any'
+        : conditions.subscribed
+          ? 'subscribed'
+          : 'unsubscribed',
+    planType: conditions.planType ?? '',
+    purchase:
+      conditions.hasPurchased === undefined
+        ? 'any'
+        : conditions.hasPurchased
+          ? 'purchased'
+          : 'notPurchased',
+    airMin: toOptionalString(conditions.airMin),
+    airMax: toOptionalString(conditions.airMax),
+    fuelMin: toOptionalString(conditions.fuelMin),
+    fuelMax: toOptionalString(conditions.fuelMax),
+    chatStage: conditions.chatStage ?? '',
+    characterId: conditions.characterId ?? '',
+    lastVisitedBeforeDays: toOptionalString(conditions.lastVisitedBeforeDays),
+    lastVisitedAfterDays: toOptionalString(conditions.lastVisitedAfterDays),
+  };
+}
+
+function parseNonNegativeInteger(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const parsed = Number(trimmed);
+  if (!Number.isInteger(parsed) || parsed < 0) return null;
+  return parsed;
+}
+
+function parsePositiveInteger(value: string) {
+  const parsed = parseNonNegativeInteger(value);
+  return parsed === 0 ? null : parsed;
+}
+
+function buildConditions(values: Values) {
+  const errors: Errors = {};
+  const conditions: SegmentConditions = {};
+
+  if (values.subscription !== 'any') {
+    conditions.subscribed = values.subscription === 'subscribed';
+  }
+  if (values.planType) {
+    conditions.planType = values.planType;
+  }
+  if (values.purchase !== 'any') {
+    conditions.hasPurchased = values.purchase === 'purchased';
+  }
+  if (values.chatStage) {
+    conditions.chatStage = values.chatStage;
+  }
+  if (values.characterId) {
+    conditions.characterId = values.characterId;
+  }
+
+  const numericFields = [
+    ['airMin', parseNonNegativeInteger],
+    ['airMax', parseNonNegativeInteger],
+    ['fuelMin', parseNonNegativeInteger],
+    ['fuelMax', parseNonNegativeInteger],
+    ['lastVisitedBeforeDays', parsePositiveInteger],
+    ['lastVisitedAfterDays', parsePositiveInteger],
+  ] as const;
+  for (const [field, parse] of numericFields) {
+    const parsed = parse(values[field]);
+    if (parsed === null) {
+      errors[field] = 'Use a whole number.';
+    } else if (parsed !== undefined) {
+      conditions[field] = parsed;
+    }
+  }
+
+  if (
+    conditions.airMin !== undefined &&
+    conditions.airMax !== undefined &&
+    conditions.airMin > conditions.airMax
+  ) {
+    errors.airMax = 'Max must be greater than min.';
+  }
+  if (
+    conditions.fuelMin !== undefined &&
+    conditions.fuelMax !== undefined &&
+    conditions.fuelMin > conditions.fuelMax
+  ) {
+    errors.fuelMax = 'Max must be greater than min.';
+  }
+
+  return { conditions, errors };
+}
+
+export function SegmentFormDrawer({
+  open,
+  onOpenChange,
+  segment = null,
+}: SegmentFormDrawerProps) {
+  const [values, setValues] = useState<Values>(() => toValues(segment));
+  const [showErrors, setShowErrors] = useState(false);
+  const [characterSearch, setCharacterSearch] = useState('');
+
+  const createMutation = useCreateSegment();
+  const updateMutation = useUpdateSegment();
+  const countMutation = useSegmentCount();
+  const isBusy = createMutation.isPending || updateMutation.isPending;
+
+  const debouncedCharacterSearch = useDebouncedValue(
+    characterSearch,
+    SEARCH_DEBOUNCE_MS,
+  );
+  const characterQueryParams = useMemo(
+    () => ({
+      search: debouncedCharacterSearch.trim() || undefined,
+      order: 'ASC',
+      skip: 0,
+      take: CHARACTER_LIST_LIMIT,
+    }),
+    [debouncedCharacterSearch],
+  );
+  const { data: characterData, isLoading: isCharactersLoading } = useCharacters(
+    characterQueryParams,
+    { enabled: open },
+  );
+
+  const characterOptions = useMemo<SearchSelectOption[]>(
+    () => [
+      { id: '', label: 'Any character' },
+      ...(characterData?.data ?? []).map((character) => ({
+        id: character.id,
+        label: formatCharacterSelectLabel(character.name, character.type),
+      })),
+    ],
+    [characterData?.data],
+  );
+  const characterValueLabel =
+    characterOptions.find((option) => option.id === values.characterId)
+      ?.label ??
+    (values.characterId && segment?.character?.id === values.characterId
+      ? segment.character.name
+      : undefined);
+
+  const { conditions, errors: conditionErrors } = useMemo(
+    () => buildConditions(values),
+    [values],
+  );
+  const validationErrors = useMemo<Errors>(
+    () => ({
+      ...conditionErrors,
+      ...(values.name.trim() ? {} : { name: 'Enter a segment name.' }),
+    }),
+    [conditionErrors, values.name],
+  );
+  const errors = showErrors ? validationErrors : {};
+  const isValid = Object.keys(validationErrors).length === 0;
+
+  const setField = <K extends keyof Values>(key: K, value: Values[K]) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    countMutation.reset();
+  };
+
+  const handleCount = () => {
+    setShowErrors(true);
+    if (Object.keys(conditionErrors).length > 0) return;
+    void countMutation.mutateAsync(conditions).catch(() => {
+      // Errors are surfaced by the mutation toast.
+    });
+  };
+
+  const handleSave = async () => {
+    setShowErrors(true);
+    if (!isValid) return;
+
+    const payload = {
+      name: values.name.trim(),
+      description: values.description.trim() || null,
+      conditions,
+    };
+    if (segment) {
+      await updateMutation.mutateAsync({ id: segment.id, payload });
+    } else {
+      await createMutation.mutateAsync(payload);
+    }
+    onOpenChange(false);
+  };
+
+  const renderNumberInput = (key: keyof Values, placeholder: string) => (
+    <Input
+      size="sm"
+      inputMode="numeric"
+      placeholder={placeholder}
+      value={values[key]}
+      onChange={(event) => setField(key, event.target.value)}
+      invalid={Boolean(errors[key])}
+      disabled={isBusy}
+      fullWidth
+    />
+  );
+
+  return (
+    <Drawer
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen && isBusy) return;
+        onOpenChange(nextOpen);
+      }}
+      title={segment ? 'Edit segment' : 'Create segment'}
+      className={s.drawer}
+    >
+      <div className={s.form}>
+        <Field label="Name" labelFor="segment-name" error={errors.name}>
+          <Input
+            id="segment-name"
+            size="sm"
+            value={values.name}
+            onChange={(event) => setField('name', event.target.value)}
+            invalid={Boolean(errors.name)}
+            disabled={isBusy}
+            fullWidth
+          />
+        </Field>
+
+        <Field label="Description" labelFor="segment-description">
+          <Textarea
+            id="segment-description"
+            size="sm"
+            rows={2}
+            value={values.description}
+            onChange={(event) => setField('description', event.target.value)}
+            disabled={isBusy}
+            fullWidth
+          />
+        </Field>
+
+        <Typography variant="h3">Conditions</Typography>
+
+        <FormRow columns={3}>
+          <Field label="Subscription" labelFor="segment-subscription">
+            <Select
+              id="segment-subscription"
+              size="sm"
+              options={subscriptionOptions}
+              value={values.subscription}
+              onChange={(value) =>
+                setField('subscription', value as Values['subscription'])
+              }
+              disabled={isBusy}
+              fullWidth
+            />
+          </Field>
+          <Field label="Plan type" labelFor="segment-plan-type">
+            <Select
+              id="segment-plan-type"
+              size="sm"
+              options={planTypeOptions}
+              value={values.planType}
+              onChange={(value) =>
+                setField('planType', value as Values['planType'])
+              }
+              disabled={isBusy}
+              fullWidth
+            />
+          </Field>
+          <Field label="Purchases" labelFor="segment-purchase">
+            <Select
+              id="segment-purchase"
+              size="sm"
+              options={purchaseOptions}
+              value={values.purchase}
+              onChange={(value) =>
+                setField('purchase', value as Values['purchase'])
+              }
+              disabled={isBusy}
+              fullWidth
+            />
+          </Field>
+        </FormRow>
+
+        <FormRow columns={2}>
+          <Field label="Air min" error={errors.airMin}>
+            {renderNumberInput('airMin', '0')}
+          </Field>
+          <Field label="Air max" error={errors.airMax}>
+            {renderNumberInput('airMax', 'No limit')}
+          </Field>
+        </FormRow>
+
+        <FormRow columns={2}>
+          <Field label="Fuel min" error={errors.fuelMin}>
+            {renderNumberInput('fuelMin', '0')}
+          </Field>
+          <Field label="Fuel max" error={errors.fuelMax}>
+            {renderNumberInput('fuelMax', 'No limit')}
+          </Field>
+        </FormRow>
+
+        <FormRow columns={2}>
+          <Field label="Current chat stage" labelFor="segment-stage">
+            <Select
+              id="segment-stage"
+              size="sm"
+              options={stageOptions}
+              value={values.chatStage}
+              onChange={(value) =>
+                setField('chatStage', value as Values['chatStage'])
+              }
+              disabled={isBusy}
+              fullWidth
+            />
+          </Field>
+          <Field label="Chatted with character" labelFor="segment-character">
+            <SearchSelect
+              id="segment-character"
+              value={values.characterId}
+              valueLabel={characterValueLabel}
+              options={characterOptions}
+              search={characterSearch}
+              onSearchChange={setCharacterSearch}
+              onSelect={(value) => setField('characterId', value)}
+              placeholder={
+                isCharactersLoading ? 'Loading characters...' : 'Any character'
+              }
+              loading={isCharactersLoading}
+              disabled={isBusy}
+            />
+          </Field>
+        </FormRow>
+
+        <FormRow columns={2}>
+          <Field
+            label="Inactive for at least (days)"
+            error={errors.lastVisitedBeforeDays}
+          >
+            {renderNumberInput('lastVisitedBeforeDays', 'Any')}
+          </Field>
+          <Field
+            label="Active within the last (days)"
+            error={errors.lastVisitedAfterDays}
+          >
+            {renderNumberInput('lastVisitedAfterDays', 'Any')}
+          </Field>
+        </FormRow>
+
+        <Stack gap="8px" className={s.countRow}>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={handleCount}
+            loading={countMutation.isPending}
+            disabled={isBusy || countMutation.isPending}
+          >
+            Count users
+          </Button>
+          {countMutation.data ? (
+            <Typography variant="meta" tone="muted">
+              {`${countMutation.data.count.toLocaleString()} users match right now.`}
+            </Typography>
+          ) : null}
+        </Stack>
+
+        <div className={s.drawerActions}>
+          <Button
+            variant="secondary"
+            onClick={() => onOpenChange(false)}
+            disabled={isBusy}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isBusy} disabled={isBusy}>
+            {segment ? 'Save' : 'Create'}
+          </Button>
+        </div>
+      </div>
+    </Drawer>
+  );
+}
@@ -0,0 +1,67 @@
+import { getSegmentUserIds } from '@/app/segments';
+import { sanitizeTransferFileNamePart } from '@/app/transfer';
+import { type ISegment, PlanType } from '@/common/types';
+import { downloadBlob, formatRoleplayStage } from '@/common/utils';
+
+const PLAN_TYPE_LABELS: Record<PlanType, string> = {
+  [PlanType.Subscription]: 'Subscription plan',
+  [PlanType.Air]: 'Air pack',
+};
+
+function formatRange(label: string, min?: number, max?: number) {
+  if (min !== undefined && max !== undefined) {
+    return `${label} ${min}-${max}`;
+  }
+  if (min !== undefined) return `${label} >= ${min}`;
+  if (max !== undefined) return `${label} <= ${max}`;
+  return null;
+}
+
+export function formatSegmentConditions(segment: ISegment) {
+  const { conditions } = segment;
+  const parts: string[] = [];
+
+  if (conditions.subscribed !== undefined) {
+    parts.push(conditions.subscribed ? 'Subscribed' : 'Not subscribed');
+  }
+  if (conditions.planType) {
+    parts.push(PLAN_TYPE_LABELS[conditions.planType]);
+  }
+  if (conditions.hasPurchased !== undefined) {
+    parts.push(conditions.hasPurchased ? 'Has purchased' : 'Never purchased');
+  }
+
+  const airRange = formatRange('Air', conditions.airMin, conditions.airMax);
+  if (airRange) parts.push(airRange);
+  const fuelRange = formatRange('Fuel', conditions.fuelMin, conditions.fuelMax);
+  if (fuelRange) parts.push(fuelRange);
+
+  if (conditions.chatStage) {
+    parts.push(`Stage: ${formatRoleplayStage(conditions.chatStage)}`);
+  }
+  if (conditions.characterId) {
+    parts.push(
+      `Chatted with ${segment.character?.name ?? conditions.characterId}`,
+    );
+  }
+  if (conditions.lastVisitedBeforeDays) {
+    parts.push(`Inactive ${conditions.lastVisitedBeforeDays}+ days`);
+  }
+  if (conditions.lastVisitedAfterDays) {
+    parts.push(`Active in last ${conditions.lastVisitedAfterDays} days`);
+  }
+
+  return parts;
+}
+
+export async function downloadSegmentUserIds(
+  segment: Pick<ISegment, 'id' | 'name'>,
+) {
+  const { userIds } = await getSegmentUserIds(segment.id);
+  const namePart = sanitizeTransferFileNamePart(segment.name) || segment.id;
+  downloadBlob(
+    new Blob([userIds.join('\n')], { type: 'text/plain' }),
+    `segment-${namePart}-user-ids.txt`,
+  );
+  return userIds.length;
+}
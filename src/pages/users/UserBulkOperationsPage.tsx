@@ -0,0 +1,543 @@
+import { useQueryClient } from '@tanstack/react-query';
+import type { ChangeEvent } from 'react';
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import { downloadCsvFile } from '@/app/analytics/exportCsv';
+import { getSegmentUserIds, useSegments } from '@/app/segments';
+import { notifyError, notifySuccess } from '@/app/toast';
+import { getUserDetails, updateUser } from '@/app/users';
+import { DownloadIcon } from '@/assets/icons';
+import {
+  Alert,
+  Badge,
+  Button,
+  Container,
+  EmptyState,
+  Field,
+  Input,
+  Progress,
+  RadioGroup,
+  Select,
+  Stack,
+  Table,
+  Typography,
+} from '@/atoms';
+import { ConfirmModal } from '@/components/molecules';
+import { AppShell } from '@/components/templates';
+
+import {
+  buildBulkOperationReport,
+  type BulkOperationBalance,
+  type BulkOperationRow,
+  type BulkOperationRowStatus,
+  countBulkOperationRows,
+  createBulkOperationRow,
+  formatBulkOperation,
+  parseBulkOperationsCsv,
+  parseBulkOperationsText,
+  previewBulkOperationRow,
+} from './components/bulkOperations';
+import s from './UserBulkOperationsPage.module.scss';
+import { formatDate } from './userFormat';
+
+type BulkSource = 'csv' | 'segment';
+
+type BulkProgress = {
+  label: string;
+  done: number;
+  total: number;
+};
+
+const MAX_ROWS = 5000;
+
+const SOURCE_OPTIONS = [
+  { label: 'CSV file', value: 'csv' },
+  { label: 'Saved audience', value: 'segment' },
+];
+
+const STATUS_LABELS: Record<BulkOperationRowStatus, string> = {
+  invalid: 'Invalid',
+  ready: 'Ready',
+  unchanged: 'Unchanged',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+const STATUS_TONES: Record<
+  BulkOperationRowStatus,
+  'accent' | 'success' | 'warning' | 'danger'
+> = {
+  invalid: 'danger',
+  ready: 'accent',
+  unchanged: 'accent',
+  running: 'warning',
+  done: 'success',
+  failed: 'danger',
+  skipped: 'warning',
+};
+
+const COLUMNS = [
+  { key: 'line', label: '#' },
+  { key: 'user', label: 'User' },
+  { key: 'operations', label: 'Operations' },
+  { key: 'air', label: 'Air' },
+  { key: 'fuel', label: 'Fuel' },
+  { key: 'subscription', label: 'Subscribed until' },
+  { key: 'blocked', label: 'Blocked' },
+  { key: 'status', label: 'Status' },
+];
+
+function formatChange(
+  before: BulkOperationBalance | null,
+  after: BulkOperationBalance | null,
+  key: keyof BulkOperationBalance,
+) {
+  if (!before || !after) return '-';
+  const format = (value: BulkOperationBalance[typeof key]) => {
+    if (key === 'subscribedUntil') return formatDate(value as string | null);
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+  if (before[key] === after[key]) return format(before[key]);
+  return `${format(before[key])} → ${format(after[key])}`;
+}
+
+function buildReportFileName() {
+  const stamp = new Date().toISOString().slice(0, 19).replaceAll(':', '-');
+  return `user-bulk-operations-${stamp}.csv`;
+}
+
+export function UserBulkOperationsPage() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const stopRequestedRef = useRef(false);
+
+  const [source, setSource] = useState<BulkSource>('csv');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [segmentId, setSegmentId] = useState('');
+  const [operationsText, setOperationsText] = useState('');
+  const [rows, setRows] = useState<BulkOperationRow[]>([]);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const { data: segmentsData } = useSegments({
+    order: 'ASC',
+    skip: 0,
+    take: 100,
+  });
+  const segmentOptions = useMemo(
+    () =>
+      (segmentsData?.data ?? []).map((segment) => ({
+        label: segment.name,
+        value: segment.id,
+      })),
+    [segmentsData?.data],
+  );
+
+  const segmentOperations = useMemo(
+    () => parseBulkOperationsText(operationsText),
+    [operationsText],
+  );
+  const counts = countBulkOperationRows(rows);
+  const isBusy = isValidating || isRunning;
+  const hasRun = counts.done + counts.failed + counts.skipped > 0;
+
+  const loadBalances = async (parsedRows: BulkOperationRow[]) => {
+    if (parsedRows.length > MAX_ROWS) {
+      throw new Error(
+        `Up to ${MAX_ROWS.toLocaleString()} users per run. Split the list into smaller files.`,
+      );
+    }
+    const nextRows = [...parsedRows];
+    const now = Date.now();
+    setRows(nextRows);
+    for (let index = 0; index < nextRows.length; index += 1) {
+      setProgress({
+        label: 'Loading current balances',
+        done: index,
+        total: nextRows.length,
+      });
+      const row = nextRows[index];
+      if (row.status === 'invalid') continue;
+      try {
+        const user = await getUserDetails(row.userId);
+        nextRows[index] = previewBulkOperationRow(row, user, now);
+      } catch (error) {
+        nextRows[index] = {
+          ...row,
+          status: 'invalid',
+          errors: [
+            ...row.errors,
+            error instanceof Error ? error.message : 'User not found.',
+          ],
+        };
+      }
+    }
+    setRows([...nextRows]);
+  };
+
+  const validate = async (loadRows: () => Promise<BulkOperationRow[]>) => {
+    setIsValidating(true);
+    setRows([]);
+    try {
+      await loadBalances(await loadRows());
+    } catch (error) {
+      notifyError(error, 'Unable to validate the operations.');
+    } finally {
+      setProgress(null);
+      setIsValidating(false);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    event.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    await validate(async () => parseBulkOperationsCsv(await file.text()));
+  };
+
+  const handleValidateSegment = async () => {
+    if (!segmentId) return;
+    await validate(async () => {
+      const { userIds } = await getSegmentUserIds(segmentId);
+      return userIds.map((userId, index) =>
+        createBulkOperationRow(
+          index + 1,
+          userId,
+          segmentOperations.operations,
+          segmentOperations.errors,
+        ),
+      );
+    });
+  };
+
+  const handleRun = async () => {
+    setIsConfirmOpen(false);
+    setIsRunning(true);
+    stopRequestedRef.current = false;
+    const nextRows = [...rows];
+    const pending = nextRows.flatMap((row, index) =>
+      row.status === 'ready' ? [index] : [],
+    );
+
+    for (const [position, index] of pending.entries()) {
+      setProgress({
+        label: 'Applying changes',
+        done: position,
+        total: pending.length,
+      });
+      const row = nextRows[index];
+      if (stopRequestedRef.current) {
+        nextRows[index] = { ...row, status: 'skipped', message: 'Stopped.' };
+        continue;
+      }
+      nextRows[index] = { ...row, status: 'running' };
+      setRows([...nextRows]);
+      try {
+        const user = await getUserDetails(row.userId);
+        const current = previewBulkOperationRow(row, user);
+        if (!current.payload) {
+          nextRows[index] = {
+            ...current,
+            message: 'Nothing to change with the current balance.',
+          };
+        } else {
+          await updateUser(row.userId, current.payload);
+          nextRows[index] = { ...current, status: 'done', message: null };
+        }
+      } catch (error) {
+        nextRows[index] = {
+          ...row,
+          status: 'failed',
+          message:
+            error instanceof Error ? error.message : 'Unable to update user.',
+        };
+      }
+      setRows([...nextRows]);
+    }
+
+    setRows([...nextRows]);
+    setProgress(null);
+    setIsRunning(false);
+    await queryClient.invalidateQueries({ queryKey: ['users'] });
+    await queryClient.invalidateQueries({ queryKey: ['user'] });
+
+    const result = countBulkOperationRows(nextRows);
+    if (result.failed > 0) {
+      notifyError(
+        new Error(
+          `${result.failed.toLocaleString()} of ${pending.length.toLocaleString()} updates failed. Download the report for details.`,
+        ),
+        'Some updates failed.',
+      );
+      return;
+    }
+    notifySuccess(
+      `Updated ${result.done.toLocaleString()} users.`,
+      'Bulk operation finished.',
+    );
+  };
+
+  const handleDownloadReport = () => {
+    downloadCsvFile(buildBulkOperationReport(rows), buildReportFileName());
+  };
+
+  const tableRows = rows.map((row) => ({
+    line: (
+      <Typography variant="caption" tone="muted">
+        {row.line}
+      </Typography>
+    ),
+    user: row.userId ? (
+      <Link to={`/users/${row.userId}`} className={s.userLink}>
+        {row.userId}
+      </Link>
+    ) : (
+      '-'
+    ),
+    operations: (
+      <Typography variant="caption">
+        {row.operations.map(formatBulkOperation).join(', ') || '-'}
+      </Typography>
+    ),
+    air: formatChange(row.before, row.after, 'air'),
+    fuel: formatChange(row.before, row.after, 'fuel'),
+    subscription: formatChange(row.before, row.after, 'subscribedUntil'),
+    blocked: formatChange(row.before, row.after, 'isBlocked'),
+    status: (
+      <div className={s.statusCell}>
+        <Badge tone={STATUS_TONES[row.status]} outline>
+          {STATUS_LABELS[row.status]}
+        </Badge>
+        {[...row.errors, ...row.warnings, row.message]
+          .filter(Boolean)
+          .map((note) => (
+            <Typography key={note} variant="caption" tone="muted">
+              {note}
+            </Typography>
+          ))}
+      </div>
+    ),
+  }));
+
+  return (
+    <AppShell>
+      <Container size="wide" className={s.page}>
+        <div className={s.header}>
+          <div className={s.titleBlock}>
+            <Typography variant="h2">Bulk operations</Typography>
+            <Typography variant="body" tone="muted">
+              Change air, fuel, subscriptions or block status for many users at
+              once.
+            </Typography>
+          </div>
+          <Button as={Link} to="/users" variant="secondary">
+            Back to users
+          </Button>
+        </div>
+
+        <Stack gap="16px" className={s.sourceCard}>
+          <Field label="Users">
+            <RadioGroup
+              name="bulk-source"
+              value={source}
+              options={SOURCE_OPTIONS}
+              onChange={(value) => {
+                setSource(value as BulkSource);
+                setRows([]);
+              }}
+              disabled={isBusy}
+            />
+          </Field>
+
+          {source === 'csv' ? (
+            <Stack gap="8px">
+              <Typography variant="body" tone="muted">
+                One user per line: the user ID followed by one or more
+                operations, e.g. <code>12345,+50 air,+7 days subscription</code>
+                . Use <code>+</code> or <code>-</code> for deltas,{' '}
+                <code>=</code> to set a value, and <code>block</code> or{' '}
+                <code>unblock</code> to change the status.
+              </Typography>
+              <div className={s.sourceRow}>
+                <Button
+                  variant="secondary"
+                  onClick={() => fileInputRef.current?.click()}
+                  loading={isValidating}
+                  disabled={isBusy}
+                >
+                  Upload CSV
+                </Button>
+                {fileName ? (
+                  <Typography variant="caption" tone="muted">
+                    {fileName}
+                  </Typography>
+                ) : null}
+              </div>
+              <input
+                ref={fileInputRef}
+                className={s.hiddenInput}
+                type="file"
+                accept="text/csv,.csv,text/plain,.txt"
+                onChange={(event) => void handleFileChange(event)}
+              />
+            </Stack>
+          ) : (
+            <div className={s.sourceRow}>
+              <Field
+                label="Audience"
+                labelFor="bulk-segment"
+                className={s.sourceField}
+              >
+                <Select
+                  id="bulk-segment"
+                  options={segmentOptions}
+                  value={segmentId}
+                  placeholder="Select audience"
+                  onChange={setSegmentId}
+                  disabled={isBusy}
+                  fullWidth
+                />
+              </Field>
+              <Field
+                label="Operations"
+                labelFor="bulk-operations"
+                hint="Separate operations with commas, e.g. +50 air, +7 days subscription."
+                error={
+                  operationsText.trim()
+                    ? segmentOperations.errors.join(' ') || undefined
+                    : undefined
+                }
+                className={s.sourceField}
+              >
+                <Input
+                  id="bulk-operations"
+                  value={operationsText}
+                  onChange={(event) => setOperationsText(event.target.value)}
+                  placeholder="+50 air, +7 days subscription"
+                  disabled={isBusy}
+                  fullWidth
+                />
+              </Field>
+              <Button
+                onClick={() => void handleValidateSegment()}
+                loading={isValidating}
+                disabled={
+                  isBusy ||
+                  !segmentId ||
+                  segmentOperations.operations.length === 0 ||
+                  segmentOperations.errors.length > 0
+                }
+              >
+                Preview
+              </Button>
+            </div>
+          )}
+        </Stack>
+
+        {progress ? (
+          <Stack gap="8px">
+            <Typography variant="caption" tone="muted">
+              {`${progress.label}: ${progress.done.toLocaleString()} / ${progress.total.toLocaleString()}`}
+            </Typography>
+            <Progress
+              value={
+                progress.total > 0 ? (progress.done / progress.total) * 100 : 0
+              }
+            />
+          </Stack>
+        ) : null}
+
+        {rows.length > 0 ? (
+          <Stack gap="12px">
+            <div className={s.summary}>
+              <div className={s.summaryCounts}>
+                <Badge tone="accent">{`${counts.ready.toLocaleString()} ready`}</Badge>
+                <Badge tone="danger" outline>
+                  {`${counts.invalid.toLocaleString()} invalid`}
+                </Badge>
+                <Badge tone="accent" outline>
+                  {`${counts.unchanged.toLocaleString()} unchanged`}
+                </Badge>
+                {hasRun ? (
+                  <>
+                    <Badge tone="success">{`${counts.done.toLocaleString()} done`}</Badge>
+                    <Badge tone="danger">{`${counts.failed.toLocaleString()} failed`}</Badge>
+                    <Badge tone="warning" outline>
+                      {`${counts.skipped.toLocaleString()} skipped`}
+                    </Badge>
+                  </>
+                ) : null}
+              </div>
+              <div className={s.summaryActions}>
+                <Button
+                  variant="secondary"
+                  iconLeft={<DownloadIcon />}
+                  onClick={handleDownloadReport}
+                  disabled={isBusy}
+                >
+                  Download report
+                </Button>
+                {isRunning ? (
+                  <Button
+                    variant="outline"
+                    tone="danger"
+                    onClick={() => {
+                      stopRequestedRef.current = true;
+                    }}
+                  >
+                    Stop
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => setIsConfirmOpen(true)}
+                    disabled={isBusy || counts.ready === 0}
+                  >
+                    {`Apply to ${counts.ready.toLocaleString()} users`}
+                  </Button>
+                )}
+              </div>
+            </div>
+            {!hasRun ? (
+              <Typography variant="caption" tone="muted">
+                Resulting balances are an estimate. Each user is read again and
+                recalculated right before the update, so spending or purchases
+                made in the meantime are kept.
+              </Typography>
+            ) : null}
+            {counts.invalid > 0 && !hasRun ? (
+              <Alert
+                title="Some rows are invalid"
+                description="Invalid rows are skipped. Fix the file and upload it again to include them."
+                tone="warning"
+              />
+            ) : null}
+            <Table columns={COLUMNS} rows={tableRows} scrollable />
+          </Stack>
+        ) : null}
+
+        {rows.length === 0 && !isValidating ? (
+          <EmptyState
+            title="Nothing to preview"
+            description="Upload a CSV or choose an audience to see the resulting balances."
+          />
+        ) : null}
+
+        <ConfirmModal
+          open={isConfirmOpen}
+          title="Apply bulk operation"
+          description={`Update ${counts.ready.toLocaleString()} users? Changes are recalculated from each user's current balance, applied one by one and can be stopped midway.`}
+          confirmLabel="Apply"
+          onConfirm={() => void handleRun()}
+          onClose={() => setIsConfirmOpen(false)}
+        />
+      </Container>
+    </AppShell>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 
 import { useUserDetails } from '@/app/users';
@@ -15,11 +15,17 @@ import {
   Skeleton,
   Stack,
   Table,
+  Tag,
   Typography,
 } from '@/atoms';
-import type { RoleplayStage } from '@/common/types';
+import { AuditEntityType, type RoleplayStage } from '@/common/types';
+import { getUserTagTone } from '@/common/utils';
+import { ActivityPanel } from '@/components/organisms';
 import { AppShell } from '@/components/templates';
 
+import { UserNotesPanel } from './components/UserNotesPanel';
+import { UserTagsModal } from './components/UserTagsModal';
+import { UserTimelinePanel } from './components/UserTimelinePanel';
 import s from './UserDetailsPage.module.scss';
 import {
   formatDate,
@@ -50,6 +56,7 @@ export function UserDetailsPage() {
   const userId = id ?? '';
   const { data, error, isLoading, refetch } = useUserDetails(userId || null);
   const userActions = useUserActionModals();
+  const [isTagsModalOpen, setIsTagsModalOpen] = useState(false);
 
   const subscription = data ? getSubscriptionStatus(data) : null;
   const chats = useMemo(() => data?.chats ?? [], [data?.chats]);
@@ -405,10 +412,28 @@ export function UserDetailsPage() {
               <Field label="Updated">
                 <Typography variant="body">{formatDate(data.updatedAt)}</Typography>
               </Field>
+              <Field label="Tags">
+                <div className={s.tagsCell}>
+                  {(data.tags ?? []).map((tag) => (
+                    <Tag key={tag.id} tone={getUserTagTone(tag.color)}>
+                      {tag.name}
+                    </Tag>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setIsTagsModalOpen(true)}
+                  >
+                    {data.tags?.length ? 'Edit' : 'Add tags'}
+                  </Button>
+                </div>
+              </Field>
             </Grid>
           ) : null}
         </Section>
 
+        {data ? <UserNotesPanel userId={data.id} /> : null}
+
         <Section
           title="Active chat"
           actions={
@@ -552,9 +577,21 @@ export function UserDetailsPage() {
             />
           )}
         </Section>
+        {data ? <UserTimelinePanel user={data} /> : null}
+        {data ? (
+          <ActivityPanel entityType={AuditEntityType.User} entityId={data.id} />
+        ) : null}
       </Container>
 
       {userActions.modals}
+      {data ? (
+        <UserTagsModal
+          open={isTagsModalOpen}
+          userId={data.id}
+          tags={data.tags ?? []}
+          onClose={() => setIsTagsModalOpen(false)}
+        />
+      ) : null}
     </AppShell>
   );
 }
@@ -1,8 +1,12 @@
 import { MagnifyingGlassIcon } from '@radix-ui/react-icons';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 
+import { useSegments } from '@/app/segments';
+import { notifyError, notifySuccess } from '@/app/toast';
+import { useUserTags } from '@/app/user-tags';
 import { useUsers } from '@/app/users';
+import { DownloadIcon } from '@/assets/icons';
 import {
   Alert,
   Badge,
@@ -16,9 +20,12 @@ import {
   Skeleton,
   Stack,
   Table,
+  Tag,
   Typography,
 } from '@/atoms';
+import { getUserTagTone } from '@/common/utils';
 import { AppShell } from '@/components/templates';
+import { downloadSegmentUserIds } from '@/pages/segments/segmentFormat';
 
 import {
   formatDate,
@@ -31,6 +38,8 @@ import { useUserActionModals } from './useUserActionModals';
 
 type QueryUpdate = {
   search?: string;
+  segment?: string;
+  tag?: string;
   order?: string;
   page?: number;
   pageSize?: number;
@@ -77,6 +86,8 @@ export function UsersPage() {
   const rawOrder = searchParams.get('order');
   const rawPage = searchParams.get('page');
   const rawPageSize = searchParams.get('pageSize');
+  const segmentId = searchParams.get('segment') ?? '';
+  const tagId = searchParams.get('tag') ?? '';
 
   const [searchInput, setSearchInput] = useState(rawSearch);
   const debouncedSearch = useDebouncedValue(searchInput, SEARCH_DEBOUNCE_MS);
@@ -99,6 +110,22 @@ export function UsersPage() {
         }
       }
 
+      if (update.segment !== undefined) {
+        if (update.segment) {
+          next.set('segment', update.segment);
+        } else {
+          next.delete('segment');
+        }
+      }
+
+      if (update.tag !== undefined) {
+        if (update.tag) {
+          next.set('tag', update.tag);
+        } else {
+          next.delete('tag');
+        }
+      }
+
       if (update.order !== undefined) {
         if (update.order && update.order !== DEFAULT_ORDER) {
           next.set('order', update.order);
@@ -140,15 +167,65 @@ export function UsersPage() {
   const queryParams = useMemo(
     () => ({
       search: normalizedSearch || undefined,
+      segmentId: segmentId || undefined,
+      tagId: tagId || undefined,
       order,
       skip: (page - 1) * pageSize,
       take: pageSize,
     }),
-    [normalizedSearch, order, page, pageSize],
+    [normalizedSearch, segmentId, tagId, order, page, pageSize],
   );
 
   const { data, error, isLoading, refetch } = useUsers(queryParams);
   const userActions = useUserActionModals();
+  const { data: segmentsData } = useSegments({
+    order: 'ASC',
+    skip: 0,
+    take: 100,
+  });
+  const segments = useMemo(
+    () => segmentsData?.data ?? [],
+    [segmentsData?.data],
+  );
+  const segmentOptions = useMemo(
+    () => [
+      { label: 'All users', value: '' },
+      ...segments.map((segment) => ({
+        label: segment.name,
+        value: segment.id,
+      })),
+    ],
+    [segments],
+  );
+  const { data: tagsData } = useUserTags();
+  const tagOptions = useMemo(
+    () => [
+      { label: 'Any tag', value: '' },
+      ...(tagsData ?? []).map((tag) => ({ label: tag.name, value: tag.id })),
+    ],
+    [tagsData],
+  );
+  const selectedSegment = segments.find((segment) => segment.id === segmentId);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExportSegment = async () => {
+    if (!segmentId) return;
+    setIsExporting(true);
+    try {
+      const count = await downloadSegmentUserIds({
+        id: segmentId,
+        name: selectedSegment?.name ?? segmentId,
+      });
+      notifySuccess(
+        `Exported ${count.toLocaleString()} user IDs.`,
+        'User IDs exported.',
+      );
+    } catch (exportError) {
+      notifyError(exportError, 'Unable to export segment users.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const users = useMemo(() => data?.data ?? [], [data?.data]);
   const total = data?.total ?? 0;
@@ -192,6 +269,15 @@ export function UsersPage() {
               <Typography variant="caption" tone="muted">
                 {formatUserMeta(user)}
               </Typography>
+              {user.tags?.length ? (
+                <div className={s.tagList}>
+                  {user.tags.map((tag) => (
+                    <Tag key={tag.id} tone={getUserTagTone(tag.color)}>
+                      {tag.name}
+                    </Tag>
+                  ))}
+                </div>
+              ) : null}
             </div>
           ),
           status: user.isBlocked ? (
@@ -335,6 +421,22 @@ export function UsersPage() {
           <div className={s.titleBlock}>
             <Typography variant="h2">Users</Typography>
           </div>
+          <div className={s.headerActions}>
+            {segmentId ? (
+              <Button
+                variant="secondary"
+                iconLeft={<DownloadIcon />}
+                onClick={handleExportSegment}
+                loading={isExporting}
+                disabled={isExporting}
+              >
+                Export IDs
+              </Button>
+            ) : null}
+            <Button as={Link} to="/users/bulk" variant="secondary">
+              Bulk operations
+            </Button>
+          </div>
         </div>
 
         <div className={s.filters}>
@@ -353,6 +455,30 @@ export function UsersPage() {
                 fullWidth
               />
             </Field>
+            <Field label="Segment" labelFor="users-segment">
+              <Select
+                id="users-segment"
+                options={segmentOptions}
+                value={segmentId}
+                size="sm"
+                variant="ghost"
+                onChange={(value) =>
+                  updateSearchParams({ segment: value, page: 1 })
+                }
+              />
+            </Field>
+            <Field label="Tag" labelFor="users-tag">
+              <Select
+                id="users-tag"
+                options={tagOptions}
+                value={tagId}
+                size="sm"
+                variant="ghost"
+                onChange={(value) =>
+                  updateSearchParams({ tag: value, page: 1 })
+                }
+              />
+            </Field>
             <Field label="Order" labelFor="users-order">
               <Select
                 id="users-order"
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+
+import {
+  useCreateUserNote,
+  useDeleteUserNote,
+  useUserNotes,
+} from '@/app/user-notes';
+import {
+  Alert,
+  Button,
+  EmptyState,
+  Section,
+  Skeleton,
+  Stack,
+  Textarea,
+  Typography,
+} from '@/atoms';
+import type { IUserNote } from '@/common/types';
+import { formatAuditAdmin } from '@/common/utils';
+import { ConfirmModal } from '@/components/molecules';
+
+import { formatDate } from '../userFormat';
+import s from './UserNotesPanel.module.scss';
+
+type UserNotesPanelProps = {
+  userId: string;
+};
+
+export function UserNotesPanel({ userId }: UserNotesPanelProps) {
+  const { data, error, isLoading } = useUserNotes(userId);
+  const createMutation = useCreateUserNote();
+  const deleteMutation = useDeleteUserNote();
+  const [text, setText] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<IUserNote | null>(null);
+
+  const notes = data ?? [];
+  const trimmed = text.trim();
+
+  const handleAdd = async () => {
+    if (!trimmed) return;
+    await createMutation.mutateAsync({ userId, payload: { text: trimmed } });
+    setText('');
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) return;
+    await deleteMutation.mutateAsync({ userId, noteId: deleteTarget.id });
+    setDeleteTarget(null);
+  };
+
+  return (
+    <Section
+      title="Support notes"
+      description="Internal context for other admins. Users never see these."
+    >
+      <div className={s.composer}>
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="What happened, what was promised, what to check next time..."
+          rows={3}
+          disabled={createMutation.isPending}
+          fullWidth
+        />
+        <Button
+          className={s.addButton}
+          onClick={() => void handleAdd()}
+          loading={createMutation.isPending}
+          disabled={!trimmed}
+        >
+          Add note
+        </Button>
+      </div>
+
+      {error ? (
+        <Alert
+          title="Unable to load notes"
+          description={
+            error instanceof Error ? error.message : 'Please try again.'
+          }
+          tone="warning"
+        />
+      ) : null}
+
+      {isLoading ? (
+        <Stack gap="8px">
+          <Skeleton width="100%" height={48} />
+          <Skeleton width="100%" height={48} />
+        </Stack>
+      ) : null}
+
+      {!isLoading && !error && notes.length === 0 ? (
+        <EmptyState
+          title="No notes yet"
+          description="Record support context so the next shift does not have to ask again."
+        />
+      ) : null}
+
+      {notes.length > 0 ? (
+        <div className={s.list}>
+          {notes.map((note) => (
+            <div key={note.id} className={s.item}>
+              <div className={s.itemHeader}>
+                <Typography variant="caption" tone="muted">
+                  {`${formatAuditAdmin(note.admin)} · ${formatDate(note.createdAt)}`}
+                </Typography>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  tone="danger"
+                  className={s.deleteButton}
+                  onClick={() => setDeleteTarget(note)}
+                >
+                  Delete
+                </Button>
+              </div>
+              <Typography variant="body" className={s.text}>
+                {note.text}
+              </Typography>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <ConfirmModal
+        open={Boolean(deleteTarget)}
+        title="Delete note"
+        description="Delete this note? Other admins will no longer see it."
+        confirmLabel="Delete"
+        tone="danger"
+        isConfirming={deleteMutation.isPending}
+        onConfirm={() => void handleConfirmDelete()}
+        onClose={() => setDeleteTarget(null)}
+      />
+    </Section>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+
+import { useCreateUserTag, useSetUserTags, useUserTags } from '@/app/user-tags';
+import {
+  Button,
+  Checkbox,
+  EmptyState,
+  Field,
+  Input,
+  Modal,
+  RadioGroup,
+  Skeleton,
+  Stack,
+  Tag,
+  Typography,
+} from '@/atoms';
+import { type IUserTag, UserTagColor } from '@/common/types';
+import { getUserTagTone, userTagColorOptions } from '@/common/utils';
+
+import s from './UserTagsModal.module.scss';
+
+type UserTagsModalProps = {
+  open: boolean;
+  userId: string;
+  tags: IUserTag[];
+  onClose: () => void;
+};
+
+export function UserTagsModal({
+  open,
+  userId,
+  tags,
+  onClose,
+}: UserTagsModalProps) {
+  const { data: catalog, isLoading } = useUserTags(open);
+  const createMutation = useCreateUserTag();
+  const setTagsMutation = useSetUserTags();
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<UserTagColor>(UserTagColor.Blue);
+
+  const selected = selectedIds ?? new Set(tags.map((tag) => tag.id));
+  const isSaving = setTagsMutation.isPending;
+  const trimmedName = newName.trim();
+  const isDuplicateName = (catalog ?? []).some(
+    (tag) => tag.name.toLowerCase() === trimmedName.toLowerCase(),
+  );
+
+  const reset = () => {
+    setSelectedIds(null);
+    setNewName('');
+    setNewColor(UserTagColor.Blue);
+  };
+
+  const handleClose = () => {
+    if (isSaving) return;
+    reset();
+    onClose();
+  };
+
+  const toggleTag = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleCreate = async () => {
+    if (!trimmedName || isDuplicateName) return;
+    const created = await createMutation.mutateAsync({
+      name: trimmedName,
+      color: newColor,
+    });
+    setSelectedIds(new Set([...selected, created.id]));
+    setNewName('');
+  };
+
+  const handleSave = async () => {
+    await setTagsMutation.mutateAsync({ userId, tagIds: [...selected] });
+    reset();
+    onClose();
+  };
+
+  return (
+    <Modal
+      open={open}
+      title="User tags"
+      onClose={handleClose}
+      actions={
+        <div className={s.actions}>
+          <Button variant="secondary" onClick={handleClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleSave()} loading={isSaving}>
+            Save tags
+          </Button>
+        </div>
+      }
+    >
+      <Stack gap="16px">
+        {isLoading ? (
+          <Stack gap="8px">
+            <Skeleton width="100%" height={20} />
+            <Skeleton width="100%" height={20} />
+          </Stack>
+        ) : catalog && catalog.length > 0 ? (
+          <div className={s.list}>
+            {catalog.map((tag) => (
+              <div key={tag.id} className={s.option}>
+                <Checkbox
+                  checked={selected.has(tag.id)}
+                  onChange={(event) => toggleTag(tag.id, event.target.checked)}
+                  disabled={isSaving}
+                  aria-label={tag.name}
+                />
+                <Tag tone={getUserTagTone(tag.color)}>{tag.name}</Tag>
+                {typeof tag.userCount === 'number' ? (
+                  <Typography variant="caption" tone="muted">
+                    {`${tag.userCount.toLocaleString()} users`}
+                  </Typography>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <EmptyState
+            title="No tags yet"
+            description="Create the first tag below."
+          />
+        )}
+
+        <div className={s.createForm}>
+          <Field
+            label="New tag"
+            labelFor="user-tag-name"
+            error={isDuplicateName ? 'A tag with this name exists.' : undefined}
+          >
+            <Input
+              id="user-tag-name"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="VIP, refund requested, abuser..."
+              disabled={createMutation.isPending}
+              invalid={isDuplicateName}
+              fullWidth
+            />
+          </Field>
+          <Field label="Color">
+            <RadioGroup
+              name="user-tag-color"
+              value={newColor}
+              options={userTagColorOptions}
+              onChange={(value) => setNewColor(value as UserTagColor)}
+              disabled={createMutation.isPending}
+            />
+          </Field>
+          <Button
+            variant="secondary"
+            className={s.createButton}
+            onClick={() => void handleCreate()}
+            loading={createMutation.isPending}
+            disabled={!trimmedName || isDuplicateName}
+          >
+            Create tag
+          </Button>
+        </div>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,243 @@
+import { useQueries } from '@tanstack/react-query';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+
+import { useAuditLogs } from '@/app/audit';
+import { getChatDetails } from '@/app/chats';
+import { useInAppPurchases } from '@/app/in-app-purchases';
+import {
+  Alert,
+  Badge,
+  Button,
+  Checkbox,
+  EmptyState,
+  Section,
+  Skeleton,
+  Stack,
+  Typography,
+} from '@/atoms';
+import { AuditEntityType, type ITgUserDetails } from '@/common/types';
+
+import { formatDate } from '../userFormat';
+import { buildUserTimeline, UserTimelineEventKind } from './userTimeline';
+import s from './UserTimelinePanel.module.scss';
+
+type UserTimelinePanelProps = {
+  user: ITgUserDetails;
+};
+
+const SOURCE_LIMIT = 100;
+const STAGE_CHATS_LIMIT = 10;
+const PAGE_SIZE = 30;
+
+const KIND_OPTIONS: {
+  value: UserTimelineEventKind;
+  label: string;
+  tone: 'accent' | 'success' | 'warning' | 'danger';
+}[] = [
+  { value: UserTimelineEventKind.SignUp, label: 'Sign-up', tone: 'accent' },
+  {
+    value: UserTimelineEventKind.ChatStarted,
+    label: 'Chat started',
+    tone: 'accent',
+  },
+  {
+    value: UserTimelineEventKind.StageChanged,
+    label: 'Stage change',
+    tone: 'accent',
+  },
+  {
+    value: UserTimelineEventKind.SubscriptionPurchase,
+    label: 'Subscription purchase',
+    tone: 'success',
+  },
+  {
+    value: UserTimelineEventKind.AirPurchase,
+    label: 'Air purchase',
+    tone: 'success',
+  },
+  {
+    value: UserTimelineEventKind.Payment,
+    label: 'Other payment',
+    tone: 'success',
+  },
+  {
+    value: UserTimelineEventKind.InAppPurchase,
+    label: 'In-app purchase',
+    tone: 'warning',
+  },
+  {
+    value: UserTimelineEventKind.BalanceEdit,
+    label: 'Admin edit',
+    tone: 'danger',
+  },
+];
+
+const kindMeta = new Map(KIND_OPTIONS.map((option) => [option.value, option]));
+
+export function UserTimelinePanel({ user }: UserTimelinePanelProps) {
+  const [hiddenKinds, setHiddenKinds] = useState<Set<UserTimelineEventKind>>(
+    new Set(),
+  );
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const inAppPurchasesQuery = useInAppPurchases({
+    userId: user.id,
+    order: 'DESC',
+    skip: 0,
+    take: SOURCE_LIMIT,
+  });
+  const auditLogsQuery = useAuditLogs({
+    entityType: AuditEntityType.User,
+    entityId: user.id,
+    order: 'DESC',
+    skip: 0,
+    take: SOURCE_LIMIT,
+  });
+
+  const recentChatIds = useMemo(
+    () =>
+      [...user.chats]
+        .sort(
+          (a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+        )
+        .slice(0, STAGE_CHATS_LIMIT)
+        .map((chat) => chat.id),
+    [user.chats],
+  );
+  const chatDetailsQueries = useQueries({
+    queries: recentChatIds.map((chatId) => ({
+      queryKey: ['chat', chatId] as const,
+      queryFn: () => getChatDetails(chatId),
+    })),
+  });
+  const chatDetails = chatDetailsQueries.flatMap((query) =>
+    query.data ? [query.data] : [],
+  );
+
+  const events = buildUserTimeline({
+    user,
+    inAppPurchases: inAppPurchasesQuery.data?.data ?? [],
+    auditLogs: auditLogsQuery.data?.data ?? [],
+    chatDetails,
+  });
+
+  const filteredEvents = events.filter((event) => !hiddenKinds.has(event.kind));
+  const visibleEvents = filteredEvents.slice(0, visibleCount);
+  const isLoading =
+    inAppPurchasesQuery.isLoading ||
+    auditLogsQuery.isLoading ||
+    chatDetailsQueries.some((query) => query.isLoading);
+  const sourceError = inAppPurchasesQuery.error ?? auditLogsQuery.error;
+
+  const toggleKind = (kind: UserTimelineEventKind) => {
+    setHiddenKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  return (
+    <Section
+      title="Timeline"
+      description={`Everything that happened to this user, newest first. Stage changes cover the ${STAGE_CHATS_LIMIT} most recent chats.`}
+    >
+      <div className={s.filters}>
+        {KIND_OPTIONS.map((option) => (
+          <Checkbox
+            key={option.value}
+            label={option.label}
+            checked={!hiddenKinds.has(option.value)}
+            onChange={() => toggleKind(option.value)}
+          />
+        ))}
+      </div>
+
+      {sourceError ? (
+        <Alert
+          title="Part of the timeline is unavailable"
+          description={
+            sourceError instanceof Error
+              ? sourceError.message
+              : 'Please try again.'
+          }
+          tone="warning"
+        />
+      ) : null}
+
+      {isLoading ? (
+        <Stack gap="8px">
+          <Skeleton width="100%" height={40} />
+          <Skeleton width="100%" height={40} />
+          <Skeleton width="100%" height={40} />
+        </Stack>
+      ) : null}
+
+      {filteredEvents.length === 0 ? (
+        <EmptyState
+          title="No events"
+          description="No events match the selected types."
+        />
+      ) : (
+        <div className={s.list}>
+          {visibleEvents.map((event) => {
+            const meta = kindMeta.get(event.kind);
+
+            return (
+              <div key={event.id} className={s.entry}>
+                <Typography
+                  variant="caption"
+                  tone="muted"
+                  className={s.entryDate}
+                >
+                  {formatDate(event.at)}
+                </Typography>
+                <Badge tone={meta?.tone ?? 'accent'} outline>
+                  {meta?.label ?? event.kind}
+                </Badge>
+                <div className={s.entryBody}>
+                  <Typography variant="body">
+                    {event.to ? (
+                      <Link to={event.to} className={s.entryLink}>
+                        {event.title}
+                      </Link>
+                    ) : (
+                      event.title
+                    )}
+                  </Typography>
+                  {event.description ? (
+                    <Typography variant="caption" tone="muted">
+                      {event.description}
+                    </Typography>
+                  ) : null}
+                </div>
+                {event.amount !== null ? (
+                  <Typography variant="body" className={s.entryAmount}>
+                    {event.amount.toLocaleString()}
+                  </Typography>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {filteredEvents.length > visibleEvents.length ? (
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setVisibleCount((prev) => prev + PAGE_SIZE)}
+        >
+          {`Show older events (${filteredEvents.length - visibleEvents.length})`}
+        </Button>
+      ) : null}
+    </Section>
+  );
+}
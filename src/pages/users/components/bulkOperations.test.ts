@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ITgUser } from '@/common/types';
+
+import {
+  createBulkOperationRow,
+  parseBulkOperationsText,
+  previewBulkOperationRow,
+} from './bulkOperations';
+
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+
+const user: ITgUser = {
+  id: 'user-1',
+  firstName: 'Ann',
+  lastName: '',
+  username: 'ann',
+  air: 10,
+  fuel: 95,
+  isBlocked: false,
+  subscribedUntil: '2026-03-11T00:00:00.000Z',
+  lastActivityAt: '2026-02-28T00:00:00.000Z',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-02-28T00:00:00.000Z',
+};
+
+function preview(operations: string, balance: Partial<ITgUser> = {}) {
+  const parsed = parseBulkOperationsText(operations);
+  const row = createBulkOperationRow(1, user.id, parsed.operations);
+  return previewBulkOperationRow(row, { ...user, ...balance }, NOW);
+}
+
+describe('previewBulkOperationRow', () => {
+  it('applies relative changes to the current balance', () => {
+    const row = preview('+5 air; -10 fuel');
+
+    expect(row.status).toBe('ready');
+    expect(row.payload).toEqual({ air: 15, fuel: 85 });
+    expect(row.warnings).toEqual([]);
+  });
+
+  it('recomputes the payload from a newer balance', () => {
+    expect(preview('+5 air', { air: 40 }).payload).toEqual({ air: 45 });
+  });
+
+  it('caps air and fuel with warnings', () => {
+    const row = preview('-20 air; +10 fuel');
+
+    expect(row.payload).toEqual({ air: 0, fuel: 100 });
+    expect(row.warnings).toEqual(['Air capped at 0.', 'Fuel capped at 100.']);
+  });
+
+  it('extends an active subscription from its end date', () => {
+    expect(preview('+5 days').payload).toEqual({
+      subscribedUntil: '2026-03-16T00:00:00.000Z',
+    });
+  });
+
+  it('starts an expired subscription from now', () => {
+    expect(
+      preview('+5 days', { subscribedUntil: '2026-01-01T00:00:00.000Z' })
+        .payload,
+    ).toEqual({ subscribedUntil: '2026-03-06T00:00:00.000Z' });
+  });
+
+  it('does not shorten an inactive subscription', () => {
+    const row = preview('-5 days', { subscribedUntil: null });
+
+    expect(row.status).toBe('unchanged');
+    expect(row.payload).toBeNull();
+    expect(row.warnings).toEqual(['No active subscription to shorten.']);
+  });
+
+  it('marks rows that change nothing as unchanged', () => {
+    const row = preview('=10 air; unblock');
+
+    expect(row.status).toBe('unchanged');
+    expect(row.payload).toBeNull();
+    expect(row.message).toBe('Nothing to change.');
+  });
+});
@@ -0,0 +1,372 @@
+import type { CsvDataSet } from '@/app/analytics/exportCsv';
+import type { ITgUser, UpdateTgUser } from '@/common/types';
+
+export type BulkOperationField = 'air' | 'fuel' | 'subscriptionDays';
+
+export type BulkOperationMode = 'add' | 'subtract' | 'set';
+
+export type BulkOperation =
+  | { field: BulkOperationField; mode: BulkOperationMode; amount: number }
+  | { field: 'isBlocked'; value: boolean };
+
+export type BulkOperationRowStatus =
+  | 'invalid'
+  | 'ready'
+  | 'unchanged'
+  | 'running'
+  | 'done'
+  | 'failed'
+  | 'skipped';
+
+export type BulkOperationBalance = {
+  air: number;
+  fuel: number;
+  subscribedUntil: string | null;
+  isBlocked: boolean;
+};
+
+export type BulkOperationRow = {
+  line: number;
+  userId: string;
+  operations: BulkOperation[];
+  errors: string[];
+  warnings: string[];
+  status: BulkOperationRowStatus;
+  before: BulkOperationBalance | null;
+  after: BulkOperationBalance | null;
+  payload: UpdateTgUser | null;
+  message: string | null;
+};
+
+const MAX_FUEL = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_ID_HEADERS = new Set(['id', 'userid', 'user_id', 'user id']);
+const OPERATION_PATTERN = /^([+=-])\s*(\d+)\s*([a-z][a-z\s]*)$/;
+const OPERATION_SEPARATOR = /[;,]/;
+
+function parseCsvLine(line: string) {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (inQuotes) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseOperationField(value: string): BulkOperationField | null {
+  const words = value.trim().split(/\s+/);
+  if (words.includes('air')) return 'air';
+  if (words.includes('fuel')) return 'fuel';
+  if (
+    words.some(
+      (word) =>
+        word === 'd' ||
+        word === 'day' ||
+        word === 'days' ||
+        word === 'subscription',
+    )
+  ) {
+    return 'subscriptionDays';
+  }
+  return null;
+}
+
+function getOperationKey(operation: BulkOperation) {
+  return operation.field;
+}
+
+export function parseBulkOperation(
+  value: string,
+): BulkOperation | { error: string } {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'block') return { field: 'isBlocked', value: true };
+  if (normalized === 'unblock') return { field: 'isBlocked', value: false };
+
+  const match = OPERATION_PATTERN.exec(normalized);
+  if (!match) {
+    if (/^\d/.test(normalized)) {
+      return { error: `"${value}": start the amount with +, - or =.` };
+    }
+    return { error: `"${value}" is not a valid operation.` };
+  }
+
+  const [, sign, rawAmount, rawField] = match;
+  const field = parseOperationField(rawField);
+  if (!field) {
+    return { error: `"${value}": unknown field "${rawField.trim()}".` };
+  }
+  const amount = Number(rawAmount);
+  if (!Number.isSafeInteger(amount)) {
+    return { error: `"${value}": amount is too large.` };
+  }
+  const mode: BulkOperationMode =
+    sign === '+' ? 'add' : sign === '-' ? 'subtract' : 'set';
+  return { field, mode, amount };
+}
+
+export function parseBulkOperations(values: string[]) {
+  const operations: BulkOperation[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const value of values) {
+    if (!value.trim()) continue;
+    const parsed = parseBulkOperation(value);
+    if ('error' in parsed) {
+      errors.push(parsed.error);
+      continue;
+    }
+    const key = getOperationKey(parsed);
+    if (seen.has(key)) {
+      errors.push(`"${value}": ${key} is changed more than once.`);
+      continue;
+    }
+    seen.add(key);
+    operations.push(parsed);
+  }
+
+  return { operations, errors };
+}
+
+export function parseBulkOperationsText(value: string) {
+  return parseBulkOperations(value.split(OPERATION_SEPARATOR));
+}
+
+export function createBulkOperationRow(
+  line: number,
+  userId: string,
+  operations: BulkOperation[],
+  errors: string[] = [],
+): BulkOperationRow {
+  const rowErrors = [...errors];
+  if (!userId) rowErrors.push('User ID is missing.');
+  if (operations.length === 0 && errors.length === 0) {
+    rowErrors.push('No operations in this row.');
+  }
+  return {
+    line,
+    userId,
+    operations,
+    errors: rowErrors,
+    warnings: [],
+    status: rowErrors.length > 0 ? 'invalid' : 'ready',
+    before: null,
+    after: null,
+    payload: null,
+    message: null,
+  };
+}
+
+export function parseBulkOperationsCsv(content: string): BulkOperationRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const rows: BulkOperationRow[] = [];
+  const seenUserIds = new Map<string, number>();
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const [rawUserId = '', ...cells] = parseCsvLine(line);
+    const userId = rawUserId.trim();
+    if (rows.length === 0 && USER_ID_HEADERS.has(userId.toLowerCase())) {
+      return;
+    }
+
+    const { operations, errors } = parseBulkOperations(
+      cells.flatMap((cell) => cell.split(OPERATION_SEPARATOR)),
+    );
+    const row = createBulkOperationRow(index + 1, userId, operations, errors);
+    const duplicateLine = seenUserIds.get(userId);
+    if (userId && duplicateLine !== undefined) {
+      row.errors.push(`Duplicate of line ${duplicateLine}.`);
+      row.status = 'invalid';
+    } else if (userId) {
+      seenUserIds.set(userId, index + 1);
+    }
+    rows.push(row);
+  });
+
+  return rows;
+}
+
+function applyNumberOperation(
+  current: number,
+  operation: { mode: BulkOperationMode; amount: number },
+) {
+  if (operation.mode === 'add') return current + operation.amount;
+  if (operation.mode === 'subtract') return current - operation.amount;
+  return operation.amount;
+}
+
+function getSubscriptionTime(value: string | null) {
+  const time = value ? new Date(value).getTime() : Number.NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function applySubscriptionOperation(
+  current: string | null,
+  operation: { mode: BulkOperationMode; amount: number },
+  now: number,
+) {
+  const activeUntil = Math.max(getSubscriptionTime(current), now);
+  if (operation.mode === 'set') {
+    return new Date(now + operation.amount * DAY_MS).toISOString();
+  }
+  if (operation.mode === 'add') {
+    return new Date(activeUntil + operation.amount * DAY_MS).toISOString();
+  }
+  return new Date(activeUntil - operation.amount * DAY_MS).toISOString();
+}
+
+export function toBulkOperationBalance(user: ITgUser): BulkOperationBalance {
+  return {
+    air: user.air ?? 0,
+    fuel: user.fuel ?? 0,
+    subscribedUntil: user.subscribedUntil ?? null,
+    isBlocked: user.isBlocked,
+  };
+}
+
+export function previewBulkOperationRow(
+  row: BulkOperationRow,
+  user: ITgUser,
+  now = Date.now(),
+): BulkOperationRow {
+  const before = toBulkOperationBalance(user);
+  const after = { ...before };
+  const warnings: string[] = [];
+
+  for (const operation of row.operations) {
+    if (operation.field === 'isBlocked') {
+      after.isBlocked = operation.value;
+    } else if (operation.field === 'air') {
+      const next = applyNumberOperation(before.air, operation);
+      if (next < 0) warnings.push('Air capped at 0.');
+      after.air = Math.max(0, next);
+    } else if (operation.field === 'fuel') {
+      const next = applyNumberOperation(before.fuel, operation);
+      if (next < 0) warnings.push('Fuel capped at 0.');
+      if (next > MAX_FUEL) warnings.push(`Fuel capped at ${MAX_FUEL}.`);
+      after.fuel = Math.min(MAX_FUEL, Math.max(0, next));
+    } else if (
+      operation.mode === 'subtract' &&
+      getSubscriptionTime(before.subscribedUntil) <= now
+    ) {
+      warnings.push('No active subscription to shorten.');
+    } else {
+      after.subscribedUntil = applySubscriptionOperation(
+        before.subscribedUntil,
+        operation,
+        now,
+      );
+    }
+  }
+
+  const payload: UpdateTgUser = {};
+  if (after.air !== before.air) payload.air = after.air;
+  if (after.fuel !== before.fuel) payload.fuel = after.fuel;
+  if (
+    after.subscribedUntil &&
+    after.subscribedUntil !== before.subscribedUntil
+  ) {
+    payload.subscribedUntil = after.subscribedUntil;
+  }
+  if (after.isBlocked !== before.isBlocked) {
+    payload.isBlocked = after.isBlocked;
+  }
+  const hasChanges = Object.keys(payload).length > 0;
+
+  return {
+    ...row,
+    warnings,
+    status: hasChanges ? 'ready' : 'unchanged',
+    before,
+    after,
+    payload: hasChanges ? payload : null,
+    message: hasChanges ? null : 'Nothing to change.',
+  };
+}
+
+export function formatBulkOperation(operation: BulkOperation) {
+  if (operation.field === 'isBlocked') {
+    return operation.value ? 'block' : 'unblock';
+  }
+  const sign =
+    operation.mode === 'add' ? '+' : operation.mode === 'subtract' ? '-' : '=';
+  const label =
+    operation.field === 'subscriptionDays'
+      ? 'days subscription'
+      : operation.field;
+  return `${sign}${operation.amount} ${label}`;
+}
+
+export function countBulkOperationRows(rows: BulkOperationRow[]) {
+  const counts: Record<BulkOperationRowStatus, number> = {
+    invalid: 0,
+    ready: 0,
+    unchanged: 0,
+    running: 0,
+    done: 0,
+    failed: 0,
+    skipped: 0,
+  };
+  for (const row of rows) {
+    counts[row.status] += 1;
+  }
+  return counts;
+}
+
+export function buildBulkOperationReport(rows: BulkOperationRow[]): CsvDataSet {
+  return {
+    headers: [
+      'Line',
+      'User ID',
+      'Operations',
+      'Status',
+      'Air before',
+      'Air after',
+      'Fuel before',
+      'Fuel after',
+      'Subscribed until before',
+      'Subscribed until after',
+      'Blocked before',
+      'Blocked after',
+      'Message',
+    ],
+    rows: rows.map((row) => [
+      row.line,
+      row.userId,
+      row.operations.map(formatBulkOperation).join('; '),
+      row.status,
+      row.before?.air,
+      row.after?.air,
+      row.before?.fuel,
+      row.after?.fuel,
+      row.before?.subscribedUntil,
+      row.after?.subscribedUntil,
+      row.before?.isBlocked,
+      row.after?.isBlocked,
+      [...row.errors, ...row.warnings, row.message].filter(Boolean).join(' '),
+    ]),
+  };
+}
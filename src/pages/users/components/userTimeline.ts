@@ -0,0 +1,221 @@
+import {
+  AuditAction,
+  type IAuditLog,
+  type IChatDetails,
+  type IInAppPurchaseEntity,
+  InAppPurchaseType,
+  type IPayment,
+  type ITgUserDetails,
+  PlanType,
+} from '@/common/types';
+import { formatAuditAdmin, formatRoleplayStage } from '@/common/utils';
+import { buildChatStageTimeline } from '@/pages/chats/components/chatStageTimeline';
+
+import { formatDate } from '../userFormat';
+
+export enum UserTimelineEventKind {
+  SignUp = 'sign_up',
+  ChatStarted = 'chat_started',
+  StageChanged = 'stage_changed',
+  SubscriptionPurchase = 'subscription_purchase',
+  AirPurchase = 'air_purchase',
+  Payment = 'payment',
+  InAppPurchase = 'in_app_purchase',
+  BalanceEdit = 'balance_edit',
+}
+
+export type UserTimelineEvent = {
+  id: string;
+  kind: UserTimelineEventKind;
+  at: string;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  to: string | null;
+};
+
+type UserTimelineSources = {
+  user: ITgUserDetails;
+  inAppPurchases: IInAppPurchaseEntity[];
+  auditLogs: IAuditLog[];
+  chatDetails: IChatDetails[];
+};
+
+const IN_APP_PURCHASE_LABELS: Record<InAppPurchaseType, string> = {
+  [InAppPurchaseType.Video]: 'Video',
+  [InAppPurchaseType.Gift]: 'Gift',
+  [InAppPurchaseType.CustomCharacter]: 'Custom character',
+  [InAppPurchaseType.CustomScenario]: 'Custom scenario',
+};
+
+const BALANCE_FIELDS = [
+  { key: 'air', label: 'Air' },
+  { key: 'fuel', label: 'Fuel' },
+  { key: 'subscribedUntil', label: 'Subscription' },
+  { key: 'isBlocked', label: 'Blocked' },
+] as const;
+
+function toTime(value: string | Date) {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function formatBalanceValue(key: string, value: unknown) {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (key === 'subscribedUntil' && typeof value === 'string') {
+    return formatDate(value);
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+}
+
+function describeBalanceEdit(log: IAuditLog) {
+  const changes = BALANCE_FIELDS.flatMap(({ key, label }) => {
+    const before = log.before?.[key];
+    const after = log.after?.[key];
+    if (after === undefined || before === after) return [];
+    return [
+      `${label} ${formatBalanceValue(key, before)} → ${formatBalanceValue(key, after)}`,
+    ];
+  });
+  return changes.length > 0 ? changes.join(', ') : null;
+}
+
+function describeInAppPurchase(purchase: IInAppPurchaseEntity) {
+  switch (purchase.type) {
+    case InAppPurchaseType.Gift:
+      return purchase.gift?.name ?? null;
+    case InAppPurchaseType.Video:
+    case InAppPurchaseType.CustomScenario:
+      return (
+        [purchase.character?.name, purchase.scenario?.name]
+          .filter(Boolean)
+          .join(' / ') || null
+      );
+    case InAppPurchaseType.CustomCharacter:
+      return purchase.character?.name ?? null;
+    default:
+      return null;
+  }
+}
+
+function getPaymentKind(payment: IPayment) {
+  switch (payment.plan?.type) {
+    case PlanType.Subscription:
+      return UserTimelineEventKind.SubscriptionPurchase;
+    case PlanType.Air:
+      return UserTimelineEventKind.AirPurchase;
+    default:
+      return UserTimelineEventKind.Payment;
+  }
+}
+
+const PAYMENT_TITLES: Partial<Record<UserTimelineEventKind, string>> = {
+  [UserTimelineEventKind.SubscriptionPurchase]: 'Bought subscription',
+  [UserTimelineEventKind.AirPurchase]: 'Bought air',
+};
+
+function formatInAppPurchaseType(type: InAppPurchaseType) {
+  return IN_APP_PURCHASE_LABELS[type] ?? type;
+}
+
+export function buildUserTimeline({
+  user,
+  inAppPurchases,
+  auditLogs,
+  chatDetails,
+}: UserTimelineSources): UserTimelineEvent[] {
+  const events: UserTimelineEvent[] = [
+    {
+      id: `sign-up-${user.id}`,
+      kind: UserTimelineEventKind.SignUp,
+      at: user.createdAt,
+      title: 'Signed up',
+      description: null,
+      amount: null,
+      to: null,
+    },
+  ];
+
+  for (const chat of user.chats) {
+    events.push({
+      id: `chat-${chat.id}`,
+      kind: UserTimelineEventKind.ChatStarted,
+      at: chat.createdAt,
+      title: 'Started a chat',
+      description:
+        [chat.character?.name, chat.scenario?.name]
+          .filter(Boolean)
+          .join(' / ') || null,
+      amount: null,
+      to: `/chats/${chat.id}`,
+    });
+  }
+
+  for (const chat of chatDetails) {
+    const items = chat.historyItems ?? [];
+    if (items.length <= 1) continue;
+    const { segments } = buildChatStageTimeline(items, chat.stage);
+    for (const segment of segments) {
+      if (!segment.enteredAt || segment.firstItemIndex === null) continue;
+      if (segment.firstItemIndex === 0) continue;
+      events.push({
+        id: `stage-${chat.id}-${segment.stage}`,
+        kind: UserTimelineEventKind.StageChanged,
+        at: String(segment.enteredAt),
+        title: `Reached ${formatRoleplayStage(segment.stage)}`,
+        description: chat.character?.name ?? null,
+        amount: null,
+        to: `/chats/${chat.id}`,
+      });
+    }
+  }
+
+  for (const payment of user.payments) {
+    const kind = getPaymentKind(payment);
+    events.push({
+      id: `payment-${payment.id}`,
+      kind,
+      at: payment.createdAt,
+      title: PAYMENT_TITLES[kind] ?? 'Payment',
+      description:
+        [payment.plan?.code, payment.character?.name, payment.scenario?.name]
+          .filter(Boolean)
+          .join(' / ') || null,
+      amount: payment.amount,
+      to: null,
+    });
+  }
+
+  for (const purchase of inAppPurchases) {
+    events.push({
+      id: `in-app-${purchase.id}`,
+      kind: UserTimelineEventKind.InAppPurchase,
+      at: purchase.createdAt,
+      title: `Bought ${formatInAppPurchaseType(purchase.type).toLowerCase()}`,
+      description: describeInAppPurchase(purchase),
+      amount: purchase.amount,
+      to:
+        purchase.type === InAppPurchaseType.Gift && purchase.gift
+          ? `/gifts/${purchase.gift.id}`
+          : null,
+    });
+  }
+
+  for (const log of auditLogs) {
+    if (log.action !== AuditAction.Update) continue;
+    const description = describeBalanceEdit(log);
+    if (!description) continue;
+    events.push({
+      id: `audit-${log.id}`,
+      kind: UserTimelineEventKind.BalanceEdit,
+      at: log.createdAt,
+      title: `Edited by ${formatAuditAdmin(log.admin)}`,
+      description,
+      amount: null,
+      to: null,
+    });
+  }
+
+  return events.sort((a, b) => toTime(b.at) - toTime(a.at));
+}
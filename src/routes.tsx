@@ -8,16 +8,20 @@ import {
 
 import { AuthGuard } from '@/app/auth';
 import {
-  ActiveUsersPage,
   ActivationsPage,
+  ActiveUsersPage,
   AdminsPage,
   AirPurchasesPage,
+  AnalyticsAlertsPage,
+  AnalyticsDashboardsPage,
   AnalyticsPage,
+  AuditPage,
   AuthCallbackPage,
   AuthNewPage,
   AuthPage,
   BatchImageDetailsPage,
   BatchImagesPage,
+  BroadcastHistoryPage,
   BroadcastPage,
   CampaignsPage,
   CharacterDetailsPage,
@@ -25,9 +29,11 @@ import {
   CharacterImagesVectorSearchPage,
   CharactersPage,
   ChatDetailsPage,
+  ChatReviewQueuePage,
   ChatsPage,
   CohortRevenuePage,
   ConfirmEmailPage,
+  ConversionFunnelsPage,
   ConversionsPage,
   CustomCharacterCreatePage,
   CustomCharacterDetailsPage,
@@ -50,13 +56,16 @@ import {
   PostsPage,
   ProfilePage,
   PromptCreatePage,
+  PromptPlaygroundPage,
   PromptsPage,
   PromptUpdatePage,
   ResetPasswordPage,
   ScenarioGenCreatePage,
   ScenarioGenDetailsPage,
   ScenarioGenPage,
+  SegmentsPage,
   UiKitPage,
+  UserBulkOperationsPage,
   UserDetailsPage,
   UserProgressPage,
   UsersPage,
@@ -104,6 +113,15 @@ export function AppRoutes() {
           element={<CohortRevenuePage />}
         />
         <Route path="/analytics/active-users" element={<ActiveUsersPage />} />
+        <Route path="/analytics/alerts" element={<AnalyticsAlertsPage />} />
+        <Route
+          path="/analytics/dashboards"
+          element={<AnalyticsDashboardsPage />}
+        />
+        <Route
+          path="/analytics/dashboards/:id"
+          element={<AnalyticsDashboardsPage />}
+        />
         <Route path="/ui" element={<UiKitPage />} />
         <Route path="/characters" element={<CharactersPage />} />
         <Route path="/characters/:id" element={<CharacterDetailsPage />} />
@@ -128,17 +146,25 @@ export function AppRoutes() {
         />
         <Route path="/admins" element={<AdminsPage />} />
         <Route path="/broadcast" element={<BroadcastPage />} />
+        <Route path="/broadcast/history" element={<BroadcastHistoryPage />} />
         <Route path="/batch-images" element={<BatchImagesPage />} />
         <Route
           path="/batch-images/:id"
           element={<BatchImageDetailsPage />}
         />
         <Route path="/users" element={<UsersPage />} />
+        <Route path="/users/bulk" element={<UserBulkOperationsPage />} />
         <Route path="/users/:id" element={<UserDetailsPage />} />
+        <Route path="/segments" element={<SegmentsPage />} />
         <Route path="/user-progress" element={<UserProgressPage />} />
         <Route path="/activations" element={<ActivationsPage />} />
         <Route path="/conversions" element={<ConversionsPage />} />
+        <Route
+          path="/conversions/funnels"
+          element={<ConversionFunnelsPage />}
+        />
         <Route path="/chats" element={<ChatsPage />} />
+        <Route path="/chats/review-queue" element={<ChatReviewQueuePage />} />
         <Route path="/chats/:id" element={<ChatDetailsPage />} />
         <Route path="/generations/new" element={<GenerateImagePage />} />
         <Route path="/generations" element={<GenerationsPage />} />
@@ -150,6 +176,7 @@ export function AppRoutes() {
         <Route path="/videos" element={<VideosPage />} />
         <Route path="/videos/:id" element={<VideoDetailsPage />} />
         <Route path="/logs" element={<LogsPage />} />
+        <Route path="/audit" element={<AuditPage />} />
         <Route path="/loras" element={<LorasPage />} />
         <Route path="/poses" element={<PosesPage />} />
         <Route path="/poses/new" element={<PoseCreatePage />} />
@@ -158,6 +185,10 @@ export function AppRoutes() {
         <Route path="/posts" element={<PostsPage />} />
         <Route path="/prompts" element={<PromptsPage />} />
         <Route path="/prompts/new" element={<PromptCreatePage />} />
+        <Route
+          path="/prompts/playground"
+          element={<PromptPlaygroundPage />}
+        />
         <Route path="/prompts/:id" element={<PromptUpdatePage />} />
         <Route path="/scenario-gen" element={<ScenarioGenPage />} />
         <Route path="/scenario-gen/new" element={<ScenarioGenCreatePage />} />